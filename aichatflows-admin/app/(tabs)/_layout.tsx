@@ -1,9 +1,13 @@
 import { Tabs } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
 import { useTheme } from '../../src/contexts/ThemeContext';
+import { useSyncQueue } from '../../src/hooks/useSyncQueue';
 
 export default function TabLayout() {
   const { theme } = useTheme();
+
+  // Sends anything captured offline once Supabase can be reached again
+  useSyncQueue(true);
   
   // Get theme-specific colors
   const getThemeColors = () => {
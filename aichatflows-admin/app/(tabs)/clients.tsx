@@ -6,9 +6,11 @@ import { Ionicons } from '@expo/vector-icons';
 import { router } from 'expo-router';
 import * as ImagePicker from 'expo-image-picker';
 import { Client, ClientFormData } from '../../src/types';
-import { useClients } from '../../src/hooks/useClients';
-import { validateClient } from '../../src/utils/validation';
+import { RELATED_RECORDS_ERROR, useClients } from '../../src/hooks/useClients';
+import { validateClient, validateCustomFields } from '../../src/utils/validation';
 import { ConfirmDialog } from '../../src/components/ConfirmDialog';
+import { useToast } from '../../src/components/Toast';
+import { UNDO_TOAST_DURATION } from '../../src/utils/trash';
 import { 
   Button, 
   Input, 
@@ -23,15 +25,49 @@ import {
   SearchInput,
   RetentionAnalytics,
   FilterBar,
-  SortDropdown
+  SortDropdown,
+  PipelineBoard,
+  CustomFieldFormField
 } from '../../src/components';
 import { CombinedClientBadges, PlanBadge, PaymentStatusBadge } from '../../src/components/Badges';
-import { PLANS, getClientsNeedingPaymentFollowup } from '../../src/utils/finance';
+import {
+  CLIENT_PLATFORMS,
+  findPlan,
+  getClientPlanInfo,
+  getClientsNeedingPaymentFollowup,
+  getDefaultPlan,
+  getPlanLabel,
+  getPlanPlatforms,
+} from '../../src/utils/finance';
+import { formatMoney, getCurrency } from '../../src/utils/currency';
+import { describeProration } from '../../src/utils/proration';
+import { usePlans } from '../../src/hooks/usePlans';
+import { usePlanChanges } from '../../src/hooks/usePlanChanges';
+import { useInvoices } from '../../src/hooks/useInvoices';
 import { useAdvancedMetrics } from '../../src/hooks/useAdvancedMetrics';
 import { useActivityLog } from '../../src/hooks/useActivityLog';
-import { CLIENT_FILTER_GROUPS } from '../../src/components/FilterBar';
+import { CLIENT_FILTER_GROUPS, getClientCustomFieldFilterGroups } from '../../src/components/FilterBar';
 import { CLIENT_SORT_OPTIONS } from '../../src/components/SortDropdown';
 import { fuzzySearchItems, CLIENT_SEARCH_FIELDS, useDebounceSearch, sortItems } from '../../src/utils/search';
+import { withNoteText } from '../../src/utils/notes';
+import { useNotes } from '../../src/hooks/useNotes';
+import { getClientCsvColumns, getCsvFileName, shareCsv, toCsv } from '../../src/utils/csv';
+import { useCredentialVault } from '../../src/hooks/useCredentialVault';
+import { VaultUnlockModal } from '../../src/components/CredentialVault';
+import { CREDENTIAL_PLATFORMS, getPlatformLabel } from '../../src/utils/vault';
+import { useClientStatusChanges } from '../../src/hooks/useClientStatusChanges';
+import { useSettings } from '../../src/hooks/useSettings';
+import { PIPELINE_STAGES, PipelineStage, getStageLabel } from '../../src/utils/pipeline';
+import { useCustomFields } from '../../src/hooks/useCustomFields';
+import { useClientAttachments } from '../../src/hooks/useClientAttachments';
+import { getFileNameFromUri, isLocalFileUri } from '../../src/utils/attachments';
+import { getAllTags, getCustomFieldInputs, getCustomFieldValues, matchesCustomFieldFilter, normalizeTag, normalizeTags } from '../../src/utils/customFields';
+import { BulkResult, describeBulkResult, runBulkAction } from '../../src/utils/bulk';
+import { usePayments } from '../../src/hooks/usePayments';
+import { useBusinessVisits } from '../../src/hooks/useBusinessVisits';
+import { useClientEvents } from '../../src/hooks/useClientEvents';
+import { HealthScoreBadge } from '../../src/components/HealthScore';
+import { calculateHealthScores, withHealthScores } from '../../src/utils/healthScore';
 
 const statusColors = {
   active: 'status-success',
@@ -41,6 +77,16 @@ const statusColors = {
   unknown: 'bg-gray-50 text-gray-600 border border-gray-200',
 };
 
+// A bulk action in progress, or its summary once finished
+interface BulkRun {
+  title: string;
+  verb: string;
+  done: number;
+  total: number;
+  result: BulkResult<Client> | null;
+  action: (client: Client) => Promise<unknown>;
+}
+
 export default function ClientsScreen() {
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedFilters, setSelectedFilters] = useState<Record<string, any[]>>({});
@@ -55,6 +101,8 @@ export default function ClientsScreen() {
   const [showAddModal, setShowAddModal] = useState(false);
   const [editingClient, setEditingClient] = useState<Client | null>(null);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState<Client | null>(null);
+  const [showVaultModal, setShowVaultModal] = useState(false);
+  const [viewMode, setViewMode] = useState<'list' | 'board'>('list');
   const [validationErrors, setValidationErrors] = useState<Record<string, string>>({});
   const [faqInputType, setFaqInputType] = useState<'text' | 'photo' | null>(null);
   const [faqLocation, setFaqLocation] = useState('');
@@ -94,11 +142,68 @@ export default function ClientsScreen() {
     pickup_notes: '',
     // Photo upload
     photo_url: '',
+    tags: [],
+    custom_fields: {},
   });
+  const [tagInput, setTagInput] = useState('');
+
+  // Multi-select mode for bulk actions on the list
+  const [selectionMode, setSelectionMode] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [showBulkTagModal, setShowBulkTagModal] = useState(false);
+  const [bulkTagInput, setBulkTagInput] = useState('');
+  const [showBulkDeleteConfirm, setShowBulkDeleteConfirm] = useState(false);
+  const [bulkRun, setBulkRun] = useState<BulkRun | null>(null);
   
-  const { clients, loading, error, filterClients, createClient, updateClient, deleteClient, refetch } = useClients();
+  const {
+    clients,
+    loading,
+    error,
+    filterClients,
+    createClient,
+    updateClient,
+    deleteClient,
+    restoreClient,
+    refetch,
+    refetchSilent,
+  } = useClients();
+  const { showToast } = useToast();
+  const { notes } = useNotes();
+  const { plans, activePlans } = usePlans();
+  const { invoices } = useInvoices();
+  const { previewPlanChange, changeClientPlan } = usePlanChanges();
+  const { status: vaultStatus, setUpVault, unlockVault, saveClientCredentials } = useCredentialVault();
+  const { definitions: customFields } = useCustomFields();
+  const { uploadAttachment } = useClientAttachments();
+
+  // Plan filter options come from the catalog; tags and custom fields add their own facets
+  const filterGroups = useMemo(() => [
+    ...CLIENT_FILTER_GROUPS.map(group => group.id === 'plan'
+      ? { ...group, options: plans.map(plan => ({ key: plan.name, label: plan.label, value: plan.name })) }
+      : group
+    ),
+    ...getClientCustomFieldFilterGroups(customFields, clients),
+  ], [plans, customFields, clients]);
+  // The platforms offered in the form follow the selected plan
+  const formPlan = findPlan(plans, newClient.plan) || getDefaultPlan(plans);
+  const formPlatforms = getPlanPlatforms(formPlan);
+  const allTags = useMemo(() => getAllTags(clients), [clients]);
   const { retention } = useAdvancedMetrics();
-  const { logPlanChange, logPaymentStatusChange, logClientCreated } = useActivityLog();
+  const { logPlanChange, logClientCreated, logStatusChange } = useActivityLog();
+  const { statusChanges, refetchSilent: refetchStatusChanges } = useClientStatusChanges();
+  const { settings } = useSettings();
+  const { payments } = usePayments();
+  const { visits } = useBusinessVisits();
+  const { events } = useClientEvents();
+
+  const healthScores = useMemo(
+    () => calculateHealthScores(
+      clients,
+      { payments, invoices, visits, events, statusChanges, plans },
+      settings.healthScoreWeights
+    ),
+    [clients, payments, invoices, visits, events, statusChanges, plans, settings.healthScoreWeights]
+  );
 
   // Safe navigation function with error handling
   const navigateToClient = useCallback((clientId: string) => {
@@ -130,7 +235,7 @@ export default function ClientsScreen() {
             case 'signup_type':
               return values.includes(client.signed_in_person);
             default:
-              return true;
+              return matchesCustomFieldFilter(client, groupId, values);
           }
         });
       });
@@ -140,7 +245,7 @@ export default function ClientsScreen() {
 
     // Apply fuzzy search
     if (debouncedSearch.trim()) {
-      const searchResults = fuzzySearchItems(result, debouncedSearch, CLIENT_SEARCH_FIELDS);
+      const searchResults = fuzzySearchItems(withNoteText(result, notes, 'client'), debouncedSearch, CLIENT_SEARCH_FIELDS);
       result = searchResults.map(r => r.item);
     }
 
@@ -148,7 +253,10 @@ export default function ClientsScreen() {
     if (selectedSort) {
       const sortOption = CLIENT_SORT_OPTIONS.find(opt => opt.key === selectedSort);
       if (sortOption) {
-        result = sortItems(result, { field: sortOption.field as keyof Client, direction: sortOption.direction });
+        result = sortItems(withHealthScores(result, healthScores), {
+          field: sortOption.field as keyof Client,
+          direction: sortOption.direction,
+        });
       }
     } else {
       // Default sort: newest first
@@ -156,7 +264,7 @@ export default function ClientsScreen() {
     }
 
     return result;
-  }, [clients, selectedFilters, debouncedSearch, selectedSort]);
+  }, [clients, notes, selectedFilters, debouncedSearch, selectedSort, healthScores]);
 
   // Legacy for components that still use filteredClients
   const filteredClients = filteredAndSortedClients;
@@ -172,6 +280,16 @@ export default function ClientsScreen() {
     };
   }, [clients]);
 
+  // Export exactly what the list shows: current filters, search and sort
+  const handleExportCsv = async () => {
+    try {
+      await shareCsv(getCsvFileName('clients'), toCsv(filteredClients, getClientCsvColumns(plans, customFields)));
+    } catch (error: any) {
+      console.error('Failed to export clients:', error);
+      Alert.alert('Error', `Failed to export clients: ${error.message}`);
+    }
+  };
+
   const onRefresh = async () => {
     setRefreshing(true);
     await refetch();
@@ -255,8 +373,8 @@ export default function ClientsScreen() {
       facebook_url: '',
       tiktok_handle: '',
       delivery_preference: 'delivery',
-      platform_preference: 'instagram',
-      plan: 'starter',
+      platform_preference: getPlanPlatforms(getDefaultPlan(plans))[0],
+      plan: getDefaultPlan(plans).name,
       payment_status: 'unpaid',
       signed_in_person: false,
       payment_method: '',
@@ -282,7 +400,10 @@ export default function ClientsScreen() {
       pickup_notes: '',
       // Photo upload
       photo_url: '',
+      tags: [],
+      custom_fields: {},
     });
+    setTagInput('');
     setValidationErrors({});
     setEditingClient(null);
     setFaqInputType(null);
@@ -319,10 +440,10 @@ export default function ClientsScreen() {
       has_faqs: client.has_faqs || false,
       faq_location: client.faq_location || '',
       consent_to_share: client.consent_to_share || false,
-      // Login credentials
-      instagram_password: client.instagram_password || '',
-      facebook_password: client.facebook_password || '',
-      tiktok_password: client.tiktok_password || '',
+      // Login credentials are never read back into the form; blank keeps what's in the vault
+      instagram_password: '',
+      facebook_password: '',
+      tiktok_password: '',
       // Delivery details
       delivery_method: client.delivery_method || '',
       delivery_notes: client.delivery_notes || '',
@@ -331,7 +452,10 @@ export default function ClientsScreen() {
       pickup_notes: client.pickup_notes || '',
       // Photo upload
       photo_url: client.photo_url || '',
+      tags: client.tags || [],
+      custom_fields: getCustomFieldInputs(customFields, client.custom_fields),
     });
+    setTagInput('');
     setEditingClient(client);
     setValidationErrors({});
     // Set FAQ state for editing
@@ -344,28 +468,95 @@ export default function ClientsScreen() {
     setShowAddModal(true);
   };
 
+  // Tags already used on other clients, so spellings stay consistent
+  const tagSuggestions = allTags
+    .filter(tag => !newClient.tags?.includes(tag) && tag.startsWith(normalizeTag(tagInput)))
+    .slice(0, 8);
+
+  // Typing a comma turns what came before it into tags
+  const handleTagInputChange = (text: string) => {
+    const parts = text.split(',');
+    if (parts.length > 1) {
+      setNewClient(prev => ({ ...prev, tags: normalizeTags([...(prev.tags || []), ...parts.slice(0, -1)]) }));
+    }
+    setTagInput(parts[parts.length - 1]);
+  };
+
+  const addTag = (tag: string) => {
+    setNewClient(prev => ({ ...prev, tags: normalizeTags([...(prev.tags || []), tag]) }));
+    setTagInput('');
+  };
+
+  const removeTag = (tag: string) => {
+    setNewClient(prev => ({ ...prev, tags: (prev.tags || []).filter(t => t !== tag) }));
+  };
+
   const handleCreateClient = async () => {
     const validation = validateClient(newClient);
+    const customValidation = validateCustomFields(customFields, newClient.custom_fields);
     
-    if (!validation.isValid) {
-      setValidationErrors(validation.errors);
+    if (!validation.isValid || !customValidation.isValid) {
+      setValidationErrors({ ...validation.errors, ...customValidation.errors });
+      return;
+    }
+
+    // A photo picked on this device is uploaded as an attachment once the client is saved, not stored as a local path
+    const localPhotoUri = isLocalFileUri(newClient.photo_url) && newClient.photo_url !== editingClient?.photo_url
+      ? newClient.photo_url
+      : undefined;
+
+    // A tag still being typed is kept; custom field inputs are stored typed
+    const clientData = {
+      ...newClient,
+      photo_url: localPhotoUri ? '' : newClient.photo_url,
+      tags: normalizeTags([...(newClient.tags || []), tagInput]),
+      custom_fields: getCustomFieldValues(customFields, newClient.custom_fields, editingClient?.custom_fields),
+    };
+    const uploadPickedPhoto = (clientId: string) => {
+      if (!localPhotoUri) return;
+      // Uploads in the background; the hook reports a failure
+      uploadAttachment(
+        { uri: localPhotoUri, name: getFileNameFromUri(localPhotoUri, 'photo.jpg') },
+        faqInputType === 'photo' ? 'faq' : 'photo',
+        clientId
+      );
+    };
+
+    // Passwords are encrypted with the vault key, so it has to be unlocked first
+    const hasCredentials = CREDENTIAL_PLATFORMS.some(platform => newClient[`${platform}_password`]?.trim());
+    if (hasCredentials && vaultStatus !== 'unlocked') {
+      if (vaultStatus === 'unavailable') {
+        Alert.alert('Credential Vault Unavailable', 'Passwords cannot be saved until the credential vault is set up in the database.');
+      } else {
+        setShowVaultModal(true);
+      }
       return;
     }
 
     try {
       if (editingClient) {
-        // Update existing client
-        await updateClient(editingClient.id, newClient);
-        Alert.alert('Success', 'Client updated successfully!');
+        // Update existing client; plan changes go through the prorated plan change
+        const planChanged = !!newClient.plan && newClient.plan !== editingClient.plan;
+        await updateClient(editingClient.id, { ...clientData, plan: editingClient.plan });
+        await saveClientCredentials(editingClient.id, newClient);
+        uploadPickedPhoto(editingClient.id);
+        if (planChanged && newClient.plan) {
+          const proration = await applyPlanChange(editingClient, newClient.plan);
+          Alert.alert('Success', `Client updated successfully! ${describeProration(proration)}.`);
+        } else {
+          Alert.alert('Success', 'Client updated successfully!');
+        }
       } else {
         // Create new client
-        const newClientResponse = await createClient(newClient);
+        const newClientResponse = await createClient(clientData);
         if (newClientResponse) {
+          await saveClientCredentials(newClientResponse.id, newClient);
+          uploadPickedPhoto(newClientResponse.id);
           // Log the activity
           logClientCreated(
             newClientResponse.id, 
             newClient.name, 
-            newClient.plan || 'starter', 
+            newClient.plan || getDefaultPlan(plans).name, 
             newClient.signed_in_person || false
           );
         }
@@ -381,46 +572,248 @@ export default function ClientsScreen() {
 
   const handleDeleteClient = async (client: Client) => {
     try {
-      await deleteClient(client.id);
+      const deleted = await deleteClient(client.id);
       setShowDeleteConfirm(null);
-      Alert.alert('Success', 'Client deleted successfully!');
+      if (deleted) {
+        showToast('success', 'Client deleted', `${client.name} was moved to the Trash`, {
+          duration: UNDO_TOAST_DURATION,
+          action: {
+            label: 'Undo',
+            onPress: () => {
+              restoreClient(client.id).catch(() => {
+                // Error already handled in hook
+              });
+            },
+          },
+        });
+      }
     } catch (error) {
       // Error already handled in hook
     }
   };
 
-  // Phase 7: Payment status and plan update handlers
-  const handleUpdatePaymentStatus = async (clientId: string, status: 'paid' | 'unpaid' | 'overdue') => {
+  // Move a client to another plan, prorating the rest of the billing period
+  const applyPlanChange = async (client: Client, plan: string, showAlert = true) => {
+    const oldPlan = getClientPlanInfo(client, plans).name;
+    const { proration } = await changeClientPlan(client, plan, plans, invoices, payments, new Date(), showAlert);
+
+    // Log the activity
+    logPlanChange(client.id, client.name, oldPlan, plan, {
+      effectiveDate: proration.effectiveDate,
+      prorationAmount: proration.amount,
+    });
+    return proration;
+  };
+
+  // Phase 7: Plan update handler (payment status is derived from invoices)
+  const handleUpdatePlan = (clientId: string, plan: string) => {
+    const client = clients.find(c => c.id === clientId);
+    const proration = client ? previewPlanChange(client, plan, plans) : null;
+    if (!client || !proration || client.plan === plan) return;
+
+    Alert.alert(
+      `Change to ${getPlanLabel(plans, plan)}`,
+      `${describeProration(proration)}. The change takes effect today.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Change Plan',
+          onPress: async () => {
+            try {
+              await applyPlanChange(client, plan);
+              Alert.alert('Success', `Plan updated to ${getPlanLabel(plans, plan)}`);
+            } catch (error) {
+              // Error already handled in hook
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  // Board moves go through the regular update; the status history trigger timestamps them
+  const handleMoveClient = async (client: Client, status: PipelineStage) => {
+    if (client.status === status) return;
     try {
-      const client = clients.find(c => c.id === clientId);
-      if (!client) return;
-
-      const oldStatus = client.payment_status || 'unpaid';
-      await updateClient(clientId, { ...client, payment_status: status });
-      
-      // Log the activity
-      logPaymentStatusChange(clientId, client.name, oldStatus, status);
-      
-      Alert.alert('Success', `Payment status updated to ${status}`);
-    } catch (error: any) {
-      Alert.alert('Error', `Failed to update payment status: ${error.message}`);
+      await updateClient(client.id, { status });
+      logStatusChange(client.id, client.name, client.status, status);
+      await refetchStatusChanges();
+    } catch (error) {
+      // Error already handled in hook
+    }
+  };
+
+  const handleMovePress = (client: Client) => {
+    Alert.alert(`Move ${client.name}`, `Currently ${getStageLabel(client.status)}`, [
+      ...PIPELINE_STAGES
+        .filter(stage => stage.status !== client.status)
+        .map(stage => ({ text: stage.label, onPress: () => handleMoveClient(client, stage.status) })),
+      { text: 'Cancel', style: 'cancel' as const },
+    ]);
+  };
+
+  const selectedClients = useMemo(
+    () => clients.filter(client => selectedIds.includes(client.id)),
+    [clients, selectedIds]
+  );
+
+  const toggleSelected = useCallback((clientId: string) => {
+    setSelectedIds(prev => prev.includes(clientId) ? prev.filter(id => id !== clientId) : [...prev, clientId]);
+  }, []);
+
+  // Long-pressing a card starts selecting with that client
+  const startSelection = useCallback((clientId?: string) => {
+    setSelectionMode(true);
+    setSelectedIds(clientId ? [clientId] : []);
+  }, []);
+
+  const exitSelection = () => {
+    setSelectionMode(false);
+    setSelectedIds([]);
+  };
+
+  const allVisibleSelected = filteredClients.length > 0 && filteredClients.every(client => selectedIds.includes(client.id));
+
+  const toggleSelectAll = () => {
+    setSelectedIds(allVisibleSelected ? [] : filteredClients.map(client => client.id));
+  };
+
+  // Apply an action to each client in turn. Failed clients stay selected so the batch can be retried
+  const runBulk = async (title: string, verb: string, targets: Client[], action: BulkRun['action']) => {
+    if (targets.length === 0) {
+      Alert.alert(title, 'Nothing to change for the selected clients.');
+      return null;
     }
+
+    setBulkRun({ title, verb, done: 0, total: targets.length, result: null, action });
+    const result = await runBulkAction(targets, action, (done, total) => {
+      setBulkRun(prev => prev && { ...prev, done, total });
+    });
+    setBulkRun(prev => prev && { ...prev, result });
+    setSelectedIds(result.failed.map(failure => failure.item.id));
+
+    await refetchSilent().catch(() => {
+      // Error already handled in hook
+    });
+    return result;
+  };
+
+  const handleBulkStatus = () => {
+    Alert.alert('Change Status', `${selectedClients.length} selected`, [
+      ...PIPELINE_STAGES.map(stage => ({
+        text: stage.label,
+        onPress: async () => {
+          await runBulk(
+            `Moving to ${stage.label}`,
+            'moved',
+            selectedClients.filter(client => client.status !== stage.status),
+            async (client) => {
+              await updateClient(client.id, { status: stage.status }, false);
+              logStatusChange(client.id, client.name, client.status, stage.status);
+            }
+          );
+          await refetchStatusChanges().catch(() => {
+            // Error already handled in hook
+          });
+        },
+      })),
+      { text: 'Cancel', style: 'cancel' as const },
+    ]);
+  };
+
+  const handleBulkPlan = () => {
+    Alert.alert('Change Plan', 'Each client is prorated for the rest of their billing period.', [
+      ...activePlans.map(plan => ({
+        text: plan.label,
+        onPress: () => runBulk(
+          `Changing to ${plan.label}`,
+          'moved',
+          selectedClients.filter(client => client.plan !== plan.name),
+          (client) => applyPlanChange(client, plan.name, false)
+        ),
+      })),
+      { text: 'Cancel', style: 'cancel' as const },
+    ]);
   };
 
-  const handleUpdatePlan = async (clientId: string, plan: 'starter' | 'pro') => {
+  const handleBulkAddTag = (rawTag: string) => {
+    const tag = normalizeTag(rawTag);
+    if (!tag) return;
+    setShowBulkTagModal(false);
+    setBulkTagInput('');
+    runBulk(
+      `Tagging "${tag}"`,
+      'tagged',
+      selectedClients.filter(client => !client.tags?.includes(tag)),
+      (client) => updateClient(client.id, { tags: [...(client.tags || []), tag] }, false)
+    );
+  };
+
+  const handleBulkExport = async () => {
     try {
-      const client = clients.find(c => c.id === clientId);
-      if (!client) return;
-
-      const oldPlan = client.plan || 'starter';
-      await updateClient(clientId, { ...client, plan });
-      
-      // Log the activity
-      logPlanChange(clientId, client.name, oldPlan, plan);
-      
-      Alert.alert('Success', `Plan updated to ${plan}`);
+      await shareCsv(getCsvFileName('clients'), toCsv(selectedClients, getClientCsvColumns(plans, customFields)));
     } catch (error: any) {
-      Alert.alert('Error', `Failed to update plan: ${error.message}`);
+      console.error('Failed to export clients:', error);
+      Alert.alert('Error', `Failed to export clients: ${error.message}`);
+    }
+  };
+
+  // Clients with payments or submissions are skipped, the same as a single delete
+  const handleBulkDelete = async () => {
+    setShowBulkDeleteConfirm(false);
+    const result = await runBulk('Deleting clients', 'deleted', selectedClients, (client) => deleteClient(client.id, false));
+    if (!result || result.succeeded.length === 0) return;
+
+    const deleted = result.succeeded;
+    showToast('success', describeBulkResult({ succeeded: deleted, failed: [] }, 'client', 'deleted'), 'Moved to the Trash', {
+      duration: UNDO_TOAST_DURATION,
+      action: {
+        label: 'Undo',
+        onPress: () => {
+          runBulkAction(deleted, (client) => restoreClient(client.id, false)).then(restored => {
+            if (restored.failed.length > 0) {
+              Alert.alert('Undo', `${describeBulkResult(restored, 'client', 'restored')}. The rest are still in the Trash.`);
+            }
+          });
+        },
+      },
+    });
+  };
+
+  const retryBulkFailures = () => {
+    if (!bulkRun?.result) return;
+    // Blocked deletes would only fail again
+    const failedIds = bulkRun.result.failed
+      .filter(failure => failure.error !== RELATED_RECORDS_ERROR)
+      .map(failure => failure.item.id);
+    runBulk(bulkRun.title, bulkRun.verb, clients.filter(client => failedIds.includes(client.id)), bulkRun.action);
+  };
+
+  const blockedDeletes = bulkRun?.result?.failed.filter(failure => failure.error === RELATED_RECORDS_ERROR) || [];
+
+  // Blocked deletes get the same fallback as a single delete: set them to cancelled
+  const cancelBlockedDeletes = () => {
+    const blockedIds = blockedDeletes.map(failure => failure.item.id);
+    runBulk(
+      'Setting to Cancelled',
+      'cancelled',
+      clients.filter(client => blockedIds.includes(client.id) && client.status !== 'cancelled'),
+      async (client) => {
+        await updateClient(client.id, { status: 'cancelled' }, false);
+        logStatusChange(client.id, client.name, client.status, 'cancelled');
+      }
+    )
+      .then(() => refetchStatusChanges())
+      .catch(() => {
+        // Error already handled in hook
+      });
+  };
+
+  const closeBulkRun = () => {
+    if (bulkRun && !bulkRun.result) return;
+    setBulkRun(null);
+    if (selectedIds.length === 0) {
+      setSelectionMode(false);
     }
   };
 
@@ -479,11 +872,13 @@ export default function ClientsScreen() {
 
   const renderClient = useCallback(({ item }: { item: Client }) => {
     const statusConfig = getStatusConfig(item.status || 'unknown');
+    const isSelected = selectedIds.includes(item.id);
     
     return (
       <TouchableOpacity 
-        className="card-elevated mb-4"
-        onPress={() => navigateToClient(item.id)}
+        className={`card-elevated mb-4 ${isSelected ? 'border-2 border-primary' : ''}`}
+        onPress={() => selectionMode ? toggleSelected(item.id) : navigateToClient(item.id)}
+        onLongPress={selectionMode ? undefined : () => startSelection(item.id)}
         activeOpacity={0.95}
       >
         <View className="flex-row items-start justify-between">
@@ -522,33 +917,25 @@ export default function ClientsScreen() {
                 <Text className="text-text-primary font-bold text-base">
                   {item.business_name ? `${item.business_name} • ` : ''}
                   <Text className="text-blue-600 font-bold">
-                    {(item.plan || 'starter').toUpperCase()}
+                    {getClientPlanInfo(item, plans).label.toUpperCase()}
                   </Text>
                 </Text>
               </View>
               
               <CombinedClientBadges 
                 client={item}
-                onPaymentPress={() => {
-                  Alert.alert(
-                    'Update Payment Status',
-                    `Current status: ${item.payment_status || 'unpaid'}`,
-                    [
-                      { text: 'Mark as Paid', onPress: () => handleUpdatePaymentStatus(item.id, 'paid') },
-                      { text: 'Mark as Unpaid', onPress: () => handleUpdatePaymentStatus(item.id, 'unpaid') },
-                      { text: 'Mark as Overdue', onPress: () => handleUpdatePaymentStatus(item.id, 'overdue') },
-                      { text: 'Cancel', style: 'cancel' }
-                    ]
-                  );
-                }}
+                plans={plans}
+                onPaymentPress={() => router.push(`/client/${item.id}`)}
                 onPlanPress={() => {
                   Alert.alert(
                     'Change Plan',
-                    `Current plan: ${item.plan || 'starter'}`,
+                    `Current plan: ${getClientPlanInfo(item, plans).label}`,
                     [
-                      { text: 'Starter ($100)', onPress: () => handleUpdatePlan(item.id, 'starter') },
-                      { text: 'Pro ($150)', onPress: () => handleUpdatePlan(item.id, 'pro') },
-                      { text: 'Cancel', style: 'cancel' }
+                      ...activePlans.map(plan => ({
+                        text: `${plan.label} (${formatMoney(plan.price, getCurrency(plan))}${plan.billing_interval === 'year' ? '/yr' : ''})`,
+                        onPress: () => handleUpdatePlan(item.id, plan.name),
+                      })),
+                      { text: 'Cancel', style: 'cancel' as const }
                     ]
                   );
                 }}
@@ -570,6 +957,10 @@ export default function ClientsScreen() {
                     </Text>
                   </View>
                 )}
+
+                <View className="ml-2">
+                  <HealthScoreBadge health={healthScores[item.id]} />
+                </View>
               </View>
               
               <Text className="text-xs text-text-muted">
@@ -579,32 +970,38 @@ export default function ClientsScreen() {
           </View>
           
           {/* Action Buttons */}
-          <View className="flex-row items-center space-x-2 ml-3">
-            <TouchableOpacity 
-              className="p-2 bg-primary/20 rounded-lg"
-              onPress={(e) => {
-                e.stopPropagation();
-                handleOpenEditModal(item);
-              }}
-              activeOpacity={0.7}
-            >
-              <Edit size={16} color="#00D4AA" />
-            </TouchableOpacity>
-            <TouchableOpacity 
-              className="p-2 bg-danger/20 rounded-lg"
-              onPress={(e) => {
-                e.stopPropagation();
-                setShowDeleteConfirm(item);
-              }}
-              activeOpacity={0.7}
-            >
-              <Trash2 size={16} color="#FF4757" />
-            </TouchableOpacity>
-          </View>
+          {selectionMode ? (
+            <View className="ml-3 p-1">
+              <Ionicons name={isSelected ? 'checkbox' : 'square-outline'} size={24} color={isSelected ? '#00D4AA' : '#A0A0A0'} />
+            </View>
+          ) : (
+            <View className="flex-row items-center space-x-2 ml-3">
+              <TouchableOpacity 
+                className="p-2 bg-primary/20 rounded-lg"
+                onPress={(e) => {
+                  e.stopPropagation();
+                  handleOpenEditModal(item);
+                }}
+                activeOpacity={0.7}
+              >
+                <Edit size={16} color="#00D4AA" />
+              </TouchableOpacity>
+              <TouchableOpacity 
+                className="p-2 bg-danger/20 rounded-lg"
+                onPress={(e) => {
+                  e.stopPropagation();
+                  setShowDeleteConfirm(item);
+                }}
+                activeOpacity={0.7}
+              >
+                <Trash2 size={16} color="#FF4757" />
+              </TouchableOpacity>
+            </View>
+          )}
         </View>
       </TouchableOpacity>
     );
-  }, [navigateToClient, handleOpenEditModal, setShowDeleteConfirm, formatPhoneNumber, getInitials, getStatusConfig, formatDate]);
+  }, [navigateToClient, handleOpenEditModal, setShowDeleteConfirm, formatPhoneNumber, getInitials, getStatusConfig, formatDate, handleUpdatePlan, plans, activePlans, selectionMode, selectedIds, toggleSelected, startSelection, healthScores]);
 
   if (loading && !refreshing) {
     return (
@@ -698,6 +1095,27 @@ export default function ClientsScreen() {
 
       {/* Enhanced Search Bar with Filters and Sort */}
       <View className="mb-6 gap-4">
+        {/* List or pipeline board */}
+        <View className="flex-row gap-3">
+          {(['list', 'board'] as const).map(mode => (
+            <TouchableOpacity
+              key={mode}
+              className={`flex-1 flex-row items-center justify-center px-4 py-2 rounded-lg border ${
+                viewMode === mode ? 'bg-primary border-primary' : 'bg-white border-gray-300'
+              }`}
+              onPress={() => {
+                setViewMode(mode);
+                exitSelection();
+              }}
+            >
+              <Ionicons name={mode === 'list' ? 'list' : 'albums-outline'} size={16} color={viewMode === mode ? 'white' : '#374151'} />
+              <Text className={`ml-2 font-medium ${viewMode === mode ? 'text-white' : 'text-gray-700'}`}>
+                {mode === 'list' ? 'List' : 'Board'}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
         {/* Search Input with Sort */}
         <View className="flex-row items-center gap-3">
           <View className="flex-1">
@@ -720,7 +1138,7 @@ export default function ClientsScreen() {
         
         {/* Filter Bar */}
         <FilterBar
-          filterGroups={CLIENT_FILTER_GROUPS}
+          filterGroups={filterGroups}
           selectedFilters={selectedFilters}
           onFilterChange={(groupId, values) => {
             setSelectedFilters(prev => ({
@@ -730,6 +1148,54 @@ export default function ClientsScreen() {
           }}
           onClearAll={() => setSelectedFilters({})}
         />
+
+        {/* CSV export of the filtered list and import */}
+        <View className="flex-row gap-3">
+          <View className="flex-1">
+            <Button variant="secondary" size="sm" icon="download-outline" onPress={handleExportCsv} fullWidth>
+              Export CSV
+            </Button>
+          </View>
+          <View className="flex-1">
+            <Button
+              variant="secondary"
+              size="sm"
+              icon="cloud-upload-outline"
+              onPress={() => router.push('/import?type=clients')}
+              fullWidth
+            >
+              Import CSV
+            </Button>
+          </View>
+        </View>
+        <Button
+          variant="secondary"
+          size="sm"
+          icon="git-merge-outline"
+          onPress={() => router.push('/duplicates')}
+          fullWidth
+        >
+          Find Duplicates
+        </Button>
+
+        {/* Multi-select for bulk actions */}
+        {viewMode === 'list' && (selectionMode ? (
+          <View className="flex-row items-center justify-between">
+            <Text className="text-text-primary font-semibold">{selectedIds.length} selected</Text>
+            <View className="flex-row gap-3">
+              <Button variant="secondary" size="sm" onPress={toggleSelectAll}>
+                {allVisibleSelected ? 'Clear' : 'Select All'}
+              </Button>
+              <Button variant="secondary" size="sm" onPress={exitSelection}>
+                Done
+              </Button>
+            </View>
+          </View>
+        ) : (
+          <Button variant="secondary" size="sm" icon="checkbox-outline" onPress={() => startSelection()} fullWidth>
+            Select Clients
+          </Button>
+        ))}
       </View>
     </View>
   );
@@ -737,7 +1203,7 @@ export default function ClientsScreen() {
   return (
     <SafeAreaView className="flex-1 bg-bg-secondary">
       <FlatList
-        data={filteredClients}
+        data={viewMode === 'list' ? filteredClients : []}
         renderItem={renderClient}
         keyExtractor={(item) => item.id}
         showsVerticalScrollIndicator={false}
@@ -750,8 +1216,18 @@ export default function ClientsScreen() {
             tintColor="#00D4AA"
           />
         }
-        contentContainerStyle={{ paddingBottom: 100 }}
-          ListEmptyComponent={
+        contentContainerStyle={{ paddingBottom: selectionMode ? 160 : 100 }}
+        ListFooterComponent={viewMode === 'board' ? (
+          <PipelineBoard
+            clients={filteredClients}
+            statusChanges={statusChanges}
+            staleThresholds={settings.pipelineStaleDays}
+            onClientPress={(client) => navigateToClient(client.id)}
+            onMoveClient={handleMoveClient}
+            onMovePress={handleMovePress}
+          />
+        ) : null}
+          ListEmptyComponent={viewMode === 'board' ? null : (
             <View className="flex-1 justify-center items-center py-16">
               <View className="bg-gray-50 p-6 rounded-card mb-6">
                 <Users 
@@ -778,9 +1254,139 @@ export default function ClientsScreen() {
                 </TouchableOpacity>
               )}
             </View>
-          }
+          )}
         />
 
+        {/* Bulk actions for the selected clients */}
+        {selectionMode && selectedIds.length > 0 && (
+          <View className="absolute bottom-0 left-0 right-0 bg-white border-t border-gray-200 px-4 py-3">
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={{ gap: 8 }}>
+              <Button variant="secondary" size="sm" icon="swap-horizontal-outline" onPress={handleBulkStatus}>
+                Status
+              </Button>
+              <Button variant="secondary" size="sm" icon="pricetag-outline" onPress={handleBulkPlan}>
+                Plan
+              </Button>
+              <Button variant="secondary" size="sm" icon="bookmark-outline" onPress={() => setShowBulkTagModal(true)}>
+                Add Tag
+              </Button>
+              <Button variant="secondary" size="sm" icon="download-outline" onPress={handleBulkExport}>
+                Export
+              </Button>
+              <Button variant="danger" size="sm" icon="trash-outline" onPress={() => setShowBulkDeleteConfirm(true)}>
+                Delete
+              </Button>
+            </ScrollView>
+          </View>
+        )}
+
+        {/* Add a tag to every selected client */}
+        <SimpleFormModal
+          visible={showBulkTagModal}
+          onClose={() => setShowBulkTagModal(false)}
+          title={`Tag ${selectedClients.length} ${selectedClients.length === 1 ? 'Client' : 'Clients'}`}
+          size="md"
+        >
+          <View className="space-y-4">
+            <Input
+              label="Tag"
+              value={bulkTagInput}
+              onChangeText={setBulkTagInput}
+              placeholder="e.g. vip"
+              autoCapitalize="none"
+              onSubmitEditing={() => handleBulkAddTag(bulkTagInput)}
+            />
+            {allTags.length > 0 && (
+              <View className="flex-row flex-wrap gap-2">
+                {allTags
+                  .filter(tag => tag.includes(normalizeTag(bulkTagInput)))
+                  .slice(0, 8)
+                  .map(tag => (
+                    <TouchableOpacity
+                      key={tag}
+                      className="px-3 py-1 rounded-full bg-gray-100"
+                      onPress={() => handleBulkAddTag(tag)}
+                    >
+                      <Text className="text-gray-700 text-sm">{tag}</Text>
+                    </TouchableOpacity>
+                  ))}
+              </View>
+            )}
+            <Button variant="primary" onPress={() => handleBulkAddTag(bulkTagInput)} disabled={!normalizeTag(bulkTagInput)} fullWidth>
+              Add Tag
+            </Button>
+          </View>
+        </SimpleFormModal>
+
+        <ConfirmDialog
+          visible={showBulkDeleteConfirm}
+          title="Delete Clients"
+          message={`Delete ${selectedClients.length} ${selectedClients.length === 1 ? 'client' : 'clients'}? Clients with payments or submissions are skipped. Deleted clients can be restored from the Trash in Settings.`}
+          confirmText="Delete"
+          onConfirm={handleBulkDelete}
+          onCancel={() => setShowBulkDeleteConfirm(false)}
+          icon="trash"
+          destructive
+        />
+
+        {/* Bulk progress, then a summary with anything that failed */}
+        <SimpleFormModal
+          visible={!!bulkRun}
+          onClose={closeBulkRun}
+          title={bulkRun?.title || ''}
+          size="md"
+        >
+          {bulkRun && (
+            <View className="space-y-4">
+              <View>
+                <Text className="text-text-secondary mb-2">
+                  {bulkRun.result
+                    ? describeBulkResult(bulkRun.result, 'client', bulkRun.verb)
+                    : `${bulkRun.done} of ${bulkRun.total}...`}
+                </Text>
+                <View className="h-2 bg-gray-100 rounded-full overflow-hidden">
+                  <View
+                    className={`h-2 rounded-full ${bulkRun.result?.failed.length ? 'bg-warning' : 'bg-primary'}`}
+                    style={{ width: `${Math.round((bulkRun.done / bulkRun.total) * 100)}%` }}
+                  />
+                </View>
+              </View>
+
+              {bulkRun.result && bulkRun.result.failed.length > 0 && (
+                <View>
+                  <Text className="text-text-primary font-semibold mb-2">Failed (still selected)</Text>
+                  <ScrollView style={{ maxHeight: 200 }}>
+                    {bulkRun.result.failed.map(failure => (
+                      <View key={failure.item.id} className="py-2 border-b border-gray-100">
+                        <Text className="text-text-primary">{failure.item.name}</Text>
+                        <Text className="text-xs text-red-500">{failure.error}</Text>
+                      </View>
+                    ))}
+                  </ScrollView>
+                </View>
+              )}
+
+              {bulkRun.result && (
+                <View className="space-y-3">
+                  {blockedDeletes.length > 0 && (
+                    <Button variant="secondary" icon="pause-circle-outline" onPress={cancelBlockedDeletes} fullWidth>
+                      {`Set ${blockedDeletes.length} to Cancelled`}
+                    </Button>
+                  )}
+                  {bulkRun.result.failed.length > blockedDeletes.length && (
+                    <Button variant="secondary" icon="refresh" onPress={retryBulkFailures} fullWidth>
+                      Retry Failed
+                    </Button>
+                  )}
+                  <Button variant="primary" onPress={closeBulkRun} fullWidth>
+                    Done
+                  </Button>
+                </View>
+              )}
+            </View>
+          )}
+        </SimpleFormModal>
+
         {/* Enhanced Add/Edit Client Modal */}
         <SimpleFormModal
           visible={showAddModal}
@@ -900,7 +1506,8 @@ export default function ClientsScreen() {
 
                 {/* Login Credentials */}
                 <View>
-                  <Text className="text-lg font-semibold text-gray-900 mb-3">Login Credentials</Text>
+                  <Text className="text-lg font-semibold text-gray-900 mb-1">Login Credentials</Text>
+                  <Text className="text-sm text-gray-500 mb-3">Encrypted in the credential vault before saving</Text>
                   
                   <View className="space-y-4">
                     {newClient.platform_preference === 'instagram' && (
@@ -910,33 +1517,33 @@ export default function ClientsScreen() {
                           className="border border-gray-300 rounded-lg px-4 py-3 text-base"
                           value={newClient.instagram_password}
                           onChangeText={(text) => setNewClient({ ...newClient, instagram_password: text })}
-                          placeholder="Enter Instagram password"
+                          placeholder={editingClient ? 'Leave blank to keep current' : 'Enter Instagram password'}
                           secureTextEntry
                         />
                       </View>
                     )}
 
-                    {newClient.platform_preference === 'facebook' && newClient.plan === 'pro' && (
+                    {newClient.platform_preference === 'facebook' && formPlatforms.includes('facebook') && (
                       <View>
                         <Text className="text-sm font-medium text-gray-700 mb-2">Facebook Password</Text>
                         <TextInput
                           className="border border-gray-300 rounded-lg px-4 py-3 text-base"
                           value={newClient.facebook_password}
                           onChangeText={(text) => setNewClient({ ...newClient, facebook_password: text })}
-                          placeholder="Enter Facebook password"
+                          placeholder={editingClient ? 'Leave blank to keep current' : 'Enter Facebook password'}
                           secureTextEntry
                         />
                       </View>
                     )}
 
-                    {newClient.platform_preference === 'tiktok' && newClient.plan === 'pro' && (
+                    {newClient.platform_preference === 'tiktok' && formPlatforms.includes('tiktok') && (
                       <View>
                         <Text className="text-sm font-medium text-gray-700 mb-2">TikTok Password</Text>
                         <TextInput
                           className="border border-gray-300 rounded-lg px-4 py-3 text-base"
                           value={newClient.tiktok_password}
                           onChangeText={(text) => setNewClient({ ...newClient, tiktok_password: text })}
-                          placeholder="Enter TikTok password"
+                          placeholder={editingClient ? 'Leave blank to keep current' : 'Enter TikTok password'}
                           secureTextEntry
                         />
                       </View>
@@ -975,8 +1582,8 @@ export default function ClientsScreen() {
                     <View>
                       <Text className="text-sm font-medium text-gray-700 mb-2">Platform Preference *</Text>
                       <View className="flex-row space-x-2">
-                        {(['instagram', 'facebook', 'tiktok'] as const).map((platform) => {
-                          const isDisabled = newClient.plan === 'starter' && platform !== 'instagram';
+                        {CLIENT_PLATFORMS.map((platform) => {
+                          const isDisabled = !formPlatforms.includes(platform);
                           return (
                             <TouchableOpacity
                               key={platform}
@@ -1007,9 +1614,9 @@ export default function ClientsScreen() {
                           );
                         })}
                       </View>
-                      {newClient.plan === 'starter' && (
+                      {formPlatforms.length < CLIENT_PLATFORMS.length && (
                         <Text className="text-xs text-gray-500 mt-2">
-                          Starter plan includes Instagram only. Upgrade to Pro for Facebook and TikTok.
+                          {formPlan.label} plan includes {formPlatforms.map(getPlatformLabel).join(' and ')} only.
                         </Text>
                       )}
                     </View>
@@ -1112,31 +1719,33 @@ export default function ClientsScreen() {
                   <View className="space-y-4">
                     <View>
                       <Text className="text-sm font-medium text-gray-700 mb-2">Plan *</Text>
-                      <View className="flex-row space-x-2">
-                        {(['starter', 'pro'] as const).map((plan) => (
+                      <View className="flex-row flex-wrap gap-2">
+                        {activePlans.map((plan) => (
                           <TouchableOpacity
-                            key={plan}
-                            className={`flex-1 px-4 py-3 rounded-lg border ${
-                              newClient.plan === plan
+                            key={plan.name}
+                            className={`flex-1 min-w-[45%] px-4 py-3 rounded-lg border ${
+                              newClient.plan === plan.name
                                 ? 'bg-primary border-primary'
                                 : 'bg-white border-gray-300'
                             }`}
                             onPress={() => setNewClient({ 
                               ...newClient, 
-                              plan,
-                              // Reset platform preference if switching to starter
-                              platform_preference: plan === 'starter' ? 'instagram' : newClient.platform_preference
+                              plan: plan.name,
+                              // Reset the platform preference if the new plan doesn't cover it
+                              platform_preference: newClient.platform_preference && getPlanPlatforms(plan).includes(newClient.platform_preference)
+                                ? newClient.platform_preference
+                                : getPlanPlatforms(plan)[0]
                             })}
                           >
                             <Text className={`text-center font-medium ${
-                              newClient.plan === plan ? 'text-white' : 'text-gray-700'
+                              newClient.plan === plan.name ? 'text-white' : 'text-gray-700'
                             }`}>
-                              {plan.charAt(0).toUpperCase() + plan.slice(1)}
+                              {plan.label}
                             </Text>
                             <Text className={`text-center text-sm ${
-                              newClient.plan === plan ? 'text-white' : 'text-gray-500'
+                              newClient.plan === plan.name ? 'text-white' : 'text-gray-500'
                             }`}>
-                              {plan === 'starter' ? '$100' : '$150'}
+                              ${plan.price}{plan.billing_interval === 'year' ? '/yr' : '/mo'}
                             </Text>
                           </TouchableOpacity>
                         ))}
@@ -1166,34 +1775,11 @@ export default function ClientsScreen() {
                       </View>
                     </View>
 
-                    {/* Phase 7: Payment Status Selection */}
+                    {/* Phase 7: Payment status comes from the invoice ledger */}
                     <View>
                       <Text className="text-sm font-medium text-gray-700 mb-2">Payment Status</Text>
-                      <View className="flex-row space-x-2">
-                        {(['paid', 'unpaid', 'overdue'] as const).map((paymentStatus) => (
-                          <TouchableOpacity
-                            key={paymentStatus}
-                            className={`flex-1 px-3 py-3 rounded-lg border-2 ${
-                              newClient.payment_status === paymentStatus
-                                ? paymentStatus === 'paid' 
-                                  ? 'bg-green-500 border-green-500'
-                                  : paymentStatus === 'unpaid'
-                                  ? 'bg-yellow-500 border-yellow-500' 
-                                  : 'bg-red-500 border-red-500'
-                                : 'bg-white border-gray-300'
-                            }`}
-                            onPress={() => setNewClient({ ...newClient, payment_status: paymentStatus })}
-                          >
-                            <Text className={`text-center font-medium text-sm ${
-                              newClient.payment_status === paymentStatus ? 'text-white' : 'text-gray-700'
-                            }`}>
-                              {paymentStatus.charAt(0).toUpperCase() + paymentStatus.slice(1)}
-                            </Text>
-                          </TouchableOpacity>
-                        ))}
-                      </View>
-                      <Text className="text-xs text-gray-500 mt-2">
-                        Default is &quot;unpaid&quot; - update when payment is received
+                      <Text className="text-xs text-gray-500">
+                        Set automatically from the client&apos;s invoices once they are billed
                       </Text>
                     </View>
                   </View>
@@ -1272,6 +1858,65 @@ export default function ClientsScreen() {
                   </View>
                 </View>
 
+                {/* Tags & Custom Fields */}
+                <View>
+                  <Text className="text-lg font-semibold text-gray-900 mb-3">Tags & Custom Fields</Text>
+
+                  <View className="space-y-4">
+                    <FormField label="Tags" helperText="Separate tags with commas" spacing="compact">
+                      <Input
+                        value={tagInput}
+                        onChangeText={handleTagInputChange}
+                        onSubmitEditing={() => addTag(tagInput)}
+                        placeholder="e.g. vip, wholesale"
+                        autoCapitalize="none"
+                        leftIcon="pricetag-outline"
+                        returnKeyType="done"
+                      />
+                      {(newClient.tags || []).length > 0 && (
+                        <View className="flex-row flex-wrap gap-2 mt-2">
+                          {(newClient.tags || []).map((tag) => (
+                            <TouchableOpacity
+                              key={tag}
+                              className="flex-row items-center px-3 py-1 rounded-full bg-primary"
+                              onPress={() => removeTag(tag)}
+                            >
+                              <Text className="text-white text-sm mr-1">{tag}</Text>
+                              <Ionicons name="close" size={14} color="#FFFFFF" />
+                            </TouchableOpacity>
+                          ))}
+                        </View>
+                      )}
+                      {tagSuggestions.length > 0 && (
+                        <View className="flex-row flex-wrap gap-2 mt-2">
+                          {tagSuggestions.map((tag) => (
+                            <TouchableOpacity
+                              key={tag}
+                              className="px-3 py-1 rounded-full border border-gray-300"
+                              onPress={() => addTag(tag)}
+                            >
+                              <Text className="text-gray-700 text-sm">+ {tag}</Text>
+                            </TouchableOpacity>
+                          ))}
+                        </View>
+                      )}
+                    </FormField>
+
+                    {customFields.map((definition) => (
+                      <CustomFieldFormField
+                        key={definition.id}
+                        definition={definition}
+                        value={newClient.custom_fields?.[definition.key] || ''}
+                        onChange={(value) => setNewClient(prev => ({
+                          ...prev,
+                          custom_fields: { ...prev.custom_fields, [definition.key]: value },
+                        }))}
+                        error={validationErrors[`custom_${definition.key}`]}
+                      />
+                    ))}
+                  </View>
+                </View>
+
                 {/* Additional Information */}
                 <View>
                   <Text className="text-lg font-semibold text-gray-900 mb-3">Additional Information</Text>
@@ -1490,11 +2135,19 @@ export default function ClientsScreen() {
           })()}
         </SimpleFormModal>
 
+        {/* Vault passphrase prompt */}
+        <VaultUnlockModal
+          visible={showVaultModal}
+          mode={vaultStatus === 'not_set_up' ? 'set_up' : 'unlock'}
+          onClose={() => setShowVaultModal(false)}
+          onSubmit={vaultStatus === 'not_set_up' ? setUpVault : unlockVault}
+        />
+
         {/* Delete Confirmation Dialog */}
         <ConfirmDialog
           visible={!!showDeleteConfirm}
           title="Delete Client"
-          message={`Are you sure you want to delete ${showDeleteConfirm?.name}? This action cannot be undone.`}
+          message={`Are you sure you want to delete ${showDeleteConfirm?.name}? You can restore them from the Trash in Settings.`}
           confirmText="Delete"
           onConfirm={() => showDeleteConfirm && handleDeleteClient(showDeleteConfirm)}
           onCancel={() => setShowDeleteConfirm(null)}
@@ -6,6 +6,8 @@ import { Ionicons } from '@expo/vector-icons';
 import { router } from 'expo-router';
 import { useAuth } from '../../src/hooks/useAuth';
 import { useDashboardStats } from '../../src/hooks/useDashboardStats';
+import { RevenueBreakdown } from '../../src/types';
+import { formatForeignTotals, formatMoney } from '../../src/utils/currency';
 import { useAdvancedMetrics } from '../../src/hooks/useAdvancedMetrics';
 import { useNotifications } from '../../src/hooks/useNotifications';
 import { 
@@ -13,14 +15,23 @@ import {
   Badge, StatusBadge, MetricsSummary, QuickSummaryCard, CompactStreakIndicator, 
   CompactRetentionIndicator, ClientsChart, RevenueChart, NotificationCenter, NotificationBell
 } from '../../src/components';
-import { calculateRevenueStats, formatCurrency as formatCurrencyUtil, generateRevenueSummary } from '../../src/utils/finance';
+import { calculateRevenueStats, calculateMRR, generateRevenueSummary, getPlanColor } from '../../src/utils/finance';
 import { useActivityLog } from '../../src/hooks/useActivityLog';
 import { ActivityLog } from '../../src/components/ActivityLog';
 import { showDemoResetDialog, showClearDataDialog } from '../../src/utils/demoData';
 import { useClients } from '../../src/hooks/useClients';
 import { useGoals } from '../../src/hooks/useGoals';
 import { useBusinessVisits } from '../../src/hooks/useBusinessVisits';
+import { usePayments } from '../../src/hooks/usePayments';
+import { useInvoices } from '../../src/hooks/useInvoices';
+import { useDunning } from '../../src/hooks/useDunning';
+import { usePlans } from '../../src/hooks/usePlans';
+import { useSettings } from '../../src/hooks/useSettings';
 import { useNotificationCenter } from '../../src/hooks/useNotificationCenter';
+import { useTasks } from '../../src/hooks/useTasks';
+import { useTerritories } from '../../src/hooks/useTerritories';
+import { calculateTerritoryStats, getCoverageLevel, RECENT_TERRITORY_DAYS } from '../../src/utils/territories';
+import { groupTasksForToday } from '../../src/utils/tasks';
 import { getCompletion, isOpenAIConfigured, testEnvironmentVariables } from '../../src/utils/openai';
 
 export default function DashboardScreen() {
@@ -44,11 +55,25 @@ export default function DashboardScreen() {
     scheduleSmartNotifications,
     showAchievementNotification 
   } = useNotifications();
-  const { clients } = useClients();
+  const { clients, loading: clientsLoading } = useClients();
   const { goals } = useGoals();
   const { visits } = useBusinessVisits();
+  const { payments, loading: paymentsLoading } = usePayments();
+  const { invoices, loading: invoicesLoading } = useInvoices();
+  const { plans, loading: plansLoading } = usePlans();
+  const { settings } = useSettings();
+  const { overdueClients, graceDays } = useDunning(
+    clients,
+    invoices,
+    payments,
+    plans,
+    !clientsLoading && !plansLoading && !paymentsLoading && !invoicesLoading
+  );
   const { activities, loading: activitiesLoading, getRecentActivities } = useActivityLog();
   const { unreadCount } = useNotificationCenter();
+  const { myTasks } = useTasks();
+  const { territories } = useTerritories();
+  const { today: tasksDueToday, overdue: overdueTasks } = groupTasksForToday(myTasks);
   
   const [refreshing, setRefreshing] = useState(false);
   const [showNotifications, setShowNotifications] = useState(false);
@@ -84,8 +109,9 @@ export default function DashboardScreen() {
   // Get performance insights for dashboard
   const insights = getPerformanceInsights();
   
-  // Calculate revenue statistics for Phase 7
-  const revenueStats = calculateRevenueStats(clients);
+  // Calculate revenue statistics from the invoice ledger, in the base currency
+  const conversion = { baseCurrency: settings.baseCurrency, rates: settings.exchangeRates };
+  const revenueStats = calculateRevenueStats(clients, invoices, payments, plans, new Date(), graceDays, conversion);
 
   const handleSignOut = async () => {
     Alert.alert(
@@ -109,12 +135,20 @@ export default function DashboardScreen() {
     );
   };
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
-      minimumFractionDigits: 0,
-    }).format(amount);
+  const formatCurrency = (amount: number) => formatMoney(amount, stats.currency, 0);
+
+  // Under a net figure: gross and refunds when something was refunded, and the original
+  // amounts of anything converted from another currency
+  const formatRevenueSubtitle = (breakdown: RevenueBreakdown) => {
+    const parts: string[] = [];
+    if (breakdown.refunded > 0) {
+      parts.push(`${formatCurrency(breakdown.gross)} gross · ${formatCurrency(breakdown.refunded)} refunded`);
+    }
+    const foreign = formatForeignTotals(breakdown.byCurrency, stats.currency);
+    if (foreign) {
+      parts.push(`Includes ${foreign}`);
+    }
+    return parts.length > 0 ? parts.join('\n') : undefined;
   };
 
   const showAdminMenu = () => {
@@ -531,7 +565,7 @@ export default function DashboardScreen() {
               <View className="flex-row items-center justify-between mb-4">
                 <Text className="text-xl font-bold text-gray-900">💰 Revenue Summary</Text>
                 <TouchableOpacity 
-                  onPress={() => Alert.alert('Revenue Details', generateRevenueSummary(revenueStats))}
+                  onPress={() => Alert.alert('Revenue Details', generateRevenueSummary(revenueStats, clients, plans, conversion))}
                   className="px-3 py-1 bg-green-100 rounded-full"
                 >
                   <Text className="text-green-700 text-sm font-medium">Details</Text>
@@ -542,31 +576,31 @@ export default function DashboardScreen() {
                 {/* Total Revenue */}
                 <View className="bg-green-50 p-4 rounded-lg">
                   <Text className="text-2xl font-bold text-green-700">
-                    {formatCurrencyUtil(revenueStats.totalRevenue)}
+                    {formatMoney(revenueStats.totalRevenue, settings.baseCurrency, 0)}
+                  </Text>
+                  <Text className="text-green-600 text-sm">Collected This Month</Text>
+                  <Text className="text-green-500 text-xs mt-1">
+                    {formatMoney(calculateMRR(clients, plans, conversion), settings.baseCurrency, 0)} MRR
                   </Text>
-                  <Text className="text-green-600 text-sm">Monthly Recurring Revenue</Text>
                 </View>
 
                 {/* Plan Breakdown */}
-                <View className="flex-row space-x-3">
-                  <View className="flex-1 bg-blue-50 p-3 rounded-lg">
-                    <Text className="text-lg font-bold text-blue-700">
-                      {revenueStats.starterCount}
-                    </Text>
-                    <Text className="text-blue-600 text-xs">Starter Plans</Text>
-                    <Text className="text-blue-500 text-xs">
-                      {formatCurrencyUtil(revenueStats.starterRevenue)} earned
-                    </Text>
-                  </View>
-                  <View className="flex-1 bg-purple-50 p-3 rounded-lg">
-                    <Text className="text-lg font-bold text-purple-700">
-                      {revenueStats.proCount}
-                    </Text>
-                    <Text className="text-purple-600 text-xs">Pro Plans</Text>
-                    <Text className="text-purple-500 text-xs">
-                      {formatCurrencyUtil(revenueStats.proRevenue)} earned
-                    </Text>
-                  </View>
+                <View className="flex-row flex-wrap gap-3">
+                  {revenueStats.planBreakdown.map(entry => (
+                    <View
+                      key={entry.plan}
+                      className="flex-1 min-w-[45%] p-3 rounded-lg"
+                      style={{ backgroundColor: `${getPlanColor(entry.plan)}15` }}
+                    >
+                      <Text className="text-lg font-bold" style={{ color: getPlanColor(entry.plan) }}>
+                        {entry.count}
+                      </Text>
+                      <Text className="text-xs" style={{ color: getPlanColor(entry.plan) }}>{entry.label} Plans</Text>
+                      <Text className="text-xs" style={{ color: getPlanColor(entry.plan) }}>
+                        {formatMoney(entry.revenue, settings.baseCurrency, 0)} earned
+                      </Text>
+                    </View>
+                  ))}
                 </View>
 
                 {/* Payment Status */}
@@ -589,6 +623,76 @@ export default function DashboardScreen() {
             </Card>
           </View>
 
+          {/* Payment Follow-ups */}
+          {overdueClients.length > 0 && (
+            <View className="mb-6">
+              <Card>
+                <View className="p-4">
+                  <View className="flex-row items-center justify-between mb-3">
+                    <Text className="text-xl font-bold text-gray-900">⏰ Payment Follow-ups</Text>
+                    <View className="px-3 py-1 bg-red-100 rounded-full">
+                      <Text className="text-red-700 text-sm font-medium">{overdueClients.length} overdue</Text>
+                    </View>
+                  </View>
+                  {overdueClients.slice(0, 5).map((status) => (
+                    <TouchableOpacity
+                      key={status.client.id}
+                      className="flex-row items-center justify-between py-2 border-b border-gray-100"
+                      onPress={() => router.push(`/client/${status.client.id}`)}
+                    >
+                      <View className="flex-1">
+                        <Text className="font-medium text-gray-900">{status.client.name}</Text>
+                        <Text className="text-gray-500 text-sm">
+                          Due {new Date(`${status.dueDate}T00:00:00`).toLocaleDateString()} · {status.daysLate} days late
+                        </Text>
+                      </View>
+                      <Text className="text-red-600 font-semibold">{formatMoney(status.amountDue, status.currency, 0)}</Text>
+                    </TouchableOpacity>
+                  ))}
+                  {overdueClients.length > 5 && (
+                    <Text className="text-gray-500 text-sm text-center pt-2">
+                      +{overdueClients.length - 5} more clients overdue
+                    </Text>
+                  )}
+                </View>
+              </Card>
+            </View>
+          )}
+
+          {/* Territories, least recently canvassed first */}
+          {territories.length > 0 && (
+            <View className="mb-6">
+              <Card>
+                <View className="p-4">
+                  <View className="flex-row items-center justify-between mb-3">
+                    <Text className="text-xl font-bold text-gray-900">🗺️ Territories</Text>
+                    <TouchableOpacity onPress={() => router.push('/(tabs)/visits')}>
+                      <Text className="text-primary text-sm font-medium">View map</Text>
+                    </TouchableOpacity>
+                  </View>
+                  {calculateTerritoryStats(territories, visits).map(stats => (
+                    <View key={stats.territory.id} className="flex-row items-center justify-between py-2 border-b border-gray-100">
+                      <View className="flex-row items-center flex-1 mr-3">
+                        <View className="w-3 h-3 rounded-full mr-2" style={{ backgroundColor: stats.territory.color }} />
+                        <View className="flex-1">
+                          <Text className="font-medium text-gray-900">{stats.territory.name}</Text>
+                          <Text className="text-gray-500 text-sm" numberOfLines={1}>
+                            {stats.territory.assignee_email || 'Unassigned'} · {stats.recentVisitCount} visits in {RECENT_TERRITORY_DAYS} days · {stats.clientCount} clients
+                          </Text>
+                        </View>
+                      </View>
+                      <Text className="text-sm font-semibold" style={{ color: getCoverageLevel(stats.daysSinceVisit).color }}>
+                        {stats.daysSinceVisit !== null
+                          ? stats.daysSinceVisit === 0 ? 'Today' : `${stats.daysSinceVisit}d ago`
+                          : stats.visitCount > 0 ? 'Undated' : 'Never'}
+                      </Text>
+                    </View>
+                  ))}
+                </View>
+              </Card>
+            </View>
+          )}
+
           {/* Weekly/Monthly Summary */}
           <View className="mb-6">
             <MetricsSummary
@@ -606,7 +710,7 @@ export default function DashboardScreen() {
             <StatsCard
               title="Total Revenue"
               value={formatCurrency(stats.totalRevenue)}
-              subtitle={`${stats.paymentsByStatus.confirmed} confirmed payments`}
+              subtitle={formatRevenueSubtitle(stats.revenueBreakdown.total) || `${stats.paymentsByStatus.confirmed} confirmed payments`}
               icon="card"
               trend="up"
               trendValue="+12%"
@@ -650,6 +754,7 @@ export default function DashboardScreen() {
                   <StatsCard
                     title="This Week"
                     value={formatCurrency(stats.weekRevenue)}
+                    subtitle={formatRevenueSubtitle(stats.revenueBreakdown.week)}
                     icon="calendar"
                     color="success"
                     onPress={() => router.push('/analytics/revenue?period=week')}
@@ -660,6 +765,7 @@ export default function DashboardScreen() {
                   <StatsCard
                     title="This Month"
                     value={formatCurrency(stats.monthRevenue)}
+                    subtitle={formatRevenueSubtitle(stats.revenueBreakdown.month)}
                     icon="calendar-outline"
                     color="warning"
                     onPress={() => router.push('/analytics/revenue?period=month')}
@@ -672,6 +778,7 @@ export default function DashboardScreen() {
                   <StatsCard
                     title="Today"
                     value={formatCurrency(stats.todayRevenue)}
+                    subtitle={formatRevenueSubtitle(stats.revenueBreakdown.today)}
                     icon="today"
                     trend="up"
                     trendValue="+5%"
@@ -697,6 +804,13 @@ export default function DashboardScreen() {
           <View className="mb-6">
             <Text className="text-gray-700 font-semibold text-lg mb-4">Quick Actions</Text>
             <View className="gap-4">
+              <ActionCard
+                title="Today's Tasks"
+                description={`${tasksDueToday.length} due today${overdueTasks.length > 0 ? ` · ${overdueTasks.length} overdue` : ''}`}
+                icon="checkbox"
+                onPress={() => router.push('/today')}
+              />
+
               <ActionCard
                 title="View Onboarding Submissions"
                 description={`${stats.newSubmissions} new submission${stats.newSubmissions !== 1 ? 's' : ''}`}
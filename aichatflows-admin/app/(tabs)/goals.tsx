@@ -9,6 +9,8 @@ import { useClients } from '../../src/hooks/useClients';
 import { usePayments } from '../../src/hooks/usePayments';
 import { useAdvancedMetrics } from '../../src/hooks/useAdvancedMetrics';
 import { ConfirmDialog } from '../../src/components/ConfirmDialog';
+import { useToast } from '../../src/components/Toast';
+import { UNDO_TOAST_DURATION } from '../../src/utils/trash';
 import { 
   Button, 
   Input, 
@@ -30,6 +32,7 @@ import { GOAL_SORT_OPTIONS } from '../../src/components/SortDropdown';
 import { fuzzySearchItems, GOAL_SEARCH_FIELDS, useDebounceSearch, sortItems } from '../../src/utils/search';
 import { validateGoal } from '../../src/utils/validation';
 import { useTheme } from '../../src/contexts/ThemeContext';
+import { getGoalCsvColumns, getCsvFileName, shareCsv, toCsv } from '../../src/utils/csv';
 
 export default function GoalsScreen() {
   const { theme, themeClasses } = useTheme();
@@ -57,16 +60,28 @@ export default function GoalsScreen() {
     createGoal,
     updateGoal,
     deleteGoal,
+    restoreGoal,
     getGoalsByClient,
     getGoalsByFrequency,
     calculateGoalProgress,
     refetch 
   } = useGoals();
+  const { showToast } = useToast();
 
   const { clients } = useClients();
   const { payments } = usePayments();
   const { goalStreak, retention } = useAdvancedMetrics();
 
+  // Export exactly what the list shows: current filters, search and sort
+  const handleExportCsv = async () => {
+    try {
+      await shareCsv(getCsvFileName('goals'), toCsv(filteredGoals, getGoalCsvColumns(goal => calculateGoalProgress(goal, payments, clients))));
+    } catch (error: any) {
+      console.error('Failed to export goals:', error);
+      Alert.alert('Error', `Failed to export goals: ${error.message}`);
+    }
+  };
+
   const onRefresh = async () => {
     setRefreshing(true);
     await refetch();
@@ -222,7 +237,17 @@ export default function GoalsScreen() {
     try {
       await deleteGoal(goal.id);
       setShowDeleteConfirm(null);
-      Alert.alert('Success', 'Goal deleted successfully!');
+      showToast('success', 'Goal deleted', 'Moved to the Trash', {
+        duration: UNDO_TOAST_DURATION,
+        action: {
+          label: 'Undo',
+          onPress: () => {
+            restoreGoal(goal.id).catch(() => {
+              // Error already handled in hook
+            });
+          },
+        },
+      });
     } catch (error) {
       // Error already handled in hook
     }
@@ -592,6 +617,15 @@ export default function GoalsScreen() {
           }}
           onClearAll={() => setSelectedFilters({})}
         />
+
+        {/* CSV export of the filtered list */}
+        <View className="flex-row gap-3">
+          <View className="flex-1">
+            <Button variant="secondary" size="sm" icon="download-outline" onPress={handleExportCsv} fullWidth>
+              Export CSV
+            </Button>
+          </View>
+        </View>
       </View>
     </View>
   );
@@ -754,7 +788,7 @@ export default function GoalsScreen() {
         <ConfirmDialog
           visible={!!showDeleteConfirm}
           title="Delete Goal"
-          message={`Are you sure you want to delete "${showDeleteConfirm?.title}"? This action cannot be undone.`}
+          message={`Are you sure you want to delete "${showDeleteConfirm?.title}"? You can restore it from the Trash in Settings.`}
           confirmText="Delete"
           onConfirm={() => showDeleteConfirm && handleDeleteGoal(showDeleteConfirm)}
           onCancel={() => setShowDeleteConfirm(null)}
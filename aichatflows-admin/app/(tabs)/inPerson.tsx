@@ -6,6 +6,7 @@ import { Ionicons } from '@expo/vector-icons';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { Client, ClientFormData, InPersonSubmission } from '../../src/types';
 import { useClients } from '../../src/hooks/useClients';
+import { usePlans } from '../../src/hooks/usePlans';
 import { validateClient } from '../../src/utils/validation';
 import { 
   Button, 
@@ -18,12 +19,22 @@ import {
 } from '../../src/components';
 import { CombinedClientBadges } from '../../src/components/Badges';
 import { useActivityLog } from '../../src/hooks/useActivityLog';
+import { useSyncQueue } from '../../src/hooks/useSyncQueue';
+import {
+  IN_PERSON_SUBMISSIONS_KEY,
+  createLocalId,
+  enqueueSyncItem,
+  getPendingSignupIds,
+  isNetworkError,
+} from '../../src/utils/syncQueue';
 import { useTheme } from '../../src/contexts/ThemeContext';
 
 export default function InPersonScreen() {
   const { theme, themeClasses } = useTheme();
   const { clients, createClient, loading: clientsLoading } = useClients();
+  const { activePlans } = usePlans();
   const { logInPersonSignup, logClientCreated } = useActivityLog();
+  const { items: syncItems } = useSyncQueue();
   const [showSignupForm, setShowSignupForm] = useState(false);
   const [validationErrors, setValidationErrors] = useState<Record<string, string>>({});
   const [submitting, setSubmitting] = useState(false);
@@ -64,14 +75,17 @@ export default function InPersonScreen() {
     photo_url: '',
   });
 
-  // Load in-person submissions from localStorage
+  // Submissions whose client is waiting in the offline sync queue
+  const pendingSyncIds = getPendingSignupIds(syncItems);
+
+  // Load in-person submissions from localStorage; the sync queue marks them converted as it sends them
   useEffect(() => {
     loadInPersonSubmissions();
-  }, []);
+  }, [syncItems]);
 
   const loadInPersonSubmissions = async () => {
     try {
-      const stored = await AsyncStorage.getItem('in_person_submissions');
+      const stored = await AsyncStorage.getItem(IN_PERSON_SUBMISSIONS_KEY);
       if (stored) {
         setInPersonSubmissions(JSON.parse(stored));
       }
@@ -82,7 +96,7 @@ export default function InPersonScreen() {
 
   const saveInPersonSubmissions = async (submissions: InPersonSubmission[]) => {
     try {
-      await AsyncStorage.setItem('in_person_submissions', JSON.stringify(submissions));
+      await AsyncStorage.setItem(IN_PERSON_SUBMISSIONS_KEY, JSON.stringify(submissions));
       setInPersonSubmissions(submissions);
     } catch (error) {
       console.error('Error saving in-person submissions:', error);
@@ -189,7 +203,7 @@ export default function InPersonScreen() {
       
       console.log('📤 Sending client data to createClient:', clientData);
       
-      const newClientResponse = await createClient(clientData);
+      const newClientResponse = await createClient(clientData, false);
       
       console.log('✅ Client creation response:', newClientResponse);
       
@@ -229,6 +243,17 @@ export default function InPersonScreen() {
         throw new Error('Client creation returned no data');
       }
     } catch (error: any) {
+      // No signal: queue the conversion; the submission stays here until it syncs
+      if (isNetworkError(error)) {
+        await enqueueSyncItem('signup', {
+          client_id: createLocalId(),
+          submission_id: submission.id,
+          name: submission.form_data.name,
+        });
+        Alert.alert('Saved Offline', `${submission.form_data.name} will be added as a client automatically when you are back online.`);
+        return;
+      }
+
       console.error('❌ Client conversion failed:', error);
       console.error('📄 Error details:', {
         message: error.message,
@@ -379,14 +404,21 @@ export default function InPersonScreen() {
                   </View>
 
                   <View className="flex-row gap-3">
-                    <Button
-                      onPress={() => handleConvertToClient(submission)}
-                      variant="primary"
-                      size="sm"
-                      disabled={submitting}
-                    >
-                      Convert to Client
-                    </Button>
+                    {pendingSyncIds.includes(submission.id) ? (
+                      <View className="flex-row items-center px-3 py-2 bg-amber-100 rounded-lg">
+                        <Ionicons name="cloud-upload-outline" size={14} color="#D97706" />
+                        <Text className="text-amber-700 text-sm font-medium ml-1">Pending sync</Text>
+                      </View>
+                    ) : (
+                      <Button
+                        onPress={() => handleConvertToClient(submission)}
+                        variant="primary"
+                        size="sm"
+                        disabled={submitting}
+                      >
+                        Convert to Client
+                      </Button>
+                    )}
                     <Text className="text-text-muted text-xs mt-2">
                       Signed up {new Date(submission.submitted_at).toLocaleDateString()}
                     </Text>
@@ -512,35 +544,24 @@ export default function InPersonScreen() {
 
           {/* Plan Selection */}
           <FormField label="Plan">
-            <View className="flex-row gap-3">
-              <TouchableOpacity
-                className={`flex-1 p-3 rounded-lg border-2 ${
-                  newClient.plan === 'starter' 
-                    ? 'border-blue-500 bg-blue-50' 
-                    : 'border-gray-200 bg-white'
-                }`}
-                onPress={() => setNewClient({ ...newClient, plan: 'starter' })}
-              >
-                <Text className={`font-medium text-center ${
-                  newClient.plan === 'starter' ? 'text-blue-700' : 'text-gray-700'
-                }`}>
-                  Starter • $100
-                </Text>
-              </TouchableOpacity>
-              <TouchableOpacity
-                className={`flex-1 p-3 rounded-lg border-2 ${
-                  newClient.plan === 'pro' 
-                    ? 'border-purple-500 bg-purple-50' 
-                    : 'border-gray-200 bg-white'
-                }`}
-                onPress={() => setNewClient({ ...newClient, plan: 'pro' })}
-              >
-                <Text className={`font-medium text-center ${
-                  newClient.plan === 'pro' ? 'text-purple-700' : 'text-gray-700'
-                }`}>
-                  Pro • $150
-                </Text>
-              </TouchableOpacity>
+            <View className="flex-row flex-wrap gap-3">
+              {activePlans.map((plan) => (
+                <TouchableOpacity
+                  key={plan.name}
+                  className={`flex-1 min-w-[45%] p-3 rounded-lg border-2 ${
+                    newClient.plan === plan.name
+                      ? 'border-blue-500 bg-blue-50'
+                      : 'border-gray-200 bg-white'
+                  }`}
+                  onPress={() => setNewClient({ ...newClient, plan: plan.name })}
+                >
+                  <Text className={`font-medium text-center ${
+                    newClient.plan === plan.name ? 'text-blue-700' : 'text-gray-700'
+                  }`}>
+                    {plan.label} • ${plan.price}{plan.billing_interval === 'year' ? '/yr' : ''}
+                  </Text>
+                </TouchableOpacity>
+              ))}
             </View>
           </FormField>
 
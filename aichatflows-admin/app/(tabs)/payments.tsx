@@ -6,9 +6,15 @@ import { router } from 'expo-router';
 import { Payment, PaymentFormData } from '../../src/types';
 import { usePayments } from '../../src/hooks/usePayments';
 import { useClients } from '../../src/hooks/useClients';
+import { useInvoices } from '../../src/hooks/useInvoices';
+import { usePlans } from '../../src/hooks/usePlans';
+import { useSettings } from '../../src/hooks/useSettings';
 import { ConfirmDialog } from '../../src/components/ConfirmDialog';
+import { useToast } from '../../src/components/Toast';
+import { UNDO_TOAST_DURATION } from '../../src/utils/trash';
 import { SimpleFormModal } from '../../src/components/SimpleFormModal';
 import { 
+  Button,
   SearchInput,
   FilterBar,
   SortDropdown
@@ -16,7 +22,22 @@ import {
 import { PAYMENT_FILTER_GROUPS } from '../../src/components/FilterBar';
 import { PAYMENT_SORT_OPTIONS } from '../../src/components/SortDropdown';
 import { fuzzySearchItems, PAYMENT_SEARCH_FIELDS, useDebounceSearch, sortItems } from '../../src/utils/search';
+import { withNoteText } from '../../src/utils/notes';
+import { useNotes } from '../../src/hooks/useNotes';
 import { validatePayment } from '../../src/utils/validation';
+import { findInvoiceToSettle, getInvoiceBalance, getPaymentInvoiceIds, getUnappliedAmount, isInvoiceOverdue } from '../../src/utils/invoices';
+import { getRefundState, getRemainingOwed, isCreditNote, isMoneyReceived, isPartialPayment, isRefund } from '../../src/utils/payments';
+import { getClientPlanInfo } from '../../src/utils/finance';
+import {
+  SUPPORTED_CURRENCIES,
+  convertToBase,
+  formatForeignTotals,
+  formatMoney,
+  formatOriginalAmount,
+  getCurrency,
+  toBaseAmount,
+} from '../../src/utils/currency';
+import { getPaymentCsvColumns, getCsvFileName, shareCsv, toCsv } from '../../src/utils/csv';
 
 const statusColors = {
   pending: 'bg-yellow-100 text-yellow-800',
@@ -44,8 +65,26 @@ export default function PaymentsScreen() {
     description: '',
   });
   
-  const { payments, loading, error, filterPayments, getRevenueStats, createPayment, updatePayment, deletePayment, refetch } = usePayments();
+  const { payments, loading, error, filterPayments, getRevenueStats, createPayment, updatePayment, deletePayment, restorePayment, refetch } = usePayments();
   const { clients } = useClients();
+  const { notes } = useNotes();
+  const { invoices, generateMonthlyInvoices, settleInvoice, refreshInvoiceStatuses } = useInvoices();
+  const { showToast } = useToast();
+  const { plans } = usePlans();
+  const { settings } = useSettings();
+  const [generatingInvoices, setGeneratingInvoices] = useState(false);
+
+  const { baseCurrency, exchangeRates } = settings;
+  const conversion = useMemo(() => ({ baseCurrency, rates: exchangeRates }), [baseCurrency, exchangeRates]);
+
+  const openInvoices = useMemo(() => invoices.filter(invoice => invoice.status === 'open'), [invoices]);
+  const outstandingBalance = useMemo(
+    () => openInvoices.reduce(
+      (sum, invoice) => sum + convertToBase(getInvoiceBalance(invoice, payments), getCurrency(invoice), conversion),
+      0
+    ),
+    [openInvoices, payments, conversion]
+  );
 
   // Enhanced filtered and sorted payments with fuzzy search
   const filteredAndSortedPayments = useMemo(() => {
@@ -99,7 +138,7 @@ export default function PaymentsScreen() {
 
     // Apply fuzzy search
     if (debouncedSearch.trim()) {
-      const searchResults = fuzzySearchItems(result, debouncedSearch, PAYMENT_SEARCH_FIELDS);
+      const searchResults = fuzzySearchItems(withNoteText(result, notes, 'payment'), debouncedSearch, PAYMENT_SEARCH_FIELDS);
       result = searchResults.map(r => r.item);
     }
 
@@ -115,13 +154,24 @@ export default function PaymentsScreen() {
     }
 
     return result;
-  }, [payments, selectedFilters, debouncedSearch, selectedSort]);
+  }, [payments, notes, selectedFilters, debouncedSearch, selectedSort]);
   
   // Helper to check if any filters are active
   const hasActiveFilters = Object.values(selectedFilters).some(filters => filters.length > 0);
 
   const filteredPayments = filteredAndSortedPayments;
-  const revenueStats = getRevenueStats();
+  const revenueStats = getRevenueStats(conversion);
+  const foreignRevenue = formatForeignTotals(revenueStats.total.byCurrency, baseCurrency);
+
+  // Export exactly what the list shows: current filters, search and sort
+  const handleExportCsv = async () => {
+    try {
+      await shareCsv(getCsvFileName('payments'), toCsv(filteredPayments, getPaymentCsvColumns(clients)));
+    } catch (error: any) {
+      console.error('Failed to export payments:', error);
+      Alert.alert('Error', `Failed to export payments: ${error.message}`);
+    }
+  };
 
   const onRefresh = async () => {
     setRefreshing(true);
@@ -136,6 +186,7 @@ export default function PaymentsScreen() {
       status: 'pending',
       payment_date: new Date().toISOString().split('T')[0],
       description: '',
+      currency: baseCurrency,
     });
     setValidationErrors({});
     setEditingPayment(null);
@@ -153,12 +204,63 @@ export default function PaymentsScreen() {
       status: payment.status,
       payment_date: payment.payment_date.split('T')[0],
       description: payment.description || '',
+      amount_owed: payment.amount_owed ? payment.amount_owed.toString() : '',
+      currency: getCurrency(payment),
     });
     setEditingPayment(payment);
     setValidationErrors({});
     setShowAddModal(true);
   };
 
+  // Prefill what's owed from the client's oldest open invoice so partial payments are recorded as such,
+  // in that invoice's currency (or the client's plan's when nothing is open)
+  const handleSelectClient = (clientId: string) => {
+    const invoice = clientId ? findInvoiceToSettle(clientId, invoices, payments) : undefined;
+    const client = clients.find(c => c.id === clientId);
+    setNewPayment({
+      ...newPayment,
+      client_id: clientId,
+      amount_owed: invoice ? getInvoiceBalance(invoice, payments).toString() : '',
+      currency: invoice
+        ? getCurrency(invoice)
+        : client ? getCurrency(getClientPlanInfo(client, plans)) : newPayment.currency,
+    });
+  };
+
+  // Confirmed payments settle the client's oldest open invoice with whatever they haven't been applied to yet
+  const applyPaymentToOpenInvoice = async (payment: Payment) => {
+    if (!payment?.client_id || !isMoneyReceived(payment)) return;
+
+    const currentPayments = [...payments.filter(p => p.id !== payment.id), payment];
+    if (getUnappliedAmount(payment, currentPayments) <= 0) return;
+
+    const invoice = findInvoiceToSettle(payment.client_id, invoices, currentPayments);
+    if (!invoice) return;
+
+    try {
+      await settleInvoice(invoice.id, payment, currentPayments);
+    } catch (error) {
+      // Error already handled in hook
+    }
+  };
+
+  const handleGenerateInvoices = async () => {
+    setGeneratingInvoices(true);
+    try {
+      const created = await generateMonthlyInvoices(clients, plans);
+      Alert.alert(
+        'Invoices Generated',
+        created.length > 0
+          ? `Created ${created.length} invoice${created.length === 1 ? '' : 's'} for this month.`
+          : 'Every billable client already has an invoice for this month.'
+      );
+    } catch (error) {
+      // Error already handled in hook
+    } finally {
+      setGeneratingInvoices(false);
+    }
+  };
+
   const handleCreatePayment = async () => {
     const paymentData = {
       client_id: newPayment.client_id || undefined,
@@ -166,6 +268,8 @@ export default function PaymentsScreen() {
       status: newPayment.status,
       payment_date: newPayment.payment_date,
       description: newPayment.description || undefined,
+      amount_owed: newPayment.amount_owed || undefined,
+      currency: newPayment.currency || baseCurrency,
     };
 
     const validation = validatePayment(paymentData);
@@ -183,8 +287,11 @@ export default function PaymentsScreen() {
           status: paymentData.status,
           payment_date: paymentData.payment_date,
           description: paymentData.description,
+          amount_owed: paymentData.amount_owed ? parseFloat(paymentData.amount_owed) : undefined,
+          currency: paymentData.currency,
         };
-        await updatePayment(editingPayment.id, paymentForUpdate);
+        const updated = await updatePayment(editingPayment.id, paymentForUpdate);
+        await applyPaymentToOpenInvoice(updated as unknown as Payment);
         Alert.alert('Success', 'Payment updated successfully!');
       } else {
         // Convert form data to Payment type
@@ -194,8 +301,11 @@ export default function PaymentsScreen() {
           status: paymentData.status,
           payment_date: paymentData.payment_date,
           description: paymentData.description,
+          amount_owed: paymentData.amount_owed ? parseFloat(paymentData.amount_owed) : undefined,
+          currency: paymentData.currency,
         };
-        await createPayment(paymentForCreation);
+        const created = await createPayment(paymentForCreation);
+        await applyPaymentToOpenInvoice(created as unknown as Payment);
         Alert.alert('Success', 'Payment created successfully!');
       }
 
@@ -210,20 +320,35 @@ export default function PaymentsScreen() {
     try {
       await deletePayment(payment.id);
       setShowDeleteConfirm(null);
-      Alert.alert('Success', 'Payment deleted successfully!');
+      // Reopen the invoices the payment was settling
+      await refreshInvoiceStatuses(
+        getPaymentInvoiceIds(payment),
+        payments.filter(p => p.id !== payment.id && p.original_payment_id !== payment.id)
+      ).catch(() => {
+        // Error already handled in hook
+      });
+      showToast('success', 'Payment deleted', 'Moved to the Trash', {
+        duration: UNDO_TOAST_DURATION,
+        action: { label: 'Undo', onPress: () => handleUndoDelete(payment) },
+      });
     } catch (error) {
       // Error already handled in hook
     }
   };
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
-      minimumFractionDigits: 0,
-    }).format(amount);
+  const handleUndoDelete = async (payment: Payment) => {
+    try {
+      const restored = await restorePayment(payment.id);
+      if (restored) {
+        await refreshInvoiceStatuses(getPaymentInvoiceIds(payment), restored as unknown as Payment[]);
+      }
+    } catch (error) {
+      // Error already handled in hook
+    }
   };
 
+  const formatCurrency = (amount: number) => formatMoney(amount, baseCurrency, 0);
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString();
   };
@@ -243,6 +368,8 @@ export default function PaymentsScreen() {
     // Safe amount formatting with fallback
     const safeAmount = typeof item.amount === 'number' ? item.amount : 0;
     const safeStatus = item.status || 'pending';
+    const refundState = getRefundState(item, payments);
+    const originalAmount = formatOriginalAmount(safeAmount, getCurrency(item), baseCurrency);
 
     return (
       <View className="bg-white rounded-xl p-4 mb-3 shadow-sm">
@@ -250,13 +377,45 @@ export default function PaymentsScreen() {
           <View className="flex-row items-start justify-between">
             <View className="flex-1">
               <View className="flex-row items-center justify-between mb-2">
-                <Text className="text-lg font-semibold text-gray-900">
-                  {formatCurrency(safeAmount)}
+                <Text className={`text-lg font-semibold ${isRefund(item) ? 'text-red-600' : 'text-gray-900'}`}>
+                  {isRefund(item) ? '-' : ''}{formatCurrency(toBaseAmount({ ...item, amount: safeAmount }, conversion))}
+                  {!!originalAmount && (
+                    <Text className="text-sm font-normal text-gray-500"> ({originalAmount})</Text>
+                  )}
                 </Text>
                 <View className={`px-2 py-1 rounded-full ${(statusColors as any)[safeStatus] || 'bg-gray-100 text-gray-800'}`}>
                   <Text className="text-xs font-medium capitalize">{safeStatus}</Text>
                 </View>
               </View>
+
+              {(isRefund(item) || isCreditNote(item) || isPartialPayment(item) || refundState) && (
+                <View className="flex-row flex-wrap gap-2 mb-2">
+                  {isRefund(item) && (
+                    <View className="px-2 py-1 rounded-full bg-red-100">
+                      <Text className="text-xs font-medium text-red-800">Refund</Text>
+                    </View>
+                  )}
+                  {isCreditNote(item) && (
+                    <View className="px-2 py-1 rounded-full bg-blue-100">
+                      <Text className="text-xs font-medium text-blue-800">Credit note</Text>
+                    </View>
+                  )}
+                  {isPartialPayment(item) && (
+                    <View className="px-2 py-1 rounded-full bg-orange-100">
+                      <Text className="text-xs font-medium text-orange-800">
+                        Partial • {formatCurrency(getRemainingOwed(item))} left
+                      </Text>
+                    </View>
+                  )}
+                  {refundState && (
+                    <View className="px-2 py-1 rounded-full bg-gray-100">
+                      <Text className="text-xs font-medium text-gray-700">
+                        {refundState === 'refunded' ? 'Refunded' : 'Partially refunded'}
+                      </Text>
+                    </View>
+                  )}
+                </View>
+              )}
             
             {item.client && (
               <Text className="text-gray-600 mb-1">{item.client.name}</Text>
@@ -340,7 +499,7 @@ export default function PaymentsScreen() {
             Payments ({filteredPayments.length})
           </Text>
           <View className="flex-row space-x-4 mt-1">
-            <Text className="text-green-600 text-sm">{formatCurrency(revenueStats.total)} total</Text>
+            <Text className="text-green-600 text-sm">{formatCurrency(revenueStats.total.net)} net</Text>
             <Text className="text-blue-600 text-sm">{payments.filter(p => p.status === 'confirmed').length} confirmed</Text>
           </View>
         </View>
@@ -361,16 +520,24 @@ export default function PaymentsScreen() {
             onPress={() => router.push('/analytics/revenue')}
           >
             <Text className="text-2xl font-bold text-gray-900">
-              {formatCurrency(revenueStats.total)}
+              {formatCurrency(revenueStats.total.net)}
             </Text>
-            <Text className="text-gray-600">Total Revenue</Text>
+            <Text className="text-gray-600">Net Revenue</Text>
             <Text className="text-sm text-green-600 mt-1">
-              {payments.filter(p => p.status === 'confirmed').length} confirmed
+              {formatCurrency(revenueStats.total.gross)} gross
             </Text>
+            {revenueStats.total.refunded > 0 && (
+              <Text className="text-sm text-red-600">
+                -{formatCurrency(revenueStats.total.refunded)} refunded
+              </Text>
+            )}
+            {!!foreignRevenue && (
+              <Text className="text-xs text-gray-500">Includes {foreignRevenue}</Text>
+            )}
           </TouchableOpacity>
           <View className="bg-white rounded-xl p-4 shadow-sm flex-1">
             <Text className="text-2xl font-bold text-gray-900">
-              {formatCurrency(revenueStats.today)}
+              {formatCurrency(revenueStats.today.net)}
             </Text>
             <Text className="text-gray-600">Today</Text>
           </View>
@@ -379,13 +546,13 @@ export default function PaymentsScreen() {
         <View className="flex-row gap-4">
           <View className="bg-white rounded-xl p-4 shadow-sm flex-1">
             <Text className="text-xl font-bold text-gray-900">
-              {formatCurrency(revenueStats.week)}
+              {formatCurrency(revenueStats.week.net)}
             </Text>
             <Text className="text-gray-600 text-sm">This Week</Text>
           </View>
           <View className="bg-white rounded-xl p-4 shadow-sm flex-1">
             <Text className="text-xl font-bold text-gray-900">
-              {formatCurrency(revenueStats.month)}
+              {formatCurrency(revenueStats.month.net)}
             </Text>
             <Text className="text-gray-600 text-sm">This Month</Text>
           </View>
@@ -398,6 +565,35 @@ export default function PaymentsScreen() {
         </View>
       </View>
 
+      {/* Invoices */}
+      <View className="bg-white rounded-xl p-4 shadow-sm mb-6">
+        <View className="flex-row items-center justify-between">
+          <View className="flex-1">
+            <Text className="text-gray-900 font-semibold">Invoices</Text>
+            <Text className="text-gray-600 text-sm mt-1">
+              {openInvoices.length} open · {formatCurrency(outstandingBalance)} outstanding
+            </Text>
+            {openInvoices.some(invoice => isInvoiceOverdue(invoice)) && (
+              <Text className="text-red-600 text-sm mt-1">
+                {openInvoices.filter(invoice => isInvoiceOverdue(invoice)).length} overdue
+              </Text>
+            )}
+          </View>
+          <TouchableOpacity
+            className="bg-gray-100 rounded-lg px-3 py-2 flex-row items-center"
+            onPress={handleGenerateInvoices}
+            disabled={generatingInvoices}
+          >
+            {generatingInvoices ? (
+              <ActivityIndicator size="small" color="#00D4AA" />
+            ) : (
+              <Ionicons name="document-text-outline" size={16} color="#00D4AA" />
+            )}
+            <Text className="text-gray-700 font-medium ml-2">Bill This Month</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+
       {/* Enhanced Search Bar with Filters and Sort */}
       <View className="mb-6 gap-4">
         {/* Search Input with Sort */}
@@ -432,6 +628,26 @@ export default function PaymentsScreen() {
           }}
           onClearAll={() => setSelectedFilters({})}
         />
+
+        {/* CSV export of the filtered list and import */}
+        <View className="flex-row gap-3">
+          <View className="flex-1">
+            <Button variant="secondary" size="sm" icon="download-outline" onPress={handleExportCsv} fullWidth>
+              Export CSV
+            </Button>
+          </View>
+          <View className="flex-1">
+            <Button
+              variant="secondary"
+              size="sm"
+              icon="cloud-upload-outline"
+              onPress={() => router.push('/import?type=payments')}
+              fullWidth
+            >
+              Import CSV
+            </Button>
+          </View>
+        </View>
       </View>
     </View>
   );
@@ -511,7 +727,7 @@ export default function PaymentsScreen() {
                             className={`px-4 py-3 border-b border-gray-200 flex-row items-center justify-between ${
                               newPayment.client_id === item.id ? 'bg-blue-50' : 'bg-white'
                             } ${index === clients.length ? 'border-b-0' : ''}`}
-                            onPress={() => setNewPayment({ ...newPayment, client_id: item.id })}
+                            onPress={() => handleSelectClient(item.id)}
                           >
                             <View className="flex-1">
                               <Text className={`font-medium ${
@@ -552,6 +768,49 @@ export default function PaymentsScreen() {
                   )}
                 </View>
 
+                <View>
+                  <Text className="text-sm font-medium text-gray-700 mb-2">Currency</Text>
+                  <View className="flex-row flex-wrap gap-2">
+                    {SUPPORTED_CURRENCIES.map((currency) => (
+                      <TouchableOpacity
+                        key={currency}
+                        className={`px-4 py-2 rounded-lg border ${
+                          newPayment.currency === currency
+                            ? 'bg-primary border-primary'
+                            : 'bg-white border-gray-300'
+                        }`}
+                        onPress={() => setNewPayment({ ...newPayment, currency })}
+                      >
+                        <Text className={`font-medium ${
+                          newPayment.currency === currency ? 'text-white' : 'text-gray-700'
+                        }`}>
+                          {currency}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                </View>
+
+                <View>
+                  <Text className="text-sm font-medium text-gray-700 mb-2">Amount Owed</Text>
+                  <TextInput
+                    className={`border rounded-lg px-4 py-3 text-base ${
+                      validationErrors.amount_owed ? 'border-red-500' : 'border-gray-300'
+                    }`}
+                    value={newPayment.amount_owed}
+                    onChangeText={(text) => setNewPayment({ ...newPayment, amount_owed: text })}
+                    placeholder="Total due (optional)"
+                    keyboardType="numeric"
+                  />
+                  {validationErrors.amount_owed ? (
+                    <Text className="text-red-500 text-sm mt-1">{validationErrors.amount_owed}</Text>
+                  ) : (
+                    <Text className="text-gray-500 text-xs mt-1">
+                      Leave blank or equal to the amount for a payment in full
+                    </Text>
+                  )}
+                </View>
+
                 <View>
                   <Text className="text-sm font-medium text-gray-700 mb-2">Status *</Text>
                   <View className="flex-row space-x-2">
@@ -648,7 +907,7 @@ export default function PaymentsScreen() {
         <ConfirmDialog
           visible={!!showDeleteConfirm}
           title="Delete Payment"
-          message={`Are you sure you want to delete this payment of ${showDeleteConfirm ? formatCurrency(showDeleteConfirm.amount) : ''}? This action cannot be undone.`}
+          message={`Are you sure you want to delete this payment of ${showDeleteConfirm ? formatMoney(showDeleteConfirm.amount, getCurrency(showDeleteConfirm)) : ''}? You can restore it from the Trash in Settings.`}
           confirmText="Delete"
           onConfirm={() => showDeleteConfirm && handleDeletePayment(showDeleteConfirm)}
           onCancel={() => setShowDeleteConfirm(null)}
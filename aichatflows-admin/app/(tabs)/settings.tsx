@@ -2,13 +2,18 @@ import React, { useState } from 'react';
 import { View, Text, ScrollView, Alert, TouchableOpacity } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import Animated, { FadeInDown } from 'react-native-reanimated';
+import { router } from 'expo-router';
 
 import { Card } from '../../src/components/Card';
 import { Toggle } from '../../src/components/Toggle';
 import { Button } from '../../src/components/Button';
 import { useSettings } from '../../src/hooks/useSettings';
+import { useCredentialVault } from '../../src/hooks/useCredentialVault';
 import { Toast } from '../../src/components/Toast';
 import { useTheme } from '../../src/contexts/ThemeContext';
+import { SUPPORTED_CURRENCIES } from '../../src/utils/currency';
+import { PIPELINE_STAGES } from '../../src/utils/pipeline';
+import { HEALTH_FACTORS } from '../../src/utils/healthScore';
 
 type DropdownOption = {
   label: string;
@@ -21,6 +26,34 @@ const THEME_OPTIONS: DropdownOption[] = [
   { label: 'Teal Blue', value: 'teal' },
 ];
 
+const GRACE_PERIOD_OPTIONS: DropdownOption[] = [
+  { label: 'No grace period', value: '0' },
+  { label: '3 days', value: '3' },
+  { label: '7 days', value: '7' },
+  { label: '14 days', value: '14' },
+];
+
+const CURRENCY_OPTIONS: DropdownOption[] = SUPPORTED_CURRENCIES.map(currency => ({
+  label: currency,
+  value: currency,
+}));
+
+const STALE_DAYS_OPTIONS: DropdownOption[] = [
+  { label: 'Never', value: '0' },
+  { label: '7 days', value: '7' },
+  { label: '14 days', value: '14' },
+  { label: '30 days', value: '30' },
+  { label: '60 days', value: '60' },
+  { label: '90 days', value: '90' },
+];
+
+const HEALTH_WEIGHT_OPTIONS: DropdownOption[] = [
+  { label: 'Ignore', value: '0' },
+  { label: 'Low', value: '1' },
+  { label: 'Medium', value: '2' },
+  { label: 'High', value: '3' },
+];
+
 const FONT_SIZE_OPTIONS: DropdownOption[] = [
   { label: 'Small', value: 'small' },
   { label: 'Default', value: 'default' },
@@ -111,6 +144,7 @@ const SettingSection: React.FC<SettingSectionProps & { delay?: number }> = ({ ti
 export default function SettingsScreen() {
   const { settings, updateSetting, isLoaded, error } = useSettings();
   const { theme, setTheme, themeClasses } = useTheme();
+  const { status: vaultStatus, lockVault } = useCredentialVault();
   const [showToast, setShowToast] = useState(false);
   const [toastMessage, setToastMessage] = useState('');
 
@@ -254,6 +288,134 @@ export default function SettingsScreen() {
           </View>
         </SettingSection>
 
+        {/* Billing Section */}
+        <SettingSection title="Billing" icon="card" delay={250}>
+          <View>
+            <Text className="text-base font-medium text-gray-900 mb-2">Overdue Grace Period</Text>
+            <Text className="text-sm text-gray-500 mb-3">Days after an invoice is due before the client is marked overdue</Text>
+            <Dropdown
+              options={GRACE_PERIOD_OPTIONS}
+              value={String(settings.dunningGraceDays)}
+              onValueChange={(value) => handleDropdownChange('dunningGraceDays', Number(value))}
+              placeholder="Select grace period"
+            />
+          </View>
+
+          <View className="border-t border-gray-100 pt-4 mt-4">
+            <Text className="text-base font-medium text-gray-900 mb-2">Base Currency</Text>
+            <Text className="text-sm text-gray-500 mb-3">Revenue from every currency is converted to this for reporting</Text>
+            <Dropdown
+              options={CURRENCY_OPTIONS}
+              value={settings.baseCurrency}
+              onValueChange={(value) => handleDropdownChange('baseCurrency', value)}
+              placeholder="Select currency"
+            />
+          </View>
+
+          <View className="mt-4 space-y-3">
+            <Button
+              variant="secondary"
+              onPress={() => router.push('/plans')}
+              icon="pricetags"
+              fullWidth
+            >
+              Manage Plans
+            </Button>
+            <Button
+              variant="secondary"
+              onPress={() => router.push('/custom-fields')}
+              icon="list"
+              fullWidth
+            >
+              Custom Fields & Tags
+            </Button>
+            <Button
+              variant="secondary"
+              onPress={() => router.push('/exchange-rates')}
+              icon="swap-horizontal"
+              fullWidth
+            >
+              Exchange Rates
+            </Button>
+            <Button
+              variant="secondary"
+              onPress={() => router.push('/business-details')}
+              icon="receipt"
+              fullWidth
+            >
+              Business Details
+            </Button>
+            <Button
+              variant="secondary"
+              onPress={() => router.push('/trash')}
+              icon="trash-outline"
+              fullWidth
+            >
+              Trash
+            </Button>
+            <Button
+              variant="secondary"
+              onPress={() => router.push('/sync')}
+              icon="cloud-upload-outline"
+              fullWidth
+            >
+              Sync Status
+            </Button>
+            {vaultStatus === 'unlocked' && (
+              <Button
+                variant="secondary"
+                onPress={() => {
+                  lockVault();
+                  showSuccessToast('Credential vault locked');
+                }}
+                icon="lock-closed"
+                fullWidth
+              >
+                Lock Credential Vault
+              </Button>
+            )}
+          </View>
+        </SettingSection>
+
+        {/* Pipeline Section */}
+        <SettingSection title="Pipeline" icon="albums" delay={275}>
+          <Text className="text-sm text-gray-500 mb-3">Flag clients on the board who have been in a stage longer than this</Text>
+          {PIPELINE_STAGES.map((stage, index) => (
+            <View key={stage.status} className={index > 0 ? 'border-t border-gray-100 pt-4 mt-4' : ''}>
+              <Text className="text-base font-medium text-gray-900 mb-2">{stage.label}</Text>
+              <Dropdown
+                options={STALE_DAYS_OPTIONS}
+                value={String(settings.pipelineStaleDays[stage.status])}
+                onValueChange={(value) => handleDropdownChange('pipelineStaleDays', {
+                  ...settings.pipelineStaleDays,
+                  [stage.status]: Number(value),
+                })}
+                placeholder="Select threshold"
+              />
+            </View>
+          ))}
+        </SettingSection>
+
+        {/* Client Health Section */}
+        <SettingSection title="Client Health" icon="pulse" delay={285}>
+          <Text className="text-sm text-gray-500 mb-3">How much each factor counts towards a client&apos;s health score</Text>
+          {HEALTH_FACTORS.map((option, index) => (
+            <View key={option.factor} className={index > 0 ? 'border-t border-gray-100 pt-4 mt-4' : ''}>
+              <Text className="text-base font-medium text-gray-900">{option.label}</Text>
+              <Text className="text-sm text-gray-500 mb-2">{option.description}</Text>
+              <Dropdown
+                options={HEALTH_WEIGHT_OPTIONS}
+                value={String(settings.healthScoreWeights[option.factor])}
+                onValueChange={(value) => handleDropdownChange('healthScoreWeights', {
+                  ...settings.healthScoreWeights,
+                  [option.factor]: Number(value),
+                })}
+                placeholder="Select weight"
+              />
+            </View>
+          ))}
+        </SettingSection>
+
         {/* Account Info Section */}
         <SettingSection title="Account Info" icon="person-circle" delay={300}>
           <View className="space-y-4">
@@ -5,12 +5,16 @@ import { Plus, MapPin, Edit, Trash2, Navigation } from 'lucide-react-native';
 import { Ionicons } from '@expo/vector-icons';
 import MapView, { Marker, Region } from 'react-native-maps';
 import * as Location from 'expo-location';
+import { router } from 'expo-router';
 import { BusinessVisit, Client } from '../../src/types';
 import { useBusinessVisits } from '../../src/hooks/useBusinessVisits';
 import { useClients } from '../../src/hooks/useClients';
 import { ConfirmDialog } from '../../src/components/ConfirmDialog';
+import { useToast } from '../../src/components/Toast';
+import { UNDO_TOAST_DURATION } from '../../src/utils/trash';
 import { SimpleFormModal } from '../../src/components/SimpleFormModal';
 import { 
+  Button,
   SearchInput,
   FilterBar,
   SortDropdown
@@ -18,6 +22,23 @@ import {
 import { VISIT_FILTER_GROUPS } from '../../src/components/FilterBar';
 import { VISIT_SORT_OPTIONS } from '../../src/components/SortDropdown';
 import { fuzzySearchItems, VISIT_SEARCH_FIELDS, useDebounceSearch, sortItems } from '../../src/utils/search';
+import { withNoteText } from '../../src/utils/notes';
+import { useNotes } from '../../src/hooks/useNotes';
+import { useSyncQueue } from '../../src/hooks/useSyncQueue';
+import { getVisitCsvColumns, getCsvFileName, shareCsv, toCsv } from '../../src/utils/csv';
+import { useProspects } from '../../src/hooks/useProspects';
+import { useTerritories } from '../../src/hooks/useTerritories';
+import { TerritoryMap } from '../../src/components/Territories';
+import { getVisitTerritoryMap } from '../../src/utils/territories';
+import { isProspectOpen } from '../../src/utils/prospects';
+import {
+  DEFAULT_VISIT_NAME,
+  formatVisitAddress,
+  getVisitCities,
+  getVisitCoordinates,
+  getVisitLocationFields,
+  withVisitLocationFields,
+} from '../../src/utils/visitLocation';
 
 export default function VisitsScreen() {
   const { 
@@ -28,24 +49,32 @@ export default function VisitsScreen() {
     markVisit,
     updateVisit,
     deleteVisit,
+    restoreVisit,
     getRecentVisits,
     getVisitStats,
     searchVisits,
     refetch 
   } = useBusinessVisits();
+  const { showToast } = useToast();
   
   const { clients } = useClients();
+  const { prospects } = useProspects();
+  const { territories, createTerritory, updateTerritory, deleteTerritory } = useTerritories();
+  const { notes } = useNotes();
+  const { pendingCount: syncPendingCount, attentionCount: syncAttentionCount } = useSyncQueue();
   const [refreshing, setRefreshing] = useState(false);
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [showEditModal, setShowEditModal] = useState(false);
   const [editingVisit, setEditingVisit] = useState<BusinessVisit | null>(null);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState<BusinessVisit | null>(null);
   const [selectedClientId, setSelectedClientId] = useState('');
+  const [selectedProspectId, setSelectedProspectId] = useState('');
   const [businessName, setBusinessName] = useState('');
   const [manualAddress, setManualAddress] = useState('');
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedFilters, setSelectedFilters] = useState<Record<string, any[]>>({});
   const [selectedSort, setSelectedSort] = useState<string | null>(null);
+  const [showMap, setShowMap] = useState(false);
   
   // Debounced search for performance
   const debouncedSearch = useDebounceSearch(searchQuery, 300);
@@ -134,6 +163,16 @@ export default function VisitsScreen() {
     return null;
   };
 
+  // Export exactly what the list shows: current filters, search and sort
+  const handleExportCsv = async () => {
+    try {
+      await shareCsv(getCsvFileName('visits'), toCsv(filteredVisits, getVisitCsvColumns(clients)));
+    } catch (error: any) {
+      console.error('Failed to export visits:', error);
+      Alert.alert('Error', `Failed to export visits: ${error.message}`);
+    }
+  };
+
   const onRefresh = async () => {
     setRefreshing(true);
     await refetch();
@@ -142,6 +181,7 @@ export default function VisitsScreen() {
 
   const resetForm = () => {
     setSelectedClientId('');
+    setSelectedProspectId('');
     setBusinessName('');
     setManualAddress('');
     setSelectedLocation(null);
@@ -156,9 +196,7 @@ export default function VisitsScreen() {
   const handleOpenEditModal = (visit: BusinessVisit) => {
     setEditingVisit(visit);
     setSelectedClientId(visit.client_id || '');
-    // Extract business name from location if available
-    const locationParts = visit.location ? visit.location.split(' - ') : [];
-    setBusinessName(locationParts[0] || '');
+    setBusinessName(getVisitLocationFields(visit).business_name || '');
     setShowEditModal(true);
   };
 
@@ -171,7 +209,13 @@ export default function VisitsScreen() {
       selectedCoordinates: selectedLocation,
     };
     
-    const result = await markVisit(visitData.clientId, visitData.businessName, visitData.manualAddress, visitData.selectedCoordinates || undefined);
+    const result = await markVisit(
+      visitData.clientId,
+      visitData.businessName,
+      visitData.manualAddress,
+      visitData.selectedCoordinates || undefined,
+      visitData.clientId ? undefined : selectedProspectId || undefined
+    );
     if (result) {
       setShowCreateModal(false);
       resetForm();
@@ -185,16 +229,9 @@ export default function VisitsScreen() {
     }
 
     try {
-      // Since we can only update location in the simplified schema
-      const locationPrefix = businessName ? `${businessName} - ` : 'Business Visit - ';
-      const currentLocation = editingVisit.location || '';
-      const locationParts = currentLocation ? currentLocation.split(' - ') : [];
-      const addressPart = locationParts.slice(1).join(' - ') || 'Unknown Location'; // Keep the address part
-      
-      const newLocation = locationPrefix + addressPart;
-      
+      // The address is kept; the hook rebuilds the location display string
       await updateVisit(editingVisit.id, {
-        location: newLocation
+        business_name: businessName
       });
       
       setShowEditModal(false);
@@ -209,15 +246,50 @@ export default function VisitsScreen() {
     try {
       await deleteVisit(visit.id);
       setShowDeleteConfirm(null);
-      Alert.alert('Success', 'Visit deleted successfully!');
+      showToast('success', 'Visit deleted', 'Moved to the Trash', {
+        duration: UNDO_TOAST_DURATION,
+        action: {
+          label: 'Undo',
+          onPress: () => {
+            restoreVisit(visit.id).catch(() => {
+              // Error already handled in hook
+            });
+          },
+        },
+      });
     } catch (error) {
       // Error already handled in hook
     }
   };
 
+  // Open prospects offered when the visit isn't for a client, narrowed by the business name typed
+  const prospectOptions = useMemo(() => {
+    const query = businessName.trim().toLowerCase();
+    return prospects
+      .filter(prospect => isProspectOpen(prospect) || prospect.id === selectedProspectId)
+      .filter(prospect => !query || prospect.id === selectedProspectId || prospect.business_name.toLowerCase().includes(query))
+      .slice(0, 5);
+  }, [prospects, businessName, selectedProspectId]);
+
+  // Each visit's territory by point-in-polygon on its coordinates
+  const territoryByVisit = useMemo(() => getVisitTerritoryMap(visits, territories), [visits, territories]);
+
+  // City and territory filter options come from the data loaded
+  const filterGroups = useMemo(() => VISIT_FILTER_GROUPS
+    .map(group => {
+      if (group.id === 'city') {
+        return { ...group, options: getVisitCities(visits).map(city => ({ key: city, label: city, value: city })) };
+      }
+      if (group.id === 'territory') {
+        return { ...group, options: territories.map(territory => ({ key: territory.id, label: territory.name, value: territory.id })) };
+      }
+      return group;
+    })
+    .filter(group => group.options.length > 0), [visits, territories]);
+
   // Enhanced filtered and sorted visits with fuzzy search
   const filteredAndSortedVisits = React.useMemo(() => {
-    let result = visits;
+    let result = withVisitLocationFields(visits);
 
     // Apply new filter system
     if (Object.keys(selectedFilters).length > 0) {
@@ -250,6 +322,10 @@ export default function VisitsScreen() {
                 return !visit.client_id || visit.client_id.trim() === '';
               }
               return true;
+            case 'city':
+              return !!visit.city && values.includes(visit.city);
+            case 'territory':
+              return values.includes(territoryByVisit[visit.id]);
             default:
               return true;
           }
@@ -259,7 +335,7 @@ export default function VisitsScreen() {
 
     // Apply fuzzy search
     if (debouncedSearch.trim()) {
-      const searchResults = fuzzySearchItems(result, debouncedSearch, VISIT_SEARCH_FIELDS);
+      const searchResults = fuzzySearchItems(withNoteText(result, notes, 'visit'), debouncedSearch, VISIT_SEARCH_FIELDS);
       result = searchResults.map(r => r.item);
     }
 
@@ -275,68 +351,49 @@ export default function VisitsScreen() {
     }
 
     return result;
-  }, [visits, selectedFilters, debouncedSearch, selectedSort]);
+  }, [visits, notes, territoryByVisit, selectedFilters, debouncedSearch, selectedSort]);
   
   // Helper to check if any filters are active
   const hasActiveFilters = Object.values(selectedFilters).some(filters => filters.length > 0);
 
-  const formatLocation = (location: string | null) => {
-    // Extract business name and address from location string
-    if (!location) {
-      return {
-        businessName: 'Business Visit',
-        address: 'Unknown Location'
-      };
-    }
-    const parts = location.split(' - ');
-    if (parts.length >= 2) {
-      return {
-        businessName: parts[0],
-        address: parts.slice(1).join(' - ')
-      };
-    }
-    return {
-      businessName: 'Business Visit',
-      address: location
-    };
-  };
-
-  const getLocationCoordinates = (location: string | null) => {
-    // Extract coordinates from location string (lat, lng)
-    if (!location) {
-      return null;
-    }
-    const match = location.match(/\((-?\d+\.\d+),\s*(-?\d+\.\d+)\)/);
-    if (match) {
-      return {
-        latitude: parseFloat(match[1]),
-        longitude: parseFloat(match[2])
-      };
-    }
-    return null;
-  };
-
   const renderVisit = ({ item }: { item: BusinessVisit }) => {
-    const locationInfo = formatLocation(item.location);
-    const coordinates = getLocationCoordinates(item.location);
+    const locationFields = getVisitLocationFields(item);
+    const address = formatVisitAddress(locationFields);
+    const coordinates = getVisitCoordinates(item);
     const client = clients.find(c => c.id === item.client_id);
+    const prospect = !client && item.prospect_id ? prospects.find(p => p.id === item.prospect_id) : undefined;
+    const territory = territoryByVisit[item.id] ? territories.find(t => t.id === territoryByVisit[item.id]) : undefined;
 
     return (
-      <View className="bg-white rounded-xl p-4 mb-3 shadow-sm">
+      <TouchableOpacity
+        className="bg-white rounded-xl p-4 mb-3 shadow-sm"
+        onPress={() => router.push(item.pending_sync ? '/sync' : `/visit/${item.id}`)}
+      >
         <View className="flex-row items-start justify-between mb-3">
           <View className="flex-1">
             <Text className="text-lg font-semibold text-gray-900">
-              {locationInfo.businessName}
+              {locationFields.business_name || DEFAULT_VISIT_NAME}
             </Text>
+            {item.pending_sync && (
+              <View className="flex-row items-center self-start px-2 py-0.5 bg-amber-100 rounded-full mb-1">
+                <Ionicons name="cloud-upload-outline" size={12} color="#D97706" />
+                <Text className="text-amber-700 text-xs font-medium ml-1">Pending sync</Text>
+              </View>
+            )}
             {client && (
               <Text className="text-blue-600 text-sm font-medium mb-1">
                 Client: {client.name}
               </Text>
             )}
+            {prospect && (
+              <Text className="text-orange-600 text-sm font-medium mb-1">
+                Prospect: {prospect.business_name}
+              </Text>
+            )}
             <View className="flex-row items-center mb-2">
               <Ionicons name="location-outline" size={14} color="#9CA3AF" />
               <Text className="text-gray-500 text-sm ml-1 flex-1" numberOfLines={2}>
-                {locationInfo.address}
+                {address || 'Unknown Location'}
               </Text>
             </View>
             {coordinates && (
@@ -344,26 +401,37 @@ export default function VisitsScreen() {
                 {coordinates.latitude.toFixed(4)}, {coordinates.longitude.toFixed(4)}
               </Text>
             )}
+            {territory && (
+              <View className="flex-row items-center mt-1">
+                <View className="w-2 h-2 rounded-full mr-1" style={{ backgroundColor: territory.color }} />
+                <Text className="text-xs text-gray-500">{territory.name}</Text>
+              </View>
+            )}
           </View>
           <View className="flex-row items-center space-x-2 ml-3">
-            <TouchableOpacity 
-              className="p-2 bg-blue-100 rounded-lg"
-              onPress={() => handleOpenEditModal(item)}
-            >
-              <Ionicons name="pencil" size={16} color="#00D4AA" />
-            </TouchableOpacity>
-            <TouchableOpacity 
-              className="p-2 bg-red-100 rounded-lg"
-              onPress={() => setShowDeleteConfirm(item)}
-            >
-              <Ionicons name="trash" size={16} color="#EF4444" />
-            </TouchableOpacity>
+            {/* A queued visit can't be edited or deleted until it's on the server */}
+            {!item.pending_sync && (
+              <>
+                <TouchableOpacity 
+                  className="p-2 bg-blue-100 rounded-lg"
+                  onPress={() => handleOpenEditModal(item)}
+                >
+                  <Ionicons name="pencil" size={16} color="#00D4AA" />
+                </TouchableOpacity>
+                <TouchableOpacity 
+                  className="p-2 bg-red-100 rounded-lg"
+                  onPress={() => setShowDeleteConfirm(item)}
+                >
+                  <Ionicons name="trash" size={16} color="#EF4444" />
+                </TouchableOpacity>
+              </>
+            )}
             <View className="p-2 bg-green-100 rounded-lg">
               <Ionicons name="location" size={16} color="#34C759" />
             </View>
           </View>
         </View>
-      </View>
+      </TouchableOpacity>
     );
   };
 
@@ -457,6 +525,44 @@ export default function VisitsScreen() {
         </View>
       )}
 
+      {/* Visits, notes and signups captured offline */}
+      {syncPendingCount > 0 && (
+        <TouchableOpacity
+          className="flex-row items-center bg-amber-50 border border-amber-200 rounded-xl p-4 mb-6"
+          onPress={() => router.push('/sync')}
+        >
+          <Ionicons name="cloud-upload-outline" size={20} color="#D97706" />
+          <Text className="text-amber-800 font-medium ml-2 flex-1">
+            {syncPendingCount} waiting to sync{syncAttentionCount > 0 ? ` · ${syncAttentionCount} need attention` : ''}
+          </Text>
+          <Ionicons name="chevron-forward" size={18} color="#D97706" />
+        </TouchableOpacity>
+      )}
+
+      {/* Territories and coverage map */}
+      <View className="mb-6">
+        <Button
+          variant="secondary"
+          size="sm"
+          icon={showMap ? 'list-outline' : 'map-outline'}
+          onPress={() => setShowMap(prev => !prev)}
+          fullWidth
+        >
+          {showMap ? 'Hide Map' : 'Territories & Coverage'}
+        </Button>
+        {showMap && (
+          <View className="mt-4">
+            <TerritoryMap
+              territories={territories}
+              visits={visits}
+              onCreate={createTerritory}
+              onUpdate={updateTerritory}
+              onDelete={deleteTerritory}
+            />
+          </View>
+        )}
+      </View>
+
       {/* Enhanced Search Bar with Filters and Sort */}
       <View className="mb-6 gap-4">
         {/* Search Input with Sort */}
@@ -481,7 +587,7 @@ export default function VisitsScreen() {
         
         {/* Filter Bar */}
         <FilterBar
-          filterGroups={VISIT_FILTER_GROUPS}
+          filterGroups={filterGroups}
           selectedFilters={selectedFilters}
           onFilterChange={(groupId, values) => {
             setSelectedFilters(prev => ({
@@ -491,6 +597,25 @@ export default function VisitsScreen() {
           }}
           onClearAll={() => setSelectedFilters({})}
         />
+
+        {/* Prospects, route planner and CSV export of the filtered list */}
+        <View className="flex-row gap-3">
+          <View className="flex-1">
+            <Button variant="secondary" size="sm" icon="storefront-outline" onPress={() => router.push('/prospects')} fullWidth>
+              Prospects
+            </Button>
+          </View>
+          <View className="flex-1">
+            <Button variant="secondary" size="sm" icon="navigate-outline" onPress={() => router.push('/visit/route')} fullWidth>
+              Route
+            </Button>
+          </View>
+          <View className="flex-1">
+            <Button variant="secondary" size="sm" icon="download-outline" onPress={handleExportCsv} fullWidth>
+              Export CSV
+            </Button>
+          </View>
+        </View>
       </View>
     </View>
   );
@@ -502,7 +627,7 @@ export default function VisitsScreen() {
         renderItem={renderVisit}
         keyExtractor={(item) => item.id}
         showsVerticalScrollIndicator={false}
-        ListHeaderComponent={renderHeader}
+        ListHeaderComponent={renderHeader()}
         refreshControl={
           <RefreshControl
             refreshing={refreshing}
@@ -632,6 +757,49 @@ export default function VisitsScreen() {
                   )}
                 </View>
 
+                {!selectedClientId && (
+                  <View>
+                    <Text className="text-sm font-medium text-gray-700 mb-2">Prospect</Text>
+                    <TouchableOpacity
+                      className={`px-4 py-3 border border-gray-300 rounded-lg mb-2 flex-row items-center justify-between ${
+                        !selectedProspectId ? 'bg-blue-50 border-blue-300' : 'bg-white'
+                      }`}
+                      onPress={() => setSelectedProspectId('')}
+                    >
+                      <Text className={`font-medium flex-1 ${!selectedProspectId ? 'text-blue-700' : 'text-gray-900'}`}>
+                        Match by business name, or start a new prospect
+                      </Text>
+                      {!selectedProspectId && (
+                        <Ionicons name="checkmark-circle" size={20} color="#00D4AA" />
+                      )}
+                    </TouchableOpacity>
+                    {prospectOptions.map(prospect => (
+                      <TouchableOpacity
+                        key={prospect.id}
+                        className={`px-4 py-3 border border-gray-300 rounded-lg mb-2 flex-row items-center justify-between ${
+                          selectedProspectId === prospect.id ? 'bg-blue-50 border-blue-300' : 'bg-white'
+                        }`}
+                        onPress={() => {
+                          setSelectedProspectId(prospect.id);
+                          setBusinessName(prospect.business_name);
+                        }}
+                      >
+                        <View className="flex-1">
+                          <Text className={`font-medium ${selectedProspectId === prospect.id ? 'text-blue-700' : 'text-gray-900'}`}>
+                            {prospect.business_name}
+                          </Text>
+                          {!!prospect.address && (
+                            <Text className="text-gray-500 text-sm" numberOfLines={1}>{prospect.address}</Text>
+                          )}
+                        </View>
+                        {selectedProspectId === prospect.id && (
+                          <Ionicons name="checkmark-circle" size={20} color="#00D4AA" />
+                        )}
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                )}
+
                 {/* Interactive Map */}
                 <View>
                   <Text className="text-sm font-medium text-gray-700 mb-2">Select Location</Text>
@@ -783,7 +951,7 @@ export default function VisitsScreen() {
                   <View className="bg-gray-50 px-4 py-3 rounded-lg">
                     <Text className="text-gray-700 font-medium mb-1">Current Location:</Text>
                     <Text className="text-gray-600 text-sm">
-                      {formatLocation(editingVisit.location).address}
+                      {formatVisitAddress(getVisitLocationFields(editingVisit)) || 'Unknown Location'}
                     </Text>
                   </View>
                 )}
@@ -826,7 +994,7 @@ export default function VisitsScreen() {
         <ConfirmDialog
           visible={!!showDeleteConfirm}
           title="Delete Visit"
-          message={`Are you sure you want to delete this visit to "${showDeleteConfirm ? formatLocation(showDeleteConfirm.location).businessName : ''}"? This action cannot be undone.`}
+          message={`Are you sure you want to delete this visit to "${showDeleteConfirm ? getVisitLocationFields(showDeleteConfirm).business_name || DEFAULT_VISIT_NAME : ''}"? You can restore it from the Trash in Settings.`}
           confirmText="Delete"
           onConfirm={() => showDeleteConfirm && handleDeleteVisit(showDeleteConfirm)}
           onCancel={() => setShowDeleteConfirm(null)}
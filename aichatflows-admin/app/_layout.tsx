@@ -6,6 +6,7 @@ import { View, ActivityIndicator, Text } from 'react-native';
 import * as Notifications from 'expo-notifications';
 import { ThemeProvider } from '../src/contexts/ThemeContext';
 import { ErrorBoundary } from '../src/components/ErrorBoundary';
+import { ToastProvider } from '../src/components/Toast';
 import React from 'react';
 import '../global.css';
 
@@ -239,22 +240,35 @@ export default function RootLayout() {
         <GestureHandlerRootView style={{ flex: 1 }}>
           <SafeAreaProvider>
             <ThemeProvider>
-              <Stack
-                screenOptions={{
-                  headerShown: false,
-                  presentation: 'card',
-                  animation: 'default',
-                }}
-                initialRouteName="index"
-              >
-                <Stack.Screen name="index" options={{ headerShown: false }} />
-                <Stack.Screen name="(auth)" options={{ headerShown: false }} />
-                <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
-                <Stack.Screen name="onboarding" options={{ headerShown: false }} />
-                <Stack.Screen name="analytics" options={{ headerShown: false }} />
-                <Stack.Screen name="client" options={{ headerShown: false }} />
-                <Stack.Screen name="payment" options={{ headerShown: false }} />
-              </Stack>
+              <ToastProvider>
+                <Stack
+                  screenOptions={{
+                    headerShown: false,
+                    presentation: 'card',
+                    animation: 'default',
+                  }}
+                  initialRouteName="index"
+                >
+                  <Stack.Screen name="index" options={{ headerShown: false }} />
+                  <Stack.Screen name="(auth)" options={{ headerShown: false }} />
+                  <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
+                  <Stack.Screen name="onboarding" options={{ headerShown: false }} />
+                  <Stack.Screen name="analytics" options={{ headerShown: false }} />
+                  <Stack.Screen name="client" options={{ headerShown: false }} />
+                  <Stack.Screen name="payment" options={{ headerShown: false }} />
+                  <Stack.Screen name="visit" options={{ headerShown: false }} />
+                  <Stack.Screen name="plans" options={{ headerShown: false }} />
+                  <Stack.Screen name="custom-fields" options={{ headerShown: false }} />
+                  <Stack.Screen name="exchange-rates" options={{ headerShown: false }} />
+                  <Stack.Screen name="business-details" options={{ headerShown: false }} />
+                  <Stack.Screen name="import" options={{ headerShown: false }} />
+                  <Stack.Screen name="duplicates" options={{ headerShown: false }} />
+                  <Stack.Screen name="today" options={{ headerShown: false }} />
+                  <Stack.Screen name="trash" options={{ headerShown: false }} />
+                  <Stack.Screen name="prospects" options={{ headerShown: false }} />
+                  <Stack.Screen name="sync" options={{ headerShown: false }} />
+                </Stack>
+              </ToastProvider>
             </ThemeProvider>
           </SafeAreaProvider>
         </GestureHandlerRootView>
@@ -5,6 +5,8 @@ import { Ionicons } from '@expo/vector-icons';
 import { router } from 'expo-router';
 import { useClients } from '../../src/hooks/useClients';
 import { useDashboardStats } from '../../src/hooks/useDashboardStats';
+import { usePlans } from '../../src/hooks/usePlans';
+import { getActivePlans, getClientPlanInfo, getPlanColor, getPlanLabel } from '../../src/utils/finance';
 
 const statusColors = {
   active: 'bg-green-100 text-green-800',
@@ -17,6 +19,7 @@ const statusColors = {
 export default function ClientAnalyticsScreen() {
   const { clients, loading: clientsLoading } = useClients();
   const { stats, loading: statsLoading } = useDashboardStats();
+  const { plans } = usePlans();
   const [selectedPeriod, setSelectedPeriod] = useState<'week' | 'month' | 'year'>('month');
 
   const loading = clientsLoading || statsLoading;
@@ -45,9 +48,15 @@ export default function ClientAnalyticsScreen() {
   };
 
   const getClientsByPlan = () => {
-    const starter = clients.filter(c => c.plan === 'starter').length;
-    const pro = clients.filter(c => c.plan === 'pro').length;
-    return { starter, pro };
+    const planNames = new Set([
+      ...getActivePlans(plans).map(plan => plan.name),
+      ...clients.map(client => getClientPlanInfo(client, plans).name),
+    ]);
+    return Array.from(planNames).map(plan => ({
+      plan,
+      label: getPlanLabel(plans, plan),
+      count: clients.filter(client => getClientPlanInfo(client, plans).name === plan).length,
+    }));
   };
 
   const getClientsByPlatform = () => {
@@ -163,30 +172,20 @@ export default function ClientAnalyticsScreen() {
         <View className="bg-white rounded-xl p-6 shadow-sm mb-6">
           <Text className="text-lg font-semibold text-gray-900 mb-4">Plan Distribution</Text>
           <View className="space-y-3">
-            <View className="flex-row items-center justify-between">
-              <View className="flex-row items-center">
-                <View className="w-4 h-4 bg-blue-500 rounded mr-3"></View>
-                <Text className="text-gray-600">Starter Plan</Text>
-              </View>
-              <View className="flex-row items-center">
-                <Text className="font-semibold text-gray-900 mr-2">{planBreakdown.starter}</Text>
-                <Text className="text-xs text-gray-500">
-                  ({clients.length > 0 ? Math.round((planBreakdown.starter / clients.length) * 100) : 0}%)
-                </Text>
-              </View>
-            </View>
-            <View className="flex-row items-center justify-between">
-              <View className="flex-row items-center">
-                <View className="w-4 h-4 bg-purple-500 rounded mr-3"></View>
-                <Text className="text-gray-600">Pro Plan</Text>
-              </View>
-              <View className="flex-row items-center">
-                <Text className="font-semibold text-gray-900 mr-2">{planBreakdown.pro}</Text>
-                <Text className="text-xs text-gray-500">
-                  ({clients.length > 0 ? Math.round((planBreakdown.pro / clients.length) * 100) : 0}%)
-                </Text>
+            {planBreakdown.map(entry => (
+              <View key={entry.plan} className="flex-row items-center justify-between">
+                <View className="flex-row items-center">
+                  <View className="w-4 h-4 rounded mr-3" style={{ backgroundColor: getPlanColor(entry.plan) }}></View>
+                  <Text className="text-gray-600">{entry.label} Plan</Text>
+                </View>
+                <View className="flex-row items-center">
+                  <Text className="font-semibold text-gray-900 mr-2">{entry.count}</Text>
+                  <Text className="text-xs text-gray-500">
+                    ({clients.length > 0 ? Math.round((entry.count / clients.length) * 100) : 0}%)
+                  </Text>
+                </View>
               </View>
-            </View>
+            ))}
           </View>
         </View>
 
@@ -6,6 +6,7 @@ import { router } from 'expo-router';
 import { useGoals } from '../../src/hooks/useGoals';
 import { useClients } from '../../src/hooks/useClients';
 import { usePayments } from '../../src/hooks/usePayments';
+import { isMoneyReceived } from '../../src/utils/payments';
 
 export default function GoalsAnalyticsScreen() {
   const { goals, loading: goalsLoading } = useGoals();
@@ -39,7 +40,7 @@ export default function GoalsAnalyticsScreen() {
     if (goal.metric === 'revenue') {
       // Calculate revenue progress
       const relevantPayments = payments.filter(payment => 
-        payment.status === 'confirmed' &&
+        isMoneyReceived(payment) &&
         new Date(payment.payment_date) >= startDate &&
         new Date(payment.payment_date) <= endDate
       );
@@ -1,10 +1,24 @@
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 import { View, Text, TouchableOpacity, ScrollView, ActivityIndicator } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { router, useLocalSearchParams } from 'expo-router';
 import { usePayments } from '../../src/hooks/usePayments';
 import { useDashboardStats } from '../../src/hooks/useDashboardStats';
+import { useClients } from '../../src/hooks/useClients';
+import { usePlans } from '../../src/hooks/usePlans';
+import { useSettings } from '../../src/hooks/useSettings';
+import { usePlanChanges } from '../../src/hooks/usePlanChanges';
+import { useClientStatusChanges } from '../../src/hooks/useClientStatusChanges';
+import {
+  COHORT_RETENTION_OFFSETS,
+  buildCohortRetention,
+  buildMRRSeries,
+  buildMRRWaterfall,
+  formatMonthKey,
+} from '../../src/utils/mrr';
+import { calculateRevenueBreakdown, isMoneyReceived } from '../../src/utils/payments';
+import { formatForeignTotals, formatMoney, formatOriginalAmount, getCurrency, toBaseAmount } from '../../src/utils/currency';
 
 const statusColors = {
   pending: 'bg-yellow-100 text-yellow-800',
@@ -16,19 +30,31 @@ export default function RevenueAnalyticsScreen() {
   const { period } = useLocalSearchParams<{ period?: string }>();
   const { payments, loading: paymentsLoading } = usePayments();
   const { stats, loading: statsLoading } = useDashboardStats();
+  const { clients, loading: clientsLoading } = useClients();
+  const { plans } = usePlans();
+  const { settings } = useSettings();
+  const { planChanges, loading: planChangesLoading } = usePlanChanges();
+  const { statusChanges, loading: statusChangesLoading } = useClientStatusChanges();
   const [selectedPeriod, setSelectedPeriod] = useState<'today' | 'week' | 'month' | 'year'>(
     (period as any) || 'month'
   );
 
-  const loading = paymentsLoading || statsLoading;
+  const loading = paymentsLoading || statsLoading || clientsLoading || planChangesLoading || statusChangesLoading;
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
-      minimumFractionDigits: 0,
-    }).format(amount);
-  };
+  // Payment totals and MRR are converted to the base currency
+  const { baseCurrency, exchangeRates } = settings;
+  const conversion = useMemo(() => ({ baseCurrency, rates: exchangeRates }), [baseCurrency, exchangeRates]);
+
+  // MRR history rebuilt from plan and status changes
+  const mrrSeries = useMemo(
+    () => buildMRRSeries(clients, planChanges, statusChanges, plans, new Date(), conversion),
+    [clients, planChanges, statusChanges, plans, conversion]
+  );
+  const mrrWaterfall = useMemo(() => buildMRRWaterfall(mrrSeries).reverse(), [mrrSeries]);
+  const cohortRetention = useMemo(() => buildCohortRetention(mrrSeries).slice(0, 12), [mrrSeries]);
+  const currentMRR = mrrWaterfall[0];
+
+  const formatCurrency = (amount: number) => formatMoney(amount, settings.baseCurrency, 0);
 
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString();
@@ -58,25 +84,30 @@ export default function RevenueAnalyticsScreen() {
 
   const getRevenueStats = () => {
     const filteredPayments = getFilteredPayments();
-    const confirmed = filteredPayments.filter(p => p.status === 'confirmed');
+    const confirmed = filteredPayments.filter(isMoneyReceived);
     const pending = filteredPayments.filter(p => p.status === 'pending');
     const failed = filteredPayments.filter(p => p.status === 'failed');
+    const breakdown = calculateRevenueBreakdown(filteredPayments, undefined, undefined, conversion);
+    const sum = (list: typeof filteredPayments) => list.reduce((total, p) => total + toBaseAmount(p, conversion), 0);
 
     return {
-      total: confirmed.reduce((sum, p) => sum + p.amount, 0),
-      pending: pending.reduce((sum, p) => sum + p.amount, 0),
-      failed: failed.reduce((sum, p) => sum + p.amount, 0),
+      total: breakdown.net,
+      gross: breakdown.gross,
+      refunded: breakdown.refunded,
+      foreign: formatForeignTotals(breakdown.byCurrency, settings.baseCurrency),
+      pending: sum(pending),
+      failed: sum(failed),
       count: {
         confirmed: confirmed.length,
         pending: pending.length,
         failed: failed.length,
       },
-      average: confirmed.length > 0 ? confirmed.reduce((sum, p) => sum + p.amount, 0) / confirmed.length : 0,
+      average: confirmed.length > 0 ? breakdown.gross / confirmed.length : 0,
     };
   };
 
   const getTopClients = () => {
-    const filteredPayments = getFilteredPayments().filter(p => p.status === 'confirmed');
+    const filteredPayments = getFilteredPayments().filter(isMoneyReceived);
     const clientRevenue: Record<string, { client: any; total: number; count: number }> = {};
 
     filteredPayments.forEach(payment => {
@@ -89,7 +120,7 @@ export default function RevenueAnalyticsScreen() {
             count: 0,
           };
         }
-        clientRevenue[clientId].total += payment.amount;
+        clientRevenue[clientId].total += toBaseAmount(payment, conversion);
         clientRevenue[clientId].count += 1;
       }
     });
@@ -156,11 +187,24 @@ export default function RevenueAnalyticsScreen() {
           <Text className="text-lg font-semibold text-gray-900 mb-4">Revenue Overview</Text>
           <View className="space-y-4">
             <View className="flex-row justify-between items-center">
-              <Text className="text-gray-600">Total Revenue</Text>
+              <Text className="text-gray-600">Net Revenue</Text>
               <Text className="text-2xl font-bold text-green-600">
                 {formatCurrency(revenueStats.total)}
               </Text>
             </View>
+            {!!revenueStats.foreign && (
+              <Text className="text-gray-500 text-sm text-right">Includes {revenueStats.foreign}</Text>
+            )}
+            <View className="flex-row justify-between">
+              <Text className="text-gray-600">Gross Received</Text>
+              <Text className="font-semibold text-gray-900">{formatCurrency(revenueStats.gross)}</Text>
+            </View>
+            <View className="flex-row justify-between">
+              <Text className="text-gray-600">Refunded</Text>
+              <Text className={`font-semibold ${revenueStats.refunded > 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                {revenueStats.refunded > 0 ? '-' : ''}{formatCurrency(revenueStats.refunded)}
+              </Text>
+            </View>
             <View className="flex-row justify-between">
               <Text className="text-gray-600">Confirmed Payments</Text>
               <Text className="font-semibold text-gray-900">{revenueStats.count.confirmed}</Text>
@@ -180,6 +224,94 @@ export default function RevenueAnalyticsScreen() {
           </View>
         </View>
 
+        {/* MRR Waterfall */}
+        <View className="bg-white rounded-xl p-6 shadow-sm mb-6">
+          <Text className="text-lg font-semibold text-gray-900 mb-1">MRR Waterfall</Text>
+          <Text className="text-gray-500 text-sm mb-4">Monthly recurring revenue movements, last 12 months</Text>
+
+          {currentMRR && (
+            <View className="flex-row flex-wrap gap-2 mb-4">
+              {[
+                { label: 'New', value: currentMRR.newMRR, color: 'text-green-600', sign: '+' },
+                { label: 'Expansion', value: currentMRR.expansionMRR, color: 'text-green-600', sign: '+' },
+                { label: 'Reactivated', value: currentMRR.reactivatedMRR, color: 'text-blue-600', sign: '+' },
+                { label: 'Contraction', value: currentMRR.contractionMRR, color: 'text-orange-600', sign: '−' },
+                { label: 'Churned', value: currentMRR.churnedMRR, color: 'text-red-600', sign: '−' },
+              ].map(item => (
+                <View key={item.label} className="flex-1 min-w-[30%] bg-gray-50 p-3 rounded-lg">
+                  <Text className={`font-bold ${item.color}`}>{item.sign}{formatCurrency(item.value)}</Text>
+                  <Text className="text-gray-500 text-xs">{item.label} this month</Text>
+                </View>
+              ))}
+            </View>
+          )}
+
+          {mrrWaterfall.map((month) => {
+            const netChange = month.endingMRR - month.startingMRR;
+            return (
+              <View key={month.month} className="py-3 border-b border-gray-100">
+                <View className="flex-row justify-between items-center">
+                  <Text className="font-medium text-gray-900">{formatMonthKey(month.month)}</Text>
+                  <View className="flex-row items-center">
+                    <Text className={`text-xs mr-2 ${netChange >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                      {netChange >= 0 ? '+' : '−'}{formatCurrency(Math.abs(netChange))}
+                    </Text>
+                    <Text className="font-semibold text-gray-900">{formatCurrency(month.endingMRR)}</Text>
+                  </View>
+                </View>
+                <Text className="text-gray-500 text-xs mt-1">
+                  New {formatCurrency(month.newMRR)} · Exp {formatCurrency(month.expansionMRR)} · React {formatCurrency(month.reactivatedMRR)} · Contr {formatCurrency(month.contractionMRR)} · Churn {formatCurrency(month.churnedMRR)}
+                </Text>
+              </View>
+            );
+          })}
+          {mrrWaterfall.length === 0 && (
+            <View className="py-8 items-center">
+              <Ionicons name="bar-chart-outline" size={48} color="#9CA3AF" />
+              <Text className="text-gray-500 mt-2">No MRR history yet</Text>
+            </View>
+          )}
+        </View>
+
+        {/* Cohort Net Revenue Retention */}
+        <View className="bg-white rounded-xl p-6 shadow-sm mb-6">
+          <Text className="text-lg font-semibold text-gray-900 mb-1">Net Revenue Retention by Cohort</Text>
+          <Text className="text-gray-500 text-sm mb-4">MRR kept from each signup month, including upgrades and downgrades</Text>
+
+          <View className="flex-row pb-2 border-b border-gray-200">
+            <Text className="flex-[2] text-xs font-semibold text-gray-500">Cohort</Text>
+            <Text className="flex-1 text-xs font-semibold text-gray-500 text-right">Start</Text>
+            {COHORT_RETENTION_OFFSETS.map(offset => (
+              <Text key={offset} className="flex-1 text-xs font-semibold text-gray-500 text-right">M{offset}</Text>
+            ))}
+          </View>
+          {cohortRetention.map((cohort) => (
+            <View key={cohort.cohort} className="flex-row py-2 border-b border-gray-100">
+              <View className="flex-[2]">
+                <Text className="text-sm text-gray-900">{formatMonthKey(cohort.cohort)}</Text>
+                <Text className="text-xs text-gray-500">{cohort.clientCount} client{cohort.clientCount !== 1 ? 's' : ''}</Text>
+              </View>
+              <Text className="flex-1 text-sm text-gray-900 text-right">{formatCurrency(cohort.startingMRR)}</Text>
+              {cohort.retention.map((value, index) => (
+                <Text
+                  key={COHORT_RETENTION_OFFSETS[index]}
+                  className={`flex-1 text-sm text-right ${
+                    value === null ? 'text-gray-300' : value >= 100 ? 'text-green-600' : 'text-orange-600'
+                  }`}
+                >
+                  {value === null ? '—' : `${value.toFixed(0)}%`}
+                </Text>
+              ))}
+            </View>
+          ))}
+          {cohortRetention.length === 0 && (
+            <View className="py-8 items-center">
+              <Ionicons name="people-outline" size={48} color="#9CA3AF" />
+              <Text className="text-gray-500 mt-2">No paying cohorts yet</Text>
+            </View>
+          )}
+        </View>
+
         {/* Payment Status Breakdown */}
         <View className="bg-white rounded-xl p-6 shadow-sm mb-6">
           <Text className="text-lg font-semibold text-gray-900 mb-4">Payment Status</Text>
@@ -194,7 +326,7 @@ export default function RevenueAnalyticsScreen() {
               <View className="flex-row items-center">
                 <Text className="font-semibold text-gray-900 mr-2">{revenueStats.count.confirmed}</Text>
                 <Text className="text-green-600 font-semibold">
-                  {formatCurrency(revenueStats.total)}
+                  {formatCurrency(revenueStats.gross)}
                 </Text>
               </View>
             </View>
@@ -285,7 +417,12 @@ export default function RevenueAnalyticsScreen() {
             >
               <View className="flex-1">
                 <Text className="font-medium text-gray-900">
-                  {formatCurrency(payment.amount)}
+                  {formatCurrency(toBaseAmount(payment, conversion))}
+                  {!!formatOriginalAmount(payment.amount, getCurrency(payment), settings.baseCurrency) && (
+                    <Text className="text-sm font-normal text-gray-500">
+                      {' '}({formatOriginalAmount(payment.amount, getCurrency(payment), settings.baseCurrency)})
+                    </Text>
+                  )}
                 </Text>
                 <Text className="text-gray-500 text-sm">
                   {payment.client?.name || 'Unknown Client'}
@@ -0,0 +1,137 @@
+import { useEffect, useState } from 'react';
+import { View, Text, TouchableOpacity, ScrollView, ActivityIndicator } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import { useSettings } from '../../src/hooks/useSettings';
+import { Button, Input, FormField } from '../../src/components';
+import { BusinessDetails, DEFAULT_BUSINESS_DETAILS } from '../../src/utils/receipts';
+import { validateEmail } from '../../src/utils/validation';
+
+export default function BusinessDetailsScreen() {
+  const { settings, updateSetting, isLoaded } = useSettings();
+
+  const [form, setForm] = useState<BusinessDetails>(DEFAULT_BUSINESS_DETAILS);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (isLoaded) {
+      setForm(settings.businessDetails);
+    }
+  }, [isLoaded, settings.businessDetails]);
+
+  const handleSave = async () => {
+    if (!form.name.trim()) {
+      setFormError('Business name is required');
+      return;
+    }
+    const emailError = form.email.trim() ? validateEmail(form.email.trim()) : null;
+    if (emailError) {
+      setFormError(emailError);
+      return;
+    }
+
+    setFormError(null);
+    setSaving(true);
+    try {
+      await updateSetting('businessDetails', {
+        name: form.name.trim(),
+        address: form.address.trim(),
+        email: form.email.trim(),
+        phone: form.phone.trim(),
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!isLoaded) {
+    return (
+      <SafeAreaView className="flex-1 bg-gray-50">
+        <View className="flex-1 justify-center items-center">
+          <ActivityIndicator size="large" color="#00D4AA" />
+          <Text className="text-gray-600 mt-4">Loading business details...</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView className="flex-1 bg-gray-50">
+      <ScrollView className="px-6 py-4" keyboardShouldPersistTaps="handled">
+        {/* Header with Back Button */}
+        <TouchableOpacity
+          className="flex-row items-center mb-6"
+          onPress={() => router.back()}
+        >
+          <Ionicons name="arrow-back" size={24} color="#00D4AA" />
+          <Text className="text-primary text-lg ml-2">Back to Settings</Text>
+        </TouchableOpacity>
+
+        <Text className="text-2xl font-bold text-gray-900 mb-2">Business Details</Text>
+        <Text className="text-sm text-gray-500 mb-6">
+          Printed at the top of every receipt. Stored on this device.
+        </Text>
+
+        <View className="bg-white rounded-xl p-6 shadow-sm mb-6">
+          <FormField spacing="compact">
+            <Input
+              label="Business Name"
+              required
+              value={form.name}
+              onChangeText={(text) => setForm({ ...form, name: text })}
+              placeholder="Your business name"
+              leftIcon="business"
+            />
+          </FormField>
+
+          <FormField spacing="compact">
+            <Input
+              label="Address"
+              value={form.address}
+              onChangeText={(text) => setForm({ ...form, address: text })}
+              placeholder="Street, city, postal code"
+              leftIcon="location"
+              multiline
+              numberOfLines={2}
+            />
+          </FormField>
+
+          <FormField spacing="compact">
+            <Input
+              label="Email"
+              value={form.email}
+              onChangeText={(text) => setForm({ ...form, email: text })}
+              placeholder="billing@example.com"
+              keyboardType="email-address"
+              autoCapitalize="none"
+              leftIcon="mail"
+            />
+          </FormField>
+
+          <FormField spacing="compact">
+            <Input
+              label="Phone"
+              value={form.phone}
+              onChangeText={(text) => setForm({ ...form, phone: text })}
+              placeholder="Optional"
+              keyboardType="phone-pad"
+              leftIcon="call"
+            />
+          </FormField>
+
+          {formError && (
+            <Text className="text-red-600 text-sm mb-2">{formError}</Text>
+          )}
+
+          <View className="pt-2">
+            <Button variant="primary" onPress={handleSave} loading={saving} fullWidth>
+              Save Details
+            </Button>
+          </View>
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
@@ -1,13 +1,38 @@
 import { useState, useEffect } from 'react';
-import { View, Text, TouchableOpacity, ScrollView, ActivityIndicator } from 'react-native';
+import { View, Text, TouchableOpacity, ScrollView, ActivityIndicator, Alert } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { router, useLocalSearchParams } from 'expo-router';
-import { Client, Payment, Goal, BusinessVisit } from '../../src/types';
+import { Client, Payment, Goal, BusinessVisit, Invoice, CredentialAccessLogEntry, Task, TaskFormData } from '../../src/types';
 import { useClients } from '../../src/hooks/useClients';
 import { usePayments } from '../../src/hooks/usePayments';
 import { useGoals } from '../../src/hooks/useGoals';
 import { useBusinessVisits } from '../../src/hooks/useBusinessVisits';
+import { useInvoices } from '../../src/hooks/useInvoices';
+import { usePlans } from '../../src/hooks/usePlans';
+import { usePlanChanges } from '../../src/hooks/usePlanChanges';
+import { useActivityLog } from '../../src/hooks/useActivityLog';
+import { useSettings } from '../../src/hooks/useSettings';
+import { useCredentialVault } from '../../src/hooks/useCredentialVault';
+import { useClientEvents } from '../../src/hooks/useClientEvents';
+import { useTasks } from '../../src/hooks/useTasks';
+import { useCustomFields } from '../../src/hooks/useCustomFields';
+import { useClientStatusChanges } from '../../src/hooks/useClientStatusChanges';
+import { ReauthModal, VaultUnlockModal } from '../../src/components/CredentialVault';
+import { TaskFormModal, TaskRow } from '../../src/components/Tasks';
+import { NotesThread } from '../../src/components/NotesThread';
+import { AttachmentGallery } from '../../src/components/Attachments';
+import { HealthScoreCard } from '../../src/components/HealthScore';
+import { CredentialPlatform, getPlatformLabel, maskSecret } from '../../src/utils/vault';
+import { describeClientEvent, describeEventActor } from '../../src/utils/clientEvents';
+import { getEmptyTaskForm, getTaskFormData, sortTasksByDue } from '../../src/utils/tasks';
+import { formatCustomFieldValue } from '../../src/utils/customFields';
+import { calculateHealthScore } from '../../src/utils/healthScore';
+import { getInvoiceBalance, getInvoiceDisplayStatus, getInvoiceStatusColor, getUnappliedAmount, parseISODate } from '../../src/utils/invoices';
+import { getClientPlanInfo, getPlanColor, getPlanLabel } from '../../src/utils/finance';
+import { buildPlanTimeline, describeProration, formatPlanPeriod } from '../../src/utils/proration';
+import { calculateRevenueBreakdown, getRefundState, isCreditNote, isMoneyReceived, isRefund } from '../../src/utils/payments';
+import { formatMoney, formatOriginalAmount, getCurrency, toBaseAmount } from '../../src/utils/currency';
 
 const statusColors = {
   active: 'bg-green-100 text-green-800',
@@ -17,6 +42,12 @@ const statusColors = {
   unknown: 'bg-gray-100 text-gray-800',
 };
 
+// How long a revealed password stays on screen
+const REVEAL_DURATION_MS = 30000;
+
+// Timeline entries shown before "Show all"
+const TIMELINE_PREVIEW_COUNT = 8;
+
 export default function ClientDetailScreen() {
   const { id } = useLocalSearchParams<{ id: string }>();
   const [client, setClient] = useState<Client | null>(null);
@@ -26,6 +57,34 @@ export default function ClientDetailScreen() {
   const { payments } = usePayments();
   const { goals } = useGoals();
   const { visits } = useBusinessVisits();
+  const { invoices, getInvoicesForClient, settleInvoice, voidInvoice } = useInvoices();
+  const { plans, activePlans } = usePlans();
+  const { getPlanChangesForClient, previewPlanChange, changeClientPlan } = usePlanChanges();
+  const { logPlanChange } = useActivityLog();
+  const { settings } = useSettings();
+  const {
+    status: vaultStatus,
+    setUpVault,
+    unlockVault,
+    reauthenticate,
+    canUseBiometrics,
+    revealCredential,
+    fetchAccessLog,
+    getCredentialsForClient,
+  } = useCredentialVault();
+  const [revealed, setRevealed] = useState<Partial<Record<CredentialPlatform, string>>>({});
+  const [pendingReveal, setPendingReveal] = useState<CredentialPlatform | null>(null);
+  const [showVaultModal, setShowVaultModal] = useState(false);
+  const [biometricsAvailable, setBiometricsAvailable] = useState(false);
+  const [accessLog, setAccessLog] = useState<CredentialAccessLogEntry[]>([]);
+  const { events, getEventsForClient } = useClientEvents();
+  const { statusChanges } = useClientStatusChanges();
+  const [showFullTimeline, setShowFullTimeline] = useState(false);
+  const { getTasksForClient, currentUserEmail, createTask, updateTask, setTaskDone, deleteTask } = useTasks();
+  const [editingTask, setEditingTask] = useState<Task | null>(null);
+  const [taskFormValues, setTaskFormValues] = useState<TaskFormData | null>(null);
+  const [showCompletedTasks, setShowCompletedTasks] = useState(false);
+  const { definitions: customFields } = useCustomFields();
 
   useEffect(() => {
     if (id && clients.length > 0) {
@@ -35,30 +94,235 @@ export default function ClientDetailScreen() {
     }
   }, [id, clients]);
 
+  useEffect(() => {
+    canUseBiometrics().then(setBiometricsAvailable);
+  }, []);
+
+  useEffect(() => {
+    if (id && vaultStatus !== 'loading' && vaultStatus !== 'unavailable') {
+      fetchAccessLog(id).then(setAccessLog).catch(() => {
+        // Access history is informational only
+      });
+    }
+  }, [id, vaultStatus]);
+
+  // Re-mask revealed passwords after a short while
+  const revealedCount = Object.keys(revealed).length;
+  useEffect(() => {
+    if (revealedCount === 0) return;
+    const timer = setTimeout(() => setRevealed({}), REVEAL_DURATION_MS);
+    return () => clearTimeout(timer);
+  }, [revealedCount]);
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString();
   };
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
-    }).format(amount);
+  const formatCurrency = (amount: number, currency: string = settings.baseCurrency) => {
+    return formatMoney(amount, currency);
   };
 
+  // Plan prices are in the client's plan currency, invoices in their own; revenue totals in the base currency
+  const conversion = { baseCurrency: settings.baseCurrency, rates: settings.exchangeRates };
+  const planCurrency = client ? getCurrency(getClientPlanInfo(client, plans)) : settings.baseCurrency;
+
+  // A payment in the base currency, with the original alongside when it was converted
+  const formatPaymentAmount = (payment: Payment) => {
+    const original = formatOriginalAmount(payment.amount, getCurrency(payment), settings.baseCurrency);
+    const converted = formatCurrency(toBaseAmount(payment, conversion));
+    return original ? `${converted} (${original})` : converted;
+  };
+
+  // Only answered custom fields are shown
+  const customFieldRows = client
+    ? customFields
+      .map(definition => ({ definition, value: formatCustomFieldValue(definition, client.custom_fields?.[definition.key]) }))
+      .filter(row => row.value)
+    : [];
+
+  const health = client
+    ? calculateHealthScore(client, { payments, invoices, visits, events, statusChanges, plans }, settings.healthScoreWeights)
+    : undefined;
+
   // Filter data for this client
   const clientPayments = payments.filter(p => p.client_id === id);
   const clientGoals = goals; // All goals are now global
   const clientVisits = visits.filter(v => v.client_id === id);
 
-  // Calculate stats
-  const totalRevenue = clientPayments
-    .filter(p => p.status === 'confirmed')
-    .reduce((sum, p) => sum + p.amount, 0);
+  // Calculate stats (net of refunds; credit notes aren't revenue)
+  const totalRevenue = calculateRevenueBreakdown(clientPayments, undefined, undefined, conversion).net;
 
   const pendingRevenue = clientPayments
     .filter(p => p.status === 'pending')
-    .reduce((sum, p) => sum + p.amount, 0);
+    .reduce((sum, p) => sum + toBaseAmount(p, conversion), 0);
+
+  const clientInvoices = id ? getInvoicesForClient(id) : [];
+  const unappliedPayments = clientPayments.filter(p => isMoneyReceived(p) && getUnappliedAmount(p, payments) > 0);
+
+  const formatPeriod = (invoice: Invoice) => {
+    return parseISODate(invoice.period_start).toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
+  };
+
+  const clientTasks = id ? sortTasksByDue(getTasksForClient(id)) : [];
+  const openTasks = clientTasks.filter(task => !task.done);
+  const completedTasks = clientTasks.filter(task => task.done).reverse();
+
+  const openNewTask = () => {
+    setEditingTask(null);
+    setTaskFormValues(getEmptyTaskForm({ assignee_email: currentUserEmail || '', client_id: id }));
+  };
+
+  const openEditTask = (task: Task) => {
+    setEditingTask(task);
+    setTaskFormValues(getTaskFormData(task));
+  };
+
+  const handleTaskSubmit = async (formData: TaskFormData) => {
+    if (editingTask) {
+      await updateTask(editingTask.id, formData);
+    } else {
+      await createTask(formData);
+    }
+  };
+
+  const handleToggleTaskDone = async (task: Task) => {
+    try {
+      await setTaskDone(task.id, !task.done);
+    } catch (error) {
+      // Error already handled in hook
+    }
+  };
+
+  const handleDeleteTask = (task: Task) => {
+    Alert.alert('Delete Task', `Delete "${task.title}"?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await deleteTask(task.id);
+          } catch (error) {
+            // Error already handled in hook
+          }
+        },
+      },
+    ]);
+  };
+
+  const planTimeline = client && id ? buildPlanTimeline(client, getPlanChangesForClient(id), plans).reverse() : [];
+
+  const confirmPlanChange = (currentClient: Client, plan: string) => {
+    const proration = previewPlanChange(currentClient, plan, plans);
+    if (!proration) return;
+
+    Alert.alert(
+      `Change to ${getPlanLabel(plans, plan)}`,
+      `${describeProration(proration)}. The change takes effect today.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Change Plan',
+          onPress: async () => {
+            try {
+              const result = await changeClientPlan(currentClient, plan, plans, invoices, payments);
+              logPlanChange(currentClient.id, currentClient.name, currentClient.plan || 'starter', plan, {
+                effectiveDate: result.proration.effectiveDate,
+                prorationAmount: result.proration.amount,
+              });
+            } catch (error) {
+              // Error already handled in hook
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleChangePlanPress = () => {
+    if (!client) return;
+
+    const options = activePlans
+      .filter(plan => plan.name !== client.plan)
+      .map(plan => ({
+        text: `${plan.label} (${formatCurrency(plan.price, getCurrency(plan))}${plan.billing_interval === 'year' ? '/yr' : ''})`,
+        onPress: () => confirmPlanChange(client, plan.name),
+      }));
+
+    Alert.alert('Change Plan', `Current plan: ${getClientPlanInfo(client, plans).label}`, [
+      ...options,
+      { text: 'Cancel', style: 'cancel' as const },
+    ]);
+  };
+
+  const clientCredentials = id ? getCredentialsForClient(id) : [];
+  const timeline = id ? getEventsForClient(id) : [];
+
+  const handleRevealPress = (platform: CredentialPlatform) => {
+    if (revealed[platform]) {
+      setRevealed(prev => {
+        const next = { ...prev };
+        delete next[platform];
+        return next;
+      });
+      return;
+    }
+    if (vaultStatus !== 'unlocked') {
+      setShowVaultModal(true);
+      return;
+    }
+    setPendingReveal(platform);
+  };
+
+  // Only reached after re-authentication; the hook logs the reveal once the credential decrypts
+  const handleReauthConfirm = async (password?: string) => {
+    if (!id || !pendingReveal) return false;
+    const confirmed = await reauthenticate(password);
+    if (!confirmed) return false;
+
+    const platform = pendingReveal;
+    setPendingReveal(null);
+    try {
+      const secret = await revealCredential(id, platform);
+      setRevealed(prev => ({ ...prev, [platform]: secret }));
+      setAccessLog(await fetchAccessLog(id));
+    } catch (error) {
+      // Error already handled in hook
+    }
+    return true;
+  };
+
+  const handleInvoicePress = (invoice: Invoice) => {
+    if (invoice.status !== 'open') return;
+
+    const applyOptions = unappliedPayments.slice(0, 3).map(payment => ({
+      text: `Apply ${formatCurrency(getUnappliedAmount(payment, payments), getCurrency(payment))} (${formatDate(payment.payment_date)})`,
+      onPress: () => {
+        settleInvoice(invoice.id, payment, payments).catch(() => {
+          // Error already handled in hook
+        });
+      },
+    }));
+
+    Alert.alert(
+      `${formatPeriod(invoice)} Invoice`,
+      `Balance due: ${formatCurrency(getInvoiceBalance(invoice, payments), getCurrency(invoice))}` +
+        (applyOptions.length === 0 ? '\nNo unapplied confirmed payments for this client.' : ''),
+      [
+        ...applyOptions,
+        {
+          text: 'Void Invoice',
+          style: 'destructive' as const,
+          onPress: () => {
+            voidInvoice(invoice.id).catch(() => {
+              // Error already handled in hook
+            });
+          },
+        },
+        { text: 'Cancel', style: 'cancel' as const },
+      ]
+    );
+  };
 
   if (loading) {
     return (
@@ -122,11 +386,28 @@ export default function ClientDetailScreen() {
               <Ionicons name="person" size={24} color="#00D4AA" />
             </View>
           </View>
-          <Text className="text-gray-500 text-sm">
+          {(client.tags || []).length > 0 && (
+            <View className="flex-row flex-wrap gap-2 mb-4">
+              {(client.tags || []).map(tag => (
+                <View key={tag} className="px-3 py-1 rounded-full bg-gray-100">
+                  <Text className="text-gray-700 text-sm">{tag}</Text>
+                </View>
+              ))}
+            </View>
+          )}
+          {customFieldRows.map(({ definition, value }) => (
+            <View key={definition.id} className="flex-row justify-between py-2 border-b border-gray-100">
+              <Text className="text-gray-600">{definition.label}</Text>
+              <Text className="text-gray-900 font-medium flex-shrink ml-4 text-right">{value}</Text>
+            </View>
+          ))}
+          <Text className={`text-gray-500 text-sm ${customFieldRows.length > 0 ? 'mt-3' : ''}`}>
             Client since {formatDate(client.created_at)}
           </Text>
         </View>
 
+        <HealthScoreCard health={health} />
+
         {/* Stats Grid */}
         <View className="flex-row space-x-4 mb-6">
           <View className="bg-white rounded-xl p-4 shadow-sm flex-1">
@@ -150,6 +431,214 @@ export default function ClientDetailScreen() {
           </View>
         </View>
 
+        {/* Tasks */}
+        <View className="bg-white rounded-xl p-6 shadow-sm mb-6">
+          <View className="flex-row items-center justify-between mb-2">
+            <Text className="text-lg font-semibold text-gray-900">Tasks</Text>
+            <TouchableOpacity onPress={openNewTask}>
+              <Text className="text-primary font-medium">Add Task</Text>
+            </TouchableOpacity>
+          </View>
+          {openTasks.length === 0 ? (
+            <Text className="text-gray-500 text-center py-4">No open tasks</Text>
+          ) : (
+            openTasks.map(task => (
+              <TaskRow
+                key={task.id}
+                task={task}
+                onToggleDone={handleToggleTaskDone}
+                onPress={openEditTask}
+                onLongPress={handleDeleteTask}
+              />
+            ))
+          )}
+          {completedTasks.length > 0 && (
+            <>
+              <TouchableOpacity onPress={() => setShowCompletedTasks(!showCompletedTasks)}>
+                <Text className="text-primary text-sm text-center pt-3">
+                  {showCompletedTasks ? 'Hide completed' : `Show ${completedTasks.length} completed`}
+                </Text>
+              </TouchableOpacity>
+              {showCompletedTasks && completedTasks.map(task => (
+                <TaskRow
+                  key={task.id}
+                  task={task}
+                  onToggleDone={handleToggleTaskDone}
+                  onLongPress={handleDeleteTask}
+                />
+              ))}
+            </>
+          )}
+        </View>
+
+        {/* Attachments */}
+        <AttachmentGallery clientId={client.id} />
+
+        {/* Notes */}
+        <NotesThread entityType="client" entityId={client.id} />
+
+        {/* Login Credentials */}
+        {vaultStatus !== 'unavailable' && (
+          <View className="bg-white rounded-xl p-6 shadow-sm mb-6">
+            <View className="flex-row items-center justify-between mb-4">
+              <Text className="text-lg font-semibold text-gray-900">Login Credentials</Text>
+              <Ionicons name={vaultStatus === 'unlocked' ? 'lock-open' : 'lock-closed'} size={18} color="#6B7280" />
+            </View>
+            {clientCredentials.length === 0 ? (
+              <Text className="text-gray-500 text-center py-4">No credentials stored</Text>
+            ) : (
+              <View className="space-y-3">
+                {clientCredentials.map(credential => (
+                  <View key={credential.id} className="flex-row items-center justify-between py-2 border-b border-gray-100">
+                    <View className="flex-1">
+                      <Text className="font-medium text-gray-900">{getPlatformLabel(credential.platform)}</Text>
+                      <Text className="text-gray-600 font-mono" selectable={!!revealed[credential.platform]}>
+                        {revealed[credential.platform] || maskSecret()}
+                      </Text>
+                    </View>
+                    <TouchableOpacity onPress={() => handleRevealPress(credential.platform)} className="p-2">
+                      <Ionicons name={revealed[credential.platform] ? 'eye-off' : 'eye'} size={20} color="#00D4AA" />
+                    </TouchableOpacity>
+                  </View>
+                ))}
+              </View>
+            )}
+
+            {accessLog.length > 0 && (
+              <View className="mt-4">
+                <Text className="text-sm font-medium text-gray-700 mb-2">Access History</Text>
+                {accessLog.slice(0, 5).map(entry => (
+                  <Text key={entry.id} className="text-gray-500 text-xs mb-1">
+                    {getPlatformLabel(entry.platform)} revealed by {entry.user_email || 'unknown user'} on {new Date(entry.accessed_at).toLocaleString()}
+                  </Text>
+                ))}
+              </View>
+            )}
+          </View>
+        )}
+
+        {/* Lifecycle Timeline */}
+        <View className="bg-white rounded-xl p-6 shadow-sm mb-6">
+          <Text className="text-lg font-semibold text-gray-900 mb-4">Timeline</Text>
+          {timeline.length === 0 ? (
+            <Text className="text-gray-500 text-center py-4">No history recorded yet</Text>
+          ) : (
+            <View>
+              {(showFullTimeline ? timeline : timeline.slice(0, TIMELINE_PREVIEW_COUNT)).map((event, index, shown) => {
+                const display = describeClientEvent(event, plans);
+                return (
+                  <View key={event.id} className="flex-row items-start">
+                    <View className="items-center mr-3">
+                      <View className="w-7 h-7 rounded-full items-center justify-center" style={{ backgroundColor: `${display.color}20` }}>
+                        <Ionicons name={display.icon} size={14} color={display.color} />
+                      </View>
+                      {index < shown.length - 1 && <View className="w-0.5 flex-1 bg-gray-200 my-1" />}
+                    </View>
+                    <View className="flex-1 pb-4">
+                      <Text className="font-medium text-gray-900">{display.title}</Text>
+                      {!!display.detail && <Text className="text-gray-600 text-sm">{display.detail}</Text>}
+                      <Text className="text-gray-500 text-xs mt-1">
+                        {new Date(event.occurred_at).toLocaleString()} · {describeEventActor(event)}
+                      </Text>
+                    </View>
+                  </View>
+                );
+              })}
+              {timeline.length > TIMELINE_PREVIEW_COUNT && (
+                <TouchableOpacity onPress={() => setShowFullTimeline(!showFullTimeline)}>
+                  <Text className="text-primary text-sm text-center pt-2">
+                    {showFullTimeline ? 'Show less' : `Show all ${timeline.length} events`}
+                  </Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          )}
+        </View>
+
+        {/* Plan History */}
+        <View className="bg-white rounded-xl p-6 shadow-sm mb-6">
+          <View className="flex-row items-center justify-between mb-4">
+            <Text className="text-lg font-semibold text-gray-900">Plan History</Text>
+            <TouchableOpacity onPress={handleChangePlanPress}>
+              <Text className="text-primary font-medium">Change Plan</Text>
+            </TouchableOpacity>
+          </View>
+          <View className="space-y-3">
+            {planTimeline.map((period, index) => (
+              <View key={`${period.plan}_${period.start}`} className="flex-row items-start">
+                <View className="items-center mr-3">
+                  <View className="w-3 h-3 rounded-full mt-1" style={{ backgroundColor: getPlanColor(period.plan) }} />
+                  {index < planTimeline.length - 1 && <View className="w-0.5 flex-1 bg-gray-200 mt-1" />}
+                </View>
+                <View className="flex-1 pb-2">
+                  <View className="flex-row items-center justify-between">
+                    <Text className="font-medium text-gray-900">{period.label}</Text>
+                    <Text className="text-gray-900">{formatCurrency(period.price, planCurrency)}</Text>
+                  </View>
+                  <Text className="text-gray-500 text-sm">{formatPlanPeriod(period)}</Text>
+                  {!!period.change?.proration_amount && (
+                    <Text className="text-gray-500 text-xs">
+                      {period.change.proration_amount > 0 ? 'Prorated charge' : 'Prorated credit'} of {formatCurrency(Math.abs(period.change.proration_amount), planCurrency)}
+                    </Text>
+                  )}
+                </View>
+              </View>
+            ))}
+          </View>
+        </View>
+
+        {/* Invoices */}
+        <View className="bg-white rounded-xl p-6 shadow-sm mb-6">
+          <Text className="text-lg font-semibold text-gray-900 mb-4">Invoices</Text>
+          {clientInvoices.length === 0 ? (
+            <View className="py-8 items-center">
+              <Ionicons name="document-text-outline" size={48} color="#9CA3AF" />
+              <Text className="text-gray-500 mt-2">No invoices yet</Text>
+            </View>
+          ) : (
+            <View className="space-y-3">
+              {clientInvoices.slice(0, 6).map((invoice) => {
+                const displayStatus = getInvoiceDisplayStatus(invoice);
+                const balance = getInvoiceBalance(invoice, payments);
+                return (
+                  <TouchableOpacity
+                    key={invoice.id}
+                    className="flex-row items-center justify-between py-2 border-b border-gray-100"
+                    onPress={() => handleInvoicePress(invoice)}
+                    disabled={invoice.status !== 'open'}
+                  >
+                    <View className="flex-1">
+                      <Text className="font-medium text-gray-900">{formatPeriod(invoice)}</Text>
+                      <Text className="text-gray-500 text-sm">
+                        {formatCurrency(invoice.total, getCurrency(invoice))} · due {parseISODate(invoice.due_date).toLocaleDateString()}
+                      </Text>
+                      {invoice.status === 'open' && balance < invoice.total && (
+                        <Text className="text-gray-500 text-xs">{formatCurrency(balance, getCurrency(invoice))} remaining</Text>
+                      )}
+                    </View>
+                    <View
+                      className="px-2 py-1 rounded-full"
+                      style={{ backgroundColor: `${getInvoiceStatusColor(displayStatus)}20` }}
+                    >
+                      <Text
+                        className="text-xs font-medium capitalize"
+                        style={{ color: getInvoiceStatusColor(displayStatus) }}
+                      >
+                        {displayStatus}
+                      </Text>
+                    </View>
+                  </TouchableOpacity>
+                );
+              })}
+              {clientInvoices.length > 6 && (
+                <Text className="text-primary text-sm text-center pt-2">
+                  +{clientInvoices.length - 6} more invoices
+                </Text>
+              )}
+            </View>
+          )}
+        </View>
+
         {/* Recent Payments */}
         <View className="bg-white rounded-xl p-6 shadow-sm mb-6">
           <Text className="text-lg font-semibold text-gray-900 mb-4">Recent Payments</Text>
@@ -163,8 +652,15 @@ export default function ClientDetailScreen() {
               {clientPayments.slice(0, 3).map((payment) => (
                 <View key={payment.id} className="flex-row items-center justify-between py-2 border-b border-gray-100">
                   <View className="flex-1">
-                    <Text className="font-medium text-gray-900">{formatCurrency(payment.amount)}</Text>
-                    <Text className="text-gray-500 text-sm">{formatDate(payment.payment_date)}</Text>
+                    <Text className={`font-medium ${isRefund(payment) ? 'text-red-600' : 'text-gray-900'}`}>
+                      {isRefund(payment) ? '-' : ''}{formatPaymentAmount(payment)}
+                      {isRefund(payment) ? ' refund' : isCreditNote(payment) ? ' credit note' : ''}
+                    </Text>
+                    <Text className="text-gray-500 text-sm">
+                      {formatDate(payment.payment_date)}
+                      {getRefundState(payment, clientPayments) === 'refunded' ? ' • Refunded' :
+                        getRefundState(payment, clientPayments) === 'partially_refunded' ? ' • Partially refunded' : ''}
+                    </Text>
                   </View>
                   <View className={`px-2 py-1 rounded-full ${
                     payment.status === 'confirmed' ? 'bg-green-100' :
@@ -241,6 +737,32 @@ export default function ClientDetailScreen() {
           )}
         </View>
       </ScrollView>
+
+      <VaultUnlockModal
+        visible={showVaultModal}
+        mode={vaultStatus === 'not_set_up' ? 'set_up' : 'unlock'}
+        onClose={() => setShowVaultModal(false)}
+        onSubmit={vaultStatus === 'not_set_up' ? setUpVault : unlockVault}
+      />
+
+      <ReauthModal
+        visible={!!pendingReveal}
+        onClose={() => setPendingReveal(null)}
+        onConfirm={handleReauthConfirm}
+        canUseBiometrics={biometricsAvailable}
+      />
+
+      {taskFormValues && (
+        <TaskFormModal
+          visible={!!taskFormValues}
+          title={editingTask ? 'Edit Task' : 'New Task'}
+          initialValues={taskFormValues}
+          visits={clientVisits}
+          payments={clientPayments}
+          onClose={() => setTaskFormValues(null)}
+          onSubmit={handleTaskSubmit}
+        />
+      )}
     </SafeAreaView>
   );
 }
\ No newline at end of file
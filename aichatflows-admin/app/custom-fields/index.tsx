@@ -0,0 +1,321 @@
+import { useState } from 'react';
+import { View, Text, TouchableOpacity, ScrollView, ActivityIndicator } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import { CustomFieldDefinition } from '../../src/types';
+import { useCustomFields } from '../../src/hooks/useCustomFields';
+import { useClients } from '../../src/hooks/useClients';
+import { Button, Input, FormField, SimpleFormModal, Toggle } from '../../src/components';
+import { ConfirmDialog } from '../../src/components/ConfirmDialog';
+import { CUSTOM_FIELD_TYPES, getAllTags } from '../../src/utils/customFields';
+
+interface CustomFieldFormData {
+  label: string;
+  field_type: CustomFieldDefinition['field_type'];
+  options: string;
+  required: boolean;
+}
+
+const EMPTY_FIELD_FORM: CustomFieldFormData = {
+  label: '',
+  field_type: 'text',
+  options: '',
+  required: false,
+};
+
+const getFieldTypeLabel = (fieldType: CustomFieldDefinition['field_type']) => {
+  return CUSTOM_FIELD_TYPES.find(type => type.value === fieldType)?.label || fieldType;
+};
+
+export default function CustomFieldsScreen() {
+  const { definitions, loading, createField, updateField, deleteField, moveField } = useCustomFields();
+  const { clients } = useClients();
+
+  const [showFormModal, setShowFormModal] = useState(false);
+  const [editingField, setEditingField] = useState<CustomFieldDefinition | null>(null);
+  const [formData, setFormData] = useState<CustomFieldFormData>(EMPTY_FIELD_FORM);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [deleteConfirm, setDeleteConfirm] = useState<CustomFieldDefinition | null>(null);
+
+  const tags = getAllTags(clients);
+
+  const getFilledCount = (key: string) => {
+    return clients.filter(client => client.custom_fields?.[key] !== undefined && client.custom_fields?.[key] !== null).length;
+  };
+
+  const handleOpenCreate = () => {
+    setEditingField(null);
+    setFormData(EMPTY_FIELD_FORM);
+    setFormError(null);
+    setShowFormModal(true);
+  };
+
+  const handleOpenEdit = (field: CustomFieldDefinition) => {
+    setEditingField(field);
+    setFormData({
+      label: field.label,
+      field_type: field.field_type,
+      options: field.options.join('\n'),
+      required: field.required,
+    });
+    setFormError(null);
+    setShowFormModal(true);
+  };
+
+  const handleSave = async () => {
+    const options = formData.options.split('\n').map(option => option.trim()).filter(Boolean);
+    if (!formData.label.trim()) {
+      setFormError('Field name is required');
+      return;
+    }
+    if (formData.field_type === 'select' && options.length === 0) {
+      setFormError('Add at least one option, one per line');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      if (editingField) {
+        // The type is fixed once clients may have values for it
+        await updateField(editingField.id, { label: formData.label, options, required: formData.required });
+      } else {
+        await createField({ label: formData.label, field_type: formData.field_type, options, required: formData.required });
+      }
+      setShowFormModal(false);
+    } catch (error) {
+      // Error already handled in hook
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (field: CustomFieldDefinition) => {
+    setDeleteConfirm(null);
+    try {
+      await deleteField(field.id);
+    } catch (error) {
+      // Error already handled in hook
+    }
+  };
+
+  const handleMove = (field: CustomFieldDefinition, direction: 'up' | 'down') => {
+    moveField(field.id, direction).catch(() => {
+      // Error already handled in hook
+    });
+  };
+
+  if (loading) {
+    return (
+      <SafeAreaView className="flex-1 bg-gray-50">
+        <View className="flex-1 justify-center items-center">
+          <ActivityIndicator size="large" color="#00D4AA" />
+          <Text className="text-gray-600 mt-4">Loading custom fields...</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView className="flex-1 bg-gray-50">
+      <ScrollView className="px-6 py-4">
+        {/* Header with Back Button */}
+        <TouchableOpacity
+          className="flex-row items-center mb-6"
+          onPress={() => router.back()}
+        >
+          <Ionicons name="arrow-back" size={24} color="#00D4AA" />
+          <Text className="text-primary text-lg ml-2">Back to Settings</Text>
+        </TouchableOpacity>
+
+        <View className="flex-row items-center justify-between mb-2">
+          <Text className="text-2xl font-bold text-gray-900">Custom Fields</Text>
+          <Button variant="primary" size="sm" icon="add" onPress={handleOpenCreate}>
+            New Field
+          </Button>
+        </View>
+        <Text className="text-sm text-gray-500 mb-6">
+          Custom fields appear on the client form in this order. Select and yes/no fields can be used as filters on the Clients list.
+        </Text>
+
+        {definitions.length === 0 ? (
+          <View className="bg-white rounded-xl p-6 shadow-sm mb-4 items-center">
+            <Ionicons name="list-outline" size={32} color="#9CA3AF" />
+            <Text className="text-gray-500 text-center mt-2">No custom fields yet</Text>
+          </View>
+        ) : (
+          definitions.map((field, index) => {
+            const filledCount = getFilledCount(field.key);
+            return (
+              <View key={field.id} className="bg-white rounded-xl p-6 shadow-sm mb-4">
+                <View className="flex-row items-start justify-between mb-2">
+                  <View className="flex-1">
+                    <View className="flex-row items-center">
+                      <Text className="text-lg font-semibold text-gray-900">{field.label}</Text>
+                      {field.required && (
+                        <View className="bg-red-50 px-2 py-0.5 rounded-full ml-2">
+                          <Text className="text-xs text-red-600">Required</Text>
+                        </View>
+                      )}
+                    </View>
+                    <Text className="text-sm text-gray-500 mt-1">
+                      {getFieldTypeLabel(field.field_type)} · {filledCount} {filledCount === 1 ? 'client' : 'clients'}
+                    </Text>
+                  </View>
+                  <View className="flex-row">
+                    <TouchableOpacity className="p-1" onPress={() => handleMove(field, 'up')} disabled={index === 0}>
+                      <Ionicons name="chevron-up" size={20} color={index === 0 ? '#D1D5DB' : '#374151'} />
+                    </TouchableOpacity>
+                    <TouchableOpacity className="p-1" onPress={() => handleMove(field, 'down')} disabled={index === definitions.length - 1}>
+                      <Ionicons name="chevron-down" size={20} color={index === definitions.length - 1 ? '#D1D5DB' : '#374151'} />
+                    </TouchableOpacity>
+                  </View>
+                </View>
+
+                {field.field_type === 'select' && (
+                  <Text className="text-sm text-gray-700 mb-1">{field.options.join(', ')}</Text>
+                )}
+
+                <View className="flex-row space-x-3 mt-3">
+                  <TouchableOpacity
+                    className="flex-1 flex-row items-center justify-center py-2 rounded-lg bg-gray-100"
+                    onPress={() => handleOpenEdit(field)}
+                  >
+                    <Ionicons name="create-outline" size={16} color="#374151" />
+                    <Text className="text-gray-700 font-medium ml-1">Edit</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    className="flex-1 flex-row items-center justify-center py-2 rounded-lg bg-gray-100"
+                    onPress={() => setDeleteConfirm(field)}
+                  >
+                    <Ionicons name="trash-outline" size={16} color="#374151" />
+                    <Text className="text-gray-700 font-medium ml-1">Delete</Text>
+                  </TouchableOpacity>
+                </View>
+              </View>
+            );
+          })
+        )}
+
+        {/* Tags are free-form, so this only lists what's in use */}
+        <View className="bg-white rounded-xl p-6 shadow-sm mb-8">
+          <Text className="text-lg font-semibold text-gray-900 mb-1">Tags in Use</Text>
+          <Text className="text-sm text-gray-500 mb-3">Add tags to clients from the client form.</Text>
+          {tags.length === 0 ? (
+            <Text className="text-gray-500">No clients are tagged yet</Text>
+          ) : (
+            <View className="flex-row flex-wrap gap-2">
+              {tags.map(tag => (
+                <View key={tag} className="px-3 py-1 rounded-full bg-gray-100">
+                  <Text className="text-gray-700 text-sm">
+                    {tag} ({clients.filter(client => client.tags?.includes(tag)).length})
+                  </Text>
+                </View>
+              ))}
+            </View>
+          )}
+        </View>
+      </ScrollView>
+
+      {/* Create / Edit Field Modal */}
+      <SimpleFormModal
+        visible={showFormModal}
+        onClose={() => setShowFormModal(false)}
+        title={editingField ? 'Edit Field' : 'New Field'}
+        size="lg"
+      >
+        <View className="space-y-4">
+          <FormField spacing="compact">
+            <Input
+              label="Name"
+              required
+              value={formData.label}
+              onChangeText={(text) => setFormData({ ...formData, label: text })}
+              placeholder="e.g. Lead Source"
+              autoCapitalize="words"
+            />
+          </FormField>
+
+          <FormField
+            label="Type"
+            spacing="compact"
+            helperText={editingField ? 'The type cannot be changed once the field exists' : undefined}
+          >
+            <View className="flex-row flex-wrap gap-2">
+              {CUSTOM_FIELD_TYPES.map((type) => (
+                <TouchableOpacity
+                  key={type.value}
+                  className={`px-4 py-2 rounded-lg border ${
+                    formData.field_type === type.value
+                      ? 'bg-primary border-primary'
+                      : 'bg-white border-gray-300'
+                  } ${editingField && formData.field_type !== type.value ? 'opacity-50' : ''}`}
+                  onPress={() => setFormData({ ...formData, field_type: type.value })}
+                  disabled={!!editingField}
+                >
+                  <Text className={`font-medium ${
+                    formData.field_type === type.value ? 'text-white' : 'text-gray-700'
+                  }`}>
+                    {type.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </FormField>
+
+          {formData.field_type === 'select' && (
+            <FormField spacing="compact" helperText="One option per line">
+              <Input
+                label="Options"
+                required
+                value={formData.options}
+                onChangeText={(text) => setFormData({ ...formData, options: text })}
+                placeholder={'Referral\nInstagram\nWalk-in'}
+                multiline
+                numberOfLines={5}
+              />
+            </FormField>
+          )}
+
+          {formData.field_type !== 'boolean' && (
+            <Toggle
+              label="Required"
+              description="Clients can't be saved without a value"
+              value={formData.required}
+              onValueChange={(required) => setFormData({ ...formData, required })}
+            />
+          )}
+
+          {formError && (
+            <Text className="text-red-600 text-sm">{formError}</Text>
+          )}
+
+          <View className="flex-row space-x-3 pt-2">
+            <View className="flex-1">
+              <Button variant="secondary" onPress={() => setShowFormModal(false)} fullWidth>
+                Cancel
+              </Button>
+            </View>
+            <View className="flex-1">
+              <Button variant="primary" onPress={handleSave} loading={saving} fullWidth>
+                {editingField ? 'Save Changes' : 'Create Field'}
+              </Button>
+            </View>
+          </View>
+        </View>
+      </SimpleFormModal>
+
+      <ConfirmDialog
+        visible={!!deleteConfirm}
+        title="Delete Field"
+        message={`Remove ${deleteConfirm?.label} from the client form? Values already saved on clients are kept but hidden.`}
+        confirmText="Delete"
+        onConfirm={() => deleteConfirm && handleDelete(deleteConfirm)}
+        onCancel={() => setDeleteConfirm(null)}
+        icon="trash"
+        destructive
+      />
+    </SafeAreaView>
+  );
+}
@@ -0,0 +1,309 @@
+import { useState } from 'react';
+import { View, Text, TouchableOpacity, ScrollView, ActivityIndicator, RefreshControl, Alert } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import { Client, CustomFieldValue } from '../../src/types';
+import { useClientDuplicates } from '../../src/hooks/useClientDuplicates';
+import { useCustomFields } from '../../src/hooks/useCustomFields';
+import { Button } from '../../src/components';
+import { ConfirmDialog } from '../../src/components/ConfirmDialog';
+import { formatCustomFieldValue } from '../../src/utils/customFields';
+import {
+  DuplicatePair,
+  MERGE_FIELDS,
+  getDefaultCustomFieldMerge,
+  getDefaultMergeValues,
+  getMergedTags,
+} from '../../src/utils/duplicates';
+
+type MergeValues = Partial<Record<keyof Client, string>>;
+
+export default function DuplicatesScreen() {
+  const { duplicatePairs, loading, dismissPair, mergeClients, refetch } = useClientDuplicates();
+  const { definitions: customFieldDefinitions } = useCustomFields();
+
+  const [refreshing, setRefreshing] = useState(false);
+  const [mergingPair, setMergingPair] = useState<DuplicatePair | null>(null);
+  const [survivorIndex, setSurvivorIndex] = useState<0 | 1>(0);
+  const [mergeValues, setMergeValues] = useState<MergeValues>({});
+  const [customFieldValues, setCustomFieldValues] = useState<Record<string, CustomFieldValue>>({});
+  const [showMergeConfirm, setShowMergeConfirm] = useState(false);
+  const [merging, setMerging] = useState(false);
+
+  const survivor = mergingPair?.clients[survivorIndex];
+  const duplicate = mergingPair?.clients[survivorIndex === 0 ? 1 : 0];
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    try {
+      await refetch();
+    } catch (error) {
+      // Error already handled in hook
+    }
+    setRefreshing(false);
+  };
+
+  // Keep the older record by default; it usually has the longer history
+  const startMerge = (pair: DuplicatePair) => {
+    const olderIndex = pair.clients[0].created_at <= pair.clients[1].created_at ? 0 : 1;
+    setMergingPair(pair);
+    setSurvivorIndex(olderIndex);
+    setMergeValues(getDefaultMergeValues(pair.clients[olderIndex], pair.clients[olderIndex === 0 ? 1 : 0]));
+    setCustomFieldValues(getDefaultCustomFieldMerge(pair.clients[olderIndex], pair.clients[olderIndex === 0 ? 1 : 0]));
+  };
+
+  const handleSurvivorChange = (index: 0 | 1) => {
+    if (!mergingPair) return;
+    setSurvivorIndex(index);
+    setMergeValues(getDefaultMergeValues(mergingPair.clients[index], mergingPair.clients[index === 0 ? 1 : 0]));
+    setCustomFieldValues(getDefaultCustomFieldMerge(mergingPair.clients[index], mergingPair.clients[index === 0 ? 1 : 0]));
+  };
+
+  const handleMerge = async () => {
+    if (!survivor || !duplicate) return;
+    setShowMergeConfirm(false);
+    setMerging(true);
+    try {
+      await mergeClients(survivor.id, duplicate.id, mergeValues, customFieldValues);
+      setMergingPair(null);
+      Alert.alert('Success', `${duplicate.name} was merged into ${mergeValues.name || survivor.name}.`);
+    } catch (error) {
+      // Error already handled in hook
+    } finally {
+      setMerging(false);
+    }
+  };
+
+  const handleDismiss = (pair: DuplicatePair) => {
+    Alert.alert(
+      'Not Duplicates',
+      `Stop suggesting ${pair.clients[0].name} and ${pair.clients[1].name} as duplicates?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Not Duplicates', onPress: () => dismissPair(pair.key) },
+      ]
+    );
+  };
+
+  const renderClientSummary = (client: Client) => (
+    <View className="flex-1">
+      <Text className="font-semibold text-gray-900" numberOfLines={1}>{client.name}</Text>
+      {!!client.business_name && <Text className="text-gray-600 text-sm" numberOfLines={1}>{client.business_name}</Text>}
+      <Text className="text-gray-600 text-sm" numberOfLines={1}>{client.email}</Text>
+      {!!client.phone && <Text className="text-gray-600 text-sm" numberOfLines={1}>{client.phone}</Text>}
+      <Text className="text-gray-400 text-xs mt-1">Added {new Date(client.created_at).toLocaleDateString()}</Text>
+    </View>
+  );
+
+  if (loading && !refreshing) {
+    return (
+      <SafeAreaView className="flex-1 bg-gray-50">
+        <View className="flex-1 justify-center items-center">
+          <ActivityIndicator size="large" color="#00D4AA" />
+          <Text className="text-gray-600 mt-4">Looking for duplicates...</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  // Field-by-field merge of one pair
+  if (mergingPair && survivor && duplicate) {
+    const differingFields = MERGE_FIELDS.filter(({ key }) => (survivor[key] || '') !== (duplicate[key] || ''));
+    // Only fields both records answered differently need a pick; a single answer is kept either way
+    const differingCustomFields = customFieldDefinitions.filter(({ key }) => {
+      const survivorValue = survivor.custom_fields?.[key];
+      const duplicateValue = duplicate.custom_fields?.[key];
+      return survivorValue !== undefined && survivorValue !== null
+        && duplicateValue !== undefined && duplicateValue !== null
+        && survivorValue !== duplicateValue;
+    });
+    const mergedTags = getMergedTags(survivor, duplicate);
+
+    return (
+      <SafeAreaView className="flex-1 bg-gray-50">
+        <ScrollView className="px-6 py-4">
+          <TouchableOpacity className="flex-row items-center mb-6" onPress={() => setMergingPair(null)}>
+            <Ionicons name="arrow-back" size={24} color="#00D4AA" />
+            <Text className="text-primary text-lg ml-2">Back to Duplicates</Text>
+          </TouchableOpacity>
+
+          <Text className="text-2xl font-bold text-gray-900 mb-2">Merge Clients</Text>
+          <Text className="text-sm text-gray-500 mb-6">
+            Payments, visits, goals, submissions, invoices, plan history, notes, tasks, attachments, tags and the prospect it signed from move from the other record to the one you keep.
+            The other record is then deleted.
+          </Text>
+
+          <View className="bg-white rounded-xl p-6 shadow-sm mb-6">
+            <Text className="text-lg font-semibold text-gray-900 mb-4">Record to Keep</Text>
+            <View className="space-y-3">
+              {mergingPair.clients.map((client, index) => (
+                <TouchableOpacity
+                  key={client.id}
+                  className={`flex-row items-center p-4 rounded-lg border ${
+                    survivorIndex === index ? 'border-primary bg-primary/5' : 'border-gray-200'
+                  }`}
+                  onPress={() => handleSurvivorChange(index as 0 | 1)}
+                >
+                  {renderClientSummary(client)}
+                  <Ionicons
+                    name={survivorIndex === index ? 'radio-button-on' : 'radio-button-off'}
+                    size={22}
+                    color={survivorIndex === index ? '#00D4AA' : '#9CA3AF'}
+                  />
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+
+          <View className="bg-white rounded-xl p-6 shadow-sm mb-6">
+            <Text className="text-lg font-semibold text-gray-900 mb-1">Field Values</Text>
+            <Text className="text-sm text-gray-500 mb-4">Pick which value to keep where the records differ</Text>
+            {differingFields.length === 0 ? (
+              <Text className="text-gray-500 text-center py-4">Both records have the same details</Text>
+            ) : (
+              differingFields.map(({ key, label }) => (
+                <View key={key} className="mb-4">
+                  <Text className="text-sm font-medium text-gray-700 mb-2">{label}</Text>
+                  {[survivor, duplicate].map(client => {
+                    const value = (client[key] as string | undefined) || '';
+                    const selected = (mergeValues[key] || '') === value;
+                    return (
+                      <TouchableOpacity
+                        key={client.id}
+                        className={`px-4 py-2 rounded-lg border mb-2 ${selected ? 'bg-primary border-primary' : 'border-gray-300'}`}
+                        onPress={() => setMergeValues({ ...mergeValues, [key]: value })}
+                        disabled={!value}
+                      >
+                        <Text className={selected ? 'text-white' : value ? 'text-gray-700' : 'text-gray-400 italic'}>
+                          {value || 'Empty'}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+              ))
+            )}
+          </View>
+
+          {differingCustomFields.length > 0 && (
+            <View className="bg-white rounded-xl p-6 shadow-sm mb-6">
+              <Text className="text-lg font-semibold text-gray-900 mb-1">Custom Fields</Text>
+              <Text className="text-sm text-gray-500 mb-4">Answers only one record has are kept</Text>
+              {differingCustomFields.map(definition => (
+                <View key={definition.key} className="mb-4">
+                  <Text className="text-sm font-medium text-gray-700 mb-2">{definition.label}</Text>
+                  {[survivor, duplicate].map(client => {
+                    const value = client.custom_fields?.[definition.key] ?? null;
+                    const selected = customFieldValues[definition.key] === value;
+                    return (
+                      <TouchableOpacity
+                        key={client.id}
+                        className={`px-4 py-2 rounded-lg border mb-2 ${selected ? 'bg-primary border-primary' : 'border-gray-300'}`}
+                        onPress={() => setCustomFieldValues({ ...customFieldValues, [definition.key]: value })}
+                      >
+                        <Text className={selected ? 'text-white' : 'text-gray-700'}>
+                          {formatCustomFieldValue(definition, value)}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+              ))}
+            </View>
+          )}
+
+          {mergedTags.length > 0 && (
+            <View className="bg-white rounded-xl p-6 shadow-sm mb-6">
+              <Text className="text-lg font-semibold text-gray-900 mb-1">Tags</Text>
+              <Text className="text-sm text-gray-500 mb-4">The merged client keeps the tags of both records</Text>
+              <View className="flex-row flex-wrap">
+                {mergedTags.map(tag => (
+                  <View key={tag} className="bg-gray-100 px-3 py-1 rounded-full mr-2 mb-2">
+                    <Text className="text-gray-700 text-sm">{tag}</Text>
+                  </View>
+                ))}
+              </View>
+            </View>
+          )}
+
+          <View className="mb-12">
+            <Button icon="git-merge" onPress={() => setShowMergeConfirm(true)} loading={merging} disabled={merging} fullWidth>
+              Merge Clients
+            </Button>
+          </View>
+        </ScrollView>
+
+        <ConfirmDialog
+          visible={showMergeConfirm}
+          title="Merge Clients"
+          message={`Move everything from ${duplicate.name} onto ${survivor.name} and delete ${duplicate.name}? This cannot be undone.`}
+          confirmText="Merge"
+          icon="git-merge"
+          destructive
+          onConfirm={handleMerge}
+          onCancel={() => setShowMergeConfirm(false)}
+        />
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView className="flex-1 bg-gray-50">
+      <ScrollView
+        className="px-6 py-4"
+        refreshControl={
+          <RefreshControl refreshing={refreshing} onRefresh={onRefresh} colors={['#00D4AA']} tintColor="#00D4AA" />
+        }
+      >
+        <TouchableOpacity className="flex-row items-center mb-6" onPress={() => router.back()}>
+          <Ionicons name="arrow-back" size={24} color="#00D4AA" />
+          <Text className="text-primary text-lg ml-2">Back to Clients</Text>
+        </TouchableOpacity>
+
+        <Text className="text-2xl font-bold text-gray-900 mb-2">Duplicate Clients</Text>
+        <Text className="text-sm text-gray-500 mb-6">
+          Clients that look like the same person, matched on email, phone, social handles, name and business name.
+        </Text>
+
+        {duplicatePairs.length === 0 ? (
+          <View className="bg-white rounded-xl p-6 shadow-sm mb-6 items-center">
+            <Ionicons name="checkmark-circle" size={48} color="#10B981" />
+            <Text className="text-gray-900 font-semibold mt-3">No likely duplicates</Text>
+          </View>
+        ) : (
+          duplicatePairs.map(pair => (
+            <View key={pair.key} className="bg-white rounded-xl p-6 shadow-sm mb-6">
+              <View className="flex-row items-center justify-between mb-4">
+                <Text className="text-sm text-gray-500 flex-1" numberOfLines={2}>
+                  Matched on {pair.matchedFields.join(', ')}
+                </Text>
+                <View className="bg-orange-100 px-3 py-1 rounded-full ml-3">
+                  <Text className="text-orange-800 text-xs font-medium">{Math.round(pair.score * 100)}% match</Text>
+                </View>
+              </View>
+
+              <View className="flex-row space-x-4 mb-4">
+                {renderClientSummary(pair.clients[0])}
+                {renderClientSummary(pair.clients[1])}
+              </View>
+
+              <View className="flex-row space-x-3">
+                <View className="flex-1">
+                  <Button variant="secondary" size="sm" onPress={() => handleDismiss(pair)} fullWidth>
+                    Not Duplicates
+                  </Button>
+                </View>
+                <View className="flex-1">
+                  <Button size="sm" icon="git-merge" onPress={() => startMerge(pair)} fullWidth>
+                    Merge
+                  </Button>
+                </View>
+              </View>
+            </View>
+          ))
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
@@ -0,0 +1,138 @@
+import { useEffect, useState } from 'react';
+import { View, Text, TouchableOpacity, ScrollView, ActivityIndicator } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import { useSettings } from '../../src/hooks/useSettings';
+import { Button, Input, FormField } from '../../src/components';
+import { ConfirmDialog } from '../../src/components/ConfirmDialog';
+import { DEFAULT_CURRENCY, DEFAULT_EXCHANGE_RATES, ExchangeRates, convertAmount, formatMoney } from '../../src/utils/currency';
+
+const toFormRates = (rates: ExchangeRates): Record<string, string> => {
+  return Object.fromEntries(Object.entries(rates).map(([currency, rate]) => [currency, String(rate)]));
+};
+
+export default function ExchangeRatesScreen() {
+  const { settings, updateSetting, isLoaded } = useSettings();
+
+  const [formRates, setFormRates] = useState<Record<string, string>>({});
+  const [formError, setFormError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [showResetConfirm, setShowResetConfirm] = useState(false);
+
+  useEffect(() => {
+    if (isLoaded) {
+      setFormRates(toFormRates(settings.exchangeRates));
+    }
+  }, [isLoaded, settings.exchangeRates]);
+
+  const handleSave = async () => {
+    const rates: ExchangeRates = {};
+    for (const [currency, value] of Object.entries(formRates)) {
+      const rate = parseFloat(value);
+      if (isNaN(rate) || rate <= 0) {
+        setFormError(`Enter a rate greater than 0 for ${currency}`);
+        return;
+      }
+      rates[currency] = rate;
+    }
+
+    setFormError(null);
+    setSaving(true);
+    try {
+      await updateSetting('exchangeRates', rates);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleReset = async () => {
+    setShowResetConfirm(false);
+    setFormError(null);
+    await updateSetting('exchangeRates', DEFAULT_EXCHANGE_RATES);
+  };
+
+  if (!isLoaded) {
+    return (
+      <SafeAreaView className="flex-1 bg-gray-50">
+        <View className="flex-1 justify-center items-center">
+          <ActivityIndicator size="large" color="#00D4AA" />
+          <Text className="text-gray-600 mt-4">Loading exchange rates...</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView className="flex-1 bg-gray-50">
+      <ScrollView className="px-6 py-4" keyboardShouldPersistTaps="handled">
+        {/* Header with Back Button */}
+        <TouchableOpacity
+          className="flex-row items-center mb-6"
+          onPress={() => router.back()}
+        >
+          <Ionicons name="arrow-back" size={24} color="#00D4AA" />
+          <Text className="text-primary text-lg ml-2">Back to Settings</Text>
+        </TouchableOpacity>
+
+        <Text className="text-2xl font-bold text-gray-900 mb-2">Exchange Rates</Text>
+        <Text className="text-sm text-gray-500 mb-6">
+          Value of one unit of each currency in {DEFAULT_CURRENCY}. Rates are stored on this device and used to
+          report revenue in {settings.baseCurrency}.
+        </Text>
+
+        <View className="bg-white rounded-xl p-6 shadow-sm mb-6">
+          {Object.keys(formRates).map((currency) => {
+            const rate = parseFloat(formRates[currency]);
+            const preview = !isNaN(rate) && rate > 0 && currency !== settings.baseCurrency
+              ? `1 ${currency} = ${formatMoney(
+                  convertAmount(1, currency, settings.baseCurrency, { ...settings.exchangeRates, [currency]: rate }),
+                  settings.baseCurrency
+                )}`
+              : undefined;
+
+            return (
+              <FormField key={currency} spacing="compact" helperText={preview}>
+                <Input
+                  label={currency}
+                  value={formRates[currency]}
+                  onChangeText={(text) => setFormRates({ ...formRates, [currency]: text })}
+                  placeholder="0.00"
+                  keyboardType="decimal-pad"
+                  disabled={currency === DEFAULT_CURRENCY}
+                />
+              </FormField>
+            );
+          })}
+
+          {formError && (
+            <Text className="text-red-600 text-sm mb-2">{formError}</Text>
+          )}
+
+          <View className="flex-row space-x-3 pt-2">
+            <View className="flex-1">
+              <Button variant="secondary" onPress={() => setShowResetConfirm(true)} fullWidth>
+                Reset
+              </Button>
+            </View>
+            <View className="flex-1">
+              <Button variant="primary" onPress={handleSave} loading={saving} fullWidth>
+                Save Rates
+              </Button>
+            </View>
+          </View>
+        </View>
+      </ScrollView>
+
+      <ConfirmDialog
+        visible={showResetConfirm}
+        title="Reset Exchange Rates"
+        message="Replace your rates with the built-in defaults?"
+        confirmText="Reset"
+        onConfirm={handleReset}
+        onCancel={() => setShowResetConfirm(false)}
+        icon="refresh"
+      />
+    </SafeAreaView>
+  );
+}
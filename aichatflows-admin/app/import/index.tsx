@@ -0,0 +1,341 @@
+import { useMemo, useState } from 'react';
+import { View, Text, TouchableOpacity, ScrollView, Alert } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { router, useLocalSearchParams } from 'expo-router';
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system';
+import { useClients } from '../../src/hooks/useClients';
+import { usePayments } from '../../src/hooks/usePayments';
+import { usePlans } from '../../src/hooks/usePlans';
+import { useSettings } from '../../src/hooks/useSettings';
+import { Button, Input, FormField } from '../../src/components';
+import { parseCsv } from '../../src/utils/csv';
+import {
+  CsvColumnMapping,
+  CsvImportResult,
+  CsvImportRow,
+  CsvImportType,
+  autoMapColumns,
+  buildClientImportRows,
+  buildPaymentImportRows,
+  getImportFields,
+  getUnmappedRequiredFields,
+} from '../../src/utils/csvImport';
+
+type ImportStep = 'source' | 'map' | 'preview' | 'done';
+
+const MAX_PREVIEW_ROWS = 100;
+
+export default function ImportScreen() {
+  const params = useLocalSearchParams<{ type?: string }>();
+  const type: CsvImportType = params.type === 'payments' ? 'payments' : 'clients';
+  const fields = getImportFields(type);
+  const title = type === 'clients' ? 'Clients' : 'Payments';
+
+  const [step, setStep] = useState<ImportStep>('source');
+  const [pastedText, setPastedText] = useState('');
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [rows, setRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<CsvColumnMapping>({});
+  const [sourceError, setSourceError] = useState<string | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  const [result, setResult] = useState<CsvImportResult | null>(null);
+  // Rows as they were sent, so the summary doesn't shift when the lists refresh afterwards
+  const [submitted, setSubmitted] = useState<{ rows: CsvImportRow<any>[]; skipped: number }>({ rows: [], skipped: 0 });
+
+  const { clients, importClients } = useClients();
+  const { importPayments } = usePayments();
+  const { plans } = usePlans();
+  const { settings } = useSettings();
+
+  const importRows: CsvImportRow<any>[] = useMemo(() => {
+    if (step !== 'preview') return [];
+    return type === 'clients'
+      ? buildClientImportRows(rows, mapping, plans, clients)
+      : buildPaymentImportRows(rows, mapping, clients, settings.baseCurrency);
+  }, [step, type, rows, mapping, plans, clients, settings.baseCurrency]);
+
+  const validRows = importRows.filter(row => row.errors.length === 0);
+  const invalidRows = importRows.filter(row => row.errors.length > 0);
+  const missingFields = getUnmappedRequiredFields(fields, mapping);
+
+  const loadCsv = (text: string, name: string | null) => {
+    const parsed = parseCsv(text);
+    if (parsed.length < 2) {
+      setSourceError('The file needs a header row and at least one row of data');
+      return;
+    }
+
+    const [headerRow, ...dataRows] = parsed;
+    setSourceError(null);
+    setFileName(name);
+    setHeaders(headerRow.map(header => header.trim()));
+    setRows(dataRows);
+    setMapping(autoMapColumns(headerRow, fields));
+    setStep('map');
+  };
+
+  const handlePickFile = async () => {
+    try {
+      const picked = await DocumentPicker.getDocumentAsync({
+        type: ['text/csv', 'text/comma-separated-values', 'text/tab-separated-values', 'text/plain'],
+        copyToCacheDirectory: true,
+      });
+      if (picked.canceled || !picked.assets?.length) return;
+
+      const asset = picked.assets[0];
+      const text = asset.file ? await asset.file.text() : await FileSystem.readAsStringAsync(asset.uri);
+      loadCsv(text, asset.name);
+    } catch (error: any) {
+      console.error('Failed to read CSV file:', error);
+      setSourceError(`Could not read the file: ${error.message}`);
+    }
+  };
+
+  const handleImport = async () => {
+    if (validRows.length === 0) return;
+
+    setSubmitted({ rows: validRows, skipped: invalidRows.length });
+    setImporting(true);
+    setProgress({ done: 0, total: validRows.length });
+    try {
+      const onProgress = (done: number, total: number) => setProgress({ done, total });
+      const importResult = type === 'clients'
+        ? await importClients(validRows.map(row => row.data), onProgress)
+        : await importPayments(validRows.map(row => ({
+            ...row.data,
+            amount: parseFloat(row.data.amount),
+            amount_owed: row.data.amount_owed ? parseFloat(row.data.amount_owed) : undefined,
+          })), onProgress);
+      setResult(importResult);
+      setStep('done');
+    } catch (error: any) {
+      console.error('CSV import failed:', error);
+      Alert.alert('Error', `Import failed: ${error.message}`);
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const renderSource = () => (
+    <View className="bg-white rounded-xl p-6 shadow-sm mb-6">
+      <Text className="text-lg font-semibold text-gray-900 mb-2">Choose Data</Text>
+      <Text className="text-gray-600 mb-4">
+        Pick a CSV file, or copy rows from a spreadsheet (including the header row) and paste them below.
+      </Text>
+
+      <Button variant="secondary" icon="document-attach" onPress={handlePickFile} fullWidth>
+        Choose CSV File
+      </Button>
+
+      <View className="mt-4">
+        <FormField spacing="compact">
+          <Input
+            label="Or paste rows"
+            value={pastedText}
+            onChangeText={setPastedText}
+            placeholder={'Name,Email,Phone\nJane Doe,jane@example.com,5551234567'}
+            multiline
+            numberOfLines={6}
+            autoCapitalize="none"
+          />
+        </FormField>
+      </View>
+
+      {sourceError && (
+        <Text className="text-red-600 text-sm mb-2">{sourceError}</Text>
+      )}
+
+      <Button
+        variant="primary"
+        onPress={() => loadCsv(pastedText, null)}
+        disabled={!pastedText.trim()}
+        fullWidth
+      >
+        Continue
+      </Button>
+    </View>
+  );
+
+  const renderMapping = () => (
+    <View className="bg-white rounded-xl p-6 shadow-sm mb-6">
+      <Text className="text-lg font-semibold text-gray-900 mb-1">Map Columns</Text>
+      <Text className="text-gray-600 mb-4">
+        {fileName ? `${fileName} · ` : ''}{rows.length} rows. Choose the column each field comes from.
+      </Text>
+
+      {fields.map(field => {
+        const selected = mapping[field.key];
+        const sample = selected !== null && selected !== undefined ? rows[0]?.[selected] : undefined;
+
+        return (
+          <View key={field.key} className="mb-4">
+            <Text className="font-medium text-gray-900 mb-2">
+              {field.label}{field.required ? ' *' : ''}
+              {sample ? <Text className="text-gray-500 font-normal">  e.g. {sample}</Text> : null}
+            </Text>
+            <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+              <View className="flex-row gap-2">
+                {[null, ...headers.map((_, index) => index)].map(index => (
+                  <TouchableOpacity
+                    key={index === null ? 'skip' : index}
+                    className={`px-3 py-2 rounded-lg border ${
+                      selected === index ? 'bg-primary border-primary' : 'bg-white border-gray-300'
+                    }`}
+                    onPress={() => setMapping({ ...mapping, [field.key]: index })}
+                  >
+                    <Text className={`text-sm ${selected === index ? 'text-white' : 'text-gray-700'}`}>
+                      {index === null ? 'Skip' : headers[index] || `Column ${index + 1}`}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </ScrollView>
+          </View>
+        );
+      })}
+
+      {missingFields.length > 0 && (
+        <Text className="text-orange-600 text-sm mb-2">
+          Not mapped: {missingFields.map(field => field.label).join(', ')}. Rows without them will fail validation.
+        </Text>
+      )}
+
+      <View className="flex-row space-x-3 pt-2">
+        <View className="flex-1">
+          <Button variant="secondary" onPress={() => setStep('source')} fullWidth>
+            Back
+          </Button>
+        </View>
+        <View className="flex-1">
+          <Button variant="primary" onPress={() => setStep('preview')} fullWidth>
+            Preview
+          </Button>
+        </View>
+      </View>
+    </View>
+  );
+
+  const renderPreview = () => (
+    <>
+      <View className="flex-row gap-4 mb-6">
+        <View className="bg-white rounded-xl p-4 shadow-sm flex-1">
+          <Text className="text-2xl font-bold text-green-600">{validRows.length}</Text>
+          <Text className="text-gray-600 text-sm">Ready to import</Text>
+        </View>
+        <View className="bg-white rounded-xl p-4 shadow-sm flex-1">
+          <Text className="text-2xl font-bold text-red-600">{invalidRows.length}</Text>
+          <Text className="text-gray-600 text-sm">With errors</Text>
+        </View>
+      </View>
+
+      {invalidRows.length > 0 && (
+        <View className="bg-white rounded-xl p-6 shadow-sm mb-6">
+          <Text className="text-lg font-semibold text-gray-900 mb-1">Rows With Errors</Text>
+          <Text className="text-gray-600 mb-4">These rows will be skipped. Fix them in the file and import again.</Text>
+          {invalidRows.slice(0, MAX_PREVIEW_ROWS).map(row => (
+            <View key={row.rowNumber} className="py-2 border-b border-gray-100">
+              <Text className="font-medium text-gray-900">Row {row.rowNumber}</Text>
+              {row.errors.map((message, index) => (
+                <Text key={index} className="text-red-600 text-sm">• {message}</Text>
+              ))}
+            </View>
+          ))}
+          {invalidRows.length > MAX_PREVIEW_ROWS && (
+            <Text className="text-gray-500 text-sm mt-2">
+              And {invalidRows.length - MAX_PREVIEW_ROWS} more rows with errors
+            </Text>
+          )}
+        </View>
+      )}
+
+      {importing && (
+        <View className="bg-white rounded-xl p-6 shadow-sm mb-6">
+          <Text className="text-gray-900 font-medium mb-2">
+            Importing {progress.done} of {progress.total}...
+          </Text>
+          <View className="h-2 bg-gray-200 rounded-full overflow-hidden">
+            <View
+              className="h-2 bg-primary rounded-full"
+              style={{ width: `${progress.total ? (progress.done / progress.total) * 100 : 0}%` }}
+            />
+          </View>
+        </View>
+      )}
+
+      <View className="flex-row space-x-3 mb-6">
+        <View className="flex-1">
+          <Button variant="secondary" onPress={() => setStep('map')} disabled={importing} fullWidth>
+            Back
+          </Button>
+        </View>
+        <View className="flex-1">
+          <Button
+            variant="primary"
+            onPress={handleImport}
+            loading={importing}
+            disabled={validRows.length === 0}
+            fullWidth
+          >
+            {`Import ${validRows.length}`}
+          </Button>
+        </View>
+      </View>
+    </>
+  );
+
+  const renderDone = () => (
+    <View className="bg-white rounded-xl p-6 shadow-sm mb-6">
+      <View className="items-center mb-4">
+        <Ionicons
+          name={result?.failed.length ? 'alert-circle' : 'checkmark-circle'}
+          size={48}
+          color={result?.failed.length ? '#F59E0B' : '#10B981'}
+        />
+        <Text className="text-lg font-semibold text-gray-900 mt-2">
+          {result?.imported || 0} {title.toLowerCase()} imported
+        </Text>
+        {submitted.skipped > 0 && (
+          <Text className="text-gray-600">{submitted.skipped} rows skipped for errors</Text>
+        )}
+      </View>
+
+      {result?.failed.map(failure => (
+        <Text key={failure.index} className="text-red-600 text-sm">
+          Row {submitted.rows[failure.index]?.rowNumber}: {failure.message}
+        </Text>
+      ))}
+
+      <View className="mt-4">
+        <Button variant="primary" onPress={() => router.back()} fullWidth>
+          Done
+        </Button>
+      </View>
+    </View>
+  );
+
+  return (
+    <SafeAreaView className="flex-1 bg-gray-50">
+      <ScrollView className="px-6 py-4" keyboardShouldPersistTaps="handled">
+        {/* Header with Back Button */}
+        <TouchableOpacity
+          className="flex-row items-center mb-6"
+          onPress={() => router.back()}
+        >
+          <Ionicons name="arrow-back" size={24} color="#00D4AA" />
+          <Text className="text-primary text-lg ml-2">Back to {title}</Text>
+        </TouchableOpacity>
+
+        <Text className="text-2xl font-bold text-gray-900 mb-6">Import {title}</Text>
+
+        {step === 'source' && renderSource()}
+        {step === 'map' && renderMapping()}
+        {step === 'preview' && renderPreview()}
+        {step === 'done' && renderDone()}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
@@ -6,6 +6,25 @@ import { router, useLocalSearchParams } from 'expo-router';
 import { Payment } from '../../src/types';
 import { usePayments } from '../../src/hooks/usePayments';
 import { useClients } from '../../src/hooks/useClients';
+import { useInvoices } from '../../src/hooks/useInvoices';
+import { useSettings } from '../../src/hooks/useSettings';
+import { useToast } from '../../src/components/Toast';
+import { UNDO_TOAST_DURATION } from '../../src/utils/trash';
+import { ReceiptFormat, useReceipts } from '../../src/hooks/useReceipts';
+import { canIssueReceipt, formatReceiptNumber } from '../../src/utils/receipts';
+import { getPaymentInvoiceIds } from '../../src/utils/invoices';
+import { formatMoney, getCurrency, toBaseAmount } from '../../src/utils/currency';
+import { Button, Input, FormField, SimpleFormModal, NotesThread } from '../../src/components';
+import {
+  getRefundableAmount,
+  getRefundedAmount,
+  getRefundsForPayment,
+  getRemainingOwed,
+  isCreditNote,
+  isMoneyReceived,
+  isPartialPayment,
+  isRefund,
+} from '../../src/utils/payments';
 
 const statusColors = {
   pending: 'bg-yellow-100 text-yellow-800 border-yellow-200',
@@ -24,9 +43,19 @@ export default function PaymentDetailsScreen() {
   const [payment, setPayment] = useState<Payment | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [adjustmentKind, setAdjustmentKind] = useState<'refund' | 'credit_note' | null>(null);
+  const [adjustmentAmount, setAdjustmentAmount] = useState('');
+  const [adjustmentReason, setAdjustmentReason] = useState('');
+  const [adjustmentError, setAdjustmentError] = useState<string | null>(null);
+  const [savingAdjustment, setSavingAdjustment] = useState(false);
+  const [sharingReceipt, setSharingReceipt] = useState(false);
 
-  const { payments, updatePayment, deletePayment } = usePayments();
+  const { payments, updatePayment, deletePayment, restorePayment, createRefund, createCreditNote } = usePayments();
   const { clients } = useClients();
+  const { refreshInvoiceStatuses } = useInvoices();
+  const { showToast } = useToast();
+  const { settings } = useSettings();
+  const { getReceiptForPayment, shareReceipt, printReceipt } = useReceipts();
 
   useEffect(() => {
     if (id) {
@@ -41,12 +70,9 @@ export default function PaymentDetailsScreen() {
     }
   }, [id, payments]);
 
+  // Amounts on this screen are in the payment's own currency
   const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
-      minimumFractionDigits: 2,
-    }).format(amount);
+    return formatMoney(amount, payment ? getCurrency(payment) : settings.baseCurrency);
   };
 
   const formatDate = (dateString: string) => {
@@ -79,12 +105,91 @@ export default function PaymentDetailsScreen() {
     }
   };
 
+  const handleOpenAdjustment = (kind: 'refund' | 'credit_note') => {
+    if (!payment) return;
+    const maxAmount = kind === 'refund' ? getRefundableAmount(payment, payments) : payment.amount;
+    setAdjustmentKind(kind);
+    setAdjustmentAmount(maxAmount.toFixed(2));
+    setAdjustmentReason('');
+    setAdjustmentError(null);
+  };
+
+  const handleSaveAdjustment = async () => {
+    if (!payment || !adjustmentKind) return;
+
+    const amount = parseFloat(adjustmentAmount);
+    if (isNaN(amount) || amount <= 0) {
+      setAdjustmentError('Enter an amount greater than 0');
+      return;
+    }
+
+    setSavingAdjustment(true);
+    try {
+      if (adjustmentKind === 'refund') {
+        const refund = await createRefund(payment, amount, adjustmentReason);
+        // A refund can leave the invoices this payment settled owing again
+        await refreshInvoiceStatuses(getPaymentInvoiceIds(payment), [...payments, refund]);
+        Alert.alert('Refund Issued', `${formatCurrency(amount)} refunded.`);
+      } else {
+        await createCreditNote(payment, amount, adjustmentReason);
+        Alert.alert('Credit Note Issued', `${formatCurrency(amount)} credited to the client.`);
+      }
+      setAdjustmentKind(null);
+    } catch (error) {
+      // Error already handled in hook
+    } finally {
+      setSavingAdjustment(false);
+    }
+  };
+
+  const handleReceipt = async (action: ReceiptFormat | 'print') => {
+    if (!payment) return;
+    const client = clients.find(c => c.id === payment.client_id);
+
+    setSharingReceipt(true);
+    try {
+      if (action === 'print') {
+        await printReceipt(payment, settings.businessDetails, client);
+      } else {
+        await shareReceipt(payment, settings.businessDetails, client, action);
+      }
+    } catch (error) {
+      // Error already handled in hook
+    } finally {
+      setSharingReceipt(false);
+    }
+  };
+
+  const handleShareReceipt = () => {
+    Alert.alert(
+      'Share Receipt',
+      'Choose how to send this receipt.',
+      [
+        { text: 'PDF', onPress: () => handleReceipt('pdf') },
+        { text: 'HTML', onPress: () => handleReceipt('html') },
+        { text: 'Print', onPress: () => handleReceipt('print') },
+        { text: 'Cancel', style: 'cancel' },
+      ]
+    );
+  };
+
+  const handleUndoDelete = async (deleted: Payment) => {
+    try {
+      const restored = await restorePayment(deleted.id);
+      if (restored) {
+        await refreshInvoiceStatuses(getPaymentInvoiceIds(deleted), restored as unknown as Payment[]);
+      }
+    } catch (error) {
+      // Error already handled in hook
+    }
+  };
+
   const handleDelete = async () => {
     if (!payment) return;
 
     Alert.alert(
       'Delete Payment',
-      `Are you sure you want to delete this payment of ${formatCurrency(payment.amount)}? This action cannot be undone.`,
+      `Are you sure you want to delete this payment of ${formatCurrency(payment.amount)}? You can restore it from the Trash in Settings.`,
       [
         { text: 'Cancel', style: 'cancel' },
         {
@@ -93,9 +198,18 @@ export default function PaymentDetailsScreen() {
           onPress: async () => {
             try {
               await deletePayment(payment.id);
-              Alert.alert('Success', 'Payment deleted successfully', [
-                { text: 'OK', onPress: () => router.back() }
-              ]);
+              // Reopen the invoices the payment was settling
+              await refreshInvoiceStatuses(
+                getPaymentInvoiceIds(payment),
+                payments.filter(p => p.id !== payment.id && p.original_payment_id !== payment.id)
+              ).catch(() => {
+                // Error already handled in hook
+              });
+              showToast('success', 'Payment deleted', 'Moved to the Trash', {
+                duration: UNDO_TOAST_DURATION,
+                action: { label: 'Undo', onPress: () => handleUndoDelete(payment) },
+              });
+              router.back();
             } catch (error) {
               // Error already handled in hook
             }
@@ -135,6 +249,13 @@ export default function PaymentDetailsScreen() {
   }
 
   const client = clients.find(c => c.id === payment.client_id);
+  const refunds = getRefundsForPayment(payment, payments);
+  const refundedAmount = getRefundedAmount(payment, payments);
+  const refundableAmount = getRefundableAmount(payment, payments);
+  const receipt = getReceiptForPayment(payment.id);
+  const originalPayment = payment.original_payment_id
+    ? payments.find(p => p.id === payment.original_payment_id)
+    : undefined;
 
   return (
     <SafeAreaView className="flex-1 bg-gray-50">
@@ -151,9 +272,17 @@ export default function PaymentDetailsScreen() {
         {/* Payment Amount Card */}
         <View className="bg-white rounded-xl p-6 shadow-sm mb-6">
           <View className="items-center">
-            <Text className="text-4xl font-bold text-gray-900 mb-2">
-              {formatCurrency(payment.amount)}
+            <Text className={`text-4xl font-bold mb-2 ${isRefund(payment) ? 'text-red-600' : 'text-gray-900'}`}>
+              {isRefund(payment) ? '-' : ''}{formatCurrency(payment.amount)}
             </Text>
+            {getCurrency(payment) !== settings.baseCurrency && (
+              <Text className="text-gray-500 mb-2">
+                ≈ {formatMoney(toBaseAmount(payment, { baseCurrency: settings.baseCurrency, rates: settings.exchangeRates }), settings.baseCurrency)}
+              </Text>
+            )}
+            {(isRefund(payment) || isCreditNote(payment)) && (
+              <Text className="text-gray-600 mb-2">{isRefund(payment) ? 'Refund' : 'Credit note'}</Text>
+            )}
             <View className={`px-4 py-2 rounded-full border ${(statusColors as any)[payment.status]}`}>
               <View className="flex-row items-center">
                 <Ionicons 
@@ -184,6 +313,45 @@ export default function PaymentDetailsScreen() {
               <Text className="font-medium text-gray-900">{formatDate(payment.payment_date)}</Text>
             </View>
             
+            {isPartialPayment(payment) && (
+              <>
+                <View className="flex-row justify-between">
+                  <Text className="text-gray-600">Amount Owed</Text>
+                  <Text className="font-medium text-gray-900">{formatCurrency(payment.amount_owed || 0)}</Text>
+                </View>
+                <View className="flex-row justify-between">
+                  <Text className="text-gray-600">Still Owed</Text>
+                  <Text className="font-medium text-orange-600">{formatCurrency(getRemainingOwed(payment))}</Text>
+                </View>
+              </>
+            )}
+
+            {receipt && (
+              <View className="flex-row justify-between">
+                <Text className="text-gray-600">Receipt</Text>
+                <Text className="font-medium text-gray-900">{formatReceiptNumber(receipt.receipt_number)}</Text>
+              </View>
+            )}
+
+            {refundedAmount > 0 && (
+              <View className="flex-row justify-between">
+                <Text className="text-gray-600">Refunded</Text>
+                <Text className="font-medium text-red-600">-{formatCurrency(refundedAmount)}</Text>
+              </View>
+            )}
+
+            {originalPayment && (
+              <TouchableOpacity
+                className="flex-row justify-between"
+                onPress={() => router.push(`/payment/${originalPayment.id}`)}
+              >
+                <Text className="text-gray-600">Original Payment</Text>
+                <Text className="font-medium text-primary">
+                  {formatCurrency(originalPayment.amount)} on {formatDate(originalPayment.payment_date)}
+                </Text>
+              </TouchableOpacity>
+            )}
+
             <View className="flex-row justify-between">
               <Text className="text-gray-600">Created</Text>
               <Text className="font-medium text-gray-900">{formatDateTime(payment.created_at || payment.payment_date)}</Text>
@@ -247,6 +415,31 @@ export default function PaymentDetailsScreen() {
           </View>
         )}
 
+        {/* Notes */}
+        <NotesThread entityType="payment" entityId={payment.id} />
+
+        {/* Refunds issued against this payment */}
+        {refunds.length > 0 && (
+          <View className="bg-white rounded-xl p-6 shadow-sm mb-6">
+            <Text className="text-lg font-semibold text-gray-900 mb-4">Refunds</Text>
+            {refunds.map(refund => (
+              <TouchableOpacity
+                key={refund.id}
+                className="flex-row items-center justify-between py-2 border-b border-gray-100"
+                onPress={() => router.push(`/payment/${refund.id}`)}
+              >
+                <View className="flex-1">
+                  <Text className="font-medium text-red-600">-{formatCurrency(refund.amount)}</Text>
+                  {refund.description && (
+                    <Text className="text-gray-500 text-sm" numberOfLines={1}>{refund.description}</Text>
+                  )}
+                </View>
+                <Text className="text-gray-500 text-sm">{formatDate(refund.payment_date)}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+
         {/* Status Update Actions */}
         <View className="bg-white rounded-xl p-6 shadow-sm mb-6">
           <Text className="text-lg font-semibold text-gray-900 mb-4">Update Status</Text>
@@ -275,6 +468,44 @@ export default function PaymentDetailsScreen() {
 
         {/* Actions */}
         <View className="space-y-3 mb-6">
+          {canIssueReceipt(payment) && (
+            <Button
+              variant="secondary"
+              icon="receipt-outline"
+              onPress={handleShareReceipt}
+              loading={sharingReceipt}
+              fullWidth
+            >
+              {receipt ? 'Share Receipt' : 'Issue & Share Receipt'}
+            </Button>
+          )}
+
+          {isMoneyReceived(payment) && payment.client_id && (
+            <View className="flex-row space-x-3">
+              <View className="flex-1">
+                <Button
+                  variant="secondary"
+                  icon="return-down-back"
+                  onPress={() => handleOpenAdjustment('refund')}
+                  disabled={refundableAmount <= 0}
+                  fullWidth
+                >
+                  Issue Refund
+                </Button>
+              </View>
+              <View className="flex-1">
+                <Button
+                  variant="secondary"
+                  icon="document-text-outline"
+                  onPress={() => handleOpenAdjustment('credit_note')}
+                  fullWidth
+                >
+                  Credit Note
+                </Button>
+              </View>
+            </View>
+          )}
+
           <TouchableOpacity
             className="bg-primary rounded-lg py-4 flex-row items-center justify-center"
             onPress={() => router.push(`/(tabs)/payments`)}
@@ -292,6 +523,66 @@ export default function PaymentDetailsScreen() {
           </TouchableOpacity>
         </View>
       </ScrollView>
+
+      <SimpleFormModal
+        visible={!!adjustmentKind}
+        onClose={() => setAdjustmentKind(null)}
+        title={adjustmentKind === 'refund' ? 'Issue Refund' : 'Issue Credit Note'}
+        size="md"
+      >
+        <View className="space-y-4">
+          <Text className="text-gray-600">
+            {adjustmentKind === 'refund'
+              ? `Up to ${formatCurrency(refundableAmount)} of this payment can be refunded.`
+              : 'A credit note reduces what the client owes without returning money.'}
+          </Text>
+
+          <FormField spacing="compact">
+            <Input
+              label="Amount"
+              required
+              value={adjustmentAmount}
+              onChangeText={setAdjustmentAmount}
+              placeholder="0.00"
+              keyboardType="decimal-pad"
+              leftIcon="cash"
+            />
+          </FormField>
+
+          <FormField spacing="compact">
+            <Input
+              label="Reason"
+              value={adjustmentReason}
+              onChangeText={setAdjustmentReason}
+              placeholder="Optional"
+              multiline
+              numberOfLines={3}
+            />
+          </FormField>
+
+          {adjustmentError && (
+            <Text className="text-red-600 text-sm">{adjustmentError}</Text>
+          )}
+
+          <View className="flex-row space-x-3 pt-2">
+            <View className="flex-1">
+              <Button variant="secondary" onPress={() => setAdjustmentKind(null)} fullWidth>
+                Cancel
+              </Button>
+            </View>
+            <View className="flex-1">
+              <Button
+                variant={adjustmentKind === 'refund' ? 'danger' : 'primary'}
+                onPress={handleSaveAdjustment}
+                loading={savingAdjustment}
+                fullWidth
+              >
+                {adjustmentKind === 'refund' ? 'Refund' : 'Issue Credit'}
+              </Button>
+            </View>
+          </View>
+        </View>
+      </SimpleFormModal>
     </SafeAreaView>
   );
 }
\ No newline at end of file
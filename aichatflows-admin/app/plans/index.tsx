@@ -0,0 +1,373 @@
+import { useState } from 'react';
+import { View, Text, TouchableOpacity, ScrollView, ActivityIndicator } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import { PlanInfo } from '../../src/types';
+import { usePlans } from '../../src/hooks/usePlans';
+import { useClients } from '../../src/hooks/useClients';
+import { Button, Input, FormField, SimpleFormModal } from '../../src/components';
+import { ConfirmDialog } from '../../src/components/ConfirmDialog';
+import { CLIENT_PLATFORMS, getPlanColor, getPlanPlatforms } from '../../src/utils/finance';
+import { DEFAULT_CURRENCY, SUPPORTED_CURRENCIES, formatMoney, getCurrency } from '../../src/utils/currency';
+
+interface PlanFormData {
+  label: string;
+  price: string;
+  billing_interval: PlanInfo['billing_interval'];
+  currency: string;
+  features: string;
+  platforms: NonNullable<PlanInfo['platforms']>;
+  requires_payment_method: boolean;
+}
+
+const EMPTY_PLAN_FORM: PlanFormData = {
+  label: '',
+  price: '',
+  billing_interval: 'month',
+  currency: DEFAULT_CURRENCY,
+  features: '',
+  platforms: CLIENT_PLATFORMS,
+  requires_payment_method: false,
+};
+
+export default function PlansScreen() {
+  const { plans, loading, createPlan, updatePlan, setPlanArchived } = usePlans();
+  const { clients } = useClients();
+
+  const [showFormModal, setShowFormModal] = useState(false);
+  const [editingPlan, setEditingPlan] = useState<PlanInfo | null>(null);
+  const [formData, setFormData] = useState<PlanFormData>(EMPTY_PLAN_FORM);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [archiveConfirm, setArchiveConfirm] = useState<PlanInfo | null>(null);
+
+  const getClientCount = (planName: string) => {
+    return clients.filter(client => client.plan === planName).length;
+  };
+
+  const handleOpenCreate = () => {
+    setEditingPlan(null);
+    setFormData(EMPTY_PLAN_FORM);
+    setFormError(null);
+    setShowFormModal(true);
+  };
+
+  const handleOpenEdit = (plan: PlanInfo) => {
+    setEditingPlan(plan);
+    setFormData({
+      label: plan.label,
+      price: String(plan.price),
+      billing_interval: plan.billing_interval,
+      currency: getCurrency(plan),
+      features: plan.features.join('\n'),
+      platforms: getPlanPlatforms(plan),
+      requires_payment_method: !!plan.requires_payment_method,
+    });
+    setFormError(null);
+    setShowFormModal(true);
+  };
+
+  const handleSave = async () => {
+    const price = parseFloat(formData.price);
+    if (!formData.label.trim()) {
+      setFormError('Plan name is required');
+      return;
+    }
+    if (isNaN(price) || price < 0) {
+      setFormError('Enter a valid price');
+      return;
+    }
+    if (formData.platforms.length === 0) {
+      setFormError('Choose at least one platform');
+      return;
+    }
+
+    const planData = {
+      label: formData.label,
+      price,
+      billing_interval: formData.billing_interval,
+      currency: formData.currency,
+      features: formData.features.split('\n'),
+      platforms: formData.platforms,
+      requires_payment_method: formData.requires_payment_method,
+    };
+
+    setSaving(true);
+    try {
+      if (editingPlan?.id) {
+        await updatePlan(editingPlan.id, planData);
+      } else {
+        await createPlan(planData);
+      }
+      setShowFormModal(false);
+    } catch (error) {
+      // Error already handled in hook
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleArchived = async (plan: PlanInfo) => {
+    setArchiveConfirm(null);
+    if (!plan.id) return;
+    try {
+      await setPlanArchived(plan.id, !plan.archived);
+    } catch (error) {
+      // Error already handled in hook
+    }
+  };
+
+  if (loading) {
+    return (
+      <SafeAreaView className="flex-1 bg-gray-50">
+        <View className="flex-1 justify-center items-center">
+          <ActivityIndicator size="large" color="#00D4AA" />
+          <Text className="text-gray-600 mt-4">Loading plans...</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView className="flex-1 bg-gray-50">
+      <ScrollView className="px-6 py-4">
+        {/* Header with Back Button */}
+        <TouchableOpacity
+          className="flex-row items-center mb-6"
+          onPress={() => router.back()}
+        >
+          <Ionicons name="arrow-back" size={24} color="#00D4AA" />
+          <Text className="text-primary text-lg ml-2">Back to Settings</Text>
+        </TouchableOpacity>
+
+        <View className="flex-row items-center justify-between mb-2">
+          <Text className="text-2xl font-bold text-gray-900">Plans</Text>
+          <Button variant="primary" size="sm" icon="add" onPress={handleOpenCreate}>
+            New Plan
+          </Button>
+        </View>
+        <Text className="text-sm text-gray-500 mb-6">
+          Price changes apply to new sign-ups. Existing clients keep the price they signed up at.
+        </Text>
+
+        {plans.map((plan) => {
+          const clientCount = getClientCount(plan.name);
+          return (
+            <View
+              key={plan.name}
+              className={`bg-white rounded-xl p-6 shadow-sm mb-4 ${plan.archived ? 'opacity-60' : ''}`}
+            >
+              <View className="flex-row items-start justify-between mb-3">
+                <View className="flex-1">
+                  <View className="flex-row items-center">
+                    <View
+                      className="w-3 h-3 rounded-full mr-2"
+                      style={{ backgroundColor: getPlanColor(plan.name) }}
+                    />
+                    <Text className="text-lg font-semibold text-gray-900">{plan.label}</Text>
+                    {plan.archived && (
+                      <View className="bg-gray-100 px-2 py-0.5 rounded-full ml-2">
+                        <Text className="text-xs text-gray-600">Archived</Text>
+                      </View>
+                    )}
+                  </View>
+                  <Text className="text-sm text-gray-500 mt-1">
+                    {clientCount} {clientCount === 1 ? 'client' : 'clients'}
+                  </Text>
+                </View>
+                <Text className="text-xl font-bold text-gray-900">
+                  {formatMoney(plan.price, getCurrency(plan), 0)}
+                  <Text className="text-sm font-normal text-gray-500">
+                    /{plan.billing_interval === 'year' ? 'yr' : 'mo'}
+                  </Text>
+                </Text>
+              </View>
+
+              {plan.features.map((feature) => (
+                <View key={feature} className="flex-row items-center mb-1">
+                  <Ionicons name="checkmark" size={16} color="#10B981" />
+                  <Text className="text-sm text-gray-700 ml-2">{feature}</Text>
+                </View>
+              ))}
+
+              {plan.id && (
+                <View className="flex-row space-x-3 mt-4">
+                  <TouchableOpacity
+                    className="flex-1 flex-row items-center justify-center py-2 rounded-lg bg-gray-100"
+                    onPress={() => handleOpenEdit(plan)}
+                  >
+                    <Ionicons name="create-outline" size={16} color="#374151" />
+                    <Text className="text-gray-700 font-medium ml-1">Edit</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    className="flex-1 flex-row items-center justify-center py-2 rounded-lg bg-gray-100"
+                    onPress={() => setArchiveConfirm(plan)}
+                  >
+                    <Ionicons name={plan.archived ? 'refresh' : 'archive-outline'} size={16} color="#374151" />
+                    <Text className="text-gray-700 font-medium ml-1">{plan.archived ? 'Restore' : 'Archive'}</Text>
+                  </TouchableOpacity>
+                </View>
+              )}
+            </View>
+          );
+        })}
+      </ScrollView>
+
+      {/* Create / Edit Plan Modal */}
+      <SimpleFormModal
+        visible={showFormModal}
+        onClose={() => setShowFormModal(false)}
+        title={editingPlan ? 'Edit Plan' : 'New Plan'}
+        size="lg"
+      >
+        <View className="space-y-4">
+          <FormField spacing="compact">
+            <Input
+              label="Name"
+              required
+              value={formData.label}
+              onChangeText={(text) => setFormData({ ...formData, label: text })}
+              placeholder="e.g. Growth"
+              autoCapitalize="words"
+            />
+          </FormField>
+
+          <FormField spacing="compact">
+            <Input
+              label="Price"
+              required
+              value={formData.price}
+              onChangeText={(text) => setFormData({ ...formData, price: text })}
+              placeholder="0.00"
+              keyboardType="decimal-pad"
+              leftIcon="cash"
+            />
+          </FormField>
+
+          <FormField label="Billing Interval" spacing="compact">
+            <View className="flex-row space-x-2">
+              {(['month', 'year'] as const).map((interval) => (
+                <TouchableOpacity
+                  key={interval}
+                  className={`flex-1 px-4 py-3 rounded-lg border ${
+                    formData.billing_interval === interval
+                      ? 'bg-primary border-primary'
+                      : 'bg-white border-gray-300'
+                  }`}
+                  onPress={() => setFormData({ ...formData, billing_interval: interval })}
+                >
+                  <Text className={`text-center font-medium ${
+                    formData.billing_interval === interval ? 'text-white' : 'text-gray-700'
+                  }`}>
+                    {interval === 'month' ? 'Monthly' : 'Yearly'}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </FormField>
+
+          <FormField label="Currency" spacing="compact">
+            <View className="flex-row flex-wrap gap-2">
+              {SUPPORTED_CURRENCIES.map((currency) => (
+                <TouchableOpacity
+                  key={currency}
+                  className={`px-4 py-2 rounded-lg border ${
+                    formData.currency === currency
+                      ? 'bg-primary border-primary'
+                      : 'bg-white border-gray-300'
+                  }`}
+                  onPress={() => setFormData({ ...formData, currency })}
+                >
+                  <Text className={`font-medium ${
+                    formData.currency === currency ? 'text-white' : 'text-gray-700'
+                  }`}>
+                    {currency}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </FormField>
+
+          <FormField label="Platforms" spacing="compact">
+            <View className="flex-row space-x-2">
+              {CLIENT_PLATFORMS.map((platform) => {
+                const included = formData.platforms.includes(platform);
+                return (
+                  <TouchableOpacity
+                    key={platform}
+                    className={`flex-1 px-3 py-3 rounded-lg border ${
+                      included ? 'bg-primary border-primary' : 'bg-white border-gray-300'
+                    }`}
+                    onPress={() => setFormData({
+                      ...formData,
+                      platforms: included
+                        ? formData.platforms.filter(p => p !== platform)
+                        : CLIENT_PLATFORMS.filter(p => p === platform || formData.platforms.includes(p)),
+                    })}
+                  >
+                    <Text className={`text-center font-medium text-sm ${included ? 'text-white' : 'text-gray-700'}`}>
+                      {platform.charAt(0).toUpperCase() + platform.slice(1)}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </FormField>
+
+          <TouchableOpacity
+            className="flex-row items-center"
+            onPress={() => setFormData({ ...formData, requires_payment_method: !formData.requires_payment_method })}
+          >
+            <Ionicons
+              name={formData.requires_payment_method ? 'checkbox' : 'square-outline'}
+              size={22}
+              color={formData.requires_payment_method ? '#00D4AA' : '#9CA3AF'}
+            />
+            <Text className="text-gray-700 ml-2">Clients need a payment method on file</Text>
+          </TouchableOpacity>
+
+          <FormField spacing="compact" helperText="One feature per line">
+            <Input
+              label="Features"
+              value={formData.features}
+              onChangeText={(text) => setFormData({ ...formData, features: text })}
+              placeholder={'Unlimited conversations\nPriority support'}
+              multiline
+              numberOfLines={5}
+            />
+          </FormField>
+
+          {formError && (
+            <Text className="text-red-600 text-sm">{formError}</Text>
+          )}
+
+          <View className="flex-row space-x-3 pt-2">
+            <View className="flex-1">
+              <Button variant="secondary" onPress={() => setShowFormModal(false)} fullWidth>
+                Cancel
+              </Button>
+            </View>
+            <View className="flex-1">
+              <Button variant="primary" onPress={handleSave} loading={saving} fullWidth>
+                {editingPlan ? 'Save Changes' : 'Create Plan'}
+              </Button>
+            </View>
+          </View>
+        </View>
+      </SimpleFormModal>
+
+      <ConfirmDialog
+        visible={!!archiveConfirm}
+        title={archiveConfirm?.archived ? 'Restore Plan' : 'Archive Plan'}
+        message={archiveConfirm?.archived
+          ? `Make ${archiveConfirm?.label} available for new clients again?`
+          : `${archiveConfirm?.label} will no longer be offered to new clients. Existing clients stay on it.`}
+        confirmText={archiveConfirm?.archived ? 'Restore' : 'Archive'}
+        onConfirm={() => archiveConfirm && handleToggleArchived(archiveConfirm)}
+        onCancel={() => setArchiveConfirm(null)}
+        icon={archiveConfirm?.archived ? 'refresh' : 'archive'}
+      />
+    </SafeAreaView>
+  );
+}
@@ -0,0 +1,397 @@
+import { useState } from 'react';
+import { View, Text, TouchableOpacity, ScrollView, ActivityIndicator, Alert } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { router, useLocalSearchParams } from 'expo-router';
+import { Prospect, ProspectFormData } from '../../src/types';
+import { useProspects } from '../../src/hooks/useProspects';
+import { useBusinessVisits } from '../../src/hooks/useBusinessVisits';
+import { useClients } from '../../src/hooks/useClients';
+import { usePlans } from '../../src/hooks/usePlans';
+import { useActivityLog } from '../../src/hooks/useActivityLog';
+import { Button, Input, SimpleFormModal } from '../../src/components';
+import { ConfirmDialog } from '../../src/components/ConfirmDialog';
+import { ProspectFormModal, ProspectStageBadge } from '../../src/components/Prospects';
+import { validateClient } from '../../src/utils/validation';
+import { getDefaultPlan } from '../../src/utils/finance';
+import {
+  OPEN_PROSPECT_STAGES,
+  PROSPECT_STAGES,
+  formatNextAction,
+  getProspectFormData,
+  isProspectActionDue,
+  isProspectOpen,
+} from '../../src/utils/prospects';
+
+interface ConvertFormData {
+  name: string;
+  email: string;
+  phone: string;
+  plan: string;
+}
+
+// Fields the conversion form asks for; the rest of the onboarding form is filled in later
+const CONVERT_FIELDS: (keyof ConvertFormData)[] = ['name', 'email', 'phone', 'plan'];
+
+export default function ProspectDetailsScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { prospects, loading, updateProspect, setProspectStage, convertProspect, deleteProspect } = useProspects();
+  const { visits, markVisit, isMarkingVisit, refetchSilent: refetchVisits } = useBusinessVisits();
+  const { clients, createClient } = useClients();
+  const { plans, activePlans } = usePlans();
+  const { logClientCreated } = useActivityLog();
+
+  const [showEditModal, setShowEditModal] = useState(false);
+  const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  const [showConvertModal, setShowConvertModal] = useState(false);
+  const [convertForm, setConvertForm] = useState<ConvertFormData>({ name: '', email: '', phone: '', plan: '' });
+  const [convertErrors, setConvertErrors] = useState<Record<string, string>>({});
+  const [converting, setConverting] = useState(false);
+  // Client already created by a conversion that failed half way, so a retry doesn't create it twice
+  const [convertedClientId, setConvertedClientId] = useState<string | null>(null);
+
+  const prospect = prospects.find(p => p.id === id);
+  const prospectVisits = visits.filter(visit => visit.prospect_id === id);
+  const client = prospect?.client_id ? clients.find(c => c.id === prospect.client_id) : undefined;
+
+  if (loading) {
+    return (
+      <SafeAreaView className="flex-1 bg-gray-50">
+        <View className="flex-1 justify-center items-center">
+          <ActivityIndicator size="large" color="#00D4AA" />
+          <Text className="text-gray-600 mt-4">Loading prospect...</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  if (!prospect) {
+    return (
+      <SafeAreaView className="flex-1 bg-gray-50">
+        <View className="flex-1 justify-center items-center px-6">
+          <Ionicons name="alert-circle" size={64} color="#FF3B30" />
+          <Text className="text-gray-900 text-lg font-semibold mt-4">Prospect Not Found</Text>
+          <TouchableOpacity
+            className="bg-primary rounded-lg px-6 py-3 mt-4"
+            onPress={() => router.back()}
+          >
+            <Text className="text-white font-semibold">Go Back</Text>
+          </TouchableOpacity>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const hasCoordinates = prospect.latitude != null && prospect.longitude != null;
+
+  const handleUpdate = async (formData: ProspectFormData) => {
+    await updateProspect(prospect.id, formData);
+  };
+
+  const handleStageChange = async (stage: Prospect['stage']) => {
+    try {
+      await setProspectStage(prospect.id, stage);
+    } catch (error) {
+      // Error already handled in hook
+    }
+  };
+
+  const handleLogVisit = async () => {
+    await markVisit(
+      undefined,
+      prospect.business_name,
+      prospect.address || undefined,
+      hasCoordinates ? { latitude: prospect.latitude as number, longitude: prospect.longitude as number } : undefined,
+      prospect.id
+    );
+  };
+
+  const handleDelete = async () => {
+    setShowDeleteConfirm(false);
+    try {
+      await deleteProspect(prospect.id);
+      router.back();
+    } catch (error) {
+      // Error already handled in hook
+    }
+  };
+
+  const openConvert = () => {
+    setConvertForm({
+      name: prospect.contact_name || prospect.business_name,
+      email: prospect.contact_email || '',
+      phone: prospect.contact_phone || '',
+      plan: getDefaultPlan(plans).name,
+    });
+    setConvertErrors({});
+    setShowConvertModal(true);
+  };
+
+  // Create the client, then hand the prospect and its visits over to it
+  const handleConvert = async () => {
+    const { errors } = validateClient(convertForm);
+    const fieldErrors = Object.fromEntries(Object.entries(errors).filter(([key]) => CONVERT_FIELDS.includes(key as keyof ConvertFormData)));
+    if (Object.keys(fieldErrors).length > 0) {
+      setConvertErrors(fieldErrors);
+      return;
+    }
+
+    setConverting(true);
+    try {
+      let clientId = convertedClientId;
+      if (!clientId) {
+        const newClient = await createClient({
+          name: convertForm.name,
+          email: convertForm.email,
+          phone: convertForm.phone,
+          status: 'in_progress',
+          plan: convertForm.plan,
+          business_name: prospect.business_name,
+          signed_in_person: true,
+        });
+        if (!newClient) return;
+        clientId = newClient.id as string;
+        setConvertedClientId(clientId);
+        logClientCreated(clientId, newClient.name, convertForm.plan, true);
+      }
+
+      await convertProspect(prospect.id, clientId);
+      setConvertedClientId(null);
+      await refetchVisits();
+      setShowConvertModal(false);
+      Alert.alert('Converted', `${prospect.business_name} is now a client.`, [
+        { text: 'Stay Here', style: 'cancel' },
+        { text: 'Open Client', onPress: () => router.push(`/client/${clientId}`) },
+      ]);
+    } catch (error) {
+      // Error already handled in hook
+    } finally {
+      setConverting(false);
+    }
+  };
+
+  return (
+    <SafeAreaView className="flex-1 bg-gray-50">
+      <ScrollView className="px-6 py-4">
+        {/* Header with Back Button */}
+        <TouchableOpacity
+          className="flex-row items-center mb-6"
+          onPress={() => router.back()}
+        >
+          <Ionicons name="arrow-back" size={24} color="#00D4AA" />
+          <Text className="text-primary text-lg ml-2">Back to Prospects</Text>
+        </TouchableOpacity>
+
+        {/* Prospect Details */}
+        <View className="bg-white rounded-xl p-6 shadow-sm mb-6">
+          <View className="flex-row items-start justify-between mb-4">
+            <View className="flex-1 mr-3">
+              <Text className="text-2xl font-bold text-gray-900 mb-2">{prospect.business_name}</Text>
+              <ProspectStageBadge stage={prospect.stage} />
+            </View>
+            <TouchableOpacity className="p-2 bg-gray-100 rounded-lg" onPress={() => setShowEditModal(true)}>
+              <Ionicons name="pencil" size={16} color="#374151" />
+            </TouchableOpacity>
+          </View>
+
+          {!!prospect.address && (
+            <View className="flex-row justify-between py-2 border-b border-gray-100">
+              <Text className="text-gray-600">Address</Text>
+              <Text className="text-gray-900 font-medium flex-shrink ml-4 text-right">{prospect.address}</Text>
+            </View>
+          )}
+          {hasCoordinates && (
+            <View className="flex-row justify-between py-2 border-b border-gray-100">
+              <Text className="text-gray-600">Coordinates</Text>
+              <Text className="text-gray-900 font-medium">
+                {(prospect.latitude as number).toFixed(4)}, {(prospect.longitude as number).toFixed(4)}
+              </Text>
+            </View>
+          )}
+          {!!prospect.contact_name && (
+            <View className="flex-row justify-between py-2 border-b border-gray-100">
+              <Text className="text-gray-600">Contact</Text>
+              <Text className="text-gray-900 font-medium">{prospect.contact_name}</Text>
+            </View>
+          )}
+          {!!prospect.contact_phone && (
+            <View className="flex-row justify-between py-2 border-b border-gray-100">
+              <Text className="text-gray-600">Phone</Text>
+              <Text className="text-gray-900 font-medium">{prospect.contact_phone}</Text>
+            </View>
+          )}
+          {!!prospect.contact_email && (
+            <View className="flex-row justify-between py-2 border-b border-gray-100">
+              <Text className="text-gray-600">Email</Text>
+              <Text className="text-gray-900 font-medium">{prospect.contact_email}</Text>
+            </View>
+          )}
+          {isProspectOpen(prospect) && !!prospect.next_action_date && (
+            <View className="flex-row justify-between py-2 border-b border-gray-100">
+              <Text className="text-gray-600">Next Action</Text>
+              <Text className={`font-medium ${isProspectActionDue(prospect) ? 'text-red-600' : 'text-gray-900'}`}>
+                {formatNextAction(prospect.next_action_date)} ({prospect.next_action_date})
+              </Text>
+            </View>
+          )}
+          {!!prospect.notes && (
+            <Text className="text-gray-700 mt-3">{prospect.notes}</Text>
+          )}
+          {prospect.client_id && (
+            <TouchableOpacity
+              className="flex-row items-center bg-green-50 rounded-lg p-3 mt-4"
+              onPress={() => router.push(`/client/${prospect.client_id}`)}
+              disabled={!client}
+            >
+              <Ionicons name="checkmark-circle" size={20} color="#10B981" />
+              <Text className="text-green-700 font-medium ml-2 flex-1">
+                Converted to {client?.name || 'a client'}
+                {prospect.converted_at ? ` on ${new Date(prospect.converted_at).toLocaleDateString()}` : ''}
+              </Text>
+              {client && <Ionicons name="chevron-forward" size={16} color="#10B981" />}
+            </TouchableOpacity>
+          )}
+        </View>
+
+        {/* Stage */}
+        {!prospect.client_id && (
+          <View className="bg-white rounded-xl p-6 shadow-sm mb-6">
+            <Text className="text-lg font-semibold text-gray-900 mb-3">Stage</Text>
+            <View className="flex-row flex-wrap gap-2 mb-4">
+              {PROSPECT_STAGES
+                .filter(option => OPEN_PROSPECT_STAGES.includes(option.value) || option.value === 'rejected')
+                .map(option => (
+                  <TouchableOpacity
+                    key={option.value}
+                    className={`px-3 py-2 rounded-lg border ${
+                      prospect.stage === option.value ? 'bg-primary border-primary' : 'bg-white border-gray-300'
+                    }`}
+                    onPress={() => prospect.stage !== option.value && handleStageChange(option.value)}
+                  >
+                    <Text className={`font-medium ${prospect.stage === option.value ? 'text-white' : 'text-gray-700'}`}>
+                      {option.label}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+            </View>
+            <Button variant="primary" icon="person-add" onPress={openConvert} fullWidth>
+              Convert to Client
+            </Button>
+          </View>
+        )}
+
+        {/* Visits */}
+        <View className="bg-white rounded-xl p-6 shadow-sm mb-6">
+          <View className="flex-row items-center justify-between mb-4">
+            <Text className="text-lg font-semibold text-gray-900">Visits ({prospectVisits.length})</Text>
+            {!prospect.client_id && (
+              <TouchableOpacity onPress={handleLogVisit} disabled={isMarkingVisit}>
+                <Text className="text-primary font-medium">{isMarkingVisit ? 'Logging...' : 'Log Visit'}</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+          {prospectVisits.length === 0 ? (
+            <Text className="text-gray-500">No visits logged yet</Text>
+          ) : (
+            prospectVisits.map(visit => (
+              <TouchableOpacity
+                key={visit.id}
+                className="flex-row items-center py-3 border-b border-gray-100"
+                onPress={() => router.push(`/visit/${visit.id}`)}
+              >
+                <Ionicons name="location-outline" size={16} color="#9CA3AF" />
+                <Text className="text-gray-700 ml-2 flex-1" numberOfLines={1}>{visit.location || 'Business Visit'}</Text>
+                <Ionicons name="chevron-forward" size={16} color="#9CA3AF" />
+              </TouchableOpacity>
+            ))
+          )}
+        </View>
+
+        <Button variant="danger" icon="trash-outline" onPress={() => setShowDeleteConfirm(true)} fullWidth>
+          Delete Prospect
+        </Button>
+        <View className="h-8" />
+      </ScrollView>
+
+      <ProspectFormModal
+        visible={showEditModal}
+        title="Edit Prospect"
+        initialValues={getProspectFormData(prospect)}
+        onClose={() => setShowEditModal(false)}
+        onSubmit={handleUpdate}
+      />
+
+      {/* Convert to Client Modal */}
+      <SimpleFormModal
+        visible={showConvertModal}
+        onClose={() => setShowConvertModal(false)}
+        title="Convert to Client"
+        size="lg"
+      >
+        <View className="p-6">
+          <Text className="text-sm text-gray-500 mb-4">
+            {prospect.business_name} becomes a client and its {prospectVisits.length} {prospectVisits.length === 1 ? 'visit moves' : 'visits move'} to the client&apos;s history.
+          </Text>
+          <Input
+            label="Client Name"
+            value={convertForm.name}
+            onChangeText={(text) => setConvertForm(prev => ({ ...prev, name: text }))}
+            autoCapitalize="words"
+            error={convertErrors.name}
+            required
+          />
+          <Input
+            label="Email"
+            value={convertForm.email}
+            onChangeText={(text) => setConvertForm(prev => ({ ...prev, email: text }))}
+            keyboardType="email-address"
+            autoCapitalize="none"
+            error={convertErrors.email}
+            required
+          />
+          <Input
+            label="Phone"
+            value={convertForm.phone}
+            onChangeText={(text) => setConvertForm(prev => ({ ...prev, phone: text }))}
+            keyboardType="phone-pad"
+            error={convertErrors.phone}
+            required
+          />
+          <View className="mb-4">
+            <Text className="text-sm font-medium text-gray-700 mb-2">Plan</Text>
+            <View className="flex-row flex-wrap gap-2">
+              {activePlans.map(plan => (
+                <TouchableOpacity
+                  key={plan.name}
+                  className={`px-3 py-2 rounded-lg border ${
+                    convertForm.plan === plan.name ? 'bg-primary border-primary' : 'bg-white border-gray-300'
+                  }`}
+                  onPress={() => setConvertForm(prev => ({ ...prev, plan: plan.name }))}
+                >
+                  <Text className={`font-medium ${convertForm.plan === plan.name ? 'text-white' : 'text-gray-700'}`}>
+                    {plan.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            {!!convertErrors.plan && <Text className="text-xs text-red-500 mt-2">{convertErrors.plan}</Text>}
+          </View>
+          <Button icon="person-add" onPress={handleConvert} loading={converting} disabled={converting} fullWidth>
+            Create Client
+          </Button>
+        </View>
+      </SimpleFormModal>
+
+      <ConfirmDialog
+        visible={showDeleteConfirm}
+        title="Delete Prospect"
+        message={`Delete ${prospect.business_name}? Its visits are kept but no longer linked to a prospect.`}
+        confirmText="Delete"
+        onConfirm={handleDelete}
+        onCancel={() => setShowDeleteConfirm(false)}
+        icon="trash"
+        destructive
+      />
+    </SafeAreaView>
+  );
+}
@@ -0,0 +1,188 @@
+import { useState } from 'react';
+import { View, Text, TouchableOpacity, ScrollView, ActivityIndicator, RefreshControl } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import { Prospect, ProspectFormData } from '../../src/types';
+import { useProspects } from '../../src/hooks/useProspects';
+import { useBusinessVisits } from '../../src/hooks/useBusinessVisits';
+import { Button } from '../../src/components';
+import { ProspectFormModal, ProspectStageBadge } from '../../src/components/Prospects';
+import {
+  PROSPECT_STAGES,
+  calculateProspectConversion,
+  formatNextAction,
+  getEmptyProspectForm,
+  isProspectActionDue,
+  isProspectOpen,
+} from '../../src/utils/prospects';
+
+export default function ProspectsScreen() {
+  const { prospects, loading, createProspect, refetchSilent } = useProspects();
+  const { visits } = useBusinessVisits();
+
+  const [stageFilter, setStageFilter] = useState<Prospect['stage'] | null>(null);
+  const [showFormModal, setShowFormModal] = useState(false);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const conversion = calculateProspectConversion(prospects, visits);
+  const visibleProspects = stageFilter ? prospects.filter(prospect => prospect.stage === stageFilter) : prospects;
+  const dueCount = prospects.filter(prospect => isProspectActionDue(prospect)).length;
+
+  const getVisitCount = (prospectId: string) => {
+    return visits.filter(visit => visit.prospect_id === prospectId).length;
+  };
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    try {
+      await refetchSilent();
+    } catch (error) {
+      // Error already handled in hook
+    } finally {
+      setRefreshing(false);
+    }
+  };
+
+  const handleCreate = async (formData: ProspectFormData) => {
+    const prospect = await createProspect(formData);
+    router.push(`/prospects/${prospect.id}`);
+  };
+
+  if (loading) {
+    return (
+      <SafeAreaView className="flex-1 bg-gray-50">
+        <View className="flex-1 justify-center items-center">
+          <ActivityIndicator size="large" color="#00D4AA" />
+          <Text className="text-gray-600 mt-4">Loading prospects...</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView className="flex-1 bg-gray-50">
+      <ScrollView
+        className="px-6 py-4"
+        refreshControl={
+          <RefreshControl refreshing={refreshing} onRefresh={onRefresh} colors={['#00D4AA']} tintColor="#00D4AA" />
+        }
+      >
+        {/* Header with Back Button */}
+        <TouchableOpacity
+          className="flex-row items-center mb-6"
+          onPress={() => router.back()}
+        >
+          <Ionicons name="arrow-back" size={24} color="#00D4AA" />
+          <Text className="text-primary text-lg ml-2">Back to Visits</Text>
+        </TouchableOpacity>
+
+        <View className="flex-row items-center justify-between mb-2">
+          <Text className="text-2xl font-bold text-gray-900">Prospects</Text>
+          <Button variant="primary" size="sm" icon="add" onPress={() => setShowFormModal(true)}>
+            New Prospect
+          </Button>
+        </View>
+        <Text className="text-sm text-gray-500 mb-6">
+          Businesses you&apos;ve visited that aren&apos;t clients yet. Visits without a client are added to the matching prospect.
+        </Text>
+
+        {/* Conversion */}
+        <View className="flex-row space-x-4 mb-4">
+          <View className="bg-white rounded-xl p-4 shadow-sm flex-1">
+            <Text className="text-2xl font-bold text-green-600">{conversion.conversionRate.toFixed(0)}%</Text>
+            <Text className="text-gray-600 text-sm">Converted</Text>
+          </View>
+          <View className="bg-white rounded-xl p-4 shadow-sm flex-1">
+            <Text className="text-2xl font-bold text-blue-600">{conversion.open}</Text>
+            <Text className="text-gray-600 text-sm">Open</Text>
+          </View>
+          <View className="bg-white rounded-xl p-4 shadow-sm flex-1">
+            <Text className="text-2xl font-bold text-orange-600">{dueCount}</Text>
+            <Text className="text-gray-600 text-sm">Action Due</Text>
+          </View>
+        </View>
+        {conversion.signed > 0 && (
+          <Text className="text-sm text-gray-500 mb-6">
+            {conversion.signed} signed after {conversion.visitsPerSignup.toFixed(1)} visits and {conversion.averageDaysToSign} days on average
+          </Text>
+        )}
+
+        <View className="flex-row flex-wrap gap-2 mb-6">
+          {[{ value: null, label: 'All' }, ...PROSPECT_STAGES].map(option => (
+            <TouchableOpacity
+              key={option.label}
+              className={`px-3 py-2 rounded-lg border ${
+                stageFilter === option.value ? 'bg-primary border-primary' : 'bg-white border-gray-300'
+              }`}
+              onPress={() => setStageFilter(option.value)}
+            >
+              <Text className={`font-medium ${stageFilter === option.value ? 'text-white' : 'text-gray-700'}`}>
+                {option.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        {visibleProspects.length === 0 ? (
+          <View className="bg-white rounded-xl p-6 shadow-sm mb-4 items-center">
+            <Ionicons name="storefront-outline" size={32} color="#9CA3AF" />
+            <Text className="text-gray-500 text-center mt-2">
+              {stageFilter ? 'No prospects in this stage' : 'Mark a visit without a client to start a prospect'}
+            </Text>
+          </View>
+        ) : (
+          visibleProspects.map(prospect => {
+            const visitCount = getVisitCount(prospect.id);
+            const actionDue = isProspectActionDue(prospect);
+            return (
+              <TouchableOpacity
+                key={prospect.id}
+                className={`bg-white rounded-xl p-6 shadow-sm mb-4 ${isProspectOpen(prospect) ? '' : 'opacity-60'}`}
+                onPress={() => router.push(`/prospects/${prospect.id}`)}
+              >
+                <View className="flex-row items-start justify-between mb-2">
+                  <Text className="text-lg font-semibold text-gray-900 flex-1 mr-3" numberOfLines={1}>
+                    {prospect.business_name}
+                  </Text>
+                  <ProspectStageBadge stage={prospect.stage} />
+                </View>
+                {!!prospect.address && (
+                  <View className="flex-row items-center mb-1">
+                    <Ionicons name="location-outline" size={14} color="#9CA3AF" />
+                    <Text className="text-gray-500 text-sm ml-1 flex-1" numberOfLines={1}>{prospect.address}</Text>
+                  </View>
+                )}
+                {!!prospect.contact_name && (
+                  <View className="flex-row items-center mb-1">
+                    <Ionicons name="person-outline" size={14} color="#9CA3AF" />
+                    <Text className="text-gray-500 text-sm ml-1">{prospect.contact_name}</Text>
+                  </View>
+                )}
+                <View className="flex-row items-center justify-between mt-2">
+                  <Text className="text-xs text-gray-400">
+                    {visitCount} {visitCount === 1 ? 'visit' : 'visits'}
+                    {prospect.last_visited_at ? ` · last ${new Date(prospect.last_visited_at).toLocaleDateString()}` : ''}
+                  </Text>
+                  {isProspectOpen(prospect) && !!prospect.next_action_date && (
+                    <Text className={`text-xs font-medium ${actionDue ? 'text-red-600' : 'text-gray-500'}`}>
+                      Next action: {formatNextAction(prospect.next_action_date)}
+                    </Text>
+                  )}
+                </View>
+              </TouchableOpacity>
+            );
+          })
+        )}
+      </ScrollView>
+
+      <ProspectFormModal
+        visible={showFormModal}
+        title="New Prospect"
+        initialValues={getEmptyProspectForm()}
+        onClose={() => setShowFormModal(false)}
+        onSubmit={handleCreate}
+      />
+    </SafeAreaView>
+  );
+}
@@ -0,0 +1,202 @@
+import { useState } from 'react';
+import { View, Text, TouchableOpacity, ScrollView, ActivityIndicator } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import { SyncQueueItem } from '../../src/types';
+import { useSyncQueue } from '../../src/hooks/useSyncQueue';
+import { Button } from '../../src/components';
+import { ConfirmDialog } from '../../src/components/ConfirmDialog';
+import {
+  MAX_SYNC_ATTEMPTS,
+  getSyncItemTitle,
+  getSyncKindOption,
+  getSyncStatusOption,
+} from '../../src/utils/syncQueue';
+
+export default function SyncStatusScreen() {
+  const {
+    items,
+    loading,
+    syncing,
+    online,
+    lastCheckedAt,
+    attentionCount,
+    syncNow,
+    retryItem,
+    resolveConflict,
+    discardItem,
+  } = useSyncQueue();
+
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [discardConfirm, setDiscardConfirm] = useState<SyncQueueItem | null>(null);
+
+  const runItemAction = async (item: SyncQueueItem, action: (id: string) => Promise<unknown>) => {
+    setBusyId(item.id);
+    try {
+      await action(item.id);
+    } catch (error) {
+      // Error already handled in hook
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDiscard = async (item: SyncQueueItem) => {
+    setDiscardConfirm(null);
+    await runItemAction(item, discardItem);
+  };
+
+  const connection = online === null
+    ? { icon: 'cloud-outline' as const, color: '#6B7280', label: 'Not checked yet' }
+    : online
+      ? { icon: 'cloud-done-outline' as const, color: '#10B981', label: 'Connected' }
+      : { icon: 'cloud-offline-outline' as const, color: '#EF4444', label: 'Offline' };
+
+  if (loading) {
+    return (
+      <SafeAreaView className="flex-1 bg-gray-50">
+        <View className="flex-1 justify-center items-center">
+          <ActivityIndicator size="large" color="#00D4AA" />
+          <Text className="text-gray-600 mt-4">Loading sync queue...</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView className="flex-1 bg-gray-50">
+      <ScrollView className="px-6 py-4">
+        {/* Header with Back Button */}
+        <TouchableOpacity
+          className="flex-row items-center mb-6"
+          onPress={() => router.back()}
+        >
+          <Ionicons name="arrow-back" size={24} color="#00D4AA" />
+          <Text className="text-primary text-lg ml-2">Back</Text>
+        </TouchableOpacity>
+
+        <View className="flex-row items-center justify-between mb-2">
+          <Text className="text-2xl font-bold text-gray-900">Sync Status</Text>
+          <Button size="sm" icon="sync-outline" onPress={syncNow} loading={syncing} disabled={syncing}>
+            Sync Now
+          </Button>
+        </View>
+        <Text className="text-sm text-gray-500 mb-6">
+          Visits, notes and in-person signups saved without a connection wait here and are sent in the order they were captured once Supabase can be reached.
+        </Text>
+
+        {/* Connection */}
+        <View className="bg-white rounded-xl p-6 shadow-sm mb-6">
+          <View className="flex-row items-center">
+            <Ionicons name={connection.icon} size={28} color={connection.color} />
+            <View className="ml-3 flex-1">
+              <Text className="text-lg font-semibold text-gray-900">{connection.label}</Text>
+              <Text className="text-sm text-gray-500">
+                {lastCheckedAt ? `Checked ${new Date(lastCheckedAt).toLocaleTimeString()}` : 'Checked automatically while items are waiting'}
+              </Text>
+            </View>
+          </View>
+          <View className="flex-row justify-between py-2 border-b border-gray-100 mt-4">
+            <Text className="text-gray-600">Waiting to sync</Text>
+            <Text className="font-medium text-gray-900">{items.length}</Text>
+          </View>
+          <View className="flex-row justify-between py-2">
+            <Text className="text-gray-600">Need attention</Text>
+            <Text className={`font-medium ${attentionCount > 0 ? 'text-red-600' : 'text-gray-900'}`}>{attentionCount}</Text>
+          </View>
+        </View>
+
+        {items.length === 0 ? (
+          <View className="bg-white rounded-xl p-6 shadow-sm mb-4 items-center">
+            <Ionicons name="checkmark-circle-outline" size={32} color="#10B981" />
+            <Text className="text-gray-500 text-center mt-2">Everything is synced</Text>
+          </View>
+        ) : (
+          items.map((item, index) => {
+            const kind = getSyncKindOption(item.kind);
+            const status = getSyncStatusOption(item.status);
+            const stalled = item.status === 'failed' && item.attempts >= MAX_SYNC_ATTEMPTS;
+
+            return (
+              <View key={item.id} className="bg-white rounded-xl p-6 shadow-sm mb-4">
+                <View className="flex-row items-start mb-3">
+                  <View className="bg-gray-100 w-10 h-10 rounded-lg items-center justify-center mr-3">
+                    <Ionicons name={kind.icon} size={20} color="#374151" />
+                  </View>
+                  <View className="flex-1">
+                    <Text className="text-lg font-semibold text-gray-900" numberOfLines={1}>{getSyncItemTitle(item)}</Text>
+                    <Text className="text-sm text-gray-500">
+                      #{index + 1} · {kind.label} · Captured {new Date(item.created_at).toLocaleString()}
+                    </Text>
+                  </View>
+                  {busyId === item.id ? (
+                    <ActivityIndicator color="#00D4AA" />
+                  ) : (
+                    <View className="flex-row items-center px-2 py-1 rounded-full" style={{ backgroundColor: `${status.color}20` }}>
+                      <Ionicons name={status.icon} size={12} color={status.color} />
+                      <Text className="text-xs font-medium ml-1" style={{ color: status.color }}>{status.label}</Text>
+                    </View>
+                  )}
+                </View>
+
+                {item.status === 'conflict' && item.conflict ? (
+                  <Text className="text-sm text-purple-700 mb-3">{item.conflict.reason}</Text>
+                ) : item.last_error ? (
+                  <Text className="text-sm text-red-600 mb-3">
+                    {item.last_error}
+                    {item.attempts > 0 ? ` (${item.attempts} ${item.attempts === 1 ? 'attempt' : 'attempts'}${stalled ? ', retry manually' : ''})` : ''}
+                  </Text>
+                ) : null}
+
+                <View className="flex-row space-x-3">
+                  {item.status === 'conflict' && item.conflict?.resolution && (
+                    <TouchableOpacity
+                      className="flex-1 flex-row items-center justify-center py-2 rounded-lg bg-gray-100"
+                      onPress={() => runItemAction(item, resolveConflict)}
+                      disabled={busyId === item.id}
+                    >
+                      <Ionicons name="git-merge-outline" size={16} color="#374151" />
+                      <Text className="text-gray-700 font-medium ml-1">{item.conflict.resolution.label}</Text>
+                    </TouchableOpacity>
+                  )}
+                  {item.status === 'failed' && (
+                    <TouchableOpacity
+                      className="flex-1 flex-row items-center justify-center py-2 rounded-lg bg-gray-100"
+                      onPress={() => runItemAction(item, retryItem)}
+                      disabled={busyId === item.id}
+                    >
+                      <Ionicons name="refresh-outline" size={16} color="#374151" />
+                      <Text className="text-gray-700 font-medium ml-1">Retry</Text>
+                    </TouchableOpacity>
+                  )}
+                  <TouchableOpacity
+                    className="flex-1 flex-row items-center justify-center py-2 rounded-lg bg-red-50"
+                    onPress={() => setDiscardConfirm(item)}
+                    disabled={busyId === item.id}
+                  >
+                    <Ionicons name="close-circle-outline" size={16} color="#DC2626" />
+                    <Text className="text-red-600 font-medium ml-1">Discard</Text>
+                  </TouchableOpacity>
+                </View>
+              </View>
+            );
+          })
+        )}
+      </ScrollView>
+
+      <ConfirmDialog
+        visible={!!discardConfirm}
+        title="Discard Item"
+        message={`Discard ${discardConfirm ? getSyncItemTitle(discardConfirm) : ''}? It was never saved to the server, so it will be lost.${
+          discardConfirm?.kind === 'signup' ? ' The in-person signup itself is kept and can be converted again.' : ''
+        }`}
+        confirmText="Discard"
+        onConfirm={() => discardConfirm && handleDiscard(discardConfirm)}
+        onCancel={() => setDiscardConfirm(null)}
+        icon="trash"
+        destructive
+      />
+    </SafeAreaView>
+  );
+}
@@ -0,0 +1,207 @@
+import { useState } from 'react';
+import { View, Text, TouchableOpacity, ScrollView, ActivityIndicator, RefreshControl, Alert } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import { Task, TaskFormData } from '../../src/types';
+import { useTasks } from '../../src/hooks/useTasks';
+import { useClients } from '../../src/hooks/useClients';
+import { useBusinessVisits } from '../../src/hooks/useBusinessVisits';
+import { usePayments } from '../../src/hooks/usePayments';
+import { Button, TaskFormModal, TaskRow } from '../../src/components';
+import { getEmptyTaskForm, getFollowUpSuggestions, getTaskFormData, groupTasksForToday, UPCOMING_TASK_DAYS } from '../../src/utils/tasks';
+
+// Suggested follow-ups shown before "Show all"
+const SUGGESTION_PREVIEW_COUNT = 5;
+
+export default function TodayScreen() {
+  const { tasks, myTasks, loading, currentUserEmail, createTask, updateTask, setTaskDone, deleteTask, refetch } = useTasks();
+  const { clients } = useClients();
+  const { visits } = useBusinessVisits();
+  const { payments } = usePayments();
+
+  const [refreshing, setRefreshing] = useState(false);
+  const [showEveryone, setShowEveryone] = useState(false);
+  const [showAllSuggestions, setShowAllSuggestions] = useState(false);
+  const [editingTask, setEditingTask] = useState<Task | null>(null);
+  const [formValues, setFormValues] = useState<TaskFormData | null>(null);
+
+  const { overdue, today, upcoming } = groupTasksForToday(showEveryone ? tasks : myTasks);
+  const suggestions = getFollowUpSuggestions(clients, visits, tasks);
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    try {
+      await refetch();
+    } catch (error) {
+      // Error already handled in hook
+    }
+    setRefreshing(false);
+  };
+
+  const openNewTask = (defaults: Partial<TaskFormData> = {}) => {
+    setEditingTask(null);
+    setFormValues(getEmptyTaskForm({ assignee_email: currentUserEmail || '', ...defaults }));
+  };
+
+  const openEditTask = (task: Task) => {
+    setEditingTask(task);
+    setFormValues(getTaskFormData(task));
+  };
+
+  const handleSubmit = async (formData: TaskFormData) => {
+    if (editingTask) {
+      await updateTask(editingTask.id, formData);
+    } else {
+      await createTask(formData);
+    }
+  };
+
+  const handleToggleDone = async (task: Task) => {
+    try {
+      await setTaskDone(task.id, !task.done);
+    } catch (error) {
+      // Error already handled in hook
+    }
+  };
+
+  const handleTaskMenu = (task: Task) => {
+    Alert.alert(task.title, undefined, [
+      ...(task.client_id ? [{ text: 'Open Client', onPress: () => router.push(`/client/${task.client_id}`) }] : []),
+      { text: 'Edit', onPress: () => openEditTask(task) },
+      {
+        text: 'Delete',
+        style: 'destructive' as const,
+        onPress: async () => {
+          try {
+            await deleteTask(task.id);
+          } catch (error) {
+            // Error already handled in hook
+          }
+        },
+      },
+      { text: 'Cancel', style: 'cancel' as const },
+    ]);
+  };
+
+  const renderSection = (title: string, sectionTasks: Task[], emptyText: string, titleColor = 'text-gray-900') => (
+    <View className="bg-white rounded-xl p-6 shadow-sm mb-6">
+      <View className="flex-row items-center justify-between mb-2">
+        <Text className={`text-lg font-semibold ${titleColor}`}>{title}</Text>
+        <Text className="text-gray-500 text-sm">{sectionTasks.length}</Text>
+      </View>
+      {sectionTasks.length === 0 ? (
+        <Text className="text-gray-500 text-center py-4">{emptyText}</Text>
+      ) : (
+        sectionTasks.map(task => (
+          <TaskRow
+            key={task.id}
+            task={task}
+            showClient
+            onToggleDone={handleToggleDone}
+            onPress={openEditTask}
+            onLongPress={handleTaskMenu}
+          />
+        ))
+      )}
+    </View>
+  );
+
+  if (loading && !refreshing) {
+    return (
+      <SafeAreaView className="flex-1 bg-gray-50">
+        <View className="flex-1 justify-center items-center">
+          <ActivityIndicator size="large" color="#00D4AA" />
+          <Text className="text-gray-600 mt-4">Loading tasks...</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView className="flex-1 bg-gray-50">
+      <ScrollView
+        className="px-6 py-4"
+        refreshControl={
+          <RefreshControl refreshing={refreshing} onRefresh={onRefresh} colors={['#00D4AA']} tintColor="#00D4AA" />
+        }
+      >
+        <TouchableOpacity className="flex-row items-center mb-6" onPress={() => router.back()}>
+          <Ionicons name="arrow-back" size={24} color="#00D4AA" />
+          <Text className="text-primary text-lg ml-2">Back</Text>
+        </TouchableOpacity>
+
+        <View className="flex-row items-center justify-between mb-4">
+          <Text className="text-2xl font-bold text-gray-900">Today</Text>
+          <Button size="sm" icon="add" onPress={() => openNewTask()}>
+            Add Task
+          </Button>
+        </View>
+
+        <View className="flex-row space-x-2 mb-6">
+          {[false, true].map(everyone => (
+            <TouchableOpacity
+              key={String(everyone)}
+              className={`px-4 py-2 rounded-lg border ${showEveryone === everyone ? 'bg-primary border-primary' : 'border-gray-300'}`}
+              onPress={() => setShowEveryone(everyone)}
+            >
+              <Text className={showEveryone === everyone ? 'text-white' : 'text-gray-700'}>
+                {everyone ? 'Everyone' : 'My Tasks'}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        {overdue.length > 0 && renderSection('Overdue', overdue, '', 'text-red-600')}
+        {renderSection('Due Today', today, 'Nothing due today')}
+        {renderSection(`Next ${UPCOMING_TASK_DAYS} Days`, upcoming, 'Nothing coming up')}
+
+        {/* Clients from getClientsNeedingAttention that nobody is following up yet */}
+        {suggestions.length > 0 && (
+          <View className="bg-white rounded-xl p-6 shadow-sm mb-12">
+            <Text className="text-lg font-semibold text-gray-900 mb-1">Suggested Follow-ups</Text>
+            <Text className="text-sm text-gray-500 mb-2">Active clients without a recent visit or an open task</Text>
+            {(showAllSuggestions ? suggestions : suggestions.slice(0, SUGGESTION_PREVIEW_COUNT)).map(({ client, daysSinceVisit, lastVisit }) => (
+              <View key={client.id} className="flex-row items-center justify-between py-3 border-b border-gray-100">
+                <TouchableOpacity className="flex-1" onPress={() => router.push(`/client/${client.id}`)}>
+                  <Text className="font-medium text-gray-900">{client.name}</Text>
+                  <Text className="text-gray-500 text-sm">
+                    {lastVisit ? `Last visit ${daysSinceVisit} days ago` : `No visits in ${daysSinceVisit} days`}
+                  </Text>
+                </TouchableOpacity>
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  icon="add"
+                  onPress={() => openNewTask({ title: `Follow up with ${client.name}`, client_id: client.id })}
+                >
+                  Task
+                </Button>
+              </View>
+            ))}
+            {suggestions.length > SUGGESTION_PREVIEW_COUNT && (
+              <TouchableOpacity onPress={() => setShowAllSuggestions(!showAllSuggestions)}>
+                <Text className="text-primary text-center font-medium mt-3">
+                  {showAllSuggestions ? 'Show less' : `Show all ${suggestions.length} clients`}
+                </Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        )}
+      </ScrollView>
+
+      {formValues && (
+        <TaskFormModal
+          visible={!!formValues}
+          title={editingTask ? 'Edit Task' : 'New Task'}
+          initialValues={formValues}
+          clients={clients}
+          visits={visits}
+          payments={payments}
+          onClose={() => setFormValues(null)}
+          onSubmit={handleSubmit}
+        />
+      )}
+    </SafeAreaView>
+  );
+}
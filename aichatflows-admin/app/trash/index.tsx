@@ -0,0 +1,234 @@
+import { useState } from 'react';
+import { View, Text, TouchableOpacity, ScrollView, ActivityIndicator, Alert, RefreshControl } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import { Payment, TrashItem } from '../../src/types';
+import { useTrash } from '../../src/hooks/useTrash';
+import { useClients } from '../../src/hooks/useClients';
+import { usePayments } from '../../src/hooks/usePayments';
+import { useBusinessVisits } from '../../src/hooks/useBusinessVisits';
+import { useGoals } from '../../src/hooks/useGoals';
+import { useInvoices } from '../../src/hooks/useInvoices';
+import { Button } from '../../src/components';
+import { ConfirmDialog } from '../../src/components/ConfirmDialog';
+import { TRASH_TYPES, getTrashTypeIcon, getTrashTypeLabel } from '../../src/utils/trash';
+import { describeBulkResult, runBulkAction } from '../../src/utils/bulk';
+
+export default function TrashScreen() {
+  const { items, loading, purgeItem, refetchSilent } = useTrash();
+  const { restoreClient } = useClients();
+  const { restorePayment } = usePayments();
+  const { restoreVisit } = useBusinessVisits();
+  const { restoreGoal } = useGoals();
+  const { refreshInvoiceStatuses } = useInvoices();
+
+  const [typeFilter, setTypeFilter] = useState<TrashItem['type'] | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [purgeConfirm, setPurgeConfirm] = useState<TrashItem | null>(null);
+  const [showEmptyConfirm, setShowEmptyConfirm] = useState(false);
+  const [emptying, setEmptying] = useState(false);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const visibleItems = typeFilter ? items.filter(item => item.type === typeFilter) : items;
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    try {
+      await refetchSilent();
+    } catch (error) {
+      // Error already handled in hook
+    } finally {
+      setRefreshing(false);
+    }
+  };
+
+  const handleRestore = async (item: TrashItem) => {
+    setBusyId(item.id);
+    try {
+      switch (item.type) {
+        case 'client':
+          await restoreClient(item.id);
+          break;
+        case 'payment': {
+          const payments = await restorePayment(item.id);
+          // The payment counts towards its invoices again
+          if (item.invoice_ids && payments) {
+            await refreshInvoiceStatuses(item.invoice_ids, payments as unknown as Payment[]);
+          }
+          break;
+        }
+        case 'visit':
+          await restoreVisit(item.id);
+          break;
+        case 'goal':
+          await restoreGoal(item.id);
+          break;
+      }
+      await refetchSilent();
+    } catch (error) {
+      // Error already handled in hook
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handlePurge = async (item: TrashItem) => {
+    setPurgeConfirm(null);
+    setBusyId(item.id);
+    try {
+      await purgeItem(item);
+    } catch (error) {
+      // Error already handled in hook
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleEmptyTrash = async () => {
+    setShowEmptyConfirm(false);
+    setEmptying(true);
+    const result = await runBulkAction(items, (item) => purgeItem(item, false));
+    setEmptying(false);
+
+    if (result.failed.length > 0) {
+      Alert.alert(
+        'Trash Emptied',
+        `${describeBulkResult(result, 'item', 'deleted')}.\n\n${result.failed
+          .map(failure => `${failure.item.title}: ${failure.error}`)
+          .join('\n')}`
+      );
+    }
+  };
+
+  if (loading) {
+    return (
+      <SafeAreaView className="flex-1 bg-gray-50">
+        <View className="flex-1 justify-center items-center">
+          <ActivityIndicator size="large" color="#00D4AA" />
+          <Text className="text-gray-600 mt-4">Loading trash...</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView className="flex-1 bg-gray-50">
+      <ScrollView
+        className="px-6 py-4"
+        refreshControl={
+          <RefreshControl refreshing={refreshing} onRefresh={onRefresh} colors={['#00D4AA']} tintColor="#00D4AA" />
+        }
+      >
+        {/* Header with Back Button */}
+        <TouchableOpacity
+          className="flex-row items-center mb-6"
+          onPress={() => router.back()}
+        >
+          <Ionicons name="arrow-back" size={24} color="#00D4AA" />
+          <Text className="text-primary text-lg ml-2">Back to Settings</Text>
+        </TouchableOpacity>
+
+        <View className="flex-row items-center justify-between mb-2">
+          <Text className="text-2xl font-bold text-gray-900">Trash</Text>
+          {items.length > 0 && (
+            <Button variant="danger" size="sm" icon="trash-outline" onPress={() => setShowEmptyConfirm(true)} loading={emptying}>
+              Empty Trash
+            </Button>
+          )}
+        </View>
+        <Text className="text-sm text-gray-500 mb-6">
+          Deleted clients, payments, visits and goals stay here until you restore them or delete them permanently. A client&apos;s payments, visits and goals are restored with it.
+        </Text>
+
+        <View className="flex-row flex-wrap gap-2 mb-6">
+          {[{ value: null, label: 'All' }, ...TRASH_TYPES].map(option => (
+            <TouchableOpacity
+              key={option.label}
+              className={`px-3 py-2 rounded-lg border ${
+                typeFilter === option.value ? 'bg-primary border-primary' : 'bg-white border-gray-300'
+              }`}
+              onPress={() => setTypeFilter(option.value)}
+            >
+              <Text className={`font-medium ${typeFilter === option.value ? 'text-white' : 'text-gray-700'}`}>
+                {option.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        {visibleItems.length === 0 ? (
+          <View className="bg-white rounded-xl p-6 shadow-sm mb-4 items-center">
+            <Ionicons name="trash-outline" size={32} color="#9CA3AF" />
+            <Text className="text-gray-500 text-center mt-2">The Trash is empty</Text>
+          </View>
+        ) : (
+          visibleItems.map(item => (
+            <View key={`${item.type}-${item.id}`} className="bg-white rounded-xl p-6 shadow-sm mb-4">
+              <View className="flex-row items-start mb-3">
+                <View className="bg-gray-100 w-10 h-10 rounded-lg items-center justify-center mr-3">
+                  <Ionicons name={getTrashTypeIcon(item.type)} size={20} color="#374151" />
+                </View>
+                <View className="flex-1">
+                  <Text className="text-lg font-semibold text-gray-900" numberOfLines={1}>{item.title}</Text>
+                  <Text className="text-sm text-gray-500">
+                    {getTrashTypeLabel(item.type)}
+                    {item.subtitle ? ` · ${item.subtitle}` : ''}
+                  </Text>
+                  <Text className="text-xs text-gray-400 mt-1">
+                    Deleted {new Date(item.deleted_at).toLocaleString()}
+                    {item.related_count ? ` · with ${item.related_count} related ${item.related_count === 1 ? 'record' : 'records'}` : ''}
+                  </Text>
+                </View>
+                {busyId === item.id && <ActivityIndicator color="#00D4AA" />}
+              </View>
+
+              <View className="flex-row space-x-3">
+                <TouchableOpacity
+                  className="flex-1 flex-row items-center justify-center py-2 rounded-lg bg-gray-100"
+                  onPress={() => handleRestore(item)}
+                  disabled={busyId === item.id}
+                >
+                  <Ionicons name="arrow-undo-outline" size={16} color="#374151" />
+                  <Text className="text-gray-700 font-medium ml-1">Restore</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  className="flex-1 flex-row items-center justify-center py-2 rounded-lg bg-red-50"
+                  onPress={() => setPurgeConfirm(item)}
+                  disabled={busyId === item.id}
+                >
+                  <Ionicons name="close-circle-outline" size={16} color="#DC2626" />
+                  <Text className="text-red-600 font-medium ml-1">Delete Forever</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          ))
+        )}
+      </ScrollView>
+
+      <ConfirmDialog
+        visible={!!purgeConfirm}
+        title="Delete Permanently"
+        message={`Permanently delete ${purgeConfirm?.title}?${
+          purgeConfirm?.type === 'client' ? ' Its payments, visits, notes, tasks and attachments are deleted too.' : ''
+        } This action cannot be undone.`}
+        confirmText="Delete Forever"
+        onConfirm={() => purgeConfirm && handlePurge(purgeConfirm)}
+        onCancel={() => setPurgeConfirm(null)}
+        icon="trash"
+        destructive
+      />
+
+      <ConfirmDialog
+        visible={showEmptyConfirm}
+        title="Empty Trash"
+        message={`Permanently delete all ${items.length} ${items.length === 1 ? 'item' : 'items'} in the Trash? This action cannot be undone.`}
+        confirmText="Empty Trash"
+        onConfirm={handleEmptyTrash}
+        onCancel={() => setShowEmptyConfirm(false)}
+        icon="trash"
+        destructive
+      />
+    </SafeAreaView>
+  );
+}
@@ -0,0 +1,119 @@
+import { View, Text, TouchableOpacity, ScrollView, ActivityIndicator } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { router, useLocalSearchParams } from 'expo-router';
+import { useBusinessVisits } from '../../src/hooks/useBusinessVisits';
+import { useClients } from '../../src/hooks/useClients';
+import { useProspects } from '../../src/hooks/useProspects';
+import { NotesThread } from '../../src/components';
+import { DEFAULT_VISIT_NAME, formatVisitAddress, getVisitCoordinates, getVisitLocationFields } from '../../src/utils/visitLocation';
+
+export default function VisitDetailsScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { visits, loading } = useBusinessVisits();
+  const { clients } = useClients();
+  const { prospects } = useProspects();
+
+  const visit = visits.find(v => v.id === id);
+  const client = visit?.client_id ? clients.find(c => c.id === visit.client_id) : undefined;
+  const prospect = visit?.prospect_id ? prospects.find(p => p.id === visit.prospect_id) : undefined;
+  const visitedAt = visit ? visit.created_at || visit.timestamp : undefined;
+  const locationFields = visit ? getVisitLocationFields(visit) : undefined;
+  const coordinates = visit ? getVisitCoordinates(visit) : null;
+
+  if (loading) {
+    return (
+      <SafeAreaView className="flex-1 bg-gray-50">
+        <View className="flex-1 justify-center items-center">
+          <ActivityIndicator size="large" color="#00D4AA" />
+          <Text className="text-gray-600 mt-4">Loading visit details...</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  if (!visit) {
+    return (
+      <SafeAreaView className="flex-1 bg-gray-50">
+        <View className="flex-1 justify-center items-center px-6">
+          <Ionicons name="alert-circle" size={64} color="#FF3B30" />
+          <Text className="text-gray-900 text-lg font-semibold mt-4">Visit Not Found</Text>
+          <Text className="text-gray-600 text-center mt-2">The requested visit could not be found.</Text>
+          <TouchableOpacity
+            className="bg-primary rounded-lg px-6 py-3 mt-4"
+            onPress={() => router.back()}
+          >
+            <Text className="text-white font-semibold">Go Back</Text>
+          </TouchableOpacity>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView className="flex-1 bg-gray-50">
+      <ScrollView className="px-6 py-4">
+        {/* Header with Back Button */}
+        <TouchableOpacity
+          className="flex-row items-center mb-6"
+          onPress={() => router.back()}
+        >
+          <Ionicons name="arrow-back" size={24} color="#00D4AA" />
+          <Text className="text-primary text-lg ml-2">Back to Visits</Text>
+        </TouchableOpacity>
+
+        {/* Visit Details */}
+        <View className="bg-white rounded-xl p-6 shadow-sm mb-6">
+          <View className="flex-row items-start mb-4">
+            <View className="bg-green-100 p-3 rounded-full mr-4">
+              <Ionicons name="location" size={24} color="#34C759" />
+            </View>
+            <View className="flex-1">
+              <Text className="text-xl font-bold text-gray-900 mb-1">{locationFields?.business_name || DEFAULT_VISIT_NAME}</Text>
+              <Text className="text-gray-600">{(locationFields && formatVisitAddress(locationFields)) || 'Unknown Location'}</Text>
+            </View>
+          </View>
+
+          {!!visitedAt && (
+            <View className="flex-row justify-between py-2 border-b border-gray-100">
+              <Text className="text-gray-600">Visited</Text>
+              <Text className="text-gray-900 font-medium">{new Date(visitedAt).toLocaleString()}</Text>
+            </View>
+          )}
+          {!!locationFields?.city && (
+            <View className="flex-row justify-between py-2 border-b border-gray-100">
+              <Text className="text-gray-600">City</Text>
+              <Text className="text-gray-900 font-medium">{locationFields.city}</Text>
+            </View>
+          )}
+          {coordinates && (
+            <View className="flex-row justify-between py-2 border-b border-gray-100">
+              <Text className="text-gray-600">Coordinates</Text>
+              <Text className="text-gray-900 font-medium">{coordinates.latitude.toFixed(4)}, {coordinates.longitude.toFixed(4)}</Text>
+            </View>
+          )}
+          <TouchableOpacity
+            className="flex-row justify-between items-center py-2"
+            onPress={() => client && router.push(`/client/${client.id}`)}
+            disabled={!client}
+          >
+            <Text className="text-gray-600">Client</Text>
+            <Text className={client ? 'text-primary font-medium' : 'text-gray-500'}>{client ? client.name : 'Not assigned'}</Text>
+          </TouchableOpacity>
+          {prospect && (
+            <TouchableOpacity
+              className="flex-row justify-between items-center py-2 border-t border-gray-100"
+              onPress={() => router.push(`/prospects/${prospect.id}`)}
+            >
+              <Text className="text-gray-600">Prospect</Text>
+              <Text className="text-primary font-medium">{prospect.business_name}</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+
+        {/* Notes */}
+        <NotesThread entityType="visit" entityId={visit.id} />
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
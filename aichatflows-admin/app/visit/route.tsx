@@ -0,0 +1,303 @@
+import { useEffect, useMemo, useState } from 'react';
+import { View, Text, TouchableOpacity, ScrollView, ActivityIndicator } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import MapView, { Marker, Polyline } from 'react-native-maps';
+import * as Location from 'expo-location';
+import { useBusinessVisits } from '../../src/hooks/useBusinessVisits';
+import { useClients } from '../../src/hooks/useClients';
+import { useProspects } from '../../src/hooks/useProspects';
+import { useTasks } from '../../src/hooks/useTasks';
+import { Button } from '../../src/components';
+import { Coordinates, formatDistance, getDistanceMeters } from '../../src/utils/geo';
+import {
+  ARRIVAL_RADIUS_METERS,
+  ROUTE_STOP_KINDS,
+  RouteStop,
+  getRouteDistance,
+  getRouteStopColor,
+  getRouteStopIcon,
+  getRouteStops,
+  planRoute,
+} from '../../src/utils/routePlanner';
+
+export default function RoutePlannerScreen() {
+  const { visits, loading: visitsLoading, markVisit, isMarkingVisit } = useBusinessVisits();
+  const { clients } = useClients();
+  const { prospects, loading: prospectsLoading } = useProspects();
+  const { tasks } = useTasks();
+
+  const [position, setPosition] = useState<Coordinates | null>(null);
+  const [locationDenied, setLocationDenied] = useState(false);
+  // Where the route is planned from; only moves when the user re-plans, so the order doesn't shuffle while walking
+  const [routeStart, setRouteStart] = useState<Coordinates | null>(null);
+  const [selectedStopIds, setSelectedStopIds] = useState<string[]>([]);
+  const [visitedStopIds, setVisitedStopIds] = useState<string[]>([]);
+
+  // Follow the user's position for the next stop card
+  useEffect(() => {
+    let subscription: Location.LocationSubscription | null = null;
+    let cancelled = false;
+
+    const watchPosition = async () => {
+      try {
+        const { status } = await Location.requestForegroundPermissionsAsync();
+        if (status !== 'granted') {
+          setLocationDenied(true);
+          return;
+        }
+        const watcher = await Location.watchPositionAsync(
+          { accuracy: Location.Accuracy.High, distanceInterval: 10 },
+          location => {
+            const coordinates = { latitude: location.coords.latitude, longitude: location.coords.longitude };
+            setPosition(coordinates);
+            setRouteStart(prev => prev || coordinates);
+          }
+        );
+        if (cancelled) {
+          watcher.remove();
+        } else {
+          subscription = watcher;
+        }
+      } catch (error) {
+        console.log('Error watching location:', error);
+        setLocationDenied(true);
+      }
+    };
+
+    watchPosition();
+    return () => {
+      cancelled = true;
+      subscription?.remove();
+    };
+  }, []);
+
+  const availableStops = useMemo(
+    () => getRouteStops(prospects, tasks, clients, visits),
+    [prospects, tasks, clients, visits]
+  );
+
+  const route = useMemo(() => {
+    const selected = availableStops.filter(stop => selectedStopIds.includes(stop.id) && !visitedStopIds.includes(stop.id));
+    return planRoute(routeStart, selected);
+  }, [availableStops, selectedStopIds, visitedStopIds, routeStart]);
+
+  const nextStop = route[0];
+  const distanceToNext = nextStop && position ? getDistanceMeters(position, nextStop.coordinates) : null;
+  const hasArrived = distanceToNext !== null && distanceToNext <= ARRIVAL_RADIUS_METERS;
+  const routeDistance = getRouteDistance(routeStart, route);
+
+  // Framed around the route rather than the live position so the map doesn't jump while moving
+  const mapRegion = useMemo(() => {
+    const points = [...(routeStart ? [routeStart] : []), ...route.map(stop => stop.coordinates)];
+    if (points.length === 0) return undefined;
+    const latitudes = points.map(point => point.latitude);
+    const longitudes = points.map(point => point.longitude);
+    return {
+      latitude: (Math.min(...latitudes) + Math.max(...latitudes)) / 2,
+      longitude: (Math.min(...longitudes) + Math.max(...longitudes)) / 2,
+      latitudeDelta: Math.max(0.01, (Math.max(...latitudes) - Math.min(...latitudes)) * 1.4),
+      longitudeDelta: Math.max(0.01, (Math.max(...longitudes) - Math.min(...longitudes)) * 1.4),
+    };
+  }, [routeStart, route]);
+
+  const toggleStop = (stop: RouteStop) => {
+    setSelectedStopIds(prev => prev.includes(stop.id) ? prev.filter(id => id !== stop.id) : [...prev, stop.id]);
+    setVisitedStopIds(prev => prev.filter(id => id !== stop.id));
+  };
+
+  const replanFromHere = () => {
+    if (position) setRouteStart(position);
+  };
+
+  const skipStop = (stop: RouteStop) => {
+    setVisitedStopIds(prev => [...prev, stop.id]);
+  };
+
+  // Logs the visit where the user is standing, linked to the stop's client or prospect
+  const logVisit = async (stop: RouteStop) => {
+    if (!position) return;
+    const result = await markVisit(
+      stop.clientId,
+      stop.businessName,
+      undefined,
+      position,
+      stop.clientId ? undefined : stop.prospectId
+    );
+    if (result) {
+      setVisitedStopIds(prev => [...prev, stop.id]);
+      setRouteStart(position);
+    }
+  };
+
+  if (visitsLoading || prospectsLoading) {
+    return (
+      <SafeAreaView className="flex-1 bg-gray-50">
+        <View className="flex-1 justify-center items-center">
+          <ActivityIndicator size="large" color="#00D4AA" />
+          <Text className="text-gray-600 mt-4">Loading stops...</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView className="flex-1 bg-gray-50">
+      <ScrollView className="px-6 py-4">
+        {/* Header with Back Button */}
+        <TouchableOpacity
+          className="flex-row items-center mb-6"
+          onPress={() => router.back()}
+        >
+          <Ionicons name="arrow-back" size={24} color="#00D4AA" />
+          <Text className="text-primary text-lg ml-2">Back to Visits</Text>
+        </TouchableOpacity>
+
+        <Text className="text-2xl font-bold text-gray-900 mb-2">Route Planner</Text>
+        <Text className="text-sm text-gray-500 mb-6">
+          Pick the prospects and follow-ups to visit. They&apos;re put in the order with the least walking or driving.
+        </Text>
+
+        {/* Map */}
+        <View className="rounded-xl overflow-hidden mb-4 border border-gray-200" style={{ height: 280 }}>
+          <MapView style={{ flex: 1 }} region={mapRegion} showsUserLocation={true} showsMyLocationButton={true}>
+            {route.length > 0 && (
+              <Polyline
+                coordinates={[...(routeStart ? [routeStart] : []), ...route.map(stop => stop.coordinates)]}
+                strokeColor="#00D4AA"
+                strokeWidth={4}
+              />
+            )}
+            {route.map((stop, index) => (
+              <Marker
+                key={stop.id}
+                coordinate={stop.coordinates}
+                title={`${index + 1}. ${stop.label}`}
+                description={stop.detail}
+                pinColor={getRouteStopColor(stop.kind)}
+              />
+            ))}
+          </MapView>
+        </View>
+
+        {locationDenied && (
+          <View className="bg-yellow-50 px-4 py-3 rounded-lg mb-4">
+            <Text className="text-yellow-800 text-sm">
+              Location access is off, so the route starts at the first stop and visits can&apos;t be logged from here.
+            </Text>
+          </View>
+        )}
+
+        {/* Next Stop */}
+        {nextStop ? (
+          <View className="bg-white rounded-xl p-6 shadow-sm mb-4">
+            <View className="flex-row items-center justify-between mb-3">
+              <Text className="text-xs font-medium text-gray-500 uppercase tracking-wide">Next Stop</Text>
+              <Text className="text-xs text-gray-500">
+                {route.length} {route.length === 1 ? 'stop' : 'stops'} · {formatDistance(routeDistance)}
+              </Text>
+            </View>
+            <View className="flex-row items-start mb-4">
+              <View className="p-3 rounded-full mr-4" style={{ backgroundColor: `${getRouteStopColor(nextStop.kind)}1A` }}>
+                <Ionicons name={getRouteStopIcon(nextStop.kind)} size={24} color={getRouteStopColor(nextStop.kind)} />
+              </View>
+              <View className="flex-1">
+                <Text className="text-lg font-semibold text-gray-900">{nextStop.label}</Text>
+                {!!nextStop.detail && <Text className="text-gray-600 text-sm">{nextStop.detail}</Text>}
+                {distanceToNext !== null && (
+                  <Text className={`text-sm font-medium mt-1 ${hasArrived ? 'text-green-600' : 'text-gray-500'}`}>
+                    {hasArrived ? 'You are here' : `${formatDistance(distanceToNext)} away`}
+                  </Text>
+                )}
+              </View>
+            </View>
+            <View className="flex-row gap-3">
+              <View className="flex-1">
+                <Button
+                  icon="checkmark-circle"
+                  onPress={() => logVisit(nextStop)}
+                  loading={isMarkingVisit}
+                  disabled={!hasArrived || isMarkingVisit}
+                  fullWidth
+                >
+                  {hasArrived ? 'Log Visit' : `Within ${ARRIVAL_RADIUS_METERS} m to log`}
+                </Button>
+              </View>
+              <Button variant="secondary" onPress={() => skipStop(nextStop)}>
+                Skip
+              </Button>
+            </View>
+            {!!position && !!routeStart && getDistanceMeters(position, routeStart) > ARRIVAL_RADIUS_METERS && (
+              <TouchableOpacity className="mt-3 items-center" onPress={replanFromHere}>
+                <Text className="text-primary text-sm font-medium">Re-plan from here</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        ) : (
+          <View className="bg-white rounded-xl p-6 shadow-sm mb-4 items-center">
+            <Ionicons name="navigate-outline" size={32} color="#9CA3AF" />
+            <Text className="text-gray-500 text-center mt-2">
+              {selectedStopIds.length > 0 ? 'All stops on this route are done' : 'Select stops below to plan a route'}
+            </Text>
+          </View>
+        )}
+
+        {/* Stops */}
+        {availableStops.length === 0 ? (
+          <View className="bg-white rounded-xl p-6 shadow-sm mb-8">
+            <Text className="text-gray-500 text-center">
+              No prospects or follow-ups with a known location. Stops need a visit logged with GPS first.
+            </Text>
+          </View>
+        ) : (
+          ROUTE_STOP_KINDS.map(kind => {
+            const stops = availableStops.filter(stop => stop.kind === kind.value);
+            if (stops.length === 0) return null;
+            return (
+              <View key={kind.value} className="bg-white rounded-xl p-6 shadow-sm mb-4">
+                <Text className="text-lg font-semibold text-gray-900 mb-2">{kind.label}</Text>
+                {stops.map(stop => {
+                  const selected = selectedStopIds.includes(stop.id);
+                  const visited = visitedStopIds.includes(stop.id);
+                  const routeIndex = route.findIndex(routeStop => routeStop.id === stop.id);
+                  return (
+                    <TouchableOpacity
+                      key={stop.id}
+                      className="flex-row items-center py-3 border-b border-gray-100"
+                      onPress={() => toggleStop(stop)}
+                    >
+                      <Ionicons
+                        name={selected ? 'checkbox' : 'square-outline'}
+                        size={22}
+                        color={selected ? '#00D4AA' : '#9CA3AF'}
+                      />
+                      <View className="flex-1 ml-3">
+                        <Text className={`font-medium ${visited ? 'text-gray-400 line-through' : 'text-gray-900'}`} numberOfLines={1}>
+                          {stop.label}
+                        </Text>
+                        {!!stop.detail && (
+                          <Text className="text-gray-500 text-sm" numberOfLines={1}>{stop.detail}</Text>
+                        )}
+                      </View>
+                      {routeIndex >= 0 && (
+                        <View className="w-6 h-6 rounded-full bg-primary items-center justify-center ml-2">
+                          <Text className="text-white text-xs font-bold">{routeIndex + 1}</Text>
+                        </View>
+                      )}
+                      {!!position && routeIndex < 0 && (
+                        <Text className="text-xs text-gray-400 ml-2">
+                          {formatDistance(getDistanceMeters(position, stop.coordinates))}
+                        </Text>
+                      )}
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            );
+          })
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
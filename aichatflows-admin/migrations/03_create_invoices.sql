@@ -0,0 +1,93 @@
+-- Invoices: one per client per billing period, generated from the client's plan.
+-- Payments settle invoices through payment_allocations, written only by apply_payment(),
+-- so the payment row itself keeps the amount that was actually received.
+
+CREATE TABLE IF NOT EXISTS invoices (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  client_id UUID NOT NULL REFERENCES clients(id) ON DELETE CASCADE,
+  period_start DATE NOT NULL,
+  period_end DATE NOT NULL,
+  due_date DATE NOT NULL,
+  status VARCHAR(10) NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'paid', 'void')),
+  line_items JSONB NOT NULL DEFAULT '[]'::jsonb,
+  total DECIMAL NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (client_id, period_start)
+);
+
+CREATE INDEX IF NOT EXISTS invoices_client_id_idx ON invoices(client_id);
+CREATE INDEX IF NOT EXISTS invoices_status_idx ON invoices(status);
+
+-- Part of a payment applied to an invoice. What's left of the payment after its
+-- allocations is unapplied credit for a later invoice
+CREATE TABLE IF NOT EXISTS payment_allocations (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  payment_id UUID NOT NULL REFERENCES payments(id) ON DELETE CASCADE,
+  invoice_id UUID NOT NULL REFERENCES invoices(id) ON DELETE CASCADE,
+  amount DECIMAL NOT NULL CHECK (amount > 0),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS payment_allocations_payment_id_idx ON payment_allocations(payment_id);
+CREATE INDEX IF NOT EXISTS payment_allocations_invoice_id_idx ON payment_allocations(invoice_id);
+
+-- Apply a payment to one or more invoices: p_allocations is [{ "invoice_id": ..., "amount": ... }].
+-- Every allocation is written or none is, and together with the payment's earlier allocations
+-- they can't add up to more than the payment
+CREATE OR REPLACE FUNCTION apply_payment(p_payment_id UUID, p_allocations JSONB)
+RETURNS SETOF payment_allocations AS $$
+DECLARE
+  payment payments;
+  applied DECIMAL;
+  requested DECIMAL;
+BEGIN
+  -- SECURITY DEFINER bypasses RLS, so check the caller here
+  IF auth.role() IS DISTINCT FROM 'authenticated' THEN
+    RAISE EXCEPTION 'Not allowed to apply payments';
+  END IF;
+
+  -- Lock the payment so two devices applying it at once can't both spend the same amount
+  SELECT * INTO payment FROM payments WHERE id = p_payment_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment not found';
+  END IF;
+  IF payment.status <> 'confirmed' THEN
+    RAISE EXCEPTION 'Only confirmed payments can be applied to invoices';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(p_allocations) AS allocation
+    LEFT JOIN invoices ON invoices.id = (allocation ->> 'invoice_id')::UUID
+    WHERE invoices.id IS NULL
+      OR invoices.client_id IS DISTINCT FROM payment.client_id
+      OR invoices.status = 'void'
+  ) THEN
+    RAISE EXCEPTION 'Payments can only be applied to open invoices of the same client';
+  END IF;
+
+  SELECT COALESCE(SUM(amount), 0) INTO applied FROM payment_allocations WHERE payment_id = p_payment_id;
+  SELECT COALESCE(SUM((allocation ->> 'amount')::DECIMAL), 0) INTO requested
+    FROM jsonb_array_elements(p_allocations) AS allocation;
+  IF applied + requested > payment.amount THEN
+    RAISE EXCEPTION 'The payment has only % left to apply', payment.amount - applied;
+  END IF;
+
+  RETURN QUERY
+    INSERT INTO payment_allocations (payment_id, invoice_id, amount)
+    SELECT p_payment_id, (allocation ->> 'invoice_id')::UUID, (allocation ->> 'amount')::DECIMAL
+    FROM jsonb_array_elements(p_allocations) AS allocation
+    RETURNING *;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+ALTER TABLE invoices ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Authenticated users can manage invoices" ON invoices
+  FOR ALL USING (auth.role() = 'authenticated');
+
+-- Allocations are only created through apply_payment()
+ALTER TABLE payment_allocations ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Authenticated users can read payment allocations" ON payment_allocations
+  FOR SELECT USING (auth.role() = 'authenticated');
+
+NOTIFY pgrst, 'reload schema';
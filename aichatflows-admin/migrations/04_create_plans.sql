@@ -0,0 +1,55 @@
+-- Plan catalog: pricing lives here instead of in the app bundle.
+-- Plans are archived rather than deleted so existing clients keep a valid reference.
+
+CREATE TABLE IF NOT EXISTS plans (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  name VARCHAR(50) NOT NULL UNIQUE,
+  label VARCHAR(100) NOT NULL,
+  price DECIMAL NOT NULL CHECK (price >= 0),
+  billing_interval VARCHAR(10) NOT NULL DEFAULT 'month' CHECK (billing_interval IN ('month', 'year')),
+  features JSONB NOT NULL DEFAULT '[]'::jsonb,
+  platforms TEXT[] NOT NULL DEFAULT ARRAY['instagram', 'facebook', 'tiktok'],
+  requires_payment_method BOOLEAN NOT NULL DEFAULT FALSE,
+  archived BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+INSERT INTO plans (name, label, price, billing_interval, features, platforms, requires_payment_method) VALUES
+  ('starter', 'Starter', 100, 'month', '["Basic AI Chat Flows", "Up to 100 conversations/month", "Email support", "Basic analytics"]'::jsonb, ARRAY['instagram'], FALSE),
+  ('pro', 'Pro', 150, 'month', '["Advanced AI Chat Flows", "Unlimited conversations", "Priority support", "Advanced analytics", "Custom integrations", "Multi-platform support"]'::jsonb, ARRAY['instagram', 'facebook', 'tiktok'], TRUE)
+ON CONFLICT (name) DO NOTHING;
+
+-- clients.plan now references any catalog plan, not just starter/pro
+ALTER TABLE clients DROP CONSTRAINT IF EXISTS clients_plan_check;
+
+-- Price the client signed up at; catalog price changes don't touch existing clients
+ALTER TABLE clients ADD COLUMN IF NOT EXISTS plan_price DECIMAL;
+UPDATE clients c SET plan_price = p.price
+  FROM plans p
+  WHERE c.plan = p.name AND c.plan_price IS NULL;
+
+-- Lock in the catalog price when a client is created or moved to another plan,
+-- unless the app supplied a price explicitly
+CREATE OR REPLACE FUNCTION lock_client_plan_price() RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.plan IS NOT NULL AND (
+    (TG_OP = 'INSERT' AND NEW.plan_price IS NULL) OR
+    (TG_OP = 'UPDATE' AND NEW.plan IS DISTINCT FROM OLD.plan AND NEW.plan_price IS NOT DISTINCT FROM OLD.plan_price)
+  ) THEN
+    SELECT price INTO NEW.plan_price FROM plans WHERE name = NEW.plan;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS clients_lock_plan_price ON clients;
+CREATE TRIGGER clients_lock_plan_price
+  BEFORE INSERT OR UPDATE OF plan ON clients
+  FOR EACH ROW EXECUTE FUNCTION lock_client_plan_price();
+
+ALTER TABLE plans ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Authenticated users can manage plans" ON plans
+  FOR ALL USING (auth.role() = 'authenticated');
+
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,52 @@
+-- Plan change history: one row per plan period, so past MRR can be rebuilt.
+-- The first row for a client (from_plan NULL) is the plan they signed up on.
+
+CREATE TABLE IF NOT EXISTS plan_changes (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  client_id UUID NOT NULL REFERENCES clients(id) ON DELETE CASCADE,
+  from_plan VARCHAR(50),
+  to_plan VARCHAR(50) NOT NULL,
+  from_price DECIMAL,
+  to_price DECIMAL NOT NULL,
+  effective_date DATE NOT NULL,
+  proration_amount DECIMAL NOT NULL DEFAULT 0,
+  payment_id UUID REFERENCES payments(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Descriptive columns for the credit entries plan changes create (and later refunds and credit notes)
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS description TEXT;
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS notes TEXT;
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS payment_method VARCHAR(50);
+
+CREATE INDEX IF NOT EXISTS plan_changes_client_id_idx ON plan_changes(client_id, effective_date);
+
+-- Start every existing client's history at their current plan
+INSERT INTO plan_changes (client_id, to_plan, to_price, effective_date)
+  SELECT c.id, c.plan, COALESCE(c.plan_price, p.price, 0), c.created_at::date
+  FROM clients c
+  LEFT JOIN plans p ON p.name = c.plan
+  WHERE c.plan IS NOT NULL
+    AND NOT EXISTS (SELECT 1 FROM plan_changes pc WHERE pc.client_id = c.id);
+
+-- Record the opening plan period for new clients
+CREATE OR REPLACE FUNCTION record_initial_plan_period() RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.plan IS NOT NULL THEN
+    INSERT INTO plan_changes (client_id, to_plan, to_price, effective_date)
+      VALUES (NEW.id, NEW.plan, COALESCE(NEW.plan_price, 0), COALESCE(NEW.created_at, NOW())::date);
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS clients_record_initial_plan_period ON clients;
+CREATE TRIGGER clients_record_initial_plan_period
+  AFTER INSERT ON clients
+  FOR EACH ROW EXECUTE FUNCTION record_initial_plan_period();
+
+ALTER TABLE plan_changes ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Authenticated users can manage plan changes" ON plan_changes
+  FOR ALL USING (auth.role() = 'authenticated');
+
+NOTIFY pgrst, 'reload schema';
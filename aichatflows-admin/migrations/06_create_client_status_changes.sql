@@ -0,0 +1,49 @@
+-- Client status history, used to rebuild MRR (new, churned, reactivated) month by month.
+-- Rows are written by a trigger so every status change is captured, whichever screen made it.
+
+CREATE TABLE IF NOT EXISTS client_status_changes (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  client_id UUID NOT NULL REFERENCES clients(id) ON DELETE CASCADE,
+  from_status VARCHAR(20),
+  to_status VARCHAR(20) NOT NULL,
+  changed_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS client_status_changes_client_id_idx ON client_status_changes(client_id, changed_at);
+
+-- Best-effort history for existing clients: they started active at signup, and
+-- anyone no longer active changed status at their last update
+INSERT INTO client_status_changes (client_id, from_status, to_status, changed_at)
+  SELECT c.id, NULL, 'active', c.created_at
+  FROM clients c
+  WHERE NOT EXISTS (SELECT 1 FROM client_status_changes sc WHERE sc.client_id = c.id);
+
+INSERT INTO client_status_changes (client_id, from_status, to_status, changed_at)
+  SELECT c.id, 'active', c.status, COALESCE(c.updated_at, c.created_at)
+  FROM clients c
+  WHERE c.status <> 'active'
+    AND NOT EXISTS (SELECT 1 FROM client_status_changes sc WHERE sc.client_id = c.id AND sc.from_status IS NOT NULL);
+
+CREATE OR REPLACE FUNCTION record_client_status_change() RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO client_status_changes (client_id, from_status, to_status, changed_at)
+      VALUES (NEW.id, NULL, NEW.status, COALESCE(NEW.created_at, NOW()));
+  ELSIF NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO client_status_changes (client_id, from_status, to_status)
+      VALUES (NEW.id, OLD.status, NEW.status);
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS clients_record_status_change ON clients;
+CREATE TRIGGER clients_record_status_change
+  AFTER INSERT OR UPDATE OF status ON clients
+  FOR EACH ROW EXECUTE FUNCTION record_client_status_change();
+
+ALTER TABLE client_status_changes ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Authenticated users can manage client status changes" ON client_status_changes
+  FOR ALL USING (auth.role() = 'authenticated');
+
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,21 @@
+-- Refunds, credit notes and partial payments.
+-- Refunds and credit notes are rows in payments that point back at the payment they adjust.
+
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS kind VARCHAR(20) NOT NULL DEFAULT 'payment'
+  CHECK (kind IN ('payment', 'refund', 'credit_note'));
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS original_payment_id UUID REFERENCES payments(id) ON DELETE CASCADE;
+
+-- What the client owed when this payment was taken; a smaller amount is a partial payment
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS amount_owed DECIMAL CHECK (amount_owed IS NULL OR amount_owed > 0);
+
+-- Prorated downgrade credits were recorded as account_credit payments before credit notes existed
+UPDATE payments SET kind = 'credit_note' WHERE payment_method = 'account_credit' AND kind = 'payment';
+
+-- Refunds and credit notes only make sense against an original payment
+ALTER TABLE payments DROP CONSTRAINT IF EXISTS payments_adjustment_has_original;
+ALTER TABLE payments ADD CONSTRAINT payments_adjustment_has_original
+  CHECK (kind <> 'refund' OR original_payment_id IS NOT NULL);
+
+CREATE INDEX IF NOT EXISTS payments_original_payment_id_idx ON payments(original_payment_id);
+
+NOTIFY pgrst, 'reload schema';
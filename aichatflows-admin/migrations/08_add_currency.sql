@@ -0,0 +1,81 @@
+-- Multi-currency: every payment, plan and invoice records the ISO 4217 currency it is priced in.
+-- Existing rows were all taken in US dollars.
+
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS currency CHAR(3) NOT NULL DEFAULT 'USD'
+  CHECK (currency = UPPER(currency));
+ALTER TABLE plans ADD COLUMN IF NOT EXISTS currency CHAR(3) NOT NULL DEFAULT 'USD'
+  CHECK (currency = UPPER(currency));
+
+-- Refunds and credit notes are always in the currency of the payment they adjust
+UPDATE payments p
+SET currency = o.currency
+FROM payments o
+WHERE p.original_payment_id = o.id AND p.currency <> o.currency;
+
+-- Invoices bill in the currency of the client's plan
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS currency CHAR(3) NOT NULL DEFAULT 'USD'
+  CHECK (currency = UPPER(currency));
+UPDATE invoices i
+SET currency = p.currency
+FROM clients c
+JOIN plans p ON p.name = c.plan
+WHERE c.id = i.client_id AND i.currency <> p.currency;
+
+-- What an allocation paid off in the invoice's currency; amount stays in the payment's currency.
+-- Converted once, when the payment is applied, so later rate changes don't move old balances
+ALTER TABLE payment_allocations ADD COLUMN IF NOT EXISTS invoice_amount DECIMAL CHECK (invoice_amount > 0);
+UPDATE payment_allocations SET invoice_amount = amount WHERE invoice_amount IS NULL;
+ALTER TABLE payment_allocations ALTER COLUMN invoice_amount SET NOT NULL;
+
+-- Same as before, but also records invoice_amount (defaulting to amount when the currencies match)
+CREATE OR REPLACE FUNCTION apply_payment(p_payment_id UUID, p_allocations JSONB)
+RETURNS SETOF payment_allocations AS $$
+DECLARE
+  payment payments;
+  applied DECIMAL;
+  requested DECIMAL;
+BEGIN
+  -- SECURITY DEFINER bypasses RLS, so check the caller here
+  IF auth.role() IS DISTINCT FROM 'authenticated' THEN
+    RAISE EXCEPTION 'Not allowed to apply payments';
+  END IF;
+
+  -- Lock the payment so two devices applying it at once can't both spend the same amount
+  SELECT * INTO payment FROM payments WHERE id = p_payment_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment not found';
+  END IF;
+  IF payment.status <> 'confirmed' THEN
+    RAISE EXCEPTION 'Only confirmed payments can be applied to invoices';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(p_allocations) AS allocation
+    LEFT JOIN invoices ON invoices.id = (allocation ->> 'invoice_id')::UUID
+    WHERE invoices.id IS NULL
+      OR invoices.client_id IS DISTINCT FROM payment.client_id
+      OR invoices.status = 'void'
+  ) THEN
+    RAISE EXCEPTION 'Payments can only be applied to open invoices of the same client';
+  END IF;
+
+  SELECT COALESCE(SUM(amount), 0) INTO applied FROM payment_allocations WHERE payment_id = p_payment_id;
+  SELECT COALESCE(SUM((allocation ->> 'amount')::DECIMAL), 0) INTO requested
+    FROM jsonb_array_elements(p_allocations) AS allocation;
+  IF applied + requested > payment.amount THEN
+    RAISE EXCEPTION 'The payment has only % left to apply', payment.amount - applied;
+  END IF;
+
+  RETURN QUERY
+    INSERT INTO payment_allocations (payment_id, invoice_id, amount, invoice_amount)
+    SELECT
+      p_payment_id,
+      (allocation ->> 'invoice_id')::UUID,
+      (allocation ->> 'amount')::DECIMAL,
+      COALESCE((allocation ->> 'invoice_amount')::DECIMAL, (allocation ->> 'amount')::DECIMAL)
+    FROM jsonb_array_elements(p_allocations) AS allocation
+    RETURNING *;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,69 @@
+-- Receipts for confirmed payments, numbered 1, 2, 3... with no gaps.
+-- Numbers come from a single counter row that issue_receipt() locks, so two devices
+-- issuing at once queue up instead of taking the same number, and a failed insert
+-- rolls the counter back with it.
+
+CREATE TABLE IF NOT EXISTS receipt_counter (
+  id BOOLEAN PRIMARY KEY DEFAULT TRUE CHECK (id),
+  last_number INTEGER NOT NULL DEFAULT 0
+);
+
+INSERT INTO receipt_counter (id, last_number) VALUES (TRUE, 0) ON CONFLICT (id) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS receipts (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  payment_id UUID NOT NULL UNIQUE REFERENCES payments(id) ON DELETE RESTRICT,
+  receipt_number INTEGER NOT NULL UNIQUE,
+  issued_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Return the payment's receipt, issuing the next number the first time it's asked for.
+-- Runs as the owner so clients can't write receipts or move the counter themselves
+CREATE OR REPLACE FUNCTION issue_receipt(p_payment_id UUID) RETURNS receipts AS $$
+DECLARE
+  existing receipts;
+  issued receipts;
+  next_number INTEGER;
+BEGIN
+  -- SECURITY DEFINER bypasses RLS, so check the caller here
+  IF auth.role() IS DISTINCT FROM 'authenticated' THEN
+    RAISE EXCEPTION 'Not allowed to issue receipts';
+  END IF;
+
+  -- Serialize on the counter first so concurrent calls for the same payment can't both issue
+  UPDATE receipt_counter SET last_number = last_number WHERE id RETURNING last_number INTO next_number;
+
+  SELECT * INTO existing FROM receipts WHERE payment_id = p_payment_id;
+  IF FOUND THEN
+    RETURN existing;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM payments
+    WHERE id = p_payment_id
+      AND status = 'confirmed'
+      AND COALESCE(kind, 'payment') = 'payment'
+  ) THEN
+    RAISE EXCEPTION 'Receipts can only be issued for confirmed payments';
+  END IF;
+
+  UPDATE receipt_counter SET last_number = last_number + 1 WHERE id RETURNING last_number INTO next_number;
+
+  INSERT INTO receipts (payment_id, receipt_number)
+    VALUES (p_payment_id, next_number)
+    RETURNING * INTO issued;
+
+  RETURN issued;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+ALTER TABLE receipt_counter ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Authenticated users can read the receipt counter" ON receipt_counter
+  FOR SELECT USING (auth.role() = 'authenticated');
+
+-- Receipts are only created through issue_receipt() and never edited or removed
+ALTER TABLE receipts ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Authenticated users can read receipts" ON receipts
+  FOR SELECT USING (auth.role() = 'authenticated');
+
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,111 @@
+-- Credential vault: client social logins encrypted in the app with a key derived from an
+-- admin passphrase. The database only ever sees ciphertext; the passphrase and key never leave the device.
+
+-- One row describing how to derive and check the vault key
+CREATE TABLE IF NOT EXISTS credential_vault (
+  id BOOLEAN PRIMARY KEY DEFAULT TRUE CHECK (id),
+  kdf_salt TEXT NOT NULL,
+  kdf_iterations INTEGER NOT NULL,
+  verifier_ciphertext TEXT NOT NULL,
+  verifier_nonce TEXT NOT NULL,
+  created_by UUID DEFAULT auth.uid(),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS client_credentials (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  client_id UUID NOT NULL REFERENCES clients(id) ON DELETE CASCADE,
+  platform VARCHAR(20) NOT NULL CHECK (platform IN ('instagram', 'facebook', 'tiktok')),
+  ciphertext TEXT NOT NULL,
+  nonce TEXT NOT NULL,
+  updated_by UUID DEFAULT auth.uid(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (client_id, platform)
+);
+
+-- Audit trail of every time a credential was revealed
+CREATE TABLE IF NOT EXISTS credential_access_log (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  client_id UUID REFERENCES clients(id) ON DELETE SET NULL,
+  platform VARCHAR(20) NOT NULL,
+  user_id UUID NOT NULL DEFAULT auth.uid(),
+  user_email TEXT,
+  accessed_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS credential_access_log_client_id_idx ON credential_access_log(client_id, accessed_at DESC);
+
+ALTER TABLE credential_vault ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Authenticated users can read the credential vault" ON credential_vault
+  FOR SELECT USING (auth.role() = 'authenticated');
+CREATE POLICY "Authenticated users can set up the credential vault" ON credential_vault
+  FOR INSERT WITH CHECK (auth.role() = 'authenticated');
+
+ALTER TABLE client_credentials ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Authenticated users can manage client credentials" ON client_credentials
+  FOR ALL USING (auth.role() = 'authenticated');
+
+-- Append-only, and entries can only be written as the signed-in user
+ALTER TABLE credential_access_log ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Authenticated users can read the credential access log" ON credential_access_log
+  FOR SELECT USING (auth.role() = 'authenticated');
+CREATE POLICY "Authenticated users can log their own credential access" ON credential_access_log
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+-- Re-authentication before a reveal: checks the signed-in user's account password against
+-- auth.users without signing in again, so the app's session is left as it is
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+-- Every password check, so repeated guesses can be throttled and reviewed
+CREATE TABLE IF NOT EXISTS password_verification_attempts (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  succeeded BOOLEAN NOT NULL,
+  attempted_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS password_verification_attempts_user_id_idx
+  ON password_verification_attempts(user_id, attempted_at DESC);
+
+-- Written only by verify_user_password(); users can see their own attempts
+ALTER TABLE password_verification_attempts ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Users can read their own password checks" ON password_verification_attempts
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION verify_user_password(p_password TEXT) RETURNS BOOLEAN AS $$
+DECLARE
+  stored_hash TEXT;
+  recent_failures INTEGER;
+  verified BOOLEAN;
+BEGIN
+  -- SECURITY DEFINER can read auth.users, so only ever check the caller's own password
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not signed in';
+  END IF;
+
+  -- Five wrong passwords lock the check for fifteen minutes
+  SELECT COUNT(*) INTO recent_failures
+  FROM password_verification_attempts
+  WHERE user_id = auth.uid()
+    AND NOT succeeded
+    AND attempted_at > NOW() - INTERVAL '15 minutes'
+    AND attempted_at > COALESCE((
+      SELECT MAX(attempted_at) FROM password_verification_attempts
+      WHERE user_id = auth.uid() AND succeeded
+    ), '-infinity');
+  IF recent_failures >= 5 THEN
+    RAISE EXCEPTION 'Too many incorrect passwords. Try again in 15 minutes.';
+  END IF;
+
+  SELECT encrypted_password INTO stored_hash FROM auth.users WHERE id = auth.uid();
+  verified := stored_hash IS NOT NULL AND stored_hash = extensions.crypt(p_password, stored_hash);
+
+  INSERT INTO password_verification_attempts (user_id, succeeded) VALUES (auth.uid(), verified);
+  RETURN verified;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Plaintext passwords are moved into the vault by the app the first time it's unlocked,
+-- then the columns are dropped by 21_drop_plaintext_passwords.sql
+
+NOTIFY pgrst, 'reload schema';
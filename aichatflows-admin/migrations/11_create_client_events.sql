@@ -0,0 +1,169 @@
+-- Client lifecycle history: one row per thing that happened to a client, with who did it and when.
+-- Rows are only written by the triggers below so the history can't be edited from the app.
+
+CREATE TABLE IF NOT EXISTS client_events (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  client_id UUID NOT NULL REFERENCES clients(id) ON DELETE CASCADE,
+  event_type VARCHAR(30) NOT NULL CHECK (event_type IN (
+    'status_change', 'payment_status_change', 'plan_change', 'payment', 'visit', 'onboarding_submission'
+  )),
+  from_value TEXT, -- NULL for the value a client was created with
+  to_value TEXT,
+  data JSONB NOT NULL DEFAULT '{}'::jsonb,
+  actor_id UUID DEFAULT auth.uid(), -- NULL for backfilled history and public form submissions
+  actor_email TEXT DEFAULT (auth.jwt() ->> 'email'),
+  occurred_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS client_events_client_id_idx ON client_events(client_id, occurred_at);
+CREATE INDEX IF NOT EXISTS client_events_type_idx ON client_events(event_type, occurred_at);
+
+-- Best-effort history for what happened before this table existed (no actor is known)
+DO $$
+BEGIN
+  IF to_regclass('public.client_status_changes') IS NOT NULL THEN
+    INSERT INTO client_events (client_id, event_type, from_value, to_value, actor_id, actor_email, occurred_at)
+      SELECT sc.client_id, 'status_change', sc.from_status, sc.to_status, NULL, NULL, sc.changed_at
+      FROM client_status_changes sc
+      WHERE NOT EXISTS (SELECT 1 FROM client_events e WHERE e.event_type = 'status_change');
+  END IF;
+END $$;
+
+INSERT INTO client_events (client_id, event_type, from_value, to_value, data, actor_id, actor_email, occurred_at)
+  SELECT pc.client_id, 'plan_change', pc.from_plan, pc.to_plan,
+    jsonb_build_object('plan_change_id', pc.id, 'proration_amount', pc.proration_amount, 'effective_date', pc.effective_date),
+    NULL, NULL, COALESCE(pc.created_at, pc.effective_date::timestamptz)
+  FROM plan_changes pc
+  WHERE pc.from_plan IS NOT NULL
+    AND NOT EXISTS (SELECT 1 FROM client_events e WHERE e.event_type = 'plan_change');
+
+INSERT INTO client_events (client_id, event_type, to_value, data, actor_id, actor_email, occurred_at)
+  SELECT p.client_id, 'payment', p.status,
+    jsonb_build_object('payment_id', p.id, 'amount', p.amount, 'currency', p.currency, 'kind', p.kind),
+    NULL, NULL, COALESCE((to_jsonb(p) ->> 'created_at')::timestamptz, p.payment_date::timestamptz)
+  FROM payments p
+  WHERE p.client_id IS NOT NULL
+    AND NOT EXISTS (SELECT 1 FROM client_events e WHERE e.event_type = 'payment');
+
+INSERT INTO client_events (client_id, event_type, data, actor_id, actor_email, occurred_at)
+  SELECT v.client_id, 'visit', jsonb_build_object('visit_id', v.id, 'location', v.location),
+    NULL, NULL, COALESCE((to_jsonb(v) ->> 'created_at')::timestamptz, (to_jsonb(v) ->> 'timestamp')::timestamptz, NOW())
+  FROM business_visits v
+  WHERE v.client_id IS NOT NULL
+    AND NOT EXISTS (SELECT 1 FROM client_events e WHERE e.event_type = 'visit');
+
+INSERT INTO client_events (client_id, event_type, to_value, data, actor_id, actor_email, occurred_at)
+  SELECT s.client_id, 'onboarding_submission', s.status, jsonb_build_object('submission_id', s.id),
+    NULL, NULL, s.submitted_at
+  FROM form_submissions s
+  WHERE s.client_id IS NOT NULL
+    AND NOT EXISTS (SELECT 1 FROM client_events e WHERE e.event_type = 'onboarding_submission');
+
+-- Status history now lives here, with who made each change, so the status-only table from
+-- migration 06 and its trigger are retired; MRR history reads the status_change events instead
+DROP TRIGGER IF EXISTS clients_record_status_change ON clients;
+DROP FUNCTION IF EXISTS record_client_status_change();
+DROP TABLE IF EXISTS client_status_changes;
+
+-- SECURITY DEFINER so events are still written when the change comes from the public onboarding form;
+-- auth.uid() and auth.jwt() keep reading the caller's token
+CREATE OR REPLACE FUNCTION record_client_event_from_client() RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO client_events (client_id, event_type, from_value, to_value, occurred_at)
+      VALUES (NEW.id, 'status_change', NULL, NEW.status, COALESCE(NEW.created_at, NOW()));
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO client_events (client_id, event_type, from_value, to_value)
+      VALUES (NEW.id, 'status_change', OLD.status, NEW.status);
+  END IF;
+  IF NEW.payment_status IS DISTINCT FROM OLD.payment_status THEN
+    INSERT INTO client_events (client_id, event_type, from_value, to_value)
+      VALUES (NEW.id, 'payment_status_change', OLD.payment_status, NEW.payment_status);
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS clients_record_client_event ON clients;
+CREATE TRIGGER clients_record_client_event
+  AFTER INSERT OR UPDATE OF status, payment_status ON clients
+  FOR EACH ROW EXECUTE FUNCTION record_client_event_from_client();
+
+-- The opening plan period is part of signup, so only actual changes are recorded
+CREATE OR REPLACE FUNCTION record_client_event_from_plan_change() RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.from_plan IS NOT NULL THEN
+    INSERT INTO client_events (client_id, event_type, from_value, to_value, data)
+      VALUES (NEW.client_id, 'plan_change', NEW.from_plan, NEW.to_plan,
+        jsonb_build_object('plan_change_id', NEW.id, 'proration_amount', NEW.proration_amount, 'effective_date', NEW.effective_date));
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS plan_changes_record_client_event ON plan_changes;
+CREATE TRIGGER plan_changes_record_client_event
+  AFTER INSERT ON plan_changes
+  FOR EACH ROW EXECUTE FUNCTION record_client_event_from_plan_change();
+
+-- New payments, and payments later confirmed or failed
+CREATE OR REPLACE FUNCTION record_client_event_from_payment() RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.client_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+  IF TG_OP = 'INSERT' OR NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO client_events (client_id, event_type, from_value, to_value, data)
+      VALUES (NEW.client_id, 'payment', CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END, NEW.status,
+        jsonb_build_object('payment_id', NEW.id, 'amount', NEW.amount, 'currency', NEW.currency, 'kind', NEW.kind));
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS payments_record_client_event ON payments;
+CREATE TRIGGER payments_record_client_event
+  AFTER INSERT OR UPDATE OF status ON payments
+  FOR EACH ROW EXECUTE FUNCTION record_client_event_from_payment();
+
+CREATE OR REPLACE FUNCTION record_client_event_from_visit() RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.client_id IS NOT NULL THEN
+    INSERT INTO client_events (client_id, event_type, data)
+      VALUES (NEW.client_id, 'visit', jsonb_build_object('visit_id', NEW.id, 'location', NEW.location));
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS business_visits_record_client_event ON business_visits;
+CREATE TRIGGER business_visits_record_client_event
+  AFTER INSERT ON business_visits
+  FOR EACH ROW EXECUTE FUNCTION record_client_event_from_visit();
+
+-- Submissions are linked to a client when created or later when converted
+CREATE OR REPLACE FUNCTION record_client_event_from_submission() RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.client_id IS NOT NULL AND (TG_OP = 'INSERT' OR OLD.client_id IS NULL) THEN
+    INSERT INTO client_events (client_id, event_type, to_value, data, occurred_at)
+      VALUES (NEW.client_id, 'onboarding_submission', NEW.status, jsonb_build_object('submission_id', NEW.id),
+        CASE WHEN TG_OP = 'INSERT' THEN COALESCE(NEW.submitted_at, NOW()) ELSE NOW() END);
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS form_submissions_record_client_event ON form_submissions;
+CREATE TRIGGER form_submissions_record_client_event
+  AFTER INSERT OR UPDATE OF client_id ON form_submissions
+  FOR EACH ROW EXECUTE FUNCTION record_client_event_from_submission();
+
+-- Read-only for the app; rows come from the triggers above
+ALTER TABLE client_events ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Authenticated users can read client events" ON client_events
+  FOR SELECT USING (auth.role() = 'authenticated');
+
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,96 @@
+-- Merge a duplicate client into the one being kept, in a single transaction.
+-- Payments, visits, goals, submissions, invoices, plan history and timeline events move to the
+-- surviving client; the duplicate's own status history is dropped with it.
+-- Tables added by later migrations are moved by their own merge_client_rows_<name>() step.
+
+ALTER TABLE client_events DROP CONSTRAINT IF EXISTS client_events_event_type_check;
+ALTER TABLE client_events ADD CONSTRAINT client_events_event_type_check CHECK (event_type IN (
+  'status_change', 'payment_status_change', 'plan_change', 'payment', 'visit', 'onboarding_submission', 'client_merged'
+));
+
+-- p_updates holds the field values picked in the app; missing or empty fields keep the survivor's value
+CREATE OR REPLACE FUNCTION merge_clients(p_survivor_id UUID, p_duplicate_id UUID, p_updates JSONB DEFAULT '{}'::jsonb)
+RETURNS clients AS $$
+DECLARE
+  duplicate clients;
+  merged clients;
+  step TEXT;
+BEGIN
+  -- SECURITY DEFINER bypasses RLS, so check the caller here
+  IF auth.role() IS DISTINCT FROM 'authenticated' THEN
+    RAISE EXCEPTION 'Not allowed to merge clients';
+  END IF;
+  IF p_survivor_id = p_duplicate_id THEN
+    RAISE EXCEPTION 'Cannot merge a client into itself';
+  END IF;
+
+  PERFORM 1 FROM clients WHERE id = p_survivor_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Client to keep not found';
+  END IF;
+  SELECT * INTO duplicate FROM clients WHERE id = p_duplicate_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Duplicate client not found';
+  END IF;
+
+  UPDATE payments SET client_id = p_survivor_id WHERE client_id = p_duplicate_id;
+  UPDATE business_visits SET client_id = p_survivor_id WHERE client_id = p_duplicate_id;
+  UPDATE form_submissions SET client_id = p_survivor_id WHERE client_id = p_duplicate_id;
+  UPDATE invoices SET client_id = p_survivor_id WHERE client_id = p_duplicate_id;
+  UPDATE plan_changes SET client_id = p_survivor_id WHERE client_id = p_duplicate_id;
+  -- The duplicate's status transitions describe a record that no longer exists, so they go with it
+  UPDATE client_events SET client_id = p_survivor_id
+    WHERE client_id = p_duplicate_id AND event_type NOT IN ('status_change', 'payment_status_change');
+
+  -- Goals are global now; only older databases still link them to a client
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'goals' AND column_name = 'client_id'
+  ) THEN
+    EXECUTE 'UPDATE goals SET client_id = $1 WHERE client_id = $2' USING p_survivor_id, p_duplicate_id;
+  END IF;
+
+  -- Keep the duplicate's stored logins for platforms the survivor has none for
+  UPDATE client_credentials SET client_id = p_survivor_id
+    WHERE client_id = p_duplicate_id
+      AND platform NOT IN (SELECT platform FROM client_credentials WHERE client_id = p_survivor_id);
+  UPDATE credential_access_log SET client_id = p_survivor_id WHERE client_id = p_duplicate_id;
+
+  -- Every merge_client_rows_<name>(survivor, duplicate, updates) step, in name order
+  FOR step IN
+    SELECT p.proname FROM pg_proc p
+    JOIN pg_namespace n ON n.oid = p.pronamespace
+    WHERE n.nspname = 'public' AND p.proname LIKE 'merge\_client\_rows\_%'
+    ORDER BY p.proname
+  LOOP
+    EXECUTE format('SELECT %I($1, $2, $3)', step) USING p_survivor_id, p_duplicate_id, p_updates;
+  END LOOP;
+
+  -- Delete first so the survivor can take over the duplicate's email
+  DELETE FROM clients WHERE id = p_duplicate_id;
+
+  UPDATE clients SET
+    name = COALESCE(NULLIF(p_updates ->> 'name', ''), name),
+    email = COALESCE(NULLIF(p_updates ->> 'email', ''), email),
+    phone = COALESCE(NULLIF(p_updates ->> 'phone', ''), phone),
+    business_name = COALESCE(NULLIF(p_updates ->> 'business_name', ''), business_name),
+    instagram_handle = COALESCE(NULLIF(p_updates ->> 'instagram_handle', ''), instagram_handle),
+    facebook_url = COALESCE(NULLIF(p_updates ->> 'facebook_url', ''), facebook_url),
+    tiktok_handle = COALESCE(NULLIF(p_updates ->> 'tiktok_handle', ''), tiktok_handle),
+    business_type = COALESCE(NULLIF(p_updates ->> 'business_type', ''), business_type),
+    business_niche = COALESCE(NULLIF(p_updates ->> 'business_niche', ''), business_niche),
+    products_or_services = COALESCE(NULLIF(p_updates ->> 'products_or_services', ''), products_or_services),
+    notes = COALESCE(NULLIF(p_updates ->> 'notes', ''), notes),
+    updated_at = NOW()
+  WHERE id = p_survivor_id
+  RETURNING * INTO merged;
+
+  INSERT INTO client_events (client_id, event_type, from_value, to_value, data)
+    VALUES (p_survivor_id, 'client_merged', duplicate.name, merged.name,
+      jsonb_build_object('merged_client_id', duplicate.id, 'merged_email', duplicate.email, 'merged_created_at', duplicate.created_at));
+
+  RETURN merged;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,53 @@
+-- Follow-up tasks. A task can point at a client, and optionally at the visit or payment it's about.
+-- Reminders are scheduled as local notifications on the assignee's device, so nothing here sends them.
+
+CREATE TABLE IF NOT EXISTS tasks (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  title TEXT NOT NULL CHECK (length(trim(title)) > 0),
+  notes TEXT,
+  due_at TIMESTAMPTZ NOT NULL,
+  assignee_email TEXT DEFAULT (auth.jwt() ->> 'email'), -- null = anyone on the team
+  client_id UUID REFERENCES clients(id) ON DELETE CASCADE,
+  visit_id UUID REFERENCES business_visits(id) ON DELETE SET NULL,
+  payment_id UUID REFERENCES payments(id) ON DELETE SET NULL,
+  done BOOLEAN NOT NULL DEFAULT FALSE,
+  completed_at TIMESTAMPTZ,
+  created_by UUID DEFAULT auth.uid(),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS tasks_open_due_idx ON tasks(due_at) WHERE NOT done;
+CREATE INDEX IF NOT EXISTS tasks_client_id_idx ON tasks(client_id);
+
+-- Keep completed_at in step with done, whichever device flips it
+CREATE OR REPLACE FUNCTION set_task_completed_at() RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.done AND (TG_OP = 'INSERT' OR NOT OLD.done) THEN
+    NEW.completed_at := NOW();
+  ELSIF NOT NEW.done THEN
+    NEW.completed_at := NULL;
+  END IF;
+  NEW.updated_at := NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS tasks_set_completed_at ON tasks;
+CREATE TRIGGER tasks_set_completed_at
+  BEFORE INSERT OR UPDATE ON tasks
+  FOR EACH ROW EXECUTE FUNCTION set_task_completed_at();
+
+-- Merging clients (see 12_create_merge_clients.sql) moves the duplicate's tasks to the survivor
+CREATE OR REPLACE FUNCTION merge_client_rows_tasks(p_survivor_id UUID, p_duplicate_id UUID, p_updates JSONB)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE tasks SET client_id = p_survivor_id WHERE client_id = p_duplicate_id;
+END;
+$$ LANGUAGE plpgsql;
+
+ALTER TABLE tasks ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Authenticated users can manage tasks" ON tasks
+  FOR ALL USING (auth.role() = 'authenticated');
+
+NOTIFY pgrst, 'reload schema';
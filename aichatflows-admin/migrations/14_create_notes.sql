@@ -0,0 +1,138 @@
+-- Notes log for clients, payments and visits: authored, timestamped entries with replies,
+-- pinning, @mentions and a revision history, instead of one notes string that every edit overwrites.
+
+CREATE TABLE IF NOT EXISTS notes (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  entity_type VARCHAR(20) NOT NULL CHECK (entity_type IN ('client', 'payment', 'visit')),
+  entity_id UUID NOT NULL,
+  parent_id UUID REFERENCES notes(id) ON DELETE CASCADE, -- set for replies
+  body TEXT NOT NULL CHECK (length(trim(body)) > 0),
+  mentions TEXT[] NOT NULL DEFAULT '{}', -- emails of mentioned admins
+  pinned BOOLEAN NOT NULL DEFAULT FALSE,
+  author_id UUID DEFAULT auth.uid(), -- null for notes carried over from the old notes fields
+  author_email TEXT DEFAULT (auth.jwt() ->> 'email'),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  edited_at TIMESTAMPTZ
+);
+
+-- Earlier bodies of edited notes, written by the trigger below
+CREATE TABLE IF NOT EXISTS note_revisions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  note_id UUID NOT NULL REFERENCES notes(id) ON DELETE CASCADE,
+  body TEXT NOT NULL,
+  edited_by UUID DEFAULT auth.uid(),
+  edited_by_email TEXT DEFAULT (auth.jwt() ->> 'email'),
+  revised_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS notes_entity_idx ON notes(entity_type, entity_id, created_at);
+CREATE INDEX IF NOT EXISTS note_revisions_note_id_idx ON note_revisions(note_id, revised_at DESC);
+
+-- Only a note's author can change what it says; anyone can pin it. The old body is kept as a revision.
+CREATE OR REPLACE FUNCTION record_note_revision() RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.body IS DISTINCT FROM OLD.body THEN
+    IF OLD.author_id IS NOT NULL AND OLD.author_id IS DISTINCT FROM auth.uid() THEN
+      RAISE EXCEPTION 'Only the author can edit this note';
+    END IF;
+    INSERT INTO note_revisions (note_id, body) VALUES (OLD.id, OLD.body);
+    NEW.edited_at := NOW();
+  END IF;
+  NEW.author_id := OLD.author_id;
+  NEW.author_email := OLD.author_email;
+  NEW.created_at := OLD.created_at;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS notes_record_revision ON notes;
+CREATE TRIGGER notes_record_revision
+  BEFORE UPDATE ON notes
+  FOR EACH ROW EXECUTE FUNCTION record_note_revision();
+
+-- The old notes fields are still written by the add/edit forms; append each new value to the log
+CREATE OR REPLACE FUNCTION log_legacy_notes() RETURNS TRIGGER AS $$
+BEGIN
+  IF NULLIF(trim(NEW.notes), '') IS NOT NULL AND (TG_OP = 'INSERT' OR NEW.notes IS DISTINCT FROM OLD.notes) THEN
+    INSERT INTO notes (entity_type, entity_id, body) VALUES (TG_ARGV[0], NEW.id, NEW.notes);
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Notes have no foreign key to what they're about, so remove them with it
+CREATE OR REPLACE FUNCTION delete_entity_notes() RETURNS TRIGGER AS $$
+BEGIN
+  DELETE FROM notes WHERE entity_type = TG_ARGV[0] AND entity_id = OLD.id;
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS clients_log_notes ON clients;
+CREATE TRIGGER clients_log_notes AFTER INSERT OR UPDATE OF notes ON clients
+  FOR EACH ROW EXECUTE FUNCTION log_legacy_notes('client');
+DROP TRIGGER IF EXISTS payments_log_notes ON payments;
+CREATE TRIGGER payments_log_notes AFTER INSERT OR UPDATE OF notes ON payments
+  FOR EACH ROW EXECUTE FUNCTION log_legacy_notes('payment');
+DROP TRIGGER IF EXISTS business_visits_log_notes ON business_visits;
+CREATE TRIGGER business_visits_log_notes AFTER INSERT OR UPDATE OF notes ON business_visits
+  FOR EACH ROW EXECUTE FUNCTION log_legacy_notes('visit');
+
+DROP TRIGGER IF EXISTS clients_delete_notes ON clients;
+CREATE TRIGGER clients_delete_notes AFTER DELETE ON clients
+  FOR EACH ROW EXECUTE FUNCTION delete_entity_notes('client');
+DROP TRIGGER IF EXISTS payments_delete_notes ON payments;
+CREATE TRIGGER payments_delete_notes AFTER DELETE ON payments
+  FOR EACH ROW EXECUTE FUNCTION delete_entity_notes('payment');
+DROP TRIGGER IF EXISTS business_visits_delete_notes ON business_visits;
+CREATE TRIGGER business_visits_delete_notes AFTER DELETE ON business_visits
+  FOR EACH ROW EXECUTE FUNCTION delete_entity_notes('visit');
+
+-- Carry the existing notes over as the first entry of each log
+INSERT INTO notes (entity_type, entity_id, body, author_id, author_email, created_at)
+SELECT 'client', id, notes, NULL, NULL, COALESCE(updated_at, created_at) FROM clients
+  WHERE NULLIF(trim(notes), '') IS NOT NULL
+    AND NOT EXISTS (SELECT 1 FROM notes n WHERE n.entity_type = 'client' AND n.entity_id = clients.id);
+INSERT INTO notes (entity_type, entity_id, body, author_id, author_email, created_at)
+SELECT 'payment', id, notes, NULL, NULL, COALESCE(created_at, NOW()) FROM payments
+  WHERE NULLIF(trim(notes), '') IS NOT NULL
+    AND NOT EXISTS (SELECT 1 FROM notes n WHERE n.entity_type = 'payment' AND n.entity_id = payments.id);
+INSERT INTO notes (entity_type, entity_id, body, author_id, author_email, created_at)
+SELECT 'visit', id, notes, NULL, NULL, COALESCE(created_at, NOW()) FROM business_visits
+  WHERE NULLIF(trim(notes), '') IS NOT NULL
+    AND NOT EXISTS (SELECT 1 FROM notes n WHERE n.entity_type = 'visit' AND n.entity_id = business_visits.id);
+
+-- Merging clients (see 12_create_merge_clients.sql) moves the duplicate's notes to the survivor
+CREATE OR REPLACE FUNCTION merge_client_rows_notes(p_survivor_id UUID, p_duplicate_id UUID, p_updates JSONB)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE notes SET entity_id = p_survivor_id WHERE entity_type = 'client' AND entity_id = p_duplicate_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Admins who can be @mentioned: every account that can sign in to the app
+CREATE OR REPLACE FUNCTION list_admins() RETURNS TABLE (id UUID, email TEXT) AS $$
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'authenticated' THEN
+    RAISE EXCEPTION 'Not allowed to list admins';
+  END IF;
+  RETURN QUERY SELECT u.id, u.email::TEXT FROM auth.users u WHERE u.email IS NOT NULL ORDER BY u.email;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+ALTER TABLE notes ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Authenticated users can read notes" ON notes
+  FOR SELECT USING (auth.role() = 'authenticated');
+CREATE POLICY "Authenticated users can add notes as themselves" ON notes
+  FOR INSERT WITH CHECK (auth.role() = 'authenticated' AND author_id = auth.uid());
+CREATE POLICY "Authenticated users can update notes" ON notes
+  FOR UPDATE USING (auth.role() = 'authenticated');
+CREATE POLICY "Authenticated users can delete their own notes" ON notes
+  FOR DELETE USING (author_id = auth.uid() OR author_id IS NULL);
+
+-- Revisions are only written by the trigger
+ALTER TABLE note_revisions ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Authenticated users can read note revisions" ON note_revisions
+  FOR SELECT USING (auth.role() = 'authenticated');
+
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,47 @@
+-- Admin-defined custom fields and free-form tags on clients.
+-- Definitions describe the fields; each client's values live in clients.custom_fields keyed by the definition key.
+
+CREATE TABLE IF NOT EXISTS custom_field_definitions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  key VARCHAR(50) NOT NULL UNIQUE,
+  label VARCHAR(100) NOT NULL,
+  field_type VARCHAR(10) NOT NULL CHECK (field_type IN ('text', 'number', 'select', 'date', 'boolean')),
+  -- Choices for select fields, in display order
+  options TEXT[] NOT NULL DEFAULT '{}',
+  required BOOLEAN NOT NULL DEFAULT FALSE,
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT custom_field_select_has_options CHECK (field_type <> 'select' OR cardinality(options) > 0)
+);
+
+CREATE INDEX IF NOT EXISTS custom_field_definitions_position_idx ON custom_field_definitions(position);
+
+ALTER TABLE clients ADD COLUMN IF NOT EXISTS custom_fields JSONB NOT NULL DEFAULT '{}'::jsonb;
+ALTER TABLE clients ADD COLUMN IF NOT EXISTS tags TEXT[] NOT NULL DEFAULT '{}';
+
+-- Tag filters use array containment
+CREATE INDEX IF NOT EXISTS clients_tags_idx ON clients USING GIN (tags);
+
+-- Merging clients (see 12_create_merge_clients.sql) keeps the tags of both records. Custom fields keep the
+-- survivor's answers, filled in from the duplicate's; p_updates -> 'custom_fields' holds the answers picked in the app
+CREATE OR REPLACE FUNCTION merge_client_rows_custom_fields(p_survivor_id UUID, p_duplicate_id UUID, p_updates JSONB)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE clients survivor SET
+    tags = ARRAY(
+      SELECT tag FROM unnest(survivor.tags || duplicate.tags) WITH ORDINALITY AS t(tag, position)
+      GROUP BY tag
+      ORDER BY min(position)
+    ),
+    custom_fields = duplicate.custom_fields || survivor.custom_fields || COALESCE(p_updates -> 'custom_fields', '{}'::jsonb)
+  FROM clients duplicate
+  WHERE survivor.id = p_survivor_id AND duplicate.id = p_duplicate_id;
+END;
+$$ LANGUAGE plpgsql;
+
+ALTER TABLE custom_field_definitions ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Authenticated users can manage custom field definitions" ON custom_field_definitions
+  FOR ALL USING (auth.role() = 'authenticated');
+
+NOTIFY pgrst, 'reload schema';
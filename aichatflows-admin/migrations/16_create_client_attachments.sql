@@ -0,0 +1,47 @@
+-- Files attached to clients (photos, logos, contracts, FAQ documents).
+-- The files live in the private client-attachments storage bucket under <client id>/; this table describes them.
+
+INSERT INTO storage.buckets (id, name, public)
+  VALUES ('client-attachments', 'client-attachments', FALSE)
+  ON CONFLICT (id) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS client_attachments (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  client_id UUID NOT NULL REFERENCES clients(id) ON DELETE CASCADE,
+  kind VARCHAR(20) NOT NULL DEFAULT 'other' CHECK (kind IN ('photo', 'logo', 'contract', 'faq', 'other')),
+  file_name TEXT NOT NULL,
+  storage_path TEXT NOT NULL UNIQUE,
+  thumbnail_path TEXT, -- images only
+  mime_type TEXT,
+  size_bytes BIGINT,
+  width INTEGER,
+  height INTEGER,
+  uploaded_by UUID DEFAULT auth.uid(),
+  uploaded_by_email TEXT DEFAULT (auth.jwt() ->> 'email'),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS client_attachments_client_id_idx ON client_attachments(client_id, created_at DESC);
+
+-- Merging clients (see 12_create_merge_clients.sql) moves the duplicate's attachments to the survivor
+CREATE OR REPLACE FUNCTION merge_client_rows_attachments(p_survivor_id UUID, p_duplicate_id UUID, p_updates JSONB)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE client_attachments SET client_id = p_survivor_id WHERE client_id = p_duplicate_id;
+END;
+$$ LANGUAGE plpgsql;
+
+ALTER TABLE client_attachments ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Authenticated users can manage client attachments" ON client_attachments
+  FOR ALL USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Authenticated users can read client attachment files" ON storage.objects
+  FOR SELECT USING (bucket_id = 'client-attachments' AND auth.role() = 'authenticated');
+CREATE POLICY "Authenticated users can upload client attachment files" ON storage.objects
+  FOR INSERT WITH CHECK (bucket_id = 'client-attachments' AND auth.role() = 'authenticated');
+CREATE POLICY "Authenticated users can replace client attachment files" ON storage.objects
+  FOR UPDATE USING (bucket_id = 'client-attachments' AND auth.role() = 'authenticated');
+CREATE POLICY "Authenticated users can delete client attachment files" ON storage.objects
+  FOR DELETE USING (bucket_id = 'client-attachments' AND auth.role() = 'authenticated');
+
+NOTIFY pgrst, 'reload schema';
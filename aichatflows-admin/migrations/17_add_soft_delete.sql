@@ -0,0 +1,99 @@
+-- Soft delete for clients, payments, visits and goals.
+-- Deleting sets deleted_at; the row stays in the Trash until it is restored or purged.
+
+ALTER TABLE clients ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ;
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ;
+ALTER TABLE business_visits ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ;
+ALTER TABLE goals ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS clients_deleted_at_idx ON clients(deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS payments_deleted_at_idx ON payments(deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS business_visits_deleted_at_idx ON business_visits(deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS goals_deleted_at_idx ON goals(deleted_at) WHERE deleted_at IS NOT NULL;
+
+-- Trash a client along with its payments, visits and goals. They all get the same deleted_at,
+-- which is how restore_client() tells them apart from records that were trashed on their own.
+CREATE OR REPLACE FUNCTION soft_delete_client(p_client_id UUID) RETURNS TIMESTAMPTZ AS $$
+DECLARE
+  trashed_at TIMESTAMPTZ := NOW();
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'authenticated' THEN
+    RAISE EXCEPTION 'Not allowed to delete clients';
+  END IF;
+
+  UPDATE clients SET deleted_at = trashed_at WHERE id = p_client_id AND deleted_at IS NULL;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Client not found';
+  END IF;
+
+  UPDATE payments SET deleted_at = trashed_at WHERE client_id = p_client_id AND deleted_at IS NULL;
+  UPDATE business_visits SET deleted_at = trashed_at WHERE client_id = p_client_id AND deleted_at IS NULL;
+  -- Goals are global now; only older databases still link them to a client
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'goals' AND column_name = 'client_id'
+  ) THEN
+    EXECUTE 'UPDATE goals SET deleted_at = $1 WHERE client_id = $2 AND deleted_at IS NULL' USING trashed_at, p_client_id;
+  END IF;
+
+  RETURN trashed_at;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Bring a client back with the records that were trashed with it
+CREATE OR REPLACE FUNCTION restore_client(p_client_id UUID) RETURNS VOID AS $$
+DECLARE
+  trashed_at TIMESTAMPTZ;
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'authenticated' THEN
+    RAISE EXCEPTION 'Not allowed to restore clients';
+  END IF;
+
+  SELECT deleted_at INTO trashed_at FROM clients WHERE id = p_client_id FOR UPDATE;
+  IF trashed_at IS NULL THEN
+    RETURN;
+  END IF;
+
+  UPDATE clients SET deleted_at = NULL WHERE id = p_client_id;
+  UPDATE payments SET deleted_at = NULL WHERE client_id = p_client_id AND deleted_at = trashed_at;
+  UPDATE business_visits SET deleted_at = NULL WHERE client_id = p_client_id AND deleted_at = trashed_at;
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'goals' AND column_name = 'client_id'
+  ) THEN
+    EXECUTE 'UPDATE goals SET deleted_at = NULL WHERE client_id = $1 AND deleted_at = $2' USING p_client_id, trashed_at;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Permanently remove a trashed client and everything that still points at it, unless receipts were issued to it.
+-- Notes, tasks, attachments and the like go with the client through their own ON DELETE CASCADE.
+CREATE OR REPLACE FUNCTION purge_client(p_client_id UUID) RETURNS VOID AS $$
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'authenticated' THEN
+    RAISE EXCEPTION 'Not allowed to purge clients';
+  END IF;
+
+  PERFORM 1 FROM clients WHERE id = p_client_id AND deleted_at IS NOT NULL FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only clients in the Trash can be purged';
+  END IF;
+  -- Issued receipts are kept for the books (receipts.payment_id is ON DELETE RESTRICT), so a client
+  -- with any stays in the Trash instead of failing halfway through the purge
+  IF EXISTS (SELECT 1 FROM receipts r JOIN payments p ON p.id = r.payment_id WHERE p.client_id = p_client_id) THEN
+    RAISE EXCEPTION 'This client has issued receipts, which are kept for your records. Restore the client or leave it in the Trash';
+  END IF;
+
+  DELETE FROM payments WHERE client_id = p_client_id;
+  DELETE FROM business_visits WHERE client_id = p_client_id;
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'goals' AND column_name = 'client_id'
+  ) THEN
+    EXECUTE 'DELETE FROM goals WHERE client_id = $1' USING p_client_id;
+  END IF;
+  DELETE FROM clients WHERE id = p_client_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+NOTIFY pgrst, 'reload schema';
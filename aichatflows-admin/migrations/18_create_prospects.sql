@@ -0,0 +1,112 @@
+-- Prospects: businesses visited door to door that haven't signed up yet.
+-- Visits to a business that isn't a client attach to its prospect; when the prospect signs,
+-- convert_prospect() links it and its visits to the new client so visit-to-signup conversion can be measured.
+
+CREATE TABLE IF NOT EXISTS prospects (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  business_name TEXT NOT NULL CHECK (length(trim(business_name)) > 0),
+  address TEXT,
+  latitude DOUBLE PRECISION CHECK (latitude BETWEEN -90 AND 90),
+  longitude DOUBLE PRECISION CHECK (longitude BETWEEN -180 AND 180),
+  contact_name TEXT,
+  contact_phone TEXT,
+  contact_email TEXT,
+  stage VARCHAR(20) NOT NULL DEFAULT 'visited' CHECK (stage IN ('visited', 'interested', 'follow_up', 'signed', 'rejected')),
+  next_action_date DATE,
+  notes TEXT,
+  client_id UUID REFERENCES clients(id) ON DELETE SET NULL, -- set when the prospect converts
+  converted_at TIMESTAMPTZ,
+  last_visited_at TIMESTAMPTZ,
+  created_by UUID DEFAULT auth.uid(),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS prospects_stage_idx ON prospects(stage);
+CREATE INDEX IF NOT EXISTS prospects_next_action_date_idx ON prospects(next_action_date) WHERE next_action_date IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS prospects_client_id_idx ON prospects(client_id) WHERE client_id IS NOT NULL;
+
+ALTER TABLE business_visits ADD COLUMN IF NOT EXISTS prospect_id UUID REFERENCES prospects(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS business_visits_prospect_id_idx ON business_visits(prospect_id) WHERE prospect_id IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION set_prospect_updated_at() RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at := NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS prospects_set_updated_at ON prospects;
+CREATE TRIGGER prospects_set_updated_at
+  BEFORE UPDATE ON prospects
+  FOR EACH ROW EXECUTE FUNCTION set_prospect_updated_at();
+
+-- Visit rows don't always carry a date, so the prospect keeps when it was last visited
+CREATE OR REPLACE FUNCTION touch_prospect_from_visit() RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.prospect_id IS NOT NULL THEN
+    UPDATE prospects SET last_visited_at = NOW() WHERE id = NEW.prospect_id;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS business_visits_touch_prospect ON business_visits;
+CREATE TRIGGER business_visits_touch_prospect
+  AFTER INSERT ON business_visits
+  FOR EACH ROW EXECUTE FUNCTION touch_prospect_from_visit();
+
+-- Mark a prospect as signed by an existing client and move its visits over. The visits get the
+-- 'visit' events they would have had if they'd been logged against the client in the first place.
+CREATE OR REPLACE FUNCTION convert_prospect(p_prospect_id UUID, p_client_id UUID) RETURNS VOID AS $$
+DECLARE
+  prospect prospects%ROWTYPE;
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'authenticated' THEN
+    RAISE EXCEPTION 'Not allowed to convert prospects';
+  END IF;
+
+  SELECT * INTO prospect FROM prospects WHERE id = p_prospect_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Prospect not found';
+  END IF;
+  IF prospect.client_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Prospect has already been converted';
+  END IF;
+  PERFORM 1 FROM clients WHERE id = p_client_id AND deleted_at IS NULL;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Client not found';
+  END IF;
+
+  UPDATE prospects
+  SET stage = 'signed', client_id = p_client_id, converted_at = NOW(), next_action_date = NULL
+  WHERE id = p_prospect_id;
+
+  INSERT INTO client_events (client_id, event_type, data, occurred_at)
+    SELECT p_client_id, 'visit', jsonb_build_object('visit_id', v.id, 'location', v.location, 'prospect_id', p_prospect_id),
+      COALESCE((to_jsonb(v) ->> 'created_at')::timestamptz, (to_jsonb(v) ->> 'timestamp')::timestamptz, prospect.last_visited_at, NOW())
+    FROM business_visits v
+    WHERE v.prospect_id = p_prospect_id AND v.client_id IS NULL AND v.deleted_at IS NULL;
+
+  UPDATE business_visits SET client_id = p_client_id
+  WHERE prospect_id = p_prospect_id AND client_id IS NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Merging clients (see 12_create_merge_clients.sql) keeps the duplicate's signup on record. A client links to
+-- one prospect at most, so when both records came from a prospect the survivor keeps its own and the duplicate's
+-- stays signed but unlinked once the duplicate is deleted (ON DELETE SET NULL)
+CREATE OR REPLACE FUNCTION merge_client_rows_prospects(p_survivor_id UUID, p_duplicate_id UUID, p_updates JSONB)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE prospects SET client_id = p_survivor_id
+  WHERE client_id = p_duplicate_id
+    AND NOT EXISTS (SELECT 1 FROM prospects WHERE client_id = p_survivor_id);
+END;
+$$ LANGUAGE plpgsql;
+
+ALTER TABLE prospects ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Authenticated users can manage prospects" ON prospects
+  FOR ALL USING (auth.role() = 'authenticated');
+
+NOTIFY pgrst, 'reload schema';
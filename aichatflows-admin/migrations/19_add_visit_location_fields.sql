@@ -0,0 +1,15 @@
+-- Structured location fields for business visits.
+-- location stays as the display string; existing rows are backfilled from it by
+-- migrateVisitLocations() in src/utils/migration.ts, which runs the first time the visits list loads.
+
+ALTER TABLE business_visits ADD COLUMN IF NOT EXISTS business_name TEXT;
+ALTER TABLE business_visits ADD COLUMN IF NOT EXISTS street TEXT;
+ALTER TABLE business_visits ADD COLUMN IF NOT EXISTS city TEXT;
+ALTER TABLE business_visits ADD COLUMN IF NOT EXISTS region TEXT;
+ALTER TABLE business_visits ADD COLUMN IF NOT EXISTS postal_code TEXT;
+ALTER TABLE business_visits ADD COLUMN IF NOT EXISTS country TEXT;
+
+CREATE INDEX IF NOT EXISTS business_visits_business_name_idx ON business_visits(lower(business_name)) WHERE business_name IS NOT NULL;
+CREATE INDEX IF NOT EXISTS business_visits_city_idx ON business_visits(city) WHERE city IS NOT NULL;
+
+NOTIFY pgrst, 'reload schema';
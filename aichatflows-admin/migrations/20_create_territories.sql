@@ -0,0 +1,63 @@
+-- Territories: polygons drawn on the visits map and assigned to a rep.
+-- Visits are attributed to a territory in the app with a point-in-polygon test on their coordinates,
+-- so business_visits gets real latitude/longitude columns (and a visit date for the coverage heatmap).
+
+ALTER TABLE business_visits ADD COLUMN IF NOT EXISTS latitude DOUBLE PRECISION CHECK (latitude BETWEEN -90 AND 90);
+ALTER TABLE business_visits ADD COLUMN IF NOT EXISTS longitude DOUBLE PRECISION CHECK (longitude BETWEEN -180 AND 180);
+ALTER TABLE business_visits ADD COLUMN IF NOT EXISTS created_at TIMESTAMPTZ;
+
+-- Coordinates were only kept at the end of the location string: "Business - Address (lat, lng)"
+UPDATE business_visits v
+SET latitude = parsed.coords[1]::double precision,
+    longitude = parsed.coords[2]::double precision
+FROM (
+  SELECT id, regexp_match(location, '\((-?\d+\.\d+),\s*(-?\d+\.\d+)\)\s*$') AS coords
+  FROM business_visits
+) parsed
+WHERE parsed.id = v.id
+  AND parsed.coords IS NOT NULL
+  AND v.latitude IS NULL
+  AND abs(parsed.coords[1]::double precision) <= 90
+  AND abs(parsed.coords[2]::double precision) <= 180;
+
+-- Older visits have no date of their own; the visit event has when it was logged
+UPDATE business_visits v
+SET created_at = e.occurred_at
+FROM client_events e
+WHERE v.created_at IS NULL
+  AND e.event_type = 'visit'
+  AND e.data ->> 'visit_id' = v.id::text;
+
+ALTER TABLE business_visits ALTER COLUMN created_at SET DEFAULT NOW();
+
+CREATE TABLE IF NOT EXISTS territories (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  color VARCHAR(7) NOT NULL DEFAULT '#3B82F6',
+  -- [{ "latitude": .., "longitude": .. }, ...] in drawing order; the last point joins back to the first
+  boundary JSONB NOT NULL CHECK (jsonb_typeof(boundary) = 'array' AND jsonb_array_length(boundary) >= 3),
+  assignee_email TEXT, -- null = not assigned to anyone
+  created_by UUID DEFAULT auth.uid(),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS territories_assignee_email_idx ON territories(assignee_email) WHERE assignee_email IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION set_territory_updated_at() RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at := NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS territories_set_updated_at ON territories;
+CREATE TRIGGER territories_set_updated_at
+  BEFORE UPDATE ON territories
+  FOR EACH ROW EXECUTE FUNCTION set_territory_updated_at();
+
+ALTER TABLE territories ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Authenticated users can manage territories" ON territories
+  FOR ALL USING (auth.role() = 'authenticated');
+
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,26 @@
+-- Drop the plaintext password columns on clients now that credentials live in the vault.
+-- Run after the app has unlocked the vault once, which moves any remaining passwords across
+-- (migrations/10_create_credential_vault.sql); refuses to run while any are left.
+
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'clients' AND column_name = 'instagram_password'
+  ) THEN
+    IF EXISTS (
+      SELECT 1 FROM clients
+      WHERE instagram_password IS NOT NULL OR facebook_password IS NOT NULL OR tiktok_password IS NOT NULL
+    ) THEN
+      RAISE EXCEPTION 'Some clients still have plaintext passwords. Unlock the credential vault in the app first.';
+    END IF;
+  END IF;
+END;
+$$;
+
+ALTER TABLE clients
+  DROP COLUMN IF EXISTS instagram_password,
+  DROP COLUMN IF EXISTS facebook_password,
+  DROP COLUMN IF EXISTS tiktok_password;
+
+NOTIFY pgrst, 'reload schema';
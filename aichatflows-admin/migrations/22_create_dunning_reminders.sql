@@ -0,0 +1,28 @@
+-- Dunning reminders already sent, one row per invoice and reminder stage, so every device
+-- sees the same history and a reminder goes out once no matter how many devices run the schedule.
+-- Clients who have never been invoiced are keyed by their first due date instead.
+
+CREATE TABLE IF NOT EXISTS dunning_reminders (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  client_id UUID NOT NULL REFERENCES clients(id) ON DELETE CASCADE,
+  invoice_id UUID REFERENCES invoices(id) ON DELETE CASCADE,
+  due_date DATE NOT NULL,
+  reminder_stage INTEGER NOT NULL CHECK (reminder_stage > 0),
+  sent_by UUID DEFAULT auth.uid(),
+  sent_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- A device claims a reminder by inserting its row; a second insert fails with a unique violation
+CREATE UNIQUE INDEX IF NOT EXISTS dunning_reminders_invoice_stage_idx
+  ON dunning_reminders(invoice_id, reminder_stage) WHERE invoice_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS dunning_reminders_uninvoiced_stage_idx
+  ON dunning_reminders(client_id, due_date, reminder_stage) WHERE invoice_id IS NULL;
+
+-- Append-only history
+ALTER TABLE dunning_reminders ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Authenticated users can read dunning reminders" ON dunning_reminders
+  FOR SELECT USING (auth.role() = 'authenticated');
+CREATE POLICY "Authenticated users can record dunning reminders" ON dunning_reminders
+  FOR INSERT WITH CHECK (auth.role() = 'authenticated');
+
+NOTIFY pgrst, 'reload schema';
@@ -1,6 +1,6 @@
 import React from 'react';
 import { View, Text, ScrollView, TouchableOpacity } from 'react-native';
-import { Clock, User, CreditCard, UserPlus, Settings, TrendingUp, Activity } from 'lucide-react-native';
+import { Clock, User, CreditCard, UserPlus, Settings, TrendingUp, Activity, AlertTriangle, ArrowRightLeft } from 'lucide-react-native';
 import { ActivityLogEntry } from '../types';
 
 interface ActivityLogProps {
@@ -26,10 +26,14 @@ export function ActivityLog({
         return <TrendingUp {...iconProps} />;
       case 'payment_status':
         return <CreditCard {...iconProps} />;
+      case 'status_change':
+        return <ArrowRightLeft {...iconProps} />;
       case 'in_person_signup':
         return <UserPlus {...iconProps} />;
       case 'client_created':
         return <User {...iconProps} />;
+      case 'payment_reminder':
+        return <AlertTriangle {...iconProps} />;
       default:
         return <Activity {...iconProps} />;
     }
@@ -41,10 +45,14 @@ export function ActivityLog({
         return '#8B5CF6'; // Purple
       case 'payment_status':
         return '#10B981'; // Green
+      case 'status_change':
+        return '#F59E0B'; // Amber
       case 'in_person_signup':
         return '#3B82F6'; // Blue
       case 'client_created':
         return '#00D4AA'; // Primary
+      case 'payment_reminder':
+        return '#EF4444'; // Red
       default:
         return '#6B7280'; // Gray
     }
@@ -56,10 +64,14 @@ export function ActivityLog({
         return '#F3E8FF'; // Purple light
       case 'payment_status':
         return '#ECFDF5'; // Green light
+      case 'status_change':
+        return '#FFFBEB'; // Amber light
       case 'in_person_signup':
         return '#EFF6FF'; // Blue light
       case 'client_created':
         return '#ECFDF5'; // Green light
+      case 'payment_reminder':
+        return '#FEF2F2'; // Red light
       default:
         return '#F9FAFB'; // Gray light
     }
@@ -212,10 +224,14 @@ export function ActivityStats({ stats }: ActivityStatsProps) {
         return '#8B5CF6'; // Purple
       case 'payment_status':
         return '#10B981'; // Green
+      case 'status_change':
+        return '#F59E0B'; // Amber
       case 'in_person_signup':
         return '#3B82F6'; // Blue
       case 'client_created':
         return '#00D4AA'; // Primary
+      case 'payment_reminder':
+        return '#EF4444'; // Red
       default:
         return '#6B7280'; // Gray
     }
@@ -0,0 +1,258 @@
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, Image, Modal, Alert, Linking, ActivityIndicator } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import * as ImagePicker from 'expo-image-picker';
+import * as DocumentPicker from 'expo-document-picker';
+import { SimpleFormModal } from './SimpleFormModal';
+import { Button } from './Button';
+import { ConfirmDialog } from './ConfirmDialog';
+import { useClientAttachments } from '../hooks/useClientAttachments';
+import { ClientAttachment } from '../types';
+import {
+  ATTACHMENT_KINDS,
+  PickedFile,
+  formatFileSize,
+  getAttachmentKindIcon,
+  getAttachmentKindLabel,
+  getFileNameFromUri,
+  isImageFile,
+} from '../utils/attachments';
+
+// Take a photo or choose one from the library; null when cancelled or not permitted
+export const pickPhoto = async (source: 'camera' | 'library'): Promise<PickedFile | null> => {
+  const permission = source === 'camera'
+    ? await ImagePicker.requestCameraPermissionsAsync()
+    : await ImagePicker.requestMediaLibraryPermissionsAsync();
+  if (permission.status !== 'granted') {
+    Alert.alert('Permission Required', `Sorry, we need ${source === 'camera' ? 'camera' : 'camera roll'} permissions to add photos.`);
+    return null;
+  }
+
+  const options = { mediaTypes: ImagePicker.MediaTypeOptions.Images, quality: 1 };
+  const result = source === 'camera'
+    ? await ImagePicker.launchCameraAsync(options)
+    : await ImagePicker.launchImageLibraryAsync(options);
+  const asset = !result.canceled ? result.assets[0] : undefined;
+  if (!asset) return null;
+
+  return {
+    uri: asset.uri,
+    name: asset.fileName || getFileNameFromUri(asset.uri, 'photo.jpg'),
+    mimeType: asset.mimeType,
+    size: asset.fileSize,
+    width: asset.width,
+    height: asset.height,
+  };
+};
+
+// Pick any file, such as a PDF contract; null when cancelled
+export const pickDocument = async (): Promise<PickedFile | null> => {
+  const picked = await DocumentPicker.getDocumentAsync({ copyToCacheDirectory: true });
+  const asset = !picked.canceled ? picked.assets?.[0] : undefined;
+  if (!asset) return null;
+
+  return { uri: asset.uri, name: asset.name, mimeType: asset.mimeType, size: asset.size };
+};
+
+interface AttachmentGalleryProps {
+  clientId: string;
+}
+
+// Photos, logos, contracts and FAQ documents for a client, with upload progress and retries
+export const AttachmentGallery: React.FC<AttachmentGalleryProps> = ({ clientId }) => {
+  const {
+    attachments,
+    thumbnailUrls,
+    uploads,
+    loading,
+    uploadAttachment,
+    retryUpload,
+    dismissUpload,
+    deleteAttachment,
+    getAttachmentUrl,
+  } = useClientAttachments(clientId);
+
+  const [showAddModal, setShowAddModal] = useState(false);
+  const [kind, setKind] = useState<ClientAttachment['kind']>('photo');
+  const [viewing, setViewing] = useState<{ attachment: ClientAttachment; url: string } | null>(null);
+  const [opening, setOpening] = useState<string | null>(null);
+  const [deleteConfirm, setDeleteConfirm] = useState<ClientAttachment | null>(null);
+
+  const handlePick = async (picker: () => Promise<PickedFile | null>) => {
+    try {
+      const file = await picker();
+      if (!file) return;
+      setShowAddModal(false);
+      // Failures are shown in the upload list, where they can be retried
+      uploadAttachment(file, kind);
+    } catch (error: any) {
+      console.error('Failed to pick attachment:', error);
+      Alert.alert('Error', `Failed to add attachment: ${error.message}`);
+    }
+  };
+
+  // Images open in the viewer; other files in whatever the device uses for them
+  const openAttachment = async (attachment: ClientAttachment) => {
+    setOpening(attachment.id);
+    try {
+      const url = await getAttachmentUrl(attachment);
+      if (isImageFile(attachment.mime_type)) {
+        setViewing({ attachment, url });
+      } else {
+        await Linking.openURL(url);
+      }
+    } catch (error) {
+      // Error already handled in hook
+    } finally {
+      setOpening(null);
+    }
+  };
+
+  const handleDelete = async (attachment: ClientAttachment) => {
+    setDeleteConfirm(null);
+    try {
+      await deleteAttachment(attachment);
+    } catch (error) {
+      // Error already handled in hook
+    }
+  };
+
+  return (
+    <View className="bg-white rounded-xl p-6 shadow-sm mb-6">
+      <View className="flex-row items-center justify-between mb-4">
+        <Text className="text-lg font-semibold text-gray-900">Attachments</Text>
+        <Button size="sm" variant="secondary" icon="add" onPress={() => setShowAddModal(true)}>
+          Add
+        </Button>
+      </View>
+
+      {uploads.map(upload => (
+        <View key={upload.id} className="mb-3">
+          <View className="flex-row items-center justify-between mb-1">
+            <Text className="text-sm text-gray-700 flex-1 mr-2" numberOfLines={1}>{upload.fileName}</Text>
+            {upload.status === 'failed' ? (
+              <View className="flex-row">
+                <TouchableOpacity className="px-2" onPress={() => retryUpload(upload.id)}>
+                  <Text className="text-primary text-sm font-medium">Retry</Text>
+                </TouchableOpacity>
+                <TouchableOpacity className="px-2" onPress={() => dismissUpload(upload.id)}>
+                  <Text className="text-gray-500 text-sm">Dismiss</Text>
+                </TouchableOpacity>
+              </View>
+            ) : (
+              <Text className="text-xs text-gray-500">
+                {upload.status === 'preparing' ? 'Preparing...' : `${Math.round(upload.progress * 100)}%`}
+              </Text>
+            )}
+          </View>
+          {upload.status === 'failed' ? (
+            <Text className="text-xs text-red-500" numberOfLines={2}>{upload.error || 'Upload failed'}</Text>
+          ) : (
+            <View className="h-1.5 bg-gray-100 rounded-full overflow-hidden">
+              <View className="h-1.5 bg-primary rounded-full" style={{ width: `${Math.round(upload.progress * 100)}%` }} />
+            </View>
+          )}
+        </View>
+      ))}
+
+      {loading ? (
+        <ActivityIndicator color="#00D4AA" className="py-4" />
+      ) : attachments.length === 0 && uploads.length === 0 ? (
+        <Text className="text-gray-500 text-center py-4">No attachments yet</Text>
+      ) : (
+        <View className="flex-row flex-wrap -mx-1">
+          {attachments.map(attachment => (
+            <TouchableOpacity
+              key={attachment.id}
+              className="w-1/3 p-1"
+              onPress={() => openAttachment(attachment)}
+              onLongPress={() => setDeleteConfirm(attachment)}
+            >
+              <View className="aspect-square rounded-lg bg-gray-100 items-center justify-center overflow-hidden">
+                {thumbnailUrls[attachment.id] ? (
+                  <Image source={{ uri: thumbnailUrls[attachment.id] }} className="w-full h-full" resizeMode="cover" />
+                ) : (
+                  <Ionicons name={getAttachmentKindIcon(attachment.kind)} size={28} color="#6B7280" />
+                )}
+                {opening === attachment.id && (
+                  <View className="absolute inset-0 items-center justify-center bg-black/30">
+                    <ActivityIndicator color="#FFFFFF" />
+                  </View>
+                )}
+              </View>
+              <Text className="text-xs text-gray-700 mt-1" numberOfLines={1}>{attachment.file_name}</Text>
+              <Text className="text-xs text-gray-400" numberOfLines={1}>
+                {getAttachmentKindLabel(attachment.kind)}
+                {attachment.size_bytes ? ` · ${formatFileSize(attachment.size_bytes)}` : ''}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+
+      {attachments.length > 0 && (
+        <Text className="text-xs text-gray-400 mt-2">Tap to open. Press and hold to delete.</Text>
+      )}
+
+      <SimpleFormModal visible={showAddModal} onClose={() => setShowAddModal(false)} title="Add Attachment" size="md">
+        <View className="p-6">
+          <Text className="text-sm font-medium text-gray-700 mb-2">Type</Text>
+          <View className="flex-row flex-wrap gap-2 mb-6">
+            {ATTACHMENT_KINDS.map(option => (
+              <TouchableOpacity
+                key={option.value}
+                className={`flex-row items-center px-3 py-2 rounded-lg border ${
+                  kind === option.value ? 'bg-primary border-primary' : 'bg-white border-gray-300'
+                }`}
+                onPress={() => setKind(option.value)}
+              >
+                <Ionicons name={option.icon} size={14} color={kind === option.value ? '#FFFFFF' : '#374151'} />
+                <Text className={`ml-1 font-medium ${kind === option.value ? 'text-white' : 'text-gray-700'}`}>
+                  {option.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <View className="space-y-3">
+            <Button variant="secondary" icon="camera-outline" onPress={() => handlePick(() => pickPhoto('camera'))} fullWidth>
+              Take Photo
+            </Button>
+            <Button variant="secondary" icon="images-outline" onPress={() => handlePick(() => pickPhoto('library'))} fullWidth>
+              Choose Photo
+            </Button>
+            <Button variant="secondary" icon="document-outline" onPress={() => handlePick(pickDocument)} fullWidth>
+              Choose File
+            </Button>
+          </View>
+        </View>
+      </SimpleFormModal>
+
+      <Modal visible={!!viewing} animationType="fade" onRequestClose={() => setViewing(null)}>
+        <SafeAreaView className="flex-1 bg-black">
+          <View className="flex-row items-center px-4 py-3">
+            <TouchableOpacity onPress={() => setViewing(null)}>
+              <Ionicons name="close" size={28} color="#FFFFFF" />
+            </TouchableOpacity>
+            <Text className="text-white font-medium flex-1 ml-4" numberOfLines={1}>{viewing?.attachment.file_name}</Text>
+          </View>
+          {viewing && (
+            <Image source={{ uri: viewing.url }} className="flex-1" resizeMode="contain" />
+          )}
+        </SafeAreaView>
+      </Modal>
+
+      <ConfirmDialog
+        visible={!!deleteConfirm}
+        title="Delete Attachment"
+        message={`Delete ${deleteConfirm?.file_name}? The file will be removed from storage.`}
+        confirmText="Delete"
+        onConfirm={() => deleteConfirm && handleDelete(deleteConfirm)}
+        onCancel={() => setDeleteConfirm(null)}
+        icon="trash"
+        destructive
+      />
+    </View>
+  );
+};
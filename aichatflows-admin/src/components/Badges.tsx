@@ -1,7 +1,7 @@
 import React from 'react';
 import { View, Text, TouchableOpacity } from 'react-native';
-import { Client } from '../types';
-import { getPaymentStatusColor, getPaymentStatusText, getPlanColor, PLANS } from '../utils/finance';
+import { Client, PlanInfo } from '../types';
+import { DEFAULT_PLANS, getDefaultPlan, getPaymentStatusColor, getPaymentStatusText, getPlanColor, getPlanLabel } from '../utils/finance';
 
 interface PaymentStatusBadgeProps {
   status: Client['payment_status'];
@@ -39,18 +39,22 @@ export function PaymentStatusBadge({ status = 'unpaid', onPress, size = 'md' }:
 }
 
 interface PlanBadgeProps {
-  plan: Client['plan'];
+  plan: Client['plan'] | null;
+  plans?: PlanInfo[]; // Catalog the label comes from
+  price?: number; // Price the client pays for this plan
   onPress?: () => void;
   size?: 'sm' | 'md' | 'lg';
   showPrice?: boolean;
 }
 
-export function PlanBadge({ plan = 'starter', onPress, size = 'md', showPrice = false }: PlanBadgeProps) {
-  const color = getPlanColor(plan);
-  const planInfo = PLANS[plan];
-  const displayText = showPrice 
-    ? `${plan?.toUpperCase()} - $${planInfo.price}`
-    : plan?.toUpperCase() || 'STARTER';
+export function PlanBadge({ plan, plans = DEFAULT_PLANS, price, onPress, size = 'md', showPrice = false }: PlanBadgeProps) {
+  // Clients with no plan are on the catalog's default plan
+  const planName = plan ?? getDefaultPlan(plans).name;
+  const color = getPlanColor(planName);
+  const planText = getPlanLabel(plans, planName);
+  const displayText = showPrice && price !== undefined && price !== null
+    ? `${planText} - $${price}`
+    : planText;
   
   const sizeClasses = {
     sm: 'px-2 py-1',
@@ -156,6 +160,7 @@ export function InPersonBadge({ signedInPerson, size = 'sm' }: InPersonBadgeProp
 
 interface CombinedClientBadgesProps {
   client: Client;
+  plans?: PlanInfo[];
   onPaymentPress?: () => void;
   onPlanPress?: () => void;
   showPrice?: boolean;
@@ -164,6 +169,7 @@ interface CombinedClientBadgesProps {
 
 export function CombinedClientBadges({ 
   client, 
+  plans,
   onPaymentPress, 
   onPlanPress, 
   showPrice = false,
@@ -173,6 +179,8 @@ export function CombinedClientBadges({
     <View className="flex-row flex-wrap gap-1 mt-1">
       <PlanBadge 
         plan={client.plan} 
+        plans={plans}
+        price={client.plan_price}
         onPress={onPlanPress}
         size={size}
         showPrice={showPrice}
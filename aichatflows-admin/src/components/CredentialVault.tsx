@@ -0,0 +1,175 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text } from 'react-native';
+import { SimpleFormModal } from './SimpleFormModal';
+import { Button } from './Button';
+import { PasswordInput } from './Input';
+import { MIN_PASSPHRASE_LENGTH } from '../utils/vault';
+
+interface VaultUnlockModalProps {
+  visible: boolean;
+  mode: 'set_up' | 'unlock';
+  onClose: () => void;
+  onSubmit: (passphrase: string) => Promise<void>;
+}
+
+// Passphrase prompt for creating or unlocking the credential vault
+export const VaultUnlockModal: React.FC<VaultUnlockModalProps> = ({ visible, mode, onClose, onSubmit }) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!visible) {
+      setPassphrase('');
+      setConfirmation('');
+      setError(null);
+    }
+  }, [visible]);
+
+  const handleSubmit = async () => {
+    if (mode === 'set_up') {
+      if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+        setError(`Use at least ${MIN_PASSPHRASE_LENGTH} characters`);
+        return;
+      }
+      if (passphrase !== confirmation) {
+        setError('Passphrases do not match');
+        return;
+      }
+    }
+
+    setSubmitting(true);
+    try {
+      await onSubmit(passphrase);
+      onClose();
+    } catch (error) {
+      // Error already handled in hook
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <SimpleFormModal
+      visible={visible}
+      onClose={onClose}
+      title={mode === 'set_up' ? 'Set Up Credential Vault' : 'Unlock Credential Vault'}
+      size="sm"
+    >
+      <View className="p-6">
+        <Text className="text-gray-600 mb-4">
+          {mode === 'set_up'
+            ? 'Client logins are encrypted on this device with a key made from this passphrase. Share it only with other admins; it cannot be recovered if lost.'
+            : 'Enter the vault passphrase to work with client login credentials.'}
+        </Text>
+
+        <PasswordInput
+          label="Passphrase"
+          value={passphrase}
+          onChangeText={(text) => { setPassphrase(text); setError(null); }}
+          autoCapitalize="none"
+          required
+        />
+
+        {mode === 'set_up' && (
+          <PasswordInput
+            label="Confirm Passphrase"
+            value={confirmation}
+            onChangeText={(text) => { setConfirmation(text); setError(null); }}
+            autoCapitalize="none"
+            required
+          />
+        )}
+
+        {error && <Text className="text-red-500 text-sm mb-4">{error}</Text>}
+
+        <Button
+          icon="lock-open"
+          onPress={handleSubmit}
+          loading={submitting}
+          disabled={!passphrase || submitting}
+          fullWidth
+        >
+          {mode === 'set_up' ? 'Create Vault' : 'Unlock'}
+        </Button>
+      </View>
+    </SimpleFormModal>
+  );
+};
+
+interface ReauthModalProps {
+  visible: boolean;
+  onClose: () => void;
+  onConfirm: (password?: string) => Promise<boolean>;
+  canUseBiometrics: boolean;
+}
+
+// Asks the signed-in admin to prove it's them again before a secret is shown
+export const ReauthModal: React.FC<ReauthModalProps> = ({ visible, onClose, onConfirm, canUseBiometrics }) => {
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!visible) {
+      setPassword('');
+      setError(null);
+    }
+  }, [visible]);
+
+  const confirm = async (value?: string) => {
+    setSubmitting(true);
+    try {
+      const confirmed = await onConfirm(value);
+      if (!confirmed) {
+        setError(value === undefined ? 'Biometric check failed' : 'Incorrect password');
+      }
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <SimpleFormModal visible={visible} onClose={onClose} title="Confirm It's You" size="sm">
+      <View className="p-6">
+        <Text className="text-gray-600 mb-4">
+          Revealing a client password is recorded in the access history.
+        </Text>
+
+        {canUseBiometrics && (
+          <View className="mb-4">
+            <Button
+              icon="finger-print"
+              variant="secondary"
+              onPress={() => confirm()}
+              disabled={submitting}
+              fullWidth
+            >
+              Use Biometrics
+            </Button>
+            <Text className="text-center text-gray-500 text-sm mt-4">or enter your account password</Text>
+          </View>
+        )}
+
+        <PasswordInput
+          label="Account Password"
+          value={password}
+          onChangeText={(text) => { setPassword(text); setError(null); }}
+          autoCapitalize="none"
+        />
+
+        {error && <Text className="text-red-500 text-sm mb-4">{error}</Text>}
+
+        <Button
+          onPress={() => confirm(password)}
+          loading={submitting}
+          disabled={!password || submitting}
+          fullWidth
+        >
+          Confirm
+        </Button>
+      </View>
+    </SimpleFormModal>
+  );
+};
@@ -1,6 +1,8 @@
 import React from 'react';
 import { View, Text, TouchableOpacity, ScrollView } from 'react-native';
 import { X } from 'lucide-react-native';
+import { Client, CustomFieldDefinition } from '../types';
+import { CUSTOM_FILTER_PREFIX, TAG_FILTER_ID, getAllTags, sortFieldDefinitions } from '../utils/customFields';
 
 export interface FilterOption {
   key: string;
@@ -158,10 +160,7 @@ export const CLIENT_FILTER_GROUPS: FilterGroup[] = [
   {
     id: 'plan',
     label: 'Plan',
-    options: [
-      { key: 'starter', label: 'Starter', value: 'starter' },
-      { key: 'pro', label: 'Pro', value: 'pro' },
-    ],
+    options: [], // Filled from the plan catalog by the screen
     showClearAll: true,
   },
   {
@@ -185,6 +184,46 @@ export const CLIENT_FILTER_GROUPS: FilterGroup[] = [
   },
 ];
 
+// Client facets for tags in use and each select or yes/no custom field
+export const getClientCustomFieldFilterGroups = (
+  definitions: CustomFieldDefinition[],
+  clients: Pick<Client, 'tags'>[]
+): FilterGroup[] => {
+  const groups: FilterGroup[] = [];
+  const tags = getAllTags(clients);
+
+  if (tags.length > 0) {
+    groups.push({
+      id: TAG_FILTER_ID,
+      label: 'Tags',
+      multiSelect: true,
+      options: tags.map(tag => ({ key: tag, label: tag, value: tag })),
+    });
+  }
+
+  sortFieldDefinitions(definitions).forEach(definition => {
+    if (definition.field_type === 'select') {
+      groups.push({
+        id: `${CUSTOM_FILTER_PREFIX}${definition.key}`,
+        label: definition.label,
+        multiSelect: true,
+        options: definition.options.map(option => ({ key: option, label: option, value: option })),
+      });
+    } else if (definition.field_type === 'boolean') {
+      groups.push({
+        id: `${CUSTOM_FILTER_PREFIX}${definition.key}`,
+        label: definition.label,
+        options: [
+          { key: 'yes', label: 'Yes', value: true },
+          { key: 'no', label: 'No', value: false },
+        ],
+      });
+    }
+  });
+
+  return groups;
+};
+
 export const PAYMENT_FILTER_GROUPS: FilterGroup[] = [
   {
     id: 'status',
@@ -253,4 +292,16 @@ export const VISIT_FILTER_GROUPS: FilterGroup[] = [
     ],
     showClearAll: true,
   },
+  {
+    id: 'city',
+    label: 'City',
+    options: [], // Filled in from the visits loaded
+    multiSelect: true,
+  },
+  {
+    id: 'territory',
+    label: 'Territory',
+    options: [], // Filled in from the territories drawn
+    multiSelect: true,
+  },
 ];
\ No newline at end of file
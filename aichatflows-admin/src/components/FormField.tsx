@@ -1,5 +1,8 @@
 import React, { ReactNode } from 'react';
-import { View, Text, ViewStyle } from 'react-native';
+import { View, Text, TouchableOpacity, ViewStyle } from 'react-native';
+import { Input } from './Input';
+import { Toggle } from './Toggle';
+import { CustomFieldDefinition } from '../types';
 
 export interface FormFieldProps {
   children: ReactNode;
@@ -61,4 +64,63 @@ export const FormField: React.FC<FormFieldProps> = ({
   );
 };
 
+export interface CustomFieldFormFieldProps {
+  definition: CustomFieldDefinition;
+  value: string;
+  onChange: (value: string) => void;
+  error?: string;
+}
+
+// Renders the control for an admin-defined field; every type is edited as a string (see utils/customFields)
+export const CustomFieldFormField: React.FC<CustomFieldFormFieldProps> = ({
+  definition,
+  value,
+  onChange,
+  error
+}) => {
+  const isBoolean = definition.field_type === 'boolean';
+
+  return (
+    <FormField
+      label={isBoolean ? undefined : definition.label}
+      required={definition.required && !isBoolean}
+      error={error}
+      helperText={definition.field_type === 'date' ? 'YYYY-MM-DD' : undefined}
+      spacing="compact"
+    >
+      {definition.field_type === 'select' ? (
+        <View className="flex-row flex-wrap gap-2">
+          {definition.options.map((option) => (
+            <TouchableOpacity
+              key={option}
+              className={`px-4 py-2 rounded-lg border ${
+                value === option ? 'bg-primary border-primary' : 'bg-white border-gray-300'
+              }`}
+              onPress={() => onChange(value === option ? '' : option)}
+            >
+              <Text className={`font-medium ${value === option ? 'text-white' : 'text-gray-700'}`}>
+                {option}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      ) : isBoolean ? (
+        <Toggle
+          label={definition.label}
+          value={value === 'true'}
+          onValueChange={(checked) => onChange(checked ? 'true' : 'false')}
+        />
+      ) : (
+        <Input
+          value={value}
+          onChangeText={onChange}
+          placeholder={definition.field_type === 'date' ? '2025-01-31' : definition.label}
+          keyboardType={definition.field_type === 'number' ? 'decimal-pad' : 'default'}
+          variant={error ? 'error' : 'default'}
+        />
+      )}
+    </FormField>
+  );
+};
+
 export default FormField;
\ No newline at end of file
@@ -0,0 +1,57 @@
+import React from 'react';
+import { View, Text } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { ClientHealth, getHealthLevelColor, getHealthLevelLabel } from '../utils/healthScore';
+
+// Small pill for client cards
+export function HealthScoreBadge({ health }: { health?: ClientHealth }) {
+  if (!health) return null;
+
+  const color = getHealthLevelColor(health.level);
+
+  return (
+    <View className="flex-row items-center px-2 py-1 rounded-full" style={{ backgroundColor: `${color}1A` }}>
+      <Ionicons name="pulse" size={12} color={color} />
+      <Text className="text-xs font-semibold ml-1" style={{ color }}>
+        {health.score}
+      </Text>
+    </View>
+  );
+}
+
+// Score with a bar per factor, for the client detail screen
+export function HealthScoreCard({ health }: { health?: ClientHealth }) {
+  if (!health) return null;
+
+  const color = getHealthLevelColor(health.level);
+
+  return (
+    <View className="bg-white rounded-xl p-6 shadow-sm mb-6">
+      <View className="flex-row items-center justify-between mb-4">
+        <Text className="text-lg font-semibold text-gray-900">Health Score</Text>
+        <View className="flex-row items-baseline">
+          <Text className="text-2xl font-bold" style={{ color }}>{health.score}</Text>
+          <Text className="text-sm text-gray-500 ml-1">/ 100 · {getHealthLevelLabel(health.level)}</Text>
+        </View>
+      </View>
+
+      {health.factors.map(factor => (
+        <View key={factor.factor} className="mb-3">
+          <View className="flex-row justify-between mb-1">
+            <Text className="text-sm font-medium text-gray-700">{factor.label}</Text>
+            <Text className="text-xs text-gray-500">
+              {Math.round(factor.score * 100)}% · weighs {Math.round(factor.weight * 100)}%
+            </Text>
+          </View>
+          <View className="h-2 bg-gray-100 rounded-full overflow-hidden">
+            <View
+              className="h-2 rounded-full"
+              style={{ width: `${Math.round(factor.score * 100)}%`, backgroundColor: color }}
+            />
+          </View>
+          <Text className="text-xs text-gray-400 mt-1">{factor.detail}</Text>
+        </View>
+      ))}
+    </View>
+  );
+}
@@ -2,6 +2,7 @@ import React, { useState } from 'react';
 import { View, Text, TouchableOpacity, ScrollView, Share, Alert } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { WeeklyMetrics, MonthlyMetrics, formatMetricsSummary } from '../utils/metrics';
+import { DEFAULT_CURRENCY, formatForeignTotals, formatMoney } from '../utils/currency';
 import { Card } from './Card';
 
 interface MetricsSummaryProps {
@@ -92,6 +93,9 @@ export function MetricsSummary({
 
   const currentMetrics = activeTab === 'week' ? currentWeek : currentMonth;
   const previousMetrics = activeTab === 'week' ? previousWeek : previousMonth;
+  // Cached metrics from before multi-currency have no currency fields
+  const revenueCurrency = currentMetrics?.currency || DEFAULT_CURRENCY;
+  const foreignRevenue = formatForeignTotals(currentMetrics?.revenueByCurrency || {}, revenueCurrency);
 
   if (!currentMetrics) {
     return (
@@ -206,14 +210,17 @@ export function MetricsSummary({
             <View className="flex-1">
               <Text className="text-sm text-gray-600">💰 Revenue</Text>
               <Text className="text-2xl font-bold text-primary">
-                ${(currentMetrics.totalRevenue || 0).toLocaleString()}
+                {formatMoney(currentMetrics.totalRevenue || 0, revenueCurrency, 0)}
               </Text>
               {(currentMetrics.paymentsReceived || 0) > 0 && (
                 <Text className="text-xs text-gray-500 mt-1">
                   {currentMetrics.paymentsReceived} payment{currentMetrics.paymentsReceived !== 1 ? 's' : ''} • 
-                  Avg: ${(currentMetrics.averagePayment || 0).toFixed(0)}
+                  Avg: {formatMoney(currentMetrics.averagePayment || 0, revenueCurrency, 0)}
                 </Text>
               )}
+              {!!foreignRevenue && (
+                <Text className="text-xs text-gray-400 mt-0.5">Includes {foreignRevenue}</Text>
+              )}
             </View>
             {previousMetrics && (
               <View className="items-end">
@@ -0,0 +1,245 @@
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, Alert, ActivityIndicator } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { SimpleFormModal } from './SimpleFormModal';
+import { Button } from './Button';
+import { Input, SearchInput } from './Input';
+import { useNotes } from '../hooks/useNotes';
+import { Note, NoteRevision } from '../types';
+import { fuzzySearchItems, NOTE_SEARCH_FIELDS } from '../utils/search';
+import { buildNoteThreads, getMentionHandle, getMentionQuery, getNoteAuthorLabel, insertMention } from '../utils/notes';
+
+// Admins suggested while typing an @mention
+const MENTION_SUGGESTION_COUNT = 4;
+
+interface NotesThreadProps {
+  entityType: Note['entity_type'];
+  entityId: string;
+}
+
+// Notes log for a client, payment or visit, with replies, pinning, @mentions and edit history
+export const NotesThread: React.FC<NotesThreadProps> = ({ entityType, entityId }) => {
+  const { notes, admins, loading, currentUserId, addNote, editNote, setNotePinned, deleteNote, fetchRevisions } = useNotes(entityType, entityId);
+
+  const [draft, setDraft] = useState('');
+  const [replyTo, setReplyTo] = useState<Note | null>(null);
+  const [editing, setEditing] = useState<Note | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [search, setSearch] = useState('');
+  const [historyNote, setHistoryNote] = useState<Note | null>(null);
+  const [revisions, setRevisions] = useState<NoteRevision[]>([]);
+
+  const threads = buildNoteThreads(notes);
+  const searchResults = search.trim() ? fuzzySearchItems(notes, search, NOTE_SEARCH_FIELDS).map(result => result.item) : [];
+
+  const mentionQuery = getMentionQuery(draft);
+  const mentionSuggestions = mentionQuery === null
+    ? []
+    : admins
+      .filter(admin => admin.id !== currentUserId && getMentionHandle(admin.email).startsWith(mentionQuery))
+      .slice(0, MENTION_SUGGESTION_COUNT);
+
+  // Legacy notes have no author, so anyone may tidy them up
+  const canModify = (note: Note) => !note.author_id || note.author_id === currentUserId;
+
+  const resetComposer = () => {
+    setDraft('');
+    setReplyTo(null);
+    setEditing(null);
+  };
+
+  const handleSave = async () => {
+    if (!draft.trim()) return;
+    setSaving(true);
+    try {
+      if (editing) {
+        await editNote(editing.id, draft);
+      } else {
+        await addNote(draft, replyTo?.id);
+      }
+      resetComposer();
+    } catch (error) {
+      // Error already handled in hook
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const showHistory = async (note: Note) => {
+    try {
+      setRevisions(await fetchRevisions(note.id));
+      setHistoryNote(note);
+    } catch (error) {
+      // Error already handled in hook
+    }
+  };
+
+  const confirmDelete = (note: Note) => {
+    Alert.alert('Delete Note', note.parent_id ? 'Delete this reply?' : 'Delete this note and its replies?', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await deleteNote(note.id);
+          } catch (error) {
+            // Error already handled in hook
+          }
+        },
+      },
+    ]);
+  };
+
+  const openNoteMenu = (note: Note) => {
+    // Only replies for a note still in the sync queue; they're queued after it, so they sync in order
+    if (note.pending_sync) {
+      Alert.alert('Waiting to Sync', 'This note was added offline and will sync when the connection is back.', [
+        ...(!note.parent_id ? [{ text: 'Reply', onPress: () => { setEditing(null); setReplyTo(note); } }] : []),
+        { text: 'OK', style: 'cancel' as const },
+      ]);
+      return;
+    }
+
+    Alert.alert(getNoteAuthorLabel(note), undefined, [
+      ...(!note.parent_id ? [{ text: 'Reply', onPress: () => { setEditing(null); setReplyTo(note); } }] : []),
+      ...(!note.parent_id ? [{
+        text: note.pinned ? 'Unpin' : 'Pin',
+        onPress: () => setNotePinned(note.id, !note.pinned).catch(() => {
+          // Error already handled in hook
+        }),
+      }] : []),
+      ...(canModify(note) ? [{ text: 'Edit', onPress: () => { setReplyTo(null); setEditing(note); setDraft(note.body); } }] : []),
+      ...(note.edited_at ? [{ text: 'Edit History', onPress: () => showHistory(note) }] : []),
+      ...(canModify(note) ? [{ text: 'Delete', style: 'destructive' as const, onPress: () => confirmDelete(note) }] : []),
+      { text: 'Cancel', style: 'cancel' as const },
+    ]);
+  };
+
+  // Mentions of known admins are highlighted
+  const renderBody = (note: Note) => {
+    const mentionedHandles = note.mentions.map(getMentionHandle);
+    return (
+      <Text className="text-gray-700 leading-5">
+        {note.body.split(/(@[\w.+-]+)/g).map((part, index) => (
+          part.startsWith('@') && mentionedHandles.includes(part.slice(1).toLowerCase().replace(/\.+$/, ''))
+            ? <Text key={index} className="text-primary font-medium">{part}</Text>
+            : part
+        ))}
+      </Text>
+    );
+  };
+
+  const renderNote = (note: Note, isReply = false) => (
+    <TouchableOpacity
+      key={note.id}
+      className={`py-3 ${isReply ? 'ml-6 pl-3 border-l-2 border-gray-100' : 'border-b border-gray-100'}`}
+      onPress={() => openNoteMenu(note)}
+    >
+      <View className="flex-row items-center mb-1">
+        {note.pinned && <Ionicons name="pin" size={14} color="#F59E0B" style={{ marginRight: 4 }} />}
+        <Text className="text-sm font-medium text-gray-900 flex-1" numberOfLines={1}>{getNoteAuthorLabel(note)}</Text>
+        {note.pending_sync ? (
+          <View className="flex-row items-center">
+            <Ionicons name="cloud-upload-outline" size={12} color="#D97706" />
+            <Text className="text-xs text-amber-700 ml-1">Pending sync</Text>
+          </View>
+        ) : (
+          <Text className="text-xs text-gray-400">
+            {new Date(note.created_at).toLocaleString()}{note.edited_at ? ' · edited' : ''}
+          </Text>
+        )}
+      </View>
+      {renderBody(note)}
+    </TouchableOpacity>
+  );
+
+  return (
+    <View className="bg-white rounded-xl p-6 shadow-sm mb-6">
+      <View className="flex-row items-center justify-between mb-4">
+        <Text className="text-lg font-semibold text-gray-900">Notes</Text>
+        {notes.length > 0 && <Text className="text-gray-500 text-sm">{notes.length}</Text>}
+      </View>
+
+      {(replyTo || editing) && (
+        <View className="flex-row items-center justify-between bg-gray-50 rounded-lg px-3 py-2 mb-2">
+          <Text className="text-sm text-gray-600 flex-1" numberOfLines={1}>
+            {editing ? 'Editing note' : `Replying to ${getNoteAuthorLabel(replyTo!)}`}
+          </Text>
+          <TouchableOpacity onPress={resetComposer}>
+            <Ionicons name="close" size={18} color="#6B7280" />
+          </TouchableOpacity>
+        </View>
+      )}
+
+      <Input
+        value={draft}
+        onChangeText={setDraft}
+        placeholder="Add a note. Type @ to mention someone"
+        multiline
+      />
+
+      {mentionSuggestions.length > 0 && (
+        <View className="flex-row flex-wrap mb-3">
+          {mentionSuggestions.map(admin => (
+            <TouchableOpacity
+              key={admin.id}
+              className="px-3 py-1 rounded-lg border border-gray-300 mr-2 mb-2"
+              onPress={() => setDraft(insertMention(draft, admin.email))}
+            >
+              <Text className="text-gray-700 text-sm">@{getMentionHandle(admin.email)}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+
+      <Button size="sm" icon={editing ? 'checkmark' : 'chatbubble-outline'} onPress={handleSave} loading={saving} disabled={saving || !draft.trim()} fullWidth>
+        {editing ? 'Save Changes' : replyTo ? 'Reply' : 'Add Note'}
+      </Button>
+
+      {notes.length > 3 && (
+        <View className="mt-4">
+          <SearchInput value={search} onChangeText={setSearch} onClear={() => setSearch('')} placeholder="Search notes" />
+        </View>
+      )}
+
+      <View className="mt-2">
+        {loading ? (
+          <ActivityIndicator color="#00D4AA" className="py-4" />
+        ) : search.trim() ? (
+          searchResults.length === 0
+            ? <Text className="text-gray-500 text-center py-4">No notes match &ldquo;{search}&rdquo;</Text>
+            : searchResults.map(note => renderNote(note))
+        ) : threads.length === 0 ? (
+          <Text className="text-gray-500 text-center py-4">No notes yet</Text>
+        ) : (
+          threads.map(({ note, replies }) => (
+            <View key={note.id}>
+              {renderNote(note)}
+              {replies.map(reply => renderNote(reply, true))}
+            </View>
+          ))
+        )}
+      </View>
+
+      <SimpleFormModal visible={!!historyNote} onClose={() => setHistoryNote(null)} title="Edit History" size="md">
+        <View className="p-6">
+          {historyNote && (
+            <View className="mb-4">
+              <Text className="text-xs text-gray-400 mb-1">Current</Text>
+              <Text className="text-gray-900">{historyNote.body}</Text>
+            </View>
+          )}
+          {revisions.map(revision => (
+            <View key={revision.id} className="py-3 border-t border-gray-100">
+              <Text className="text-xs text-gray-400 mb-1">
+                Before {revision.edited_by_email || 'an edit'} changed it on {new Date(revision.revised_at).toLocaleString()}
+              </Text>
+              <Text className="text-gray-700">{revision.body}</Text>
+            </View>
+          ))}
+        </View>
+      </SimpleFormModal>
+    </View>
+  );
+};
@@ -17,7 +17,8 @@ import {
   Users, 
   MapPin, 
   Target,
-  CheckCircle 
+  CheckCircle,
+  AlertTriangle
 } from 'lucide-react-native';
 import { NotificationLog } from '../types';
 import { useNotificationCenter } from '../hooks/useNotificationCenter';
@@ -52,6 +53,8 @@ export function NotificationCenter({ visible, onClose }: NotificationCenterProps
         return <MapPin {...iconProps} color="#F59E0B" />;
       case 'goal_reached':
         return <Target {...iconProps} color="#8B5CF6" />;
+      case 'payment_overdue':
+        return <AlertTriangle {...iconProps} color="#EF4444" />;
       default:
         return <Bell {...iconProps} color="#6B7280" />;
     }
@@ -67,6 +70,8 @@ export function NotificationCenter({ visible, onClose }: NotificationCenterProps
         return '#FEF3C7'; // yellow-50
       case 'goal_reached':
         return '#F3E8FF'; // purple-50
+      case 'payment_overdue':
+        return '#FEF2F2'; // red-50
       default:
         return '#F9FAFB'; // gray-50
     }
@@ -0,0 +1,103 @@
+import React, { useMemo } from 'react';
+import { View, Text, ScrollView, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Client, ClientStatusChange } from '../types';
+import {
+  PIPELINE_STAGES,
+  PipelineStage,
+  StaleThresholds,
+  formatTimeInStage,
+  groupClientsByStage,
+  isStaleInStage,
+} from '../utils/pipeline';
+
+interface PipelineBoardProps {
+  clients: Client[];
+  statusChanges: ClientStatusChange[];
+  staleThresholds: StaleThresholds;
+  onClientPress: (client: Client) => void;
+  onMoveClient: (client: Client, status: PipelineStage) => void;
+  onMovePress: (client: Client) => void; // Long press: pick any stage
+}
+
+const COLUMN_WIDTH = 260;
+
+// Kanban view of clients, one column per status
+export function PipelineBoard({
+  clients,
+  statusChanges,
+  staleThresholds,
+  onClientPress,
+  onMoveClient,
+  onMovePress,
+}: PipelineBoardProps) {
+  const columns = useMemo(() => groupClientsByStage(clients, statusChanges), [clients, statusChanges]);
+
+  return (
+    <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={{ paddingHorizontal: 16 }}>
+      {PIPELINE_STAGES.map((stage, stageIndex) => {
+        const cards = columns[stage.status];
+        const staleCount = cards.filter(card => isStaleInStage(card.daysInStage, stage.status, staleThresholds)).length;
+        const previous = PIPELINE_STAGES[stageIndex - 1];
+        const next = PIPELINE_STAGES[stageIndex + 1];
+
+        return (
+          <View key={stage.status} className="bg-gray-100 rounded-xl p-3 mr-3" style={{ width: COLUMN_WIDTH }}>
+            <View className="flex-row items-center justify-between mb-3">
+              <View className="flex-row items-center">
+                <View className="w-2.5 h-2.5 rounded-full mr-2" style={{ backgroundColor: stage.color }} />
+                <Text className="font-semibold text-gray-900">{stage.label}</Text>
+                <Text className="text-gray-500 ml-2">{cards.length}</Text>
+              </View>
+              {staleCount > 0 && (
+                <Text className="text-red-600 text-xs font-medium">{staleCount} stale</Text>
+              )}
+            </View>
+
+            {cards.length === 0 ? (
+              <Text className="text-gray-400 text-sm text-center py-6">No clients</Text>
+            ) : (
+              cards.map(({ client, daysInStage }) => {
+                const stale = isStaleInStage(daysInStage, stage.status, staleThresholds);
+                return (
+                  <TouchableOpacity
+                    key={client.id}
+                    className={`bg-white rounded-lg p-3 mb-2 border ${stale ? 'border-red-300' : 'border-gray-200'}`}
+                    onPress={() => onClientPress(client)}
+                    onLongPress={() => onMovePress(client)}
+                    activeOpacity={0.7}
+                  >
+                    <Text className="font-medium text-gray-900" numberOfLines={1}>{client.name}</Text>
+                    {!!client.business_name && (
+                      <Text className="text-gray-500 text-sm" numberOfLines={1}>{client.business_name}</Text>
+                    )}
+                    <View className="flex-row items-center justify-between mt-2">
+                      <View className="flex-row items-center">
+                        <Ionicons name={stale ? 'alert-circle' : 'time-outline'} size={14} color={stale ? '#DC2626' : '#6B7280'} />
+                        <Text className={`text-xs ml-1 ${stale ? 'text-red-600 font-medium' : 'text-gray-500'}`}>
+                          {formatTimeInStage(daysInStage)} in stage
+                        </Text>
+                      </View>
+                      <View className="flex-row">
+                        {previous && (
+                          <TouchableOpacity onPress={() => onMoveClient(client, previous.status)} className="p-1">
+                            <Ionicons name="chevron-back" size={18} color="#00D4AA" />
+                          </TouchableOpacity>
+                        )}
+                        {next && (
+                          <TouchableOpacity onPress={() => onMoveClient(client, next.status)} className="p-1">
+                            <Ionicons name="chevron-forward" size={18} color="#00D4AA" />
+                          </TouchableOpacity>
+                        )}
+                      </View>
+                    </View>
+                  </TouchableOpacity>
+                );
+              })
+            )}
+          </View>
+        );
+      })}
+    </ScrollView>
+  );
+}
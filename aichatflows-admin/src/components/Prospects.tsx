@@ -0,0 +1,172 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { SimpleFormModal } from './SimpleFormModal';
+import { Button } from './Button';
+import { Input } from './Input';
+import { Prospect, ProspectFormData } from '../types';
+import { validateProspect } from '../utils/validation';
+import { OPEN_PROSPECT_STAGES, PROSPECT_STAGES, getProspectStageColor, getProspectStageIcon, getProspectStageLabel } from '../utils/prospects';
+
+export function ProspectStageBadge({ stage }: { stage: Prospect['stage'] }) {
+  const color = getProspectStageColor(stage);
+
+  return (
+    <View className="flex-row items-center self-start px-2 py-1 rounded-full" style={{ backgroundColor: `${color}1A` }}>
+      <Ionicons name={getProspectStageIcon(stage)} size={12} color={color} />
+      <Text className="text-xs font-medium ml-1" style={{ color }}>{getProspectStageLabel(stage)}</Text>
+    </View>
+  );
+}
+
+interface ProspectFormModalProps {
+  visible: boolean;
+  title: string;
+  initialValues: ProspectFormData;
+  onClose: () => void;
+  onSubmit: (formData: ProspectFormData) => Promise<void>;
+}
+
+// Create or edit a prospect. "Signed" isn't offered here; prospects sign by converting to a client
+export const ProspectFormModal: React.FC<ProspectFormModalProps> = ({
+  visible,
+  title,
+  initialValues,
+  onClose,
+  onSubmit,
+}) => {
+  const [formData, setFormData] = useState<ProspectFormData>(initialValues);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (visible) {
+      setFormData(initialValues);
+      setErrors({});
+    }
+  }, [visible]);
+
+  const stageOptions = PROSPECT_STAGES.filter(option =>
+    OPEN_PROSPECT_STAGES.includes(option.value) || option.value === 'rejected'
+  );
+
+  const updateField = (updates: Partial<ProspectFormData>) => {
+    setFormData(prev => ({ ...prev, ...updates }));
+    setErrors({});
+  };
+
+  const handleSubmit = async () => {
+    const validation = validateProspect(formData);
+    if (!validation.isValid) {
+      setErrors(validation.errors);
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      await onSubmit(formData);
+      onClose();
+    } catch (error) {
+      // Error already handled in hook
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <SimpleFormModal visible={visible} onClose={onClose} title={title} size="lg">
+      <View className="p-6">
+        <Input
+          label="Business Name"
+          value={formData.business_name}
+          onChangeText={(text) => updateField({ business_name: text })}
+          placeholder="e.g. Corner Bakery"
+          autoCapitalize="words"
+          error={errors.business_name}
+          required
+        />
+
+        <Input
+          label="Address"
+          value={formData.address}
+          onChangeText={(text) => updateField({ address: text })}
+          placeholder="Street, city"
+          leftIcon="location-outline"
+          multiline
+        />
+
+        <Input
+          label="Contact Person"
+          value={formData.contact_name}
+          onChangeText={(text) => updateField({ contact_name: text })}
+          placeholder="Who you spoke to"
+          autoCapitalize="words"
+          leftIcon="person-outline"
+        />
+
+        <View className="flex-row space-x-3">
+          <View className="flex-1">
+            <Input
+              label="Phone"
+              value={formData.contact_phone}
+              onChangeText={(text) => updateField({ contact_phone: text })}
+              placeholder="Optional"
+              keyboardType="phone-pad"
+            />
+          </View>
+          <View className="flex-1">
+            <Input
+              label="Email"
+              value={formData.contact_email}
+              onChangeText={(text) => updateField({ contact_email: text })}
+              placeholder="Optional"
+              keyboardType="email-address"
+              autoCapitalize="none"
+              error={errors.contact_email}
+            />
+          </View>
+        </View>
+
+        <View className="mb-4">
+          <Text className="text-sm font-medium text-gray-700 mb-2">Stage</Text>
+          <View className="flex-row flex-wrap gap-2">
+            {stageOptions.map(option => (
+              <TouchableOpacity
+                key={option.value}
+                className={`px-3 py-2 rounded-lg border ${
+                  formData.stage === option.value ? 'bg-primary border-primary' : 'bg-white border-gray-300'
+                }`}
+                onPress={() => updateField({ stage: option.value })}
+              >
+                <Text className={`font-medium ${formData.stage === option.value ? 'text-white' : 'text-gray-700'}`}>
+                  {option.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+
+        <Input
+          label="Next Action"
+          value={formData.next_action_date}
+          onChangeText={(text) => updateField({ next_action_date: text })}
+          placeholder="YYYY-MM-DD (optional)"
+          leftIcon="calendar-outline"
+          error={errors.next_action_date}
+        />
+
+        <Input
+          label="Notes"
+          value={formData.notes}
+          onChangeText={(text) => updateField({ notes: text })}
+          placeholder="Optional"
+          multiline
+        />
+
+        <Button icon="checkmark" onPress={handleSubmit} loading={submitting} disabled={submitting} fullWidth>
+          Save Prospect
+        </Button>
+      </View>
+    </SimpleFormModal>
+  );
+};
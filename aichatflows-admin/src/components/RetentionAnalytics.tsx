@@ -110,7 +110,10 @@ export function RetentionAnalytics({ retention, loading = false, onClientPress }
               {retention.retentionRate.toFixed(1)}%
             </Text>
             <Text className="text-xs text-gray-500 mt-1">
-              {retention.clientsWithMultipleVisits} of {retention.totalClients} clients returned
+              {retention.retainedClients} of {retention.eligibleClients} clients still with you after {retention.retentionWindowDays} days
+            </Text>
+            <Text className="text-xs text-gray-500">
+              Average tenure {retention.averageTenureDays.toFixed(0)} days · {retention.churnedClients} churned
             </Text>
             <Text className="text-xs text-gray-600 mt-2">
               {getRetentionMessage(retention.retentionRate)}
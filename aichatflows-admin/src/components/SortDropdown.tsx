@@ -203,6 +203,18 @@ export const CLIENT_SORT_OPTIONS: SortOption[] = [
     field: 'plan',
     direction: 'desc',
   },
+  {
+    key: 'health_desc',
+    label: 'Health High-Low',
+    field: 'health_score', // Added with withHealthScores
+    direction: 'desc',
+  },
+  {
+    key: 'health_asc',
+    label: 'Health Low-High',
+    field: 'health_score',
+    direction: 'asc',
+  },
 ];
 
 export const PAYMENT_SORT_OPTIONS: SortOption[] = [
@@ -315,17 +327,23 @@ export const VISIT_SORT_OPTIONS: SortOption[] = [
     direction: 'asc',
   },
   {
-    key: 'location_asc',
-    label: 'Location A-Z',
-    field: 'location',
+    key: 'business_asc',
+    label: 'Business A-Z',
+    field: 'business_name',
     direction: 'asc',
   },
   {
-    key: 'location_desc',
-    label: 'Location Z-A',
-    field: 'location',
+    key: 'business_desc',
+    label: 'Business Z-A',
+    field: 'business_name',
     direction: 'desc',
   },
+  {
+    key: 'city_asc',
+    label: 'City A-Z',
+    field: 'city',
+    direction: 'asc',
+  },
   {
     key: 'client_asc',
     label: 'Client A-Z',
@@ -0,0 +1,261 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { SimpleFormModal } from './SimpleFormModal';
+import { Button } from './Button';
+import { Input } from './Input';
+import { BusinessVisit, Client, Payment, Task, TaskFormData } from '../types';
+import { validateTask } from '../utils/validation';
+import { formatMoney } from '../utils/currency';
+import { parseISODate } from '../utils/invoices';
+import { formatTaskDue, isTaskOverdue } from '../utils/tasks';
+
+// Linked visits and payments offered in the form
+const LINK_OPTION_COUNT = 5;
+
+// Client matches shown while searching
+const CLIENT_MATCH_COUNT = 5;
+
+interface TaskFormModalProps {
+  visible: boolean;
+  title: string;
+  initialValues: TaskFormData;
+  clients?: Client[]; // Pass to let the task be linked to any client; omit when the client is fixed
+  visits: BusinessVisit[];
+  payments: Payment[];
+  onClose: () => void;
+  onSubmit: (formData: TaskFormData) => Promise<void>;
+}
+
+const getVisitLabel = (visit: BusinessVisit) => {
+  const date = new Date(visit.created_at || visit.timestamp || 0).toLocaleDateString();
+  return visit.location ? `${date} · ${visit.location}` : date;
+};
+
+const getPaymentLabel = (payment: Payment) => {
+  return `${parseISODate(payment.payment_date).toLocaleDateString()} · ${formatMoney(payment.amount, payment.currency)}`;
+};
+
+// Create or edit a task; visits and payments can be linked once a client is chosen
+export const TaskFormModal: React.FC<TaskFormModalProps> = ({
+  visible,
+  title,
+  initialValues,
+  clients,
+  visits,
+  payments,
+  onClose,
+  onSubmit,
+}) => {
+  const [formData, setFormData] = useState<TaskFormData>(initialValues);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [clientSearch, setClientSearch] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (visible) {
+      setFormData(initialValues);
+      setErrors({});
+      setClientSearch('');
+    }
+  }, [visible]);
+
+  const selectedClient = clients?.find(client => client.id === formData.client_id);
+  const clientVisits = formData.client_id
+    ? visits.filter(visit => visit.client_id === formData.client_id).slice(0, LINK_OPTION_COUNT)
+    : [];
+  const clientPayments = formData.client_id
+    ? payments.filter(payment => payment.client_id === formData.client_id).slice(0, LINK_OPTION_COUNT)
+    : [];
+  const clientMatches = clients && clientSearch.trim()
+    ? clients
+      .filter(client => `${client.name} ${client.business_name || ''}`.toLowerCase().includes(clientSearch.trim().toLowerCase()))
+      .slice(0, CLIENT_MATCH_COUNT)
+    : [];
+
+  const updateField = (updates: Partial<TaskFormData>) => {
+    setFormData(prev => ({ ...prev, ...updates }));
+    setErrors({});
+  };
+
+  const handleSubmit = async () => {
+    const validation = validateTask(formData);
+    if (!validation.isValid) {
+      setErrors(validation.errors);
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      await onSubmit(formData);
+      onClose();
+    } catch (error) {
+      // Error already handled in hook
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const renderLinkOption = (key: string, label: string, selected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      className={`px-4 py-2 rounded-lg border mb-2 ${selected ? 'bg-primary border-primary' : 'border-gray-300'}`}
+      onPress={onPress}
+    >
+      <Text className={selected ? 'text-white' : 'text-gray-700'} numberOfLines={1}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <SimpleFormModal visible={visible} onClose={onClose} title={title} size="lg">
+      <View className="p-6">
+        <Input
+          label="Title"
+          value={formData.title}
+          onChangeText={(text) => updateField({ title: text })}
+          placeholder="e.g. Call about renewal"
+          error={errors.title}
+          required
+        />
+
+        <View className="flex-row space-x-3">
+          <View className="flex-1">
+            <Input
+              label="Due Date"
+              value={formData.due_date}
+              onChangeText={(text) => updateField({ due_date: text })}
+              placeholder="YYYY-MM-DD"
+              error={errors.due_date}
+              required
+            />
+          </View>
+          <View className="flex-1">
+            <Input
+              label="Time"
+              value={formData.due_time}
+              onChangeText={(text) => updateField({ due_time: text })}
+              placeholder="HH:MM"
+              error={errors.due_time}
+            />
+          </View>
+        </View>
+
+        <Input
+          label="Assignee"
+          value={formData.assignee_email}
+          onChangeText={(text) => updateField({ assignee_email: text })}
+          placeholder="Email (leave blank for anyone)"
+          keyboardType="email-address"
+          autoCapitalize="none"
+          leftIcon="person-outline"
+          error={errors.assignee_email}
+        />
+
+        {clients && (
+          <View className="mb-4">
+            <Text className="text-sm font-medium text-gray-700 mb-2">Client</Text>
+            {selectedClient ? (
+              renderLinkOption(selectedClient.id, selectedClient.name, true, () => updateField({ client_id: undefined, visit_id: undefined, payment_id: undefined }))
+            ) : (
+              <>
+                <Input
+                  value={clientSearch}
+                  onChangeText={setClientSearch}
+                  placeholder="Search clients (optional)"
+                  leftIcon="search"
+                />
+                {clientMatches.map(client => renderLinkOption(client.id, client.name, false, () => updateField({ client_id: client.id })))}
+              </>
+            )}
+          </View>
+        )}
+
+        {clientVisits.length > 0 && (
+          <View className="mb-4">
+            <Text className="text-sm font-medium text-gray-700 mb-2">Linked Visit</Text>
+            {clientVisits.map(visit => renderLinkOption(
+              visit.id,
+              getVisitLabel(visit),
+              formData.visit_id === visit.id,
+              () => updateField({ visit_id: formData.visit_id === visit.id ? undefined : visit.id })
+            ))}
+          </View>
+        )}
+
+        {clientPayments.length > 0 && (
+          <View className="mb-4">
+            <Text className="text-sm font-medium text-gray-700 mb-2">Linked Payment</Text>
+            {clientPayments.map(payment => renderLinkOption(
+              payment.id,
+              getPaymentLabel(payment),
+              formData.payment_id === payment.id,
+              () => updateField({ payment_id: formData.payment_id === payment.id ? undefined : payment.id })
+            ))}
+          </View>
+        )}
+
+        <Input
+          label="Notes"
+          value={formData.notes}
+          onChangeText={(text) => updateField({ notes: text })}
+          placeholder="Optional"
+          multiline
+        />
+
+        <Button icon="checkmark" onPress={handleSubmit} loading={submitting} disabled={submitting} fullWidth>
+          Save Task
+        </Button>
+      </View>
+    </SimpleFormModal>
+  );
+};
+
+interface TaskRowProps {
+  task: Task;
+  showClient?: boolean;
+  onToggleDone: (task: Task) => void;
+  onPress?: (task: Task) => void;
+  onLongPress?: (task: Task) => void;
+}
+
+// One task with a checkbox; overdue due times are shown in red
+export const TaskRow: React.FC<TaskRowProps> = ({ task, showClient = false, onToggleDone, onPress, onLongPress }) => {
+  const overdue = isTaskOverdue(task);
+
+  return (
+    <TouchableOpacity
+      className="flex-row items-start py-3 border-b border-gray-100"
+      onPress={() => onPress?.(task)}
+      onLongPress={() => onLongPress?.(task)}
+      disabled={!onPress && !onLongPress}
+    >
+      <TouchableOpacity className="mr-3 mt-0.5" onPress={() => onToggleDone(task)}>
+        <Ionicons
+          name={task.done ? 'checkbox' : 'square-outline'}
+          size={22}
+          color={task.done ? '#10B981' : '#9CA3AF'}
+        />
+      </TouchableOpacity>
+      <View className="flex-1">
+        <Text className={task.done ? 'text-gray-400 line-through' : 'font-medium text-gray-900'}>{task.title}</Text>
+        <View className="flex-row flex-wrap items-center mt-1">
+          <Text className={`text-sm ${overdue ? 'text-red-600 font-medium' : 'text-gray-500'}`}>
+            {formatTaskDue(task.due_at)}
+          </Text>
+          {showClient && task.client && (
+            <Text className="text-sm text-gray-500"> · {task.client.name}</Text>
+          )}
+          {!!task.assignee_email && (
+            <Text className="text-sm text-gray-400"> · {task.assignee_email}</Text>
+          )}
+        </View>
+        {(task.visit_id || task.payment_id) && (
+          <View className="flex-row mt-1">
+            {task.visit_id && <Ionicons name="location-outline" size={14} color="#6B7280" />}
+            {task.payment_id && <Ionicons name="cash-outline" size={14} color="#6B7280" style={{ marginLeft: task.visit_id ? 6 : 0 }} />}
+          </View>
+        )}
+      </View>
+    </TouchableOpacity>
+  );
+};
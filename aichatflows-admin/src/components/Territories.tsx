@@ -0,0 +1,365 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { View, Text, TouchableOpacity, Alert } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import MapView, { Marker, Polygon, Polyline, Region } from 'react-native-maps';
+import { SimpleFormModal } from './SimpleFormModal';
+import { Button } from './Button';
+import { Input } from './Input';
+import { BusinessVisit, Territory, TerritoryFormData } from '../types';
+import { validateTerritory } from '../utils/validation';
+import { Coordinates } from '../utils/geo';
+import { DEFAULT_VISIT_NAME, getVisitCoordinates, getVisitLocationFields } from '../utils/visitLocation';
+import {
+  COVERAGE_LEVELS,
+  TERRITORY_COLORS,
+  buildCoverageGrid,
+  calculateTerritoryStats,
+  getEmptyTerritoryForm,
+  getTerritoryFormData,
+  getVisitTerritoryMap,
+} from '../utils/territories';
+
+interface TerritoryFormModalProps {
+  visible: boolean;
+  title: string;
+  initialValues: TerritoryFormData;
+  onClose: () => void;
+  onSubmit: (formData: TerritoryFormData) => Promise<void>;
+}
+
+export const TerritoryFormModal: React.FC<TerritoryFormModalProps> = ({
+  visible,
+  title,
+  initialValues,
+  onClose,
+  onSubmit,
+}) => {
+  const [formData, setFormData] = useState<TerritoryFormData>(initialValues);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (visible) {
+      setFormData(initialValues);
+      setErrors({});
+    }
+  }, [visible]);
+
+  const updateField = (updates: Partial<TerritoryFormData>) => {
+    setFormData(prev => ({ ...prev, ...updates }));
+    setErrors({});
+  };
+
+  const handleSubmit = async () => {
+    const validation = validateTerritory(formData);
+    if (!validation.isValid) {
+      setErrors(validation.errors);
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      await onSubmit(formData);
+      onClose();
+    } catch (error) {
+      // Error already handled in hook
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <SimpleFormModal visible={visible} onClose={onClose} title={title} size="md">
+      <View className="p-6">
+        <Input
+          label="Name"
+          value={formData.name}
+          onChangeText={(text) => updateField({ name: text })}
+          placeholder="e.g. Downtown North"
+          autoCapitalize="words"
+          error={errors.name}
+          required
+        />
+
+        <Input
+          label="Assigned To"
+          value={formData.assignee_email}
+          onChangeText={(text) => updateField({ assignee_email: text })}
+          placeholder="Email (leave blank if unassigned)"
+          keyboardType="email-address"
+          autoCapitalize="none"
+          leftIcon="person-outline"
+          error={errors.assignee_email}
+        />
+
+        <View className="mb-4">
+          <Text className="text-sm font-medium text-gray-700 mb-2">Color</Text>
+          <View className="flex-row flex-wrap gap-2">
+            {TERRITORY_COLORS.map(color => (
+              <TouchableOpacity
+                key={color}
+                className={`w-9 h-9 rounded-full items-center justify-center ${formData.color === color ? 'border-2 border-gray-900' : ''}`}
+                style={{ backgroundColor: color }}
+                onPress={() => updateField({ color })}
+              >
+                {formData.color === color && <Ionicons name="checkmark" size={18} color="white" />}
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+
+        <Button icon="checkmark" onPress={handleSubmit} loading={submitting} disabled={submitting} fullWidth>
+          Save Territory
+        </Button>
+      </View>
+    </SimpleFormModal>
+  );
+};
+
+interface TerritoryMapProps {
+  territories: Territory[];
+  visits: BusinessVisit[];
+  onCreate: (formData: TerritoryFormData, boundary: Coordinates[]) => Promise<unknown>;
+  onUpdate: (id: string, formData: TerritoryFormData) => Promise<unknown>;
+  onDelete: (id: string) => Promise<unknown>;
+}
+
+const DEFAULT_REGION: Region = {
+  latitude: 37.78825,
+  longitude: -122.4324,
+  latitudeDelta: 0.0922,
+  longitudeDelta: 0.0421,
+};
+
+// Territories and visits on one map. Tap "Draw" and then the map to outline a new territory;
+// the heatmap colors each area by how recently it was canvassed
+export function TerritoryMap({ territories, visits, onCreate, onUpdate, onDelete }: TerritoryMapProps) {
+  const [drawing, setDrawing] = useState(false);
+  const [draftPoints, setDraftPoints] = useState<Coordinates[]>([]);
+  const [showHeatmap, setShowHeatmap] = useState(false);
+  const [selectedTerritoryId, setSelectedTerritoryId] = useState<string | null>(null);
+  const [formTerritory, setFormTerritory] = useState<Territory | 'new' | null>(null);
+
+  const visitPoints = useMemo(() => visits
+    .map(visit => ({ visit, coordinates: getVisitCoordinates(visit) }))
+    .filter((point): point is { visit: BusinessVisit; coordinates: Coordinates } => point.coordinates !== null),
+  [visits]);
+  const territoryByVisit = useMemo(() => getVisitTerritoryMap(visits, territories), [visits, territories]);
+  const coverageCells = useMemo(() => (showHeatmap ? buildCoverageGrid(visits) : []), [showHeatmap, visits]);
+  const selectedStats = useMemo(() => {
+    const territory = territories.find(t => t.id === selectedTerritoryId);
+    return territory ? calculateTerritoryStats([territory], visits)[0] : null;
+  }, [territories, visits, selectedTerritoryId]);
+
+  // Frame everything drawn or visited so far
+  const initialRegion = useMemo(() => {
+    const points = [
+      ...territories.flatMap(territory => territory.boundary),
+      ...visitPoints.map(point => point.coordinates),
+    ];
+    if (points.length === 0) return DEFAULT_REGION;
+    const latitudes = points.map(point => point.latitude);
+    const longitudes = points.map(point => point.longitude);
+    return {
+      latitude: (Math.min(...latitudes) + Math.max(...latitudes)) / 2,
+      longitude: (Math.min(...longitudes) + Math.max(...longitudes)) / 2,
+      latitudeDelta: Math.max(0.01, (Math.max(...latitudes) - Math.min(...latitudes)) * 1.3),
+      longitudeDelta: Math.max(0.01, (Math.max(...longitudes) - Math.min(...longitudes)) * 1.3),
+    };
+  }, [territories, visitPoints]);
+  // initialRegion is only read on mount, so remount once there is something to frame
+  const hasMapData = territories.length > 0 || visitPoints.length > 0;
+
+  const startDrawing = () => {
+    setSelectedTerritoryId(null);
+    setDraftPoints([]);
+    setDrawing(true);
+  };
+
+  const cancelDrawing = () => {
+    setDraftPoints([]);
+    setDrawing(false);
+  };
+
+  const handleSubmit = async (formData: TerritoryFormData) => {
+    if (formTerritory === 'new') {
+      await onCreate(formData, draftPoints);
+      cancelDrawing();
+    } else if (formTerritory) {
+      await onUpdate(formTerritory.id, formData);
+    }
+  };
+
+  const confirmDelete = (territory: Territory) => {
+    Alert.alert(
+      'Delete Territory',
+      `Delete "${territory.name}"? Its visits are kept and stop counting towards it.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await onDelete(territory.id);
+              setSelectedTerritoryId(null);
+            } catch (error) {
+              // Error already handled in hook
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <View className="bg-white rounded-xl p-4 shadow-sm">
+      <View className="flex-row items-center justify-between mb-3">
+        <Text className="text-lg font-semibold text-gray-900">Territories</Text>
+        <TouchableOpacity
+          className={`flex-row items-center px-3 py-1 rounded-full ${showHeatmap ? 'bg-primary' : 'bg-gray-100'}`}
+          onPress={() => setShowHeatmap(prev => !prev)}
+        >
+          <Ionicons name="flame-outline" size={14} color={showHeatmap ? 'white' : '#374151'} />
+          <Text className={`text-sm font-medium ml-1 ${showHeatmap ? 'text-white' : 'text-gray-700'}`}>Coverage</Text>
+        </TouchableOpacity>
+      </View>
+
+      <View className="rounded-lg overflow-hidden border border-gray-200" style={{ height: 320 }}>
+        <MapView
+          key={hasMapData ? 'framed' : 'empty'}
+          style={{ flex: 1 }}
+          initialRegion={initialRegion}
+          showsUserLocation={true}
+          onPress={(event) => {
+            if (drawing) {
+              const { latitude, longitude } = event.nativeEvent.coordinate;
+              setDraftPoints(prev => [...prev, { latitude, longitude }]);
+            } else {
+              setSelectedTerritoryId(null);
+            }
+          }}
+        >
+          {coverageCells.map(cell => (
+            <Polygon
+              key={cell.id}
+              coordinates={cell.boundary}
+              fillColor={`${cell.color}80`}
+              strokeWidth={0}
+            />
+          ))}
+
+          {territories.map(territory => (
+            <Polygon
+              key={territory.id}
+              coordinates={territory.boundary}
+              strokeColor={territory.color}
+              strokeWidth={selectedTerritoryId === territory.id ? 4 : 2}
+              fillColor={showHeatmap ? 'transparent' : `${territory.color}33`}
+              tappable={!drawing}
+              onPress={() => setSelectedTerritoryId(territory.id)}
+            />
+          ))}
+
+          {!showHeatmap && !drawing && visitPoints.map(({ visit, coordinates }) => (
+            <Marker
+              key={visit.id}
+              coordinate={coordinates}
+              pinColor={territories.find(t => t.id === territoryByVisit[visit.id])?.color || '#6B7280'}
+              title={getVisitLocationFields(visit).business_name || DEFAULT_VISIT_NAME}
+            />
+          ))}
+
+          {drawing && draftPoints.length >= 3 && (
+            <Polygon coordinates={draftPoints} strokeColor="#00D4AA" strokeWidth={2} fillColor="#00D4AA33" />
+          )}
+          {drawing && draftPoints.length === 2 && (
+            <Polyline coordinates={draftPoints} strokeColor="#00D4AA" strokeWidth={2} />
+          )}
+          {drawing && draftPoints.map((point, index) => (
+            <Marker key={`draft-${index}`} coordinate={point} pinColor="#00D4AA" />
+          ))}
+        </MapView>
+      </View>
+
+      {showHeatmap && (
+        <View className="flex-row flex-wrap mt-3">
+          {COVERAGE_LEVELS.map(level => (
+            <View key={level.label} className="flex-row items-center mr-4 mb-1">
+              <View className="w-3 h-3 rounded-sm mr-1" style={{ backgroundColor: level.color }} />
+              <Text className="text-xs text-gray-600">{level.label}</Text>
+            </View>
+          ))}
+        </View>
+      )}
+
+      {drawing ? (
+        <View className="mt-3">
+          <Text className="text-sm text-gray-500 mb-3">
+            Tap the map to add corners ({draftPoints.length} so far). The last corner joins back to the first.
+          </Text>
+          <View className="flex-row gap-3">
+            <Button variant="secondary" size="sm" onPress={cancelDrawing}>Cancel</Button>
+            <Button
+              variant="secondary"
+              size="sm"
+              icon="arrow-undo-outline"
+              onPress={() => setDraftPoints(prev => prev.slice(0, -1))}
+              disabled={draftPoints.length === 0}
+            >
+              Undo
+            </Button>
+            <View className="flex-1">
+              <Button
+                size="sm"
+                icon="checkmark"
+                onPress={() => setFormTerritory('new')}
+                disabled={draftPoints.length < 3}
+                fullWidth
+              >
+                Save
+              </Button>
+            </View>
+          </View>
+        </View>
+      ) : selectedStats ? (
+        <View className="mt-3 p-3 bg-gray-50 rounded-lg">
+          <View className="flex-row items-center mb-1">
+            <View className="w-3 h-3 rounded-full mr-2" style={{ backgroundColor: selectedStats.territory.color }} />
+            <Text className="font-semibold text-gray-900 flex-1">{selectedStats.territory.name}</Text>
+          </View>
+          <Text className="text-sm text-gray-600">
+            {selectedStats.territory.assignee_email || 'Unassigned'} · {selectedStats.visitCount} {selectedStats.visitCount === 1 ? 'visit' : 'visits'}
+            {selectedStats.daysSinceVisit !== null ? ` · last ${selectedStats.daysSinceVisit}d ago` : ''}
+          </Text>
+          <View className="flex-row gap-3 mt-3">
+            <View className="flex-1">
+              <Button variant="secondary" size="sm" icon="pencil" onPress={() => setFormTerritory(selectedStats.territory)} fullWidth>
+                Edit
+              </Button>
+            </View>
+            <View className="flex-1">
+              <Button variant="secondary" size="sm" icon="trash-outline" onPress={() => confirmDelete(selectedStats.territory)} fullWidth>
+                Delete
+              </Button>
+            </View>
+          </View>
+        </View>
+      ) : (
+        <View className="mt-3">
+          <Button variant="secondary" size="sm" icon="create-outline" onPress={startDrawing} fullWidth>
+            Draw Territory
+          </Button>
+        </View>
+      )}
+
+      <TerritoryFormModal
+        visible={formTerritory !== null}
+        title={formTerritory === 'new' ? 'New Territory' : 'Edit Territory'}
+        initialValues={formTerritory && formTerritory !== 'new' ? getTerritoryFormData(formTerritory) : getEmptyTerritoryForm(territories)}
+        onClose={() => setFormTerritory(null)}
+        onSubmit={handleSubmit}
+      />
+    </View>
+  );
+}
@@ -4,12 +4,19 @@ import { Ionicons } from '@expo/vector-icons';
 
 export type ToastType = 'success' | 'error' | 'warning' | 'info';
 
+// A button shown in the toast, such as Undo after a delete
+export interface ToastAction {
+  label: string;
+  onPress: () => void;
+}
+
 interface ToastProps {
   visible: boolean;
   type: ToastType;
   title: string;
   message?: string;
   duration?: number;
+  action?: ToastAction;
   onHide: () => void;
 }
 
@@ -19,6 +26,7 @@ export function Toast({
   title,
   message,
   duration = 3000,
+  action,
   onHide,
 }: ToastProps) {
   const translateY = useRef(new Animated.Value(-100)).current;
@@ -126,6 +134,17 @@ export function Toast({
                 </Text>
               )}
             </View>
+            {action && (
+              <TouchableOpacity
+                onPress={() => {
+                  action.onPress();
+                  hideToast();
+                }}
+                className="ml-2 px-3 py-1 rounded-lg bg-white/20"
+              >
+                <Text className="text-white font-semibold">{action.label}</Text>
+              </TouchableOpacity>
+            )}
             <TouchableOpacity onPress={hideToast} className="ml-2">
               <Ionicons name="close" size={18} color="#FFFFFF" />
             </TouchableOpacity>
@@ -139,8 +158,13 @@ export function Toast({
 // Toast context and hook for global toast management
 import { createContext, useContext, useState } from 'react';
 
+interface ToastOptions {
+  action?: ToastAction;
+  duration?: number;
+}
+
 interface ToastContextType {
-  showToast: (type: ToastType, title: string, message?: string) => void;
+  showToast: (type: ToastType, title: string, message?: string, options?: ToastOptions) => void;
 }
 
 const ToastContext = createContext<ToastContextType | undefined>(undefined);
@@ -151,23 +175,28 @@ interface ToastProviderProps {
 
 export function ToastProvider({ children }: ToastProviderProps) {
   const [toast, setToast] = useState<{
+    id: number;
     visible: boolean;
     type: ToastType;
     title: string;
     message?: string;
-  }>({
+  } & ToastOptions>({
+    id: 0,
     visible: false,
     type: 'info',
     title: '',
   });
 
-  const showToast = (type: ToastType, title: string, message?: string) => {
-    setToast({
+  // A new id remounts the toast, so a second toast replaces the first and gets its own timer
+  const showToast = (type: ToastType, title: string, message?: string, options: ToastOptions = {}) => {
+    setToast(prev => ({
+      id: prev.id + 1,
       visible: true,
       type,
       title,
       message,
-    });
+      ...options,
+    }));
   };
 
   const hideToast = () => {
@@ -178,10 +207,13 @@ export function ToastProvider({ children }: ToastProviderProps) {
     <ToastContext.Provider value={{ showToast }}>
       {children}
       <Toast
+        key={toast.id}
         visible={toast.visible}
         type={toast.type}
         title={toast.title}
         message={toast.message}
+        duration={toast.duration}
+        action={toast.action}
         onHide={hideToast}
       />
     </ToastContext.Provider>
@@ -5,8 +5,8 @@ export type { ButtonProps, ButtonVariant, ButtonSize } from './Button';
 export { Input, PasswordInput, EmailInput, PhoneInput, SearchInput } from './Input';
 export type { InputProps, InputVariant, InputSize } from './Input';
 
-export { FormField } from './FormField';
-export type { FormFieldProps } from './FormField';
+export { FormField, CustomFieldFormField } from './FormField';
+export type { FormFieldProps, CustomFieldFormFieldProps } from './FormField';
 
 export { Toggle } from './Toggle';
 export type { ToggleProps } from './Toggle';
@@ -40,6 +40,30 @@ export * from './Badges';
 // Activity Log
 export * from './ActivityLog';
 
+// Pipeline
+export { PipelineBoard } from './PipelineBoard';
+
+// Credential Vault
+export { VaultUnlockModal, ReauthModal } from './CredentialVault';
+
+// Tasks
+export { TaskFormModal, TaskRow } from './Tasks';
+
+// Notes
+export { NotesThread } from './NotesThread';
+
+// Attachments
+export { AttachmentGallery, pickPhoto, pickDocument } from './Attachments';
+
+// Prospects
+export { ProspectFormModal, ProspectStageBadge } from './Prospects';
+
+// Territories
+export { TerritoryFormModal, TerritoryMap } from './Territories';
+
+// Client health
+export { HealthScoreBadge, HealthScoreCard } from './HealthScore';
+
 // Enhanced Search & Filter Components
 export { FilterBar } from './FilterBar';
 export type { FilterOption, FilterGroup, FilterBarProps } from './FilterBar';
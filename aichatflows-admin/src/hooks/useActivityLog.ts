@@ -58,14 +58,26 @@ export function useActivityLog() {
     return activity;
   };
 
+  // Log several activities at once (avoids overwriting when logging in a loop)
+  const logActivities = (entries: ActivityLogEntry[]) => {
+    if (entries.length === 0) return;
+    saveActivities([...entries, ...activities]);
+  };
+
   // Convenience methods for common activities
-  const logPlanChange = (clientId: string, clientName: string, oldPlan: string, newPlan: string) => {
+  const logPlanChange = (
+    clientId: string,
+    clientName: string,
+    oldPlan: string,
+    newPlan: string,
+    details?: { effectiveDate?: string; prorationAmount?: number }
+  ) => {
     return logActivity(
       'plan_change',
       `${clientName}'s plan changed from ${oldPlan} to ${newPlan}`,
       clientId,
       clientName,
-      { oldPlan, newPlan }
+      { oldPlan, newPlan, ...details }
     );
   };
 
@@ -84,6 +96,21 @@ export function useActivityLog() {
     );
   };
 
+  const logStatusChange = (
+    clientId: string,
+    clientName: string,
+    oldStatus: string,
+    newStatus: string
+  ) => {
+    return logActivity(
+      'status_change',
+      `${clientName} moved from ${oldStatus.replace('_', ' ')} to ${newStatus.replace('_', ' ')}`,
+      clientId,
+      clientName,
+      { oldStatus, newStatus }
+    );
+  };
+
   const logInPersonSignup = (clientName: string, plan: string) => {
     return logActivity(
       'in_person_signup',
@@ -158,8 +185,10 @@ export function useActivityLog() {
       byType: {
         plan_change: activities.filter(a => a.type === 'plan_change').length,
         payment_status: activities.filter(a => a.type === 'payment_status').length,
+        status_change: activities.filter(a => a.type === 'status_change').length,
         in_person_signup: activities.filter(a => a.type === 'in_person_signup').length,
         client_created: activities.filter(a => a.type === 'client_created').length,
+        payment_reminder: activities.filter(a => a.type === 'payment_reminder').length,
       }
     };
   };
@@ -168,8 +197,10 @@ export function useActivityLog() {
     activities,
     loading,
     logActivity,
+    logActivities,
     logPlanChange,
     logPaymentStatusChange,
+    logStatusChange,
     logInPersonSignup,
     logClientCreated,
     getRecentActivities,
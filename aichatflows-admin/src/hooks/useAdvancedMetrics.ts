@@ -1,4 +1,4 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
 import { 
   WeeklyMetrics, 
   MonthlyMetrics, 
@@ -19,6 +19,9 @@ import { useClients } from './useClients';
 import { usePayments } from './usePayments';
 import { useGoals } from './useGoals';
 import { useBusinessVisits } from './useBusinessVisits';
+import { useClientEvents } from './useClientEvents';
+import { useSettings } from './useSettings';
+import { CurrencyConversion } from '../utils/currency';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 
 interface AdvancedMetricsState {
@@ -35,7 +38,7 @@ interface AdvancedMetricsState {
   lastUpdated: Date | null;
 }
 
-const CACHE_KEY = 'advanced_metrics_cache';
+const CACHE_KEY = 'advanced_metrics_cache_v2'; // v2: retention from client events
 const CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
 
 export function useAdvancedMetrics() {
@@ -57,18 +60,29 @@ export function useAdvancedMetrics() {
   const { payments, loading: paymentsLoading } = usePayments();
   const { goals, loading: goalsLoading } = useGoals();
   const { visits, loading: visitsLoading } = useBusinessVisits();
+  const { events, loading: eventsLoading } = useClientEvents();
+  const { settings, isLoaded: settingsLoaded } = useSettings();
 
-  const dataLoading = clientsLoading || paymentsLoading || goalsLoading || visitsLoading;
+  const dataLoading = clientsLoading || paymentsLoading || goalsLoading || visitsLoading || eventsLoading || !settingsLoaded;
+
+  // Revenue is reported in the base currency from settings
+  const { baseCurrency, exchangeRates } = settings;
+  const conversion = useMemo<CurrencyConversion>(
+    () => ({ baseCurrency, rates: exchangeRates }),
+    [baseCurrency, exchangeRates]
+  );
 
   // Load cached metrics
   const loadCachedMetrics = useCallback(async () => {
     try {
       const cached = await AsyncStorage.getItem(CACHE_KEY);
       if (cached) {
-        const { data, timestamp } = JSON.parse(cached);
+        const { data, timestamp, conversion: cachedConversion } = JSON.parse(cached);
         const age = Date.now() - timestamp;
+        // Metrics cached under another currency or rate table are stale
+        const sameConversion = JSON.stringify(cachedConversion) === JSON.stringify(conversion);
         
-        if (age < CACHE_DURATION) {
+        if (age < CACHE_DURATION && sameConversion) {
           setState(prev => ({
             ...prev,
             ...data,
@@ -82,7 +96,7 @@ export function useAdvancedMetrics() {
       console.warn('Failed to load cached metrics:', error);
     }
     return false; // Need to calculate fresh
-  }, []);
+  }, [conversion]);
 
   // Save metrics to cache
   const cacheMetrics = useCallback(async (metrics: Partial<AdvancedMetricsState>) => {
@@ -90,12 +104,13 @@ export function useAdvancedMetrics() {
       const cacheData = {
         data: metrics,
         timestamp: Date.now(),
+        conversion,
       };
       await AsyncStorage.setItem(CACHE_KEY, JSON.stringify(cacheData));
     } catch (error) {
       console.warn('Failed to cache metrics:', error);
     }
-  }, []);
+  }, [conversion]);
 
   // Calculate all metrics
   const calculateMetrics = useCallback(async () => {
@@ -118,33 +133,33 @@ export function useAdvancedMetrics() {
 
       const currentWeek = calculateWeeklyMetrics(
         clients, payments, goals, visits,
-        currentWeekPeriod.start, currentWeekPeriod.end
+        currentWeekPeriod.start, currentWeekPeriod.end, conversion
       );
 
       const currentMonth = calculateMonthlyMetrics(
         clients, payments, goals, visits,
-        currentMonthPeriod.start, currentMonthPeriod.end
+        currentMonthPeriod.start, currentMonthPeriod.end, conversion
       );
 
       const previousWeek = calculateWeeklyMetrics(
         clients, payments, goals, visits,
-        previousWeekPeriod.start, previousWeekPeriod.end
+        previousWeekPeriod.start, previousWeekPeriod.end, conversion
       );
 
       const previousMonth = calculateMonthlyMetrics(
         clients, payments, goals, visits,
-        previousMonthPeriod.start, previousMonthPeriod.end
+        previousMonthPeriod.start, previousMonthPeriod.end, conversion
       );
 
       // Calculate retention metrics
-      const retention = calculateClientRetentionMetrics(clients, visits);
+      const retention = calculateClientRetentionMetrics(clients, visits, events);
 
       // Calculate goal streak
       const goalStreak = calculateGoalStreak(goals, clients, payments);
 
       // Generate trend data
-      const trends30Days = generateTrendData(clients, payments, visits, 30);
-      const trends7Days = generateTrendData(clients, payments, visits, 7);
+      const trends30Days = generateTrendData(clients, payments, visits, 30, conversion);
+      const trends7Days = generateTrendData(clients, payments, visits, 7, conversion);
 
       const newMetrics = {
         currentWeek,
@@ -174,7 +189,7 @@ export function useAdvancedMetrics() {
         error: error.message || 'Failed to calculate metrics',
       }));
     }
-  }, [clients, payments, goals, visits, dataLoading, loadCachedMetrics, cacheMetrics]);
+  }, [clients, payments, goals, visits, events, conversion, dataLoading, loadCachedMetrics, cacheMetrics]);
 
   // Force refresh metrics (bypass cache)
   const refreshMetrics = useCallback(async () => {
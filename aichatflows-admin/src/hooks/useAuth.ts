@@ -4,6 +4,7 @@ import { Alert } from 'react-native';
 import Constants from 'expo-constants';
 import { supabase } from '../lib/supabase';
 import { initializePushNotifications, removePushToken } from '../utils/pushTokens';
+import { clearSessionKey } from '../utils/vault';
 
 const debugMode = Constants.expoConfig?.extra?.debugMode;
 
@@ -200,6 +201,8 @@ export function useAuth() {
     debugLog('Attempting sign out...');
     
     try {
+      // The vault key must not outlive the session it was unlocked in
+      clearSessionKey();
       const { error } = await supabase.auth.signOut();
       
       if (error) {
@@ -2,8 +2,32 @@ import { useEffect, useState } from 'react';
 import { Alert } from 'react-native';
 import * as Location from 'expo-location';
 import { supabase } from '../lib/supabase';
-import { BusinessVisit, Client } from '../types';
+import { BusinessVisit, Client, Prospect, SyncQueueItem, VisitSyncPayload } from '../types';
 import { notifyVisitLogged } from '../utils/notifications';
+import { OPEN_PROSPECT_STAGES, findMatchingProspect } from '../utils/prospects';
+import { Coordinates } from '../utils/geo';
+import {
+  VISIT_ADDRESS_FIELDS,
+  VisitAddress,
+  VisitLocationFields,
+  buildVisitLocation,
+  formatVisitAddress,
+  getGeocodedAddress,
+  getVisitCoordinates,
+  getVisitLocationFields,
+  hasStructuredLocation,
+  isSameBusiness,
+  parseVisitAddress,
+} from '../utils/visitLocation';
+import { migrateVisitLocations } from '../utils/migration';
+import {
+  createLocalId,
+  enqueueSyncItem,
+  getPendingVisits,
+  isNetworkError,
+  loadSyncQueue,
+  subscribeToSyncQueue,
+} from '../utils/syncQueue';
 import { useAuth } from './useAuth';
 
 const debugMode = process.env.EXPO_PUBLIC_DEBUG_MODE === 'true';
@@ -14,8 +38,159 @@ const debugLog = (message: string, data?: any) => {
   }
 };
 
+const VISIT_SELECT = `
+  id,
+  client_id,
+  prospect_id,
+  location,
+  latitude,
+  longitude,
+  created_at,
+  business_name,
+  street,
+  city,
+  region,
+  postal_code,
+  country
+`;
+
+// The location string backfill runs at most once per app session
+let visitLocationMigrationStarted = false;
+
+// The prospect a visit to a non-client belongs to: the one picked, an open prospect for the same
+// business nearby, or a new one. Null when prospects aren't set up yet
+const resolveVisitProspect = async (
+  prospectId: string | undefined,
+  businessName: string,
+  address: string,
+  coordinates: Coordinates
+): Promise<string | null> => {
+  if (prospectId) return prospectId;
+
+  const { data: openProspects, error: prospectsError } = await supabase
+    .from('prospects')
+    .select('id, business_name, latitude, longitude, stage, client_id, created_at')
+    .is('client_id', null)
+    .in('stage', OPEN_PROSPECT_STAGES);
+
+  if (prospectsError) {
+    if (prospectsError.code === '42P01' || prospectsError.message.includes('does not exist')) {
+      console.warn('📋 Prospects table does not exist. The visit is saved without a prospect.');
+      console.warn('💡 To fix: Run the SQL script at migrations/18_create_prospects.sql in your Supabase database');
+      return null;
+    }
+    throw prospectsError;
+  }
+
+  const match = findMatchingProspect((openProspects as Prospect[]) || [], businessName, coordinates);
+  if (match) {
+    debugLog('Attaching visit to existing prospect:', match.id);
+    return match.id;
+  }
+
+  const { data: created, error: createError } = await supabase
+    .from('prospects')
+    .insert([{
+      business_name: businessName,
+      address,
+      latitude: coordinates.latitude,
+      longitude: coordinates.longitude,
+    }])
+    .select('id')
+    .single();
+
+  if (createError) {
+    throw createError;
+  }
+
+  debugLog('Created prospect for visit:', created.id);
+  return created.id;
+};
+
+// Thrown by saveVisit when the visit's client was deleted or never existed
+export const CLIENT_NOT_FOUND_ERROR = 'Selected client not found. Please select a valid client.';
+
+// The server side of logging a visit, shared by markVisit and the sync queue. The id comes from
+// the device, so a visit that was saved before its response got lost is returned as it is
+export const saveVisit = async (payload: VisitSyncPayload): Promise<BusinessVisit> => {
+  const { id, client_id, prospect_id, latitude, longitude, created_at, ...locationFields } = payload;
+
+  if (client_id) {
+    const { data: clientExists, error: clientError } = await supabase
+      .from('clients')
+      .select('id')
+      .eq('id', client_id)
+      .is('deleted_at', null)
+      .single();
+
+    if (clientError && isNetworkError(clientError)) {
+      throw clientError;
+    }
+    if (clientError || !clientExists) {
+      throw new Error(CLIENT_NOT_FOUND_ERROR);
+    }
+  }
+
+  const addressString = formatVisitAddress(locationFields) || `${latitude.toFixed(6)}, ${longitude.toFixed(6)}`;
+  const visitProspectId = client_id
+    ? null
+    : await resolveVisitProspect(prospect_id || undefined, locationFields.business_name || addressString, addressString, { latitude, longitude });
+
+  const { data, error } = await supabase
+    .from('business_visits')
+    .insert([{
+      id,
+      client_id,
+      location: buildVisitLocation(locationFields, { latitude, longitude }),
+      latitude,
+      longitude,
+      created_at,
+      ...locationFields,
+      ...(visitProspectId ? { prospect_id: visitProspectId } : {}),
+    }])
+    .select(VISIT_SELECT)
+    .single();
+
+  if (error) {
+    if (error.code === '23505') {
+      debugLog('Visit already saved:', id);
+      const { data: existing, error: existingError } = await supabase
+        .from('business_visits')
+        .select(VISIT_SELECT)
+        .eq('id', id)
+        .single();
+      if (existingError) throw existingError;
+      return existing as BusinessVisit;
+    }
+    debugLog('Error creating visit:', error);
+    throw error;
+  }
+
+  return data as BusinessVisit;
+};
+
+// Notification failures never fail the visit
+export const notifyVisitSaved = async (visit: BusinessVisit, userId: string) => {
+  try {
+    let client: Client | undefined;
+    if (visit.client_id) {
+      const { data: clientData } = await supabase
+        .from('clients')
+        .select('*')
+        .eq('id', visit.client_id)
+        .single();
+      client = clientData || undefined;
+    }
+
+    await notifyVisitLogged(visit, client, userId);
+  } catch (notificationError) {
+    debugLog('Failed to send visit notification:', notificationError);
+  }
+};
+
 interface BusinessVisitsHookState {
   visits: BusinessVisit[];
+  pendingVisits: BusinessVisit[]; // Logged offline, waiting in the sync queue
   loading: boolean;
   error: string | null;
   isMarkingVisit: boolean;
@@ -25,12 +200,19 @@ export function useBusinessVisits() {
   const { user } = useAuth();
   const [state, setState] = useState<BusinessVisitsHookState>({
     visits: [],
+    pendingVisits: [],
     loading: true,
     error: null,
     isMarkingVisit: false,
   });
 
-  const { visits, loading, error, isMarkingVisit } = state;
+  const { visits, pendingVisits, loading, error, isMarkingVisit } = state;
+
+  // Queued visits lead the list until they sync and come back from the server
+  const visitsWithPending = [
+    ...pendingVisits.filter(pending => !visits.some(visit => visit.id === pending.id)),
+    ...visits,
+  ];
 
   const updateState = (updates: Partial<BusinessVisitsHookState>) => {
     setState(prev => ({ ...prev, ...updates }));
@@ -44,11 +226,8 @@ export function useBusinessVisits() {
 
       const { data, error } = await supabase
         .from('business_visits')
-        .select(`
-          id,
-          client_id,
-          location
-        `)
+        .select(VISIT_SELECT)
+        .is('deleted_at', null)
         .order('id', { ascending: false });
 
       if (error) {
@@ -65,6 +244,19 @@ export function useBusinessVisits() {
       
       debugLog('Visits fetched successfully from new schema:', validVisits.length);
       updateState({ visits: validVisits, loading: false });
+
+      // Older visits only have the location string; split it into the structured fields once
+      if (!visitLocationMigrationStarted && validVisits.some((visit: BusinessVisit) => visit.location && !hasStructuredLocation(visit))) {
+        visitLocationMigrationStarted = true;
+        migrateVisitLocations().then(migrated => {
+          if (migrated > 0) {
+            fetchVisits(false).catch(() => {
+              // Error already handled above
+            });
+          }
+        });
+      }
+
       return validVisits;
     } catch (error: any) {
       debugLog('Exception fetching visits:', error);
@@ -77,31 +269,21 @@ export function useBusinessVisits() {
     }
   };
 
-  // Mark a new business visit with enhanced validation and location options
+  // Mark a new business visit with enhanced validation and location options.
+  // Visits without a client attach to a prospect (see resolveVisitProspect)
   const markVisit = async (
     clientId?: string, 
     businessName?: string, 
     manualAddress?: string,
-    selectedCoordinates?: {latitude: number, longitude: number}
+    selectedCoordinates?: {latitude: number, longitude: number},
+    prospectId?: string
   ) => {
     try {
       updateState({ isMarkingVisit: true });
       debugLog('Marking new business visit in new schema...');
 
-      // Client ID is now optional - verify only if provided
-      if (clientId && typeof clientId === 'string' && clientId.trim() !== '') {
-        // Verify client exists in database
-        const { data: clientExists, error: clientError } = await supabase
-          .from('clients')
-          .select('id')
-          .eq('id', clientId)
-          .single();
-
-        if (clientError || !clientExists) {
-          throw new Error('Selected client not found. Please select a valid client.');
-        }
-      } else {
-        // Clear clientId if empty string provided
+      // Client ID is optional; it's checked when the visit is saved
+      if (!clientId || typeof clientId !== 'string' || clientId.trim() === '') {
         clientId = undefined;
       }
 
@@ -167,37 +349,23 @@ export function useBusinessVisits() {
         throw new Error('Invalid GPS coordinates received');
       }
 
-      // Determine address string - prioritize manual address over geocoding
-      let addressString: string;
+      // Determine address - prioritize manual address over geocoding
+      let address: VisitAddress = parseVisitAddress(null);
       
       if (manualAddress && manualAddress.trim()) {
         debugLog('Using manual address...');
-        addressString = manualAddress.trim();
+        address = parseVisitAddress(manualAddress);
       } else {
-        // Fall back to reverse geocoding
-        addressString = `${latitude.toFixed(6)}, ${longitude.toFixed(6)}`;
-        
+        // Fall back to reverse geocoding; coordinates alone if that fails
         try {
           debugLog('Reverse geocoding location...');
-          const address = await Location.reverseGeocodeAsync({
+          const places = await Location.reverseGeocodeAsync({
             latitude,
             longitude,
           });
 
-          if (address && address[0]) {
-            const addr = address[0];
-            const addressParts = [
-              addr.streetNumber,
-              addr.street,
-              addr.city,
-              addr.region,
-              addr.postalCode,
-              addr.country
-            ].filter(Boolean);
-            
-            if (addressParts.length > 0) {
-              addressString = addressParts.join(', ');
-            }
+          if (places && places[0]) {
+            address = getGeocodedAddress(places[0]);
           }
         } catch (geocodeError) {
           debugLog('Geocoding failed, using coordinates:', geocodeError);
@@ -205,57 +373,41 @@ export function useBusinessVisits() {
         }
       }
 
-      debugLog('Address resolved:', addressString);
-
-      // Prepare visit data with validation for new schema
-      const sanitizedLocation = `${businessName || 'Business Visit'} - ${addressString} (${latitude.toFixed(6)}, ${longitude.toFixed(6)})`.substring(0, 500);
-
-      const visitData = {
-        client_id: clientId || null, // Handle optional client assignment
-        location: sanitizedLocation,
+      const locationFields: VisitLocationFields = {
+        business_name: businessName?.trim().substring(0, 200) || null,
+        ...address,
+      };
+      debugLog('Address resolved:', locationFields);
+
+      const payload: VisitSyncPayload = {
+        id: createLocalId(),
+        client_id: clientId || null,
+        prospect_id: prospectId || null,
+        latitude,
+        longitude,
+        ...locationFields,
+        created_at: new Date().toISOString(),
       };
 
-      const { data, error } = await supabase
-        .from('business_visits')
-        .insert([visitData])
-        .select(`
-          id,
-          client_id,
-          location
-        `)
-        .single();
-
-      if (error) {
-        debugLog('Error creating visit:', error);
-        throw error;
+      let data: BusinessVisit;
+      try {
+        data = await saveVisit(payload);
+      } catch (saveError) {
+        if (!isNetworkError(saveError)) throw saveError;
+        // No signal: keep the visit on the device and show it until the sync queue sends it
+        debugLog('Supabase unreachable, queueing visit:', saveError);
+        const item = await enqueueSyncItem('visit', payload);
+        Alert.alert('Saved Offline', 'No connection right now. The visit will sync automatically when you are back online.');
+        return getPendingVisits([item])[0];
       }
 
       debugLog('Visit marked successfully in new schema:', data);
       
-      // Optimistic update to local state with null check
-      if (data && data.id) {
-        updateState({ visits: [data, ...visits] });
-      }
+      // Optimistic update to local state
+      setState(prev => ({ ...prev, visits: [data, ...prev.visits.filter(v => v.id !== data.id)] }));
       
-      // Trigger notification
       if (user?.id) {
-        try {
-          // Get client data if clientId exists
-          let client: Client | undefined;
-          if (data.client_id) {
-            const { data: clientData } = await supabase
-              .from('clients')
-              .select('*')
-              .eq('id', data.client_id)
-              .single();
-            client = clientData || undefined;
-          }
-          
-          await notifyVisitLogged(data, client, user.id);
-        } catch (notificationError) {
-          debugLog('Failed to send visit notification:', notificationError);
-          // Don't throw error for notification failures
-        }
+        await notifyVisitSaved(data, user.id);
       }
       
       Alert.alert('Success', 'Business visit marked successfully!');
@@ -284,11 +436,17 @@ export function useBusinessVisits() {
       // Prepare sanitized updates
       const sanitizedUpdates: any = {};
 
-      // business_name field doesn't exist in new schema
-      // if (updates.business_name !== undefined) {
-      //   sanitizedUpdates.business_name = updates.business_name.trim().substring(0, 100);
-      // }
-      if (updates.location !== undefined && updates.location !== null) {
+      // Name and address changes also rebuild the location display string
+      const locationUpdates = (['business_name', ...VISIT_ADDRESS_FIELDS] as (keyof VisitLocationFields)[])
+        .filter(field => updates[field] !== undefined);
+      if (locationUpdates.length > 0) {
+        const fields = getVisitLocationFields(existingVisit);
+        locationUpdates.forEach(field => {
+          fields[field] = updates[field]?.trim().substring(0, 200) || null;
+        });
+        Object.assign(sanitizedUpdates, fields);
+        sanitizedUpdates.location = buildVisitLocation(fields, getVisitCoordinates(existingVisit));
+      } else if (updates.location !== undefined && updates.location !== null) {
         sanitizedUpdates.location = updates.location.trim().substring(0, 200);
       }
       // coordinates field doesn't exist in new schema
@@ -309,11 +467,7 @@ export function useBusinessVisits() {
         .from('business_visits')
         .update(sanitizedUpdates)
         .eq('id', id)
-        .select(`
-          id,
-          client_id,
-          location
-        `)
+        .select(VISIT_SELECT)
         .single();
 
       if (error) {
@@ -338,7 +492,7 @@ export function useBusinessVisits() {
     }
   };
 
-  // Delete visit
+  // Move a visit to the Trash
   const deleteVisit = async (id: string) => {
     try {
       debugLog('Deleting visit from new schema...', id);
@@ -351,7 +505,7 @@ export function useBusinessVisits() {
 
       const { error } = await supabase
         .from('business_visits')
-        .delete()
+        .update({ deleted_at: new Date().toISOString() })
         .eq('id', id);
 
       if (error) {
@@ -359,12 +513,13 @@ export function useBusinessVisits() {
         throw error;
       }
 
-      debugLog('Visit deleted successfully from new schema');
+      debugLog('Visit moved to the Trash');
       
       // Remove from local state with null check
-      updateState({ 
-        visits: visits.filter(visit => visit && visit.id !== id)
-      });
+      setState(prev => ({
+        ...prev,
+        visits: prev.visits.filter(visit => visit && visit.id !== id),
+      }));
       
     } catch (error: any) {
       debugLog('Exception deleting visit:', error);
@@ -373,6 +528,43 @@ export function useBusinessVisits() {
     }
   };
 
+  // Bring a visit back from the Trash; visits of a trashed client come back with the client
+  const restoreVisit = async (id: string) => {
+    try {
+      debugLog('Restoring visit...', id);
+
+      const { data: trashed, error: trashedError } = await supabase
+        .from('business_visits')
+        .select('id, client:clients(name, deleted_at)')
+        .eq('id', id)
+        .single();
+
+      if (trashedError) {
+        debugLog('Error loading trashed visit:', trashedError);
+        throw trashedError;
+      }
+      if (trashed.client?.deleted_at) {
+        throw new Error(`Restore ${trashed.client.name} first`);
+      }
+
+      const { error } = await supabase
+        .from('business_visits')
+        .update({ deleted_at: null })
+        .eq('id', id);
+
+      if (error) {
+        debugLog('Error restoring visit:', error);
+        throw error;
+      }
+
+      await fetchVisits(false);
+    } catch (error: any) {
+      debugLog('Exception restoring visit:', error);
+      Alert.alert('Error', `Failed to restore visit: ${error.message}`);
+      throw error;
+    }
+  };
+
   // Get visits for specific date range - disabled since visited_at field doesn't exist
   const getVisitsForDateRange = (startDate: Date, endDate: Date) => {
     // Without timestamp field, we can't filter by date
@@ -386,10 +578,10 @@ export function useBusinessVisits() {
     return getVisitsForDateRange(sevenDaysAgo, new Date());
   };
 
-  // Get visits by business name - disabled since business_name field doesn't exist
+  // Get visits by business name
   const getVisitsByBusiness = (businessName: string) => {
-    // business_name field doesn't exist in new schema
-    return visits;
+    if (!businessName.trim()) return [];
+    return visits.filter(visit => visit && isSameBusiness(visit, businessName));
   };
 
   // Get visit statistics
@@ -415,10 +607,9 @@ export function useBusinessVisits() {
     
     const lowercaseQuery = query.toLowerCase();
     return visits.filter(visit => {
-      // Null check and business_name and notes fields don't exist in new schema
       if (!visit) return false;
-      const location = visit.location ? visit.location.toLowerCase() : '';
-      return location.includes(lowercaseQuery);
+      const fields = getVisitLocationFields(visit);
+      return Object.values(fields).some(value => value?.toLowerCase().includes(lowercaseQuery));
     });
   };
 
@@ -426,6 +617,21 @@ export function useBusinessVisits() {
   useEffect(() => {
     fetchVisits();
 
+    let queuedIds: string[] = [];
+    const showQueuedVisits = (items: SyncQueueItem[]) => {
+      const queued = getPendingVisits(items);
+      // A visit that left the queue has synced (or was discarded); reload to pick it up
+      if (queuedIds.some(id => !queued.some(visit => visit.id === id))) {
+        fetchVisits(false).catch(() => {
+          // Error already handled above
+        });
+      }
+      queuedIds = queued.map(visit => visit.id);
+      updateState({ pendingVisits: queued });
+    };
+    loadSyncQueue().then(showQueuedVisits);
+    const unsubscribeQueue = subscribeToSyncQueue(showQueuedVisits);
+
     // Subscribe to real-time changes with enhanced error handling
     const subscription = supabase
       .channel('visits_realtime_new_schema')
@@ -475,17 +681,19 @@ export function useBusinessVisits() {
     return () => {
       debugLog('Cleaning up visits subscription');
       subscription.unsubscribe();
+      unsubscribeQueue();
     };
   }, []);
 
   return {
-    visits,
+    visits: visitsWithPending,
     loading,
     error,
     isMarkingVisit,
     markVisit,
     updateVisit,
     deleteVisit,
+    restoreVisit,
     getVisitsForDateRange,
     getRecentVisits,
     getVisitsByBusiness,
@@ -0,0 +1,430 @@
+import { useEffect, useRef, useState } from 'react';
+import { Alert } from 'react-native';
+import * as FileSystem from 'expo-file-system';
+import { ImageManipulator, SaveFormat } from 'expo-image-manipulator';
+import { supabase } from '../lib/supabase';
+import { ClientAttachment } from '../types';
+import {
+  ATTACHMENT_BUCKET,
+  ATTACHMENT_URL_TTL_SECONDS,
+  IMAGE_COMPRESS,
+  MAX_IMAGE_DIMENSION,
+  PickedFile,
+  THUMBNAIL_COMPRESS,
+  THUMBNAIL_DIMENSION,
+  UPLOAD_MAX_ATTEMPTS,
+  getAttachmentPath,
+  getResizedDimensions,
+  getRetryDelay,
+  getThumbnailPath,
+  guessMimeType,
+  isImageFile,
+  withExtension,
+} from '../utils/attachments';
+
+const debugMode = process.env.EXPO_PUBLIC_DEBUG_MODE === 'true';
+
+const debugLog = (message: string, data?: any) => {
+  if (debugMode) {
+    console.log(`[Attachments Hook] ${message}`, data || '');
+  }
+};
+
+const ATTACHMENT_SELECT = 'id, client_id, kind, file_name, storage_path, thumbnail_path, mime_type, size_bytes, width, height, uploaded_by, uploaded_by_email, created_at';
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// A file on its way to storage; failed uploads stay listed so they can be retried
+export interface AttachmentUpload {
+  id: string;
+  clientId: string;
+  fileName: string;
+  kind: ClientAttachment['kind'];
+  progress: number; // 0 to 1
+  status: 'preparing' | 'uploading' | 'failed';
+  error?: string;
+}
+
+// A resized file and thumbnail ready to upload, kept so a retry doesn't redo the work
+interface PreparedUpload {
+  file: PickedFile;
+  clientId: string;
+  kind: ClientAttachment['kind'];
+  prepared?: {
+    uri: string;
+    fileName: string;
+    mimeType: string;
+    size?: number;
+    width?: number;
+    height?: number;
+    storagePath: string;
+    thumbnailUri?: string;
+    thumbnailPath?: string;
+  };
+}
+
+interface AttachmentsHookState {
+  attachments: ClientAttachment[];
+  thumbnailUrls: Record<string, string>;
+  uploads: AttachmentUpload[];
+  loading: boolean;
+  error: string | null;
+}
+
+// Attachments for one client; without a client id only uploads are available (e.g. from the new client form)
+export function useClientAttachments(clientId?: string) {
+  const [state, setState] = useState<AttachmentsHookState>({
+    attachments: [],
+    thumbnailUrls: {},
+    uploads: [],
+    loading: !!clientId,
+    error: null,
+  });
+  const pendingUploads = useRef(new Map<string, PreparedUpload>());
+
+  const { attachments, thumbnailUrls, uploads, loading, error } = state;
+
+  const updateState = (updates: Partial<AttachmentsHookState>) => {
+    setState(prev => ({ ...prev, ...updates }));
+  };
+
+  const updateUpload = (id: string, changes: Partial<AttachmentUpload>) => {
+    setState(prev => ({
+      ...prev,
+      uploads: prev.uploads.map(upload => upload.id === id ? { ...upload, ...changes } : upload),
+    }));
+  };
+
+  // Signed URLs for the thumbnails of private images
+  const fetchThumbnailUrls = async (items: ClientAttachment[]): Promise<Record<string, string>> => {
+    const withThumbnails = items.filter(item => item.thumbnail_path);
+    if (withThumbnails.length === 0) return {};
+
+    const { data, error } = await supabase.storage
+      .from(ATTACHMENT_BUCKET)
+      .createSignedUrls(withThumbnails.map(item => item.thumbnail_path), ATTACHMENT_URL_TTL_SECONDS);
+    if (error) {
+      debugLog('Error signing thumbnail URLs:', error);
+      return {};
+    }
+
+    const urls: Record<string, string> = {};
+    (data as { path: string | null; signedUrl: string }[]).forEach(signed => {
+      const item = withThumbnails.find(attachment => attachment.thumbnail_path === signed.path);
+      if (item && signed.signedUrl) urls[item.id] = signed.signedUrl;
+    });
+    return urls;
+  };
+
+  const fetchAttachments = async (showLoading = true) => {
+    if (!clientId) return [];
+    try {
+      if (showLoading) updateState({ loading: true, error: null });
+      debugLog('Fetching attachments...', clientId);
+
+      const { data, error } = await supabase
+        .from('client_attachments')
+        .select(ATTACHMENT_SELECT)
+        .eq('client_id', clientId)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        if (error.code === '42P01' || error.message.includes('does not exist')) {
+          console.warn('📋 Client attachments table does not exist. Attachments are unavailable.');
+          console.warn('💡 To fix: Run the SQL script at migrations/16_create_client_attachments.sql in your Supabase database');
+          updateState({ attachments: [], loading: false });
+          return [];
+        }
+        debugLog('Error fetching attachments:', error);
+        throw error;
+      }
+
+      const fetched = (data as ClientAttachment[]) || [];
+      const urls = await fetchThumbnailUrls(fetched);
+      debugLog('Attachments fetched successfully:', fetched.length);
+      updateState({ attachments: fetched, thumbnailUrls: urls, loading: false });
+      return fetched;
+    } catch (error: any) {
+      debugLog('Exception fetching attachments:', error);
+      const errorMessage = error.message;
+      updateState({ error: errorMessage, loading: false });
+      if (showLoading) {
+        Alert.alert('Error', `Failed to load attachments: ${errorMessage}`);
+      }
+      throw error;
+    }
+  };
+
+  // Images are scaled down and get a thumbnail; other files are uploaded as picked
+  const prepareUpload = async (pending: PreparedUpload) => {
+    const { file, clientId: targetClientId } = pending;
+    const mimeType = file.mimeType || guessMimeType(file.name);
+
+    if (!isImageFile(mimeType)) {
+      const storagePath = getAttachmentPath(targetClientId, file.name);
+      return { uri: file.uri, fileName: file.name, mimeType, size: file.size, storagePath };
+    }
+
+    // PNGs keep their transparency (logos); everything else becomes JPEG
+    const keepPng = mimeType === 'image/png';
+    const format = keepPng ? SaveFormat.PNG : SaveFormat.JPEG;
+    const fileName = withExtension(file.name, keepPng ? 'png' : 'jpg');
+
+    let width = file.width;
+    let height = file.height;
+    if (!width || !height) {
+      const original = await ImageManipulator.manipulate(file.uri).renderAsync();
+      width = original.width;
+      height = original.height;
+    }
+
+    const resizedSize = getResizedDimensions(width, height, MAX_IMAGE_DIMENSION);
+    const resizeContext = ImageManipulator.manipulate(file.uri);
+    if (resizedSize.width < width) resizeContext.resize(resizedSize);
+    const resized = await (await resizeContext.renderAsync()).saveAsync({ compress: IMAGE_COMPRESS, format });
+
+    const thumbnail = await (await ImageManipulator.manipulate(file.uri)
+      .resize(getResizedDimensions(width, height, THUMBNAIL_DIMENSION))
+      .renderAsync()).saveAsync({ compress: THUMBNAIL_COMPRESS, format: SaveFormat.JPEG });
+
+    const info = await FileSystem.getInfoAsync(resized.uri);
+    const storagePath = getAttachmentPath(targetClientId, fileName);
+    return {
+      uri: resized.uri,
+      fileName,
+      mimeType: keepPng ? 'image/png' : 'image/jpeg',
+      size: info.exists ? info.size : undefined,
+      width: resized.width,
+      height: resized.height,
+      storagePath,
+      thumbnailUri: thumbnail.uri,
+      thumbnailPath: getThumbnailPath(storagePath),
+    };
+  };
+
+  // Upload one file through a signed upload URL, retrying with a growing delay
+  const uploadToStorage = async (path: string, uri: string, mimeType: string, onProgress?: (progress: number) => void) => {
+    let lastError: any = null;
+    for (let attempt = 1; attempt <= UPLOAD_MAX_ATTEMPTS; attempt++) {
+      try {
+        const { data, error } = await supabase.storage
+          .from(ATTACHMENT_BUCKET)
+          .createSignedUploadUrl(path, { upsert: true });
+        if (error) throw error;
+
+        const task = FileSystem.createUploadTask(data.signedUrl, uri, {
+          httpMethod: 'PUT',
+          uploadType: FileSystem.FileSystemUploadType.BINARY_CONTENT,
+          headers: { 'Content-Type': mimeType, 'x-upsert': 'true' },
+        }, progress => {
+          if (onProgress && progress.totalBytesExpectedToSend > 0) {
+            onProgress(progress.totalBytesSent / progress.totalBytesExpectedToSend);
+          }
+        });
+        const result = await task.uploadAsync();
+        if (!result || result.status >= 300) {
+          throw new Error(`Storage responded with ${result?.status ?? 'no response'}`);
+        }
+        return;
+      } catch (error: any) {
+        lastError = error;
+        debugLog(`Upload attempt ${attempt} failed:`, error);
+        if (attempt < UPLOAD_MAX_ATTEMPTS) {
+          await wait(getRetryDelay(attempt));
+        }
+      }
+    }
+    throw lastError;
+  };
+
+  const runUpload = async (uploadId: string) => {
+    const pending = pendingUploads.current.get(uploadId);
+    if (!pending) return null;
+
+    try {
+      updateUpload(uploadId, { status: 'preparing', progress: 0, error: undefined });
+      if (!pending.prepared) {
+        pending.prepared = await prepareUpload(pending);
+      }
+      const prepared = pending.prepared;
+
+      // The file itself is most of the bytes; the thumbnail is the last 10%
+      updateUpload(uploadId, { status: 'uploading', fileName: prepared.fileName });
+      await uploadToStorage(prepared.storagePath, prepared.uri, prepared.mimeType, progress => {
+        updateUpload(uploadId, { progress: progress * (prepared.thumbnailUri ? 0.9 : 1) });
+      });
+      if (prepared.thumbnailUri && prepared.thumbnailPath) {
+        await uploadToStorage(prepared.thumbnailPath, prepared.thumbnailUri, 'image/jpeg');
+      }
+
+      const { data, error } = await supabase
+        .from('client_attachments')
+        .insert([{
+          client_id: pending.clientId,
+          kind: pending.kind,
+          file_name: prepared.fileName,
+          storage_path: prepared.storagePath,
+          thumbnail_path: prepared.thumbnailPath || null,
+          mime_type: prepared.mimeType,
+          size_bytes: prepared.size ?? null,
+          width: prepared.width ?? null,
+          height: prepared.height ?? null,
+        }])
+        .select(ATTACHMENT_SELECT)
+        .single();
+
+      if (error) {
+        debugLog('Error recording attachment:', error);
+        throw error;
+      }
+
+      const attachment = data as ClientAttachment;
+      const urls = pending.clientId === clientId ? await fetchThumbnailUrls([attachment]) : {};
+      pendingUploads.current.delete(uploadId);
+      setState(prev => ({
+        ...prev,
+        uploads: prev.uploads.filter(upload => upload.id !== uploadId),
+        attachments: pending.clientId === clientId
+          ? [attachment, ...prev.attachments.filter(a => a.id !== attachment.id)]
+          : prev.attachments,
+        thumbnailUrls: { ...prev.thumbnailUrls, ...urls },
+      }));
+      return attachment;
+    } catch (error: any) {
+      debugLog('Exception uploading attachment:', error);
+      updateUpload(uploadId, { status: 'failed', error: error.message });
+      Alert.alert('Upload Failed', `${pending.file.name} could not be uploaded: ${error.message}`);
+      return null;
+    }
+  };
+
+  // Start uploading a picked file; progress and failures show up in `uploads`
+  const uploadAttachment = (file: PickedFile, kind: ClientAttachment['kind'], targetClientId = clientId) => {
+    if (!targetClientId) {
+      throw new Error('Attachments can only be added to a saved client');
+    }
+    const uploadId = `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+    pendingUploads.current.set(uploadId, { file, clientId: targetClientId, kind });
+    setState(prev => ({
+      ...prev,
+      uploads: [...prev.uploads, { id: uploadId, clientId: targetClientId, fileName: file.name, kind, progress: 0, status: 'preparing' }],
+    }));
+    return runUpload(uploadId);
+  };
+
+  const retryUpload = (uploadId: string) => runUpload(uploadId);
+
+  // Give up on a failed upload, removing anything it already put in storage
+  const dismissUpload = (uploadId: string) => {
+    const prepared = pendingUploads.current.get(uploadId)?.prepared;
+    pendingUploads.current.delete(uploadId);
+    setState(prev => ({ ...prev, uploads: prev.uploads.filter(upload => upload.id !== uploadId) }));
+    if (prepared) {
+      const paths = [prepared.storagePath, prepared.thumbnailPath].filter((path): path is string => !!path);
+      supabase.storage.from(ATTACHMENT_BUCKET).remove(paths).catch((error: any) => {
+        debugLog('Error removing abandoned upload:', error);
+      });
+    }
+  };
+
+  // Remove the record first so the gallery never shows a file that's gone; leftover files are harmless
+  const deleteAttachment = async (attachment: ClientAttachment) => {
+    try {
+      debugLog('Deleting attachment...', attachment.id);
+
+      const { error } = await supabase
+        .from('client_attachments')
+        .delete()
+        .eq('id', attachment.id);
+
+      if (error) {
+        debugLog('Error deleting attachment:', error);
+        throw error;
+      }
+
+      setState(prev => ({ ...prev, attachments: prev.attachments.filter(a => a.id !== attachment.id) }));
+
+      const paths = [attachment.storage_path, attachment.thumbnail_path].filter((path): path is string => !!path);
+      const { error: storageError } = await supabase.storage.from(ATTACHMENT_BUCKET).remove(paths);
+      if (storageError) {
+        debugLog('Error removing attachment files:', storageError);
+      }
+    } catch (error: any) {
+      debugLog('Exception deleting attachment:', error);
+      Alert.alert('Error', `Failed to delete attachment: ${error.message}`);
+      throw error;
+    }
+  };
+
+  // Short-lived URL for viewing or downloading the full file
+  const getAttachmentUrl = async (attachment: ClientAttachment): Promise<string> => {
+    try {
+      const { data, error } = await supabase.storage
+        .from(ATTACHMENT_BUCKET)
+        .createSignedUrl(attachment.storage_path, ATTACHMENT_URL_TTL_SECONDS);
+
+      if (error) {
+        debugLog('Error signing attachment URL:', error);
+        throw error;
+      }
+
+      return data.signedUrl;
+    } catch (error: any) {
+      debugLog('Exception signing attachment URL:', error);
+      Alert.alert('Error', `Failed to open attachment: ${error.message}`);
+      throw error;
+    }
+  };
+
+  // Set up real-time subscription
+  useEffect(() => {
+    if (!clientId) return;
+
+    fetchAttachments().catch(() => {
+      // Error already handled above
+    });
+
+    const subscription = supabase
+      .channel(`client_attachments_${clientId}_realtime_new_schema`)
+      .on('postgres_changes',
+        { event: '*', schema: 'public', table: 'client_attachments', filter: `client_id=eq.${clientId}` },
+        (payload: any) => {
+          debugLog('Real-time attachment change:', payload);
+          fetchAttachments(false).catch(() => {
+            // Error already handled above
+          });
+        }
+      )
+      .subscribe((status: string, err?: Error) => {
+        if (status === 'SUBSCRIBED') {
+          debugLog('Successfully subscribed to attachment real-time updates');
+        } else if (status === 'CHANNEL_ERROR') {
+          debugLog('Channel error:', err);
+        } else if (status === 'TIMED_OUT') {
+          debugLog('Real-time subscription timed out');
+        } else if (status === 'CLOSED') {
+          debugLog('Real-time subscription closed');
+        }
+      });
+
+    return () => {
+      debugLog('Cleaning up attachments subscription');
+      subscription.unsubscribe();
+    };
+  }, [clientId]);
+
+  return {
+    attachments,
+    thumbnailUrls,
+    uploads: clientId ? uploads.filter(upload => upload.clientId === clientId) : uploads,
+    loading,
+    error,
+    uploadAttachment,
+    retryUpload,
+    dismissUpload,
+    deleteAttachment,
+    getAttachmentUrl,
+    refetch: () => fetchAttachments(true),
+    refetchSilent: () => fetchAttachments(false),
+  };
+}
@@ -0,0 +1,177 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Alert } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { supabase } from '../lib/supabase';
+import { Client, CustomFieldValue } from '../types';
+import { DuplicatePair, MERGE_FIELDS, findDuplicateClients } from '../utils/duplicates';
+
+const debugMode = process.env.EXPO_PUBLIC_DEBUG_MODE === 'true';
+
+const debugLog = (message: string, data?: any) => {
+  if (debugMode) {
+    console.log(`[Client Duplicates Hook] ${message}`, data || '');
+  }
+};
+
+// Pairs marked "not duplicates" on this device
+const DISMISSED_PAIRS_KEY = '@aichatflows_dismissed_duplicates';
+
+// Everything matching and merging looks at; the main client list doesn't load social handles
+const CANDIDATE_SELECT = `
+  id,
+  name,
+  email,
+  phone,
+  status,
+  created_at,
+  plan,
+  business_name,
+  instagram_handle,
+  facebook_url,
+  tiktok_handle,
+  business_type,
+  business_niche,
+  products_or_services,
+  notes,
+  custom_fields,
+  tags
+`;
+
+const isMissingFunction = (error: any) => {
+  return error?.code === '42883' || error?.code === 'PGRST202';
+};
+
+interface ClientDuplicatesHookState {
+  candidates: Client[];
+  dismissedPairs: string[];
+  loading: boolean;
+  error: string | null;
+}
+
+export function useClientDuplicates() {
+  const [state, setState] = useState<ClientDuplicatesHookState>({
+    candidates: [],
+    dismissedPairs: [],
+    loading: true,
+    error: null,
+  });
+
+  const { candidates, dismissedPairs, loading, error } = state;
+
+  const updateState = (updates: Partial<ClientDuplicatesHookState>) => {
+    setState(prev => ({ ...prev, ...updates }));
+  };
+
+  const duplicatePairs: DuplicatePair[] = useMemo(
+    () => findDuplicateClients(candidates, dismissedPairs),
+    [candidates, dismissedPairs]
+  );
+
+  // Fetch every client with the fields used for matching
+  const fetchCandidates = async (showLoading = true) => {
+    try {
+      if (showLoading) updateState({ loading: true, error: null });
+      debugLog('Fetching clients for duplicate detection...');
+
+      const [{ data, error }, stored] = await Promise.all([
+        supabase.from('clients').select(CANDIDATE_SELECT).is('deleted_at', null).order('created_at', { ascending: true }),
+        AsyncStorage.getItem(DISMISSED_PAIRS_KEY),
+      ]);
+
+      if (error) {
+        debugLog('Error fetching clients:', error);
+        throw error;
+      }
+
+      debugLog('Clients fetched for duplicate detection:', data?.length);
+      updateState({
+        candidates: (data as Client[]) || [],
+        dismissedPairs: stored ? JSON.parse(stored) : [],
+        loading: false,
+      });
+    } catch (error: any) {
+      debugLog('Exception fetching duplicate candidates:', error);
+      const errorMessage = error.message;
+      updateState({ error: errorMessage, loading: false });
+      if (showLoading) {
+        Alert.alert('Error', `Failed to load clients: ${errorMessage}`);
+      }
+      throw error;
+    }
+  };
+
+  // Hide a pair that only looks alike
+  const dismissPair = async (pairKey: string) => {
+    const updated = Array.from(new Set([...dismissedPairs, pairKey]));
+    updateState({ dismissedPairs: updated });
+    try {
+      await AsyncStorage.setItem(DISMISSED_PAIRS_KEY, JSON.stringify(updated));
+    } catch (error) {
+      console.error('Error saving dismissed duplicates:', error);
+    }
+  };
+
+  // Fold the duplicate into the survivor: history moves over, picked values are applied, the duplicate is deleted
+  const mergeClients = async (
+    survivorId: string,
+    duplicateId: string,
+    values: Partial<Record<keyof Client, string>>,
+    customFields: Record<string, CustomFieldValue> = {}
+  ): Promise<Client> => {
+    try {
+      debugLog('Merging clients...', { survivorId, duplicateId, values, customFields });
+
+      const updates: Record<string, string | Record<string, CustomFieldValue>> = {};
+      MERGE_FIELDS.forEach(({ key }) => {
+        const value = values[key]?.trim();
+        if (value) updates[key] = key === 'email' ? value.toLowerCase() : value;
+      });
+      // Both records' tags are always kept; only the custom field answers are picked
+      if (Object.keys(customFields).length > 0) updates.custom_fields = customFields;
+
+      const { data, error } = await supabase
+        .rpc('merge_clients', { p_survivor_id: survivorId, p_duplicate_id: duplicateId, p_updates: updates })
+        .single();
+
+      if (error) {
+        if (isMissingFunction(error)) {
+          console.warn('💡 To fix: Run the SQL script at migrations/12_create_merge_clients.sql in your Supabase database');
+          throw new Error('Client merging is not set up in the database yet');
+        }
+        debugLog('Error merging clients:', error);
+        throw error;
+      }
+
+      const merged = data as Client;
+      debugLog('Clients merged:', merged);
+      setState(prev => ({
+        ...prev,
+        candidates: prev.candidates
+          .filter(client => client.id !== duplicateId)
+          .map(client => client.id === survivorId ? { ...client, ...merged } : client),
+      }));
+      return merged;
+    } catch (error: any) {
+      debugLog('Exception merging clients:', error);
+      Alert.alert('Error', `Failed to merge clients: ${error.message}`);
+      throw error;
+    }
+  };
+
+  useEffect(() => {
+    fetchCandidates().catch(() => {
+      // Error already handled above
+    });
+  }, []);
+
+  return {
+    candidates,
+    duplicatePairs,
+    loading,
+    error,
+    dismissPair,
+    mergeClients,
+    refetch: () => fetchCandidates(true),
+    refetchSilent: () => fetchCandidates(false),
+  };
+}
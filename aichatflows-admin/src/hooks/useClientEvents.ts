@@ -0,0 +1,118 @@
+import { useEffect, useState } from 'react';
+import { Alert } from 'react-native';
+import { supabase } from '../lib/supabase';
+import { ClientEvent } from '../types';
+
+const debugMode = process.env.EXPO_PUBLIC_DEBUG_MODE === 'true';
+
+const debugLog = (message: string, data?: any) => {
+  if (debugMode) {
+    console.log(`[Client Events Hook] ${message}`, data || '');
+  }
+};
+
+interface ClientEventsHookState {
+  events: ClientEvent[];
+  loading: boolean;
+  error: string | null;
+}
+
+// Read-only: rows are written by database triggers on clients, plans, payments, visits and submissions
+export function useClientEvents() {
+  const [state, setState] = useState<ClientEventsHookState>({
+    events: [],
+    loading: true,
+    error: null,
+  });
+
+  const { events, loading, error } = state;
+
+  const updateState = (updates: Partial<ClientEventsHookState>) => {
+    setState(prev => ({ ...prev, ...updates }));
+  };
+
+  // Fetch the full lifecycle history, oldest first
+  const fetchEvents = async (showLoading = true) => {
+    try {
+      if (showLoading) updateState({ loading: true, error: null });
+      debugLog('Fetching client events...');
+
+      const { data, error } = await supabase
+        .from('client_events')
+        .select('id, client_id, event_type, from_value, to_value, data, actor_id, actor_email, occurred_at')
+        .order('occurred_at', { ascending: true });
+
+      if (error) {
+        if (error.code === '42P01' || error.message.includes('does not exist')) {
+          console.warn('📋 Client events table does not exist. Client timelines and retention will use current values.');
+          console.warn('💡 To fix: Run the SQL script at migrations/11_create_client_events.sql in your Supabase database');
+          updateState({ events: [], loading: false });
+          return [];
+        }
+        debugLog('Error fetching client events:', error);
+        throw error;
+      }
+
+      debugLog('Client events fetched successfully:', data?.length);
+      updateState({ events: (data as ClientEvent[]) || [], loading: false });
+      return (data as ClientEvent[]) || [];
+    } catch (error: any) {
+      debugLog('Exception fetching client events:', error);
+      const errorMessage = error.message;
+      updateState({ error: errorMessage, loading: false });
+      if (showLoading) {
+        Alert.alert('Error', `Failed to load client history: ${errorMessage}`);
+      }
+      throw error;
+    }
+  };
+
+  // Newest first, for timelines
+  const getEventsForClient = (clientId: string): ClientEvent[] => {
+    return events.filter(event => event.client_id === clientId).reverse();
+  };
+
+  // Set up real-time subscription
+  useEffect(() => {
+    fetchEvents().catch(() => {
+      // Error already handled above
+    });
+
+    const subscription = supabase
+      .channel('client_events_realtime_new_schema')
+      .on('postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'client_events' },
+        (payload: any) => {
+          debugLog('Real-time client event:', payload);
+          fetchEvents(false).catch(() => {
+            // Error already handled above
+          });
+        }
+      )
+      .subscribe((status: string, err?: Error) => {
+        if (status === 'SUBSCRIBED') {
+          debugLog('Successfully subscribed to client events real-time updates');
+        } else if (status === 'CHANNEL_ERROR') {
+          debugLog('Channel error:', err);
+        } else if (status === 'TIMED_OUT') {
+          debugLog('Real-time subscription timed out');
+        } else if (status === 'CLOSED') {
+          debugLog('Real-time subscription closed');
+        }
+      });
+
+    return () => {
+      debugLog('Cleaning up client events subscription');
+      subscription.unsubscribe();
+    };
+  }, []);
+
+  return {
+    events,
+    loading,
+    error,
+    getEventsForClient,
+    refetch: () => fetchEvents(true),
+    refetchSilent: () => fetchEvents(false),
+  };
+}
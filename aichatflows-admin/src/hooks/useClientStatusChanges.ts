@@ -0,0 +1,114 @@
+import { useEffect, useState } from 'react';
+import { Alert } from 'react-native';
+import { supabase } from '../lib/supabase';
+import { ClientStatusChange } from '../types';
+
+const debugMode = process.env.EXPO_PUBLIC_DEBUG_MODE === 'true';
+
+const debugLog = (message: string, data?: any) => {
+  if (debugMode) {
+    console.log(`[Client Status Changes Hook] ${message}`, data || '');
+  }
+};
+
+interface ClientStatusChangesHookState {
+  statusChanges: ClientStatusChange[];
+  loading: boolean;
+  error: string | null;
+}
+
+// Read-only: the status_change rows of client_events, written by a database trigger whenever
+// a client's status changes
+export function useClientStatusChanges() {
+  const [state, setState] = useState<ClientStatusChangesHookState>({
+    statusChanges: [],
+    loading: true,
+    error: null,
+  });
+
+  const { statusChanges, loading, error } = state;
+
+  const updateState = (updates: Partial<ClientStatusChangesHookState>) => {
+    setState(prev => ({ ...prev, ...updates }));
+  };
+
+  // Fetch the full status history
+  const fetchStatusChanges = async (showLoading = true) => {
+    try {
+      if (showLoading) updateState({ loading: true, error: null });
+      debugLog('Fetching client status changes...');
+
+      const { data, error } = await supabase
+        .from('client_events')
+        .select('id, client_id, from_status:from_value, to_status:to_value, changed_at:occurred_at')
+        .eq('event_type', 'status_change')
+        .order('occurred_at', { ascending: true });
+
+      if (error) {
+        if (error.code === '42P01' || error.message.includes('does not exist')) {
+          console.warn('📋 Client events table does not exist. MRR history will use current statuses.');
+          console.warn('💡 To fix: Run the SQL script at migrations/11_create_client_events.sql in your Supabase database');
+          updateState({ statusChanges: [], loading: false });
+          return [];
+        }
+        debugLog('Error fetching client status changes:', error);
+        throw error;
+      }
+
+      debugLog('Client status changes fetched successfully:', data?.length);
+      updateState({ statusChanges: (data as unknown as ClientStatusChange[]) || [], loading: false });
+      return (data as unknown as ClientStatusChange[]) || [];
+    } catch (error: any) {
+      debugLog('Exception fetching client status changes:', error);
+      const errorMessage = error.message;
+      updateState({ error: errorMessage, loading: false });
+      if (showLoading) {
+        Alert.alert('Error', `Failed to load client history: ${errorMessage}`);
+      }
+      throw error;
+    }
+  };
+
+  // Set up real-time subscription
+  useEffect(() => {
+    fetchStatusChanges().catch(() => {
+      // Error already handled above
+    });
+
+    const subscription = supabase
+      .channel('client_status_changes_realtime_new_schema')
+      .on('postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'client_events', filter: 'event_type=eq.status_change' },
+        (payload: any) => {
+          debugLog('Real-time status change:', payload);
+          fetchStatusChanges(false).catch(() => {
+            // Error already handled above
+          });
+        }
+      )
+      .subscribe((status: string, err?: Error) => {
+        if (status === 'SUBSCRIBED') {
+          debugLog('Successfully subscribed to client status changes real-time updates');
+        } else if (status === 'CHANNEL_ERROR') {
+          debugLog('Channel error:', err);
+        } else if (status === 'TIMED_OUT') {
+          debugLog('Real-time subscription timed out');
+        } else if (status === 'CLOSED') {
+          debugLog('Real-time subscription closed');
+        }
+      });
+
+    return () => {
+      debugLog('Cleaning up client status changes subscription');
+      subscription.unsubscribe();
+    };
+  }, []);
+
+  return {
+    statusChanges,
+    loading,
+    error,
+    refetch: () => fetchStatusChanges(true),
+    refetchSilent: () => fetchStatusChanges(false),
+  };
+}
@@ -1,9 +1,11 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { Alert } from 'react-native';
 import Constants from 'expo-constants';
 import { supabase } from '../lib/supabase';
 import { Client } from '../types';
 import { notifyClientAdded } from '../utils/notifications';
+import { CsvImportResult, IMPORT_BATCH_SIZE } from '../utils/csvImport';
+import { normalizeTags } from '../utils/customFields';
 import { useAuth } from './useAuth';
 
 const debugMode = Constants.expoConfig?.extra?.debugMode;
@@ -14,6 +16,64 @@ const debugLog = (message: string, data?: any) => {
   }
 };
 
+export type NewClient = Omit<Client, 'id' | 'created_at' | 'updated_at'>;
+
+// Thrown by deleteClient(id, false) when the client has payments or submissions
+export const RELATED_RECORDS_ERROR = 'Has payments or onboarding submissions';
+
+// Comprehensive client row for insertion, with inputs trimmed and optional fields nulled
+export const prepareClientRow = (clientData: NewClient, now: string) => {
+  return {
+    // Basic required fields
+    name: clientData.name.trim(),
+    email: clientData.email.trim().toLowerCase(),
+    phone: clientData.phone?.trim() || '',
+    status: clientData.status || 'active' as Client['status'],
+    created_at: now,
+    
+    // Social media handles
+    instagram_handle: clientData.instagram_handle?.trim() || null,
+    facebook_url: clientData.facebook_url?.trim() || null,
+    tiktok_handle: clientData.tiktok_handle?.trim() || null,
+    
+    // Business preferences
+    delivery_preference: clientData.delivery_preference || null,
+    platform_preference: clientData.platform_preference || null,
+    plan: clientData.plan || null,
+    plan_price: clientData.plan_price ?? null,
+    payment_status: clientData.payment_status || 'unpaid',
+    signed_in_person: clientData.signed_in_person || false,
+    payment_method: clientData.payment_method?.trim() || null,
+    notes: clientData.notes?.trim() || null,
+    
+    // Comprehensive business details
+    business_name: clientData.business_name?.trim() || null,
+    other_platforms: clientData.other_platforms?.trim() || null,
+    business_type: clientData.business_type?.trim() || null,
+    business_niche: clientData.business_niche?.trim() || null,
+    common_customer_question: clientData.common_customer_question?.trim() || null,
+    products_or_services: clientData.products_or_services?.trim() || null,
+    has_faqs: clientData.has_faqs || false,
+    faq_location: clientData.faq_location?.trim() || null,
+    consent_to_share: clientData.consent_to_share || false,
+    
+    // Login credentials are saved to the credential vault separately, never in plaintext here
+    
+    // Delivery details
+    delivery_method: clientData.delivery_method?.trim() || null,
+    delivery_notes: clientData.delivery_notes?.trim() || null,
+    pickup_method: clientData.pickup_method?.trim() || null,
+    pickup_notes: clientData.pickup_notes?.trim() || null,
+    
+    // Photo upload
+    photo_url: clientData.photo_url?.trim() || null,
+
+    // Tags and admin-defined custom fields
+    tags: normalizeTags(clientData.tags || []),
+    custom_fields: clientData.custom_fields || {},
+  };
+};
+
 interface ClientsHookState {
   clients: Client[];
   loading: boolean;
@@ -30,6 +90,10 @@ export function useClients() {
 
   const { clients, loading, error } = state;
 
+  // Read by the realtime handler, which outlives the render it was subscribed in
+  const clientsRef = useRef(clients);
+  clientsRef.current = clients;
+
   const updateState = (updates: Partial<ClientsHookState>) => {
     setState(prev => ({ ...prev, ...updates }));
   };
@@ -48,8 +112,25 @@ export function useClients() {
           email,
           phone,
           status,
-          created_at
+          created_at,
+          plan,
+          plan_price,
+          payment_status,
+          business_name,
+          business_type,
+          business_niche,
+          products_or_services,
+          common_customer_question,
+          instagram_handle,
+          facebook_url,
+          tiktok_handle,
+          platform_preference,
+          delivery_preference,
+          photo_url,
+          tags,
+          custom_fields
         `)
+        .is('deleted_at', null)
         .order('created_at', { ascending: false });
 
       if (error) {
@@ -72,7 +153,8 @@ export function useClients() {
   };
 
   // Create new client
-  const createClient = async (clientData: Omit<Client, 'id' | 'created_at' | 'updated_at'>) => {
+  // The in-person screen passes showAlert=false and explains failures itself
+  const createClient = async (clientData: NewClient, showAlert = true) => {
     try {
       debugLog('Creating client with comprehensive data...', clientData);
 
@@ -81,55 +163,7 @@ export function useClients() {
         throw new Error('Name and email are required fields');
       }
 
-      // Prepare comprehensive client data with timestamps
-      const now = new Date().toISOString();
-      const newClientData = {
-        // Basic required fields
-        name: clientData.name.trim(),
-        email: clientData.email.trim().toLowerCase(),
-        phone: clientData.phone?.trim() || '',
-        status: clientData.status || 'active' as Client['status'],
-        created_at: now,
-        
-        // Social media handles
-        instagram_handle: clientData.instagram_handle?.trim() || null,
-        facebook_url: clientData.facebook_url?.trim() || null,
-        tiktok_handle: clientData.tiktok_handle?.trim() || null,
-        
-        // Business preferences
-        delivery_preference: clientData.delivery_preference || null,
-        platform_preference: clientData.platform_preference || null,
-        plan: clientData.plan || null,
-        payment_status: clientData.payment_status || 'unpaid',
-        signed_in_person: clientData.signed_in_person || false,
-        payment_method: clientData.payment_method?.trim() || null,
-        notes: clientData.notes?.trim() || null,
-        
-        // Comprehensive business details
-        business_name: clientData.business_name?.trim() || null,
-        other_platforms: clientData.other_platforms?.trim() || null,
-        business_type: clientData.business_type?.trim() || null,
-        business_niche: clientData.business_niche?.trim() || null,
-        common_customer_question: clientData.common_customer_question?.trim() || null,
-        products_or_services: clientData.products_or_services?.trim() || null,
-        has_faqs: clientData.has_faqs || false,
-        faq_location: clientData.faq_location?.trim() || null,
-        consent_to_share: clientData.consent_to_share || false,
-        
-        // Login credentials (if provided)
-        instagram_password: clientData.instagram_password?.trim() || null,
-        facebook_password: clientData.facebook_password?.trim() || null,
-        tiktok_password: clientData.tiktok_password?.trim() || null,
-        
-        // Delivery details
-        delivery_method: clientData.delivery_method?.trim() || null,
-        delivery_notes: clientData.delivery_notes?.trim() || null,
-        pickup_method: clientData.pickup_method?.trim() || null,
-        pickup_notes: clientData.pickup_notes?.trim() || null,
-        
-        // Photo upload
-        photo_url: clientData.photo_url?.trim() || null,
-      };
+      const newClientData = prepareClientRow(clientData, new Date().toISOString());
 
       debugLog('Prepared client data for insertion:', newClientData);
 
@@ -149,6 +183,7 @@ export function useClients() {
           delivery_preference,
           platform_preference,
           plan,
+          plan_price,
           payment_status,
           signed_in_person,
           payment_method,
@@ -162,14 +197,13 @@ export function useClients() {
           has_faqs,
           faq_location,
           consent_to_share,
-          instagram_password,
-          facebook_password,
-          tiktok_password,
           delivery_method,
           delivery_notes,
           pickup_method,
           pickup_notes,
-          photo_url
+          photo_url,
+          tags,
+          custom_fields
         `)
         .single();
 
@@ -257,13 +291,48 @@ export function useClients() {
       }
       
       console.error(`🔍 Error Analysis: ${consoleMessage}`);
-      Alert.alert('Error', userMessage);
+      if (showAlert) {
+        Alert.alert('Error', userMessage);
+      }
       throw error;
     }
   };
 
-  // Update client
-  const updateClient = async (id: string, updates: Partial<Omit<Client, 'id' | 'created_at'>>) => {
+  // Insert many clients in batches; rows in a failed batch are reported and the rest still go in
+  const importClients = async (
+    rows: NewClient[],
+    onProgress?: (done: number, total: number) => void
+  ): Promise<CsvImportResult> => {
+    const result: CsvImportResult = { imported: 0, failed: [] };
+    const now = new Date().toISOString();
+    debugLog('Importing clients...', rows.length);
+
+    for (let start = 0; start < rows.length; start += IMPORT_BATCH_SIZE) {
+      const batch = rows.slice(start, start + IMPORT_BATCH_SIZE);
+      const { error } = await supabase
+        .from('clients')
+        .insert(batch.map(row => prepareClientRow(row, now)));
+
+      if (error) {
+        debugLog('Error importing client batch:', error);
+        batch.forEach((_, offset) => result.failed.push({ index: start + offset, message: error.message }));
+      } else {
+        result.imported += batch.length;
+      }
+      onProgress?.(start + batch.length, rows.length);
+    }
+
+    debugLog('Client import finished:', result);
+    if (result.imported > 0) {
+      await fetchClients(false).catch(() => {
+        // Error already handled above
+      });
+    }
+    return result;
+  };
+
+  // Update client; bulk actions pass showAlert=false and report failures themselves
+  const updateClient = async (id: string, updates: Partial<Omit<Client, 'id' | 'created_at'>>, showAlert = true) => {
     try {
       debugLog('Updating client in new schema...', { id, updates });
 
@@ -290,6 +359,19 @@ export function useClients() {
       if (updates.status !== undefined) {
         sanitizedUpdates.status = updates.status;
       }
+      if (updates.plan !== undefined) {
+        sanitizedUpdates.plan = updates.plan || null;
+      }
+      if (updates.plan_price !== undefined) {
+        sanitizedUpdates.plan_price = updates.plan_price;
+      }
+      if (updates.tags !== undefined) {
+        sanitizedUpdates.tags = normalizeTags(updates.tags || []);
+      }
+      if (updates.custom_fields !== undefined) {
+        sanitizedUpdates.custom_fields = updates.custom_fields || {};
+      }
+      // payment_status is derived from open invoices (see useInvoices.syncClientPaymentStatus)
       // notes field doesn't exist in new schema
       // if (updates.notes !== undefined) {
       //   sanitizedUpdates.notes = updates.notes?.trim() || null;
@@ -305,7 +387,23 @@ export function useClients() {
           email,
           phone,
           status,
-          created_at
+          created_at,
+          plan,
+          plan_price,
+          payment_status,
+          business_name,
+          business_type,
+          business_niche,
+          products_or_services,
+          common_customer_question,
+          instagram_handle,
+          facebook_url,
+          tiktok_handle,
+          platform_preference,
+          delivery_preference,
+          photo_url,
+          tags,
+          custom_fields
         `)
         .single();
 
@@ -316,21 +414,66 @@ export function useClients() {
 
       debugLog('Client updated successfully in new schema:', data);
       
-      // Update local state
-      updateState({ 
-        clients: clients.map(client => client.id === id ? data : client)
-      });
+      // Update local state (from the latest state, so back-to-back bulk updates don't overwrite each other)
+      setState(prev => ({
+        ...prev,
+        clients: prev.clients.map(client => client.id === id ? data : client),
+      }));
       
       return data;
     } catch (error: any) {
       debugLog('Exception updating client:', error);
-      Alert.alert('Error', `Failed to update client: ${error.message}`);
+      if (showAlert) {
+        Alert.alert('Error', `Failed to update client: ${error.message}`);
+      }
+      throw error;
+    }
+  };
+
+  // Manually mark a client paid or overdue; the next invoice sync recalculates it
+  const setClientPaymentStatus = async (id: string, paymentStatus: Client['payment_status'], showAlert = true) => {
+    try {
+      debugLog('Setting client payment status...', { id, paymentStatus });
+
+      const { error } = await supabase
+        .from('clients')
+        .update({ payment_status: paymentStatus, updated_at: new Date().toISOString() })
+        .eq('id', id);
+
+      if (error) {
+        debugLog('Error updating client payment status:', error);
+        throw error;
+      }
+
+      setState(prev => ({
+        ...prev,
+        clients: prev.clients.map(client => client.id === id ? { ...client, payment_status: paymentStatus } : client),
+      }));
+    } catch (error: any) {
+      debugLog('Exception setting client payment status:', error);
+      if (showAlert) {
+        Alert.alert('Error', `Failed to update payment status: ${error.message}`);
+      }
       throw error;
     }
   };
 
-  // Delete client (with cascade protection)
-  const deleteClient = async (id: string) => {
+  // Clients with payments or onboarding submissions can't be deleted
+  const hasRelatedRecords = async (id: string) => {
+    const [paymentsCheck, submissionsCheck] = await Promise.all([
+      supabase.from('payments').select('id').eq('client_id', id).limit(1),
+      supabase.from('onboarding_submissions').select('id').eq('client_id', id).limit(1),
+    ]);
+
+    return !!(
+      (paymentsCheck.data && paymentsCheck.data.length > 0) ||
+      (submissionsCheck.data && submissionsCheck.data.length > 0)
+    );
+  };
+
+  // Move a client to the Trash (with cascade protection); its payments, visits and goals go with it.
+  // Resolves false when blocked. Without alerts, a blocked delete throws instead of offering to cancel
+  const deleteClient = async (id: string, showAlert = true) => {
     try {
       debugLog('Deleting client from new schema...', id);
 
@@ -341,16 +484,12 @@ export function useClients() {
       }
 
       // Check for related records before deletion
-      const [paymentsCheck, submissionsCheck] = await Promise.all([
-        supabase.from('payments').select('id').eq('client_id', id).limit(1),
-        supabase.from('onboarding_submissions').select('id').eq('client_id', id).limit(1),
-      ]);
-
-      const hasRelatedData = 
-        (paymentsCheck.data && paymentsCheck.data.length > 0) ||
-        (submissionsCheck.data && submissionsCheck.data.length > 0);
+      const hasRelatedData = await hasRelatedRecords(id);
 
       if (hasRelatedData) {
+        if (!showAlert) {
+          throw new Error(RELATED_RECORDS_ERROR);
+        }
         Alert.alert(
           'Cannot Delete Client',
           'This client has associated payments or submissions. Please remove those first or set client status to cancelled.',
@@ -362,29 +501,54 @@ export function useClients() {
             }
           ]
         );
-        return;
+        return false;
       }
 
-      const { error } = await supabase
-        .from('clients')
-        .delete()
-        .eq('id', id);
+      const { error } = await supabase.rpc('soft_delete_client', { p_client_id: id });
 
       if (error) {
+        if (error.code === '42883' || error.code === 'PGRST202') {
+          console.warn('💡 To fix: Run the SQL script at migrations/17_add_soft_delete.sql in your Supabase database');
+        }
         debugLog('Error deleting client:', error);
         throw error;
       }
 
-      debugLog('Client deleted successfully from new schema');
+      debugLog('Client moved to the Trash');
       
       // Remove from local state
-      updateState({ 
-        clients: clients.filter(client => client.id !== id)
-      });
-      
+      setState(prev => ({
+        ...prev,
+        clients: prev.clients.filter(client => client.id !== id),
+      }));
+      return true;
     } catch (error: any) {
       debugLog('Exception deleting client:', error);
-      Alert.alert('Error', `Failed to delete client: ${error.message}`);
+      if (showAlert) {
+        Alert.alert('Error', `Failed to delete client: ${error.message}`);
+      }
+      throw error;
+    }
+  };
+
+  // Bring a client back from the Trash, with the records that were trashed along with it
+  const restoreClient = async (id: string, showAlert = true) => {
+    try {
+      debugLog('Restoring client...', id);
+
+      const { error } = await supabase.rpc('restore_client', { p_client_id: id });
+
+      if (error) {
+        debugLog('Error restoring client:', error);
+        throw error;
+      }
+
+      await fetchClients(false);
+    } catch (error: any) {
+      debugLog('Exception restoring client:', error);
+      if (showAlert) {
+        Alert.alert('Error', `Failed to restore client: ${error.message}`);
+      }
       throw error;
     }
   };
@@ -447,21 +611,32 @@ export function useClients() {
           try {
             if (payload.eventType === 'INSERT') {
               const newClient = payload.new as Client;
-              updateState({ 
-                clients: [newClient, ...clients.filter(c => c.id !== newClient.id)]
-              });
+              setState(prev => ({
+                ...prev,
+                clients: [newClient, ...prev.clients.filter(c => c.id !== newClient.id)]
+              }));
             } else if (payload.eventType === 'UPDATE') {
+              // Trashing and restoring arrive as updates to deleted_at
               const updatedClient = payload.new as Client;
-              updateState({ 
-                clients: clients.map(client => 
-                  client.id === updatedClient.id ? updatedClient : client
-                )
-              });
+              if (updatedClient.deleted_at) {
+                setState(prev => ({
+                  ...prev,
+                  clients: prev.clients.filter(client => client.id !== updatedClient.id)
+                }));
+              } else if (!clientsRef.current.some(client => client.id === updatedClient.id)) {
+                fetchClients(false); // Restored from the trash: re-fetch to keep the list in order
+              } else {
+                setState(prev => ({
+                  ...prev,
+                  clients: prev.clients.map(client => client.id === updatedClient.id ? updatedClient : client)
+                }));
+              }
             } else if (payload.eventType === 'DELETE') {
               const deletedId = payload.old.id;
-              updateState({ 
-                clients: clients.filter(client => client.id !== deletedId)
-              });
+              setState(prev => ({
+                ...prev,
+                clients: prev.clients.filter(client => client.id !== deletedId)
+              }));
             }
           } catch (error) {
             debugLog('Error handling real-time update:', error);
@@ -493,8 +668,12 @@ export function useClients() {
     loading,
     error,
     createClient,
+    importClients,
     updateClient,
+    setClientPaymentStatus,
+    hasRelatedRecords,
     deleteClient,
+    restoreClient,
     getClientsByStatus,
     searchClients,
     filterClients,
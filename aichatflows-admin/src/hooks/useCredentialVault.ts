@@ -0,0 +1,436 @@
+import { useEffect, useState } from 'react';
+import { Alert } from 'react-native';
+import * as LocalAuthentication from 'expo-local-authentication';
+import { supabase } from '../lib/supabase';
+import { ClientCredential, ClientFormData, CredentialAccessLogEntry } from '../types';
+import {
+  CREDENTIAL_PLATFORMS,
+  CredentialPlatform,
+  MIN_PASSPHRASE_LENGTH,
+  VAULT_KDF_ITERATIONS,
+  checkVerifier,
+  clearSessionKey,
+  createVerifier,
+  decryptSecret,
+  deriveVaultKey,
+  encryptSecret,
+  generateSalt,
+  getSessionKey,
+  setSessionKey,
+} from '../utils/vault';
+import { useAuth } from './useAuth';
+
+const debugMode = process.env.EXPO_PUBLIC_DEBUG_MODE === 'true';
+
+const debugLog = (message: string, data?: any) => {
+  if (debugMode) {
+    console.log(`[Credential Vault Hook] ${message}`, data || '');
+  }
+};
+
+// Metadata only; ciphertext stays out of what screens get to see
+const CREDENTIAL_SELECT = 'id, client_id, platform, updated_at';
+
+const isMissingTable = (error: any) => {
+  return error?.code === '42P01' || error?.message?.includes('does not exist');
+};
+
+export type VaultStatus = 'loading' | 'unavailable' | 'not_set_up' | 'locked' | 'unlocked';
+
+type StoredCredential = Pick<ClientCredential, 'id' | 'client_id' | 'platform' | 'updated_at'>;
+
+// Client row from before the vault, with passwords still in plaintext columns
+interface LegacyCredentialRow {
+  id: string;
+  instagram_password: string | null;
+  facebook_password: string | null;
+  tiktok_password: string | null;
+}
+
+interface CredentialVaultHookState {
+  status: VaultStatus;
+  credentials: StoredCredential[];
+  error: string | null;
+}
+
+export function useCredentialVault() {
+  const { user } = useAuth();
+  const [state, setState] = useState<CredentialVaultHookState>({
+    status: getSessionKey() ? 'unlocked' : 'loading',
+    credentials: [],
+    error: null,
+  });
+
+  const { status, credentials, error } = state;
+
+  const updateState = (updates: Partial<CredentialVaultHookState>) => {
+    setState(prev => ({ ...prev, ...updates }));
+  };
+
+  const requireKey = () => {
+    const key = getSessionKey();
+    if (!key) {
+      throw new Error('Unlock the credential vault first');
+    }
+    return key;
+  };
+
+  // Work out whether the vault exists and which credentials are stored
+  const fetchVault = async (showLoading = true) => {
+    try {
+      debugLog('Fetching credential vault...');
+
+      const { data: vault, error: vaultError } = await supabase
+        .from('credential_vault')
+        .select('id')
+        .maybeSingle();
+
+      if (vaultError) {
+        if (isMissingTable(vaultError)) {
+          console.warn('📋 Credential vault tables do not exist. Client credentials cannot be stored yet.');
+          console.warn('💡 To fix: Run the SQL script at migrations/10_create_credential_vault.sql in your Supabase database');
+          updateState({ status: 'unavailable', credentials: [] });
+          return;
+        }
+        throw vaultError;
+      }
+
+      const { data, error } = await supabase
+        .from('client_credentials')
+        .select(CREDENTIAL_SELECT);
+
+      if (error) throw error;
+
+      const vaultStatus: VaultStatus = !vault ? 'not_set_up' : getSessionKey() ? 'unlocked' : 'locked';
+      debugLog('Credential vault fetched:', { vaultStatus, credentials: data?.length });
+      updateState({ status: vaultStatus, credentials: (data as StoredCredential[]) || [], error: null });
+    } catch (error: any) {
+      debugLog('Exception fetching credential vault:', error);
+      updateState({ error: error.message });
+      if (showLoading) {
+        Alert.alert('Error', `Failed to load credential vault: ${error.message}`);
+      }
+      throw error;
+    }
+  };
+
+  // Create the vault with a new admin passphrase; every admin unlocks it with the same one
+  const setUpVault = async (passphrase: string) => {
+    try {
+      if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+        throw new Error(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+      }
+
+      debugLog('Setting up credential vault...');
+      const salt = generateSalt();
+      const key = await deriveVaultKey(passphrase, salt, VAULT_KDF_ITERATIONS);
+      const verifier = createVerifier(key);
+
+      const { error } = await supabase
+        .from('credential_vault')
+        .insert([{
+          kdf_salt: salt,
+          kdf_iterations: VAULT_KDF_ITERATIONS,
+          verifier_ciphertext: verifier.ciphertext,
+          verifier_nonce: verifier.nonce,
+        }]);
+
+      if (error) {
+        // Another admin set it up first
+        if (error.code === '23505') {
+          throw new Error('The vault has already been set up. Unlock it with the existing passphrase.');
+        }
+        throw error;
+      }
+
+      setSessionKey(key);
+      updateState({ status: 'unlocked' });
+      await migrateLegacyCredentials();
+    } catch (error: any) {
+      debugLog('Exception setting up credential vault:', error);
+      Alert.alert('Error', `Failed to set up vault: ${error.message}`);
+      throw error;
+    }
+  };
+
+  // Derive the key from the passphrase and keep it in memory for this session
+  const unlockVault = async (passphrase: string) => {
+    try {
+      debugLog('Unlocking credential vault...');
+      const { data, error } = await supabase
+        .from('credential_vault')
+        .select('kdf_salt, kdf_iterations, verifier_ciphertext, verifier_nonce')
+        .single();
+
+      if (error) throw error;
+
+      const key = await deriveVaultKey(passphrase, data.kdf_salt, data.kdf_iterations);
+      if (!checkVerifier(key, { ciphertext: data.verifier_ciphertext, nonce: data.verifier_nonce })) {
+        throw new Error('Incorrect passphrase');
+      }
+
+      setSessionKey(key);
+      updateState({ status: 'unlocked' });
+      await migrateLegacyCredentials();
+    } catch (error: any) {
+      debugLog('Exception unlocking credential vault:', error);
+      Alert.alert('Error', `Failed to unlock vault: ${error.message}`);
+      throw error;
+    }
+  };
+
+  const lockVault = () => {
+    clearSessionKey();
+    updateState({ status: 'locked' });
+  };
+
+  // Encrypt and store a credential; an empty secret removes it
+  const saveCredential = async (clientId: string, platform: CredentialPlatform, secret: string) => {
+    const key = requireKey();
+
+    if (!secret) {
+      const { error } = await supabase
+        .from('client_credentials')
+        .delete()
+        .eq('client_id', clientId)
+        .eq('platform', platform);
+      if (error) throw error;
+      updateState({ credentials: credentials.filter(c => !(c.client_id === clientId && c.platform === platform)) });
+      return;
+    }
+
+    const encrypted = encryptSecret(key, secret);
+    const { data, error } = await supabase
+      .from('client_credentials')
+      .upsert([{
+        client_id: clientId,
+        platform,
+        ciphertext: encrypted.ciphertext,
+        nonce: encrypted.nonce,
+        updated_by: user?.id,
+        updated_at: new Date().toISOString(),
+      }], { onConflict: 'client_id,platform' })
+      .select(CREDENTIAL_SELECT)
+      .single();
+
+    if (error) throw error;
+
+    setState(prev => ({
+      ...prev,
+      credentials: [
+        ...prev.credentials.filter(c => !(c.client_id === clientId && c.platform === platform)),
+        data as StoredCredential,
+      ],
+    }));
+  };
+
+  // Save whichever passwords were typed into the client form; blank fields keep what's stored
+  const saveClientCredentials = async (clientId: string, formData: Partial<ClientFormData>) => {
+    try {
+      const entered = CREDENTIAL_PLATFORMS
+        .map(platform => ({ platform, secret: formData[`${platform}_password`]?.trim() || '' }))
+        .filter(entry => entry.secret);
+
+      if (entered.length === 0) return;
+
+      debugLog('Saving client credentials...', { clientId, platforms: entered.map(e => e.platform) });
+      for (const entry of entered) {
+        await saveCredential(clientId, entry.platform, entry.secret);
+      }
+    } catch (error: any) {
+      debugLog('Exception saving client credentials:', error);
+      Alert.alert('Error', `Failed to save credentials: ${error.message}`);
+      throw error;
+    }
+  };
+
+  const removeCredential = async (clientId: string, platform: CredentialPlatform) => {
+    try {
+      requireKey();
+      await saveCredential(clientId, platform, '');
+    } catch (error: any) {
+      debugLog('Exception removing credential:', error);
+      Alert.alert('Error', `Failed to remove credential: ${error.message}`);
+      throw error;
+    }
+  };
+
+  // Confirm it's still the signed-in admin: device biometrics, or their account password
+  const reauthenticate = async (password?: string): Promise<boolean> => {
+    try {
+      if (password === undefined) {
+        const result = await LocalAuthentication.authenticateAsync({
+          promptMessage: 'Confirm it\'s you to reveal this password',
+          disableDeviceFallback: false,
+        });
+        return result.success;
+      }
+
+      // Checked by the database so the live session isn't replaced by a fresh sign-in. It stops
+      // checking after too many wrong passwords, which comes back as an error
+      const { data, error } = await supabase.rpc('verify_user_password', { p_password: password });
+      if (error) {
+        Alert.alert('Error', error.message);
+        throw error;
+      }
+      return data === true;
+    } catch (error: any) {
+      debugLog('Exception re-authenticating:', error);
+      return false;
+    }
+  };
+
+  // Whether biometric re-authentication can be offered on this device
+  const canUseBiometrics = async (): Promise<boolean> => {
+    try {
+      return (await LocalAuthentication.hasHardwareAsync()) && (await LocalAuthentication.isEnrolledAsync());
+    } catch {
+      return false;
+    }
+  };
+
+  // Decrypt a credential after re-authentication; only a successful decrypt is logged as a reveal,
+  // and the secret is returned once the log entry is written
+  const revealCredential = async (clientId: string, platform: CredentialPlatform): Promise<string> => {
+    try {
+      const key = requireKey();
+      if (!user?.id) {
+        throw new Error('No signed-in user');
+      }
+
+      const { data, error } = await supabase
+        .from('client_credentials')
+        .select('ciphertext, nonce')
+        .eq('client_id', clientId)
+        .eq('platform', platform)
+        .single();
+
+      if (error) throw error;
+
+      const secret = decryptSecret(key, { ciphertext: data.ciphertext, nonce: data.nonce });
+
+      const { error: logError } = await supabase
+        .from('credential_access_log')
+        .insert([{ client_id: clientId, platform, user_id: user.id, user_email: user.email }]);
+
+      // No audit entry, no reveal
+      if (logError) throw logError;
+
+      debugLog('Credential revealed:', { clientId, platform });
+      return secret;
+    } catch (error: any) {
+      debugLog('Exception revealing credential:', error);
+      Alert.alert('Error', `Failed to reveal credential: ${error.message}`);
+      throw error;
+    }
+  };
+
+  // Recent reveals of a client's credentials, newest first
+  const fetchAccessLog = async (clientId: string): Promise<CredentialAccessLogEntry[]> => {
+    const { data, error } = await supabase
+      .from('credential_access_log')
+      .select('id, client_id, platform, user_id, user_email, accessed_at')
+      .eq('client_id', clientId)
+      .order('accessed_at', { ascending: false })
+      .limit(20);
+
+    if (error) {
+      debugLog('Error fetching credential access log:', error);
+      if (isMissingTable(error)) return [];
+      throw error;
+    }
+    return (data as CredentialAccessLogEntry[]) || [];
+  };
+
+  // Move any passwords still stored in plaintext on clients into the vault, then blank them
+  const migrateLegacyCredentials = async () => {
+    const { data, error } = await supabase
+      .from('clients')
+      .select('id, instagram_password, facebook_password, tiktok_password')
+      .or('instagram_password.not.is.null,facebook_password.not.is.null,tiktok_password.not.is.null');
+
+    if (error) {
+      // Columns already dropped
+      debugLog('Skipping legacy credential migration:', error.message);
+      return;
+    }
+
+    const rows = (data as LegacyCredentialRow[]) || [];
+    for (const row of rows) {
+      for (const platform of CREDENTIAL_PLATFORMS) {
+        const secret = row[`${platform}_password`];
+        if (secret) {
+          await saveCredential(row.id, platform, secret);
+        }
+      }
+
+      const { error: clearError } = await supabase
+        .from('clients')
+        .update({ instagram_password: null, facebook_password: null, tiktok_password: null })
+        .eq('id', row.id);
+
+      if (clearError) throw clearError;
+    }
+
+    if (rows.length) {
+      console.log(`🔐 Moved plaintext credentials for ${rows.length} clients into the vault`);
+    }
+  };
+
+  const getCredentialsForClient = (clientId: string) => {
+    return credentials.filter(credential => credential.client_id === clientId);
+  };
+
+  // Set up real-time subscription
+  useEffect(() => {
+    fetchVault().catch(() => {
+      // Error already handled above
+    });
+
+    const subscription = supabase
+      .channel('client_credentials_realtime_new_schema')
+      .on('postgres_changes',
+        { event: '*', schema: 'public', table: 'client_credentials' },
+        (payload: any) => {
+          debugLog('Real-time credential change:', payload);
+          fetchVault(false).catch(() => {
+            // Error already handled above
+          });
+        }
+      )
+      .subscribe((status: string, err?: Error) => {
+        if (status === 'SUBSCRIBED') {
+          debugLog('Successfully subscribed to credential real-time updates');
+        } else if (status === 'CHANNEL_ERROR') {
+          debugLog('Channel error:', err);
+        } else if (status === 'TIMED_OUT') {
+          debugLog('Real-time subscription timed out');
+        } else if (status === 'CLOSED') {
+          debugLog('Real-time subscription closed');
+        }
+      });
+
+    return () => {
+      debugLog('Cleaning up credential vault subscription');
+      subscription.unsubscribe();
+    };
+  }, []);
+
+  return {
+    status,
+    credentials,
+    error,
+    setUpVault,
+    unlockVault,
+    lockVault,
+    saveClientCredentials,
+    removeCredential,
+    reauthenticate,
+    canUseBiometrics,
+    revealCredential,
+    fetchAccessLog,
+    getCredentialsForClient,
+    refetch: () => fetchVault(true),
+    refetchSilent: () => fetchVault(false),
+  };
+}
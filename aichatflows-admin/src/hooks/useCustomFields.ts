@@ -0,0 +1,282 @@
+import { useEffect, useState } from 'react';
+import { Alert } from 'react-native';
+import { supabase } from '../lib/supabase';
+import { CustomFieldDefinition } from '../types';
+import { sortFieldDefinitions, toFieldKey } from '../utils/customFields';
+
+const debugMode = process.env.EXPO_PUBLIC_DEBUG_MODE === 'true';
+
+const debugLog = (message: string, data?: any) => {
+  if (debugMode) {
+    console.log(`[Custom Fields Hook] ${message}`, data || '');
+  }
+};
+
+const FIELD_SELECT = 'id, key, label, field_type, options, required, position, created_at, updated_at';
+
+type CustomFieldInput = Pick<CustomFieldDefinition, 'label' | 'field_type' | 'options' | 'required'>;
+
+interface CustomFieldsHookState {
+  definitions: CustomFieldDefinition[];
+  loading: boolean;
+  error: string | null;
+}
+
+export function useCustomFields() {
+  const [state, setState] = useState<CustomFieldsHookState>({
+    definitions: [],
+    loading: true,
+    error: null,
+  });
+
+  const { definitions, loading, error } = state;
+
+  const updateState = (updates: Partial<CustomFieldsHookState>) => {
+    setState(prev => ({ ...prev, ...updates }));
+  };
+
+  const fetchDefinitions = async (showLoading = true) => {
+    try {
+      if (showLoading) updateState({ loading: true, error: null });
+      debugLog('Fetching custom field definitions...');
+
+      const { data, error } = await supabase
+        .from('custom_field_definitions')
+        .select(FIELD_SELECT)
+        .order('position', { ascending: true });
+
+      if (error) {
+        if (error.code === '42P01' || error.message.includes('does not exist')) {
+          console.warn('📋 Custom field definitions table does not exist. Custom fields and tags are unavailable.');
+          console.warn('💡 To fix: Run the SQL script at migrations/15_create_custom_fields.sql in your Supabase database');
+          updateState({ definitions: [], loading: false });
+          return [];
+        }
+        debugLog('Error fetching custom field definitions:', error);
+        throw error;
+      }
+
+      const fetched = sortFieldDefinitions(((data as CustomFieldDefinition[]) || []).map(definition => ({
+        ...definition,
+        options: definition.options || [],
+      })));
+
+      debugLog('Custom field definitions fetched successfully:', fetched.length);
+      updateState({ definitions: fetched, loading: false });
+      return fetched;
+    } catch (error: any) {
+      debugLog('Exception fetching custom field definitions:', error);
+      const errorMessage = error.message;
+      updateState({ error: errorMessage, loading: false });
+      if (showLoading) {
+        Alert.alert('Error', `Failed to load custom fields: ${errorMessage}`);
+      }
+      throw error;
+    }
+  };
+
+  // Validate definition fields shared by create and update
+  const sanitizeDefinition = (fieldData: Partial<CustomFieldInput>) => {
+    const sanitized: any = {};
+
+    if (fieldData.label !== undefined) {
+      if (!fieldData.label.trim()) {
+        throw new Error('Field name is required');
+      }
+      sanitized.label = fieldData.label.trim();
+    }
+    if (fieldData.field_type !== undefined) {
+      sanitized.field_type = fieldData.field_type;
+    }
+    if (fieldData.options !== undefined) {
+      sanitized.options = Array.from(new Set(fieldData.options.map(option => option.trim()).filter(Boolean)));
+    }
+    if (fieldData.required !== undefined) {
+      sanitized.required = fieldData.required;
+    }
+
+    const fieldType = fieldData.field_type;
+    if (fieldType === 'select' && (!sanitized.options || sanitized.options.length === 0)) {
+      throw new Error('Select fields need at least one option');
+    }
+    if (fieldType && fieldType !== 'select') {
+      sanitized.options = [];
+    }
+
+    return sanitized;
+  };
+
+  // Add a field at the end of the form; its key is derived from the label and never changes
+  const createField = async (fieldData: CustomFieldInput) => {
+    try {
+      debugLog('Creating custom field...', fieldData);
+
+      const key = toFieldKey(fieldData.label);
+      if (!key) {
+        throw new Error('Field name is required');
+      }
+      if (definitions.some(definition => definition.key === key)) {
+        throw new Error(`A field named "${fieldData.label.trim()}" already exists`);
+      }
+
+      const position = definitions.reduce((max, definition) => Math.max(max, definition.position), -1) + 1;
+      const { data, error } = await supabase
+        .from('custom_field_definitions')
+        .insert([{ ...sanitizeDefinition(fieldData), key, position }])
+        .select(FIELD_SELECT)
+        .single();
+
+      if (error) {
+        debugLog('Error creating custom field:', error);
+        throw error;
+      }
+
+      const created = data as CustomFieldDefinition;
+      updateState({ definitions: sortFieldDefinitions([...definitions, created]) });
+      return created;
+    } catch (error: any) {
+      debugLog('Exception creating custom field:', error);
+      Alert.alert('Error', `Failed to create custom field: ${error.message}`);
+      throw error;
+    }
+  };
+
+  // Clients keep their stored values; values that no longer fit the field are dropped when the client is next saved
+  const updateField = async (id: string, updates: Partial<CustomFieldInput>) => {
+    try {
+      debugLog('Updating custom field...', { id, updates });
+
+      const existing = definitions.find(definition => definition.id === id);
+      if (!existing) {
+        throw new Error('Custom field not found');
+      }
+
+      const { data, error } = await supabase
+        .from('custom_field_definitions')
+        .update({
+          ...sanitizeDefinition({ field_type: existing.field_type, ...updates }),
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', id)
+        .select(FIELD_SELECT)
+        .single();
+
+      if (error) {
+        debugLog('Error updating custom field:', error);
+        throw error;
+      }
+
+      const updated = data as CustomFieldDefinition;
+      updateState({ definitions: sortFieldDefinitions(definitions.map(definition => definition.id === id ? updated : definition)) });
+      return updated;
+    } catch (error: any) {
+      debugLog('Exception updating custom field:', error);
+      Alert.alert('Error', `Failed to update custom field: ${error.message}`);
+      throw error;
+    }
+  };
+
+  // Remove a field from the form; values already saved on clients stay in their custom_fields
+  const deleteField = async (id: string) => {
+    try {
+      debugLog('Deleting custom field...', id);
+
+      const { error } = await supabase
+        .from('custom_field_definitions')
+        .delete()
+        .eq('id', id);
+
+      if (error) {
+        debugLog('Error deleting custom field:', error);
+        throw error;
+      }
+
+      updateState({ definitions: definitions.filter(definition => definition.id !== id) });
+    } catch (error: any) {
+      debugLog('Exception deleting custom field:', error);
+      Alert.alert('Error', `Failed to delete custom field: ${error.message}`);
+      throw error;
+    }
+  };
+
+  // Swap a field with its neighbour in the form order
+  const moveField = async (id: string, direction: 'up' | 'down') => {
+    const index = definitions.findIndex(definition => definition.id === id);
+    const neighbour = definitions[direction === 'up' ? index - 1 : index + 1];
+    if (index === -1 || !neighbour) return;
+
+    const field = definitions[index];
+    try {
+      debugLog('Moving custom field...', { id, direction });
+
+      const results = await Promise.all([
+        supabase.from('custom_field_definitions').update({ position: neighbour.position }).eq('id', field.id),
+        supabase.from('custom_field_definitions').update({ position: field.position }).eq('id', neighbour.id),
+      ]);
+      const failed = results.find(result => result.error);
+      if (failed?.error) {
+        debugLog('Error moving custom field:', failed.error);
+        throw failed.error;
+      }
+
+      updateState({
+        definitions: sortFieldDefinitions(definitions.map(definition =>
+          definition.id === field.id ? { ...definition, position: neighbour.position }
+            : definition.id === neighbour.id ? { ...definition, position: field.position }
+              : definition
+        )),
+      });
+    } catch (error: any) {
+      debugLog('Exception moving custom field:', error);
+      Alert.alert('Error', `Failed to reorder custom fields: ${error.message}`);
+      throw error;
+    }
+  };
+
+  // Set up real-time subscription
+  useEffect(() => {
+    fetchDefinitions().catch(() => {
+      // Error already handled above
+    });
+
+    const subscription = supabase
+      .channel('custom_fields_realtime_new_schema')
+      .on('postgres_changes',
+        { event: '*', schema: 'public', table: 'custom_field_definitions' },
+        (payload: any) => {
+          debugLog('Real-time custom field change:', payload);
+          fetchDefinitions(false).catch(() => {
+            // Error already handled above
+          });
+        }
+      )
+      .subscribe((status: string, err?: Error) => {
+        if (status === 'SUBSCRIBED') {
+          debugLog('Successfully subscribed to custom field real-time updates');
+        } else if (status === 'CHANNEL_ERROR') {
+          debugLog('Channel error:', err);
+        } else if (status === 'TIMED_OUT') {
+          debugLog('Real-time subscription timed out');
+        } else if (status === 'CLOSED') {
+          debugLog('Real-time subscription closed');
+        }
+      });
+
+    return () => {
+      debugLog('Cleaning up custom fields subscription');
+      subscription.unsubscribe();
+    };
+  }, []);
+
+  return {
+    definitions,
+    loading,
+    error,
+    createField,
+    updateField,
+    deleteField,
+    moveField,
+    refetch: () => fetchDefinitions(true),
+    refetchSilent: () => fetchDefinitions(false),
+  };
+}
@@ -1,6 +1,10 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { Alert } from 'react-native';
 import { supabase } from '../lib/supabase';
+import { Payment, RevenueBreakdown } from '../types';
+import { calculateRevenueBreakdown } from '../utils/payments';
+import { CurrencyConversion, DEFAULT_CURRENCY } from '../utils/currency';
+import { useSettings } from './useSettings';
 
 const debugMode = process.env.EXPO_PUBLIC_DEBUG_MODE === 'true';
 
@@ -10,6 +14,8 @@ const debugLog = (message: string, data?: any) => {
   }
 };
 
+const EMPTY_BREAKDOWN: RevenueBreakdown = { gross: 0, refunded: 0, net: 0, byCurrency: {} };
+
 interface DashboardStatsHookState {
   stats: DashboardStats;
   loading: boolean;
@@ -23,6 +29,14 @@ export interface DashboardStats {
   weekRevenue: number;
   monthRevenue: number;
   yearRevenue: number;
+  currency: string; // Revenue figures are converted to this base currency
+  revenueBreakdown: {
+    total: RevenueBreakdown;
+    today: RevenueBreakdown;
+    week: RevenueBreakdown;
+    month: RevenueBreakdown;
+    year: RevenueBreakdown;
+  };
   newSubmissions: number;
   activeGoals: number;
   recentVisits: number;
@@ -48,6 +62,14 @@ export function useDashboardStats() {
     weekRevenue: 0,
     monthRevenue: 0,
     yearRevenue: 0,
+    currency: DEFAULT_CURRENCY,
+    revenueBreakdown: {
+      total: EMPTY_BREAKDOWN,
+      today: EMPTY_BREAKDOWN,
+      week: EMPTY_BREAKDOWN,
+      month: EMPTY_BREAKDOWN,
+      year: EMPTY_BREAKDOWN,
+    },
     newSubmissions: 0,
     activeGoals: 0,
     recentVisits: 0,
@@ -73,6 +95,11 @@ export function useDashboardStats() {
 
   const { stats, loading, error } = state;
 
+  // Read through a ref so realtime and interval refreshes use the latest currency settings
+  const { settings, isLoaded: settingsLoaded } = useSettings();
+  const conversionRef = useRef<CurrencyConversion>({ baseCurrency: settings.baseCurrency, rates: settings.exchangeRates });
+  conversionRef.current = { baseCurrency: settings.baseCurrency, rates: settings.exchangeRates };
+
   const updateState = (updates: Partial<DashboardStatsHookState>) => {
     setState(prev => ({ ...prev, ...updates }));
   };
@@ -113,12 +140,14 @@ export function useDashboardStats() {
         // Clients data with status field
         supabase
           .from('clients')
-          .select('id, status, created_at'),
+          .select('id, status, created_at')
+          .is('deleted_at', null),
         
         // Payments data with amount, status, and date
         supabase
           .from('payments')
-          .select('id, amount, status, payment_date'),
+          .select('id, amount, status, payment_date, kind, original_payment_id, currency')
+          .is('deleted_at', null),
         
         // Recent form submissions
         supabase
@@ -129,12 +158,14 @@ export function useDashboardStats() {
         // Goals (simplified since no period fields exist)
         supabase
           .from('goals')
-          .select('id, created_at, client_id, title, target'),
+          .select('id, created_at, client_id, title, target')
+          .is('deleted_at', null),
         
         // Recent business visits (no date filter since schema doesn't have visited_at)
         supabase
           .from('business_visits')
-          .select('id, location'),
+          .select('id, location')
+          .is('deleted_at', null),
       ]);
 
       // Enhanced error checking with specific error messages
@@ -189,69 +220,26 @@ export function useDashboardStats() {
         failed: payments.filter(p => p.status === 'failed').length,
       };
 
-      // Enhanced revenue calculations with error handling
-      const confirmedPayments = payments.filter(p => {
-        return p && 
-               p.status === 'confirmed' && 
-               typeof p.amount === 'number' && 
-               !isNaN(p.amount) &&
-               p.amount > 0 &&
-               p.payment_date &&
-               typeof p.payment_date === 'string';
-      });
-      
-      const totalRevenue = confirmedPayments.reduce((sum, p) => {
-        return sum + (Number(p.amount) || 0);
-      }, 0);
-      
-      const todayRevenue = confirmedPayments
-        .filter(p => {
-          try {
-            const paymentDate = p.payment_date ? new Date(p.payment_date) : null;
-            return paymentDate && !isNaN(paymentDate.getTime()) && paymentDate >= today;
-          } catch {
-            return false;
-          }
-        })
-        .reduce((sum, p) => sum + (Number(p.amount) || 0), 0);
-      
-      const weekRevenue = confirmedPayments
-        .filter(p => {
-          try {
-            return new Date(p.payment_date) >= startOfWeek;
-          } catch {
-            return false;
-          }
-        })
-        .reduce((sum, p) => sum + (Number(p.amount) || 0), 0);
-      
-      const monthRevenue = confirmedPayments
-        .filter(p => {
-          try {
-            return new Date(p.payment_date) >= startOfMonth;
-          } catch {
-            return false;
-          }
-        })
-        .reduce((sum, p) => sum + (Number(p.amount) || 0), 0);
-      
-      const yearRevenue = confirmedPayments
-        .filter(p => {
-          try {
-            return new Date(p.payment_date) >= startOfYear;
-          } catch {
-            return false;
-          }
-        })
-        .reduce((sum, p) => sum + (Number(p.amount) || 0), 0);
+      // Revenue net of refunds in the base currency; credit notes never count as money received
+      const revenuePayments = payments as unknown as Payment[];
+      const conversion = conversionRef.current;
+      const revenueBreakdown = {
+        total: calculateRevenueBreakdown(revenuePayments, undefined, undefined, conversion),
+        today: calculateRevenueBreakdown(revenuePayments, today, undefined, conversion),
+        week: calculateRevenueBreakdown(revenuePayments, startOfWeek, undefined, conversion),
+        month: calculateRevenueBreakdown(revenuePayments, startOfMonth, undefined, conversion),
+        year: calculateRevenueBreakdown(revenuePayments, startOfYear, undefined, conversion),
+      };
 
       const newStats: DashboardStats = {
         totalClients: clients.length,
-        totalRevenue: Math.round(totalRevenue * 100) / 100, // Round to 2 decimal places
-        todayRevenue: Math.round(todayRevenue * 100) / 100,
-        weekRevenue: Math.round(weekRevenue * 100) / 100,
-        monthRevenue: Math.round(monthRevenue * 100) / 100,
-        yearRevenue: Math.round(yearRevenue * 100) / 100,
+        totalRevenue: revenueBreakdown.total.net,
+        todayRevenue: revenueBreakdown.today.net,
+        weekRevenue: revenueBreakdown.week.net,
+        monthRevenue: revenueBreakdown.month.net,
+        yearRevenue: revenueBreakdown.year.net,
+        currency: conversion.baseCurrency,
+        revenueBreakdown,
         newSubmissions: submissions.length,
         activeGoals: goals.length,
         recentVisits: visits.length,
@@ -286,10 +274,17 @@ export function useDashboardStats() {
     };
   };
 
-  // Set up real-time subscriptions with debouncing
+  // Load once currency settings are ready, and recalculate whenever they change
+  // (only the first load, while still loading, shows errors)
   useEffect(() => {
-    fetchDashboardStats();
+    if (!settingsLoaded) return;
+    fetchDashboardStats(loading).catch(() => {
+      // Error already handled above
+    });
+  }, [settingsLoaded, settings.baseCurrency, settings.exchangeRates]);
 
+  // Set up real-time subscriptions with debouncing
+  useEffect(() => {
     // Debounce function to prevent too frequent updates
     let updateTimeout: ReturnType<typeof setTimeout>;
     const debouncedRefresh = () => {
@@ -0,0 +1,178 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { supabase } from '../lib/supabase';
+import { ActivityLogEntry, Client, DunningReminder, Invoice, Payment, PlanInfo } from '../types';
+import { buildDunningReport, getReminderKey, getSentReminderKey, toDunningReminder } from '../utils/dunning';
+import { formatMoney } from '../utils/currency';
+import { createActivityLog } from '../utils/finance';
+import { notifyPaymentOverdue } from '../utils/notifications';
+import { useActivityLog } from './useActivityLog';
+import { useAuth } from './useAuth';
+import { useClients } from './useClients';
+import { useSettings } from './useSettings';
+
+const debugMode = process.env.EXPO_PUBLIC_DEBUG_MODE === 'true';
+
+const debugLog = (message: string, data?: any) => {
+  if (debugMode) {
+    console.log(`[Dunning Hook] ${message}`, data || '');
+  }
+};
+
+const isMissingTable = (error: any) => {
+  return error?.code === '42P01' || error?.message?.includes('does not exist');
+};
+
+// Runs the dunning schedule over data the caller already has loaded
+export function useDunning(
+  clients: Client[],
+  invoices: Invoice[],
+  payments: Payment[],
+  plans: PlanInfo[],
+  ready: boolean = true
+) {
+  const { user } = useAuth();
+  const { settings, isLoaded: settingsLoaded } = useSettings();
+  const { loading: activitiesLoading, logActivities } = useActivityLog();
+  const { setClientPaymentStatus } = useClients();
+  // Keys of reminders already sent from any device; null until loaded, empty when they can't be tracked
+  const [sentReminders, setSentReminders] = useState<Set<string> | null>(null);
+  const [remindersAvailable, setRemindersAvailable] = useState(true);
+  const runningRef = useRef(false);
+  const flippedRef = useRef<Set<string>>(new Set());
+
+  const graceDays = settings.dunningGraceDays;
+  const exchangeRates = settings.exchangeRates;
+
+  const report = useMemo(
+    () => buildDunningReport(clients, invoices, payments, plans, graceDays, new Date(), exchangeRates),
+    [clients, invoices, payments, plans, graceDays, exchangeRates]
+  );
+
+  const overdueClients = useMemo(() => report.filter(status => status.isOverdue), [report]);
+
+  // Load the reminders already sent
+  useEffect(() => {
+    const loadSentReminders = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('dunning_reminders')
+          .select('client_id, invoice_id, due_date, reminder_stage');
+
+        if (error) throw error;
+        setSentReminders(new Set(((data as DunningReminder[]) || []).map(getSentReminderKey)));
+      } catch (error: any) {
+        if (isMissingTable(error)) {
+          console.warn('📋 Dunning reminders table does not exist. Payment reminders will not be sent.');
+          console.warn('💡 To fix: Run the SQL script at migrations/22_create_dunning_reminders.sql in your Supabase database');
+        } else {
+          console.error('Error loading sent reminders:', error);
+        }
+        // Without a record of what went out, reminders would repeat on every run
+        setRemindersAvailable(false);
+        setSentReminders(new Set());
+      }
+    };
+    loadSentReminders();
+  }, []);
+
+  // Record a reminder before sending it. Returns false when another device already has
+  const claimReminder = async (reminder: DunningReminder): Promise<boolean> => {
+    const { error } = await supabase.from('dunning_reminders').insert([reminder]);
+    if (!error) return true;
+    if (error.code === '23505') return false;
+    throw error;
+  };
+
+  // Flip late clients to overdue and send any reminders that are due
+  const runDunning = async () => {
+    if (runningRef.current || sentReminders === null) return;
+    runningRef.current = true;
+
+    try {
+      debugLog('Running dunning schedule...', { late: report.length, graceDays });
+
+      const entries: ActivityLogEntry[] = [];
+      const newKeys: string[] = [];
+
+      for (const status of report) {
+        const { client } = status;
+
+        if (status.isOverdue && client.payment_status !== 'overdue' && !flippedRef.current.has(client.id)) {
+          try {
+            await setClientPaymentStatus(client.id, 'overdue', false);
+            flippedRef.current.add(client.id);
+            entries.push(createActivityLog(
+              'payment_status',
+              `${client.name}'s payment status changed from ${client.payment_status || 'unpaid'} to overdue`,
+              client.id,
+              client.name,
+              { oldStatus: client.payment_status || 'unpaid', newStatus: 'overdue', automatic: true }
+            ));
+          } catch (error) {
+            debugLog('Failed to flip client to overdue:', error);
+          }
+        }
+
+        const reminder = toDunningReminder(status);
+        const reminderKey = getReminderKey(status);
+        if (!remindersAvailable || !reminder || !reminderKey || sentReminders.has(reminderKey)) continue;
+
+        try {
+          const claimed = await claimReminder(reminder);
+          newKeys.push(reminderKey);
+          if (!claimed) continue;
+        } catch (error) {
+          debugLog('Failed to record reminder:', error);
+          continue;
+        }
+
+        entries.push(createActivityLog(
+          'payment_reminder',
+          `${client.name} is ${status.daysLate} days late on ${formatMoney(status.amountDue, status.currency)}`,
+          client.id,
+          client.name,
+          {
+            daysLate: status.daysLate,
+            reminderStage: status.reminderStage,
+            amountDue: status.amountDue,
+            currency: status.currency,
+            dueDate: status.dueDate,
+            reminderKey,
+          }
+        ));
+
+        if (user?.id) {
+          try {
+            await notifyPaymentOverdue(client, status.daysLate, status.amountDue, status.currency, reminderKey, user.id);
+          } catch (notificationError) {
+            debugLog('Failed to send overdue notification:', notificationError);
+            // Don't throw error for notification failures
+          }
+        }
+      }
+
+      logActivities(entries);
+      if (newKeys.length > 0) {
+        setSentReminders(prev => new Set([...(prev || []), ...newKeys]));
+      }
+
+      debugLog('Dunning run complete', { activities: entries.length, reminders: newKeys.length });
+    } finally {
+      runningRef.current = false;
+    }
+  };
+
+  // Re-run whenever the ledger changes
+  const remindersLoaded = sentReminders !== null;
+  useEffect(() => {
+    if (!ready || !settingsLoaded || activitiesLoading || !remindersLoaded) return;
+    runDunning();
+  }, [report, ready, settingsLoaded, activitiesLoading, remindersLoaded]);
+
+  return {
+    report,
+    overdueClients,
+    graceDays,
+    runDunning,
+  };
+}
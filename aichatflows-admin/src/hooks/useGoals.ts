@@ -1,4 +1,4 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { Alert } from 'react-native';
 import { supabase } from '../lib/supabase';
 import { Goal } from '../types';
@@ -42,6 +42,10 @@ export function useGoals() {
 
   const { goals, loading, error } = state;
 
+  // Read by the realtime handler, which outlives the render it was subscribed in
+  const goalsRef = useRef(goals);
+  goalsRef.current = goals;
+
   const updateState = (updates: Partial<GoalsHookState>) => {
     setState(prev => ({ ...prev, ...updates }));
   };
@@ -72,6 +76,7 @@ export function useGoals() {
             status
           )
         `)
+        .is('deleted_at', null)
         .order('created_at', { ascending: false });
 
       // If enhanced columns don't exist, fall back to basic schema
@@ -92,6 +97,7 @@ export function useGoals() {
               status
             )
           `)
+          .is('deleted_at', null)
           .order('created_at', { ascending: false });
         
         // Add default values for missing fields
@@ -269,6 +275,7 @@ export function useGoals() {
           .from('clients')
           .select('id')
           .eq('id', updates.client_id)
+          .is('deleted_at', null)
           .single();
 
         if (!clientExists) {
@@ -391,7 +398,7 @@ export function useGoals() {
     }
   };
 
-  // Delete goal
+  // Move a goal to the Trash
   const deleteGoal = async (id: string) => {
     try {
       debugLog('Deleting goal from new schema...', id);
@@ -403,7 +410,7 @@ export function useGoals() {
 
       const { error } = await supabase
         .from('goals')
-        .delete()
+        .update({ deleted_at: new Date().toISOString() })
         .eq('id', id);
 
       if (error) {
@@ -411,11 +418,12 @@ export function useGoals() {
         throw error;
       }
 
-      debugLog('Goal deleted successfully from new schema');
+      debugLog('Goal moved to the Trash');
       
-      updateState({ 
-        goals: goals.filter(goal => goal.id !== id)
-      });
+      setState(prev => ({
+        ...prev,
+        goals: prev.goals.filter(goal => goal.id !== id),
+      }));
       
     } catch (error: any) {
       debugLog('Exception deleting goal:', error);
@@ -424,6 +432,29 @@ export function useGoals() {
     }
   };
 
+  // Bring a goal back from the Trash
+  const restoreGoal = async (id: string) => {
+    try {
+      debugLog('Restoring goal...', id);
+
+      const { error } = await supabase
+        .from('goals')
+        .update({ deleted_at: null })
+        .eq('id', id);
+
+      if (error) {
+        debugLog('Error restoring goal:', error);
+        throw error;
+      }
+
+      await fetchGoals(false);
+    } catch (error: any) {
+      debugLog('Exception restoring goal:', error);
+      Alert.alert('Error', `Failed to restore goal: ${error.message}`);
+      throw error;
+    }
+  };
+
   // Get goals by client
   const getGoalsByClient = (clientId: string) => {
     return goals.filter(goal => goal.client_id === clientId);
@@ -586,16 +617,28 @@ export function useGoals() {
               fetchGoals(false); // Re-fetch to get client data
             } else if (payload.eventType === 'UPDATE') {
               const updatedGoal = payload.new as Goal;
-              updateState({ 
-                goals: goals.map(goal => 
-                  goal.id === updatedGoal.id ? updatedGoal : goal
-                )
-              });
+              if (updatedGoal.deleted_at) {
+                // Trashed: drop it like a delete
+                setState(prev => ({
+                  ...prev,
+                  goals: prev.goals.filter(goal => goal.id !== updatedGoal.id)
+                }));
+              } else if (!goalsRef.current.some(goal => goal.id === updatedGoal.id)) {
+                fetchGoals(false); // Restored from the trash: re-fetch to get client data
+              } else {
+                setState(prev => ({
+                  ...prev,
+                  goals: prev.goals.map(goal =>
+                    goal.id === updatedGoal.id ? { ...goal, ...updatedGoal } : goal
+                  )
+                }));
+              }
             } else if (payload.eventType === 'DELETE') {
               const deletedId = payload.old.id;
-              updateState({ 
-                goals: goals.filter(goal => goal.id !== deletedId)
-              });
+              setState(prev => ({
+                ...prev,
+                goals: prev.goals.filter(goal => goal.id !== deletedId)
+              }));
             }
           } catch (error) {
             debugLog('Error handling real-time update:', error);
@@ -624,6 +667,7 @@ export function useGoals() {
     createGoal,
     updateGoal,
     deleteGoal,
+    restoreGoal,
     getGoalsByClient,
     getGlobalGoals,
     getGoalsByFrequency,
@@ -0,0 +1,368 @@
+import { useEffect, useState } from 'react';
+import { Alert } from 'react-native';
+import { supabase } from '../lib/supabase';
+import { Client, Invoice, InvoiceAllocation, Payment, PlanInfo } from '../types';
+import { getClientPlanInfo } from '../utils/finance';
+import {
+  BILLABLE_CLIENT_STATUSES,
+  allocatePayment,
+  buildMonthlyInvoice,
+  deriveClientPaymentStatus,
+  getBillingPeriod,
+  getUnappliedAmount,
+  isBillingPeriod,
+  resolveInvoiceStatus,
+  toISODate,
+} from '../utils/invoices';
+import { useSettings } from './useSettings';
+
+const debugMode = process.env.EXPO_PUBLIC_DEBUG_MODE === 'true';
+
+const debugLog = (message: string, data?: any) => {
+  if (debugMode) {
+    console.log(`[Invoices Hook] ${message}`, data || '');
+  }
+};
+
+const INVOICE_SELECT = `
+  id,
+  client_id,
+  period_start,
+  period_end,
+  due_date,
+  status,
+  line_items,
+  total,
+  currency,
+  created_at,
+  updated_at,
+  client:clients(
+    id,
+    name,
+    email,
+    plan,
+    payment_status,
+    deleted_at
+  )
+`;
+
+interface InvoicesHookState {
+  invoices: Invoice[];
+  loading: boolean;
+  error: string | null;
+}
+
+export function useInvoices() {
+  const { settings } = useSettings();
+  const [state, setState] = useState<InvoicesHookState>({
+    invoices: [],
+    loading: true,
+    error: null,
+  });
+
+  const { invoices, loading, error } = state;
+
+  const updateState = (updates: Partial<InvoicesHookState>) => {
+    setState(prev => ({ ...prev, ...updates }));
+  };
+
+  // Fetch all invoices with client data
+  const fetchInvoices = async (showLoading = true) => {
+    try {
+      if (showLoading) updateState({ loading: true, error: null });
+      debugLog('Fetching invoices...');
+
+      const { data, error } = await supabase
+        .from('invoices')
+        .select(INVOICE_SELECT)
+        .order('period_start', { ascending: false });
+
+      if (error) {
+        debugLog('Error fetching invoices:', error);
+        throw error;
+      }
+
+      // Invoices of a client in the Trash are hidden with the client
+      const fetched = ((data as unknown as Invoice[]) || []).filter(invoice => !invoice.client?.deleted_at);
+      debugLog('Invoices fetched successfully:', fetched.length);
+      updateState({ invoices: fetched, loading: false });
+      return fetched;
+    } catch (error: any) {
+      debugLog('Exception fetching invoices:', error);
+      const errorMessage = error.message;
+      updateState({ error: errorMessage, loading: false });
+      if (showLoading) {
+        Alert.alert('Error', `Failed to load invoices: ${errorMessage}`);
+      }
+      throw error;
+    }
+  };
+
+  // Write the invoice-derived payment status back to the client row
+  const syncClientPaymentStatus = async (clientId: string, currentInvoices: Invoice[] = invoices) => {
+    const paymentStatus = deriveClientPaymentStatus(clientId, currentInvoices, new Date(), settings.dunningGraceDays);
+
+    const { error } = await supabase
+      .from('clients')
+      .update({ payment_status: paymentStatus, updated_at: new Date().toISOString() })
+      .eq('id', clientId);
+
+    if (error) {
+      debugLog('Error syncing client payment status:', error);
+      throw error;
+    }
+
+    debugLog('Client payment status synced:', { clientId, paymentStatus });
+    return paymentStatus;
+  };
+
+  // Generate this period's invoice for every billable client that doesn't have one yet
+  const generateMonthlyInvoices = async (clients: Client[], plans: PlanInfo[], periodDate: Date = new Date()) => {
+    try {
+      const periodStart = toISODate(getBillingPeriod(periodDate).start);
+      debugLog('Generating invoices for period:', periodStart);
+
+      const invoicedClientIds = new Set(
+        invoices
+          .filter(invoice => invoice.period_start === periodStart)
+          .map(invoice => invoice.client_id)
+      );
+
+      const newInvoices = clients
+        .filter(client => BILLABLE_CLIENT_STATUSES.includes(client.status))
+        .filter(client => !invoicedClientIds.has(client.id))
+        .map(client => ({ client, planInfo: getClientPlanInfo(client, plans) }))
+        .filter(({ client, planInfo }) => isBillingPeriod(client, planInfo, periodDate))
+        .map(({ client, planInfo }) => buildMonthlyInvoice(client, planInfo, periodDate));
+
+      if (newInvoices.length === 0) {
+        debugLog('No new invoices to generate');
+        return [];
+      }
+
+      const { data, error } = await supabase
+        .from('invoices')
+        .upsert(newInvoices, { onConflict: 'client_id,period_start', ignoreDuplicates: true })
+        .select(INVOICE_SELECT);
+
+      if (error) {
+        debugLog('Error generating invoices:', error);
+        throw error;
+      }
+
+      const created = (data as unknown as Invoice[]) || [];
+      const updatedInvoices = [...created, ...invoices];
+      debugLog('Invoices generated:', created.length);
+      updateState({ invoices: updatedInvoices });
+
+      // New open invoices change each billed client's payment status
+      await Promise.all(
+        created.map(invoice => syncClientPaymentStatus(invoice.client_id, updatedInvoices))
+      );
+
+      return created;
+    } catch (error: any) {
+      debugLog('Exception generating invoices:', error);
+      Alert.alert('Error', `Failed to generate invoices: ${error.message}`);
+      throw error;
+    }
+  };
+
+  // Save the status an invoice should have given its payments
+  const saveInvoiceStatus = async (invoice: Invoice, payments: Payment[]) => {
+    const status = resolveInvoiceStatus(invoice, payments);
+    if (status === invoice.status) return invoice;
+
+    const { data, error } = await supabase
+      .from('invoices')
+      .update({ status, updated_at: new Date().toISOString() })
+      .eq('id', invoice.id)
+      .select(INVOICE_SELECT)
+      .single();
+
+    if (error) {
+      debugLog('Error updating invoice status:', error);
+      throw error;
+    }
+    return data as unknown as Invoice;
+  };
+
+  // Save the statuses of the given invoices in one state update, and resync the client
+  const persistInvoiceStatuses = async (changed: Invoice[], payments: Payment[]) => {
+    const changedIds = new Set(changed.map(invoice => invoice.id));
+    const updatedInvoices = await Promise.all(
+      invoices.map(invoice => changedIds.has(invoice.id) ? saveInvoiceStatus(invoice, payments) : invoice)
+    );
+
+    updateState({ invoices: updatedInvoices });
+    await syncClientPaymentStatus(changed[0].client_id, updatedInvoices);
+    return updatedInvoices;
+  };
+
+  // Apply a payment to an invoice and close the invoice once it is fully paid. What the payment has
+  // left after the balance goes to the client's next open invoices, and anything still left stays
+  // unapplied as credit for a later invoice. The payment row is never changed: apply_payment()
+  // records every allocation in one transaction
+  const settleInvoice = async (invoiceId: string, payment: Payment, payments: Payment[]) => {
+    try {
+      debugLog('Settling invoice...', { invoiceId, paymentId: payment.id });
+
+      const invoice = invoices.find(i => i.id === invoiceId);
+      if (!invoice) {
+        throw new Error('Invoice not found');
+      }
+      if (invoice.status === 'void') {
+        throw new Error('Cannot apply a payment to a void invoice');
+      }
+      if (payment.client_id !== invoice.client_id) {
+        throw new Error('Payment belongs to a different client');
+      }
+      if (getUnappliedAmount(payment, payments) <= 0) {
+        throw new Error('This payment has already been applied');
+      }
+
+      const allocations = allocatePayment(payment, invoice, invoices, payments, settings.exchangeRates)
+        .filter(allocation => allocation.invoiceId)
+        .map(allocation => ({
+          invoice_id: allocation.invoiceId as string,
+          amount: allocation.amount,
+          invoice_amount: allocation.invoiceAmount,
+        }));
+      if (allocations[0]?.invoice_id !== invoiceId) {
+        throw new Error('This invoice has nothing left to pay');
+      }
+
+      const { data, error } = await supabase.rpc('apply_payment', {
+        p_payment_id: payment.id,
+        p_allocations: allocations,
+      });
+
+      if (error) {
+        debugLog('Error applying payment:', error);
+        throw error;
+      }
+
+      const applied = ((data as InvoiceAllocation[]) || []).map(({ invoice_id, amount, invoice_amount }) => ({
+        invoice_id,
+        amount: Number(amount),
+        invoice_amount: Number(invoice_amount ?? amount),
+      }));
+      debugLog('Payment applied:', applied);
+      const linkedPayments = [
+        ...payments.filter(p => p.id !== payment.id),
+        { ...payment, allocations: [...(payment.allocations || []), ...applied] },
+      ];
+
+      const settled = invoices.filter(i => applied.some(allocation => allocation.invoice_id === i.id));
+      const updatedInvoices = await persistInvoiceStatuses(settled, linkedPayments);
+
+      const updatedInvoice = updatedInvoices.find(i => i.id === invoiceId) || invoice;
+      debugLog('Invoice settled:', { invoiceId, status: updatedInvoice.status });
+      return updatedInvoice;
+    } catch (error: any) {
+      debugLog('Exception settling invoice:', error);
+      Alert.alert('Error', `Failed to apply payment: ${error.message}`);
+      throw error;
+    }
+  };
+
+  // Reopen or close invoices after the payments applied to them change (e.g. a refund)
+  const refreshInvoiceStatuses = async (invoiceIds: string[], payments: Payment[]) => {
+    try {
+      const refreshed = invoices.filter(i => invoiceIds.includes(i.id));
+      if (refreshed.length === 0) return invoices;
+      debugLog('Refreshing invoice statuses...', invoiceIds);
+
+      return await persistInvoiceStatuses(refreshed, payments);
+    } catch (error: any) {
+      debugLog('Exception refreshing invoice statuses:', error);
+      Alert.alert('Error', `Failed to update invoice: ${error.message}`);
+      throw error;
+    }
+  };
+
+  // Void an invoice so it no longer counts as owed
+  const voidInvoice = async (id: string) => {
+    try {
+      debugLog('Voiding invoice...', id);
+
+      const invoice = invoices.find(i => i.id === id);
+      if (!invoice) {
+        throw new Error('Invoice not found');
+      }
+
+      const { data, error } = await supabase
+        .from('invoices')
+        .update({ status: 'void', updated_at: new Date().toISOString() })
+        .eq('id', id)
+        .select(INVOICE_SELECT)
+        .single();
+
+      if (error) {
+        debugLog('Error voiding invoice:', error);
+        throw error;
+      }
+
+      const updatedInvoices = invoices.map(i => i.id === id ? (data as unknown as Invoice) : i);
+      updateState({ invoices: updatedInvoices });
+      await syncClientPaymentStatus(invoice.client_id, updatedInvoices);
+
+      return data;
+    } catch (error: any) {
+      debugLog('Exception voiding invoice:', error);
+      Alert.alert('Error', `Failed to void invoice: ${error.message}`);
+      throw error;
+    }
+  };
+
+  // Get invoices for a client, newest period first
+  const getInvoicesForClient = (clientId: string) => {
+    return invoices.filter(invoice => invoice.client_id === clientId);
+  };
+
+  // Set up real-time subscription
+  useEffect(() => {
+    fetchInvoices();
+
+    const subscription = supabase
+      .channel('invoices_realtime_new_schema')
+      .on('postgres_changes',
+        { event: '*', schema: 'public', table: 'invoices' },
+        (payload: any) => {
+          debugLog('Real-time invoice change:', payload);
+          // Re-fetch to keep client joins and ordering consistent
+          fetchInvoices(false);
+        }
+      )
+      .subscribe((status: string, err?: Error) => {
+        if (status === 'SUBSCRIBED') {
+          debugLog('Successfully subscribed to invoices real-time updates');
+        } else if (status === 'CHANNEL_ERROR') {
+          debugLog('Channel error:', err);
+        } else if (status === 'TIMED_OUT') {
+          debugLog('Real-time subscription timed out');
+        } else if (status === 'CLOSED') {
+          debugLog('Real-time subscription closed');
+        }
+      });
+
+    return () => {
+      debugLog('Cleaning up invoices subscription');
+      subscription.unsubscribe();
+    };
+  }, []);
+
+  return {
+    invoices,
+    loading,
+    error,
+    generateMonthlyInvoices,
+    settleInvoice,
+    refreshInvoiceStatuses,
+    voidInvoice,
+    syncClientPaymentStatus,
+    getInvoicesForClient,
+    refetch: () => fetchInvoices(true),
+    refetchSilent: () => fetchInvoices(false),
+  };
+}
@@ -0,0 +1,366 @@
+import { useEffect, useState } from 'react';
+import { Alert } from 'react-native';
+import { supabase } from '../lib/supabase';
+import { NotificationTypes, schedulePushNotification } from '../lib/notifications';
+import { AdminUser, Note, NoteRevision, NoteSyncPayload, SyncQueueItem } from '../types';
+import { extractMentions, getNoteAuthorLabel } from '../utils/notes';
+import {
+  createLocalId,
+  enqueueSyncItem,
+  getPendingNotes,
+  isNetworkError,
+  loadSyncQueue,
+  subscribeToSyncQueue,
+} from '../utils/syncQueue';
+import { useAuth } from './useAuth';
+
+const debugMode = process.env.EXPO_PUBLIC_DEBUG_MODE === 'true';
+
+const debugLog = (message: string, data?: any) => {
+  if (debugMode) {
+    console.log(`[Notes Hook] ${message}`, data || '');
+  }
+};
+
+const NOTE_SELECT = 'id, entity_type, entity_id, parent_id, body, mentions, pinned, author_id, author_email, created_at, edited_at';
+
+const isMissingTable = (error: any) => {
+  return error?.code === '42P01' || error?.message?.includes('does not exist');
+};
+
+const isMissingFunction = (error: any) => {
+  return error?.code === '42883' || error?.code === 'PGRST202';
+};
+
+// The insert behind addNote, shared with the sync queue. A note that was saved before its
+// response got lost is returned as it is
+export const saveNote = async (payload: NoteSyncPayload): Promise<Note> => {
+  const { data, error } = await supabase
+    .from('notes')
+    .insert([payload])
+    .select(NOTE_SELECT)
+    .single();
+
+  if (error) {
+    if (error.code === '23505') {
+      debugLog('Note already saved:', payload.id);
+      const { data: existing, error: existingError } = await supabase
+        .from('notes')
+        .select(NOTE_SELECT)
+        .eq('id', payload.id)
+        .single();
+      if (existingError) throw existingError;
+      return existing as Note;
+    }
+    debugLog('Error adding note:', error);
+    throw error;
+  }
+
+  return data as Note;
+};
+
+interface NotesHookState {
+  notes: Note[];
+  pendingNotes: Note[]; // Added offline, waiting in the sync queue
+  admins: AdminUser[];
+  loading: boolean;
+  error: string | null;
+}
+
+// Notes for one client, payment or visit; with no entity, every note (for list searches and mention alerts)
+export function useNotes(entityType?: Note['entity_type'], entityId?: string) {
+  const { user } = useAuth();
+  const [state, setState] = useState<NotesHookState>({
+    notes: [],
+    pendingNotes: [],
+    admins: [],
+    loading: true,
+    error: null,
+  });
+
+  const { notes, pendingNotes, admins, loading, error } = state;
+  const scoped = !!entityType && !!entityId;
+
+  const notesWithPending = [
+    ...notes,
+    ...pendingNotes.filter(pending => !notes.some(note => note.id === pending.id)),
+  ];
+
+  const updateState = (updates: Partial<NotesHookState>) => {
+    setState(prev => ({ ...prev, ...updates }));
+  };
+
+  // Accounts that can be @mentioned; falls back to everyone who has written a note
+  const fetchAdmins = async (currentNotes: Note[]): Promise<AdminUser[]> => {
+    const { data, error } = await supabase.rpc('list_admins');
+    if (!error) return (data as AdminUser[]) || [];
+
+    if (!isMissingFunction(error)) {
+      debugLog('Error fetching admins:', error);
+    }
+    const authors = new Map<string, AdminUser>();
+    currentNotes.forEach(note => {
+      if (note.author_id && note.author_email) authors.set(note.author_id, { id: note.author_id, email: note.author_email });
+    });
+    return Array.from(authors.values());
+  };
+
+  const fetchNotes = async (showLoading = true) => {
+    try {
+      if (showLoading) updateState({ loading: true, error: null });
+      debugLog('Fetching notes...', { entityType, entityId });
+
+      let query = supabase.from('notes').select(NOTE_SELECT);
+      if (scoped) {
+        query = query.eq('entity_type', entityType).eq('entity_id', entityId);
+      }
+      const { data, error } = await query.order('created_at', { ascending: true });
+
+      if (error) {
+        if (isMissingTable(error)) {
+          console.warn('📋 Notes table does not exist. Notes logs are unavailable.');
+          console.warn('💡 To fix: Run the SQL script at migrations/14_create_notes.sql in your Supabase database');
+          updateState({ notes: [], loading: false });
+          return [];
+        }
+        debugLog('Error fetching notes:', error);
+        throw error;
+      }
+
+      const fetched = (data as Note[]) || [];
+      const fetchedAdmins = scoped ? await fetchAdmins(fetched) : admins;
+      debugLog('Notes fetched successfully:', fetched.length);
+      updateState({ notes: fetched, admins: fetchedAdmins, loading: false });
+      return fetched;
+    } catch (error: any) {
+      debugLog('Exception fetching notes:', error);
+      const errorMessage = error.message;
+      updateState({ error: errorMessage, loading: false });
+      if (showLoading) {
+        Alert.alert('Error', `Failed to load notes: ${errorMessage}`);
+      }
+      throw error;
+    }
+  };
+
+  // Add a note, or a reply when parentId is given
+  const addNote = async (body: string, parentId?: string) => {
+    try {
+      if (!scoped) {
+        throw new Error('Notes can only be added to a client, payment or visit');
+      }
+      debugLog('Adding note...', { entityType, entityId, parentId });
+
+      const payload: NoteSyncPayload = {
+        id: createLocalId(),
+        entity_type: entityType,
+        entity_id: entityId,
+        parent_id: parentId || null,
+        body: body.trim(),
+        mentions: extractMentions(body, admins),
+        author_id: user?.id || null,
+        author_email: user?.email || null,
+        created_at: new Date().toISOString(),
+      };
+
+      let data: Note;
+      try {
+        data = await saveNote(payload);
+      } catch (saveError) {
+        if (!isNetworkError(saveError)) throw saveError;
+        debugLog('Supabase unreachable, queueing note:', saveError);
+        const item = await enqueueSyncItem('note', payload);
+        Alert.alert('Saved Offline', 'No connection right now. The note will sync automatically when you are back online.');
+        return getPendingNotes([item])[0];
+      }
+
+      setState(prev => ({ ...prev, notes: [...prev.notes.filter(n => n.id !== data.id), data] }));
+      return data;
+    } catch (error: any) {
+      debugLog('Exception adding note:', error);
+      Alert.alert('Error', `Failed to add note: ${error.message}`);
+      throw error;
+    }
+  };
+
+  // Change a note's text; the previous text is kept as a revision by the database
+  const editNote = async (id: string, body: string) => {
+    try {
+      debugLog('Editing note...', id);
+
+      const { data, error } = await supabase
+        .from('notes')
+        .update({ body: body.trim(), mentions: extractMentions(body, admins) })
+        .eq('id', id)
+        .select(NOTE_SELECT)
+        .single();
+
+      if (error) {
+        debugLog('Error editing note:', error);
+        throw error;
+      }
+
+      const note = data as Note;
+      setState(prev => ({ ...prev, notes: prev.notes.map(n => n.id === id ? note : n) }));
+      return note;
+    } catch (error: any) {
+      debugLog('Exception editing note:', error);
+      Alert.alert('Error', `Failed to edit note: ${error.message}`);
+      throw error;
+    }
+  };
+
+  const setNotePinned = async (id: string, pinned: boolean) => {
+    try {
+      debugLog('Pinning note...', { id, pinned });
+
+      const { data, error } = await supabase
+        .from('notes')
+        .update({ pinned })
+        .eq('id', id)
+        .select(NOTE_SELECT)
+        .single();
+
+      if (error) {
+        debugLog('Error pinning note:', error);
+        throw error;
+      }
+
+      const note = data as Note;
+      setState(prev => ({ ...prev, notes: prev.notes.map(n => n.id === id ? note : n) }));
+      return note;
+    } catch (error: any) {
+      debugLog('Exception pinning note:', error);
+      Alert.alert('Error', `Failed to ${pinned ? 'pin' : 'unpin'} note: ${error.message}`);
+      throw error;
+    }
+  };
+
+  // Deleting a note removes its replies too
+  const deleteNote = async (id: string) => {
+    try {
+      debugLog('Deleting note...', id);
+
+      const { error } = await supabase
+        .from('notes')
+        .delete()
+        .eq('id', id);
+
+      if (error) {
+        debugLog('Error deleting note:', error);
+        throw error;
+      }
+
+      setState(prev => ({ ...prev, notes: prev.notes.filter(n => n.id !== id && n.parent_id !== id) }));
+    } catch (error: any) {
+      debugLog('Exception deleting note:', error);
+      Alert.alert('Error', `Failed to delete note: ${error.message}`);
+      throw error;
+    }
+  };
+
+  // Earlier versions of a note, newest first
+  const fetchRevisions = async (noteId: string): Promise<NoteRevision[]> => {
+    try {
+      const { data, error } = await supabase
+        .from('note_revisions')
+        .select('id, note_id, body, edited_by, edited_by_email, revised_at')
+        .eq('note_id', noteId)
+        .order('revised_at', { ascending: false });
+
+      if (error) {
+        debugLog('Error fetching note revisions:', error);
+        throw error;
+      }
+
+      return (data as NoteRevision[]) || [];
+    } catch (error: any) {
+      debugLog('Exception fetching note revisions:', error);
+      Alert.alert('Error', `Failed to load note history: ${error.message}`);
+      throw error;
+    }
+  };
+
+  const getNotesForEntity = (type: Note['entity_type'], id: string) => {
+    return notesWithPending.filter(note => note.entity_type === type && note.entity_id === id);
+  };
+
+  // Set up real-time subscription
+  useEffect(() => {
+    fetchNotes().catch(() => {
+      // Error already handled above
+    });
+
+    let queuedIds: string[] = [];
+    const showQueuedNotes = (items: SyncQueueItem[]) => {
+      const queued = getPendingNotes(items, entityType, entityId);
+      // A note that left the queue has synced (or was discarded); reload to pick it up
+      if (queuedIds.some(id => !queued.some(note => note.id === id))) {
+        fetchNotes(false).catch(() => {
+          // Error already handled above
+        });
+      }
+      queuedIds = queued.map(note => note.id);
+      updateState({ pendingNotes: queued });
+    };
+    loadSyncQueue().then(showQueuedNotes);
+    const unsubscribeQueue = subscribeToSyncQueue(showQueuedNotes);
+
+    const subscription = supabase
+      .channel(scoped ? `notes_${entityType}_${entityId}_realtime_new_schema` : 'notes_realtime_new_schema')
+      .on('postgres_changes',
+        { event: '*', schema: 'public', table: 'notes', ...(scoped ? { filter: `entity_id=eq.${entityId}` } : {}) },
+        (payload: any) => {
+          debugLog('Real-time note change:', payload);
+
+          // Only the app-wide instance alerts, so a mention isn't announced once per open screen
+          const note = payload.new as Note | undefined;
+          if (!scoped && payload.eventType === 'INSERT' && user?.email && note?.author_email !== user.email
+            && note?.mentions?.includes(user.email)) {
+            schedulePushNotification(
+              'You Were Mentioned',
+              `${getNoteAuthorLabel(note)}: ${note.body.slice(0, 120)}`,
+              { type: NotificationTypes.NOTE_MENTION, noteId: note.id, entityType: note.entity_type, entityId: note.entity_id }
+            ).catch(error => debugLog('Error showing mention notification:', error));
+          }
+
+          fetchNotes(false).catch(() => {
+            // Error already handled above
+          });
+        }
+      )
+      .subscribe((status: string, err?: Error) => {
+        if (status === 'SUBSCRIBED') {
+          debugLog('Successfully subscribed to notes real-time updates');
+        } else if (status === 'CHANNEL_ERROR') {
+          debugLog('Channel error:', err);
+        } else if (status === 'TIMED_OUT') {
+          debugLog('Real-time subscription timed out');
+        } else if (status === 'CLOSED') {
+          debugLog('Real-time subscription closed');
+        }
+      });
+
+    return () => {
+      debugLog('Cleaning up notes subscription');
+      subscription.unsubscribe();
+      unsubscribeQueue();
+    };
+  }, [entityType, entityId, user?.email]);
+
+  return {
+    notes: notesWithPending,
+    admins,
+    loading,
+    error,
+    currentUserId: user?.id || null,
+    addNote,
+    editNote,
+    setNotePinned,
+    deleteNote,
+    fetchRevisions,
+    getNotesForEntity,
+    refetch: () => fetchNotes(true),
+    refetchSilent: () => fetchNotes(false),
+  };
+}
@@ -3,6 +3,7 @@ import { Alert, Platform } from 'react-native';
 import * as Notifications from 'expo-notifications';
 import { Client, Goal, BusinessVisit } from '../types';
 import { getClientsNeedingAttention, getGoalsAtRisk } from '../utils/metrics';
+import { NotificationTypes } from '../lib/notifications';
 
 // Configure notification behavior
 Notifications.setNotificationHandler({
@@ -103,8 +104,13 @@ export function useNotifications() {
     if (!state.permissionGranted) return;
 
     try {
-      // Clear existing notifications
-      await Notifications.cancelAllScheduledNotificationsAsync();
+      // Clear existing notifications, leaving task reminders alone
+      const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+      await Promise.all(
+        scheduled
+          .filter(request => request.content.data?.type !== NotificationTypes.TASK_DUE)
+          .map(request => Notifications.cancelScheduledNotificationAsync(request.identifier))
+      );
       setScheduledNotifications([]);
 
       const notifications: SmartNotification[] = [];
@@ -323,22 +323,62 @@ export function useFormSubmissions() {
     };
   };
 
-  // Create submission from form and link to existing client
-  const createSubmissionFromForm = async (formData: Record<string, any>, clientId?: string) => {
+  // Create submission from form and link to existing client. A client in the Trash still holds its
+  // email, so instead of creating a second one the user is offered to restore it (restoreTrashed)
+  const createSubmissionFromForm = async (
+    formData: Record<string, any>,
+    clientId?: string,
+    restoreTrashed = false
+  ) => {
     try {
       let finalClientId = clientId;
       
       // If no client ID provided, try to find or create client from form data
       if (!finalClientId && formData.email) {
+        const email = formData.email.toLowerCase();
+
         // Check if client exists with this email
         const { data: existingClient } = await supabase
           .from('clients')
           .select('id')
-          .eq('email', formData.email.toLowerCase())
-          .single();
-          
+          .eq('email', email)
+          .is('deleted_at', null)
+          .maybeSingle();
+
+        const { data: trashedClient } = await supabase
+          .from('clients')
+          .select('id, name')
+          .eq('email', email)
+          .not('deleted_at', 'is', null)
+          .maybeSingle();
+
         if (existingClient) {
           finalClientId = existingClient.id;
+        } else if (trashedClient && !restoreTrashed) {
+          debugLog('Email belongs to a trashed client:', trashedClient);
+          Alert.alert(
+            'Client in Trash',
+            `${trashedClient.name} uses ${email} and is in the Trash. Restore them and link this submission?`,
+            [
+              { text: 'Cancel', style: 'cancel' },
+              {
+                text: 'Restore Client',
+                onPress: () => {
+                  createSubmissionFromForm(formData, undefined, true).catch(() => {
+                    // Error already handled above
+                  });
+                },
+              },
+            ]
+          );
+          return null;
+        } else if (trashedClient) {
+          const { error: restoreError } = await supabase.rpc('restore_client', { p_client_id: trashedClient.id });
+          if (restoreError) {
+            debugLog('Error restoring trashed client:', restoreError);
+            throw restoreError;
+          }
+          finalClientId = trashedClient.id;
         } else if (formData.company_name || formData.contact_person) {
           // Create new client from form data
           const { data: newClient } = await supabase
@@ -1,8 +1,11 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { Alert } from 'react-native';
 import { supabase } from '../lib/supabase';
-import { Payment, Client } from '../types';
+import { Payment, Client, RevenueBreakdown } from '../types';
 import { notifyPaymentReceived } from '../utils/notifications';
+import { calculateRevenueBreakdown, getRefundableAmount, isMoneyReceived } from '../utils/payments';
+import { CurrencyConversion, DEFAULT_CURRENCY, formatMoney, getCurrency, toBaseAmount } from '../utils/currency';
+import { CsvImportResult, IMPORT_BATCH_SIZE } from '../utils/csvImport';
 import { useAuth } from './useAuth';
 
 const debugMode = process.env.EXPO_PUBLIC_DEBUG_MODE === 'true';
@@ -29,6 +32,10 @@ export function usePayments() {
 
   const { payments, loading, error } = state;
 
+  // Read by the realtime handler, which outlives the render it was subscribed in
+  const paymentsRef = useRef(payments);
+  paymentsRef.current = payments;
+
   const updateState = (updates: Partial<PaymentsHookState>) => {
     setState(prev => ({ ...prev, ...updates }));
   };
@@ -47,6 +54,13 @@ export function usePayments() {
           amount,
           status,
           payment_date,
+          allocations:payment_allocations(invoice_id, amount, invoice_amount),
+          kind,
+          original_payment_id,
+          amount_owed,
+          currency,
+          description,
+          notes,
           client:clients(
             id,
             name,
@@ -55,6 +69,7 @@ export function usePayments() {
             status
           )
         `)
+        .is('deleted_at', null)
         .order('payment_date', { ascending: false });
 
       if (error) {
@@ -90,6 +105,10 @@ export function usePayments() {
         throw new Error('Payment amount must be greater than 0');
       }
 
+      if (paymentData.amount_owed !== undefined && paymentData.amount_owed !== null && paymentData.amount_owed <= 0) {
+        throw new Error('Amount owed must be greater than 0');
+      }
+
       // Verify client exists
       const { data: clientExists } = await supabase
         .from('clients')
@@ -107,6 +126,11 @@ export function usePayments() {
         amount: Math.round(paymentData.amount * 100) / 100, // Round to 2 decimal places
         status: paymentData.status || 'pending',
         payment_date: paymentData.payment_date,
+        kind: paymentData.kind || 'payment',
+        original_payment_id: paymentData.original_payment_id || null,
+        amount_owed: paymentData.amount_owed ? Math.round(paymentData.amount_owed * 100) / 100 : null,
+        description: paymentData.description?.trim() || null,
+        currency: getCurrency(paymentData),
       };
 
       const { data, error } = await supabase
@@ -118,6 +142,13 @@ export function usePayments() {
           amount,
           status,
           payment_date,
+          allocations:payment_allocations(invoice_id, amount, invoice_amount),
+          kind,
+          original_payment_id,
+          amount_owed,
+          currency,
+          description,
+          notes,
           client:clients(
             id,
             name,
@@ -157,6 +188,49 @@ export function usePayments() {
     }
   };
 
+  // Insert many payments in batches; rows in a failed batch are reported and the rest still go in
+  const importPayments = async (
+    rows: Omit<Payment, 'id'>[],
+    onProgress?: (done: number, total: number) => void
+  ): Promise<CsvImportResult> => {
+    const result: CsvImportResult = { imported: 0, failed: [] };
+    debugLog('Importing payments...', rows.length);
+
+    for (let start = 0; start < rows.length; start += IMPORT_BATCH_SIZE) {
+      const batch = rows.slice(start, start + IMPORT_BATCH_SIZE);
+      const { error } = await supabase
+        .from('payments')
+        .insert(batch.map(payment => ({
+          client_id: payment.client_id,
+          amount: Math.round(payment.amount * 100) / 100,
+          status: payment.status || 'pending',
+          payment_date: payment.payment_date,
+          kind: 'payment',
+          amount_owed: payment.amount_owed ? Math.round(payment.amount_owed * 100) / 100 : null,
+          currency: getCurrency(payment),
+          payment_method: payment.payment_method?.trim() || null,
+          description: payment.description?.trim() || null,
+          notes: payment.notes?.trim() || null,
+        })));
+
+      if (error) {
+        debugLog('Error importing payment batch:', error);
+        batch.forEach((_, offset) => result.failed.push({ index: start + offset, message: error.message }));
+      } else {
+        result.imported += batch.length;
+      }
+      onProgress?.(start + batch.length, rows.length);
+    }
+
+    debugLog('Payment import finished:', result);
+    if (result.imported > 0) {
+      await fetchPayments(false).catch(() => {
+        // Error already handled above
+      });
+    }
+    return result;
+  };
+
   // Update payment
   const updatePayment = async (id: string, updates: Partial<Omit<Payment, 'id' | 'client_id'>>) => {
     try {
@@ -183,10 +257,15 @@ export function usePayments() {
       if (updates.payment_date !== undefined) {
         sanitizedUpdates.payment_date = updates.payment_date;
       }
-      // description field doesn't exist in new schema
-      // if (updates.description !== undefined) {
-      //   sanitizedUpdates.description = updates.description?.trim() || null;
-      // }
+      if (updates.amount_owed !== undefined) {
+        sanitizedUpdates.amount_owed = updates.amount_owed ? Math.round(updates.amount_owed * 100) / 100 : null;
+      }
+      if (updates.description !== undefined) {
+        sanitizedUpdates.description = updates.description?.trim() || null;
+      }
+      if (updates.currency !== undefined) {
+        sanitizedUpdates.currency = (updates.currency || DEFAULT_CURRENCY).toUpperCase();
+      }
 
       const { data, error } = await supabase
         .from('payments')
@@ -198,6 +277,13 @@ export function usePayments() {
           amount,
           status,
           payment_date,
+          allocations:payment_allocations(invoice_id, amount, invoice_amount),
+          kind,
+          original_payment_id,
+          amount_owed,
+          currency,
+          description,
+          notes,
           client:clients(
             id,
             name,
@@ -233,76 +319,27 @@ export function usePayments() {
     return updatePayment(id, { status });
   };
 
-  // Get total revenue (confirmed payments only) with null safety
-  const getTotalRevenue = () => {
-    return payments
-      .filter(payment => {
-        // Add null safety check
-        if (!payment || !payment.status) {
-          console.warn('⚠️ Payment missing status property:', payment);
-          return false;
-        }
-        return payment.status === 'confirmed';
-      })
-      .reduce((total, payment) => {
-        // Add null safety for amount
-        if (!payment || typeof payment.amount !== 'number') {
-          console.warn('⚠️ Payment missing or invalid amount:', payment);
-          return total;
-        }
-        return total + payment.amount;
-      }, 0);
+  // Get total revenue as gross received, refunded and net, optionally in a base currency
+  const getTotalRevenue = (conversion?: CurrencyConversion): RevenueBreakdown => {
+    return calculateRevenueBreakdown(payments, undefined, undefined, conversion);
   };
 
-  // Get revenue for specific time period with null safety
-  const getRevenueForPeriod = (startDate: Date, endDate: Date) => {
-    return payments
-      .filter(payment => {
-        // Add null safety checks
-        if (!payment || !payment.status) {
-          console.warn('⚠️ Payment missing status property:', payment);
-          return false;
-        }
-        if (payment.status !== 'confirmed') return false;
-        
-        if (!payment.payment_date) {
-          console.warn('⚠️ Payment missing payment_date:', payment);
-          return false;
-        }
-        
-        try {
-          const paymentDate = new Date(payment.payment_date);
-          if (isNaN(paymentDate.getTime())) {
-            console.warn('⚠️ Invalid payment date:', payment.payment_date);
-            return false;
-          }
-          return paymentDate >= startDate && paymentDate <= endDate;
-        } catch (error) {
-          console.warn('⚠️ Error parsing payment date:', payment.payment_date, error);
-          return false;
-        }
-      })
-      .reduce((total, payment) => {
-        // Add null safety for amount
-        if (!payment || typeof payment.amount !== 'number') {
-          console.warn('⚠️ Payment missing or invalid amount:', payment);
-          return total;
-        }
-        return total + payment.amount;
-      }, 0);
+  // Get revenue for specific time period (refunds count when they were issued)
+  const getRevenueForPeriod = (startDate: Date, endDate: Date, conversion?: CurrencyConversion): RevenueBreakdown => {
+    return calculateRevenueBreakdown(payments, startDate, endDate, conversion);
   };
 
   // Get today's revenue
-  const getTodayRevenue = () => {
+  const getTodayRevenue = (conversion?: CurrencyConversion) => {
     const today = new Date();
     const startOfDay = new Date(today.getFullYear(), today.getMonth(), today.getDate());
     const endOfDay = new Date(today.getFullYear(), today.getMonth(), today.getDate() + 1);
     
-    return getRevenueForPeriod(startOfDay, endOfDay);
+    return getRevenueForPeriod(startOfDay, endOfDay, conversion);
   };
 
   // Get this week's revenue
-  const getWeekRevenue = () => {
+  const getWeekRevenue = (conversion?: CurrencyConversion) => {
     const today = new Date();
     const startOfWeek = new Date(today);
     startOfWeek.setDate(today.getDate() - today.getDay()); // Go to Sunday
@@ -311,25 +348,25 @@ export function usePayments() {
     const endOfWeek = new Date(startOfWeek);
     endOfWeek.setDate(startOfWeek.getDate() + 7);
     
-    return getRevenueForPeriod(startOfWeek, endOfWeek);
+    return getRevenueForPeriod(startOfWeek, endOfWeek, conversion);
   };
 
   // Get this month's revenue
-  const getMonthRevenue = () => {
+  const getMonthRevenue = (conversion?: CurrencyConversion) => {
     const today = new Date();
     const startOfMonth = new Date(today.getFullYear(), today.getMonth(), 1);
     const endOfMonth = new Date(today.getFullYear(), today.getMonth() + 1, 1);
     
-    return getRevenueForPeriod(startOfMonth, endOfMonth);
+    return getRevenueForPeriod(startOfMonth, endOfMonth, conversion);
   };
 
   // Get this year's revenue
-  const getYearRevenue = () => {
+  const getYearRevenue = (conversion?: CurrencyConversion) => {
     const today = new Date();
     const startOfYear = new Date(today.getFullYear(), 0, 1);
     const endOfYear = new Date(today.getFullYear() + 1, 0, 1);
     
-    return getRevenueForPeriod(startOfYear, endOfYear);
+    return getRevenueForPeriod(startOfYear, endOfYear, conversion);
   };
 
   // Filter payments by status with null safety
@@ -357,21 +394,22 @@ export function usePayments() {
     });
   };
 
-  // Get revenue statistics
-  const getRevenueStats = () => {
+  // Get revenue statistics, converted to a base currency when one is given
+  const getRevenueStats = (conversion?: CurrencyConversion) => {
+    const sum = (list: Payment[]) => list.reduce((total, p) => total + toBaseAmount(p, conversion), 0);
     return {
-      total: getTotalRevenue(),
-      today: getTodayRevenue(),
-      week: getWeekRevenue(),
-      month: getMonthRevenue(),
-      year: getYearRevenue(),
-      pending: getPaymentsByStatus('pending').reduce((sum, p) => sum + p.amount, 0),
-      confirmed: getPaymentsByStatus('confirmed').reduce((sum, p) => sum + p.amount, 0),
-      failed: getPaymentsByStatus('failed').reduce((sum, p) => sum + p.amount, 0),
+      total: getTotalRevenue(conversion),
+      today: getTodayRevenue(conversion),
+      week: getWeekRevenue(conversion),
+      month: getMonthRevenue(conversion),
+      year: getYearRevenue(conversion),
+      pending: sum(getPaymentsByStatus('pending')),
+      confirmed: sum(getPaymentsByStatus('confirmed').filter(isMoneyReceived)),
+      failed: sum(getPaymentsByStatus('failed')),
     };
   };
 
-  // Delete payment
+  // Move a payment to the Trash, along with any refunds and credit notes issued against it
   const deletePayment = async (id: string) => {
     try {
       debugLog('Deleting payment from new schema...', id);
@@ -384,20 +422,22 @@ export function usePayments() {
 
       const { error } = await supabase
         .from('payments')
-        .delete()
-        .eq('id', id);
+        .update({ deleted_at: new Date().toISOString() })
+        .or(`id.eq.${id},original_payment_id.eq.${id}`)
+        .is('deleted_at', null);
 
       if (error) {
         debugLog('Error deleting payment:', error);
         throw error;
       }
 
-      debugLog('Payment deleted successfully from new schema');
+      debugLog('Payment moved to the Trash');
       
       // Remove from local state
-      updateState({ 
-        payments: payments.filter(payment => payment.id !== id)
-      });
+      setState(prev => ({
+        ...prev,
+        payments: prev.payments.filter(payment => payment.id !== id && payment.original_payment_id !== id),
+      }));
       
     } catch (error: any) {
       debugLog('Exception deleting payment:', error);
@@ -406,6 +446,144 @@ export function usePayments() {
     }
   };
 
+  // Bring a payment back from the Trash with the adjustments trashed along with it
+  const restorePayment = async (id: string) => {
+    try {
+      debugLog('Restoring payment...', id);
+
+      const { data: trashed, error: trashedError } = await supabase
+        .from('payments')
+        .select('id, deleted_at, original_payment_id, client:clients(name, deleted_at)')
+        .eq('id', id)
+        .single();
+
+      if (trashedError) {
+        debugLog('Error loading trashed payment:', trashedError);
+        throw trashedError;
+      }
+      if (!trashed.deleted_at) return;
+
+      // A payment can't come back without the client or original payment it belongs to
+      if (trashed.client?.deleted_at) {
+        throw new Error(`Restore ${trashed.client.name} first`);
+      }
+      if (trashed.original_payment_id) {
+        const { data: original } = await supabase
+          .from('payments')
+          .select('deleted_at')
+          .eq('id', trashed.original_payment_id)
+          .single();
+        if (original?.deleted_at) {
+          throw new Error('Restore the original payment first');
+        }
+      }
+
+      const { error } = await supabase
+        .from('payments')
+        .update({ deleted_at: null })
+        .or(`id.eq.${id},original_payment_id.eq.${id}`)
+        .eq('deleted_at', trashed.deleted_at);
+
+      if (error) {
+        debugLog('Error restoring payment:', error);
+        throw error;
+      }
+
+      return await fetchPayments(false);
+    } catch (error: any) {
+      debugLog('Exception restoring payment:', error);
+      Alert.alert('Error', `Failed to restore payment: ${error.message}`);
+      throw error;
+    }
+  };
+
+  // Record a refund or credit note against an original payment
+  const createAdjustment = async (
+    original: Payment,
+    kind: 'refund' | 'credit_note',
+    amount: number,
+    reason?: string
+  ) => {
+    const label = kind === 'refund' ? 'refund' : 'credit note';
+    try {
+      debugLog(`Creating ${label}...`, { originalId: original.id, amount });
+
+      if (!original.client_id) {
+        throw new Error('Original payment has no client');
+      }
+      if (!amount || amount <= 0) {
+        throw new Error(`The ${label} amount must be greater than 0`);
+      }
+      if (!isMoneyReceived(original)) {
+        throw new Error(`A ${label} can only be issued against a confirmed payment`);
+      }
+
+      // Refunds can't return more than is left on the payment
+      const maxAmount = kind === 'refund' ? getRefundableAmount(original, payments) : original.amount;
+      if (amount > maxAmount) {
+        throw new Error(`The ${label} can't be more than ${formatMoney(maxAmount, getCurrency(original))}`);
+      }
+
+      const { data, error } = await supabase
+        .from('payments')
+        .insert([{
+          client_id: original.client_id,
+          amount: Math.round(amount * 100) / 100,
+          status: 'confirmed',
+          kind,
+          original_payment_id: original.id,
+          payment_date: new Date().toISOString(),
+          description: reason?.trim() || null,
+          currency: getCurrency(original),
+        }])
+        .select(`
+          id,
+          client_id,
+          amount,
+          status,
+          payment_date,
+          allocations:payment_allocations(invoice_id, amount, invoice_amount),
+          kind,
+          original_payment_id,
+          amount_owed,
+          currency,
+          description,
+          notes,
+          client:clients(
+            id,
+            name,
+            email,
+            phone,
+            status
+          )
+        `)
+        .single();
+
+      if (error) {
+        debugLog(`Error creating ${label}:`, error);
+        throw error;
+      }
+
+      debugLog(`${label} created successfully:`, data);
+      updateState({ payments: [data as unknown as Payment, ...payments] });
+      return data as unknown as Payment;
+    } catch (error: any) {
+      debugLog(`Exception creating ${label}:`, error);
+      Alert.alert('Error', `Failed to create ${label}: ${error.message}`);
+      throw error;
+    }
+  };
+
+  // Refund part or all of a payment
+  const createRefund = (original: Payment, amount: number, reason?: string) => {
+    return createAdjustment(original, 'refund', amount, reason);
+  };
+
+  // Issue a credit note against a payment, to be applied to a future invoice
+  const createCreditNote = (original: Payment, amount: number, reason?: string) => {
+    return createAdjustment(original, 'credit_note', amount, reason);
+  };
+
   // Set up real-time subscription
   useEffect(() => {
     fetchPayments();
@@ -423,19 +601,32 @@ export function usePayments() {
               // Re-fetch to get complete client data
               fetchPayments(false);
             } else if (payload.eventType === 'UPDATE') {
-              // Update existing payment while preserving client data
-              updateState({ 
-                payments: payments.map(payment => 
-                  payment.id === payload.new.id 
-                    ? { ...payment, ...payload.new } as Payment 
-                    : payment
-                )
-              });
+              if (payload.new.deleted_at) {
+                // Trashed: drop it like a delete
+                setState(prev => ({
+                  ...prev,
+                  payments: prev.payments.filter(payment => payment.id !== payload.new.id)
+                }));
+              } else if (!paymentsRef.current.some(payment => payment.id === payload.new.id)) {
+                // Restored from the trash: re-fetch to get its client and allocations
+                fetchPayments(false);
+              } else {
+                // Update existing payment while preserving client data
+                setState(prev => ({
+                  ...prev,
+                  payments: prev.payments.map(payment =>
+                    payment.id === payload.new.id
+                      ? { ...payment, ...payload.new } as Payment
+                      : payment
+                  )
+                }));
+              }
             } else if (payload.eventType === 'DELETE') {
               const deletedId = payload.old.id;
-              updateState({ 
-                payments: payments.filter(payment => payment.id !== deletedId)
-              });
+              setState(prev => ({
+                ...prev,
+                payments: prev.payments.filter(payment => payment.id !== deletedId)
+              }));
             }
           } catch (error) {
             debugLog('Error handling real-time update:', error);
@@ -444,6 +635,14 @@ export function usePayments() {
           }
         }
       )
+      .on('postgres_changes',
+        { event: '*', schema: 'public', table: 'payment_allocations' },
+        (payload: any) => {
+          debugLog('Real-time payment allocation change:', payload);
+          // Re-fetch so every screen sees the invoices a payment was applied to
+          fetchPayments(false);
+        }
+      )
       .subscribe((status, err) => {
         if (status === 'SUBSCRIBED') {
           debugLog('Successfully subscribed to payments real-time updates');
@@ -467,9 +666,13 @@ export function usePayments() {
     loading,
     error,
     createPayment,
+    importPayments,
     updatePayment,
     updatePaymentStatus, // Legacy method
     deletePayment,
+    restorePayment,
+    createRefund,
+    createCreditNote,
     getPaymentsByStatus,
     filterPayments,
     getTotalRevenue,
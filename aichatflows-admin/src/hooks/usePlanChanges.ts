@@ -0,0 +1,297 @@
+import { useEffect, useState } from 'react';
+import { Alert } from 'react-native';
+import { supabase } from '../lib/supabase';
+import { Client, Invoice, Payment, PlanChange, PlanInfo } from '../types';
+import { findPlan, getClientPlanInfo } from '../utils/finance';
+import {
+  Proration,
+  applyProrationToInvoice,
+  buildProrationLineItems,
+  calculateProration,
+  describeProration,
+} from '../utils/proration';
+import { getBillingPeriod, toISODate } from '../utils/invoices';
+import { getCurrency } from '../utils/currency';
+
+const debugMode = process.env.EXPO_PUBLIC_DEBUG_MODE === 'true';
+
+const debugLog = (message: string, data?: any) => {
+  if (debugMode) {
+    console.log(`[Plan Changes Hook] ${message}`, data || '');
+  }
+};
+
+const PLAN_CHANGE_SELECT = `
+  id,
+  client_id,
+  from_plan,
+  to_plan,
+  from_price,
+  to_price,
+  effective_date,
+  proration_amount,
+  payment_id,
+  created_at
+`;
+
+const isMissingTable = (error: any) => {
+  return error?.code === '42P01' || error?.message?.includes('does not exist');
+};
+
+interface PlanChangesHookState {
+  planChanges: PlanChange[];
+  loading: boolean;
+  error: string | null;
+}
+
+export function usePlanChanges() {
+  const [state, setState] = useState<PlanChangesHookState>({
+    planChanges: [],
+    loading: true,
+    error: null,
+  });
+
+  const { planChanges, loading, error } = state;
+
+  const updateState = (updates: Partial<PlanChangesHookState>) => {
+    setState(prev => ({ ...prev, ...updates }));
+  };
+
+  // Fetch the full plan history
+  const fetchPlanChanges = async (showLoading = true) => {
+    try {
+      if (showLoading) updateState({ loading: true, error: null });
+      debugLog('Fetching plan changes...');
+
+      const { data, error } = await supabase
+        .from('plan_changes')
+        .select(PLAN_CHANGE_SELECT)
+        .order('effective_date', { ascending: true });
+
+      if (error) {
+        if (isMissingTable(error)) {
+          console.warn('📋 Plan changes table does not exist. Plan history will start from current plans.');
+          console.warn('💡 To fix: Run the SQL script at migrations/05_create_plan_changes.sql in your Supabase database');
+          updateState({ planChanges: [], loading: false });
+          return [];
+        }
+        debugLog('Error fetching plan changes:', error);
+        throw error;
+      }
+
+      const fetched = ((data as unknown as PlanChange[]) || []).map(change => ({
+        ...change,
+        to_price: Number(change.to_price),
+        from_price: change.from_price === null || change.from_price === undefined ? null : Number(change.from_price),
+        proration_amount: Number(change.proration_amount || 0),
+      }));
+
+      debugLog('Plan changes fetched successfully:', fetched.length);
+      updateState({ planChanges: fetched, loading: false });
+      return fetched;
+    } catch (error: any) {
+      debugLog('Exception fetching plan changes:', error);
+      const errorMessage = error.message;
+      updateState({ error: errorMessage, loading: false });
+      if (showLoading) {
+        Alert.alert('Error', `Failed to load plan history: ${errorMessage}`);
+      }
+      throw error;
+    }
+  };
+
+  // Preview the proration for a plan change without saving anything
+  const previewPlanChange = (
+    client: Client,
+    toPlanName: string,
+    plans: PlanInfo[],
+    effectiveDate: Date = new Date()
+  ): Proration | null => {
+    const toPlan = findPlan(plans, toPlanName);
+    if (!toPlan) return null;
+    return calculateProration(client, getClientPlanInfo(client, plans), toPlan, effectiveDate);
+  };
+
+  // Move a client to another plan, recording the change and adding its prorated charge or credit
+  // to the period's invoice
+  const changeClientPlan = async (
+    client: Client,
+    toPlanName: string,
+    plans: PlanInfo[],
+    invoices: Invoice[],
+    payments: Payment[],
+    effectiveDate: Date = new Date(),
+    showAlert = true
+  ) => {
+    try {
+      debugLog('Changing client plan...', { clientId: client.id, toPlanName, effectiveDate });
+
+      const fromPlan = getClientPlanInfo(client, plans);
+      const toPlan = findPlan(plans, toPlanName);
+      if (!toPlan) {
+        throw new Error(`Plan "${toPlanName}" not found`);
+      }
+      if (client.plan === toPlan.name) {
+        throw new Error(`Client is already on the ${toPlan.label} plan`);
+      }
+
+      const proration = calculateProration(client, fromPlan, toPlan, effectiveDate);
+
+      // The adjustment goes on this period's invoice so it is collected and chased like the rest of it
+      let invoice: Invoice | null = null;
+      let payment: Payment | null = null;
+      const adjustment = buildProrationLineItems(proration, fromPlan, toPlan);
+      if (adjustment.length > 0) {
+        const periodStart = toISODate(getBillingPeriod(effectiveDate).start);
+        const existing = invoices.find(i => i.client_id === client.id && i.period_start === periodStart);
+        const adjusted = applyProrationToInvoice(client, fromPlan, adjustment, existing, payments, effectiveDate);
+
+        const { data: invoiceData, error: invoiceError } = existing
+          ? await supabase
+            .from('invoices')
+            .update({ ...adjusted.invoice, updated_at: new Date().toISOString() })
+            .eq('id', existing.id)
+            .select('*')
+            .single()
+          : await supabase
+            .from('invoices')
+            .insert([adjusted.invoice])
+            .select('*')
+            .single();
+
+        if (invoiceError) {
+          debugLog('Error adding proration to invoice:', invoiceError);
+          throw invoiceError;
+        }
+        invoice = invoiceData as unknown as Invoice;
+
+        // Credit the client can't use on this invoice is kept as a credit note
+        if (adjusted.credit > 0) {
+          const { data, error } = await supabase
+            .from('payments')
+            .insert([{
+              client_id: client.id,
+              amount: adjusted.credit,
+              status: 'confirmed',
+              kind: 'credit_note',
+              currency: getCurrency(toPlan),
+              payment_date: proration.effectiveDate,
+              description: `Prorated credit: ${fromPlan.label} → ${toPlan.label}`,
+              notes: describeProration(proration),
+            }])
+            .select('id, client_id, amount, status, kind, currency, payment_date, description, notes, allocations:payment_allocations(invoice_id, amount, invoice_amount)')
+            .single();
+
+          if (error) {
+            debugLog('Error creating proration credit:', error);
+            throw error;
+          }
+          payment = data as unknown as Payment;
+        }
+      }
+
+      let change: PlanChange | null = null;
+      const { data: changeData, error: changeError } = await supabase
+        .from('plan_changes')
+        .insert([{
+          client_id: client.id,
+          from_plan: client.plan || null,
+          to_plan: toPlan.name,
+          from_price: fromPlan.price,
+          to_price: toPlan.price,
+          effective_date: toISODate(effectiveDate),
+          proration_amount: proration.amount,
+          payment_id: payment?.id || null,
+        }])
+        .select(PLAN_CHANGE_SELECT)
+        .single();
+
+      if (changeError) {
+        if (!isMissingTable(changeError)) {
+          debugLog('Error recording plan change:', changeError);
+          throw changeError;
+        }
+        console.warn('💡 Plan change not recorded. Run migrations/05_create_plan_changes.sql to keep plan history.');
+      } else {
+        change = {
+          ...(changeData as unknown as PlanChange),
+          to_price: Number(changeData.to_price),
+          proration_amount: Number(changeData.proration_amount || 0),
+        };
+        const recorded = change;
+        setState(prev => ({ ...prev, planChanges: [...prev.planChanges, recorded] }));
+      }
+
+      // Lock in the new plan's current catalog price
+      const { error: clientError } = await supabase
+        .from('clients')
+        .update({ plan: toPlan.name, plan_price: toPlan.price, updated_at: new Date().toISOString() })
+        .eq('id', client.id);
+
+      if (clientError) {
+        debugLog('Error updating client plan:', clientError);
+        throw clientError;
+      }
+
+      debugLog('Client plan changed:', { clientId: client.id, proration });
+      return { change, proration, invoice, payment };
+    } catch (error: any) {
+      debugLog('Exception changing client plan:', error);
+      if (showAlert) {
+        Alert.alert('Error', `Failed to change plan: ${error.message}`);
+      }
+      throw error;
+    }
+  };
+
+  // Plan history for one client, oldest first
+  const getPlanChangesForClient = (clientId: string) => {
+    return planChanges.filter(change => change.client_id === clientId);
+  };
+
+  // Set up real-time subscription
+  useEffect(() => {
+    fetchPlanChanges().catch(() => {
+      // Error already handled above
+    });
+
+    const subscription = supabase
+      .channel('plan_changes_realtime_new_schema')
+      .on('postgres_changes',
+        { event: '*', schema: 'public', table: 'plan_changes' },
+        (payload: any) => {
+          debugLog('Real-time plan change:', payload);
+          fetchPlanChanges(false).catch(() => {
+            // Error already handled above
+          });
+        }
+      )
+      .subscribe((status: string, err?: Error) => {
+        if (status === 'SUBSCRIBED') {
+          debugLog('Successfully subscribed to plan changes real-time updates');
+        } else if (status === 'CHANNEL_ERROR') {
+          debugLog('Channel error:', err);
+        } else if (status === 'TIMED_OUT') {
+          debugLog('Real-time subscription timed out');
+        } else if (status === 'CLOSED') {
+          debugLog('Real-time subscription closed');
+        }
+      });
+
+    return () => {
+      debugLog('Cleaning up plan changes subscription');
+      subscription.unsubscribe();
+    };
+  }, []);
+
+  return {
+    planChanges,
+    loading,
+    error,
+    previewPlanChange,
+    changeClientPlan,
+    getPlanChangesForClient,
+    refetch: () => fetchPlanChanges(true),
+    refetchSilent: () => fetchPlanChanges(false),
+  };
+}
@@ -0,0 +1,253 @@
+import { useEffect, useState } from 'react';
+import { Alert } from 'react-native';
+import { supabase } from '../lib/supabase';
+import { PlanInfo } from '../types';
+import { DEFAULT_PLANS, getActivePlans, toPlanKey } from '../utils/finance';
+import { getCurrency } from '../utils/currency';
+
+const debugMode = process.env.EXPO_PUBLIC_DEBUG_MODE === 'true';
+
+const debugLog = (message: string, data?: any) => {
+  if (debugMode) {
+    console.log(`[Plans Hook] ${message}`, data || '');
+  }
+};
+
+const PLAN_SELECT = `
+  id,
+  name,
+  label,
+  price,
+  billing_interval,
+  currency,
+  features,
+  platforms,
+  requires_payment_method,
+  archived,
+  created_at,
+  updated_at
+`;
+
+interface PlansHookState {
+  plans: PlanInfo[];
+  loading: boolean;
+  error: string | null;
+}
+
+export function usePlans() {
+  const [state, setState] = useState<PlansHookState>({
+    plans: DEFAULT_PLANS,
+    loading: true,
+    error: null,
+  });
+
+  const { plans, loading, error } = state;
+
+  const updateState = (updates: Partial<PlansHookState>) => {
+    setState(prev => ({ ...prev, ...updates }));
+  };
+
+  // Fetch the plan catalog
+  const fetchPlans = async (showLoading = true) => {
+    try {
+      if (showLoading) updateState({ loading: true, error: null });
+      debugLog('Fetching plans...');
+
+      const { data, error } = await supabase
+        .from('plans')
+        .select(PLAN_SELECT)
+        .order('price', { ascending: true });
+
+      if (error) {
+        // Fall back to the built-in catalog until the migration has been run
+        if (error.code === '42P01' || error.message.includes('does not exist')) {
+          console.warn('📋 Plans table does not exist. Using default plans.');
+          console.warn('💡 To fix: Run the SQL script at migrations/04_create_plans.sql in your Supabase database');
+          updateState({ plans: DEFAULT_PLANS, loading: false });
+          return DEFAULT_PLANS;
+        }
+        debugLog('Error fetching plans:', error);
+        throw error;
+      }
+
+      const fetched = ((data as unknown as PlanInfo[]) || []).map(plan => ({
+        ...plan,
+        price: Number(plan.price),
+        features: plan.features || [],
+      }));
+
+      debugLog('Plans fetched successfully:', fetched.length);
+      updateState({ plans: fetched.length > 0 ? fetched : DEFAULT_PLANS, loading: false });
+      return fetched;
+    } catch (error: any) {
+      debugLog('Exception fetching plans:', error);
+      const errorMessage = error.message;
+      updateState({ error: errorMessage, loading: false });
+      if (showLoading) {
+        Alert.alert('Error', `Failed to load plans: ${errorMessage}`);
+      }
+      throw error;
+    }
+  };
+
+  // Validate plan fields shared by create and update
+  const sanitizePlan = (planData: Partial<Omit<PlanInfo, 'id' | 'created_at' | 'updated_at'>>) => {
+    const sanitized: any = {};
+
+    if (planData.label !== undefined) {
+      if (!planData.label.trim()) {
+        throw new Error('Plan name is required');
+      }
+      sanitized.label = planData.label.trim();
+    }
+    if (planData.price !== undefined) {
+      if (isNaN(planData.price) || planData.price < 0) {
+        throw new Error('Plan price must be zero or more');
+      }
+      sanitized.price = Math.round(planData.price * 100) / 100;
+    }
+    if (planData.billing_interval !== undefined) {
+      sanitized.billing_interval = planData.billing_interval;
+    }
+    if (planData.currency !== undefined) {
+      sanitized.currency = getCurrency(planData);
+    }
+    if (planData.features !== undefined) {
+      sanitized.features = planData.features.map(feature => feature.trim()).filter(Boolean);
+    }
+    if (planData.platforms !== undefined) {
+      if (planData.platforms.length === 0) {
+        throw new Error('Choose at least one platform');
+      }
+      sanitized.platforms = planData.platforms;
+    }
+    if (planData.requires_payment_method !== undefined) {
+      sanitized.requires_payment_method = planData.requires_payment_method;
+    }
+    if (planData.archived !== undefined) {
+      sanitized.archived = planData.archived;
+    }
+
+    return sanitized;
+  };
+
+  // Create a new plan
+  const createPlan = async (planData: Omit<PlanInfo, 'id' | 'name' | 'archived' | 'created_at' | 'updated_at'>) => {
+    try {
+      debugLog('Creating plan...', planData);
+
+      const name = toPlanKey(planData.label);
+      if (!name) {
+        throw new Error('Plan name is required');
+      }
+      if (plans.some(plan => plan.name === name)) {
+        throw new Error(`A plan named "${planData.label}" already exists`);
+      }
+
+      const { data, error } = await supabase
+        .from('plans')
+        .insert([{ ...sanitizePlan(planData), name, archived: false }])
+        .select(PLAN_SELECT)
+        .single();
+
+      if (error) {
+        debugLog('Error creating plan:', error);
+        throw error;
+      }
+
+      const created = { ...(data as unknown as PlanInfo), price: Number(data.price) };
+      updateState({ plans: [...plans, created].sort((a, b) => a.price - b.price) });
+      return created;
+    } catch (error: any) {
+      debugLog('Exception creating plan:', error);
+      Alert.alert('Error', `Failed to create plan: ${error.message}`);
+      throw error;
+    }
+  };
+
+  // Update a plan; clients keep the price they signed up at
+  const updatePlan = async (id: string, updates: Partial<Omit<PlanInfo, 'id' | 'name' | 'created_at' | 'updated_at'>>) => {
+    try {
+      debugLog('Updating plan...', { id, updates });
+
+      const existingPlan = plans.find(plan => plan.id === id);
+      if (!existingPlan) {
+        throw new Error('Plan not found');
+      }
+
+      const { data, error } = await supabase
+        .from('plans')
+        .update({ ...sanitizePlan(updates), updated_at: new Date().toISOString() })
+        .eq('id', id)
+        .select(PLAN_SELECT)
+        .single();
+
+      if (error) {
+        debugLog('Error updating plan:', error);
+        throw error;
+      }
+
+      const updated = { ...(data as unknown as PlanInfo), price: Number(data.price) };
+      updateState({
+        plans: plans.map(plan => plan.id === id ? updated : plan).sort((a, b) => a.price - b.price),
+      });
+      return updated;
+    } catch (error: any) {
+      debugLog('Exception updating plan:', error);
+      Alert.alert('Error', `Failed to update plan: ${error.message}`);
+      throw error;
+    }
+  };
+
+  // Archive or restore a plan (plans are never deleted while clients may reference them)
+  const setPlanArchived = async (id: string, archived: boolean) => {
+    return updatePlan(id, { archived });
+  };
+
+  // Set up real-time subscription
+  useEffect(() => {
+    fetchPlans().catch(() => {
+      // Error already handled above
+    });
+
+    const subscription = supabase
+      .channel('plans_realtime_new_schema')
+      .on('postgres_changes',
+        { event: '*', schema: 'public', table: 'plans' },
+        (payload: any) => {
+          debugLog('Real-time plan change:', payload);
+          fetchPlans(false).catch(() => {
+            // Error already handled above
+          });
+        }
+      )
+      .subscribe((status: string, err?: Error) => {
+        if (status === 'SUBSCRIBED') {
+          debugLog('Successfully subscribed to plans real-time updates');
+        } else if (status === 'CHANNEL_ERROR') {
+          debugLog('Channel error:', err);
+        } else if (status === 'TIMED_OUT') {
+          debugLog('Real-time subscription timed out');
+        } else if (status === 'CLOSED') {
+          debugLog('Real-time subscription closed');
+        }
+      });
+
+    return () => {
+      debugLog('Cleaning up plans subscription');
+      subscription.unsubscribe();
+    };
+  }, []);
+
+  return {
+    plans,
+    activePlans: getActivePlans(plans),
+    loading,
+    error,
+    createPlan,
+    updatePlan,
+    setPlanArchived,
+    refetch: () => fetchPlans(true),
+    refetchSilent: () => fetchPlans(false),
+  };
+}
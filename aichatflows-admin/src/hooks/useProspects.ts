@@ -0,0 +1,286 @@
+import { useEffect, useState } from 'react';
+import { Alert } from 'react-native';
+import { supabase } from '../lib/supabase';
+import { Prospect, ProspectFormData } from '../types';
+import { sortProspects } from '../utils/prospects';
+
+const debugMode = process.env.EXPO_PUBLIC_DEBUG_MODE === 'true';
+
+const debugLog = (message: string, data?: any) => {
+  if (debugMode) {
+    console.log(`[Prospects Hook] ${message}`, data || '');
+  }
+};
+
+const PROSPECT_SELECT = `
+  id,
+  business_name,
+  address,
+  latitude,
+  longitude,
+  contact_name,
+  contact_phone,
+  contact_email,
+  stage,
+  next_action_date,
+  notes,
+  client_id,
+  converted_at,
+  last_visited_at,
+  created_at,
+  updated_at
+`;
+
+const toProspectRow = (formData: ProspectFormData) => ({
+  business_name: formData.business_name.trim(),
+  address: formData.address?.trim() || null,
+  contact_name: formData.contact_name?.trim() || null,
+  contact_phone: formData.contact_phone?.trim() || null,
+  contact_email: formData.contact_email?.trim().toLowerCase() || null,
+  stage: formData.stage,
+  next_action_date: formData.next_action_date || null,
+  notes: formData.notes?.trim() || null,
+});
+
+interface ProspectsHookState {
+  prospects: Prospect[];
+  loading: boolean;
+  error: string | null;
+}
+
+// Businesses visited that aren't clients yet. Visits attach to them in useBusinessVisits.markVisit
+export function useProspects() {
+  const [state, setState] = useState<ProspectsHookState>({
+    prospects: [],
+    loading: true,
+    error: null,
+  });
+
+  const { prospects, loading, error } = state;
+
+  const updateState = (updates: Partial<ProspectsHookState>) => {
+    setState(prev => ({ ...prev, ...updates }));
+  };
+
+  const fetchProspects = async (showLoading = true) => {
+    try {
+      if (showLoading) updateState({ loading: true, error: null });
+      debugLog('Fetching prospects...');
+
+      const { data, error } = await supabase
+        .from('prospects')
+        .select(PROSPECT_SELECT);
+
+      if (error) {
+        if (error.code === '42P01' || error.message.includes('does not exist')) {
+          console.warn('📋 Prospects table does not exist. Visits to businesses that are not clients stay unlinked.');
+          console.warn('💡 To fix: Run the SQL script at migrations/18_create_prospects.sql in your Supabase database');
+          updateState({ prospects: [], loading: false });
+          return [];
+        }
+        debugLog('Error fetching prospects:', error);
+        throw error;
+      }
+
+      const fetched = sortProspects((data as Prospect[]) || []);
+      debugLog('Prospects fetched successfully:', fetched.length);
+      updateState({ prospects: fetched, loading: false });
+      return fetched;
+    } catch (error: any) {
+      debugLog('Exception fetching prospects:', error);
+      const errorMessage = error.message;
+      updateState({ error: errorMessage, loading: false });
+      if (showLoading) {
+        Alert.alert('Error', `Failed to load prospects: ${errorMessage}`);
+      }
+      throw error;
+    }
+  };
+
+  const createProspect = async (formData: ProspectFormData) => {
+    try {
+      debugLog('Creating prospect...', formData);
+
+      if (!formData.business_name.trim()) {
+        throw new Error('Business name is required');
+      }
+
+      const { data, error } = await supabase
+        .from('prospects')
+        .insert([toProspectRow(formData)])
+        .select(PROSPECT_SELECT)
+        .single();
+
+      if (error) {
+        debugLog('Error creating prospect:', error);
+        throw error;
+      }
+
+      const prospect = data as Prospect;
+      setState(prev => ({ ...prev, prospects: sortProspects([...prev.prospects, prospect]) }));
+      return prospect;
+    } catch (error: any) {
+      debugLog('Exception creating prospect:', error);
+      Alert.alert('Error', `Failed to create prospect: ${error.message}`);
+      throw error;
+    }
+  };
+
+  const updateProspect = async (id: string, formData: ProspectFormData) => {
+    try {
+      debugLog('Updating prospect...', { id, formData });
+
+      if (!formData.business_name.trim()) {
+        throw new Error('Business name is required');
+      }
+
+      const { data, error } = await supabase
+        .from('prospects')
+        .update(toProspectRow(formData))
+        .eq('id', id)
+        .select(PROSPECT_SELECT)
+        .single();
+
+      if (error) {
+        debugLog('Error updating prospect:', error);
+        throw error;
+      }
+
+      const prospect = data as Prospect;
+      setState(prev => ({
+        ...prev,
+        prospects: sortProspects(prev.prospects.map(p => p.id === id ? prospect : p)),
+      }));
+      return prospect;
+    } catch (error: any) {
+      debugLog('Exception updating prospect:', error);
+      Alert.alert('Error', `Failed to update prospect: ${error.message}`);
+      throw error;
+    }
+  };
+
+  // Move a prospect along the pipeline; signing goes through convertProspect instead
+  const setProspectStage = async (id: string, stage: Prospect['stage']) => {
+    try {
+      debugLog('Setting prospect stage...', { id, stage });
+
+      const { data, error } = await supabase
+        .from('prospects')
+        .update({ stage })
+        .eq('id', id)
+        .is('client_id', null)
+        .select(PROSPECT_SELECT)
+        .single();
+
+      if (error) {
+        debugLog('Error setting prospect stage:', error);
+        throw error;
+      }
+
+      const prospect = data as Prospect;
+      setState(prev => ({
+        ...prev,
+        prospects: sortProspects(prev.prospects.map(p => p.id === id ? prospect : p)),
+      }));
+      return prospect;
+    } catch (error: any) {
+      debugLog('Exception setting prospect stage:', error);
+      Alert.alert('Error', `Failed to update prospect: ${error.message}`);
+      throw error;
+    }
+  };
+
+  // Link a signed prospect to the client created for it; its visits move to the client
+  const convertProspect = async (id: string, clientId: string) => {
+    try {
+      debugLog('Converting prospect...', { id, clientId });
+
+      const { error } = await supabase.rpc('convert_prospect', {
+        p_prospect_id: id,
+        p_client_id: clientId,
+      });
+
+      if (error) {
+        debugLog('Error converting prospect:', error);
+        throw error;
+      }
+
+      return await fetchProspects(false);
+    } catch (error: any) {
+      debugLog('Exception converting prospect:', error);
+      Alert.alert('Error', `Failed to convert prospect: ${error.message}`);
+      throw error;
+    }
+  };
+
+  // Visits to the prospect are kept, just unlinked (ON DELETE SET NULL)
+  const deleteProspect = async (id: string) => {
+    try {
+      debugLog('Deleting prospect...', id);
+
+      const { error } = await supabase
+        .from('prospects')
+        .delete()
+        .eq('id', id);
+
+      if (error) {
+        debugLog('Error deleting prospect:', error);
+        throw error;
+      }
+
+      setState(prev => ({ ...prev, prospects: prev.prospects.filter(p => p.id !== id) }));
+    } catch (error: any) {
+      debugLog('Exception deleting prospect:', error);
+      Alert.alert('Error', `Failed to delete prospect: ${error.message}`);
+      throw error;
+    }
+  };
+
+  // Set up real-time subscription
+  useEffect(() => {
+    fetchProspects().catch(() => {
+      // Error already handled above
+    });
+
+    const subscription = supabase
+      .channel('prospects_realtime_new_schema')
+      .on('postgres_changes',
+        { event: '*', schema: 'public', table: 'prospects' },
+        (payload: any) => {
+          debugLog('Real-time prospect change:', payload);
+          fetchProspects(false).catch(() => {
+            // Error already handled above
+          });
+        }
+      )
+      .subscribe((status: string, err?: Error) => {
+        if (status === 'SUBSCRIBED') {
+          debugLog('Successfully subscribed to prospects real-time updates');
+        } else if (status === 'CHANNEL_ERROR') {
+          debugLog('Channel error:', err);
+        } else if (status === 'TIMED_OUT') {
+          debugLog('Real-time subscription timed out');
+        } else if (status === 'CLOSED') {
+          debugLog('Real-time subscription closed');
+        }
+      });
+
+    return () => {
+      debugLog('Cleaning up prospects subscription');
+      subscription.unsubscribe();
+    };
+  }, []);
+
+  return {
+    prospects,
+    loading,
+    error,
+    createProspect,
+    updateProspect,
+    setProspectStage,
+    convertProspect,
+    deleteProspect,
+    refetch: () => fetchProspects(true),
+    refetchSilent: () => fetchProspects(false),
+  };
+}
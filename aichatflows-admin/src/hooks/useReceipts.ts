@@ -0,0 +1,238 @@
+import { useEffect, useState } from 'react';
+import { Alert, Share } from 'react-native';
+import * as FileSystem from 'expo-file-system';
+import * as Print from 'expo-print';
+import * as Sharing from 'expo-sharing';
+import { supabase } from '../lib/supabase';
+import { Client, Payment, Receipt } from '../types';
+import {
+  BusinessDetails,
+  buildReceiptHtml,
+  buildReceiptText,
+  canIssueReceipt,
+  formatReceiptNumber,
+} from '../utils/receipts';
+
+const debugMode = process.env.EXPO_PUBLIC_DEBUG_MODE === 'true';
+
+const debugLog = (message: string, data?: any) => {
+  if (debugMode) {
+    console.log(`[Receipts Hook] ${message}`, data || '');
+  }
+};
+
+export type ReceiptFormat = 'pdf' | 'html';
+
+const isMissingTable = (error: any) => {
+  return error?.code === '42P01' || error?.message?.includes('does not exist');
+};
+
+// issue_receipt() not created yet, as reported by Postgres or PostgREST's schema cache
+const isMissingFunction = (error: any) => {
+  return error?.code === '42883' || error?.code === 'PGRST202';
+};
+
+interface ReceiptsHookState {
+  receipts: Receipt[];
+  loading: boolean;
+  error: string | null;
+}
+
+export function useReceipts() {
+  const [state, setState] = useState<ReceiptsHookState>({
+    receipts: [],
+    loading: true,
+    error: null,
+  });
+
+  const { receipts, loading, error } = state;
+
+  const updateState = (updates: Partial<ReceiptsHookState>) => {
+    setState(prev => ({ ...prev, ...updates }));
+  };
+
+  // Fetch every receipt issued so far
+  const fetchReceipts = async (showLoading = true) => {
+    try {
+      if (showLoading) updateState({ loading: true, error: null });
+      debugLog('Fetching receipts...');
+
+      const { data, error } = await supabase
+        .from('receipts')
+        .select('id, payment_id, receipt_number, issued_at')
+        .order('receipt_number', { ascending: true });
+
+      if (error) {
+        if (isMissingTable(error)) {
+          console.warn('📋 Receipts table does not exist. Receipts cannot be issued yet.');
+          console.warn('💡 To fix: Run the SQL script at migrations/09_create_receipts.sql in your Supabase database');
+          updateState({ receipts: [], loading: false });
+          return [];
+        }
+        debugLog('Error fetching receipts:', error);
+        throw error;
+      }
+
+      debugLog('Receipts fetched successfully:', data?.length);
+      updateState({ receipts: (data as Receipt[]) || [], loading: false });
+      return (data as Receipt[]) || [];
+    } catch (error: any) {
+      debugLog('Exception fetching receipts:', error);
+      const errorMessage = error.message;
+      updateState({ error: errorMessage, loading: false });
+      if (showLoading) {
+        Alert.alert('Error', `Failed to load receipts: ${errorMessage}`);
+      }
+      throw error;
+    }
+  };
+
+  const getReceiptForPayment = (paymentId: string) => {
+    return receipts.find(receipt => receipt.payment_id === paymentId);
+  };
+
+  // Get a payment's receipt, issuing the next number on the server the first time
+  const issueReceipt = async (payment: Payment): Promise<Receipt> => {
+    const existing = getReceiptForPayment(payment.id);
+    if (existing) return existing;
+
+    try {
+      if (!canIssueReceipt(payment)) {
+        throw new Error('Receipts can only be issued for confirmed payments');
+      }
+
+      debugLog('Issuing receipt...', { paymentId: payment.id });
+
+      // Numbering happens in the database so it stays gap-free across devices
+      const { data, error } = await supabase
+        .rpc('issue_receipt', { p_payment_id: payment.id })
+        .single();
+
+      if (error) {
+        if (isMissingFunction(error) || isMissingTable(error)) {
+          console.warn('💡 To fix: Run the SQL script at migrations/09_create_receipts.sql in your Supabase database');
+          throw new Error('Receipts are not set up in the database yet');
+        }
+        debugLog('Error issuing receipt:', error);
+        throw error;
+      }
+
+      const receipt = data as Receipt;
+      debugLog('Receipt issued:', receipt);
+      setState(prev => ({
+        ...prev,
+        receipts: prev.receipts.some(r => r.id === receipt.id) ? prev.receipts : [...prev.receipts, receipt],
+      }));
+      return receipt;
+    } catch (error: any) {
+      debugLog('Exception issuing receipt:', error);
+      Alert.alert('Error', `Failed to issue receipt: ${error.message}`);
+      throw error;
+    }
+  };
+
+  // Render a payment's receipt to a PDF or HTML file and open the native share sheet
+  const shareReceipt = async (
+    payment: Payment,
+    business: BusinessDetails,
+    client?: Client,
+    format: ReceiptFormat = 'pdf'
+  ) => {
+    const receipt = await issueReceipt(payment);
+
+    try {
+      const html = buildReceiptHtml(receipt, payment, business, client);
+      const fileName = `Receipt-${formatReceiptNumber(receipt.receipt_number)}.${format}`;
+
+      if (!(await Sharing.isAvailableAsync()) || !FileSystem.cacheDirectory) {
+        // No file sharing here (e.g. web), so share the text version instead
+        await Share.share({
+          title: fileName,
+          message: buildReceiptText(receipt, payment, business, client),
+        });
+        return receipt;
+      }
+
+      const fileUri = `${FileSystem.cacheDirectory}${fileName}`;
+      if (format === 'pdf') {
+        const { uri } = await Print.printToFileAsync({ html });
+        await FileSystem.deleteAsync(fileUri, { idempotent: true });
+        await FileSystem.moveAsync({ from: uri, to: fileUri });
+      } else {
+        await FileSystem.writeAsStringAsync(fileUri, html);
+      }
+
+      await Sharing.shareAsync(fileUri, {
+        mimeType: format === 'pdf' ? 'application/pdf' : 'text/html',
+        UTI: format === 'pdf' ? 'com.adobe.pdf' : 'public.html',
+        dialogTitle: `Share receipt ${formatReceiptNumber(receipt.receipt_number)}`,
+      });
+      return receipt;
+    } catch (error: any) {
+      debugLog('Exception sharing receipt:', error);
+      Alert.alert('Error', `Failed to share receipt: ${error.message}`);
+      throw error;
+    }
+  };
+
+  // Send a payment's receipt straight to the system print dialog
+  const printReceipt = async (payment: Payment, business: BusinessDetails, client?: Client) => {
+    const receipt = await issueReceipt(payment);
+
+    try {
+      await Print.printAsync({ html: buildReceiptHtml(receipt, payment, business, client) });
+      return receipt;
+    } catch (error: any) {
+      debugLog('Exception printing receipt:', error);
+      Alert.alert('Error', `Failed to print receipt: ${error.message}`);
+      throw error;
+    }
+  };
+
+  // Set up real-time subscription
+  useEffect(() => {
+    fetchReceipts().catch(() => {
+      // Error already handled above
+    });
+
+    const subscription = supabase
+      .channel('receipts_realtime_new_schema')
+      .on('postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'receipts' },
+        (payload: any) => {
+          debugLog('Real-time receipt issued:', payload);
+          fetchReceipts(false).catch(() => {
+            // Error already handled above
+          });
+        }
+      )
+      .subscribe((status: string, err?: Error) => {
+        if (status === 'SUBSCRIBED') {
+          debugLog('Successfully subscribed to receipts real-time updates');
+        } else if (status === 'CHANNEL_ERROR') {
+          debugLog('Channel error:', err);
+        } else if (status === 'TIMED_OUT') {
+          debugLog('Real-time subscription timed out');
+        } else if (status === 'CLOSED') {
+          debugLog('Real-time subscription closed');
+        }
+      });
+
+    return () => {
+      debugLog('Cleaning up receipts subscription');
+      subscription.unsubscribe();
+    };
+  }, []);
+
+  return {
+    receipts,
+    loading,
+    error,
+    issueReceipt,
+    getReceiptForPayment,
+    shareReceipt,
+    printReceipt,
+    refetch: () => fetchReceipts(true),
+    refetchSilent: () => fetchReceipts(false),
+  };
+}
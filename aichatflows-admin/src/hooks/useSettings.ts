@@ -1,5 +1,10 @@
 import { useState, useEffect, useCallback } from 'react';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { DEFAULT_DUNNING_GRACE_DAYS } from '../utils/dunning';
+import { DEFAULT_CURRENCY, DEFAULT_EXCHANGE_RATES, ExchangeRates } from '../utils/currency';
+import { BusinessDetails, DEFAULT_BUSINESS_DETAILS } from '../utils/receipts';
+import { DEFAULT_STALE_THRESHOLDS, StaleThresholds } from '../utils/pipeline';
+import { DEFAULT_HEALTH_WEIGHTS, HealthWeights } from '../utils/healthScore';
 
 export interface AppSettings {
   // General Preferences
@@ -11,6 +16,18 @@ export interface AppSettings {
   // Display Settings
   themeColor: 'white' | 'mint' | 'teal';
   fontSize: 'small' | 'default' | 'large';
+
+  // Billing
+  dunningGraceDays: number;
+  baseCurrency: string; // Currency revenue is reported in
+  exchangeRates: ExchangeRates; // Edited locally, not fetched
+  businessDetails: BusinessDetails; // Printed on receipts
+
+  // Pipeline
+  pipelineStaleDays: StaleThresholds; // Days in a stage before a client card is flagged
+
+  // Client health
+  healthScoreWeights: HealthWeights; // How much each factor counts towards the score
 }
 
 const DEFAULT_SETTINGS: AppSettings = {
@@ -23,6 +40,18 @@ const DEFAULT_SETTINGS: AppSettings = {
   // Display Settings
   themeColor: 'white',
   fontSize: 'default',
+
+  // Billing
+  dunningGraceDays: DEFAULT_DUNNING_GRACE_DAYS,
+  baseCurrency: DEFAULT_CURRENCY,
+  exchangeRates: DEFAULT_EXCHANGE_RATES,
+  businessDetails: DEFAULT_BUSINESS_DETAILS,
+
+  // Pipeline
+  pipelineStaleDays: DEFAULT_STALE_THRESHOLDS,
+
+  // Client health
+  healthScoreWeights: DEFAULT_HEALTH_WEIGHTS,
 };
 
 const SETTINGS_STORAGE_KEY = '@aichatflows_settings';
@@ -47,8 +76,15 @@ export function useSettings(): UseSettingsReturn {
       
       if (storedSettings) {
         const parsedSettings = JSON.parse(storedSettings) as Partial<AppSettings>;
-        // Merge with defaults to ensure all keys exist
-        setSettings({ ...DEFAULT_SETTINGS, ...parsedSettings });
+        // Merge with defaults to ensure all keys exist (including currencies added since)
+        setSettings({
+          ...DEFAULT_SETTINGS,
+          ...parsedSettings,
+          exchangeRates: { ...DEFAULT_EXCHANGE_RATES, ...parsedSettings.exchangeRates },
+          businessDetails: { ...DEFAULT_BUSINESS_DETAILS, ...parsedSettings.businessDetails },
+          pipelineStaleDays: { ...DEFAULT_STALE_THRESHOLDS, ...parsedSettings.pipelineStaleDays },
+          healthScoreWeights: { ...DEFAULT_HEALTH_WEIGHTS, ...parsedSettings.healthScoreWeights },
+        });
       } else {
         // First time - save default settings
         await saveSettings(DEFAULT_SETTINGS);
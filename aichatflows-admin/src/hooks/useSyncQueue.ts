@@ -0,0 +1,327 @@
+import { useEffect, useRef, useState } from 'react';
+import { Alert, AppState } from 'react-native';
+import { supabase } from '../lib/supabase';
+import { Client, SyncConflict, SyncQueueItem } from '../types';
+import { notifyClientAdded } from '../utils/notifications';
+import { isSupabaseReachable, testNetworkConnectivity } from '../utils/networkDebug';
+import {
+  getInPersonSubmission,
+  isNetworkError,
+  isReplayable,
+  loadSyncQueue,
+  markSubmissionConverted,
+  removeSyncItem,
+  resolveSyncConflict,
+  retrySyncItem,
+  subscribeToSyncQueue,
+  updateSyncItem,
+} from '../utils/syncQueue';
+import { CLIENT_NOT_FOUND_ERROR, notifyVisitSaved, saveVisit } from './useBusinessVisits';
+import { prepareClientRow } from './useClients';
+import { saveNote } from './useNotes';
+import { useActivityLog } from './useActivityLog';
+import { useAuth } from './useAuth';
+
+const debugMode = process.env.EXPO_PUBLIC_DEBUG_MODE === 'true';
+
+const debugLog = (message: string, data?: any) => {
+  if (debugMode) {
+    console.log(`[Sync Queue Hook] ${message}`, data || '');
+  }
+};
+
+// How often connectivity is probed while something is waiting to sync
+const SYNC_CHECK_INTERVAL_MS = 60 * 1000;
+
+// One replay at a time, however many screens use the hook; each instance shows it as syncing
+let replayRunning = false;
+const replayListeners = new Set<(running: boolean) => void>();
+
+const setReplayRunning = (running: boolean) => {
+  replayRunning = running;
+  replayListeners.forEach(listener => listener(running));
+};
+
+const isForeignKeyViolation = (error: any) => error?.code === '23503';
+
+interface SyncQueueHookState {
+  items: SyncQueueItem[];
+  loading: boolean;
+  syncing: boolean;
+  online: boolean | null; // null until the first probe
+  lastCheckedAt: string | null;
+}
+
+// Visits, notes and in-person conversions captured offline (see utils/syncQueue). The instance
+// mounted with autoReplay probes connectivity and sends them in the order they were queued
+export function useSyncQueue(autoReplay = false) {
+  const { user } = useAuth();
+  const { logClientCreated } = useActivityLog();
+  const [state, setState] = useState<SyncQueueHookState>({
+    items: [],
+    loading: true,
+    syncing: replayRunning,
+    online: null,
+    lastCheckedAt: null,
+  });
+
+  const { items, loading, syncing, online, lastCheckedAt } = state;
+
+  const updateState = (updates: Partial<SyncQueueHookState>) => {
+    setState(prev => ({ ...prev, ...updates }));
+  };
+
+  const checkConnectivity = async () => {
+    const results = await testNetworkConnectivity(false);
+    const reachable = isSupabaseReachable(results);
+    debugLog('Connectivity probe:', reachable);
+    updateState({ online: reachable, lastCheckedAt: new Date().toISOString() });
+    return reachable;
+  };
+
+  // Creates the client for a queued in-person conversion. The submission stays on the device,
+  // so its form data is read now rather than copied into the queue
+  const replaySignup = async (item: Extract<SyncQueueItem, { kind: 'signup' }>): Promise<SyncConflict | null> => {
+    const { payload } = item;
+    const submission = await getInPersonSubmission(payload.submission_id);
+    if (!submission) {
+      return { reason: 'The in-person signup was deleted from this device' };
+    }
+    if (submission.converted_to_client) return null;
+
+    if (!payload.use_existing_client) {
+      const email = submission.form_data.email.trim().toLowerCase();
+      const { data: matches, error: matchError } = await supabase
+        .from('clients')
+        .select('id, name, email')
+        .ilike('email', email)
+        .is('deleted_at', null);
+
+      if (matchError) throw matchError;
+
+      // The client this item creates is skipped, in case an earlier replay got that far
+      const existing = ((matches as Client[]) || [])
+        .find(client => client.id !== payload.client_id && client.email?.toLowerCase() === email);
+      if (existing) {
+        return {
+          reason: `${existing.name} already uses ${email}`,
+          resolution: { label: 'Use Existing Client', changes: { client_id: existing.id, use_existing_client: true } },
+        };
+      }
+
+      const { data, error } = await supabase
+        .from('clients')
+        .insert([{ id: payload.client_id, ...prepareClientRow({ ...submission.form_data, signed_in_person: true }, item.created_at) }])
+        .select('*')
+        .single();
+
+      if (error) {
+        if (error.code !== '23505') throw error;
+
+        // A duplicate only means an earlier replay got this far if the client it made is there
+        const { data: created, error: lookupError } = await supabase
+          .from('clients')
+          .select('id')
+          .eq('id', payload.client_id)
+          .maybeSingle();
+
+        if (lookupError) throw lookupError;
+        if (!created) throw error;
+      }
+
+      if (data) {
+        logClientCreated(data.id, data.name, submission.form_data.plan || 'starter', true);
+        if (user?.id) {
+          notifyClientAdded(data, user.id).catch(notificationError => {
+            debugLog('Failed to send client notification:', notificationError);
+          });
+        }
+      }
+    }
+
+    await markSubmissionConverted(payload.submission_id, payload.client_id);
+    return null;
+  };
+
+  // Sends one item; returns a conflict the user has to settle, or throws to leave it queued
+  const replayItem = async (item: SyncQueueItem): Promise<SyncConflict | null> => {
+    switch (item.kind) {
+      case 'visit':
+        try {
+          const visit = await saveVisit(item.payload);
+          if (user?.id) await notifyVisitSaved(visit, user.id);
+          return null;
+        } catch (error: any) {
+          if (error.message === CLIENT_NOT_FOUND_ERROR) {
+            return {
+              reason: 'The client on this visit was deleted',
+              resolution: { label: 'Log Without Client', changes: { client_id: null } },
+            };
+          }
+          if (isForeignKeyViolation(error)) {
+            return {
+              reason: 'The prospect on this visit no longer exists',
+              resolution: { label: 'Log Without Prospect', changes: { prospect_id: null } },
+            };
+          }
+          throw error;
+        }
+      case 'note':
+        try {
+          await saveNote(item.payload);
+          return null;
+        } catch (error: any) {
+          if (isForeignKeyViolation(error)) {
+            return {
+              reason: 'The note this replies to no longer exists',
+              resolution: { label: 'Post as New Note', changes: { parent_id: null } },
+            };
+          }
+          throw error;
+        }
+      case 'signup':
+        return replaySignup(item);
+    }
+  };
+
+  // Items go in queue order. A network error stops the run so nothing overtakes what's waiting;
+  // conflicts and other errors are recorded on the item and the run moves on
+  const replay = async () => {
+    if (replayRunning) return 0;
+    setReplayRunning(true);
+    let synced = 0;
+
+    try {
+      const queued = (await loadSyncQueue()).filter(isReplayable);
+      debugLog('Replaying sync queue:', queued.length);
+
+      for (const queuedItem of queued) {
+        // Skip anything discarded or resolved since the run started
+        const item = (await loadSyncQueue()).find(current => current.id === queuedItem.id);
+        if (!item || !isReplayable(item)) continue;
+
+        const attemptedAt = new Date().toISOString();
+        try {
+          const conflict = await replayItem(item);
+          if (conflict) {
+            debugLog('Sync conflict:', { id: item.id, conflict });
+            await updateSyncItem(item.id, { status: 'conflict', conflict, last_error: conflict.reason, last_attempt_at: attemptedAt });
+            continue;
+          }
+          await removeSyncItem(item.id);
+          synced++;
+        } catch (error: any) {
+          if (isNetworkError(error)) {
+            debugLog('Connection lost during replay:', error);
+            await updateSyncItem(item.id, { last_error: error.message, last_attempt_at: attemptedAt });
+            updateState({ online: false });
+            break;
+          }
+          debugLog('Error replaying sync item:', { id: item.id, error });
+          await updateSyncItem(item.id, {
+            status: 'failed',
+            attempts: item.attempts + 1,
+            last_error: error.message,
+            last_attempt_at: attemptedAt,
+          });
+        }
+      }
+    } finally {
+      setReplayRunning(false);
+    }
+
+    debugLog('Sync queue replay finished:', synced);
+    return synced;
+  };
+
+  const syncNow = async () => {
+    try {
+      if (!(await checkConnectivity())) {
+        Alert.alert('Offline', 'Supabase can\'t be reached right now. Queued items will sync when the connection is back.');
+        return 0;
+      }
+      return await replay();
+    } catch (error: any) {
+      debugLog('Exception syncing queue:', error);
+      Alert.alert('Error', `Failed to sync: ${error.message}`);
+      return 0;
+    }
+  };
+
+  const retryItem = async (id: string) => {
+    await retrySyncItem(id);
+    return syncNow();
+  };
+
+  const resolveConflict = async (id: string) => {
+    await resolveSyncConflict(id);
+    return syncNow();
+  };
+
+  // Drops the item; a discarded in-person conversion leaves its submission unconverted
+  const discardItem = (id: string) => removeSyncItem(id);
+
+  // Read through a ref so the interval and foreground syncs replay with the latest user and callbacks
+  const syncRef = useRef({ checkConnectivity, replay });
+  syncRef.current = { checkConnectivity, replay };
+
+  useEffect(() => {
+    loadSyncQueue().then(queued => updateState({ items: queued, loading: false }));
+    const unsubscribeQueue = subscribeToSyncQueue(queued => updateState({ items: queued }));
+
+    const showSyncing = (running: boolean) => updateState({ syncing: running });
+    replayListeners.add(showSyncing);
+
+    return () => {
+      unsubscribeQueue();
+      replayListeners.delete(showSyncing);
+    };
+  }, []);
+
+  // Probe on an interval and whenever the app comes back to the foreground, only while there's something to send
+  useEffect(() => {
+    if (!autoReplay || !user?.id) return;
+
+    let checking = false;
+    const trySync = async () => {
+      if (checking || replayRunning) return;
+      checking = true;
+      try {
+        const queued = await loadSyncQueue();
+        if (queued.some(isReplayable) && await syncRef.current.checkConnectivity()) {
+          await syncRef.current.replay();
+        }
+      } catch (error) {
+        debugLog('Background sync failed:', error);
+      } finally {
+        checking = false;
+      }
+    };
+
+    trySync();
+    const interval = setInterval(trySync, SYNC_CHECK_INTERVAL_MS);
+    const appStateSubscription = AppState.addEventListener('change', appState => {
+      if (appState === 'active') trySync();
+    });
+
+    return () => {
+      clearInterval(interval);
+      appStateSubscription.remove();
+    };
+  }, [autoReplay, user?.id]);
+
+  return {
+    items,
+    loading,
+    syncing,
+    online,
+    lastCheckedAt,
+    pendingCount: items.length,
+    attentionCount: items.filter(item => !isReplayable(item)).length,
+    checkConnectivity,
+    syncNow,
+    retryItem,
+    resolveConflict,
+    discardItem,
+  };
+}
@@ -0,0 +1,280 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Alert } from 'react-native';
+import { supabase } from '../lib/supabase';
+import { syncTaskReminders } from '../lib/notifications';
+import { Task, TaskFormData } from '../types';
+import { getTaskDueDate, isTaskAssignedTo } from '../utils/tasks';
+import { useAuth } from './useAuth';
+
+const debugMode = process.env.EXPO_PUBLIC_DEBUG_MODE === 'true';
+
+const debugLog = (message: string, data?: any) => {
+  if (debugMode) {
+    console.log(`[Tasks Hook] ${message}`, data || '');
+  }
+};
+
+const TASK_SELECT = `
+  id,
+  title,
+  notes,
+  due_at,
+  assignee_email,
+  client_id,
+  visit_id,
+  payment_id,
+  done,
+  completed_at,
+  created_at,
+  updated_at,
+  client:clients(
+    id,
+    name,
+    business_name,
+    deleted_at
+  )
+`;
+
+// Several screens use this hook at once; run reminder syncs one after another so they can't double-schedule
+let reminderSync: Promise<void> = Promise.resolve();
+
+const toTaskRow = (formData: TaskFormData) => ({
+  title: formData.title.trim(),
+  notes: formData.notes?.trim() || null,
+  due_at: getTaskDueDate(formData.due_date, formData.due_time).toISOString(),
+  assignee_email: formData.assignee_email?.trim().toLowerCase() || null,
+  client_id: formData.client_id || null,
+  visit_id: formData.visit_id || null,
+  payment_id: formData.payment_id || null,
+});
+
+interface TasksHookState {
+  tasks: Task[];
+  loading: boolean;
+  error: string | null;
+}
+
+export function useTasks() {
+  const { user } = useAuth();
+  const [state, setState] = useState<TasksHookState>({
+    tasks: [],
+    loading: true,
+    error: null,
+  });
+
+  const { tasks, loading, error } = state;
+
+  const updateState = (updates: Partial<TasksHookState>) => {
+    setState(prev => ({ ...prev, ...updates }));
+  };
+
+  // Fetch all tasks, soonest due first
+  const fetchTasks = async (showLoading = true) => {
+    try {
+      if (showLoading) updateState({ loading: true, error: null });
+      debugLog('Fetching tasks...');
+
+      const { data, error } = await supabase
+        .from('tasks')
+        .select(TASK_SELECT)
+        .order('due_at', { ascending: true });
+
+      if (error) {
+        if (error.code === '42P01' || error.message.includes('does not exist')) {
+          console.warn('📋 Tasks table does not exist. Tasks and reminders are unavailable.');
+          console.warn('💡 To fix: Run the SQL script at migrations/13_create_tasks.sql in your Supabase database');
+          updateState({ tasks: [], loading: false });
+          return [];
+        }
+        debugLog('Error fetching tasks:', error);
+        throw error;
+      }
+
+      // Tasks of a client in the Trash are hidden with the client
+      const fetched = ((data as unknown as Task[]) || []).filter(task => !task.client?.deleted_at);
+      debugLog('Tasks fetched successfully:', fetched.length);
+      updateState({ tasks: fetched, loading: false });
+      return fetched;
+    } catch (error: any) {
+      debugLog('Exception fetching tasks:', error);
+      const errorMessage = error.message;
+      updateState({ error: errorMessage, loading: false });
+      if (showLoading) {
+        Alert.alert('Error', `Failed to load tasks: ${errorMessage}`);
+      }
+      throw error;
+    }
+  };
+
+  const createTask = async (formData: TaskFormData) => {
+    try {
+      debugLog('Creating task...', formData);
+
+      const { data, error } = await supabase
+        .from('tasks')
+        .insert([toTaskRow(formData)])
+        .select(TASK_SELECT)
+        .single();
+
+      if (error) {
+        debugLog('Error creating task:', error);
+        throw error;
+      }
+
+      const task = data as unknown as Task;
+      setState(prev => ({ ...prev, tasks: [...prev.tasks, task].sort((a, b) => a.due_at.localeCompare(b.due_at)) }));
+      debugLog('Task created:', task.id);
+      return task;
+    } catch (error: any) {
+      debugLog('Exception creating task:', error);
+      Alert.alert('Error', `Failed to create task: ${error.message}`);
+      throw error;
+    }
+  };
+
+  const updateTask = async (id: string, formData: TaskFormData) => {
+    try {
+      debugLog('Updating task...', { id, formData });
+
+      const { data, error } = await supabase
+        .from('tasks')
+        .update(toTaskRow(formData))
+        .eq('id', id)
+        .select(TASK_SELECT)
+        .single();
+
+      if (error) {
+        debugLog('Error updating task:', error);
+        throw error;
+      }
+
+      const task = data as unknown as Task;
+      setState(prev => ({
+        ...prev,
+        tasks: prev.tasks.map(t => t.id === id ? task : t).sort((a, b) => a.due_at.localeCompare(b.due_at)),
+      }));
+      return task;
+    } catch (error: any) {
+      debugLog('Exception updating task:', error);
+      Alert.alert('Error', `Failed to update task: ${error.message}`);
+      throw error;
+    }
+  };
+
+  // Tick a task off, or reopen it; completed_at is set by the database
+  const setTaskDone = async (id: string, done: boolean) => {
+    try {
+      debugLog('Setting task done...', { id, done });
+
+      const { data, error } = await supabase
+        .from('tasks')
+        .update({ done })
+        .eq('id', id)
+        .select(TASK_SELECT)
+        .single();
+
+      if (error) {
+        debugLog('Error setting task done:', error);
+        throw error;
+      }
+
+      const task = data as unknown as Task;
+      setState(prev => ({ ...prev, tasks: prev.tasks.map(t => t.id === id ? task : t) }));
+      return task;
+    } catch (error: any) {
+      debugLog('Exception setting task done:', error);
+      Alert.alert('Error', `Failed to update task: ${error.message}`);
+      throw error;
+    }
+  };
+
+  const deleteTask = async (id: string) => {
+    try {
+      debugLog('Deleting task...', id);
+
+      const { error } = await supabase
+        .from('tasks')
+        .delete()
+        .eq('id', id);
+
+      if (error) {
+        debugLog('Error deleting task:', error);
+        throw error;
+      }
+
+      setState(prev => ({ ...prev, tasks: prev.tasks.filter(t => t.id !== id) }));
+    } catch (error: any) {
+      debugLog('Exception deleting task:', error);
+      Alert.alert('Error', `Failed to delete task: ${error.message}`);
+      throw error;
+    }
+  };
+
+  const getTasksForClient = (clientId: string) => {
+    return tasks.filter(task => task.client_id === clientId);
+  };
+
+  // Tasks the signed-in admin should see on their Today list and get reminded about
+  const userEmail = user?.email;
+  const myTasks = useMemo(() => tasks.filter(task => isTaskAssignedTo(task, userEmail)), [tasks, userEmail]);
+
+  // Keep this device's reminders in step with the tasks assigned to whoever is signed in
+  const signedIn = !!user;
+  useEffect(() => {
+    if (loading || !signedIn) return;
+    reminderSync = reminderSync
+      .then(() => syncTaskReminders(myTasks))
+      .catch(error => debugLog('Error syncing task reminders:', error));
+  }, [myTasks, loading, signedIn]);
+
+  // Set up real-time subscription
+  useEffect(() => {
+    fetchTasks().catch(() => {
+      // Error already handled above
+    });
+
+    const subscription = supabase
+      .channel('tasks_realtime_new_schema')
+      .on('postgres_changes',
+        { event: '*', schema: 'public', table: 'tasks' },
+        (payload: any) => {
+          debugLog('Real-time task change:', payload);
+          // Re-fetch to keep client joins and ordering consistent
+          fetchTasks(false).catch(() => {
+            // Error already handled above
+          });
+        }
+      )
+      .subscribe((status: string, err?: Error) => {
+        if (status === 'SUBSCRIBED') {
+          debugLog('Successfully subscribed to tasks real-time updates');
+        } else if (status === 'CHANNEL_ERROR') {
+          debugLog('Channel error:', err);
+        } else if (status === 'TIMED_OUT') {
+          debugLog('Real-time subscription timed out');
+        } else if (status === 'CLOSED') {
+          debugLog('Real-time subscription closed');
+        }
+      });
+
+    return () => {
+      debugLog('Cleaning up tasks subscription');
+      subscription.unsubscribe();
+    };
+  }, []);
+
+  return {
+    tasks,
+    myTasks,
+    loading,
+    error,
+    currentUserEmail: user?.email || null,
+    createTask,
+    updateTask,
+    setTaskDone,
+    deleteTask,
+    getTasksForClient,
+    refetch: () => fetchTasks(true),
+    refetchSilent: () => fetchTasks(false),
+  };
+}
@@ -0,0 +1,221 @@
+import { useEffect, useState } from 'react';
+import { Alert } from 'react-native';
+import { supabase } from '../lib/supabase';
+import { Territory, TerritoryFormData } from '../types';
+import { Coordinates } from '../utils/geo';
+
+const debugMode = process.env.EXPO_PUBLIC_DEBUG_MODE === 'true';
+
+const debugLog = (message: string, data?: any) => {
+  if (debugMode) {
+    console.log(`[Territories Hook] ${message}`, data || '');
+  }
+};
+
+const TERRITORY_SELECT = 'id, name, color, boundary, assignee_email, created_at, updated_at';
+
+const toTerritoryRow = (formData: TerritoryFormData) => ({
+  name: formData.name.trim(),
+  color: formData.color,
+  assignee_email: formData.assignee_email?.trim().toLowerCase() || null,
+});
+
+interface TerritoriesHookState {
+  territories: Territory[];
+  loading: boolean;
+  error: string | null;
+}
+
+// Map areas assigned to reps; visits are attributed to them in utils/territories
+export function useTerritories() {
+  const [state, setState] = useState<TerritoriesHookState>({
+    territories: [],
+    loading: true,
+    error: null,
+  });
+
+  const { territories, loading, error } = state;
+
+  const updateState = (updates: Partial<TerritoriesHookState>) => {
+    setState(prev => ({ ...prev, ...updates }));
+  };
+
+  const fetchTerritories = async (showLoading = true) => {
+    try {
+      if (showLoading) updateState({ loading: true, error: null });
+      debugLog('Fetching territories...');
+
+      const { data, error } = await supabase
+        .from('territories')
+        .select(TERRITORY_SELECT)
+        .order('name', { ascending: true });
+
+      if (error) {
+        if (error.code === '42P01' || error.message.includes('does not exist')) {
+          console.warn('📋 Territories table does not exist. Visits are not attributed to territories.');
+          console.warn('💡 To fix: Run the SQL script at migrations/20_create_territories.sql in your Supabase database');
+          updateState({ territories: [], loading: false });
+          return [];
+        }
+        debugLog('Error fetching territories:', error);
+        throw error;
+      }
+
+      const fetched = (data as Territory[]) || [];
+      debugLog('Territories fetched successfully:', fetched.length);
+      updateState({ territories: fetched, loading: false });
+      return fetched;
+    } catch (error: any) {
+      debugLog('Exception fetching territories:', error);
+      const errorMessage = error.message;
+      updateState({ error: errorMessage, loading: false });
+      if (showLoading) {
+        Alert.alert('Error', `Failed to load territories: ${errorMessage}`);
+      }
+      throw error;
+    }
+  };
+
+  const createTerritory = async (formData: TerritoryFormData, boundary: Coordinates[]) => {
+    try {
+      debugLog('Creating territory...', { formData, points: boundary.length });
+
+      if (!formData.name.trim()) {
+        throw new Error('Territory name is required');
+      }
+      if (boundary.length < 3) {
+        throw new Error('A territory needs at least 3 points');
+      }
+
+      const { data, error } = await supabase
+        .from('territories')
+        .insert([{ ...toTerritoryRow(formData), boundary }])
+        .select(TERRITORY_SELECT)
+        .single();
+
+      if (error) {
+        debugLog('Error creating territory:', error);
+        throw error;
+      }
+
+      const territory = data as Territory;
+      setState(prev => ({
+        ...prev,
+        territories: [...prev.territories, territory].sort((a, b) => a.name.localeCompare(b.name)),
+      }));
+      return territory;
+    } catch (error: any) {
+      debugLog('Exception creating territory:', error);
+      Alert.alert('Error', `Failed to create territory: ${error.message}`);
+      throw error;
+    }
+  };
+
+  // Name, color and assignee; the boundary is kept unless a redrawn one is passed
+  const updateTerritory = async (id: string, formData: TerritoryFormData, boundary?: Coordinates[]) => {
+    try {
+      debugLog('Updating territory...', { id, formData });
+
+      if (!formData.name.trim()) {
+        throw new Error('Territory name is required');
+      }
+      if (boundary && boundary.length < 3) {
+        throw new Error('A territory needs at least 3 points');
+      }
+
+      const { data, error } = await supabase
+        .from('territories')
+        .update({ ...toTerritoryRow(formData), ...(boundary ? { boundary } : {}) })
+        .eq('id', id)
+        .select(TERRITORY_SELECT)
+        .single();
+
+      if (error) {
+        debugLog('Error updating territory:', error);
+        throw error;
+      }
+
+      const territory = data as Territory;
+      setState(prev => ({
+        ...prev,
+        territories: prev.territories
+          .map(t => t.id === id ? territory : t)
+          .sort((a, b) => a.name.localeCompare(b.name)),
+      }));
+      return territory;
+    } catch (error: any) {
+      debugLog('Exception updating territory:', error);
+      Alert.alert('Error', `Failed to update territory: ${error.message}`);
+      throw error;
+    }
+  };
+
+  // Visits aren't stored against territories, so nothing else changes
+  const deleteTerritory = async (id: string) => {
+    try {
+      debugLog('Deleting territory...', id);
+
+      const { error } = await supabase
+        .from('territories')
+        .delete()
+        .eq('id', id);
+
+      if (error) {
+        debugLog('Error deleting territory:', error);
+        throw error;
+      }
+
+      setState(prev => ({ ...prev, territories: prev.territories.filter(t => t.id !== id) }));
+    } catch (error: any) {
+      debugLog('Exception deleting territory:', error);
+      Alert.alert('Error', `Failed to delete territory: ${error.message}`);
+      throw error;
+    }
+  };
+
+  // Set up real-time subscription
+  useEffect(() => {
+    fetchTerritories().catch(() => {
+      // Error already handled above
+    });
+
+    const subscription = supabase
+      .channel('territories_realtime_new_schema')
+      .on('postgres_changes',
+        { event: '*', schema: 'public', table: 'territories' },
+        (payload: any) => {
+          debugLog('Real-time territory change:', payload);
+          fetchTerritories(false).catch(() => {
+            // Error already handled above
+          });
+        }
+      )
+      .subscribe((status: string, err?: Error) => {
+        if (status === 'SUBSCRIBED') {
+          debugLog('Successfully subscribed to territories real-time updates');
+        } else if (status === 'CHANNEL_ERROR') {
+          debugLog('Channel error:', err);
+        } else if (status === 'TIMED_OUT') {
+          debugLog('Real-time subscription timed out');
+        } else if (status === 'CLOSED') {
+          debugLog('Real-time subscription closed');
+        }
+      });
+
+    return () => {
+      debugLog('Cleaning up territories subscription');
+      subscription.unsubscribe();
+    };
+  }, []);
+
+  return {
+    territories,
+    loading,
+    error,
+    createTerritory,
+    updateTerritory,
+    deleteTerritory,
+    refetch: () => fetchTerritories(true),
+    refetchSilent: () => fetchTerritories(false),
+  };
+}
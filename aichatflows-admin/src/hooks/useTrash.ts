@@ -0,0 +1,168 @@
+import { useEffect, useState } from 'react';
+import { Alert } from 'react-native';
+import { supabase } from '../lib/supabase';
+import { TrashItem } from '../types';
+import { toTrashItems } from '../utils/trash';
+import { ATTACHMENT_BUCKET } from '../utils/attachments';
+
+const debugMode = process.env.EXPO_PUBLIC_DEBUG_MODE === 'true';
+
+const debugLog = (message: string, data?: any) => {
+  if (debugMode) {
+    console.log(`[Trash Hook] ${message}`, data || '');
+  }
+};
+
+const TRASH_TABLES: Record<Exclude<TrashItem['type'], 'client'>, string> = {
+  payment: 'payments',
+  visit: 'business_visits',
+  goal: 'goals',
+};
+
+interface TrashHookState {
+  items: TrashItem[];
+  loading: boolean;
+  error: string | null;
+}
+
+// Soft-deleted clients, payments, visits and goals. Restoring goes through each record's own hook;
+// purging happens here
+export function useTrash() {
+  const [state, setState] = useState<TrashHookState>({
+    items: [],
+    loading: true,
+    error: null,
+  });
+
+  const { items, loading, error } = state;
+
+  const updateState = (updates: Partial<TrashHookState>) => {
+    setState(prev => ({ ...prev, ...updates }));
+  };
+
+  const fetchTrash = async (showLoading = true) => {
+    try {
+      if (showLoading) updateState({ loading: true, error: null });
+      debugLog('Fetching trash...');
+
+      const [clientsResult, paymentsResult, visitsResult, goalsResult] = await Promise.all([
+        supabase
+          .from('clients')
+          .select('id, name, email, business_name, deleted_at')
+          .not('deleted_at', 'is', null),
+        supabase
+          .from('payments')
+          .select('id, amount, currency, kind, client_id, original_payment_id, allocations:payment_allocations(invoice_id), deleted_at, client:clients(name, deleted_at)')
+          .not('deleted_at', 'is', null),
+        supabase
+          .from('business_visits')
+          .select('id, location, client_id, deleted_at, client:clients(name, deleted_at)')
+          .not('deleted_at', 'is', null),
+        supabase
+          .from('goals')
+          .select('id, title, target, deleted_at')
+          .not('deleted_at', 'is', null),
+      ]);
+
+      const failed = [clientsResult, paymentsResult, visitsResult, goalsResult].find(result => result.error);
+      if (failed?.error) {
+        if (failed.error.code === '42703' || failed.error.message.includes('deleted_at')) {
+          console.warn('📋 deleted_at columns do not exist. Deleted records are removed permanently and the Trash is empty.');
+          console.warn('💡 To fix: Run the SQL script at migrations/17_add_soft_delete.sql in your Supabase database');
+          updateState({ items: [], loading: false });
+          return [];
+        }
+        debugLog('Error fetching trash:', failed.error);
+        throw failed.error;
+      }
+
+      const trashed = toTrashItems({
+        clients: clientsResult.data || [],
+        payments: paymentsResult.data || [],
+        visits: visitsResult.data || [],
+        goals: goalsResult.data || [],
+      });
+
+      debugLog('Trash fetched successfully:', trashed.length);
+      updateState({ items: trashed, loading: false });
+      return trashed;
+    } catch (error: any) {
+      debugLog('Exception fetching trash:', error);
+      const errorMessage = error.message;
+      updateState({ error: errorMessage, loading: false });
+      if (showLoading) {
+        Alert.alert('Error', `Failed to load the Trash: ${errorMessage}`);
+      }
+      throw error;
+    }
+  };
+
+  // Delete a trashed record for good. Purging a client also removes its attachment files from storage
+  const purgeItem = async (item: TrashItem, showAlert = true) => {
+    try {
+      debugLog('Purging trashed item...', item);
+
+      if (item.type === 'client') {
+        const { data: attachments } = await supabase
+          .from('client_attachments')
+          .select('storage_path, thumbnail_path')
+          .eq('client_id', item.id);
+
+        const { error } = await supabase.rpc('purge_client', { p_client_id: item.id });
+        if (error) {
+          debugLog('Error purging client:', error);
+          throw error;
+        }
+
+        const paths = (attachments || [])
+          .flatMap((attachment: { storage_path: string; thumbnail_path?: string | null }) => [attachment.storage_path, attachment.thumbnail_path])
+          .filter((path: string | null | undefined): path is string => !!path);
+        if (paths.length > 0) {
+          const { error: storageError } = await supabase.storage.from(ATTACHMENT_BUCKET).remove(paths);
+          if (storageError) {
+            debugLog('Error removing attachment files:', storageError);
+          }
+        }
+      } else {
+        // Refunds and credit notes go with their payment (ON DELETE CASCADE)
+        const { error } = await supabase
+          .from(TRASH_TABLES[item.type])
+          .delete()
+          .eq('id', item.id)
+          .not('deleted_at', 'is', null);
+
+        if (error) {
+          debugLog('Error purging item:', error);
+          throw error;
+        }
+      }
+
+      setState(prev => ({ ...prev, items: prev.items.filter(trashed => trashed.id !== item.id) }));
+    } catch (error: any) {
+      debugLog('Exception purging item:', error);
+      // Foreign key violation, e.g. a payment with an issued receipt
+      const purgeError = error.code === '23503'
+        ? new Error('Still referenced by other records, such as an issued receipt')
+        : error;
+      if (showAlert) {
+        Alert.alert('Error', `Failed to delete permanently: ${purgeError.message}`);
+      }
+      throw purgeError;
+    }
+  };
+
+  useEffect(() => {
+    fetchTrash().catch(() => {
+      // Error already handled above
+    });
+  }, []);
+
+  return {
+    items,
+    loading,
+    error,
+    purgeItem,
+    refetch: () => fetchTrash(true),
+    refetchSilent: () => fetchTrash(false),
+  };
+}
@@ -1,6 +1,7 @@
 import * as Notifications from 'expo-notifications';
 import * as Device from 'expo-device';
 import Constants from 'expo-constants';
+import { Task } from '../types';
 
 export async function registerForPushNotificationsAsync() {
   let token;
@@ -31,22 +32,28 @@ export async function registerForPushNotificationsAsync() {
   return token;
 }
 
+// `when` is a delay in seconds or the date to show the notification at; returns its identifier
 export async function schedulePushNotification(
   title: string,
   body: string,
   data?: any,
-  seconds = 1
+  when: number | Date = 1
 ) {
-  await Notifications.scheduleNotificationAsync({
+  return await Notifications.scheduleNotificationAsync({
     content: {
       title,
       body,
       data,
     },
-    trigger: { 
-      type: Notifications.SchedulableTriggerInputTypes.TIME_INTERVAL,
-      seconds 
-    },
+    trigger: when instanceof Date
+      ? {
+        type: Notifications.SchedulableTriggerInputTypes.DATE,
+        date: when,
+      }
+      : { 
+        type: Notifications.SchedulableTriggerInputTypes.TIME_INTERVAL,
+        seconds: when 
+      },
   });
 }
 
@@ -68,6 +75,8 @@ export const NotificationTypes = {
   PAYMENT_RECEIVED: 'payment_received',
   GOAL_ACHIEVED: 'goal_achieved',
   CLIENT_STATUS_CHANGE: 'client_status_change',
+  TASK_DUE: 'task_due',
+  NOTE_MENTION: 'note_mention',
 } as const;
 
 // Helper functions for specific notification types
@@ -103,4 +112,41 @@ export const AdminNotifications = {
       { type: NotificationTypes.CLIENT_STATUS_CHANGE, clientName, newStatus }
     );
   },
-};
\ No newline at end of file
+};
+
+// Make this device's task reminders match the given tasks: one notification at each future due time,
+// rescheduled when a due time moves and cancelled once a task is done, deleted or reassigned
+export async function syncTaskReminders(tasks: Task[]) {
+  const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+  const existing = new Map<string, { identifier: string; dueAt: string }>();
+  scheduled
+    .filter(request => request.content.data?.type === NotificationTypes.TASK_DUE)
+    .forEach(request => {
+      existing.set(String(request.content.data.taskId), {
+        identifier: request.identifier,
+        dueAt: String(request.content.data.dueAt),
+      });
+    });
+
+  const now = Date.now();
+  const wanted = tasks.filter(task => !task.done && new Date(task.due_at).getTime() > now);
+  const wantedIds = new Set(wanted.map(task => task.id));
+
+  for (const [taskId, reminder] of existing) {
+    const task = wanted.find(t => t.id === taskId);
+    if (!wantedIds.has(taskId) || task?.due_at !== reminder.dueAt) {
+      await Notifications.cancelScheduledNotificationAsync(reminder.identifier);
+      existing.delete(taskId);
+    }
+  }
+
+  for (const task of wanted) {
+    if (existing.has(task.id)) continue;
+    await schedulePushNotification(
+      'Task Due',
+      task.client ? `${task.title} · ${task.client.name}` : task.title,
+      { type: NotificationTypes.TASK_DUE, taskId: task.id, clientId: task.client_id, dueAt: task.due_at },
+      new Date(task.due_at)
+    );
+  }
+}
@@ -9,7 +9,8 @@ export interface Client {
   tiktok_handle?: string;
   delivery_preference?: 'delivery' | 'pickup'; // Optional for backward compatibility
   platform_preference?: 'instagram' | 'facebook' | 'tiktok'; // Optional for backward compatibility
-  plan?: 'starter' | 'pro'; // Optional for backward compatibility
+  plan?: string; // Plan name from the plans catalog
+  plan_price?: number; // Price locked in when the client joined or changed plan
   payment_status?: 'paid' | 'unpaid' | 'overdue'; // Phase 7: Payment tracking
   signed_in_person?: boolean; // Phase 7: In-person signup flag
   payment_method?: string;
@@ -25,10 +26,7 @@ export interface Client {
   faq_location?: string;
   consent_to_share?: boolean;
   
-  // Login credentials (conditional on platform selection)
-  instagram_password?: string;
-  facebook_password?: string;
-  tiktok_password?: string;
+  // Login credentials live encrypted in the credential vault (see ClientCredential)
   
   // Delivery details (conditional on delivery preference)
   delivery_method?: string;
@@ -40,9 +38,35 @@ export interface Client {
   
   // Photo upload
   photo_url?: string;
+
+  // Free-form labels and values for admin-defined custom fields, keyed by CustomFieldDefinition.key
+  tags?: string[];
+  custom_fields?: Record<string, CustomFieldValue>;
   
   created_at: string;
   updated_at?: string;
+  deleted_at?: string | null; // Set while the client is in the Trash
+}
+
+// Encrypted social login; only ciphertext is stored, decrypted in the app with the vault key
+export interface ClientCredential {
+  id: string;
+  client_id: string;
+  platform: 'instagram' | 'facebook' | 'tiktok';
+  ciphertext: string;
+  nonce: string;
+  updated_by?: string;
+  updated_at: string;
+}
+
+// Audit trail entry written each time a credential is revealed
+export interface CredentialAccessLogEntry {
+  id: string;
+  client_id: string | null;
+  platform: ClientCredential['platform'];
+  user_id: string;
+  user_email?: string;
+  accessed_at: string;
 }
 
 export interface FormSubmission {
@@ -70,8 +94,204 @@ export interface Payment {
   description?: string;
   payment_method?: string;
   notes?: string;
+  allocations?: InvoiceAllocation[]; // Invoices this payment has been applied to
+  kind?: 'payment' | 'refund' | 'credit_note'; // Defaults to 'payment'
+  original_payment_id?: string; // Payment a refund or credit note adjusts
+  amount_owed?: number; // Amount due when this payment was taken; more than amount = partial payment
+  currency?: string; // ISO 4217 code; defaults to USD
   created_at?: string;
   updated_at?: string;
+  deleted_at?: string | null; // Set while the payment is in the Trash
+}
+
+// Part of a payment applied to an invoice (rows of payment_allocations)
+export interface InvoiceAllocation {
+  invoice_id: string;
+  amount: number; // In the payment's currency
+  invoice_amount?: number; // Paid off in the invoice's currency (same as amount when they match)
+}
+
+// Money received, money returned, and what's left (in the base currency when converted)
+export interface RevenueBreakdown {
+  gross: number;
+  refunded: number;
+  net: number;
+  byCurrency: Record<string, number>; // Net in each original currency
+}
+
+// Receipt issued for a confirmed payment; numbers are sequential with no gaps
+export interface Receipt {
+  id: string;
+  payment_id: string;
+  receipt_number: number;
+  issued_at: string;
+}
+
+// Billing ledger: one invoice per client per billing period
+export interface InvoiceLineItem {
+  description: string;
+  quantity: number;
+  unit_price: number;
+  amount: number;
+  plan?: Client['plan'];
+}
+
+export interface Invoice {
+  id: string;
+  client_id: string;
+  client?: Client;
+  period_start: string;
+  period_end: string;
+  due_date: string;
+  status: 'open' | 'paid' | 'void';
+  line_items: InvoiceLineItem[];
+  total: number;
+  currency?: string; // ISO 4217 code of the plan it bills; defaults to USD
+  created_at: string;
+  updated_at?: string;
+}
+
+// Plan history: each row starts a new plan period for a client
+export interface PlanChange {
+  id: string;
+  client_id: string;
+  from_plan?: string | null; // null for the plan the client signed up on
+  to_plan: string;
+  from_price?: number | null;
+  to_price: number;
+  effective_date: string;
+  proration_amount: number; // positive = charge, negative = credit
+  payment_id?: string | null; // Payment or credit entry created for the proration
+  created_at: string;
+}
+
+export interface ClientStatusChange {
+  id: string;
+  client_id: string;
+  from_status?: Client['status'] | null; // null for the status the client was created with
+  to_status: Client['status'];
+  changed_at: string;
+}
+
+// One entry in a client's lifecycle history; written by database triggers
+export interface ClientEvent {
+  id: string;
+  client_id: string;
+  event_type: 'status_change' | 'payment_status_change' | 'plan_change' | 'payment' | 'visit' | 'onboarding_submission' | 'client_merged';
+  from_value?: string | null; // null for the value a client was created with
+  to_value?: string | null;
+  data: Record<string, any>;
+  actor_id?: string | null; // null for backfilled history and public form submissions
+  actor_email?: string | null;
+  occurred_at: string;
+}
+
+// Follow-up task, optionally tied to a client and to the visit or payment it's about
+export interface Task {
+  id: string;
+  title: string;
+  notes?: string | null;
+  due_at: string;
+  assignee_email?: string | null; // null = anyone on the team
+  client_id?: string | null;
+  visit_id?: string | null;
+  payment_id?: string | null;
+  done: boolean;
+  completed_at?: string | null;
+  created_at: string;
+  updated_at?: string;
+  client?: Pick<Client, 'id' | 'name' | 'business_name' | 'deleted_at'> | null;
+}
+
+// One entry in the notes log of a client, payment or visit
+export interface Note {
+  id: string;
+  entity_type: 'client' | 'payment' | 'visit';
+  entity_id: string;
+  parent_id?: string | null; // set for replies
+  body: string;
+  mentions: string[]; // emails of mentioned admins
+  pinned: boolean;
+  author_id?: string | null; // null for notes carried over from the old notes fields
+  author_email?: string | null;
+  created_at: string;
+  edited_at?: string | null;
+  pending_sync?: boolean; // Added offline; still in the sync queue
+}
+
+export interface NoteRevision {
+  id: string;
+  note_id: string;
+  body: string; // the note as it read before this edit
+  edited_by?: string | null;
+  edited_by_email?: string | null;
+  revised_at: string;
+}
+
+export interface AdminUser {
+  id: string;
+  email: string;
+}
+
+// Admin-defined client field; values are stored on the client under `key`
+export interface CustomFieldDefinition {
+  id: string;
+  key: string;
+  label: string;
+  field_type: 'text' | 'number' | 'select' | 'date' | 'boolean';
+  options: string[]; // Choices for select fields
+  required: boolean;
+  position: number;
+  created_at: string;
+  updated_at?: string;
+}
+
+export type CustomFieldValue = string | number | boolean | null;
+
+// File attached to a client; the file itself is in the client-attachments storage bucket
+export interface ClientAttachment {
+  id: string;
+  client_id: string;
+  kind: 'photo' | 'logo' | 'contract' | 'faq' | 'other';
+  file_name: string;
+  storage_path: string;
+  thumbnail_path?: string | null; // Images only
+  mime_type?: string | null;
+  size_bytes?: number | null;
+  width?: number | null;
+  height?: number | null;
+  uploaded_by?: string | null;
+  uploaded_by_email?: string | null;
+  created_at: string;
+}
+
+// MRR movements for one month (all amounts monthly, normalized from yearly plans)
+export interface MRRWaterfallMonth {
+  month: string; // YYYY-MM
+  startingMRR: number;
+  newMRR: number;
+  expansionMRR: number;
+  contractionMRR: number;
+  churnedMRR: number;
+  reactivatedMRR: number;
+  endingMRR: number;
+}
+
+// Net revenue retention for clients who started paying in the same month
+export interface CohortRetention {
+  cohort: string; // YYYY-MM
+  clientCount: number;
+  startingMRR: number;
+  retention: (number | null)[]; // NRR after each offset in COHORT_RETENTION_OFFSETS; null if not reached yet
+}
+
+export interface PlanPeriod {
+  plan: string;
+  label: string;
+  price: number;
+  start: string;
+  end?: string; // exclusive; open-ended for the current plan
+  change?: PlanChange;
 }
 
 export interface Visit {
@@ -85,11 +305,41 @@ export interface BusinessVisit {
   client_id?: string; // Optional - visits can be made without client assignment
   client?: Client;
   location: string | null; // Can be null in some cases
-  latitude?: number; // Optional for backward compatibility
-  longitude?: number; // Optional for backward compatibility
+  latitude?: number | null; // Missing on visits logged before territories (see getVisitCoordinates)
+  longitude?: number | null;
   timestamp?: string; // Optional for backward compatibility
   notes?: string;
   created_at?: string;
+  deleted_at?: string | null; // Set while the visit is in the Trash
+  prospect_id?: string | null; // Business visited before it became a client
+  // Structured location; location keeps the "Business - Address (lat, lng)" display string
+  business_name?: string | null;
+  street?: string | null;
+  city?: string | null;
+  region?: string | null;
+  postal_code?: string | null;
+  country?: string | null;
+  pending_sync?: boolean; // Logged offline; still in the sync queue
+}
+
+// Business visited door to door that hasn't signed up yet; becomes a client when it converts
+export interface Prospect {
+  id: string;
+  business_name: string;
+  address?: string | null;
+  latitude?: number | null;
+  longitude?: number | null;
+  contact_name?: string | null;
+  contact_phone?: string | null;
+  contact_email?: string | null;
+  stage: 'visited' | 'interested' | 'follow_up' | 'signed' | 'rejected';
+  next_action_date?: string | null; // YYYY-MM-DD
+  notes?: string | null;
+  client_id?: string | null; // Set when the prospect converts
+  converted_at?: string | null;
+  last_visited_at?: string | null;
+  created_at: string;
+  updated_at?: string;
 }
 
 // Legacy interface for compatibility
@@ -114,6 +364,7 @@ export interface Goal {
   created_at: string;
   updated_at?: string;
   current_progress?: number; // calculated field for progress tracking
+  deleted_at?: string | null; // Set while the goal is in the Trash
   // Legacy fields for backward compatibility (will be removed)
   metric?: 'clients';
   client_id?: string;
@@ -122,7 +373,7 @@ export interface Goal {
 
 export interface NotificationData {
   id: string;
-  type: 'onboarding' | 'payment' | 'goal' | 'client_status' | 'client_added' | 'payment_received' | 'visit_logged' | 'goal_reached';
+  type: 'onboarding' | 'payment' | 'goal' | 'client_status' | 'client_added' | 'payment_received' | 'visit_logged' | 'goal_reached' | 'payment_overdue';
   title: string;
   body: string;
   data?: Record<string, any>;
@@ -161,6 +412,14 @@ export interface DashboardStats {
   weekRevenue: number;
   monthRevenue: number;
   yearRevenue: number;
+  currency: string; // Revenue figures are converted to this base currency
+  revenueBreakdown: {
+    total: RevenueBreakdown;
+    today: RevenueBreakdown;
+    week: RevenueBreakdown;
+    month: RevenueBreakdown;
+    year: RevenueBreakdown;
+  };
   newSubmissions: number;
   activeGoals: number;
   recentVisits: number;
@@ -205,7 +464,7 @@ export interface ClientFormData {
   faq_location?: string;
   consent_to_share?: boolean;
   
-  // Login credentials (conditional on platform selection)
+  // Login credentials (conditional on platform selection); encrypted into the vault on save, never stored on the client
   instagram_password?: string;
   facebook_password?: string;
   tiktok_password?: string;
@@ -220,6 +479,10 @@ export interface ClientFormData {
   
   // Photo upload
   photo_url?: string;
+
+  // Tags and custom field inputs as typed (converted per field type on save)
+  tags?: string[];
+  custom_fields?: Record<string, string>;
 }
 
 // Goal creation form data
@@ -236,11 +499,13 @@ export interface GoalFormData {
 export interface PaymentFormData {
   client_id: string;
   amount: string; // Form input as string, converted to number on submission
+  amount_owed?: string; // Optional; more than amount records a partial payment
   status: Payment['status'];
   payment_date: string;
   description?: string;
   payment_method?: string;
   notes?: string;
+  currency?: string;
 }
 
 // Visit form data
@@ -252,6 +517,46 @@ export interface VisitFormData {
   notes?: string;
 }
 
+// Task form data
+export interface TaskFormData {
+  title: string;
+  notes?: string;
+  due_date: string; // YYYY-MM-DD
+  due_time: string; // HH:MM, 24-hour
+  assignee_email?: string;
+  client_id?: string;
+  visit_id?: string;
+  payment_id?: string;
+}
+
+export interface ProspectFormData {
+  business_name: string;
+  address?: string;
+  contact_name?: string;
+  contact_phone?: string;
+  contact_email?: string;
+  stage: Prospect['stage'];
+  next_action_date?: string; // YYYY-MM-DD
+  notes?: string;
+}
+
+// Area of the map assigned to a rep; visits inside the boundary count towards it
+export interface Territory {
+  id: string;
+  name: string;
+  color: string;
+  boundary: { latitude: number; longitude: number }[]; // Polygon in drawing order, at least 3 points
+  assignee_email?: string | null; // null = not assigned to anyone
+  created_at: string;
+  updated_at?: string;
+}
+
+export interface TerritoryFormData {
+  name: string;
+  color: string;
+  assignee_email?: string;
+}
+
 // Filter and search types
 export interface ClientFilters {
   status?: Client['status'] | 'all';
@@ -278,17 +583,30 @@ export interface GoalFilters {
 
 // Phase 7: Monetization and activity tracking types
 export interface PlanInfo {
-  name: 'starter' | 'pro';
+  id?: string;
+  name: string; // Stable key stored on clients.plan
+  label: string;
   price: number;
+  billing_interval: 'month' | 'year';
+  currency?: string; // ISO 4217 code; defaults to USD
   features: string[];
+  platforms?: NonNullable<Client['platform_preference']>[]; // Platforms the plan covers; all when empty
+  requires_payment_method?: boolean; // Clients on this plan must have a payment method on file
+  archived: boolean;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface PlanRevenue {
+  plan: string;
+  label: string;
+  count: number;
+  revenue: number;
 }
 
 export interface RevenueStats {
   totalRevenue: number;
-  starterRevenue: number;
-  proRevenue: number;
-  starterCount: number;
-  proCount: number;
+  planBreakdown: PlanRevenue[];
   paidCount: number;
   unpaidCount: number;
   overdueCount: number;
@@ -296,7 +614,7 @@ export interface RevenueStats {
 
 export interface ActivityLogEntry {
   id: string;
-  type: 'plan_change' | 'payment_status' | 'in_person_signup' | 'client_created';
+  type: 'plan_change' | 'payment_status' | 'status_change' | 'in_person_signup' | 'client_created' | 'payment_reminder';
   description: string;
   client_id?: string;
   client_name?: string;
@@ -304,10 +622,90 @@ export interface ActivityLogEntry {
   data?: Record<string, any>;
 }
 
+// A dunning reminder that has gone out, one per invoice and reminder stage
+export interface DunningReminder {
+  client_id: string;
+  invoice_id: string | null; // null for a client who has never been invoiced
+  due_date: string;
+  reminder_stage: number;
+}
+
 export interface InPersonSubmission {
   id: string;
   form_data: ClientFormData;
   submitted_at: string;
   converted_to_client: boolean;
   client_id?: string;
-}
\ No newline at end of file
+}
+
+// Writes captured while Supabase couldn't be reached, replayed in order by useSyncQueue.
+// Ids for the new rows are generated on the device, so a replay whose response was lost
+// finds its row instead of inserting it twice
+export interface VisitSyncPayload {
+  id: string;
+  client_id: string | null;
+  prospect_id: string | null; // The prospect picked; otherwise matched or created when it syncs
+  latitude: number;
+  longitude: number;
+  business_name: string | null;
+  street: string | null;
+  city: string | null;
+  region: string | null;
+  postal_code: string | null;
+  country: string | null;
+  created_at: string; // When it was logged, not when it synced
+}
+
+export interface NoteSyncPayload {
+  id: string;
+  entity_type: Note['entity_type'];
+  entity_id: string;
+  parent_id: string | null;
+  body: string;
+  mentions: string[];
+  author_id: string | null;
+  author_email: string | null;
+  created_at: string;
+}
+
+// Converting an in-person submission to a client; the form data is read from the submission when it syncs
+export interface SignupSyncPayload {
+  client_id: string;
+  submission_id: string;
+  name: string;
+  use_existing_client?: boolean; // Set when a conflict is resolved by linking a client with the same email
+}
+
+export interface SyncConflict {
+  reason: string;
+  // Payload changes that let the item go through, e.g. dropping a client that was deleted
+  resolution?: { label: string; changes: Record<string, any> };
+}
+
+interface SyncQueueItemBase {
+  id: string;
+  created_at: string;
+  status: 'pending' | 'failed' | 'conflict';
+  attempts: number;
+  last_error?: string | null;
+  last_attempt_at?: string | null;
+  conflict?: SyncConflict | null;
+}
+
+export type SyncQueueItem =
+  | (SyncQueueItemBase & { kind: 'visit'; payload: VisitSyncPayload })
+  | (SyncQueueItemBase & { kind: 'note'; payload: NoteSyncPayload })
+  | (SyncQueueItemBase & { kind: 'signup'; payload: SignupSyncPayload });
+
+// A soft-deleted record shown in the Trash screen
+export interface TrashItem {
+  id: string;
+  type: 'client' | 'payment' | 'visit' | 'goal';
+  title: string;
+  subtitle?: string;
+  deleted_at: string;
+  client_id?: string | null;
+  client_name?: string | null;
+  invoice_ids?: string[]; // payments only: invoices it was applied to, so they can be re-settled
+  related_count?: number; // clients only: records trashed along with the client
+}
@@ -0,0 +1,39 @@
+import { parseCsv, toCsv } from '../csv';
+
+describe('toCsv', () => {
+  it('quotes cells that need it and guards formula-like text', () => {
+    const csv = toCsv(
+      [{ name: 'Acme, Inc.', note: 'Said "hi"', phone: '+1 555', active: true }],
+      [
+        { header: 'Name', value: item => item.name },
+        { header: 'Note', value: item => item.note },
+        { header: 'Phone', value: item => item.phone },
+        { header: 'Active', value: item => item.active },
+      ]
+    );
+
+    expect(csv).toBe('Name,Note,Phone,Active\r\n"Acme, Inc.","Said ""hi""",\'+1 555,yes');
+  });
+});
+
+describe('parseCsv', () => {
+  it('handles quoted cells, escaped quotes and line breaks inside quotes', () => {
+    expect(parseCsv('\uFEFFName,Note\r\n"Acme, Inc.","Line one\nSaid ""hi"""\r\n\r\nBolt,\n')).toEqual([
+      ['Name', 'Note'],
+      ['Acme, Inc.', 'Line one\nSaid "hi"'],
+      ['Bolt', ''],
+    ]);
+  });
+
+  it('detects tab and semicolon delimiters from the first line', () => {
+    expect(parseCsv('Name\tEmail\nAcme\ta@b.co')).toEqual([['Name', 'Email'], ['Acme', 'a@b.co']]);
+    expect(parseCsv('Name;Amount\nAcme;1,50')).toEqual([['Name', 'Amount'], ['Acme', '1,50']]);
+  });
+
+  it('reads back what toCsv writes', () => {
+    const items = [{ name: 'Acme, "the best"' }, { name: 'Multi\nline' }];
+    const csv = toCsv(items, [{ header: 'Name', value: item => item.name }]);
+
+    expect(parseCsv(csv).slice(1)).toEqual([['Acme, "the best"'], ['Multi\nline']]);
+  });
+});
@@ -0,0 +1,145 @@
+import {
+  CLIENT_IMPORT_FIELDS,
+  PAYMENT_IMPORT_FIELDS,
+  autoMapColumns,
+  buildClientImportRows,
+  buildPaymentImportRows,
+  getUnmappedRequiredFields,
+} from '../csvImport';
+import { client, pro, starter } from './fixtures';
+
+// A label unlike the plan name, so matching by label is tested
+const plans = [starter, { ...pro, label: 'Pro Plus' }];
+
+const existingClients = [
+  client({ name: 'Acme Bakery', email: 'hello@acme.com', business_name: 'Acme' }),
+  client({ id: 'client-2', name: 'Bolt Coffee', email: 'bolt@example.com' }),
+];
+
+const CLIENT_HEADERS = ['Full Name', 'E-mail', 'Mobile', 'Plan', 'Platform', 'Delivery', 'Status', 'Instagram', 'In Person'];
+
+const clientRow = (overrides: Partial<Record<string, string>> = {}): string[] => {
+  const values: Record<string, string> = {
+    name: 'Crest Florist',
+    email: 'Crest@Example.com',
+    phone: '+1 555 123 4567',
+    plan: 'starter',
+    platform: 'Instagram',
+    delivery: 'pickup',
+    status: '',
+    instagram: '@crestflowers',
+    inPerson: 'yes',
+    ...overrides,
+  };
+  return [values.name, values.email, values.phone, values.plan, values.platform, values.delivery, values.status, values.instagram, values.inPerson];
+};
+
+describe('autoMapColumns', () => {
+  it('matches headers by field name or alias, using each column once', () => {
+    const mapping = autoMapColumns(CLIENT_HEADERS, CLIENT_IMPORT_FIELDS);
+
+    expect(mapping).toEqual(expect.objectContaining({
+      name: 0,
+      email: 1,
+      phone: 2,
+      plan: 3,
+      platform_preference: 4,
+      delivery_preference: 5,
+      status: 6,
+      instagram_handle: 7,
+      signed_in_person: 8,
+      notes: null,
+    }));
+    expect(getUnmappedRequiredFields(CLIENT_IMPORT_FIELDS, mapping)).toEqual([]);
+  });
+
+  it('prefers exact field names over another field\'s alias', () => {
+    const mapping = autoMapColumns(['Email', 'Client Email', 'Amount', 'Date'], PAYMENT_IMPORT_FIELDS);
+
+    expect(mapping.client_email).toBe(1);
+    expect(mapping.payment_date).toBe(3);
+  });
+
+  it('lists required fields left without a column', () => {
+    const mapping = autoMapColumns(['Amount'], PAYMENT_IMPORT_FIELDS);
+
+    expect(getUnmappedRequiredFields(PAYMENT_IMPORT_FIELDS, mapping).map(field => field.key)).toEqual(['payment_date']);
+  });
+});
+
+describe('buildClientImportRows', () => {
+  const mapping = autoMapColumns(CLIENT_HEADERS, CLIENT_IMPORT_FIELDS);
+
+  it('normalizes values into client form data', () => {
+    const [row] = buildClientImportRows([clientRow({ plan: 'Pro Plus' })], mapping, plans, existingClients);
+
+    expect(row.errors).toEqual([]);
+    expect(row.rowNumber).toBe(2);
+    expect(row.data).toEqual(expect.objectContaining({
+      email: 'crest@example.com',
+      status: 'active',
+      plan: 'pro',
+      platform_preference: 'instagram',
+      delivery_preference: 'pickup',
+      instagram_handle: 'crestflowers',
+      signed_in_person: true,
+    }));
+  });
+
+  it('reports unknown plans and invalid options', () => {
+    const [row] = buildClientImportRows([clientRow({ plan: 'gold', status: 'On Hold' })], mapping, plans, existingClients);
+
+    expect(row.errors).toEqual(expect.arrayContaining([
+      'Unknown plan "gold"',
+      'Status must be one of: active, in_progress, paused, cancelled',
+    ]));
+  });
+
+  it('rejects emails already in use or repeated in the file', () => {
+    const rows = buildClientImportRows(
+      [clientRow({ email: 'hello@acme.com' }), clientRow(), clientRow({ email: 'crest@example.com' })],
+      mapping,
+      plans,
+      existingClients
+    );
+
+    expect(rows[0].errors).toContain('A client with this email already exists');
+    expect(rows[1].errors).toEqual([]);
+    expect(rows[2].errors).toContain('Email appears more than once in this file');
+  });
+
+  it('strips the quote exports put in front of formula-like text', () => {
+    const [row] = buildClientImportRows([clientRow({ phone: '\'+1 555 123 4567' })], mapping, plans, existingClients);
+
+    expect(row.data.phone).toBe('+1 555 123 4567');
+  });
+});
+
+describe('buildPaymentImportRows', () => {
+  const mapping = autoMapColumns(['Client Email', 'Client', 'Amount', 'Date', 'Currency'], PAYMENT_IMPORT_FIELDS);
+
+  it('matches clients by email, then by name or business name', () => {
+    const rows = buildPaymentImportRows([
+      ['HELLO@ACME.COM', '', '$1,250.00', '2024-05-03', ''],
+      ['', 'acme', '10', '2024-05-03', ''],
+      ['', 'Nobody', '10', '2024-05-03', ''],
+    ], mapping, existingClients, 'USD');
+
+    expect(rows[0].data).toEqual(expect.objectContaining({ client_id: 'client-1', amount: '1250.00', currency: 'USD', status: 'confirmed' }));
+    expect(rows[1].data.client_id).toBe('client-1');
+    expect(rows[2].errors).toContain('No client found for "Nobody"');
+  });
+
+  it('stores dates as YYYY-MM-DD whatever format the file used', () => {
+    const [row] = buildPaymentImportRows([['bolt@example.com', '', '10', 'May 3, 2024', 'eur']], mapping, existingClients, 'USD');
+
+    expect(row.data.payment_date).toBe('2024-05-03');
+    expect(row.data.currency).toBe('EUR');
+  });
+
+  it('requires a client email or name', () => {
+    const [row] = buildPaymentImportRows([['', '', '10', '2024-05-03', '']], mapping, existingClients, 'USD');
+
+    expect(row.errors).toContain('Client email or name is required');
+  });
+});
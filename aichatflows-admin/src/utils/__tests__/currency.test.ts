@@ -0,0 +1,63 @@
+import {
+  DEFAULT_EXCHANGE_RATES,
+  convertAmount,
+  formatForeignTotals,
+  formatMoney,
+  getCurrency,
+  toBaseAmount,
+} from '../currency';
+import { payment } from './fixtures';
+
+const toDollars = { baseCurrency: 'USD', rates: DEFAULT_EXCHANGE_RATES };
+
+describe('getCurrency', () => {
+  it('treats rows from before multi-currency as USD', () => {
+    expect(getCurrency({})).toBe('USD');
+    expect(getCurrency({ currency: null })).toBe('USD');
+    expect(getCurrency({ currency: 'eur' })).toBe('EUR');
+  });
+});
+
+describe('convertAmount', () => {
+  it('converts through the dollar value of each currency, to the cent', () => {
+    expect(convertAmount(100, 'EUR', 'USD', DEFAULT_EXCHANGE_RATES)).toBe(108);
+    expect(convertAmount(100, 'GBP', 'CAD', DEFAULT_EXCHANGE_RATES)).toBe(173.97);
+    expect(convertAmount(100, 'USD', 'USD', {})).toBe(100);
+  });
+
+  it('leaves the amount as it was when a rate is missing', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(convertAmount(100, 'JPY', 'USD', DEFAULT_EXCHANGE_RATES)).toBe(100);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('JPY'));
+    warn.mockRestore();
+  });
+});
+
+describe('toBaseAmount', () => {
+  it('converts a payment only when given a base currency', () => {
+    const euros = payment({ amount: 50, currency: 'EUR' });
+
+    expect(toBaseAmount(euros, toDollars)).toBe(54);
+    expect(toBaseAmount(euros)).toBe(50);
+    expect(toBaseAmount(payment(), toDollars)).toBe(100);
+  });
+});
+
+describe('formatMoney', () => {
+  it('formats in the given currency, with dollars by default', () => {
+    expect(formatMoney(1234.5)).toBe('$1,234.50');
+    expect(formatMoney(50, 'EUR')).toBe('€50.00');
+    expect(formatMoney(1234.5, 'GBP', 0)).toBe('£1,235');
+  });
+
+  it('still shows amounts in codes it cannot format', () => {
+    expect(formatMoney(5, 'DOLLARS')).toBe('DOLLARS 5.00');
+  });
+});
+
+describe('formatForeignTotals', () => {
+  it('lists the non-base currencies that have money in them', () => {
+    expect(formatForeignTotals({ USD: 500, EUR: 120, GBP: 0, CAD: 80 }, 'USD')).toBe('€120 · CA$80');
+  });
+});
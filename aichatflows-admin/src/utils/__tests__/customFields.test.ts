@@ -0,0 +1,111 @@
+import { CustomFieldDefinition } from '../../types';
+import {
+  CUSTOM_FILTER_PREFIX,
+  TAG_FILTER_ID,
+  formatCustomFieldValue,
+  getCustomFieldValues,
+  matchesCustomFieldFilter,
+  parseCustomFieldInput,
+  parseTags,
+  toFieldKey,
+} from '../customFields';
+import { validateCustomFields } from '../validation';
+import { client } from './fixtures';
+
+const field = (overrides: Partial<CustomFieldDefinition> = {}): CustomFieldDefinition => ({
+  id: 'field-1',
+  key: 'lead_source',
+  label: 'Lead Source',
+  field_type: 'text',
+  options: [],
+  required: false,
+  position: 0,
+  created_at: '2024-05-01T12:00:00Z',
+  ...overrides,
+});
+
+const employees = field({ key: 'employees', label: 'Employees', field_type: 'number' });
+const renewal = field({ key: 'renewal', label: 'Renewal', field_type: 'date' });
+const size = field({ key: 'size', label: 'Size', field_type: 'select', options: ['Small', 'Large'] });
+const wholesale = field({ key: 'wholesale', label: 'Wholesale', field_type: 'boolean', required: true });
+
+describe('toFieldKey', () => {
+  it('turns a label into a snake_case key', () => {
+    expect(toFieldKey('  Lead Source ')).toBe('lead_source');
+    expect(toFieldKey('# of Employees?')).toBe('of_employees');
+  });
+});
+
+describe('parseTags', () => {
+  it('normalizes tags and drops empty and repeated ones', () => {
+    expect(parseTags('VIP, #wholesale,, vip ,  early   adopter')).toEqual(['vip', 'wholesale', 'early adopter']);
+  });
+});
+
+describe('validateCustomFields', () => {
+  it('requires answers to required fields, except yes/no ones', () => {
+    const { errors } = validateCustomFields([field({ required: true }), wholesale], { lead_source: '  ' });
+
+    expect(errors).toEqual({ custom_lead_source: 'Lead Source is required' });
+  });
+
+  it('checks each input against its field type', () => {
+    const { isValid, errors } = validateCustomFields([employees, renewal, size, field()], {
+      employees: 'twelve',
+      renewal: '2024-13-01',
+      size: 'small',
+      lead_source: 'x'.repeat(501),
+    });
+
+    expect(isValid).toBe(false);
+    expect(errors).toEqual({
+      custom_employees: 'Employees must be a number',
+      custom_renewal: 'Enter the date as YYYY-MM-DD',
+      custom_size: 'Choose one of the Size options',
+      custom_lead_source: 'Lead Source cannot exceed 500 characters',
+    });
+  });
+
+  it('accepts valid answers and leaves optional fields blank', () => {
+    const result = validateCustomFields([employees, renewal, size, field()], { employees: '12', renewal: '2024-06-30', size: 'Small' });
+
+    expect(result).toEqual({ isValid: true, errors: {} });
+  });
+});
+
+describe('parseCustomFieldInput', () => {
+  it('stores each type as its own kind of value', () => {
+    expect(parseCustomFieldInput(employees, ' 12 ')).toBe(12);
+    expect(parseCustomFieldInput(wholesale, 'true')).toBe(true);
+    expect(parseCustomFieldInput(renewal, '2024-06-30')).toBe('2024-06-30');
+    expect(parseCustomFieldInput(renewal, '30/06/2024')).toBeNull();
+    expect(parseCustomFieldInput(field(), '')).toBeNull();
+  });
+});
+
+describe('getCustomFieldValues', () => {
+  it('removes cleared answers and keeps values of deleted fields', () => {
+    const values = getCustomFieldValues([field(), employees], { lead_source: '', employees: '8' }, { lead_source: 'Referral', old_field: 'kept' });
+
+    expect(values).toEqual({ employees: 8, old_field: 'kept' });
+  });
+});
+
+describe('formatCustomFieldValue', () => {
+  it('shows yes/no answers as words and leaves blanks empty', () => {
+    expect(formatCustomFieldValue(wholesale, false)).toBe('No');
+    expect(formatCustomFieldValue(wholesale, true)).toBe('Yes');
+    expect(formatCustomFieldValue(field(), null)).toBe('');
+  });
+});
+
+describe('matchesCustomFieldFilter', () => {
+  it('needs every selected tag, and counts unanswered yes/no fields as no', () => {
+    const tagged = client({ tags: ['vip', 'wholesale'], custom_fields: {} });
+
+    expect(matchesCustomFieldFilter(tagged, TAG_FILTER_ID, ['vip', 'wholesale'])).toBe(true);
+    expect(matchesCustomFieldFilter(tagged, TAG_FILTER_ID, ['vip', 'retail'])).toBe(false);
+    expect(matchesCustomFieldFilter(tagged, `${CUSTOM_FILTER_PREFIX}wholesale`, [false])).toBe(true);
+    expect(matchesCustomFieldFilter(tagged, 'status', ['paused'])).toBe(true);
+  });
+});
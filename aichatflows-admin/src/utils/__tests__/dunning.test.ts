@@ -0,0 +1,122 @@
+import {
+  buildDunningReport,
+  evaluateDunning,
+  getDaysLate,
+  getNextDueDate,
+  getReminderKey,
+  getReminderStage,
+  getSentReminderKey,
+  toDunningReminder,
+} from '../dunning';
+import { client, invoice, payment, plans } from './fixtures';
+
+describe('getDaysLate', () => {
+  it('counts whole calendar days, negative before the due date', () => {
+    const due = new Date(2024, 4, 8);
+
+    expect(getDaysLate(due, new Date(2024, 4, 8, 23, 59))).toBe(0);
+    expect(getDaysLate(due, new Date(2024, 4, 11, 0, 1))).toBe(3);
+    expect(getDaysLate(due, new Date(2024, 4, 6))).toBe(-2);
+  });
+});
+
+describe('getReminderStage', () => {
+  it('returns the latest reminder day reached', () => {
+    expect(getReminderStage(2)).toBeNull();
+    expect(getReminderStage(3)).toBe(3);
+    expect(getReminderStage(10)).toBe(7);
+    expect(getReminderStage(40)).toBe(14);
+  });
+});
+
+describe('getNextDueDate', () => {
+  it('sums every open balance and dates it from the oldest unpaid invoice', () => {
+    const invoices = [
+      invoice({ id: 'june', period_start: '2024-06-01', due_date: '2024-06-08' }),
+      invoice(),
+    ];
+    const next = getNextDueDate(client(), invoices, [payment({ amount: 40, allocations: [{ invoice_id: 'invoice-1', amount: 40 }] })], plans);
+
+    expect(next?.invoiceId).toBe('invoice-1');
+    expect(next?.amountDue).toBe(160);
+    expect(next?.dueDate).toEqual(new Date(2024, 4, 8));
+  });
+
+  it('totals open balances in the oldest invoice\'s currency', () => {
+    const invoices = [
+      invoice({ id: 'june', period_start: '2024-06-01', due_date: '2024-06-08', total: 108, currency: 'USD' }),
+      invoice({ currency: 'EUR' }),
+    ];
+    const next = getNextDueDate(client(), invoices, [], plans, { USD: 1, EUR: 1.08 });
+
+    expect(next?.amountDue).toBe(200);
+    expect(next?.currency).toBe('EUR');
+  });
+
+  it('bills a never-invoiced client one payment-terms period after signup', () => {
+    const next = getNextDueDate(client({ created_at: '2024-05-01T12:00:00' }), [], [], plans);
+
+    expect(next).toEqual({ dueDate: new Date(2024, 4, 8), amountDue: 100, currency: 'USD' });
+  });
+
+  it('owes nothing once every invoice is paid', () => {
+    expect(getNextDueDate(client(), [invoice({ status: 'paid' })], [], plans)).toBeNull();
+  });
+});
+
+describe('evaluateDunning', () => {
+  it('flags a client overdue only after the grace period', () => {
+    const invoices = [invoice()];
+
+    expect(evaluateDunning(client(), invoices, [], plans, 3, new Date(2024, 4, 11))?.isOverdue).toBe(false);
+    expect(evaluateDunning(client(), invoices, [], plans, 3, new Date(2024, 4, 12))).toEqual(
+      expect.objectContaining({ isOverdue: true, daysLate: 4, reminderStage: 3, amountDue: 100 })
+    );
+  });
+
+  it('skips cancelled clients', () => {
+    expect(evaluateDunning(client({ status: 'cancelled' }), [invoice()], [], plans, 3, new Date(2024, 5, 1))).toBeNull();
+  });
+});
+
+describe('buildDunningReport', () => {
+  it('lists late clients, most late first', () => {
+    const clients = [client(), client({ id: 'client-2', name: 'Bolt' }), client({ id: 'client-3', name: 'Crest' })];
+    const invoices = [
+      invoice(),
+      invoice({ id: 'invoice-2', client_id: 'client-2', due_date: '2024-05-01' }),
+      invoice({ id: 'invoice-3', client_id: 'client-3', due_date: '2024-05-30' }),
+    ];
+    const report = buildDunningReport(clients, invoices, [], plans, 3, new Date(2024, 4, 20));
+
+    expect(report.map(status => status.client.id)).toEqual(['client-2', 'client-1']);
+  });
+});
+
+describe('getReminderKey', () => {
+  it('identifies one reminder stage for one invoice', () => {
+    const status = evaluateDunning(client(), [invoice()], [], plans, 3, new Date(2024, 4, 16));
+    if (!status) throw new Error('Expected a dunning status');
+
+    expect(getReminderKey(status)).toBe('dunning_client-1_invoice-1_7');
+    expect(getReminderKey({ ...status, reminderStage: null })).toBeNull();
+  });
+});
+
+describe('toDunningReminder', () => {
+  it('records the invoice and stage, with the same key once it has been sent', () => {
+    const status = evaluateDunning(client(), [invoice()], [], plans, 3, new Date(2024, 4, 16));
+    if (!status) throw new Error('Expected a dunning status');
+    const reminder = toDunningReminder(status);
+
+    expect(reminder).toEqual({ client_id: 'client-1', invoice_id: 'invoice-1', due_date: '2024-05-08', reminder_stage: 7 });
+    expect(reminder && getSentReminderKey(reminder)).toBe(getReminderKey(status));
+  });
+
+  it('keys a never-invoiced client by their due date', () => {
+    const status = evaluateDunning(client({ created_at: '2024-05-01T12:00:00' }), [], [], plans, 3, new Date(2024, 4, 16));
+    if (!status) throw new Error('Expected a dunning status');
+
+    expect(toDunningReminder(status)).toEqual(expect.objectContaining({ invoice_id: null, due_date: '2024-05-08' }));
+  });
+});
@@ -0,0 +1,108 @@
+import { Client } from '../../types';
+import {
+  findDuplicateClients,
+  getDefaultCustomFieldMerge,
+  getDefaultMergeValues,
+  getMergedTags,
+  getPairKey,
+  normalizeHandle,
+  normalizePhone,
+  scoreClientPair,
+} from '../duplicates';
+import { client as baseClient } from './fixtures';
+
+const client = (overrides: Partial<Client> = {}): Client => baseClient({
+  name: 'Jane Doe',
+  email: 'jane@example.com',
+  phone: '',
+  ...overrides,
+});
+
+describe('normalizePhone', () => {
+  it('reads the same US number the same way however it was typed', () => {
+    expect(normalizePhone('+1 555 010 2000')).toBe(normalizePhone('(555) 010-2000'));
+    expect(normalizePhone('15550102000')).toBe(normalizePhone('555.010.2000'));
+  });
+});
+
+describe('normalizeHandle', () => {
+  it('drops the @, the profile URL and trailing slashes', () => {
+    expect(normalizeHandle('@Jane.Doe')).toBe('jane.doe');
+    expect(normalizeHandle('https://www.instagram.com/jane.doe/')).toBe('jane.doe');
+  });
+});
+
+describe('scoreClientPair', () => {
+  it('treats an identical email as conclusive', () => {
+    const { score, matchedFields } = scoreClientPair(client(), client({ id: 'client-2', name: 'J. Smith', email: 'JANE@example.com ' }));
+
+    expect(score).toBe(1);
+    expect(matchedFields).toEqual(['Email']);
+  });
+
+  it('combines independent weaker matches', () => {
+    const a = client({ email: 'jane@work.com', phone: '+1 555 010 2000', name: 'Jane Doe' });
+    const b = client({ id: 'client-2', email: 'jane@home.com', phone: '(555) 010-2000', name: 'Jane  Doe' });
+    const { score, matchedFields } = scoreClientPair(a, b);
+
+    expect(matchedFields).toEqual(['Phone', 'Name']);
+    expect(score).toBeCloseTo(1 - (1 - 0.9) * (1 - 0.75), 5);
+  });
+
+  it('ignores fields either client left empty', () => {
+    const { score, matchedFields } = scoreClientPair(
+      client({ email: 'a@example.com', phone: '' }),
+      client({ id: 'client-2', name: 'Someone Else', email: 'b@example.com', phone: '' })
+    );
+
+    expect(score).toBe(0);
+    expect(matchedFields).toEqual([]);
+  });
+});
+
+describe('findDuplicateClients', () => {
+  const clients = [
+    client(),
+    client({ id: 'client-2', email: 'JANE@example.com' }),
+    client({ id: 'client-3', name: 'Bolt Coffee', email: 'bolt@example.com' }),
+  ];
+
+  it('lists pairs over the threshold', () => {
+    const pairs = findDuplicateClients(clients);
+
+    expect(pairs).toHaveLength(1);
+    expect(pairs[0].key).toBe('client-1:client-2');
+  });
+
+  it('skips dismissed pairs whichever order they were stored in', () => {
+    expect(findDuplicateClients(clients, [getPairKey(clients[1], clients[0])])).toEqual([]);
+  });
+});
+
+describe('merge defaults', () => {
+  const survivor = client({
+    phone: '',
+    business_name: 'Jane\'s Bakes',
+    tags: ['vip', 'wholesale'],
+    custom_fields: { lead_source: 'referral' },
+  });
+  const duplicate = client({
+    id: 'client-2',
+    phone: '+1 555 010 2000',
+    business_name: 'Jane Bakery',
+    tags: ['Wholesale', 'market'],
+    custom_fields: { lead_source: 'walk-in', employees: 4 },
+  });
+
+  it('keeps the survivor\'s values and fills gaps from the duplicate', () => {
+    expect(getDefaultMergeValues(survivor, duplicate)).toEqual(expect.objectContaining({
+      business_name: 'Jane\'s Bakes',
+      phone: '+1 555 010 2000',
+    }));
+    expect(getDefaultCustomFieldMerge(survivor, duplicate)).toEqual({ lead_source: 'referral', employees: 4 });
+  });
+
+  it('keeps every tag of both records once', () => {
+    expect(getMergedTags(survivor, duplicate)).toEqual(['vip', 'wholesale', 'market']);
+  });
+});
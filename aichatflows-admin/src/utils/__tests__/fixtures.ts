@@ -0,0 +1,41 @@
+import { Client, Invoice, Payment, PlanInfo } from '../../types';
+
+// Shared test data: an active client who signed up on the starter plan in March 2024,
+// with an open May invoice and a payment against it. Override what a test depends on.
+
+export const starter: PlanInfo = { name: 'starter', label: 'Starter', price: 100, billing_interval: 'month', features: [], archived: false };
+export const pro: PlanInfo = { name: 'pro', label: 'Pro', price: 200, billing_interval: 'month', features: [], archived: false };
+export const annual: PlanInfo = { name: 'annual', label: 'Annual', price: 1200, billing_interval: 'year', features: [], archived: false };
+export const plans = [starter, pro, annual];
+
+export const client = (overrides: Partial<Client> = {}): Client => ({
+  id: 'client-1',
+  name: 'Acme',
+  email: 'acme@example.com',
+  status: 'active',
+  plan: 'starter',
+  created_at: '2024-03-10T12:00:00',
+  ...overrides,
+} as Client);
+
+export const invoice = (overrides: Partial<Invoice> = {}): Invoice => ({
+  id: 'invoice-1',
+  client_id: 'client-1',
+  period_start: '2024-05-01',
+  period_end: '2024-05-31',
+  due_date: '2024-05-08',
+  status: 'open',
+  line_items: [],
+  total: 100,
+  created_at: '2024-05-01T00:00:00Z',
+  ...overrides,
+});
+
+export const payment = (overrides: Partial<Payment> = {}): Payment => ({
+  id: 'payment-1',
+  client_id: 'client-1',
+  amount: 100,
+  status: 'confirmed',
+  payment_date: '2024-05-03',
+  ...overrides,
+});
@@ -0,0 +1,121 @@
+import { BusinessVisit, ClientEvent, Invoice, Payment } from '../../types';
+import { HealthData, HealthFactor, HealthWeights, calculateHealthScore, getHealthLevel } from '../healthScore';
+import { invoice as baseInvoice, client, payment as basePayment, pro, starter } from './fixtures';
+
+// Starter at a quarter of pro, and a pricier archived plan that shouldn't set the top price
+const plans = [{ ...starter, price: 50 }, pro, { ...pro, name: 'legacy', label: 'Legacy', price: 1000, archived: true }];
+
+const emptyData: HealthData = { payments: [], invoices: [], visits: [], events: [], statusChanges: [], plans };
+
+// Score one factor on its own
+const only = (factor: HealthFactor): HealthWeights => ({
+  payments: 0,
+  visits: 0,
+  stability: 0,
+  onboarding: 0,
+  plan: 0,
+  [factor]: 1,
+});
+
+const now = new Date(2024, 5, 1, 12);
+
+const invoice = (overrides: Partial<Invoice> = {}): Invoice => baseInvoice({ status: 'paid', total: 50, ...overrides });
+
+const payment = (overrides: Partial<Payment> = {}): Payment => basePayment({
+  amount: 50,
+  payment_date: '2024-05-05',
+  allocations: [{ invoice_id: 'invoice-1', amount: 50 }],
+  ...overrides,
+});
+
+describe('getHealthLevel', () => {
+  it('maps scores to levels', () => {
+    expect(getHealthLevel(85)).toBe('healthy');
+    expect(getHealthLevel(70)).toBe('healthy');
+    expect(getHealthLevel(55)).toBe('watch');
+    expect(getHealthLevel(10)).toBe('at_risk');
+  });
+});
+
+describe('calculateHealthScore', () => {
+  it('scores payments by how late they were against their invoice', () => {
+    const data = {
+      ...emptyData,
+      invoices: [invoice(), invoice({ id: 'invoice-2', due_date: '2024-04-08' })],
+      payments: [payment(), payment({ id: 'payment-2', allocations: [{ invoice_id: 'invoice-2', amount: 50 }], payment_date: '2024-04-23' })],
+    };
+    const health = calculateHealthScore(client(), data, only('payments'), now);
+
+    // On time, then 15 of 30 days late
+    expect(health.score).toBe(75);
+    expect(health.factors[0].detail).toBe('1 of 2 payments on time');
+  });
+
+  it('counts overdue invoices without a payment as missed', () => {
+    const data = { ...emptyData, invoices: [invoice({ status: 'open' })] };
+
+    expect(calculateHealthScore(client(), data, only('payments'), now).score).toBe(0);
+  });
+
+  it('falls back to the payment status without any history', () => {
+    expect(calculateHealthScore(client({ payment_status: 'paid' }), emptyData, only('payments'), now).score).toBe(100);
+    expect(calculateHealthScore(client(), emptyData, only('payments'), now).score).toBe(50);
+  });
+
+  it('fades visit recency out between a week and two months', () => {
+    const visitOn = (date: string) => ({ ...emptyData, visits: [{ id: 'visit-1', client_id: 'client-1', location: 'Main St', created_at: date } as BusinessVisit] });
+
+    expect(calculateHealthScore(client(), visitOn('2024-05-28T12:00:00'), only('visits'), now).score).toBe(100);
+    expect(calculateHealthScore(client(), visitOn('2024-03-01T12:00:00'), only('visits'), now).score).toBe(0);
+    expect(calculateHealthScore(client(), emptyData, only('visits'), now).factors[0].detail).toBe('Never visited');
+  });
+
+  it('dates visits from their events when the row has no date', () => {
+    const data = {
+      ...emptyData,
+      visits: [{ id: 'visit-1', client_id: 'client-1', location: 'Main St' } as BusinessVisit],
+      events: [{ id: 'event-1', client_id: 'client-1', event_type: 'visit', data: { visit_id: 'visit-1' }, occurred_at: '2024-05-31T12:00:00' } as ClientEvent],
+    };
+
+    expect(calculateHealthScore(client(), data, only('visits'), now).factors[0].detail).toBe('Last visited 1 day ago');
+  });
+
+  it('takes a tenth off stability for each recent status change', () => {
+    const data = {
+      ...emptyData,
+      statusChanges: [
+        { id: 's1', client_id: 'client-1', from_status: null, to_status: 'active' as const, changed_at: '2024-05-01T00:00:00Z' },
+        { id: 's2', client_id: 'client-1', from_status: 'active' as const, to_status: 'paused' as const, changed_at: '2024-05-10T00:00:00Z' },
+        { id: 's3', client_id: 'client-1', from_status: 'paused' as const, to_status: 'active' as const, changed_at: '2024-05-20T00:00:00Z' },
+        { id: 's4', client_id: 'client-1', from_status: 'active' as const, to_status: 'paused' as const, changed_at: '2023-01-01T00:00:00Z' },
+      ],
+    };
+
+    expect(calculateHealthScore(client(), data, only('stability'), now).score).toBe(80);
+  });
+
+  it('compares the plan price to the top active plan', () => {
+    expect(calculateHealthScore(client(), emptyData, only('plan'), now).score).toBe(25);
+    expect(calculateHealthScore(client({ plan: 'pro' }), emptyData, only('plan'), now).score).toBe(100);
+  });
+
+  it('counts onboarding answers, any social account filling its group', () => {
+    const filled = client({ phone: '555', business_name: 'Acme', tiktok_handle: 'acme', platform_preference: 'tiktok' });
+
+    expect(calculateHealthScore(filled, emptyData, only('onboarding'), now).score).toBe(40);
+  });
+
+  it('weights factors and leaves out the ones set to zero', () => {
+    const weights = { ...only('plan'), stability: 3 };
+    const health = calculateHealthScore(client(), emptyData, weights, now);
+
+    expect(health.factors.map(factor => [factor.factor, factor.weight])).toEqual([['stability', 0.75], ['plan', 0.25]]);
+    expect(health.score).toBe(Math.round((0.75 * 1 + 0.25 * 0.25) * 100));
+  });
+
+  it('uses the default weights when every factor is switched off', () => {
+    const weights = { payments: 0, visits: 0, stability: 0, onboarding: 0, plan: 0 };
+
+    expect(calculateHealthScore(client(), emptyData, weights, now).factors).toHaveLength(5);
+  });
+});
@@ -0,0 +1,185 @@
+import {
+  allocatePayment,
+  buildMonthlyInvoice,
+  deriveClientPaymentStatus,
+  findInvoiceToSettle,
+  getInvoiceBalance,
+  getPlanBillingPeriod,
+  getUnappliedAmount,
+  isBillingPeriod,
+  isInvoiceOverdue,
+  resolveInvoiceStatus,
+} from '../invoices';
+import { annual, client, invoice, payment, starter } from './fixtures';
+
+describe('buildMonthlyInvoice', () => {
+  it('bills the plan price for the month, due after the payment terms', () => {
+    const built = buildMonthlyInvoice(client(), starter, new Date(2024, 4, 15));
+
+    expect(built.period_start).toBe('2024-05-01');
+    expect(built.period_end).toBe('2024-05-31');
+    expect(built.due_date).toBe('2024-05-08');
+    expect(built.total).toBe(100);
+    expect(built.line_items).toEqual([
+      expect.objectContaining({ plan: 'starter', quantity: 1, amount: 100 }),
+    ]);
+  });
+
+  it('covers the whole year for yearly plans', () => {
+    const built = buildMonthlyInvoice(client(), annual, new Date(2024, 2, 15));
+
+    expect(built.period_start).toBe('2024-03-01');
+    expect(built.period_end).toBe('2025-02-28');
+    expect(built.due_date).toBe('2024-03-08');
+  });
+});
+
+describe('getPlanBillingPeriod', () => {
+  it('runs yearly plans from the signup month', () => {
+    expect(getPlanBillingPeriod(client(), annual, new Date(2024, 5, 16))).toEqual({
+      start: new Date(2024, 2, 1),
+      end: new Date(2025, 1, 28),
+    });
+    expect(getPlanBillingPeriod(client(), annual, new Date(2025, 0, 5)).start).toEqual(new Date(2024, 2, 1));
+  });
+});
+
+describe('isBillingPeriod', () => {
+  it('bills yearly plans only in the signup month', () => {
+    expect(isBillingPeriod(client(), annual, new Date(2024, 2, 1))).toBe(true);
+    expect(isBillingPeriod(client(), annual, new Date(2024, 3, 1))).toBe(false);
+    expect(isBillingPeriod(client(), starter, new Date(2024, 3, 1))).toBe(true);
+  });
+});
+
+describe('getInvoiceBalance', () => {
+  it('subtracts confirmed payments and adds back their refunds', () => {
+    const payments = [
+      payment({ id: 'p1', amount: 60, allocations: [{ invoice_id: 'invoice-1', amount: 60 }] }),
+      payment({ id: 'p2', amount: 40, allocations: [{ invoice_id: 'invoice-1', amount: 40 }], status: 'pending' }),
+      payment({ id: 'r1', amount: 10, kind: 'refund', original_payment_id: 'p1' }),
+    ];
+
+    expect(getInvoiceBalance(invoice(), payments)).toBe(50);
+  });
+
+  it('takes refunds out of unapplied credit before the invoices the payment covered', () => {
+    const split = payment({
+      id: 'p1',
+      amount: 150,
+      allocations: [{ invoice_id: 'april', amount: 50 }, { invoice_id: 'invoice-1', amount: 70 }],
+    });
+    const refund = payment({ id: 'r1', amount: 40, kind: 'refund', original_payment_id: 'p1' });
+
+    // 30 of the refund comes out of the unapplied credit, the other 10 off the last invoice
+    expect(getUnappliedAmount(split, [split, refund])).toBe(0);
+    expect(getInvoiceBalance(invoice(), [split, refund])).toBe(40);
+    expect(getInvoiceBalance(invoice({ id: 'april', total: 50 }), [split, refund])).toBe(0);
+  });
+
+  it('counts what each payment paid off in the invoice\'s currency', () => {
+    const euroInvoice = invoice({ currency: 'EUR' });
+    const dollars = payment({ amount: 54, allocations: [{ invoice_id: 'invoice-1', amount: 54, invoice_amount: 50 }] });
+
+    expect(getInvoiceBalance(euroInvoice, [dollars])).toBe(50);
+  });
+
+  it('owes nothing on a void invoice', () => {
+    expect(getInvoiceBalance(invoice({ status: 'void' }), [])).toBe(0);
+  });
+});
+
+describe('resolveInvoiceStatus', () => {
+  it('closes an invoice once it is fully paid and reopens it after a refund', () => {
+    const paid = [payment({ allocations: [{ invoice_id: 'invoice-1', amount: 100 }] })];
+
+    expect(resolveInvoiceStatus(invoice(), paid)).toBe('paid');
+    expect(resolveInvoiceStatus(invoice({ status: 'paid' }), [
+      ...paid,
+      payment({ id: 'r1', amount: 30, kind: 'refund', original_payment_id: 'payment-1' }),
+    ])).toBe('open');
+  });
+});
+
+describe('isInvoiceOverdue', () => {
+  it('counts the whole due date and the grace period', () => {
+    expect(isInvoiceOverdue(invoice(), new Date(2024, 4, 8, 23, 0))).toBe(false);
+    expect(isInvoiceOverdue(invoice(), new Date(2024, 4, 9, 9, 0))).toBe(true);
+    expect(isInvoiceOverdue(invoice(), new Date(2024, 4, 9, 9, 0), 3)).toBe(false);
+    expect(isInvoiceOverdue(invoice({ status: 'paid' }), new Date(2024, 6, 1))).toBe(false);
+  });
+});
+
+describe('deriveClientPaymentStatus', () => {
+  it('reads overdue before unpaid before paid', () => {
+    const now = new Date(2024, 4, 20);
+
+    expect(deriveClientPaymentStatus('client-1', [invoice()], now)).toBe('overdue');
+    expect(deriveClientPaymentStatus('client-1', [invoice({ due_date: '2024-05-25' })], now)).toBe('unpaid');
+    expect(deriveClientPaymentStatus('client-1', [invoice({ status: 'paid' })], now)).toBe('paid');
+  });
+});
+
+describe('findInvoiceToSettle', () => {
+  it('picks the oldest open invoice that still has a balance', () => {
+    const invoices = [
+      invoice({ id: 'june', period_start: '2024-06-01' }),
+      invoice({ id: 'april', period_start: '2024-04-01' }),
+      invoice({ id: 'march', period_start: '2024-03-01', status: 'paid' }),
+    ];
+
+    expect(findInvoiceToSettle('client-1', invoices, [])?.id).toBe('april');
+    expect(findInvoiceToSettle('client-1', invoices, [payment({ allocations: [{ invoice_id: 'april', amount: 100 }] })])?.id).toBe('june');
+  });
+});
+
+describe('allocatePayment', () => {
+  const invoices = [
+    invoice({ id: 'may', period_start: '2024-05-01' }),
+    invoice({ id: 'april', period_start: '2024-04-01', total: 50 }),
+    invoice({ id: 'june', period_start: '2024-06-01' }),
+    invoice({ id: 'other-client', client_id: 'client-2', period_start: '2024-01-01' }),
+  ];
+
+  it('covers the chosen invoice first, then the others oldest first', () => {
+    const allocations = allocatePayment(payment({ amount: 180 }), invoices[0], invoices, []);
+
+    expect(allocations).toEqual([
+      { invoiceId: 'may', amount: 100, invoiceAmount: 100 },
+      { invoiceId: 'april', amount: 50, invoiceAmount: 50 },
+      { invoiceId: 'june', amount: 30, invoiceAmount: 30 },
+    ]);
+  });
+
+  it('keeps what is left after every balance as credit', () => {
+    const allocations = allocatePayment(payment({ amount: 300 }), invoices[0], invoices, []);
+
+    expect(allocations[allocations.length - 1]).toEqual({ invoiceId: null, amount: 50, invoiceAmount: 50 });
+  });
+
+  it('only spends what the payment has not been applied to yet', () => {
+    const applied = payment({ amount: 120, allocations: [{ invoice_id: 'april', amount: 50 }] });
+
+    expect(allocatePayment(applied, invoices[0], invoices, [applied])).toEqual([{ invoiceId: 'may', amount: 70, invoiceAmount: 70 }]);
+  });
+
+  it('only covers what other payments have left on the chosen invoice', () => {
+    const earlier = payment({ id: 'earlier', amount: 70, allocations: [{ invoice_id: 'may', amount: 70 }] });
+    const allocations = allocatePayment(payment({ amount: 50 }), invoices[0], [invoices[0]], [earlier]);
+
+    expect(allocations).toEqual([
+      { invoiceId: 'may', amount: 30, invoiceAmount: 30 },
+      { invoiceId: null, amount: 20, invoiceAmount: 20 },
+    ]);
+  });
+
+  it('converts a balance in another currency into the payment\'s', () => {
+    const euroInvoice = invoice({ currency: 'EUR' });
+    const allocations = allocatePayment(payment({ amount: 200 }), euroInvoice, [euroInvoice], [], { USD: 1, EUR: 1.08 });
+
+    expect(allocations).toEqual([
+      { invoiceId: 'invoice-1', amount: 108, invoiceAmount: 100 },
+      { invoiceId: null, amount: 92, invoiceAmount: 92 },
+    ]);
+  });
+});
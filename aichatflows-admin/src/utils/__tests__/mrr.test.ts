@@ -0,0 +1,116 @@
+import { Client, ClientStatusChange, PlanChange } from '../../types';
+import { buildCohortRetention, buildMRRSeries, buildMRRWaterfall, getStatusOnDate, MRRSeries } from '../mrr';
+import { client as baseClient, plans } from './fixtures';
+
+// Signed up in January, the first month of every series below
+const client = (overrides: Partial<Client> = {}): Client => baseClient({ created_at: '2024-01-10T12:00:00', ...overrides });
+
+const statusChange = (overrides: Partial<ClientStatusChange>): ClientStatusChange => ({
+  id: 'status-1',
+  client_id: 'client-1',
+  to_status: 'active',
+  changed_at: '2024-01-10T12:00:00',
+  ...overrides,
+});
+
+const series = (byClient: Record<string, number[]>): MRRSeries => ({
+  months: ['2024-01', '2024-02', '2024-03', '2024-04'],
+  byClient: new Map(Object.entries(byClient)),
+});
+
+describe('getStatusOnDate', () => {
+  it('replays status history up to the date', () => {
+    const history = [
+      statusChange({}),
+      statusChange({ id: 'status-2', from_status: 'active', to_status: 'paused', changed_at: '2024-03-05T09:00:00' }),
+    ];
+
+    expect(getStatusOnDate(client(), history, new Date(2024, 0, 1))).toBeNull();
+    expect(getStatusOnDate(client(), history, new Date(2024, 1, 1))).toBe('active');
+    expect(getStatusOnDate(client(), history, new Date(2024, 2, 10))).toBe('paused');
+  });
+
+  it('assumes the current status throughout when there is no history', () => {
+    expect(getStatusOnDate(client({ status: 'paused' }), [], new Date(2024, 5, 1))).toBe('paused');
+  });
+});
+
+describe('buildMRRSeries', () => {
+  it('rebuilds month-end MRR from plan changes and status history', () => {
+    const planChanges: PlanChange[] = [{
+      id: 'change-1',
+      client_id: 'client-1',
+      from_plan: 'starter',
+      to_plan: 'pro',
+      from_price: 100,
+      to_price: 200,
+      effective_date: '2024-02-15',
+      proration_amount: 50,
+      created_at: '2024-02-15T10:00:00Z',
+    }];
+    const statusChanges = [
+      statusChange({}),
+      statusChange({ id: 'status-2', from_status: 'active', to_status: 'cancelled', changed_at: '2024-03-20T09:00:00' }),
+    ];
+
+    const result = buildMRRSeries([client()], planChanges, statusChanges, plans, new Date(2024, 3, 10));
+
+    expect(result.months).toEqual(['2024-01', '2024-02', '2024-03', '2024-04']);
+    expect(result.byClient.get('client-1')).toEqual([100, 200, 0, 0]);
+  });
+
+  it('spreads yearly plans over twelve months', () => {
+    const result = buildMRRSeries([client({ plan: 'annual' })], [], [], plans, new Date(2024, 1, 10));
+
+    expect(result.byClient.get('client-1')).toEqual([100, 100]);
+  });
+
+  it('converts plan prices into the base currency', () => {
+    const euroPlans = [{ ...plans[0], currency: 'EUR' }];
+    const conversion = { baseCurrency: 'USD', rates: { USD: 1, EUR: 1.08 } };
+    const result = buildMRRSeries([client()], [], [], euroPlans, new Date(2024, 1, 10), conversion);
+
+    expect(result.byClient.get('client-1')).toEqual([108, 108]);
+  });
+});
+
+describe('buildMRRWaterfall', () => {
+  it('splits each month into new, expansion, contraction, churn and reactivation', () => {
+    const waterfall = buildMRRWaterfall(series({
+      grows: [100, 200, 200, 150],
+      churns: [0, 100, 0, 100],
+    }));
+
+    expect(waterfall[1]).toEqual({
+      month: '2024-02',
+      startingMRR: 100,
+      newMRR: 100,
+      expansionMRR: 100,
+      contractionMRR: 0,
+      churnedMRR: 0,
+      reactivatedMRR: 0,
+      endingMRR: 300,
+    });
+    expect(waterfall[2].churnedMRR).toBe(100);
+    expect(waterfall[3]).toEqual(expect.objectContaining({ contractionMRR: 50, reactivatedMRR: 100, newMRR: 0 }));
+  });
+
+  it('returns only the most recent months', () => {
+    expect(buildMRRWaterfall(series({ a: [100, 100, 100, 100] }), 2).map(month => month.month)).toEqual(['2024-03', '2024-04']);
+  });
+});
+
+describe('buildCohortRetention', () => {
+  it('groups clients by first paying month and reports net revenue retention', () => {
+    const cohorts = buildCohortRetention(series({
+      a: [100, 150, 150, 0],
+      b: [100, 100, 0, 0],
+      c: [0, 0, 200, 200],
+    }), [1, 3]);
+
+    expect(cohorts).toEqual([
+      { cohort: '2024-03', clientCount: 1, startingMRR: 200, retention: [100, null] },
+      { cohort: '2024-01', clientCount: 2, startingMRR: 200, retention: [125, 0] },
+    ]);
+  });
+});
@@ -0,0 +1,98 @@
+import { Payment } from '../../types';
+import { DEFAULT_EXCHANGE_RATES } from '../currency';
+import {
+  calculateRevenueBreakdown,
+  getRefundState,
+  getRefundableAmount,
+  getRemainingOwed,
+  isMoneyReceived,
+  isPartialPayment,
+} from '../payments';
+import { payment } from './fixtures';
+
+const refund = (amount: number, overrides: Partial<Payment> = {}): Payment => payment({
+  id: `refund-${amount}`,
+  kind: 'refund',
+  amount,
+  original_payment_id: 'payment-1',
+  payment_date: '2024-05-20',
+  ...overrides,
+});
+
+describe('isMoneyReceived', () => {
+  it('counts confirmed payments, not refunds, credit notes or pending ones', () => {
+    expect(isMoneyReceived(payment())).toBe(true);
+    expect(isMoneyReceived(payment({ status: 'pending' }))).toBe(false);
+    expect(isMoneyReceived(refund(30))).toBe(false);
+    expect(isMoneyReceived(payment({ kind: 'credit_note' }))).toBe(false);
+  });
+});
+
+describe('getRefundableAmount', () => {
+  it('leaves what confirmed refunds have not yet returned', () => {
+    const payments = [payment(), refund(30), refund(20, { status: 'pending' })];
+
+    expect(getRefundableAmount(payment(), payments)).toBe(70);
+    expect(getRefundableAmount(payment(), [...payments, refund(70)])).toBe(0);
+  });
+
+  it('refunds nothing from a credit note', () => {
+    expect(getRefundableAmount(payment({ kind: 'credit_note' }), [])).toBe(0);
+  });
+});
+
+describe('getRefundState', () => {
+  it('tells partial refunds from full ones', () => {
+    expect(getRefundState(payment(), [payment()])).toBeNull();
+    expect(getRefundState(payment(), [refund(30)])).toBe('partially_refunded');
+    expect(getRefundState(payment(), [refund(30), refund(70)])).toBe('refunded');
+  });
+
+  it('ignores refunds of other payments', () => {
+    expect(getRefundState(payment(), [refund(100, { original_payment_id: 'payment-2' })])).toBeNull();
+  });
+});
+
+describe('isPartialPayment', () => {
+  it('compares the amount paid with what was owed at the time', () => {
+    expect(isPartialPayment(payment({ amount: 60, amount_owed: 100 }))).toBe(true);
+    expect(isPartialPayment(payment({ amount: 100, amount_owed: 100 }))).toBe(false);
+    expect(isPartialPayment(payment())).toBe(false);
+  });
+});
+
+describe('getRemainingOwed', () => {
+  it('is what a partial payment left unpaid, and never negative', () => {
+    expect(getRemainingOwed(payment({ amount: 60.1, amount_owed: 100 }))).toBe(39.9);
+    expect(getRemainingOwed(payment({ amount: 120, amount_owed: 100 }))).toBe(0);
+    expect(getRemainingOwed(payment())).toBe(0);
+  });
+});
+
+describe('calculateRevenueBreakdown', () => {
+  it('subtracts refunds and leaves credit notes and pending payments out', () => {
+    const payments = [
+      payment(),
+      payment({ id: 'payment-2', amount: 50, status: 'pending' }),
+      payment({ id: 'credit-1', amount: 25, kind: 'credit_note' }),
+      refund(30),
+    ];
+
+    expect(calculateRevenueBreakdown(payments)).toEqual({ gross: 100, refunded: 30, net: 70, byCurrency: { USD: 70 } });
+  });
+
+  it('counts refunds in the period they were issued', () => {
+    const payments = [payment({ payment_date: '2024-04-20' }), refund(30)];
+    const may = calculateRevenueBreakdown(payments, new Date(2024, 4, 1), new Date(2024, 5, 1));
+
+    expect(may).toEqual({ gross: 0, refunded: 30, net: -30, byCurrency: { USD: -30 } });
+  });
+
+  it('converts to the base currency but keeps the original totals per currency', () => {
+    const payments = [payment(), payment({ id: 'payment-2', currency: 'EUR' })];
+    const breakdown = calculateRevenueBreakdown(payments, undefined, undefined, { baseCurrency: 'USD', rates: DEFAULT_EXCHANGE_RATES });
+
+    expect(breakdown.gross).toBe(208);
+    expect(breakdown.byCurrency).toEqual({ USD: 100, EUR: 100 });
+  });
+});
@@ -0,0 +1,76 @@
+import { ClientStatusChange } from '../../types';
+import {
+  DEFAULT_STALE_THRESHOLDS,
+  formatTimeInStage,
+  getDaysInStage,
+  getStageEnteredAt,
+  groupClientsByStage,
+  isStaleInStage,
+} from '../pipeline';
+import { client } from './fixtures';
+
+const statusChange = (overrides: Partial<ClientStatusChange>): ClientStatusChange => ({
+  id: 'status-1',
+  client_id: 'client-1',
+  from_status: 'in_progress',
+  to_status: 'active',
+  changed_at: '2024-04-01T12:00:00',
+  ...overrides,
+});
+
+const now = new Date(2024, 4, 1, 12);
+
+describe('getStageEnteredAt', () => {
+  it('uses the latest change into the current status', () => {
+    const history = [
+      statusChange({}),
+      statusChange({ id: 'status-2', from_status: 'active', to_status: 'paused', changed_at: '2024-04-10T12:00:00' }),
+      statusChange({ id: 'status-3', from_status: 'paused', to_status: 'active', changed_at: '2024-04-20T12:00:00' }),
+      statusChange({ id: 'status-4', client_id: 'client-2', changed_at: '2024-04-25T12:00:00' }),
+    ];
+
+    expect(getStageEnteredAt(client(), history)).toEqual(new Date(2024, 3, 20, 12));
+  });
+
+  it('falls back to the signup date', () => {
+    expect(getStageEnteredAt(client(), [])).toEqual(new Date(2024, 2, 10, 12));
+  });
+});
+
+describe('getDaysInStage', () => {
+  it('counts whole days and never goes negative', () => {
+    expect(getDaysInStage(client(), [statusChange({})], now)).toBe(30);
+    expect(getDaysInStage(client(), [statusChange({})], new Date(2024, 3, 1, 23))).toBe(0);
+    expect(getDaysInStage(client(), [statusChange({})], new Date(2024, 2, 1))).toBe(0);
+  });
+});
+
+describe('isStaleInStage', () => {
+  it('flags clients at or past the threshold, and never when it is zero', () => {
+    expect(isStaleInStage(14, 'in_progress', DEFAULT_STALE_THRESHOLDS)).toBe(true);
+    expect(isStaleInStage(13, 'in_progress', DEFAULT_STALE_THRESHOLDS)).toBe(false);
+    expect(isStaleInStage(400, 'active', DEFAULT_STALE_THRESHOLDS)).toBe(false);
+  });
+});
+
+describe('formatTimeInStage', () => {
+  it('switches from days to weeks to months', () => {
+    expect([0, 3, 13, 14, 59, 60, 125].map(formatTimeInStage)).toEqual(['Today', '3d', '13d', '2w', '8w', '2mo', '4mo']);
+  });
+});
+
+describe('groupClientsByStage', () => {
+  it('puts every stage in a column, longest in stage first', () => {
+    const clients = [
+      client({ id: 'client-1', status: 'in_progress', created_at: '2024-04-20T12:00:00' }),
+      client({ id: 'client-2', status: 'in_progress', created_at: '2024-04-01T12:00:00' }),
+      client({ id: 'client-3', status: 'paused' }),
+    ];
+    const columns = groupClientsByStage(clients, [], now);
+
+    expect(columns.in_progress.map(card => [card.client.id, card.daysInStage])).toEqual([['client-2', 30], ['client-1', 11]]);
+    expect(columns.paused.map(card => card.client.id)).toEqual(['client-3']);
+    expect(columns.active).toEqual([]);
+    expect(columns.cancelled).toEqual([]);
+  });
+});
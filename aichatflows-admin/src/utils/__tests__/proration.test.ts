@@ -0,0 +1,154 @@
+import { Invoice, PlanChange } from '../../types';
+import {
+  applyProrationToInvoice,
+  buildPlanTimeline,
+  buildProrationLineItems,
+  calculateProration,
+  describeProration,
+  getPlanPeriodOnDate,
+} from '../proration';
+import { annual, client, invoice, payment, plans, pro, starter } from './fixtures';
+
+// June has 30 days, so the 16th leaves exactly half the month
+const midJune = new Date(2024, 5, 16);
+
+const juneInvoice = (overrides: Partial<Invoice> = {}): Invoice => invoice({
+  period_start: '2024-06-01',
+  period_end: '2024-06-30',
+  due_date: '2024-06-08',
+  status: 'paid',
+  line_items: [{ description: 'Starter plan — June 2024', quantity: 1, unit_price: 100, amount: 100, plan: 'starter' }],
+  created_at: '2024-06-01T00:00:00Z',
+  ...overrides,
+});
+
+const paidInFull = [payment({ payment_date: '2024-06-02', allocations: [{ invoice_id: 'invoice-1', amount: 100 }] })];
+
+describe('calculateProration', () => {
+  it('credits the unused old plan and charges the rest of the period on the new one', () => {
+    expect(calculateProration(client(), starter, pro, midJune)).toEqual({
+      effectiveDate: '2024-06-16',
+      credit: 50,
+      charge: 100,
+      amount: 50,
+      daysRemaining: 15,
+      currency: 'USD',
+    });
+  });
+
+  it('owes the client money on a downgrade', () => {
+    expect(calculateProration(client(), pro, starter, midJune).amount).toBe(-50);
+  });
+
+  it('measures each plan against its own billing period', () => {
+    const proration = calculateProration(client(), annual, starter, midJune);
+
+    // 258 of the 365 days from March 2024 to February 2025 are left on the 16th of June
+    expect(proration.credit).toBe(Math.round((1200 * 258 / 365) * 100) / 100);
+    expect(proration.charge).toBe(50);
+  });
+});
+
+describe('describeProration', () => {
+  it('shows the amount in the new plan\'s currency', () => {
+    const proration = calculateProration(client(), starter, { ...pro, currency: 'EUR' }, midJune);
+
+    expect(describeProration(proration)).toBe('Prorated charge of €50.00 for the remaining 15 days');
+  });
+});
+
+describe('buildProrationLineItems', () => {
+  it('adds a negative line for the credit and a line for the charge', () => {
+    const lines = buildProrationLineItems(calculateProration(client(), starter, pro, midJune), starter, pro);
+
+    expect(lines.map(line => line.amount)).toEqual([-50, 100]);
+    expect(lines[1].description).toBe('Pro plan for the remaining 15 days');
+  });
+});
+
+describe('applyProrationToInvoice', () => {
+  it('reopens a paid invoice for an upgrade', () => {
+    const adjustment = buildProrationLineItems(calculateProration(client(), starter, pro, midJune), starter, pro);
+    const { invoice, credit } = applyProrationToInvoice(client(), starter, adjustment, juneInvoice(), paidInFull, midJune);
+
+    expect(invoice.total).toBe(150);
+    expect(invoice.status).toBe('open');
+    expect(invoice.line_items).toHaveLength(3);
+    expect(credit).toBe(0);
+  });
+
+  it('credits the client when a downgrade leaves the paid invoice overpaid', () => {
+    const proInvoice = juneInvoice({
+      line_items: [{ description: 'Pro plan — June 2024', quantity: 1, unit_price: 200, amount: 200, plan: 'pro' }],
+      total: 200,
+    });
+    const payments = [{ ...paidInFull[0], amount: 200, allocations: [{ invoice_id: 'invoice-1', amount: 200 }] }];
+    const adjustment = buildProrationLineItems(calculateProration(client(), pro, starter, midJune), pro, starter);
+    const { invoice, credit } = applyProrationToInvoice(client(), pro, adjustment, proInvoice, payments, midJune);
+
+    expect(invoice.total).toBe(150);
+    expect(invoice.status).toBe('paid');
+    expect(credit).toBe(50);
+  });
+
+  it('bills the old plan when the period has no invoice yet', () => {
+    const adjustment = buildProrationLineItems(calculateProration(client(), starter, pro, midJune), starter, pro);
+    const { invoice } = applyProrationToInvoice(client(), starter, adjustment, undefined, [], midJune);
+
+    expect(invoice.period_start).toBe('2024-06-01');
+    expect(invoice.total).toBe(150);
+    expect(invoice.status).toBe('open');
+  });
+
+  it('puts a yearly plan\'s mid-year adjustment on an invoice for the month', () => {
+    const adjustment = buildProrationLineItems(calculateProration(client(), annual, starter, midJune), annual, starter);
+    const { invoice } = applyProrationToInvoice(client(), annual, adjustment, undefined, [], midJune);
+
+    expect(invoice.line_items).toEqual(adjustment);
+    expect([invoice.period_start, invoice.period_end, invoice.due_date]).toEqual(['2024-06-01', '2024-06-30', '2024-06-08']);
+  });
+
+  it('reopens a void invoice with only the adjustment', () => {
+    const adjustment = buildProrationLineItems(calculateProration(client(), starter, pro, midJune), starter, pro);
+    const { invoice } = applyProrationToInvoice(client(), starter, adjustment, juneInvoice({ status: 'void' }), paidInFull, midJune);
+
+    expect(invoice.line_items).toEqual(adjustment);
+    expect(invoice.total).toBe(50);
+  });
+});
+
+describe('buildPlanTimeline', () => {
+  const change = (overrides: Partial<PlanChange>): PlanChange => ({
+    id: 'change-1',
+    client_id: 'client-1',
+    from_plan: 'starter',
+    to_plan: 'pro',
+    from_price: 100,
+    to_price: 200,
+    effective_date: '2024-06-16',
+    proration_amount: 50,
+    created_at: '2024-06-16T10:00:00Z',
+    ...overrides,
+  });
+
+  it('opens with the signup plan and ends each period where the next starts', () => {
+    const timeline = buildPlanTimeline(client(), [change({})], plans);
+
+    expect(timeline).toEqual([
+      expect.objectContaining({ plan: 'starter', start: '2024-03-10', end: '2024-06-16' }),
+      expect.objectContaining({ plan: 'pro', start: '2024-06-16', end: undefined }),
+    ]);
+    expect(getPlanPeriodOnDate(timeline, new Date(2024, 5, 15))?.plan).toBe('starter');
+    expect(getPlanPeriodOnDate(timeline, midJune)?.plan).toBe('pro');
+    expect(getPlanPeriodOnDate(timeline, new Date(2024, 0, 1))).toBeUndefined();
+  });
+
+  it('keeps only the last of several changes on the same day', () => {
+    const timeline = buildPlanTimeline(client(), [
+      change({}),
+      change({ id: 'change-2', from_plan: 'pro', to_plan: 'annual', to_price: 1200, created_at: '2024-06-16T11:00:00Z' }),
+    ], plans);
+
+    expect(timeline.map(period => period.plan)).toEqual(['starter', 'annual']);
+  });
+});
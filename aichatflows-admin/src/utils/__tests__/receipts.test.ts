@@ -0,0 +1,70 @@
+import { Receipt } from '../../types';
+import {
+  DEFAULT_BUSINESS_DETAILS,
+  buildReceiptHtml,
+  buildReceiptText,
+  canIssueReceipt,
+  formatReceiptNumber,
+} from '../receipts';
+import { client, payment } from './fixtures';
+
+const receipt: Receipt = { id: 'receipt-1', payment_id: 'payment-1', receipt_number: 42, issued_at: '2024-05-03T12:00:00' };
+
+// Midday, so the printed date is the same in every time zone the tests run in
+const paidOnMay3 = payment({ payment_date: '2024-05-03T12:00:00', payment_method: 'Card' });
+
+describe('formatReceiptNumber', () => {
+  it('pads the number to six digits', () => {
+    expect(formatReceiptNumber(42)).toBe('R-000042');
+    expect(formatReceiptNumber(1234567)).toBe('R-1234567');
+  });
+});
+
+describe('canIssueReceipt', () => {
+  it('issues receipts only for money received', () => {
+    expect(canIssueReceipt(payment())).toBe(true);
+    expect(canIssueReceipt(payment({ status: 'pending' }))).toBe(false);
+    expect(canIssueReceipt(payment({ kind: 'refund' }))).toBe(false);
+  });
+});
+
+describe('buildReceiptHtml', () => {
+  it('escapes everything that came from the client or the business', () => {
+    const html = buildReceiptHtml(
+      receipt,
+      payment({ description: '<img src=x onerror="alert(1)">' }),
+      { ...DEFAULT_BUSINESS_DETAILS, name: 'Tom & Jerry\'s' },
+      client({ business_name: '<script>alert(1)</script>' })
+    );
+
+    expect(html).not.toContain('<script>');
+    expect(html).not.toContain('<img');
+    expect(html).toContain('&lt;script&gt;alert(1)&lt;/script&gt;');
+    expect(html).toContain('&lt;img src=x onerror=&quot;alert(1)&quot;&gt;');
+    expect(html).toContain('Tom &amp; Jerry&#39;s');
+  });
+
+  it('names the contact only when it differs from the business', () => {
+    const withContact = buildReceiptHtml(receipt, paidOnMay3, DEFAULT_BUSINESS_DETAILS, client({ business_name: 'Acme Bakery' }));
+    const withoutContact = buildReceiptHtml(receipt, paidOnMay3, DEFAULT_BUSINESS_DETAILS, client());
+
+    expect(withContact).toContain('<td class="label">Contact</td><td>Acme</td>');
+    expect(withoutContact).not.toContain('Contact');
+  });
+});
+
+describe('buildReceiptText', () => {
+  it('lists the payment in the payment\'s currency', () => {
+    const text = buildReceiptText(receipt, { ...paidOnMay3, currency: 'EUR' }, DEFAULT_BUSINESS_DETAILS);
+
+    expect(text.split('\n')).toEqual([
+      'AIChatFlows — Receipt R-000042',
+      '',
+      'Billed to: Direct payment',
+      'Amount: €100.00',
+      'Payment method: Card',
+      'Payment date: May 3, 2024',
+      'Issued: May 3, 2024',
+    ]);
+  });
+});
@@ -0,0 +1,97 @@
+import { BusinessVisit, Prospect, Task } from '../../types';
+import { Coordinates } from '../geo';
+import { RouteStop, getRouteDistance, getRouteStops, planRoute } from '../routePlanner';
+
+// Stops along one street, roughly 111 m apart per 0.001° of latitude
+const stopAt = (id: string, latitude: number): RouteStop => ({
+  id: `prospect:${id}`,
+  kind: 'prospect',
+  label: id,
+  coordinates: { latitude, longitude: 0 },
+  prospectId: id,
+});
+
+const start: Coordinates = { latitude: 0, longitude: 0 };
+
+const prospect = (overrides: Partial<Prospect> = {}): Prospect => ({
+  id: 'prospect-1',
+  business_name: 'Crest Florist',
+  latitude: 0.001,
+  longitude: 0,
+  stage: 'interested',
+  created_at: '2024-05-01T00:00:00Z',
+  ...overrides,
+});
+
+const task = (overrides: Partial<Task> = {}): Task => ({
+  id: 'task-1',
+  title: 'Bring samples',
+  due_at: '2024-05-10T09:00:00Z',
+  done: false,
+  created_at: '2024-05-01T00:00:00Z',
+  ...overrides,
+});
+
+describe('planRoute', () => {
+  it('visits stops along a street in order from the start', () => {
+    const stops = [stopAt('c', 0.003), stopAt('a', 0.001), stopAt('d', 0.004), stopAt('b', 0.002)];
+
+    expect(planRoute(start, stops).map(stop => stop.label)).toEqual(['a', 'b', 'c', 'd']);
+  });
+
+  it('shortens a path that nearest neighbor leaves doubling back', () => {
+    // Nearest neighbor heads for x first and then has to cross the start twice
+    const [x, y, z, w] = [stopAt('x', 0.001), stopAt('y', -0.0015), stopAt('z', -0.003), stopAt('w', 0.004)];
+    const route = planRoute(start, [x, y, z, w]);
+
+    expect(getRouteDistance(start, route)).toBeLessThan(getRouteDistance(start, [x, y, z, w]));
+    expect(getRouteDistance(start, route)).toBeCloseTo(getRouteDistance(start, [y, z, x, w]), 0);
+  });
+
+  it('leaves short lists as they are', () => {
+    const stops = [stopAt('b', 0.002), stopAt('a', 0.001)];
+
+    expect(planRoute(null, stops)).toEqual(stops);
+    expect(planRoute(start, [stops[0]])).toEqual([stops[0]]);
+  });
+});
+
+describe('getRouteDistance', () => {
+  it('adds up the legs from the start', () => {
+    const distance = getRouteDistance(start, [stopAt('a', 0.001), stopAt('b', 0.002)]);
+
+    expect(distance).toBeGreaterThan(220);
+    expect(distance).toBeLessThan(225);
+  });
+});
+
+describe('getRouteStops', () => {
+  it('includes open prospects with a location only', () => {
+    const stops = getRouteStops([
+      prospect(),
+      prospect({ id: 'prospect-2', stage: 'rejected' }),
+      prospect({ id: 'prospect-3', client_id: 'client-1' }),
+      prospect({ id: 'prospect-4', latitude: null }),
+    ], [], [], []);
+
+    expect(stops.map(stop => stop.id)).toEqual(['prospect:prospect-1']);
+  });
+
+  it('places open tasks at their visit, or at the client\'s last known visit', () => {
+    const visits = [
+      { id: 'visit-1', latitude: 0.002, longitude: 0.001, location: 'Acme Bakery' },
+      { id: 'visit-2', client_id: 'client-1', latitude: 0.005, longitude: 0.005, location: 'Bolt Coffee' },
+    ] as BusinessVisit[];
+    const stops = getRouteStops([], [
+      task({ visit_id: 'visit-1' }),
+      task({ id: 'task-2', client_id: 'client-1', client: { id: 'client-1', name: 'Bolt', business_name: 'Bolt Coffee' } }),
+      task({ id: 'task-3', client_id: 'client-2' }),
+      task({ id: 'task-4', visit_id: 'visit-1', done: true }),
+    ], [], visits);
+
+    expect(stops).toEqual([
+      expect.objectContaining({ id: 'task:task-1', coordinates: { latitude: 0.002, longitude: 0.001 } }),
+      expect.objectContaining({ id: 'task:task-2', coordinates: { latitude: 0.005, longitude: 0.005 }, businessName: 'Bolt Coffee', clientId: 'client-1' }),
+    ]);
+  });
+});
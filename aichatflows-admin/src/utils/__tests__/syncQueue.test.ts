@@ -0,0 +1,121 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { SyncQueueItem, VisitSyncPayload } from '../../types';
+import {
+  MAX_SYNC_ATTEMPTS,
+  enqueueSyncItem,
+  isReplayable,
+  loadSyncQueue,
+  resolveSyncConflict,
+  retrySyncItem,
+  subscribeToSyncQueue,
+  updateSyncItem,
+} from '../syncQueue';
+
+jest.mock('@react-native-async-storage/async-storage', () => jest.requireActual('@react-native-async-storage/async-storage/jest/async-storage-mock'));
+jest.mock('expo-crypto', () => ({ randomUUID: () => jest.requireActual('crypto').randomUUID() }));
+
+const visitPayload = (overrides: Partial<VisitSyncPayload> = {}): VisitSyncPayload => ({
+  id: 'visit-1',
+  client_id: null,
+  prospect_id: null,
+  latitude: 40.7128,
+  longitude: -74.006,
+  business_name: 'Acme Bakery',
+  street: null,
+  city: null,
+  region: null,
+  postal_code: null,
+  country: null,
+  created_at: '2024-05-01T12:00:00Z',
+  ...overrides,
+});
+
+const queueItem = (overrides: Partial<SyncQueueItem> = {}): SyncQueueItem => ({
+  id: 'item-1',
+  kind: 'visit',
+  payload: visitPayload(),
+  created_at: '2024-05-01T12:00:00Z',
+  status: 'pending',
+  attempts: 0,
+  ...overrides,
+} as SyncQueueItem);
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+});
+
+describe('enqueueSyncItem', () => {
+  it('keeps items in the order they were queued, even when queued at once', async () => {
+    await Promise.all([
+      enqueueSyncItem('visit', visitPayload()),
+      enqueueSyncItem('note', { id: 'note-1', entity_type: 'client', entity_id: 'client-1', parent_id: null, body: 'Call back', mentions: [], author_id: null, author_email: null, created_at: '2024-05-01T12:05:00Z' }),
+      enqueueSyncItem('signup', { client_id: 'client-2', submission_id: 'submission-1', name: 'Jane Doe' }),
+    ]);
+
+    const items = await loadSyncQueue();
+
+    expect(items.map(item => item.kind)).toEqual(['visit', 'note', 'signup']);
+    expect(items.every(item => item.status === 'pending' && item.attempts === 0)).toBe(true);
+  });
+
+  it('gives each item its own UUID', async () => {
+    const first = await enqueueSyncItem('visit', visitPayload());
+    const second = await enqueueSyncItem('visit', visitPayload({ id: 'visit-2' }));
+
+    expect(first.id).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+    expect(second.id).not.toBe(first.id);
+  });
+
+  it('tells subscribers about every change', async () => {
+    const listener = jest.fn();
+    const unsubscribe = subscribeToSyncQueue(listener);
+    await enqueueSyncItem('visit', visitPayload());
+    unsubscribe();
+    await enqueueSyncItem('visit', visitPayload({ id: 'visit-2' }));
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener.mock.calls[0][0]).toHaveLength(1);
+  });
+});
+
+describe('retrySyncItem', () => {
+  it('queues a failed item again with a fresh attempt count', async () => {
+    const item = await enqueueSyncItem('visit', visitPayload());
+    await updateSyncItem(item.id, { status: 'failed', attempts: MAX_SYNC_ATTEMPTS, last_error: 'Network request failed' });
+    const [retried] = await retrySyncItem(item.id);
+
+    expect(retried).toEqual(expect.objectContaining({ status: 'pending', attempts: 0, last_error: null }));
+  });
+});
+
+describe('resolveSyncConflict', () => {
+  it('applies the suggested changes and queues the item again', async () => {
+    const item = await enqueueSyncItem('visit', visitPayload({ client_id: 'deleted-client' }));
+    await updateSyncItem(item.id, {
+      status: 'conflict',
+      conflict: { reason: 'The client was deleted', resolution: { label: 'Log without client', changes: { client_id: null } } },
+    });
+    const [resolved] = await resolveSyncConflict(item.id);
+
+    expect(resolved.status).toBe('pending');
+    expect(resolved.conflict).toBeNull();
+    expect(resolved.payload).toEqual(visitPayload({ client_id: null }));
+  });
+
+  it('leaves conflicts without a suggested fix alone', async () => {
+    const item = await enqueueSyncItem('visit', visitPayload());
+    await updateSyncItem(item.id, { status: 'conflict', conflict: { reason: 'Something else' } });
+    const [unchanged] = await resolveSyncConflict(item.id);
+
+    expect(unchanged.status).toBe('conflict');
+  });
+});
+
+describe('isReplayable', () => {
+  it('replays pending items and failed ones with retries left', () => {
+    expect(isReplayable(queueItem())).toBe(true);
+    expect(isReplayable(queueItem({ status: 'failed', attempts: MAX_SYNC_ATTEMPTS - 1 }))).toBe(true);
+    expect(isReplayable(queueItem({ status: 'failed', attempts: MAX_SYNC_ATTEMPTS }))).toBe(false);
+    expect(isReplayable(queueItem({ status: 'conflict' }))).toBe(false);
+  });
+});
@@ -0,0 +1,131 @@
+import { BusinessVisit, Territory } from '../../types';
+import {
+  buildCoverageGrid,
+  calculateTerritoryStats,
+  findTerritory,
+  getCoverageLevel,
+  getVisitTerritoryMap,
+  isPointInPolygon,
+} from '../territories';
+
+const square = (south: number, west: number, size: number) => [
+  { latitude: south, longitude: west },
+  { latitude: south + size, longitude: west },
+  { latitude: south + size, longitude: west + size },
+  { latitude: south, longitude: west + size },
+];
+
+const territory = (overrides: Partial<Territory> = {}): Territory => ({
+  id: 'downtown',
+  name: 'Downtown',
+  color: '#3B82F6',
+  boundary: square(0, 0, 1),
+  created_at: '2024-01-01T00:00:00Z',
+  ...overrides,
+});
+
+const visit = (id: string, latitude: number, longitude: number, created_at = '2024-05-01T12:00:00Z', client_id?: string) => ({
+  id,
+  latitude,
+  longitude,
+  location: `${latitude}, ${longitude}`,
+  created_at,
+  client_id,
+} as BusinessVisit);
+
+const now = new Date('2024-05-31T12:00:00Z');
+
+describe('isPointInPolygon', () => {
+  // An L shape: the top-right quarter of the square is cut out
+  const lShape = [
+    { latitude: 0, longitude: 0 },
+    { latitude: 2, longitude: 0 },
+    { latitude: 2, longitude: 1 },
+    { latitude: 1, longitude: 1 },
+    { latitude: 1, longitude: 2 },
+    { latitude: 0, longitude: 2 },
+  ];
+
+  it('handles concave outlines', () => {
+    expect(isPointInPolygon({ latitude: 0.5, longitude: 0.5 }, lShape)).toBe(true);
+    expect(isPointInPolygon({ latitude: 1.5, longitude: 0.5 }, lShape)).toBe(true);
+    expect(isPointInPolygon({ latitude: 1.5, longitude: 1.5 }, lShape)).toBe(false);
+    expect(isPointInPolygon({ latitude: 3, longitude: 0.5 }, lShape)).toBe(false);
+  });
+
+  it('needs at least three points', () => {
+    expect(isPointInPolygon({ latitude: 0, longitude: 0 }, square(0, 0, 1).slice(0, 2))).toBe(false);
+  });
+});
+
+describe('findTerritory', () => {
+  it('gives overlapping areas to the oldest territory', () => {
+    const newer = territory({ id: 'newer', boundary: square(0.5, 0.5, 1), created_at: '2024-03-01T00:00:00Z' });
+    const territories = [newer, territory()];
+
+    expect(findTerritory(territories, { latitude: 0.75, longitude: 0.75 })?.id).toBe('downtown');
+    expect(findTerritory(territories, { latitude: 1.25, longitude: 1.25 })?.id).toBe('newer');
+    expect(findTerritory(territories, { latitude: 5, longitude: 5 })).toBeNull();
+  });
+});
+
+describe('getVisitTerritoryMap', () => {
+  it('maps only visits inside a territory', () => {
+    const visits = [visit('inside', 0.5, 0.5), visit('outside', 2, 2), { id: 'unknown', location: 'Main St' } as BusinessVisit];
+
+    expect(getVisitTerritoryMap(visits, [territory()])).toEqual({ inside: 'downtown' });
+  });
+});
+
+describe('calculateTerritoryStats', () => {
+  it('counts visits and clients, least recently canvassed first', () => {
+    const uptown = territory({ id: 'uptown', boundary: square(2, 2, 1), created_at: '2024-02-01T00:00:00Z' });
+    const quiet = territory({ id: 'quiet', boundary: square(10, 10, 1), created_at: '2024-02-02T00:00:00Z' });
+    const visits = [
+      visit('a', 0.5, 0.5, '2024-05-30T12:00:00Z', 'client-1'),
+      visit('b', 0.6, 0.6, '2024-03-01T12:00:00Z', 'client-1'),
+      visit('c', 0.7, 0.7, '2024-05-20T12:00:00Z', 'client-2'),
+      visit('d', 2.5, 2.5, '2024-04-01T12:00:00Z'),
+    ];
+
+    const stats = calculateTerritoryStats([territory(), uptown, quiet], visits, now);
+
+    expect(stats.map(stat => stat.territory.id)).toEqual(['quiet', 'uptown', 'downtown']);
+    expect(stats[0]).toEqual(expect.objectContaining({ visitCount: 0, lastVisitedAt: null, daysSinceVisit: null }));
+    expect(stats[2]).toEqual(expect.objectContaining({
+      visitCount: 3,
+      recentVisitCount: 2,
+      clientCount: 2,
+      lastVisitedAt: '2024-05-30T12:00:00.000Z',
+      daysSinceVisit: 1,
+    }));
+  });
+});
+
+describe('getCoverageLevel', () => {
+  it('buckets days since the last visit', () => {
+    expect(getCoverageLevel(3).label).toBe('This week');
+    expect(getCoverageLevel(30).label).toBe('This month');
+    expect(getCoverageLevel(200).label).toBe('Longer ago');
+    expect(getCoverageLevel(null).label).toBe('Longer ago');
+  });
+});
+
+describe('buildCoverageGrid', () => {
+  it('groups nearby visits into one cell colored by the latest visit', () => {
+    const cells = buildCoverageGrid([
+      visit('a', 0.0001, 0.0001, '2024-04-01T12:00:00Z'),
+      visit('b', 0.0002, 0.0002, '2024-05-29T12:00:00Z'),
+      visit('c', 0.05, 0.05, '2024-01-01T12:00:00Z'),
+    ], 400, now);
+
+    expect(cells).toHaveLength(2);
+    expect(cells[0]).toEqual(expect.objectContaining({ visitCount: 2, daysSinceVisit: 2, color: '#10B981' }));
+    expect(cells[1]).toEqual(expect.objectContaining({ visitCount: 1, color: '#EF4444' }));
+    expect(isPointInPolygon({ latitude: 0.0001, longitude: 0.0001 }, cells[0].boundary)).toBe(true);
+  });
+
+  it('skips visits without a location', () => {
+    expect(buildCoverageGrid([{ id: 'unknown', location: 'Main St' } as BusinessVisit], 400, now)).toEqual([]);
+  });
+});
@@ -0,0 +1,64 @@
+import { getTrashTypeLabel, toTrashItems } from '../trash';
+
+const TRASHED_AT = '2024-05-10T09:00:00Z';
+
+const noRows = { clients: [], payments: [], visits: [], goals: [] };
+
+const trashedClient = { id: 'client-1', name: 'Acme', email: 'acme@example.com', business_name: null, deleted_at: TRASHED_AT };
+
+describe('toTrashItems', () => {
+  it('folds records trashed with their client into the client entry', () => {
+    const items = toTrashItems({
+      ...noRows,
+      clients: [trashedClient],
+      payments: [{ id: 'payment-1', amount: 100, client_id: 'client-1', deleted_at: TRASHED_AT, client: { name: 'Acme', deleted_at: TRASHED_AT } }],
+      visits: [{ id: 'visit-1', client_id: 'client-1', deleted_at: TRASHED_AT, client: { name: 'Acme', deleted_at: TRASHED_AT } }],
+    });
+
+    expect(items).toEqual([
+      expect.objectContaining({ id: 'client-1', type: 'client', subtitle: 'acme@example.com', related_count: 2 }),
+    ]);
+  });
+
+  it('lists records trashed on their own separately, even when their client was trashed later', () => {
+    const items = toTrashItems({
+      ...noRows,
+      clients: [trashedClient],
+      payments: [{ id: 'payment-1', amount: 100, client_id: 'client-1', deleted_at: '2024-05-01T09:00:00Z', client: { name: 'Acme', deleted_at: TRASHED_AT } }],
+    });
+
+    expect(items.map(item => [item.id, item.related_count])).toEqual([['client-1', 0], ['payment-1', undefined]]);
+  });
+
+  it('folds a refund trashed with its payment into the payment entry', () => {
+    const items = toTrashItems({
+      ...noRows,
+      payments: [
+        { id: 'payment-1', amount: 100, currency: 'EUR', deleted_at: TRASHED_AT, allocations: [{ invoice_id: 'invoice-1' }] },
+        { id: 'refund-1', amount: 30, kind: 'refund', original_payment_id: 'payment-1', deleted_at: TRASHED_AT },
+      ],
+    });
+
+    expect(items).toEqual([
+      expect.objectContaining({ id: 'payment-1', title: 'Payment of €100.00', invoice_ids: ['invoice-1'] }),
+    ]);
+  });
+
+  it('lists the most recently trashed first', () => {
+    const items = toTrashItems({
+      ...noRows,
+      goals: [{ id: 'goal-1', title: 'Sign 10 clients', target: 10, deleted_at: '2024-05-01T09:00:00Z' }],
+      visits: [{ id: 'visit-1', location: null, deleted_at: '2024-05-03T09:00:00Z' }],
+      payments: [{ id: 'credit-1', amount: 20, kind: 'credit_note', deleted_at: '2024-05-02T09:00:00Z' }],
+    });
+
+    expect(items.map(item => item.title)).toEqual(['Visit', 'Credit note of $20.00', 'Sign 10 clients']);
+  });
+});
+
+describe('getTrashTypeLabel', () => {
+  it('names each kind of record', () => {
+    expect(getTrashTypeLabel('payment')).toBe('Payment');
+    expect(getTrashTypeLabel('goal')).toBe('Goal');
+  });
+});
@@ -0,0 +1,81 @@
+import {
+  checkVerifier,
+  clearSessionKey,
+  createVerifier,
+  decryptSecret,
+  deriveVaultKey,
+  encryptSecret,
+  generateSalt,
+  getSessionKey,
+  setSessionKey,
+} from '../vault';
+
+jest.mock('expo-crypto', () => ({ getRandomBytes: (size: number) => new Uint8Array(jest.requireActual('crypto').randomBytes(size)) }));
+
+// Far fewer rounds than the app uses, which is fine for checking the key is derived consistently
+const ITERATIONS = 1000;
+
+describe('deriveVaultKey', () => {
+  it('derives the same key from the same passphrase and salt only', async () => {
+    const salt = generateSalt();
+    const key = await deriveVaultKey('correct horse battery', salt, ITERATIONS);
+
+    expect(key).toHaveLength(32);
+    expect(await deriveVaultKey('correct horse battery', salt, ITERATIONS)).toEqual(key);
+    expect(await deriveVaultKey('correct horse battery', generateSalt(), ITERATIONS)).not.toEqual(key);
+  });
+});
+
+describe('encryptSecret', () => {
+  it('round-trips secrets, including non-ASCII text', async () => {
+    const key = await deriveVaultKey('correct horse battery', generateSalt(), ITERATIONS);
+    const secret = encryptSecret(key, 'pässwörd — 🔑');
+
+    expect(secret.ciphertext).not.toContain('pässwörd');
+    expect(decryptSecret(key, secret)).toBe('pässwörd — 🔑');
+  });
+
+  it('uses a fresh nonce every time', async () => {
+    const key = await deriveVaultKey('correct horse battery', generateSalt(), ITERATIONS);
+    const first = encryptSecret(key, 'hunter2');
+    const second = encryptSecret(key, 'hunter2');
+
+    expect(second.nonce).not.toBe(first.nonce);
+    expect(second.ciphertext).not.toBe(first.ciphertext);
+  });
+});
+
+describe('decryptSecret', () => {
+  it('refuses the wrong key and tampered ciphertext', async () => {
+    const salt = generateSalt();
+    const key = await deriveVaultKey('correct horse battery', salt, ITERATIONS);
+    const wrongKey = await deriveVaultKey('wrong horse battery', salt, ITERATIONS);
+    const secret = encryptSecret(key, 'hunter2');
+    const tampered = { ...secret, ciphertext: (secret.ciphertext[0] === '0' ? '1' : '0') + secret.ciphertext.slice(1) };
+
+    expect(() => decryptSecret(wrongKey, secret)).toThrow();
+    expect(() => decryptSecret(key, tampered)).toThrow();
+  });
+});
+
+describe('checkVerifier', () => {
+  it('accepts only the key the vault was set up with', async () => {
+    const salt = generateSalt();
+    const key = await deriveVaultKey('correct horse battery', salt, ITERATIONS);
+    const verifier = createVerifier(key);
+
+    expect(checkVerifier(key, verifier)).toBe(true);
+    expect(checkVerifier(await deriveVaultKey('wrong horse battery', salt, ITERATIONS), verifier)).toBe(false);
+  });
+});
+
+describe('clearSessionKey', () => {
+  it('zeroes the key before forgetting it', () => {
+    const key = new Uint8Array([1, 2, 3]);
+    setSessionKey(key);
+    clearSessionKey();
+
+    expect(getSessionKey()).toBeNull();
+    expect(Array.from(key)).toEqual([0, 0, 0]);
+  });
+});
@@ -0,0 +1,105 @@
+import { BusinessVisit } from '../../types';
+import {
+  buildVisitLocation,
+  getVisitCoordinates,
+  isSameBusiness,
+  parseVisitAddress,
+  parseVisitLocation,
+} from '../visitLocation';
+
+const visit = (overrides: Partial<BusinessVisit> = {}): BusinessVisit => ({
+  id: 'visit-1',
+  location: 'Business Visit - Unknown Location',
+  created_at: '2024-05-01T12:00:00Z',
+  ...overrides,
+} as BusinessVisit);
+
+const fields = {
+  business_name: 'Ace - Hardware',
+  street: '5 Elm St',
+  city: 'Springfield',
+  region: 'IL',
+  postal_code: '62704',
+  country: 'USA',
+};
+
+describe('parseVisitAddress', () => {
+  it('joins a bare street number to the street and finds the postal code', () => {
+    expect(parseVisitAddress('123, Main St, Springfield, IL, 62704, USA')).toEqual({
+      street: '123 Main St',
+      city: 'Springfield',
+      region: 'IL',
+      postal_code: '62704',
+      country: 'USA',
+    });
+  });
+
+  it('takes the last part as the country when there is no postal code', () => {
+    expect(parseVisitAddress('10 Downing St, London, Greater London, United Kingdom')).toEqual({
+      street: '10 Downing St',
+      city: 'London',
+      region: 'Greater London',
+      postal_code: null,
+      country: 'United Kingdom',
+    });
+  });
+
+  it('leaves coordinates and empty text unparsed', () => {
+    const empty = { street: null, city: null, region: null, postal_code: null, country: null };
+
+    expect(parseVisitAddress('40.712800, -74.006000')).toEqual(empty);
+    expect(parseVisitAddress('  ')).toEqual(empty);
+    expect(parseVisitAddress(null)).toEqual(empty);
+  });
+});
+
+describe('parseVisitLocation', () => {
+  it('keeps hyphenated business names and drops the coordinates', () => {
+    expect(parseVisitLocation('Ace - Hardware - 5 Elm St, Springfield (40.712800, -74.006000)')).toEqual({
+      business_name: 'Ace - Hardware',
+      street: '5 Elm St',
+      city: 'Springfield',
+      region: null,
+      postal_code: null,
+      country: null,
+    });
+  });
+
+  it('does not treat the default name as a business name', () => {
+    expect(parseVisitLocation('Business Visit - 40.712800, -74.006000 (40.712800, -74.006000)').business_name).toBeNull();
+  });
+
+  it('reads back what buildVisitLocation writes', () => {
+    const location = buildVisitLocation(fields, { latitude: 40.7128, longitude: -74.006 });
+
+    expect(location).toBe('Ace - Hardware - 5 Elm St, Springfield, IL, 62704, USA (40.712800, -74.006000)');
+    expect(parseVisitLocation(location)).toEqual(fields);
+  });
+});
+
+describe('buildVisitLocation', () => {
+  it('falls back to the coordinates, then to an unknown location', () => {
+    const unnamed = { business_name: null, street: null, city: null, region: null, postal_code: null, country: null };
+
+    expect(buildVisitLocation(unnamed, { latitude: 1.5, longitude: 2 })).toBe('Business Visit - 1.500000, 2.000000 (1.500000, 2.000000)');
+    expect(buildVisitLocation(unnamed)).toBe('Business Visit - Unknown Location');
+  });
+});
+
+describe('getVisitCoordinates', () => {
+  it('prefers the stored columns over the location string', () => {
+    const location = 'Ace - 5 Elm St (40.712800, -74.006000)';
+
+    expect(getVisitCoordinates(visit({ location, latitude: 1, longitude: 2 }))).toEqual({ latitude: 1, longitude: 2 });
+    expect(getVisitCoordinates(visit({ location }))).toEqual({ latitude: 40.7128, longitude: -74.006 });
+    expect(getVisitCoordinates(visit())).toBeNull();
+  });
+});
+
+describe('isSameBusiness', () => {
+  it('ignores case and spacing, for structured and legacy visits alike', () => {
+    expect(isSameBusiness(visit({ business_name: 'Ace  Hardware' }), ' ace hardware')).toBe(true);
+    expect(isSameBusiness(visit({ location: 'Ace Hardware - 5 Elm St' }), 'ACE HARDWARE')).toBe(true);
+    expect(isSameBusiness(visit(), 'Business Visit')).toBe(false);
+  });
+});
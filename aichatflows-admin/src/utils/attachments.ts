@@ -0,0 +1,109 @@
+import { Ionicons } from '@expo/vector-icons';
+import { ClientAttachment } from '../types';
+
+export const ATTACHMENT_BUCKET = 'client-attachments';
+
+// Photos are scaled down to fit this before upload; thumbnails to the smaller size
+export const MAX_IMAGE_DIMENSION = 2048;
+export const THUMBNAIL_DIMENSION = 320;
+export const IMAGE_COMPRESS = 0.8;
+export const THUMBNAIL_COMPRESS = 0.6;
+
+export const UPLOAD_MAX_ATTEMPTS = 3;
+
+// Signed URLs for viewing private files
+export const ATTACHMENT_URL_TTL_SECONDS = 60 * 60;
+
+export const ATTACHMENT_KINDS: { value: ClientAttachment['kind']; label: string; icon: keyof typeof Ionicons.glyphMap }[] = [
+  { value: 'photo', label: 'Photo', icon: 'image-outline' },
+  { value: 'logo', label: 'Logo', icon: 'color-palette-outline' },
+  { value: 'contract', label: 'Contract', icon: 'document-text-outline' },
+  { value: 'faq', label: 'FAQ Document', icon: 'help-circle-outline' },
+  { value: 'other', label: 'Other', icon: 'attach-outline' },
+];
+
+// A file picked from the camera, photo library or document picker
+export interface PickedFile {
+  uri: string;
+  name: string;
+  mimeType?: string;
+  size?: number;
+  width?: number;
+  height?: number;
+}
+
+export const getAttachmentKindLabel = (kind: ClientAttachment['kind']): string => {
+  return ATTACHMENT_KINDS.find(option => option.value === kind)?.label || 'Other';
+};
+
+export const getAttachmentKindIcon = (kind: ClientAttachment['kind']): keyof typeof Ionicons.glyphMap => {
+  return ATTACHMENT_KINDS.find(option => option.value === kind)?.icon || 'attach-outline';
+};
+
+export const isImageFile = (mimeType?: string | null): boolean => !!mimeType?.startsWith('image/');
+
+// Last path segment of a file URI, for files picked without a name
+export const getFileNameFromUri = (uri: string, fallback = 'file'): string => {
+  return decodeURIComponent(uri.split('?')[0].split('/').pop() || '') || fallback;
+};
+
+// Local file URIs (as opposed to already-uploaded http(s) URLs)
+export const isLocalFileUri = (uri?: string | null): boolean => !!uri && !/^https?:\/\//i.test(uri);
+
+// Best guess at a mime type from the file name when the picker doesn't report one
+export const guessMimeType = (fileName: string): string => {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  switch (extension) {
+    case 'jpg':
+    case 'jpeg':
+      return 'image/jpeg';
+    case 'png':
+      return 'image/png';
+    case 'heic':
+      return 'image/heic';
+    case 'webp':
+      return 'image/webp';
+    case 'pdf':
+      return 'application/pdf';
+    case 'doc':
+      return 'application/msword';
+    case 'docx':
+      return 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+    case 'txt':
+      return 'text/plain';
+    default:
+      return 'application/octet-stream';
+  }
+};
+
+// Storage keys are "<client id>/<timestamp>-<safe file name>"; thumbnails sit in "<client id>/thumbs/"
+export const getAttachmentPath = (clientId: string, fileName: string, now = Date.now()): string => {
+  const safeName = fileName.replace(/[^\w.-]+/g, '_').replace(/^_+/, '') || 'file';
+  return `${clientId}/${now}-${safeName}`;
+};
+
+export const getThumbnailPath = (storagePath: string): string => {
+  const [clientId, ...rest] = storagePath.split('/');
+  return `${clientId}/thumbs/${rest.join('/').replace(/\.[^.]+$/, '')}.jpg`;
+};
+
+// Swap the extension when an image is re-encoded before upload
+export const withExtension = (fileName: string, extension: string): string => {
+  return `${fileName.replace(/\.[^.]+$/, '')}.${extension}`;
+};
+
+// Scale to fit within maxDimension, never enlarging
+export const getResizedDimensions = (width: number, height: number, maxDimension: number): { width: number; height: number } => {
+  const scale = Math.min(1, maxDimension / Math.max(width, height));
+  return { width: Math.round(width * scale), height: Math.round(height * scale) };
+};
+
+// Wait 1s, 2s, 4s... between upload attempts
+export const getRetryDelay = (attempt: number): number => 1000 * 2 ** (attempt - 1);
+
+export const formatFileSize = (bytes?: number | null): string => {
+  if (!bytes) return '';
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
@@ -0,0 +1,37 @@
+export interface BulkFailure<T> {
+  item: T;
+  error: string;
+}
+
+export interface BulkResult<T> {
+  succeeded: T[];
+  failed: BulkFailure<T>[];
+}
+
+// Run an action over each item one at a time, collecting failures instead of stopping at the first
+export const runBulkAction = async <T>(
+  items: T[],
+  action: (item: T) => Promise<unknown>,
+  onProgress?: (done: number, total: number) => void
+): Promise<BulkResult<T>> => {
+  const result: BulkResult<T> = { succeeded: [], failed: [] };
+
+  for (const item of items) {
+    try {
+      await action(item);
+      result.succeeded.push(item);
+    } catch (error: any) {
+      result.failed.push({ item, error: error?.message || 'Unknown error' });
+    }
+    onProgress?.(result.succeeded.length + result.failed.length, items.length);
+  }
+
+  return result;
+};
+
+// e.g. "3 clients updated, 1 failed"
+export const describeBulkResult = (result: BulkResult<unknown>, noun: string, verb: string): string => {
+  const count = result.succeeded.length;
+  const summary = `${count} ${count === 1 ? noun : `${noun}s`} ${verb}`;
+  return result.failed.length > 0 ? `${summary}, ${result.failed.length} failed` : summary;
+};
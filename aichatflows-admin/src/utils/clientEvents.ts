@@ -0,0 +1,94 @@
+import { Ionicons } from '@expo/vector-icons';
+import { Client, ClientEvent, PlanInfo } from '../types';
+import { getPlanLabel } from './finance';
+import { DEFAULT_CURRENCY, formatMoney, getCurrency } from './currency';
+
+export interface ClientEventDisplay {
+  title: string;
+  detail?: string;
+  icon: keyof typeof Ionicons.glyphMap;
+  color: string;
+}
+
+const humanize = (value?: string | null): string => {
+  if (!value) return 'none';
+  return value.replace(/_/g, ' ').replace(/^\w/, c => c.toUpperCase());
+};
+
+// Title, detail line and icon for one timeline entry
+export const describeClientEvent = (event: ClientEvent, plans: PlanInfo[]): ClientEventDisplay => {
+  switch (event.event_type) {
+    case 'status_change':
+      return event.from_value
+        ? { title: `Status: ${humanize(event.from_value)} → ${humanize(event.to_value)}`, icon: 'swap-horizontal', color: '#F59E0B' }
+        : { title: `Client created as ${humanize(event.to_value)}`, icon: 'person-add', color: '#00D4AA' };
+    case 'payment_status_change':
+      return {
+        title: `Payment status: ${humanize(event.from_value)} → ${humanize(event.to_value)}`,
+        icon: 'card',
+        color: event.to_value === 'overdue' ? '#EF4444' : '#10B981',
+      };
+    case 'plan_change': {
+      const proration = Number(event.data?.proration_amount) || 0;
+      const currency = getCurrency(plans.find(plan => plan.name === event.to_value) || {});
+      return {
+        title: `Plan: ${getPlanLabel(plans, event.from_value || '')} → ${getPlanLabel(plans, event.to_value || '')}`,
+        detail: proration ? `${proration > 0 ? 'Prorated charge' : 'Prorated credit'} of ${formatMoney(Math.abs(proration), currency)}` : undefined,
+        icon: 'trending-up',
+        color: '#8B5CF6',
+      };
+    }
+    case 'payment': {
+      const amount = formatMoney(Number(event.data?.amount) || 0, event.data?.currency || DEFAULT_CURRENCY);
+      const kind = event.data?.kind && event.data.kind !== 'payment' ? humanize(event.data.kind) : 'Payment';
+      return {
+        title: event.from_value ? `${kind} of ${amount} marked ${event.to_value}` : `${kind} of ${amount} recorded`,
+        detail: event.from_value ? undefined : humanize(event.to_value),
+        icon: 'cash',
+        color: event.to_value === 'failed' ? '#EF4444' : '#10B981',
+      };
+    }
+    case 'visit':
+      return { title: 'Visit logged', detail: event.data?.location || undefined, icon: 'location', color: '#3B82F6' };
+    case 'onboarding_submission':
+      return { title: 'Onboarding form submitted', detail: event.to_value ? humanize(event.to_value) : undefined, icon: 'document-text', color: '#6366F1' };
+    case 'client_merged':
+      return { title: `Merged with ${event.from_value || 'a duplicate'}`, detail: event.data?.merged_email || undefined, icon: 'git-merge', color: '#6B7280' };
+    default:
+      return { title: humanize(event.event_type), icon: 'ellipse', color: '#6B7280' };
+  }
+};
+
+export const describeEventActor = (event: ClientEvent): string => {
+  if (event.actor_email) return event.actor_email;
+  return event.actor_id ? 'Unknown user' : 'System';
+};
+
+const getStatusChanges = (clientId: string, events: ClientEvent[]) => {
+  return events
+    .filter(event => event.client_id === clientId && event.event_type === 'status_change')
+    .sort((a, b) => a.occurred_at.localeCompare(b.occurred_at));
+};
+
+// When the client's history starts: its creation event, else the client record
+export const getClientStartDate = (client: Client, events: ClientEvent[]): Date => {
+  const first = getStatusChanges(client.id, events)[0];
+  return new Date(first?.occurred_at || client.created_at);
+};
+
+// A client's status as of a date, from recorded transitions; falls back to the current status without history
+export const getStatusAt = (client: Client, events: ClientEvent[], date: Date): Client['status'] | null => {
+  const changes = getStatusChanges(client.id, events);
+  if (changes.length === 0) return client.status;
+
+  const time = date.getTime();
+  const latest = changes.filter(change => new Date(change.occurred_at).getTime() <= time).pop();
+  return (latest?.to_value as Client['status']) || null;
+};
+
+// When the client was last cancelled, if they're cancelled now
+export const getChurnDate = (client: Client, events: ClientEvent[]): Date | null => {
+  if (client.status !== 'cancelled') return null;
+  const cancellation = getStatusChanges(client.id, events).filter(change => change.to_value === 'cancelled').pop();
+  return cancellation ? new Date(cancellation.occurred_at) : null;
+};
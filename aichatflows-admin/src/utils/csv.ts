@@ -0,0 +1,181 @@
+import { Share } from 'react-native';
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import { BusinessVisit, Client, CustomFieldDefinition, Goal, Payment, PlanInfo } from '../types';
+import { getCurrency } from './currency';
+import { getPlanLabel } from './finance';
+import { sortFieldDefinitions } from './customFields';
+import { getVisitCoordinates, getVisitLocationFields } from './visitLocation';
+
+type CsvValue = string | number | boolean | null | undefined;
+
+// One column of an export: its header and how to read it from an item
+export interface CsvColumn<T> {
+  header: string;
+  value: (item: T) => CsvValue;
+}
+
+const DELIMITERS = [',', '\t', ';'];
+
+// Quote a cell when needed; text that a spreadsheet would run as a formula is prefixed with '
+const toCsvCell = (value: CsvValue): string => {
+  if (value === null || value === undefined) return '';
+  let text = typeof value === 'boolean' ? (value ? 'yes' : 'no') : String(value);
+  if (typeof value === 'string' && /^[=+\-@]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Build a CSV document (header row first) from a list of items
+export const toCsv = <T>(items: T[], columns: CsvColumn<T>[]): string => {
+  const header = columns.map(column => toCsvCell(column.header)).join(',');
+  const rows = items.map(item => columns.map(column => toCsvCell(column.value(item))).join(','));
+  return [header, ...rows].join('\r\n');
+};
+
+// Comma, tab (pasted from a spreadsheet) or semicolon, whichever the first line uses most
+const detectDelimiter = (text: string): string => {
+  const firstLine = text.split(/\r?\n/, 1)[0] || '';
+  const counts = DELIMITERS.map(delimiter => firstLine.split(delimiter).length - 1);
+  const best = counts.indexOf(Math.max(...counts));
+  return counts[best] > 0 ? DELIMITERS[best] : ',';
+};
+
+// Parse CSV text into rows of cells, handling quoted cells, escaped quotes and line breaks inside quotes
+export const parseCsv = (text: string): string[][] => {
+  const input = text.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(input);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  // Blank lines carry no data
+  return rows.filter(cells => cells.some(value => value.trim() !== ''));
+};
+
+// Write a CSV to a file and open the native share sheet, or share the text where files can't be shared
+export const shareCsv = async (fileName: string, csv: string) => {
+  if (!(await Sharing.isAvailableAsync()) || !FileSystem.cacheDirectory) {
+    await Share.share({ title: fileName, message: csv });
+    return;
+  }
+
+  const fileUri = `${FileSystem.cacheDirectory}${fileName}`;
+  await FileSystem.writeAsStringAsync(fileUri, csv);
+  await Sharing.shareAsync(fileUri, {
+    mimeType: 'text/csv',
+    UTI: 'public.comma-separated-values-text',
+    dialogTitle: `Share ${fileName}`,
+  });
+};
+
+// Dated file name for an export, e.g. clients-2024-05-01.csv
+export const getCsvFileName = (name: string, date: Date = new Date()): string => {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${name}-${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}.csv`;
+};
+
+const findClient = (clients: Client[], clientId?: string) => {
+  return clientId ? clients.find(client => client.id === clientId) : undefined;
+};
+
+// Login passwords are never exported
+// Tags and each custom field get a column; custom field values are exported as stored
+export const getClientCsvColumns = (plans: PlanInfo[], customFields: CustomFieldDefinition[] = []): CsvColumn<Client>[] => [
+  { header: 'Name', value: client => client.name },
+  { header: 'Email', value: client => client.email },
+  { header: 'Phone', value: client => client.phone },
+  { header: 'Business Name', value: client => client.business_name },
+  { header: 'Status', value: client => client.status },
+  { header: 'Plan', value: client => (client.plan ? getPlanLabel(plans, client.plan) : '') },
+  { header: 'Plan Price', value: client => client.plan_price },
+  { header: 'Payment Status', value: client => client.payment_status },
+  { header: 'Platform Preference', value: client => client.platform_preference },
+  { header: 'Delivery Preference', value: client => client.delivery_preference },
+  { header: 'Instagram Handle', value: client => client.instagram_handle },
+  { header: 'Facebook URL', value: client => client.facebook_url },
+  { header: 'TikTok Handle', value: client => client.tiktok_handle },
+  { header: 'Signed In Person', value: client => client.signed_in_person },
+  { header: 'Notes', value: client => client.notes },
+  { header: 'Tags', value: client => client.tags?.join(', ') },
+  ...sortFieldDefinitions(customFields).map(definition => ({
+    header: definition.label,
+    value: (client: Client) => client.custom_fields?.[definition.key],
+  })),
+  { header: 'Created At', value: client => client.created_at },
+];
+
+export const getPaymentCsvColumns = (clients: Client[]): CsvColumn<Payment>[] => [
+  { header: 'Payment Date', value: payment => payment.payment_date },
+  { header: 'Client Name', value: payment => (payment.client || findClient(clients, payment.client_id))?.name },
+  { header: 'Client Email', value: payment => (payment.client || findClient(clients, payment.client_id))?.email },
+  { header: 'Amount', value: payment => payment.amount },
+  { header: 'Currency', value: payment => getCurrency(payment) },
+  { header: 'Amount Owed', value: payment => payment.amount_owed },
+  { header: 'Status', value: payment => payment.status },
+  { header: 'Kind', value: payment => payment.kind || 'payment' },
+  { header: 'Payment Method', value: payment => payment.payment_method },
+  { header: 'Description', value: payment => payment.description },
+  { header: 'Notes', value: payment => payment.notes },
+];
+
+export const getVisitCsvColumns = (clients: Client[]): CsvColumn<BusinessVisit>[] => [
+  { header: 'Date', value: visit => visit.timestamp || visit.created_at },
+  { header: 'Client Name', value: visit => (visit.client || findClient(clients, visit.client_id))?.name },
+  { header: 'Business Name', value: visit => getVisitLocationFields(visit).business_name },
+  { header: 'Street', value: visit => getVisitLocationFields(visit).street },
+  { header: 'City', value: visit => getVisitLocationFields(visit).city },
+  { header: 'Region', value: visit => getVisitLocationFields(visit).region },
+  { header: 'Postal Code', value: visit => getVisitLocationFields(visit).postal_code },
+  { header: 'Country', value: visit => getVisitLocationFields(visit).country },
+  { header: 'Location', value: visit => visit.location },
+  { header: 'Latitude', value: visit => getVisitCoordinates(visit)?.latitude },
+  { header: 'Longitude', value: visit => getVisitCoordinates(visit)?.longitude },
+  { header: 'Notes', value: visit => visit.notes },
+];
+
+export const getGoalCsvColumns = (
+  getProgress: (goal: Goal) => { current: number; percentage: number }
+): CsvColumn<Goal>[] => [
+  { header: 'Title', value: goal => goal.title },
+  { header: 'Frequency', value: goal => goal.frequency },
+  { header: 'Target', value: goal => goal.target },
+  { header: 'Current Progress', value: goal => getProgress(goal).current },
+  { header: 'Percent Complete', value: goal => Math.round(getProgress(goal).percentage) },
+  { header: 'Created At', value: goal => goal.created_at },
+];
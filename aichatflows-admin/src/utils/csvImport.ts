@@ -0,0 +1,234 @@
+import { Client, ClientFormData, PaymentFormData, PlanInfo } from '../types';
+import { validateClient, validatePayment } from './validation';
+import { SUPPORTED_CURRENCIES } from './currency';
+import { toISODate } from './invoices';
+
+export type CsvImportType = 'clients' | 'payments';
+
+// A field rows can be imported into, and header names it's recognized by
+export interface CsvImportField {
+  key: string;
+  label: string;
+  required?: boolean;
+  aliases: string[];
+}
+
+// Field key -> index of the CSV column it's read from (null = not imported)
+export type CsvColumnMapping = Record<string, number | null>;
+
+export interface CsvImportRow<T> {
+  rowNumber: number; // Line in the file, counting the header as line 1
+  data: T;
+  errors: string[];
+}
+
+// Rows that didn't make it into the database, by position in the list passed to the import
+export interface CsvImportResult {
+  imported: number;
+  failed: { index: number; message: string }[];
+}
+
+export const IMPORT_BATCH_SIZE = 50;
+
+export const CLIENT_IMPORT_FIELDS: CsvImportField[] = [
+  { key: 'name', label: 'Name', required: true, aliases: ['full name', 'client name', 'client', 'contact'] },
+  { key: 'email', label: 'Email', required: true, aliases: ['email address', 'e-mail'] },
+  { key: 'phone', label: 'Phone', required: true, aliases: ['phone number', 'mobile', 'cell'] },
+  { key: 'business_name', label: 'Business Name', aliases: ['business', 'company'] },
+  { key: 'status', label: 'Status', aliases: ['client status'] },
+  { key: 'plan', label: 'Plan', required: true, aliases: ['plan name', 'subscription'] },
+  { key: 'platform_preference', label: 'Platform Preference', required: true, aliases: ['platform'] },
+  { key: 'delivery_preference', label: 'Delivery Preference', required: true, aliases: ['delivery'] },
+  { key: 'instagram_handle', label: 'Instagram Handle', aliases: ['instagram'] },
+  { key: 'facebook_url', label: 'Facebook URL', aliases: ['facebook'] },
+  { key: 'tiktok_handle', label: 'TikTok Handle', aliases: ['tiktok'] },
+  { key: 'signed_in_person', label: 'Signed In Person', aliases: ['in person'] },
+  { key: 'notes', label: 'Notes', aliases: ['note', 'comments'] },
+];
+
+export const PAYMENT_IMPORT_FIELDS: CsvImportField[] = [
+  { key: 'client_email', label: 'Client Email', aliases: ['email'] },
+  { key: 'client_name', label: 'Client Name', aliases: ['client', 'name'] },
+  { key: 'amount', label: 'Amount', required: true, aliases: ['amount paid', 'paid', 'total'] },
+  { key: 'currency', label: 'Currency', aliases: [] },
+  { key: 'amount_owed', label: 'Amount Owed', aliases: ['owed', 'amount due'] },
+  { key: 'status', label: 'Status', aliases: ['payment status'] },
+  { key: 'payment_date', label: 'Payment Date', required: true, aliases: ['date', 'paid on'] },
+  { key: 'payment_method', label: 'Payment Method', aliases: ['method'] },
+  { key: 'description', label: 'Description', aliases: [] },
+  { key: 'notes', label: 'Notes', aliases: ['note', 'comments'] },
+];
+
+export const getImportFields = (type: CsvImportType): CsvImportField[] => {
+  return type === 'clients' ? CLIENT_IMPORT_FIELDS : PAYMENT_IMPORT_FIELDS;
+};
+
+const normalizeHeader = (value: string): string => value.trim().toLowerCase().replace(/[_\-]+/g, ' ');
+
+// Guess which column feeds each field from the header row; each column is used at most once
+export const autoMapColumns = (headers: string[], fields: CsvImportField[]): CsvColumnMapping => {
+  const normalized = headers.map(normalizeHeader);
+  const used = new Set<number>();
+  const mapping: CsvColumnMapping = {};
+
+  // Exact field names first so 'Client Email' isn't taken by the 'email' alias of another field
+  const passes: ((field: CsvImportField) => string[])[] = [
+    field => [normalizeHeader(field.label), normalizeHeader(field.key)],
+    field => field.aliases.map(normalizeHeader),
+  ];
+
+  fields.forEach(field => { mapping[field.key] = null; });
+  passes.forEach(getNames => {
+    fields.forEach(field => {
+      if (mapping[field.key] !== null) return;
+      const index = normalized.findIndex((header, i) => !used.has(i) && getNames(field).includes(header));
+      if (index >= 0) {
+        mapping[field.key] = index;
+        used.add(index);
+      }
+    });
+  });
+
+  return mapping;
+};
+
+// Required fields that aren't mapped to a column yet
+export const getUnmappedRequiredFields = (fields: CsvImportField[], mapping: CsvColumnMapping): CsvImportField[] => {
+  return fields.filter(field => field.required && (mapping[field.key] === null || mapping[field.key] === undefined));
+};
+
+// Undoes the ' exports put in front of text like "+1 555..." so spreadsheets don't treat it as a formula
+const readCell = (row: string[], mapping: CsvColumnMapping, key: string): string => {
+  const index = mapping[key];
+  const value = index === null || index === undefined ? '' : (row[index] || '').trim();
+  return value.replace(/^'(?=[=+\-@])/, '');
+};
+
+const toEnumValue = (value: string): string => value.trim().toLowerCase().replace(/[\s\-]+/g, '_');
+
+const toBoolean = (value: string): boolean => ['yes', 'y', 'true', '1', 'x'].includes(value.trim().toLowerCase());
+
+// Amounts as people type them: "$1,250.00" -> "1250.00"
+const toAmount = (value: string): string => value.replace(/[^0-9.\-]/g, '');
+
+const checkOption = (errors: string[], label: string, value: string, options: string[]) => {
+  if (value && !options.includes(value)) {
+    errors.push(`${label} must be one of: ${options.join(', ')}`);
+  }
+};
+
+// Turn mapped rows into client form data, with validation and duplicate errors per row
+export const buildClientImportRows = (
+  rows: string[][],
+  mapping: CsvColumnMapping,
+  plans: PlanInfo[],
+  existingClients: Client[]
+): CsvImportRow<ClientFormData>[] => {
+  const existingEmails = new Set(existingClients.map(client => client.email?.toLowerCase()));
+  const seenEmails = new Set<string>();
+
+  return rows.map((row, index) => {
+    const read = (key: string) => readCell(row, mapping, key);
+    const errors: string[] = [];
+
+    // Plans can be given by name or by the label exports use
+    const planValue = read('plan');
+    const plan = plans.find(p =>
+      p.name.toLowerCase() === planValue.toLowerCase() || p.label.toLowerCase() === planValue.toLowerCase()
+    );
+    if (planValue && !plan) {
+      errors.push(`Unknown plan "${planValue}"`);
+    }
+
+    const status = read('status') ? toEnumValue(read('status')) : 'active';
+    const platform = toEnumValue(read('platform_preference'));
+    const delivery = toEnumValue(read('delivery_preference'));
+
+    checkOption(errors, 'Status', status, ['active', 'in_progress', 'paused', 'cancelled']);
+    checkOption(errors, 'Platform preference', platform, ['instagram', 'facebook', 'tiktok']);
+    checkOption(errors, 'Delivery preference', delivery, ['delivery', 'pickup']);
+
+    const data: ClientFormData = {
+      name: read('name'),
+      email: read('email').toLowerCase(),
+      phone: read('phone'),
+      status: status as Client['status'],
+      plan: plan?.name || planValue || undefined,
+      platform_preference: (platform || undefined) as Client['platform_preference'],
+      delivery_preference: (delivery || undefined) as Client['delivery_preference'],
+      business_name: read('business_name') || undefined,
+      instagram_handle: read('instagram_handle').replace(/^@/, '') || undefined,
+      facebook_url: read('facebook_url') || undefined,
+      tiktok_handle: read('tiktok_handle').replace(/^@/, '') || undefined,
+      signed_in_person: toBoolean(read('signed_in_person')),
+      notes: read('notes') || undefined,
+    };
+
+    const validation = validateClient(data);
+    errors.push(...Object.values(validation.errors));
+
+    if (data.email) {
+      if (existingEmails.has(data.email)) {
+        errors.push('A client with this email already exists');
+      } else if (seenEmails.has(data.email)) {
+        errors.push('Email appears more than once in this file');
+      }
+      seenEmails.add(data.email);
+    }
+
+    return { rowNumber: index + 2, data, errors };
+  });
+};
+
+// Turn mapped rows into payment form data, matching each row to a client by email, then by name
+export const buildPaymentImportRows = (
+  rows: string[][],
+  mapping: CsvColumnMapping,
+  clients: Client[],
+  defaultCurrency: string
+): CsvImportRow<PaymentFormData>[] => {
+  return rows.map((row, index) => {
+    const read = (key: string) => readCell(row, mapping, key);
+    const errors: string[] = [];
+
+    const email = read('client_email').toLowerCase();
+    const name = read('client_name').toLowerCase();
+    const client = (email && clients.find(c => c.email?.toLowerCase() === email)) ||
+      (name && clients.find(c => c.name.toLowerCase() === name || c.business_name?.toLowerCase() === name)) ||
+      undefined;
+
+    if (!email && !name) {
+      errors.push('Client email or name is required');
+    } else if (!client) {
+      errors.push(`No client found for "${read('client_email') || read('client_name')}"`);
+    }
+
+    const status = read('status') ? toEnumValue(read('status')) : 'confirmed';
+    checkOption(errors, 'Status', status, ['pending', 'confirmed', 'failed']);
+
+    const currency = (read('currency') || defaultCurrency).toUpperCase();
+    checkOption(errors, 'Currency', currency, SUPPORTED_CURRENCIES);
+
+    // Store dates as YYYY-MM-DD whatever format the spreadsheet used
+    const rawDate = read('payment_date');
+    const parsedDate = new Date(/^\d{4}-\d{2}-\d{2}$/.test(rawDate) ? `${rawDate}T00:00:00` : rawDate);
+    const paymentDate = rawDate && !isNaN(parsedDate.getTime()) ? toISODate(parsedDate) : rawDate;
+
+    const data: PaymentFormData = {
+      client_id: client?.id || '',
+      amount: toAmount(read('amount')),
+      amount_owed: toAmount(read('amount_owed')) || undefined,
+      status: status as PaymentFormData['status'],
+      payment_date: paymentDate,
+      currency,
+      payment_method: read('payment_method') || undefined,
+      description: read('description') || undefined,
+      notes: read('notes') || undefined,
+    };
+
+    const validation = validatePayment(data);
+    errors.push(...Object.values(validation.errors));
+
+    return { rowNumber: index + 2, data, errors };
+  });
+};
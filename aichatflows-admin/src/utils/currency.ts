@@ -0,0 +1,89 @@
+import { Payment } from '../types';
+
+export const DEFAULT_CURRENCY = 'USD';
+
+export const SUPPORTED_CURRENCIES = ['USD', 'CAD', 'EUR', 'GBP', 'AUD'];
+
+// Value of one unit of each currency in US dollars
+export type ExchangeRates = Record<string, number>;
+
+export const DEFAULT_EXCHANGE_RATES: ExchangeRates = {
+  USD: 1,
+  CAD: 0.73,
+  EUR: 1.08,
+  GBP: 1.27,
+  AUD: 0.66,
+};
+
+// Base currency and rates used to bring mixed-currency amounts onto one scale
+export interface CurrencyConversion {
+  baseCurrency: string;
+  rates: ExchangeRates;
+}
+
+const roundCurrency = (amount: number): number => Math.round(amount * 100) / 100;
+
+// Currency a payment or plan is priced in (rows from before multi-currency are USD)
+export const getCurrency = (item: { currency?: string | null }): string => {
+  return (item.currency || DEFAULT_CURRENCY).toUpperCase();
+};
+
+// Convert an amount between two currencies; amounts with no known rate are left as-is
+export const convertAmount = (amount: number, from: string, to: string, rates: ExchangeRates): number => {
+  if (from === to) return amount;
+  const fromRate = rates[from];
+  const toRate = rates[to];
+  if (!fromRate || !toRate) {
+    console.warn(`⚠️ No exchange rate for ${!fromRate ? from : to}, amount left unconverted`);
+    return amount;
+  }
+  return roundCurrency((amount * fromRate) / toRate);
+};
+
+// An amount in the base currency, or as given when there's nothing to convert to
+export const convertToBase = (amount: number, currency: string, conversion?: CurrencyConversion): number => {
+  if (!conversion) return amount;
+  return convertAmount(amount, currency, conversion.baseCurrency, conversion.rates);
+};
+
+// A payment's amount in the base currency, or as recorded when there's nothing to convert to
+export const toBaseAmount = (payment: Payment, conversion?: CurrencyConversion): number => {
+  return convertToBase(payment.amount, getCurrency(payment), conversion);
+};
+
+// Format an amount in a given currency
+export const formatMoney = (amount: number, currency: string = DEFAULT_CURRENCY, fractionDigits = 2): string => {
+  try {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency,
+      minimumFractionDigits: fractionDigits,
+      maximumFractionDigits: fractionDigits,
+    }).format(amount);
+  } catch {
+    // Unknown currency codes still display
+    return `${currency} ${amount.toFixed(fractionDigits)}`;
+  }
+};
+
+// Original amount, for showing next to a converted one; empty when no conversion happened
+export const formatOriginalAmount = (
+  amount: number,
+  currency: string,
+  baseCurrency: string,
+  fractionDigits = 2
+): string => {
+  return currency === baseCurrency ? '' : formatMoney(amount, currency, fractionDigits);
+};
+
+// Totals per original currency for amounts not already in the base currency
+export const formatForeignTotals = (
+  byCurrency: Record<string, number>,
+  baseCurrency: string,
+  fractionDigits = 0
+): string => {
+  return Object.entries(byCurrency)
+    .filter(([currency, amount]) => currency !== baseCurrency && amount !== 0)
+    .map(([currency, amount]) => formatMoney(amount, currency, fractionDigits))
+    .join(' · ');
+};
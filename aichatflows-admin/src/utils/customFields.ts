@@ -0,0 +1,126 @@
+import { Client, CustomFieldDefinition, CustomFieldValue } from '../types';
+
+export const CUSTOM_FIELD_TYPES: { value: CustomFieldDefinition['field_type']; label: string }[] = [
+  { value: 'text', label: 'Text' },
+  { value: 'number', label: 'Number' },
+  { value: 'select', label: 'Select' },
+  { value: 'date', label: 'Date' },
+  { value: 'boolean', label: 'Yes / No' },
+];
+
+// Filter group ids for custom field facets are prefixed so they can't clash with built-in ones
+export const CUSTOM_FILTER_PREFIX = 'custom:';
+export const TAG_FILTER_ID = 'tags';
+
+const DATE_INPUT_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+// "Lead Source" -> "lead_source"
+export const toFieldKey = (label: string): string => {
+  return label.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+};
+
+// Tags are compared case-insensitively, so they are stored lowercase without surrounding spaces
+export const normalizeTag = (tag: string): string => tag.trim().replace(/^#/, '').replace(/\s+/g, ' ').toLowerCase();
+
+// Unique normalized tags, dropping empty ones
+export const normalizeTags = (tags: string[]): string[] => {
+  return Array.from(new Set(tags.map(normalizeTag).filter(Boolean)));
+};
+
+// Split "vip, wholesale" into unique normalized tags
+export const parseTags = (input: string): string[] => normalizeTags(input.split(','));
+
+// Every tag in use, alphabetically
+export const getAllTags = (clients: Pick<Client, 'tags'>[]): string[] => {
+  const tags = new Set<string>();
+  clients.forEach(client => client.tags?.forEach(tag => tags.add(tag)));
+  return Array.from(tags).sort();
+};
+
+// Definitions in the order admins arranged them
+export const sortFieldDefinitions = (definitions: CustomFieldDefinition[]): CustomFieldDefinition[] => {
+  return [...definitions].sort((a, b) => a.position - b.position || a.label.localeCompare(b.label));
+};
+
+const isValidDateInput = (input: string): boolean => {
+  return DATE_INPUT_REGEX.test(input) && !isNaN(new Date(`${input}T00:00:00`).getTime());
+};
+
+// Convert a form input to the value stored for the field; empty input is null
+export const parseCustomFieldInput = (definition: CustomFieldDefinition, input: string | undefined): CustomFieldValue => {
+  const trimmed = (input || '').trim();
+  if (!trimmed) return null;
+
+  switch (definition.field_type) {
+    case 'number': {
+      const number = Number(trimmed);
+      return isNaN(number) ? null : number;
+    }
+    case 'boolean':
+      return trimmed === 'true';
+    case 'date':
+      return isValidDateInput(trimmed) ? trimmed : null;
+    default:
+      return trimmed;
+  }
+};
+
+// Convert a stored value back to what the form input shows
+export const toCustomFieldInput = (value: CustomFieldValue | undefined): string => {
+  if (value === null || value === undefined) return '';
+  return String(value);
+};
+
+// Form inputs for a client's stored values
+export const getCustomFieldInputs = (
+  definitions: CustomFieldDefinition[],
+  values: Record<string, CustomFieldValue> | undefined
+): Record<string, string> => {
+  const inputs: Record<string, string> = {};
+  definitions.forEach(definition => {
+    inputs[definition.key] = toCustomFieldInput(values?.[definition.key]);
+  });
+  return inputs;
+};
+
+// Stored values from form inputs; values of fields that no longer have a definition are kept
+export const getCustomFieldValues = (
+  definitions: CustomFieldDefinition[],
+  inputs: Record<string, string> | undefined,
+  existing: Record<string, CustomFieldValue> = {}
+): Record<string, CustomFieldValue> => {
+  const values = { ...existing };
+  definitions.forEach(definition => {
+    const value = parseCustomFieldInput(definition, inputs?.[definition.key]);
+    if (value === null) {
+      delete values[definition.key];
+    } else {
+      values[definition.key] = value;
+    }
+  });
+  return values;
+};
+
+// Readable value for detail screens and exports
+export const formatCustomFieldValue = (definition: CustomFieldDefinition, value: CustomFieldValue | undefined): string => {
+  if (value === null || value === undefined || value === '') return '';
+  if (definition.field_type === 'boolean') return value ? 'Yes' : 'No';
+  if (definition.field_type === 'date' && typeof value === 'string' && isValidDateInput(value)) {
+    return new Date(`${value}T00:00:00`).toLocaleDateString();
+  }
+  return String(value);
+};
+
+// Whether a client matches the selected values of a tag or custom field facet; other groups always match
+export const matchesCustomFieldFilter = (client: Client, groupId: string, values: any[]): boolean => {
+  if (groupId === TAG_FILTER_ID) {
+    // A client needs every selected tag
+    return values.every(tag => client.tags?.includes(tag));
+  }
+  if (groupId.startsWith(CUSTOM_FILTER_PREFIX)) {
+    const value = client.custom_fields?.[groupId.slice(CUSTOM_FILTER_PREFIX.length)];
+    // Unanswered yes/no fields count as "No"
+    return values.includes(typeof values[0] === 'boolean' ? !!value : value);
+  }
+  return true;
+};
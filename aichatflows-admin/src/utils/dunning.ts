@@ -0,0 +1,144 @@
+import { Client, DunningReminder, Invoice, Payment, PlanInfo } from '../types';
+import { DEFAULT_EXCHANGE_RATES, ExchangeRates, convertAmount, getCurrency } from './currency';
+import { getClientPlanInfo } from './finance';
+import {
+  INVOICE_PAYMENT_TERMS_DAYS,
+  findInvoiceToSettle,
+  getInvoiceBalance,
+  parseISODate,
+  toISODate,
+} from './invoices';
+
+// Days late at which a payment reminder goes out
+export const DUNNING_REMINDER_DAYS = [3, 7, 14];
+
+// Days after the due date before a client is flagged overdue
+export const DEFAULT_DUNNING_GRACE_DAYS = 3;
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+export interface DunningStatus {
+  client: Client;
+  dueDate: string;
+  daysLate: number;
+  amountDue: number;
+  currency: string; // amountDue's currency
+  isOverdue: boolean;
+  reminderStage: number | null;
+  invoiceId?: string;
+}
+
+// Next date a client owes money: the oldest unpaid invoice, or their first bill after signing up.
+// Everything open is totalled in the oldest invoice's currency
+export const getNextDueDate = (
+  client: Client,
+  invoices: Invoice[],
+  payments: Payment[],
+  plans: PlanInfo[],
+  rates: ExchangeRates = DEFAULT_EXCHANGE_RATES
+): { dueDate: Date; amountDue: number; currency: string; invoiceId?: string } | null => {
+  const invoice = findInvoiceToSettle(client.id, invoices, payments);
+  if (invoice) {
+    const currency = getCurrency(invoice);
+    return {
+      dueDate: parseISODate(invoice.due_date),
+      amountDue: invoices
+        .filter(i => i.client_id === client.id && i.status === 'open')
+        .reduce((sum, i) => sum + convertAmount(getInvoiceBalance(i, payments), getCurrency(i), currency, rates), 0),
+      currency,
+      invoiceId: invoice.id,
+    };
+  }
+
+  // Clients that have been invoiced before and have nothing open owe nothing right now
+  const hasInvoices = invoices.some(i => i.client_id === client.id);
+  const hasConfirmedPayment = payments.some(p => p.client_id === client.id && p.status === 'confirmed');
+  if (hasInvoices || hasConfirmedPayment || !client.created_at) return null;
+
+  // Never billed: the first month is due a payment-terms period after signup
+  const dueDate = new Date(client.created_at);
+  dueDate.setHours(0, 0, 0, 0);
+  dueDate.setDate(dueDate.getDate() + INVOICE_PAYMENT_TERMS_DAYS);
+  const planInfo = getClientPlanInfo(client, plans);
+  return { dueDate, amountDue: planInfo.price, currency: getCurrency(planInfo) };
+};
+
+// Whole days between a due date and now (negative when not yet due)
+export const getDaysLate = (dueDate: Date, now: Date = new Date()): number => {
+  const due = new Date(dueDate.getFullYear(), dueDate.getMonth(), dueDate.getDate());
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  return Math.round((today.getTime() - due.getTime()) / MS_PER_DAY);
+};
+
+// Latest reminder stage a client has reached
+export const getReminderStage = (daysLate: number): number | null => {
+  const reached = DUNNING_REMINDER_DAYS.filter(days => daysLate >= days);
+  return reached.length > 0 ? reached[reached.length - 1] : null;
+};
+
+// Evaluate where a single client is in the dunning schedule
+export const evaluateDunning = (
+  client: Client,
+  invoices: Invoice[],
+  payments: Payment[],
+  plans: PlanInfo[],
+  graceDays: number = DEFAULT_DUNNING_GRACE_DAYS,
+  now: Date = new Date(),
+  rates: ExchangeRates = DEFAULT_EXCHANGE_RATES
+): DunningStatus | null => {
+  if (client.status === 'cancelled') return null;
+
+  const next = getNextDueDate(client, invoices, payments, plans, rates);
+  if (!next || next.amountDue <= 0) return null;
+
+  const daysLate = getDaysLate(next.dueDate, now);
+
+  return {
+    client,
+    dueDate: toISODate(next.dueDate),
+    daysLate,
+    amountDue: next.amountDue,
+    currency: next.currency,
+    isOverdue: daysLate > graceDays,
+    reminderStage: getReminderStage(daysLate),
+    invoiceId: next.invoiceId,
+  };
+};
+
+// Clients past their due date, most late first
+export const buildDunningReport = (
+  clients: Client[],
+  invoices: Invoice[],
+  payments: Payment[],
+  plans: PlanInfo[],
+  graceDays: number = DEFAULT_DUNNING_GRACE_DAYS,
+  now: Date = new Date(),
+  rates: ExchangeRates = DEFAULT_EXCHANGE_RATES
+): DunningStatus[] => {
+  return clients
+    .map(client => evaluateDunning(client, invoices, payments, plans, graceDays, now, rates))
+    .filter((status): status is DunningStatus => status !== null && status.daysLate > 0)
+    .sort((a, b) => b.daysLate - a.daysLate);
+};
+
+// The reminder a status calls for, as recorded once it has been sent
+export const toDunningReminder = (status: DunningStatus): DunningReminder | null => {
+  if (status.reminderStage === null) return null;
+  return {
+    client_id: status.client.id,
+    invoice_id: status.invoiceId || null,
+    due_date: status.dueDate,
+    reminder_stage: status.reminderStage,
+  };
+};
+
+// Key for a recorded reminder, matching getReminderKey for the status that called for it
+export const getSentReminderKey = (reminder: DunningReminder): string => {
+  return `dunning_${reminder.client_id}_${reminder.invoice_id || reminder.due_date}_${reminder.reminder_stage}`;
+};
+
+// Key identifying one reminder for one debt so it is only sent once
+export const getReminderKey = (status: DunningStatus): string | null => {
+  const reminder = toDunningReminder(status);
+  return reminder ? getSentReminderKey(reminder) : null;
+};
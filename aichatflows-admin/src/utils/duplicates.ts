@@ -0,0 +1,142 @@
+import { Client, CustomFieldValue } from '../types';
+import { normalizeTags } from './customFields';
+import { calculateSimilarity } from './search';
+import { formatPhoneNumber } from './validation';
+
+// Pairs scoring at least this are listed as likely duplicates
+export const DUPLICATE_SCORE_THRESHOLD = 0.7;
+
+// Fields compared between two clients; exact fields only count when identical after normalizing
+interface DuplicateMatchField {
+  key: keyof Client;
+  label: string;
+  weight: number;
+  fuzzy: boolean;
+  threshold?: number; // Minimum similarity for fuzzy fields
+  normalize: (value: string) => string;
+}
+
+const normalizeText = (value: string) => value.trim().toLowerCase().replace(/\s+/g, ' ');
+
+// "+1 555 010 2000", "15550102000" and "(555) 010-2000" all come out the same
+export const normalizePhone = (phone: string): string => {
+  const digits = phone.replace(/\D/g, '');
+  const formatted = formatPhoneNumber(/^1\d{10}$/.test(digits) ? `+${digits}` : phone);
+  return formatted.replace(/^\+1 /, '');
+};
+
+// "@Jane.Doe", "jane.doe" and "instagram.com/jane.doe/" are the same account
+export const normalizeHandle = (handle: string): string => {
+  return handle.trim().toLowerCase().replace(/^https?:\/\/(www\.)?[^/]+\//, '').replace(/^@/, '').replace(/\/+$/, '');
+};
+
+export const DUPLICATE_MATCH_FIELDS: DuplicateMatchField[] = [
+  { key: 'email', label: 'Email', weight: 1.0, fuzzy: false, normalize: normalizeText },
+  { key: 'phone', label: 'Phone', weight: 0.9, fuzzy: false, normalize: normalizePhone },
+  { key: 'instagram_handle', label: 'Instagram', weight: 0.9, fuzzy: false, normalize: normalizeHandle },
+  { key: 'tiktok_handle', label: 'TikTok', weight: 0.9, fuzzy: false, normalize: normalizeHandle },
+  { key: 'facebook_url', label: 'Facebook', weight: 0.9, fuzzy: false, normalize: normalizeHandle },
+  { key: 'name', label: 'Name', weight: 0.75, fuzzy: true, threshold: 0.8, normalize: normalizeText },
+  { key: 'business_name', label: 'Business name', weight: 0.6, fuzzy: true, threshold: 0.8, normalize: normalizeText },
+];
+
+export interface DuplicatePair {
+  key: string; // Stable id for the pair, whichever order the clients come in
+  clients: [Client, Client];
+  score: number; // 0-1
+  matchedFields: string[]; // Labels of the fields that matched
+}
+
+export const getPairKey = (a: Client, b: Client): string => [a.id, b.id].sort().join(':');
+
+// How likely two clients are the same person; each matching field adds independent evidence
+export const scoreClientPair = (a: Client, b: Client): { score: number; matchedFields: string[] } => {
+  let missProbability = 1;
+  const matchedFields: string[] = [];
+
+  DUPLICATE_MATCH_FIELDS.forEach(field => {
+    const left = a[field.key];
+    const right = b[field.key];
+    if (typeof left !== 'string' || typeof right !== 'string') return;
+
+    const normalizedLeft = field.normalize(left);
+    const normalizedRight = field.normalize(right);
+    if (!normalizedLeft || !normalizedRight) return;
+
+    let fieldScore = 0;
+    if (normalizedLeft === normalizedRight) {
+      fieldScore = 1;
+    } else if (field.fuzzy && Math.min(normalizedLeft.length, normalizedRight.length) >= 3) {
+      const similarity = calculateSimilarity(normalizedLeft, normalizedRight);
+      if (similarity >= (field.threshold || 0.6)) {
+        fieldScore = similarity * 0.8; // Same discount fuzzySearchItems gives near matches
+      }
+    }
+
+    if (fieldScore > 0) {
+      matchedFields.push(field.label);
+      missProbability *= 1 - fieldScore * field.weight;
+    }
+  });
+
+  return { score: 1 - missProbability, matchedFields };
+};
+
+// Likely duplicate pairs, most confident first
+export const findDuplicateClients = (
+  clients: Client[],
+  dismissedPairs: string[] = [],
+  threshold: number = DUPLICATE_SCORE_THRESHOLD
+): DuplicatePair[] => {
+  const dismissed = new Set(dismissedPairs);
+  const pairs: DuplicatePair[] = [];
+
+  for (let i = 0; i < clients.length; i++) {
+    for (let j = i + 1; j < clients.length; j++) {
+      const key = getPairKey(clients[i], clients[j]);
+      if (dismissed.has(key)) continue;
+
+      const { score, matchedFields } = scoreClientPair(clients[i], clients[j]);
+      if (score >= threshold) {
+        pairs.push({ key, clients: [clients[i], clients[j]], score, matchedFields });
+      }
+    }
+  }
+
+  return pairs.sort((a, b) => b.score - a.score);
+};
+
+// Fields the merge screen lets you pick between; must match what merge_clients() updates
+export const MERGE_FIELDS: { key: keyof Client; label: string }[] = [
+  { key: 'name', label: 'Name' },
+  { key: 'email', label: 'Email' },
+  { key: 'phone', label: 'Phone' },
+  { key: 'business_name', label: 'Business Name' },
+  { key: 'instagram_handle', label: 'Instagram Handle' },
+  { key: 'facebook_url', label: 'Facebook URL' },
+  { key: 'tiktok_handle', label: 'TikTok Handle' },
+  { key: 'business_type', label: 'Business Type' },
+  { key: 'business_niche', label: 'Business Niche' },
+  { key: 'products_or_services', label: 'Products or Services' },
+  { key: 'notes', label: 'Notes' },
+];
+
+// Default picks: the survivor's value, or the duplicate's where the survivor has none
+export const getDefaultMergeValues = (survivor: Client, duplicate: Client): Partial<Record<keyof Client, string>> => {
+  const values: Partial<Record<keyof Client, string>> = {};
+  MERGE_FIELDS.forEach(({ key }) => {
+    const value = (survivor[key] as string | undefined) || (duplicate[key] as string | undefined);
+    if (value) values[key] = value;
+  });
+  return values;
+};
+
+// Both records' tags; merge_clients() keeps them all
+export const getMergedTags = (survivor: Client, duplicate: Client): string[] => {
+  return normalizeTags([...(survivor.tags || []), ...(duplicate.tags || [])]);
+};
+
+// Default custom field picks: the survivor's answers, filled in from the duplicate's
+export const getDefaultCustomFieldMerge = (survivor: Client, duplicate: Client): Record<string, CustomFieldValue> => {
+  return { ...(duplicate.custom_fields || {}), ...(survivor.custom_fields || {}) };
+};
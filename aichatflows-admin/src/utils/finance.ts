@@ -1,20 +1,30 @@
-import { Client, RevenueStats, PlanInfo, ActivityLogEntry } from '../types';
+import { Client, RevenueStats, PlanInfo, PlanRevenue, ActivityLogEntry, Invoice, Payment } from '../types';
+import { CurrencyConversion, DEFAULT_CURRENCY, convertToBase, formatMoney, getCurrency } from './currency';
+import { BILLABLE_CLIENT_STATUSES, deriveClientPaymentStatus, getInvoiceAmountPaid, getInvoicesForPeriod } from './invoices';
 
-// Plan definitions with pricing
-export const PLANS: Record<'starter' | 'pro', PlanInfo> = {
-  starter: {
+// Default plan catalog, used to seed the plans table and when it can't be loaded
+export const DEFAULT_PLANS: PlanInfo[] = [
+  {
     name: 'starter',
+    label: 'Starter',
     price: 100,
+    billing_interval: 'month',
+    archived: false,
     features: [
       'Basic AI Chat Flows',
       'Up to 100 conversations/month',
       'Email support',
       'Basic analytics'
-    ]
+    ],
+    platforms: ['instagram'],
+    requires_payment_method: false,
   },
-  pro: {
+  {
     name: 'pro',
+    label: 'Pro',
     price: 150,
+    billing_interval: 'month',
+    archived: false,
     features: [
       'Advanced AI Chat Flows',
       'Unlimited conversations',
@@ -22,87 +32,170 @@ export const PLANS: Record<'starter' | 'pro', PlanInfo> = {
       'Advanced analytics',
       'Custom integrations',
       'Multi-platform support'
-    ]
+    ],
+    platforms: ['instagram', 'facebook', 'tiktok'],
+    requires_payment_method: true,
   }
+];
+
+// Platforms a client can be set up on
+export const CLIENT_PLATFORMS: NonNullable<Client['platform_preference']>[] = ['instagram', 'facebook', 'tiktok'];
+
+// Find a plan in the catalog by its key
+export const findPlan = (plans: PlanInfo[], name?: string): PlanInfo | undefined => {
+  return name ? plans.find(plan => plan.name === name) : undefined;
+};
+
+// Plans that can be offered to new clients, cheapest first
+export const getActivePlans = (plans: PlanInfo[]): PlanInfo[] => {
+  return plans.filter(plan => !plan.archived).sort((a, b) => a.price - b.price);
+};
+
+// Plan used for clients with no plan set (cheapest active plan)
+export const getDefaultPlan = (plans: PlanInfo[]): PlanInfo => {
+  return getActivePlans(plans)[0] || plans[0] || DEFAULT_PLANS[0];
+};
+
+// Display label for a plan key
+export const getPlanLabel = (plans: PlanInfo[], name?: string): string => {
+  const plan = findPlan(plans, name);
+  if (plan) return plan.label;
+  if (!name) return 'No plan';
+  return name.charAt(0).toUpperCase() + name.slice(1);
+};
+
+// Platforms a plan covers; a plan with no list covers them all
+export const getPlanPlatforms = (plan?: PlanInfo): NonNullable<Client['platform_preference']>[] => {
+  return plan?.platforms && plan.platforms.length > 0 ? plan.platforms : CLIENT_PLATFORMS;
+};
+
+// Build a plan key from its display name (lowercase, underscores)
+export const toPlanKey = (label: string): string => {
+  return label.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+};
+
+// Normalize a plan's price to a monthly amount
+export const getMonthlyPrice = (plan: Pick<PlanInfo, 'price' | 'billing_interval'>): number => {
+  return plan.billing_interval === 'year' ? Math.round((plan.price / 12) * 100) / 100 : plan.price;
+};
+
+// A plan's monthly price in the base currency
+const getMonthlyBasePrice = (plan: PlanInfo, conversion?: CurrencyConversion): number => {
+  return convertToBase(getMonthlyPrice(plan), getCurrency(plan), conversion);
 };
 
-// Calculate comprehensive revenue statistics
-export const calculateRevenueStats = (clients: Client[]): RevenueStats => {
-  let starterCount = 0;
-  let proCount = 0;
+// Calculate comprehensive revenue statistics from the invoice ledger, in the base currency
+export const calculateRevenueStats = (
+  clients: Client[],
+  invoices: Invoice[],
+  payments: Payment[],
+  plans: PlanInfo[],
+  periodDate: Date = new Date(),
+  graceDays: number = 0,
+  conversion?: CurrencyConversion
+): RevenueStats => {
   let paidCount = 0;
   let unpaidCount = 0;
   let overdueCount = 0;
 
+  const breakdown = new Map<string, PlanRevenue>();
+  const getBreakdown = (planName: string) => {
+    if (!breakdown.has(planName)) {
+      breakdown.set(planName, { plan: planName, label: getPlanLabel(plans, planName), count: 0, revenue: 0 });
+    }
+    return breakdown.get(planName)!;
+  };
+
+  // Show every active plan, even ones with no clients yet
+  getActivePlans(plans).forEach(plan => getBreakdown(plan.name));
+
   clients.forEach(client => {
     // Count by plan
-    if (client.plan === 'starter') {
-      starterCount++;
-    } else if (client.plan === 'pro') {
-      proCount++;
-    }
+    getBreakdown(getClientPlanInfo(client, plans).name).count++;
 
-    // Count by payment status
-    if (client.payment_status === 'paid') {
+    // Count by payment status derived from open invoices
+    const paymentStatus = deriveClientPaymentStatus(client.id, invoices, periodDate, graceDays);
+    if (paymentStatus === 'paid') {
       paidCount++;
-    } else if (client.payment_status === 'unpaid') {
-      unpaidCount++;
-    } else if (client.payment_status === 'overdue') {
+    } else if (paymentStatus === 'overdue') {
       overdueCount++;
     } else {
-      // Default to unpaid if no status set
       unpaidCount++;
     }
   });
 
-  // Calculate revenue from paid clients only
-  const paidClients = clients.filter(client => client.payment_status === 'paid');
-  const starterRevenue = paidClients.filter(c => c.plan === 'starter').length * PLANS.starter.price;
-  const proRevenue = paidClients.filter(c => c.plan === 'pro').length * PLANS.pro.price;
-  const totalRevenue = starterRevenue + proRevenue;
+  // Revenue is what has actually been collected against this period's invoices,
+  // split across plans by each invoice's line items
+  getInvoicesForPeriod(invoices, periodDate)
+    .filter(invoice => invoice.status !== 'void' && invoice.total > 0)
+    .forEach(invoice => {
+      const amountPaid = convertToBase(
+        Math.min(getInvoiceAmountPaid(invoice, payments), invoice.total),
+        getCurrency(invoice),
+        conversion
+      );
+      (invoice.line_items || []).forEach(item => {
+        if (!item.plan) return;
+        getBreakdown(item.plan).revenue += amountPaid * (item.amount / invoice.total);
+      });
+    });
+
+  const planBreakdown = Array.from(breakdown.values()).map(entry => ({
+    ...entry,
+    revenue: Math.round(entry.revenue * 100) / 100,
+  }));
+  const totalRevenue = planBreakdown.reduce((sum, entry) => sum + entry.revenue, 0);
 
   return {
     totalRevenue,
-    starterRevenue,
-    proRevenue,
-    starterCount,
-    proCount,
+    planBreakdown,
     paidCount,
     unpaidCount,
     overdueCount
   };
 };
 
-// Calculate monthly recurring revenue (MRR)
-export const calculateMRR = (clients: Client[]): number => {
-  const stats = calculateRevenueStats(clients);
-  return stats.totalRevenue; // Assuming monthly billing
+// Calculate monthly recurring revenue (MRR) from the plans of clients being billed,
+// with yearly plans spread across their twelve months
+export const calculateMRR = (clients: Client[], plans: PlanInfo[], conversion?: CurrencyConversion): number => {
+  const total = clients
+    .filter(client => BILLABLE_CLIENT_STATUSES.includes(client.status))
+    .reduce((sum, client) => sum + getMonthlyBasePrice(getClientPlanInfo(client, plans), conversion), 0);
+  return Math.round(total * 100) / 100;
 };
 
-// Calculate potential revenue (if all clients paid)
-export const calculatePotentialRevenue = (clients: Client[]): number => {
-  return clients.reduce((total, client) => {
-    if (client.plan === 'starter') {
-      return total + PLANS.starter.price;
-    } else if (client.plan === 'pro') {
-      return total + PLANS.pro.price;
-    }
-    return total + PLANS.starter.price; // Default to starter if no plan set
-  }, 0);
+// Calculate potential monthly revenue (if all clients paid)
+export const calculatePotentialRevenue = (
+  clients: Client[],
+  plans: PlanInfo[],
+  conversion?: CurrencyConversion
+): number => {
+  return clients.reduce((total, client) => total + getMonthlyBasePrice(getClientPlanInfo(client, plans), conversion), 0);
 };
 
-// Get plan info for a client
-export const getClientPlanInfo = (client: Client): PlanInfo => {
-  return PLANS[client.plan || 'starter'];
+// Get plan info for a client, keeping the price they were signed up at
+export const getClientPlanInfo = (client: Client, plans: PlanInfo[]): PlanInfo => {
+  const plan = findPlan(plans, client.plan) || (client.plan
+    ? { ...getDefaultPlan(plans), name: client.plan, label: getPlanLabel(plans, client.plan) }
+    : getDefaultPlan(plans));
+
+  if (client.plan_price === undefined || client.plan_price === null) {
+    return plan;
+  }
+  return { ...plan, price: Number(client.plan_price) };
 };
 
 // Calculate outstanding revenue (unpaid + overdue)
-export const calculateOutstandingRevenue = (clients: Client[]): number => {
+export const calculateOutstandingRevenue = (
+  clients: Client[],
+  plans: PlanInfo[],
+  conversion?: CurrencyConversion
+): number => {
   return clients
     .filter(client => client.payment_status === 'unpaid' || client.payment_status === 'overdue')
     .reduce((total, client) => {
-      const planInfo = getClientPlanInfo(client);
-      return total + planInfo.price;
+      const planInfo = getClientPlanInfo(client, plans);
+      return total + convertToBase(planInfo.price, getCurrency(planInfo), conversion);
     }, 0);
 };
 
@@ -135,25 +228,28 @@ export const getPaymentStatusText = (status: Client['payment_status']): string =
 };
 
 // Get plan badge color
+const PLAN_COLOR_PALETTE = ['#3B82F6', '#8B5CF6', '#00D4AA', '#F59E0B', '#EC4899', '#14B8A6'];
+
 export const getPlanColor = (plan: Client['plan']): string => {
   switch (plan) {
     case 'starter':
       return '#3B82F6'; // Blue
     case 'pro':
       return '#8B5CF6'; // Purple
-    default:
+    case undefined:
+    case '':
       return '#6B7280'; // Gray
+    default: {
+      // Stable color per custom plan key
+      const hash = plan.split('').reduce((sum, char) => sum + char.charCodeAt(0), 0);
+      return PLAN_COLOR_PALETTE[hash % PLAN_COLOR_PALETTE.length];
+    }
   }
 };
 
-// Format currency for display
-export const formatCurrency = (amount: number): string => {
-  return new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency: 'USD',
-    minimumFractionDigits: 0,
-    maximumFractionDigits: 0
-  }).format(amount);
+// Format currency for display, in whole units
+export const formatCurrency = (amount: number, currency: string = DEFAULT_CURRENCY): string => {
+  return formatMoney(amount, currency, 0);
 };
 
 // Calculate revenue growth from previous period
@@ -168,21 +264,35 @@ export const calculateRevenueGrowth = (
   return { amount, percentage, isGrowth };
 };
 
-// Generate revenue summary text
-export const generateRevenueSummary = (stats: RevenueStats): string => {
-  const potentialTotal = (stats.starterCount * PLANS.starter.price) + (stats.proCount * PLANS.pro.price);
+// Generate revenue summary text, in the base currency
+export const generateRevenueSummary = (
+  stats: RevenueStats,
+  clients: Client[],
+  plans: PlanInfo[],
+  conversion?: CurrencyConversion
+): string => {
+  const currency = conversion?.baseCurrency || DEFAULT_CURRENCY;
+  const potentialTotal = calculatePotentialRevenue(clients, plans, conversion);
   const collectionRate = potentialTotal > 0 ? (stats.totalRevenue / potentialTotal) * 100 : 0;
 
-  return `Current MRR: ${formatCurrency(stats.totalRevenue)}
+  const planLines = stats.planBreakdown.map(entry => {
+    const potential = calculatePotentialRevenue(
+      clients.filter(client => getClientPlanInfo(client, plans).name === entry.plan),
+      plans,
+      conversion
+    );
+    return `• ${entry.count} ${entry.label} (${formatCurrency(potential, currency)} potential)`;
+  });
+
+  return `Current MRR: ${formatCurrency(stats.totalRevenue, currency)}
 Collection Rate: ${collectionRate.toFixed(1)}%
-Outstanding: ${formatCurrency(potentialTotal - stats.totalRevenue)}
+Outstanding: ${formatCurrency(potentialTotal - stats.totalRevenue, currency)}
 
 Plan Breakdown:
-• ${stats.starterCount} Starter (${formatCurrency(stats.starterCount * PLANS.starter.price)} potential)
-• ${stats.proCount} Pro (${formatCurrency(stats.proCount * PLANS.pro.price)} potential)
+${planLines.join('\n')}
 
 Payment Status:
-• ${stats.paidCount} Paid (${formatCurrency(stats.totalRevenue)})
+• ${stats.paidCount} Paid (${formatCurrency(stats.totalRevenue, currency)})
 • ${stats.unpaidCount} Unpaid
 • ${stats.overdueCount} Overdue`;
 };
@@ -219,17 +329,22 @@ export const getClientsNeedingPaymentFollowup = (clients: Client[]): Client[] =>
 };
 
 // Calculate client lifetime value based on plan
-export const calculateClientLTV = (client: Client, monthsActive: number = 12): number => {
-  const planInfo = getClientPlanInfo(client);
-  return planInfo.price * monthsActive;
+export const calculateClientLTV = (client: Client, plans: PlanInfo[], monthsActive: number = 12): number => {
+  const planInfo = getClientPlanInfo(client, plans);
+  return getMonthlyPrice(planInfo) * monthsActive;
 };
 
-// Generate plan comparison data
-export const generatePlanComparison = () => {
+// Generate plan comparison data for the active catalog
+export const generatePlanComparison = (plans: PlanInfo[]) => {
+  const activePlans = getActivePlans(plans);
+  const cheapest = activePlans[0];
+  const priciest = activePlans[activePlans.length - 1];
+
   return {
-    starter: PLANS.starter,
-    pro: PLANS.pro,
-    savings: PLANS.pro.price - PLANS.starter.price,
-    valueProposition: `Pro plan offers ${PLANS.pro.features.length - PLANS.starter.features.length} additional features for just $${PLANS.pro.price - PLANS.starter.price} more per month.`
+    plans: activePlans,
+    savings: cheapest && priciest ? getMonthlyPrice(priciest) - getMonthlyPrice(cheapest) : 0,
+    valueProposition: cheapest && priciest && cheapest !== priciest
+      ? `${priciest.label} plan offers ${priciest.features.length - cheapest.features.length} additional features for just $${getMonthlyPrice(priciest) - getMonthlyPrice(cheapest)} more per month.`
+      : ''
   };
 };
\ No newline at end of file
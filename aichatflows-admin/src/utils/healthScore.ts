@@ -0,0 +1,286 @@
+import { BusinessVisit, Client, ClientEvent, ClientStatusChange, Invoice, Payment, PlanInfo } from '../types';
+import { getActivePlans, getClientPlanInfo } from './finance';
+import { getPaymentInvoiceIds, isInvoiceOverdue, parseISODate } from './invoices';
+import { isCreditNote, isRefund } from './payments';
+
+export type HealthFactor = 'payments' | 'visits' | 'stability' | 'onboarding' | 'plan';
+
+export type HealthLevel = 'healthy' | 'watch' | 'at_risk';
+
+// Relative weights; a factor set to 0 is left out of the score
+export type HealthWeights = Record<HealthFactor, number>;
+
+export const DEFAULT_HEALTH_WEIGHTS: HealthWeights = {
+  payments: 3,
+  visits: 2,
+  stability: 2,
+  onboarding: 1,
+  plan: 1,
+};
+
+export const HEALTH_FACTORS: { factor: HealthFactor; label: string; description: string }[] = [
+  { factor: 'payments', label: 'Payment Punctuality', description: 'Payments made by the invoice due date' },
+  { factor: 'visits', label: 'Visit Recency', description: 'How recently the client was visited' },
+  { factor: 'stability', label: 'Status Stability', description: 'Current status and how often it has changed' },
+  { factor: 'onboarding', label: 'Onboarding', description: 'How much of the onboarding form is filled in' },
+  { factor: 'plan', label: 'Plan Tier', description: 'Plan price compared to the top plan' },
+];
+
+export const HEALTH_LEVELS: { level: HealthLevel; label: string; minScore: number; color: string }[] = [
+  { level: 'healthy', label: 'Healthy', minScore: 70, color: '#10B981' },
+  { level: 'watch', label: 'Watch', minScore: 40, color: '#F59E0B' },
+  { level: 'at_risk', label: 'At Risk', minScore: 0, color: '#EF4444' },
+];
+
+// Onboarding answers; a group counts as filled when any of its fields is
+export const ONBOARDING_FIELD_GROUPS: (keyof Client)[][] = [
+  ['phone'],
+  ['business_name'],
+  ['business_type'],
+  ['business_niche'],
+  ['products_or_services'],
+  ['common_customer_question'],
+  ['instagram_handle', 'facebook_url', 'tiktok_handle'],
+  ['platform_preference'],
+  ['delivery_preference'],
+  ['photo_url'],
+];
+
+export interface HealthFactorScore {
+  factor: HealthFactor;
+  label: string;
+  score: number; // 0 to 1
+  weight: number; // Share of the total score, 0 to 1
+  detail: string;
+}
+
+export interface ClientHealth {
+  clientId: string;
+  score: number; // 0 to 100
+  level: HealthLevel;
+  factors: HealthFactorScore[];
+}
+
+export interface HealthData {
+  payments: Payment[];
+  invoices: Invoice[];
+  visits: BusinessVisit[];
+  events: ClientEvent[];
+  statusChanges: ClientStatusChange[];
+  plans: PlanInfo[];
+}
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+// Days late after which a payment stops counting as punctual at all
+const LATE_PAYMENT_DAYS = 30;
+
+// Visits within this many days score full marks, falling to zero at STALE_VISIT_DAYS
+const RECENT_VISIT_DAYS = 7;
+const STALE_VISIT_DAYS = 60;
+
+// Status changes this recent make a client less stable
+const STATUS_CHURN_DAYS = 90;
+
+const STATUS_SCORES: Record<Client['status'], number> = {
+  active: 1,
+  in_progress: 0.7,
+  paused: 0.3,
+  cancelled: 0,
+};
+
+const PAYMENT_STATUS_SCORES: Record<NonNullable<Client['payment_status']>, number> = {
+  paid: 1,
+  unpaid: 0.5,
+  overdue: 0,
+};
+
+const clamp = (value: number): number => Math.min(1, Math.max(0, value));
+
+const parseDate = (value?: string | null): Date | null => {
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+const isFilled = (value: unknown): boolean => {
+  if (typeof value === 'string') return value.trim() !== '';
+  return value !== undefined && value !== null;
+};
+
+export const getHealthLevel = (score: number): HealthLevel => {
+  return (HEALTH_LEVELS.find(level => score >= level.minScore) || HEALTH_LEVELS[HEALTH_LEVELS.length - 1]).level;
+};
+
+export const getHealthLevelLabel = (level: HealthLevel): string => {
+  return HEALTH_LEVELS.find(option => option.level === level)?.label || level;
+};
+
+export const getHealthLevelColor = (level: HealthLevel): string => {
+  return HEALTH_LEVELS.find(option => option.level === level)?.color || '#6B7280';
+};
+
+// Each payment scores by how late it was against its invoice; open invoices past due count as missed
+const scorePayments = (client: Client, payments: Payment[], invoices: Invoice[], now: Date) => {
+  const invoicesById = new Map(invoices.map(invoice => [invoice.id, invoice]));
+  const scores: number[] = [];
+  let onTime = 0;
+
+  payments
+    .filter(payment => payment.client_id === client.id && !isRefund(payment) && !isCreditNote(payment))
+    .forEach(payment => {
+      const [invoiceId] = getPaymentInvoiceIds(payment);
+      const invoice = invoiceId ? invoicesById.get(invoiceId) : undefined;
+      const dueDate = invoice ? parseISODate(invoice.due_date) : null;
+
+      if (payment.status === 'failed') {
+        scores.push(0);
+      } else if (payment.status === 'pending') {
+        // Still waiting is only a problem once the invoice is due
+        if (dueDate && dueDate < now) scores.push(0);
+      } else {
+        const paidOn = parseDate(payment.payment_date);
+        const daysLate = dueDate && paidOn ? Math.floor((paidOn.getTime() - dueDate.getTime()) / MS_PER_DAY) : 0;
+        if (daysLate <= 0) onTime++;
+        scores.push(clamp(1 - daysLate / LATE_PAYMENT_DAYS));
+      }
+    });
+
+  invoices
+    .filter(invoice => invoice.client_id === client.id && isInvoiceOverdue(invoice, now))
+    .filter(invoice => !payments.some(payment => getPaymentInvoiceIds(payment).includes(invoice.id) && payment.status !== 'failed'))
+    .forEach(() => scores.push(0));
+
+  if (scores.length === 0) {
+    return {
+      score: PAYMENT_STATUS_SCORES[client.payment_status || 'unpaid'],
+      detail: 'No payment history yet',
+    };
+  }
+
+  return {
+    score: scores.reduce((sum, score) => sum + score, 0) / scores.length,
+    detail: `${onTime} of ${scores.length} ${scores.length === 1 ? 'payment' : 'payments'} on time`,
+  };
+};
+
+// Visit rows don't always carry a date; the visit event has when it was logged
+const scoreVisits = (client: Client, visits: BusinessVisit[], events: ClientEvent[], now: Date) => {
+  const visitIds = new Set(visits.filter(visit => visit.client_id === client.id).map(visit => visit.id));
+  const visitEventDates = new Map<string, string>();
+  events.forEach(event => {
+    if (event.event_type === 'visit' && visitIds.has(event.data?.visit_id)) {
+      visitEventDates.set(event.data.visit_id, event.occurred_at);
+    }
+  });
+
+  const lastVisit = visits
+    .filter(visit => visitIds.has(visit.id))
+    .map(visit => parseDate(visit.created_at || visit.timestamp || visitEventDates.get(visit.id)))
+    .filter((date): date is Date => date !== null)
+    .reduce<Date | null>((latest, date) => (!latest || date > latest ? date : latest), null);
+
+  if (!lastVisit) {
+    return { score: 0, detail: visitIds.size > 0 ? 'Visit dates unknown' : 'Never visited' };
+  }
+
+  const days = Math.max(0, Math.floor((now.getTime() - lastVisit.getTime()) / MS_PER_DAY));
+  return {
+    score: clamp(1 - (days - RECENT_VISIT_DAYS) / (STALE_VISIT_DAYS - RECENT_VISIT_DAYS)),
+    detail: days === 0 ? 'Visited today' : `Last visited ${days} ${days === 1 ? 'day' : 'days'} ago`,
+  };
+};
+
+// The current status, less a tenth for every status change in the last 90 days
+const scoreStability = (client: Client, statusChanges: ClientStatusChange[], now: Date) => {
+  const cutoff = now.getTime() - STATUS_CHURN_DAYS * MS_PER_DAY;
+  const recentChanges = statusChanges.filter(change =>
+    change.client_id === client.id &&
+    change.from_status &&
+    (parseDate(change.changed_at)?.getTime() || 0) >= cutoff
+  ).length;
+
+  return {
+    score: clamp((STATUS_SCORES[client.status] ?? 0) - recentChanges * 0.1),
+    detail: recentChanges > 0
+      ? `${recentChanges} status ${recentChanges === 1 ? 'change' : 'changes'} in ${STATUS_CHURN_DAYS} days`
+      : 'No recent status changes',
+  };
+};
+
+const scoreOnboarding = (client: Client) => {
+  const filled = ONBOARDING_FIELD_GROUPS.filter(group => group.some(field => isFilled(client[field]))).length;
+  return {
+    score: filled / ONBOARDING_FIELD_GROUPS.length,
+    detail: `${filled} of ${ONBOARDING_FIELD_GROUPS.length} onboarding answers`,
+  };
+};
+
+// Monthly price against the most expensive active plan; yearly plans are spread over 12 months
+const scorePlan = (client: Client, plans: PlanInfo[]) => {
+  const monthlyPrice = (plan: PlanInfo) => plan.billing_interval === 'year' ? plan.price / 12 : plan.price;
+  const plan = getClientPlanInfo(client, plans);
+  const topPrice = Math.max(0, ...getActivePlans(plans).map(monthlyPrice));
+
+  return {
+    score: topPrice > 0 ? clamp(monthlyPrice(plan) / topPrice) : 0,
+    detail: `${plan.label} plan`,
+  };
+};
+
+// Weighted 0-100 score with the part each factor played
+export const calculateHealthScore = (
+  client: Client,
+  data: HealthData,
+  weights: HealthWeights = DEFAULT_HEALTH_WEIGHTS,
+  now: Date = new Date()
+): ClientHealth => {
+  const results: Record<HealthFactor, { score: number; detail: string }> = {
+    payments: scorePayments(client, data.payments, data.invoices, now),
+    visits: scoreVisits(client, data.visits, data.events, now),
+    stability: scoreStability(client, data.statusChanges, now),
+    onboarding: scoreOnboarding(client),
+    plan: scorePlan(client, data.plans),
+  };
+
+  // Fall back to the defaults rather than dividing by zero when every factor is switched off
+  const totalWeight = HEALTH_FACTORS.reduce((sum, { factor }) => sum + Math.max(0, weights[factor] || 0), 0);
+  const effectiveWeights = totalWeight > 0 ? weights : DEFAULT_HEALTH_WEIGHTS;
+  const effectiveTotal = totalWeight > 0
+    ? totalWeight
+    : HEALTH_FACTORS.reduce((sum, { factor }) => sum + DEFAULT_HEALTH_WEIGHTS[factor], 0);
+
+  const factors = HEALTH_FACTORS
+    .filter(({ factor }) => (effectiveWeights[factor] || 0) > 0)
+    .map(({ factor, label }) => ({
+      factor,
+      label,
+      score: results[factor].score,
+      weight: effectiveWeights[factor] / effectiveTotal,
+      detail: results[factor].detail,
+    }));
+
+  const score = Math.round(factors.reduce((sum, factor) => sum + factor.score * factor.weight, 0) * 100);
+  return { clientId: client.id, score, level: getHealthLevel(score), factors };
+};
+
+// Scores keyed by client id, for lists
+export const calculateHealthScores = (
+  clients: Client[],
+  data: HealthData,
+  weights: HealthWeights = DEFAULT_HEALTH_WEIGHTS,
+  now: Date = new Date()
+): Record<string, ClientHealth> => {
+  return clients.reduce<Record<string, ClientHealth>>((scores, client) => {
+    scores[client.id] = calculateHealthScore(client, data, weights, now);
+    return scores;
+  }, {});
+};
+
+// Attach each client's score so the list can sort on it
+export const withHealthScores = <T extends { id: string }>(
+  items: T[],
+  scores: Record<string, ClientHealth>
+): (T & { health_score?: number })[] => {
+  return items.map(item => ({ ...item, health_score: scores[item.id]?.score }));
+};
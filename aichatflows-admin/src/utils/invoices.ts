@@ -0,0 +1,282 @@
+import { Client, Invoice, InvoiceAllocation, InvoiceLineItem, Payment, PlanInfo } from '../types';
+import { DEFAULT_EXCHANGE_RATES, ExchangeRates, convertAmount, getCurrency } from './currency';
+import { getRefundedAmount, isRefund } from './payments';
+
+// Days after the start of a billing period before its invoice is due
+export const INVOICE_PAYMENT_TERMS_DAYS = 7;
+
+export type InvoiceDisplayStatus = Invoice['status'] | 'overdue';
+
+// Only clients that are being served get billed
+export const BILLABLE_CLIENT_STATUSES: Client['status'][] = ['active', 'in_progress'];
+
+// Format a date as YYYY-MM-DD in local time (matches the DATE columns)
+export const toISODate = (date: Date): string => {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+};
+
+// Parse a YYYY-MM-DD string as a local date
+export const parseISODate = (value: string): Date => {
+  const [year, month, day] = value.split('T')[0].split('-').map(Number);
+  return new Date(year, (month || 1) - 1, day || 1);
+};
+
+// Get the monthly billing period containing a date
+export const getBillingPeriod = (date: Date = new Date()): { start: Date; end: Date } => {
+  const start = new Date(date.getFullYear(), date.getMonth(), 1);
+  const end = new Date(date.getFullYear(), date.getMonth() + 1, 0);
+  return { start, end };
+};
+
+// Billing period a plan is in on a date (yearly plans renew in the client's signup month)
+export const getPlanBillingPeriod = (
+  client: Client,
+  planInfo: PlanInfo,
+  date: Date = new Date()
+): { start: Date; end: Date } => {
+  if (planInfo.billing_interval !== 'year' || !client.created_at) {
+    return getBillingPeriod(date);
+  }
+
+  const signupMonth = new Date(client.created_at).getMonth();
+  const startYear = date.getMonth() >= signupMonth ? date.getFullYear() : date.getFullYear() - 1;
+  const start = new Date(startYear, signupMonth, 1);
+  const end = new Date(startYear + 1, signupMonth, 0);
+  return { start, end };
+};
+
+// Due date of an invoice for a period starting on a date
+export const getInvoiceDueDate = (periodStart: Date): Date => {
+  const dueDate = new Date(periodStart);
+  dueDate.setDate(periodStart.getDate() + INVOICE_PAYMENT_TERMS_DAYS);
+  return dueDate;
+};
+
+// Build the invoice for a client's plan, covering the plan's whole billing period
+export const buildMonthlyInvoice = (
+  client: Client,
+  planInfo: PlanInfo,
+  periodDate: Date = new Date()
+): Omit<Invoice, 'id' | 'created_at' | 'updated_at' | 'client'> => {
+  const { start, end } = getPlanBillingPeriod(client, planInfo, periodDate);
+  const dueDate = getInvoiceDueDate(start);
+
+  const periodLabel = planInfo.billing_interval === 'year'
+    ? `${start.getFullYear()}–${start.getFullYear() + 1}`
+    : start.toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
+
+  const lineItems: InvoiceLineItem[] = [
+    {
+      description: `${planInfo.label} plan — ${periodLabel}`,
+      quantity: 1,
+      unit_price: planInfo.price,
+      amount: planInfo.price,
+      plan: planInfo.name,
+    },
+  ];
+
+  return {
+    client_id: client.id,
+    period_start: toISODate(start),
+    period_end: toISODate(end),
+    due_date: toISODate(dueDate),
+    status: 'open',
+    line_items: lineItems,
+    total: lineItems.reduce((sum, item) => sum + item.amount, 0),
+    currency: getCurrency(planInfo),
+  };
+};
+
+// Check if a client should be billed in a period (yearly plans bill in their signup month)
+export const isBillingPeriod = (client: Client, planInfo: PlanInfo, periodDate: Date = new Date()): boolean => {
+  if (planInfo.billing_interval !== 'year' || !client.created_at) return true;
+  return new Date(client.created_at).getMonth() === periodDate.getMonth();
+};
+
+// Get the plan an invoice bills for (first plan line item)
+export const getInvoicePlan = (invoice: Invoice): Client['plan'] => {
+  return invoice.line_items?.find(item => item.plan)?.plan;
+};
+
+// Invoices a payment has been applied to
+export const getPaymentInvoiceIds = (payment: Payment): string[] => {
+  return Array.from(new Set((payment.allocations || []).map(allocation => allocation.invoice_id)));
+};
+
+// Payments applied to an invoice
+export const getInvoicePayments = (invoice: Invoice, payments: Payment[]): Payment[] => {
+  return payments.filter(payment => payment && getPaymentInvoiceIds(payment).includes(invoice.id));
+};
+
+const roundCurrency = (amount: number): number => Math.round(amount * 100) / 100;
+
+const sumAllocations = (allocations: InvoiceAllocation[]): number => {
+  return allocations.reduce((sum, allocation) => sum + allocation.amount, 0);
+};
+
+// Amount an allocation paid off, in the invoice's currency
+const getAllocationInvoiceAmount = (allocation: InvoiceAllocation): number => {
+  return allocation.invoice_amount ?? allocation.amount;
+};
+
+// Part of a payment not applied to any invoice yet. Refunds come out of this first
+export const getUnappliedAmount = (payment: Payment, payments: Payment[]): number => {
+  const unapplied = payment.amount - sumAllocations(payment.allocations || []) - getRefundedAmount(payment, payments);
+  return Math.max(0, roundCurrency(unapplied));
+};
+
+// A payment's allocations less the refunds the unapplied part couldn't absorb, taken back from the
+// most recently applied invoice first. The invoice-currency amount shrinks in proportion
+const getNetAllocations = (payment: Payment, payments: Payment[]): InvoiceAllocation[] => {
+  const allocations = payment.allocations || [];
+  let refunded = getRefundedAmount(payment, payments) - (payment.amount - sumAllocations(allocations));
+
+  return allocations
+    .slice()
+    .reverse()
+    .map(allocation => {
+      const taken = Math.max(0, Math.min(allocation.amount, refunded));
+      refunded -= taken;
+      if (taken === 0) return allocation;
+
+      const amount = roundCurrency(allocation.amount - taken);
+      const invoiceAmount = roundCurrency(getAllocationInvoiceAmount(allocation) * (amount / allocation.amount));
+      return { ...allocation, amount, invoice_amount: invoiceAmount };
+    })
+    .reverse();
+};
+
+// Total confirmed amount applied to an invoice, in the invoice's currency
+export const getInvoiceAmountPaid = (invoice: Invoice, payments: Payment[]): number => {
+  // Refunds of applied payments give the money back, so they reopen the balance
+  return payments
+    .filter(payment => payment && payment.status === 'confirmed' && typeof payment.amount === 'number' && !isRefund(payment))
+    .reduce((sum, payment) => sum + getNetAllocations(payment, payments)
+      .filter(allocation => allocation.invoice_id === invoice.id)
+      .reduce((paid, allocation) => paid + getAllocationInvoiceAmount(allocation), 0), 0);
+};
+
+// Remaining balance owed on an invoice, in the invoice's currency
+export const getInvoiceBalance = (invoice: Invoice, payments: Payment[]): number => {
+  if (invoice.status === 'void') return 0;
+  return Math.max(0, roundCurrency(invoice.total - getInvoiceAmountPaid(invoice, payments)));
+};
+
+// Status an invoice should have given the payments applied to it
+export const resolveInvoiceStatus = (invoice: Invoice, payments: Payment[]): Invoice['status'] => {
+  if (invoice.status === 'void') return 'void';
+  return getInvoiceBalance(invoice, payments) <= 0 ? 'paid' : 'open';
+};
+
+// Check if an open invoice is past its due date plus an optional grace period
+export const isInvoiceOverdue = (invoice: Invoice, now: Date = new Date(), graceDays: number = 0): boolean => {
+  if (invoice.status !== 'open') return false;
+  const dueDate = parseISODate(invoice.due_date);
+  dueDate.setDate(dueDate.getDate() + graceDays);
+  dueDate.setHours(23, 59, 59, 999);
+  return now > dueDate;
+};
+
+// Status shown in the UI (open invoices past due read as overdue)
+export const getInvoiceDisplayStatus = (
+  invoice: Invoice,
+  now: Date = new Date(),
+  graceDays: number = 0
+): InvoiceDisplayStatus => {
+  return isInvoiceOverdue(invoice, now, graceDays) ? 'overdue' : invoice.status;
+};
+
+// Derive a client's payment status from their open invoices
+export const deriveClientPaymentStatus = (
+  clientId: string,
+  invoices: Invoice[],
+  now: Date = new Date(),
+  graceDays: number = 0
+): NonNullable<Client['payment_status']> => {
+  const openInvoices = invoices.filter(invoice => invoice.client_id === clientId && invoice.status === 'open');
+
+  if (openInvoices.some(invoice => isInvoiceOverdue(invoice, now, graceDays))) return 'overdue';
+  if (openInvoices.length > 0) return 'unpaid';
+  return 'paid';
+};
+
+// Oldest open invoice for a client that still has a balance
+export const findInvoiceToSettle = (
+  clientId: string,
+  invoices: Invoice[],
+  payments: Payment[]
+): Invoice | undefined => {
+  return invoices
+    .filter(invoice => invoice.client_id === clientId && invoice.status === 'open')
+    .filter(invoice => getInvoiceBalance(invoice, payments) > 0)
+    .sort((a, b) => a.period_start.localeCompare(b.period_start))[0];
+};
+
+export interface PaymentAllocation {
+  invoiceId: string | null; // null = left over as credit for a later invoice
+  amount: number; // In the payment's currency
+  invoiceAmount: number; // In the invoice's currency
+}
+
+// How the unapplied part of a payment splits across a client's open invoices: the chosen invoice
+// first, then the others oldest first. Whatever is left once every balance is covered stays
+// unapplied as credit. Balances in another currency are converted at the given rates
+export const allocatePayment = (
+  payment: Payment,
+  invoice: Invoice,
+  invoices: Invoice[],
+  payments: Payment[],
+  rates: ExchangeRates = DEFAULT_EXCHANGE_RATES
+): PaymentAllocation[] => {
+  const paymentCurrency = getCurrency(payment);
+  const currentPayments = [...payments.filter(p => p.id !== payment.id), payment];
+  const laterInvoices = invoices
+    .filter(i => i.id !== invoice.id && i.client_id === invoice.client_id && i.status === 'open')
+    .sort((a, b) => a.period_start.localeCompare(b.period_start));
+
+  const allocations: PaymentAllocation[] = [];
+  let remaining = getUnappliedAmount(payment, currentPayments);
+  for (const target of [invoice, ...laterInvoices]) {
+    if (remaining <= 0) break;
+    const balance = getInvoiceBalance(target, currentPayments);
+    if (balance <= 0) continue;
+
+    // Paying off the whole balance credits exactly the balance, so rounding can't leave a cent open
+    const invoiceCurrency = getCurrency(target);
+    const balanceInPaymentCurrency = convertAmount(balance, invoiceCurrency, paymentCurrency, rates);
+    const amount = Math.min(balanceInPaymentCurrency, remaining);
+    const invoiceAmount = amount === balanceInPaymentCurrency
+      ? balance
+      : convertAmount(amount, paymentCurrency, invoiceCurrency, rates);
+    allocations.push({ invoiceId: target.id, amount, invoiceAmount });
+    remaining = roundCurrency(remaining - amount);
+  }
+
+  if (remaining > 0) {
+    allocations.push({ invoiceId: null, amount: remaining, invoiceAmount: remaining });
+  }
+  return allocations;
+};
+
+// Invoices billed for the period containing a date
+export const getInvoicesForPeriod = (invoices: Invoice[], periodDate: Date = new Date()): Invoice[] => {
+  const periodStart = toISODate(getBillingPeriod(periodDate).start);
+  return invoices.filter(invoice => invoice.period_start === periodStart);
+};
+
+// Get invoice status color for UI
+export const getInvoiceStatusColor = (status: InvoiceDisplayStatus): string => {
+  switch (status) {
+    case 'paid':
+      return '#10B981'; // Green
+    case 'open':
+      return '#F59E0B'; // Yellow
+    case 'overdue':
+      return '#EF4444'; // Red
+    default:
+      return '#6B7280'; // Gray
+  }
+};
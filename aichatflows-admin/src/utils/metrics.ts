@@ -1,4 +1,7 @@
-import { Client, Payment, Goal, BusinessVisit } from '../types';
+import { Client, Payment, Goal, BusinessVisit, ClientEvent } from '../types';
+import { calculateRevenueBreakdown, isMoneyReceived, isRefund } from './payments';
+import { CurrencyConversion, DEFAULT_CURRENCY, formatMoney, formatOriginalAmount, getCurrency, toBaseAmount } from './currency';
+import { getChurnDate, getClientStartDate, getStatusAt } from './clientEvents';
 
 // Safe date parsing utility to prevent crashes
 const safeParseDate = (dateValue: any): Date | null => {
@@ -45,6 +48,35 @@ const isDateInRange = (dateValue: any, start: Date, end: Date): boolean => {
   return date >= start && date <= end;
 };
 
+// Refunds issued within a date range, subtracted from revenue in that range
+const getRefundsInRange = (payments: Payment[], start: Date, end: Date): Payment[] => {
+  return payments.filter(payment =>
+    isRefund(payment) && payment.status === 'confirmed' && isDateInRange(payment.payment_date, start, end)
+  );
+};
+
+export interface PaymentDetail {
+  client: string;
+  amount: number; // In the metrics' reporting currency
+  currency: string; // Currency the payment was taken in
+  originalAmount: number;
+  date: string;
+}
+
+// Payment list entries, in the reporting currency with the original amount kept alongside
+const toPaymentDetails = (payments: Payment[], conversion?: CurrencyConversion): PaymentDetail[] => {
+  return payments.map(payment => {
+    const safeDate = safeParseDate(payment.payment_date);
+    return {
+      client: payment.client?.name || 'Unknown Client',
+      amount: toBaseAmount(payment, conversion),
+      currency: getCurrency(payment),
+      originalAmount: payment.amount,
+      date: safeDate ? safeDate.toLocaleDateString() : 'Invalid Date'
+    };
+  });
+};
+
 export interface WeeklyMetrics {
   weekStart: Date;
   weekEnd: Date;
@@ -58,7 +90,9 @@ export interface WeeklyMetrics {
   paymentsReceived: number;
   totalRevenue: number;
   averagePayment: number;
-  paymentDetails: { client: string; amount: number; date: string }[];
+  currency: string; // Currency revenue figures are reported in
+  revenueByCurrency: Record<string, number>; // Net revenue in each original currency
+  paymentDetails: PaymentDetail[];
 }
 
 export interface MonthlyMetrics {
@@ -74,16 +108,23 @@ export interface MonthlyMetrics {
   paymentsReceived: number;
   totalRevenue: number;
   averagePayment: number;
-  paymentDetails: { client: string; amount: number; date: string }[];
+  currency: string; // Currency revenue figures are reported in
+  revenueByCurrency: Record<string, number>; // Net revenue in each original currency
+  paymentDetails: PaymentDetail[];
   weeklyBreakdown: WeeklyMetrics[];
 }
 
 export interface ClientRetentionMetrics {
   totalClients: number;
   clientsWithMultipleVisits: number;
-  retentionRate: number; // percentage
+  retentionRate: number; // percentage of eligible clients not cancelled RETENTION_WINDOW_DAYS after they started
+  retentionWindowDays: number;
+  eligibleClients: number; // clients who started at least RETENTION_WINDOW_DAYS ago
+  retainedClients: number;
+  churnedClients: number; // cancelled now
+  averageTenureDays: number; // start to cancellation, or to today for current clients
   averageDaysBetweenVisits: number;
-  clientVisitCounts: { clientName: string; visitCount: number; lastVisit: Date }[];
+  clientVisitCounts: { clientName: string; visitCount: number; lastVisit: Date | null }[];
   topReturningClients: { clientName: string; visitCount: number }[];
 }
 
@@ -154,7 +195,8 @@ export const calculateWeeklyMetrics = (
   goals: Goal[],
   visits: BusinessVisit[],
   weekStart?: Date,
-  weekEnd?: Date
+  weekEnd?: Date,
+  conversion?: CurrencyConversion
 ): WeeklyMetrics => {
   const { start, end } = weekStart && weekEnd 
     ? { start: weekStart, end: weekEnd }
@@ -174,7 +216,7 @@ export const calculateWeeklyMetrics = (
       console.warn('⚠️ Payment missing payment_date:', payment.id);
       return false;
     }
-    return isDateInRange(payment.payment_date, start, end) && payment.status === 'confirmed';
+    return isDateInRange(payment.payment_date, start, end) && isMoneyReceived(payment);
   });
 
   const weekVisits = visits.filter(visit => {
@@ -193,15 +235,14 @@ export const calculateWeeklyMetrics = (
     return true; // Placeholder
   });
 
-  // Calculate payment details with safe date handling
-  const paymentDetails = weekPayments.map(payment => {
-    const safeDate = safeParseDate(payment.payment_date);
-    return {
-      client: payment.client?.name || 'Unknown Client',
-      amount: payment.amount,
-      date: safeDate ? safeDate.toLocaleDateString() : 'Invalid Date'
-    };
-  });
+  // Revenue net of refunds, converted to the reporting currency
+  const revenue = calculateRevenueBreakdown(
+    [...weekPayments, ...getRefundsInRange(payments, start, end)],
+    undefined,
+    undefined,
+    conversion
+  );
+  const paymentDetails = toPaymentDetails(weekPayments, conversion);
 
   return {
     weekStart: start,
@@ -214,10 +255,12 @@ export const calculateWeeklyMetrics = (
     goalsCompleted: completedGoals.length,
     goalTitles: completedGoals.map(g => g.title),
     paymentsReceived: weekPayments.length,
-    totalRevenue: weekPayments.reduce((sum, p) => sum + p.amount, 0),
+    totalRevenue: revenue.net,
     averagePayment: weekPayments.length > 0 
-      ? weekPayments.reduce((sum, p) => sum + p.amount, 0) / weekPayments.length 
+      ? revenue.gross / weekPayments.length 
       : 0,
+    currency: conversion?.baseCurrency || DEFAULT_CURRENCY,
+    revenueByCurrency: revenue.byCurrency,
     paymentDetails
   };
 };
@@ -229,7 +272,8 @@ export const calculateMonthlyMetrics = (
   goals: Goal[],
   visits: BusinessVisit[],
   monthStart?: Date,
-  monthEnd?: Date
+  monthEnd?: Date,
+  conversion?: CurrencyConversion
 ): MonthlyMetrics => {
   const { start, end } = monthStart && monthEnd 
     ? { start: monthStart, end: monthEnd }
@@ -249,7 +293,7 @@ export const calculateMonthlyMetrics = (
       console.warn('⚠️ Payment missing payment_date:', payment.id);
       return false;
     }
-    return isDateInRange(payment.payment_date, start, end) && payment.status === 'confirmed';
+    return isDateInRange(payment.payment_date, start, end) && isMoneyReceived(payment);
   });
 
   const monthVisits = visits.filter(visit => {
@@ -276,21 +320,21 @@ export const calculateMonthlyMetrics = (
     
     const weekMetrics = calculateWeeklyMetrics(
       clients, payments, goals, visits, 
-      new Date(currentWeek), weekEnd
+      new Date(currentWeek), weekEnd, conversion
     );
     weeklyBreakdown.push(weekMetrics);
     
     currentWeek.setDate(currentWeek.getDate() + 7);
   }
 
-  const paymentDetails = monthPayments.map(payment => {
-    const safeDate = safeParseDate(payment.payment_date);
-    return {
-      client: payment.client?.name || 'Unknown Client',
-      amount: payment.amount,
-      date: safeDate ? safeDate.toLocaleDateString() : 'Invalid Date'
-    };
-  });
+  // Revenue net of refunds, converted to the reporting currency
+  const revenue = calculateRevenueBreakdown(
+    [...monthPayments, ...getRefundsInRange(payments, start, end)],
+    undefined,
+    undefined,
+    conversion
+  );
+  const paymentDetails = toPaymentDetails(monthPayments, conversion);
 
   return {
     monthStart: start,
@@ -303,50 +347,95 @@ export const calculateMonthlyMetrics = (
     goalsCompleted: completedGoals.length,
     goalTitles: completedGoals.map(g => g.title),
     paymentsReceived: monthPayments.length,
-    totalRevenue: monthPayments.reduce((sum, p) => sum + p.amount, 0),
+    totalRevenue: revenue.net,
     averagePayment: monthPayments.length > 0 
-      ? monthPayments.reduce((sum, p) => sum + p.amount, 0) / monthPayments.length 
+      ? revenue.gross / monthPayments.length 
       : 0,
+    currency: conversion?.baseCurrency || DEFAULT_CURRENCY,
+    revenueByCurrency: revenue.byCurrency,
     paymentDetails,
     weeklyBreakdown
   };
 };
 
-// Calculate client retention metrics
+// A client counts as retained if they aren't cancelled this long after they started
+export const RETENTION_WINDOW_DAYS = 90;
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+// Calculate client retention metrics from recorded status transitions and visit dates
 export const calculateClientRetentionMetrics = (
   clients: Client[],
-  visits: BusinessVisit[]
+  visits: BusinessVisit[],
+  events: ClientEvent[] = [],
+  now: Date = new Date()
 ): ClientRetentionMetrics => {
+  // Visit rows don't always carry a date; the visit event has when it was logged
+  const visitEventDates = new Map<string, string>();
+  events.forEach(event => {
+    if (event.event_type === 'visit' && event.data?.visit_id) {
+      visitEventDates.set(event.data.visit_id, event.occurred_at);
+    }
+  });
+  const getVisitDate = (visit: BusinessVisit): Date | null => {
+    return safeParseDate(visit.created_at || visit.timestamp || visitEventDates.get(visit.id));
+  };
+
+  const getDatedVisits = (clientId: string) => visits
+    .filter(visit => visit.client_id === clientId)
+    .map(getVisitDate)
+    .filter((date): date is Date => date !== null)
+    .sort((a, b) => a.getTime() - b.getTime());
+
   const clientVisitCounts = clients.map(client => {
-    const clientVisits = visits.filter(visit => visit.client_id === client.id);
-    const lastVisit = clientVisits.length > 0 
-      ? new Date(Math.max(...clientVisits.map(v => new Date(v.created_at || v.timestamp || 0).getTime())))
-      : new Date(client.created_at);
-    
+    const visitDates = getDatedVisits(client.id);
     return {
       clientName: client.name,
-      visitCount: clientVisits.length,
-      lastVisit
+      visitCount: visits.filter(visit => visit.client_id === client.id).length,
+      lastVisit: visitDates.length > 0 ? visitDates[visitDates.length - 1] : null
     };
   });
 
   const clientsWithMultipleVisits = clientVisitCounts.filter(c => c.visitCount >= 2).length;
-  const retentionRate = clients.length > 0 ? (clientsWithMultipleVisits / clients.length) * 100 : 0;
+
+  // Retention and tenure from when each client actually started and was cancelled
+  let eligibleClients = 0;
+  let retainedClients = 0;
+  let churnedClients = 0;
+  let totalTenureDays = 0;
+  let clientsWithTenure = 0;
+
+  clients.forEach(client => {
+    const start = getClientStartDate(client, events);
+    const churnDate = getChurnDate(client, events);
+    if (client.status === 'cancelled') churnedClients++;
+
+    // Cancelled without a recorded cancellation: tenure unknown, left out of the average
+    const end = client.status === 'cancelled' ? churnDate : now;
+    if (end) {
+      totalTenureDays += Math.max(0, (end.getTime() - start.getTime()) / MS_PER_DAY);
+      clientsWithTenure++;
+    }
+
+    const windowEnd = new Date(start.getTime() + RETENTION_WINDOW_DAYS * MS_PER_DAY);
+    if (windowEnd <= now) {
+      eligibleClients++;
+      const statusAtWindowEnd = getStatusAt(client, events, windowEnd);
+      if (statusAtWindowEnd && statusAtWindowEnd !== 'cancelled') retainedClients++;
+    }
+  });
+
+  const retentionRate = eligibleClients > 0 ? (retainedClients / eligibleClients) * 100 : 0;
+  const averageTenureDays = clientsWithTenure > 0 ? totalTenureDays / clientsWithTenure : 0;
 
   // Calculate average days between visits
   let totalDaysBetweenVisits = 0;
   let visitPairs = 0;
 
   clients.forEach(client => {
-    const clientVisits = visits
-      .filter(visit => visit.client_id === client.id)
-      .sort((a, b) => new Date(a.created_at || a.timestamp || 0).getTime() - new Date(b.created_at || b.timestamp || 0).getTime());
-    
-    for (let i = 1; i < clientVisits.length; i++) {
-      const prev = new Date(clientVisits[i - 1].created_at || clientVisits[i - 1].timestamp || 0);
-      const curr = new Date(clientVisits[i].created_at || clientVisits[i].timestamp || 0);
-      const daysDiff = (curr.getTime() - prev.getTime()) / (1000 * 60 * 60 * 24);
-      totalDaysBetweenVisits += daysDiff;
+    const visitDates = getDatedVisits(client.id);
+    for (let i = 1; i < visitDates.length; i++) {
+      totalDaysBetweenVisits += (visitDates[i].getTime() - visitDates[i - 1].getTime()) / MS_PER_DAY;
       visitPairs++;
     }
   });
@@ -363,6 +452,11 @@ export const calculateClientRetentionMetrics = (
     totalClients: clients.length,
     clientsWithMultipleVisits,
     retentionRate,
+    retentionWindowDays: RETENTION_WINDOW_DAYS,
+    eligibleClients,
+    retainedClients,
+    churnedClients,
+    averageTenureDays,
     averageDaysBetweenVisits,
     clientVisitCounts,
     topReturningClients
@@ -423,7 +517,8 @@ export const generateTrendData = (
   clients: Client[],
   payments: Payment[],
   visits: BusinessVisit[],
-  days: number = 30
+  days: number = 30,
+  conversion?: CurrencyConversion
 ): TrendData[] => {
   const trends: TrendData[] = [];
   const endDate = new Date();
@@ -448,10 +543,15 @@ export const generateTrendData = (
     
     const dayPayments = payments.filter(payment => {
       const paymentDate = new Date(payment.payment_date);
-      return paymentDate >= date && paymentDate < nextDate && payment.status === 'confirmed';
+      return paymentDate >= date && paymentDate < nextDate && isMoneyReceived(payment);
+    });
+    
+    const dayRefunds = payments.filter(payment => {
+      const paymentDate = new Date(payment.payment_date);
+      return paymentDate >= date && paymentDate < nextDate && isRefund(payment) && payment.status === 'confirmed';
     });
     
-    const dayRevenue = dayPayments.reduce((sum, p) => sum + p.amount, 0);
+    const dayRevenue = calculateRevenueBreakdown([...dayPayments, ...dayRefunds], undefined, undefined, conversion).net;
     
     trends.push({
       date: date.toISOString().split('T')[0],
@@ -482,10 +582,13 @@ ${metrics.visitLocations.length > 0 ? `• ${metrics.visitLocations.slice(0, 3).
 🎯 Goals Completed: ${metrics.goalsCompleted}
 ${metrics.goalTitles.length > 0 ? `• ${metrics.goalTitles.join(', ')}` : '• No goals completed this period'}
 
-💰 Payments: ${metrics.paymentsReceived} (${metrics.totalRevenue.toLocaleString('en-US', { style: 'currency', currency: 'USD' })})
-${metrics.averagePayment > 0 ? `• Average: ${metrics.averagePayment.toLocaleString('en-US', { style: 'currency', currency: 'USD' })}` : '• No payments this period'}
+💰 Payments: ${metrics.paymentsReceived} (${formatMoney(metrics.totalRevenue, metrics.currency)})
+${metrics.averagePayment > 0 ? `• Average: ${formatMoney(metrics.averagePayment, metrics.currency)}` : '• No payments this period'}
 
-${metrics.paymentDetails.length > 0 ? `Recent Payments:\n${metrics.paymentDetails.slice(0, 3).map(p => `• ${p.client}: ${p.amount.toLocaleString('en-US', { style: 'currency', currency: 'USD' })} (${p.date})`).join('\n')}` : ''}`;
+${metrics.paymentDetails.length > 0 ? `Recent Payments:\n${metrics.paymentDetails.slice(0, 3).map(p => {
+    const original = formatOriginalAmount(p.originalAmount, p.currency, metrics.currency);
+    return `• ${p.client}: ${formatMoney(p.amount, metrics.currency)}${original ? ` (${original})` : ''} (${p.date})`;
+  }).join('\n')}` : ''}`;
 };
 
 // Check if client needs attention (hasn't been visited recently)
@@ -1,4 +1,5 @@
 import { supabase } from '../lib/supabase';
+import { VISIT_ADDRESS_FIELDS, parseVisitLocation } from './visitLocation';
 
 export async function runDatabaseMigration() {
   console.log('Starting database migration...');
@@ -100,4 +101,50 @@ export async function manualMigration() {
     console.error('Manual migration failed:', error);
     return false;
   }
-}
\ No newline at end of file
+}
+// Backfill the structured location fields (migrations/19_add_visit_location_fields.sql) from the
+// legacy "Business - Address (lat, lng)" location string. Only rows without any structured field are touched
+export async function migrateVisitLocations() {
+  try {
+    console.log('Migrating visit locations...');
+
+    const { data, error } = await supabase
+      .from('business_visits')
+      .select('id, location, business_name, street, city, region, postal_code, country')
+      .not('location', 'is', null)
+      .is('business_name', null)
+      .is('street', null)
+      .is('city', null)
+      .is('region', null)
+      .is('postal_code', null)
+      .is('country', null);
+
+    if (error) {
+      console.error('Error loading visits to migrate:', error);
+      return 0;
+    }
+
+    let migrated = 0;
+    for (const visit of data || []) {
+      const fields = parseVisitLocation(visit.location);
+      if (!fields.business_name && !VISIT_ADDRESS_FIELDS.some(field => fields[field])) continue;
+
+      const { error: updateError } = await supabase
+        .from('business_visits')
+        .update(fields)
+        .eq('id', visit.id);
+
+      if (updateError) {
+        console.error('Error migrating visit location:', visit.id, updateError);
+      } else {
+        migrated++;
+      }
+    }
+
+    console.log(`Visit location migration completed: ${migrated} of ${data?.length || 0} visits`);
+    return migrated;
+  } catch (error) {
+    console.error('Visit location migration failed:', error);
+    return 0;
+  }
+}
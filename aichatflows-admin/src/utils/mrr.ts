@@ -0,0 +1,203 @@
+import { Client, ClientStatusChange, CohortRetention, MRRWaterfallMonth, PlanChange, PlanInfo, PlanPeriod } from '../types';
+import { CurrencyConversion, convertToBase, getCurrency } from './currency';
+import { findPlan, getMonthlyPrice } from './finance';
+import { BILLABLE_CLIENT_STATUSES } from './invoices';
+import { buildPlanTimeline, getPlanPeriodOnDate } from './proration';
+
+// Months after a cohort's first month at which retention is reported
+export const COHORT_RETENTION_OFFSETS = [1, 3, 6, 12];
+
+// Oldest history rebuilt, in months
+const MAX_HISTORY_MONTHS = 36;
+
+export interface MRRSeries {
+  months: string[]; // YYYY-MM, oldest first
+  byClient: Map<string, number[]>; // client id -> MRR at the end of each month
+}
+
+// Month key (YYYY-MM) for a date
+export const toMonthKey = (date: Date): string => {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+};
+
+// Display label for a month key
+export const formatMonthKey = (month: string, style: 'short' | 'long' = 'short'): string => {
+  const [year, monthIndex] = month.split('-').map(Number);
+  return new Date(year, monthIndex - 1, 1).toLocaleDateString('en-US', { month: style, year: 'numeric' });
+};
+
+// Status a client had at a point in time, or null if they weren't a client yet
+export const getStatusOnDate = (
+  client: Client,
+  statusChanges: ClientStatusChange[],
+  date: Date
+): Client['status'] | null => {
+  if (client.created_at && new Date(client.created_at) > date) return null;
+
+  // Without recorded history, assume the current status held throughout
+  if (statusChanges.length === 0) return client.status;
+
+  let status: Client['status'] | null = null;
+  for (const change of statusChanges) {
+    if (new Date(change.changed_at) > date) break;
+    status = change.to_status;
+  }
+  return status;
+};
+
+// MRR a client contributed at a point in time, in the base currency
+const getMRROnDate = (
+  client: Client,
+  planTimeline: PlanPeriod[],
+  statusChanges: ClientStatusChange[],
+  plans: PlanInfo[],
+  date: Date,
+  conversion?: CurrencyConversion
+): number => {
+  const status = getStatusOnDate(client, statusChanges, date);
+  if (!status || !BILLABLE_CLIENT_STATUSES.includes(status)) return 0;
+
+  const period = getPlanPeriodOnDate(planTimeline, date);
+  if (!period) return 0;
+
+  const plan = findPlan(plans, period.plan);
+  const monthlyPrice = getMonthlyPrice({ price: period.price, billing_interval: plan?.billing_interval || 'month' });
+  return convertToBase(monthlyPrice, getCurrency(plan || {}), conversion);
+};
+
+// Rebuild every client's month-end MRR from plan and status history, in the base currency
+export const buildMRRSeries = (
+  clients: Client[],
+  planChanges: PlanChange[],
+  statusChanges: ClientStatusChange[],
+  plans: PlanInfo[],
+  now: Date = new Date(),
+  conversion?: CurrencyConversion
+): MRRSeries => {
+  const currentMonth = new Date(now.getFullYear(), now.getMonth(), 1);
+  const earliest = clients.reduce((min, client) => {
+    const created = client.created_at ? new Date(client.created_at) : now;
+    return created < min ? created : min;
+  }, now);
+
+  const monthsBack = Math.min(
+    MAX_HISTORY_MONTHS - 1,
+    (currentMonth.getFullYear() - earliest.getFullYear()) * 12 + currentMonth.getMonth() - earliest.getMonth()
+  );
+
+  // Snapshot at the end of each month; the current month uses today
+  const snapshots: Date[] = [];
+  for (let offset = monthsBack; offset >= 0; offset--) {
+    const monthEnd = new Date(currentMonth.getFullYear(), currentMonth.getMonth() - offset + 1, 0, 23, 59, 59, 999);
+    snapshots.push(offset === 0 ? now : monthEnd);
+  }
+
+  const statusByClient = new Map<string, ClientStatusChange[]>();
+  [...statusChanges]
+    .sort((a, b) => a.changed_at.localeCompare(b.changed_at))
+    .forEach(change => {
+      const history = statusByClient.get(change.client_id) || [];
+      history.push(change);
+      statusByClient.set(change.client_id, history);
+    });
+
+  const byClient = new Map<string, number[]>();
+  clients.forEach(client => {
+    const planTimeline = buildPlanTimeline(client, planChanges, plans);
+    const clientStatuses = statusByClient.get(client.id) || [];
+    byClient.set(
+      client.id,
+      snapshots.map(date => getMRROnDate(client, planTimeline, clientStatuses, plans, date, conversion))
+    );
+  });
+
+  return { months: snapshots.map(toMonthKey), byClient };
+};
+
+const roundCurrency = (amount: number): number => Math.round(amount * 100) / 100;
+
+// Month-by-month MRR movements, most recent months last
+export const buildMRRWaterfall = (series: MRRSeries, monthCount: number = 12): MRRWaterfallMonth[] => {
+  const waterfall: MRRWaterfallMonth[] = series.months.map((month, index) => {
+    const entry: MRRWaterfallMonth = {
+      month,
+      startingMRR: 0,
+      newMRR: 0,
+      expansionMRR: 0,
+      contractionMRR: 0,
+      churnedMRR: 0,
+      reactivatedMRR: 0,
+      endingMRR: 0,
+    };
+
+    series.byClient.forEach(values => {
+      const previous = index > 0 ? values[index - 1] : 0;
+      const current = values[index];
+      entry.startingMRR += previous;
+      entry.endingMRR += current;
+
+      if (previous === 0 && current > 0) {
+        // Paying again after an earlier paying month counts as reactivation
+        const paidBefore = values.slice(0, index).some(value => value > 0);
+        if (paidBefore) {
+          entry.reactivatedMRR += current;
+        } else {
+          entry.newMRR += current;
+        }
+      } else if (previous > 0 && current === 0) {
+        entry.churnedMRR += previous;
+      } else if (current > previous) {
+        entry.expansionMRR += current - previous;
+      } else if (current < previous) {
+        entry.contractionMRR += previous - current;
+      }
+    });
+
+    return {
+      month,
+      startingMRR: roundCurrency(entry.startingMRR),
+      newMRR: roundCurrency(entry.newMRR),
+      expansionMRR: roundCurrency(entry.expansionMRR),
+      contractionMRR: roundCurrency(entry.contractionMRR),
+      churnedMRR: roundCurrency(entry.churnedMRR),
+      reactivatedMRR: roundCurrency(entry.reactivatedMRR),
+      endingMRR: roundCurrency(entry.endingMRR),
+    };
+  });
+
+  return waterfall.slice(-monthCount);
+};
+
+// Net revenue retention per signup cohort, newest cohort first
+export const buildCohortRetention = (
+  series: MRRSeries,
+  offsets: number[] = COHORT_RETENTION_OFFSETS
+): CohortRetention[] => {
+  const cohorts = new Map<number, string[]>();
+
+  // A client's cohort is the first month they paid
+  series.byClient.forEach((values, clientId) => {
+    const firstIndex = values.findIndex(value => value > 0);
+    if (firstIndex === -1) return;
+    cohorts.set(firstIndex, [...(cohorts.get(firstIndex) || []), clientId]);
+  });
+
+  return Array.from(cohorts.entries())
+    .sort(([a], [b]) => b - a)
+    .map(([startIndex, clientIds]) => {
+      const sumAt = (index: number) =>
+        clientIds.reduce((sum, clientId) => sum + (series.byClient.get(clientId)?.[index] || 0), 0);
+      const startingMRR = sumAt(startIndex);
+
+      return {
+        cohort: series.months[startIndex],
+        clientCount: clientIds.length,
+        startingMRR: roundCurrency(startingMRR),
+        retention: offsets.map(offset => {
+          const index = startIndex + offset;
+          if (index >= series.months.length || startingMRR === 0) return null;
+          return Math.round((sumAt(index) / startingMRR) * 1000) / 10;
+        }),
+      };
+    });
+};
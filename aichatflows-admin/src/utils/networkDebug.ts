@@ -2,7 +2,8 @@ import { Alert } from 'react-native';
 
 const debugMode = process.env.EXPO_PUBLIC_DEBUG_MODE === 'true';
 
-export const testNetworkConnectivity = async () => {
+// The sync queue uses this as its connectivity probe with showResults=false
+export const testNetworkConnectivity = async (showResults = debugMode) => {
   console.log('[Network Debug] Starting connectivity tests...');
   
   const tests = [
@@ -66,7 +67,7 @@ export const testNetworkConnectivity = async () => {
   }
   
   // Show results in alert
-  if (debugMode) {
+  if (showResults) {
     const summary = results
       .map(r => `${r.success ? '✅' : '❌'} ${r.test}: ${r.success ? r.status : r.error}`)
       .join('\n');
@@ -77,6 +78,11 @@ export const testNetworkConnectivity = async () => {
   return results;
 };
 
+// True when the app's own Supabase instance answered, whatever the status code
+export const isSupabaseReachable = (results: any[]) => {
+  return results.some(result => result.test === 'Your Supabase URL' && result.success);
+};
+
 // Check if we're using the correct Supabase URL format
 export const validateSupabaseUrl = () => {
   const url = process.env.EXPO_PUBLIC_SUPABASE_URL;
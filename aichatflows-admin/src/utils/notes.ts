@@ -0,0 +1,66 @@
+import { AdminUser, Note } from '../types';
+
+export interface NoteThread {
+  note: Note;
+  replies: Note[];
+}
+
+// "@jane" mentions jane@example.com
+export const getMentionHandle = (email: string): string => email.split('@')[0].toLowerCase();
+
+// Emails of the admins mentioned in a note body
+export const extractMentions = (body: string, admins: AdminUser[]): string[] => {
+  const handles = Array.from(body.matchAll(/(^|\s)@([\w.+-]+)/g), match => match[2].toLowerCase().replace(/\.+$/, ''));
+  const emails = admins
+    .filter(admin => handles.includes(getMentionHandle(admin.email)))
+    .map(admin => admin.email);
+  return Array.from(new Set(emails));
+};
+
+// The partial handle being typed at the end of the body, or null when not in a mention
+export const getMentionQuery = (body: string): string | null => {
+  const match = body.match(/(^|\s)@([\w.+-]*)$/);
+  return match ? match[2].toLowerCase() : null;
+};
+
+// Finish the mention being typed with the picked admin's handle
+export const insertMention = (body: string, email: string): string => {
+  return body.replace(/@([\w.+-]*)$/, `@${getMentionHandle(email)} `);
+};
+
+// Top-level notes, pinned first and then newest first, each with its replies oldest first
+export const buildNoteThreads = (notes: Note[]): NoteThread[] => {
+  const repliesByParent = new Map<string, Note[]>();
+  notes.filter(note => note.parent_id).forEach(reply => {
+    const replies = repliesByParent.get(reply.parent_id!) || [];
+    replies.push(reply);
+    repliesByParent.set(reply.parent_id!, replies);
+  });
+
+  return notes
+    .filter(note => !note.parent_id)
+    .sort((a, b) => Number(b.pinned) - Number(a.pinned) || b.created_at.localeCompare(a.created_at))
+    .map(note => ({
+      note,
+      replies: (repliesByParent.get(note.id) || []).sort((a, b) => a.created_at.localeCompare(b.created_at)),
+    }));
+};
+
+// Notes carried over from the old single notes fields have no author
+export const getNoteAuthorLabel = (note: Note): string => note.author_email || 'Earlier notes';
+
+// Adds each item's notes as one `note_text` string so list searches match on them
+export const withNoteText = <T extends { id: string }>(
+  items: T[],
+  notes: Note[],
+  entityType: Note['entity_type']
+): (T & { note_text?: string })[] => {
+  const textByEntity = new Map<string, string>();
+  notes
+    .filter(note => note.entity_type === entityType)
+    .forEach(note => {
+      const existing = textByEntity.get(note.entity_id);
+      textByEntity.set(note.entity_id, existing ? `${existing}\n${note.body}` : note.body);
+    });
+  return items.map(item => ({ ...item, note_text: textByEntity.get(item.id) }));
+};
@@ -1,7 +1,8 @@
 import * as Notifications from 'expo-notifications';
 import { supabase } from '../lib/supabase';
 import { Client, Payment, BusinessVisit, Goal, NotificationLog } from '../types';
-import { PLANS } from './finance';
+import { getPlanLabel } from './finance';
+import { formatMoney, getCurrency } from './currency';
 
 // Save notification to database for history
 async function saveNotificationToDatabase(
@@ -162,17 +163,17 @@ export async function notifyPaymentReceived(
     return;
   }
 
-  const planInfo = client.plan ? PLANS[client.plan] : null;
-  const planName = planInfo ? `${planInfo.name.charAt(0).toUpperCase() + planInfo.name.slice(1)} Plan` : '';
+  const planName = client.plan ? `${getPlanLabel([], client.plan)} Plan` : '';
   
   const title = '💰 Payment received';
-  const body = `${client.name} — $${payment.amount}${planName ? ` (${planName})` : ''}`;
+  const body = `${client.name} — ${formatMoney(payment.amount, getCurrency(payment))}${planName ? ` (${planName})` : ''}`;
   const data = {
     type: 'payment_received',
     paymentId: payment.id,
     clientId: client.id,
     clientName: client.name,
     amount: payment.amount,
+    currency: getCurrency(payment),
     plan: client.plan,
     unique_key: uniqueKey,
   };
@@ -258,6 +259,40 @@ export async function notifyGoalReached(
   await saveNotificationToDatabase(userId, 'goal_reached', title, body, data);
 }
 
+// Notify when a client hits a dunning reminder stage
+export async function notifyPaymentOverdue(
+  client: Client,
+  daysLate: number,
+  amountDue: number,
+  currency: string,
+  reminderKey: string,
+  userId: string
+): Promise<void> {
+  // Each reminder stage is sent once per debt
+  if (await wasRecentlySent(userId, 'payment_overdue', reminderKey, 24 * 30)) {
+    console.log('Payment overdue notification recently sent, skipping');
+    return;
+  }
+
+  const title = '⏰ Payment overdue';
+  const body = `${client.name}${client.business_name ? ` (${client.business_name})` : ''} — ${formatMoney(amountDue, currency)} is ${daysLate} day${daysLate === 1 ? '' : 's'} late`;
+  const data = {
+    type: 'payment_overdue',
+    clientId: client.id,
+    clientName: client.name,
+    daysLate,
+    amountDue,
+    currency,
+    unique_key: reminderKey,
+  };
+
+  // Send local notification
+  await sendLocalNotification(title, body, data);
+
+  // Save to database
+  await saveNotificationToDatabase(userId, 'payment_overdue', title, body, data);
+}
+
 // Get notification history for user
 export async function getNotificationHistory(
   userId: string,
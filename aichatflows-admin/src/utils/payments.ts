@@ -0,0 +1,97 @@
+import { Payment, RevenueBreakdown } from '../types';
+import { CurrencyConversion, getCurrency, toBaseAmount } from './currency';
+
+export type RefundState = 'refunded' | 'partially_refunded';
+
+const roundCurrency = (amount: number): number => Math.round(amount * 100) / 100;
+
+// Check if a payment record returns money to the client
+export const isRefund = (payment: Payment): boolean => payment.kind === 'refund';
+
+// Check if a payment record is a credit note (reduces what a client owes, no money changes hands)
+export const isCreditNote = (payment: Payment): boolean => payment.kind === 'credit_note';
+
+// Check if a payment record is money actually received
+export const isMoneyReceived = (payment: Payment): boolean => {
+  return payment.status === 'confirmed' && !isRefund(payment) && !isCreditNote(payment);
+};
+
+// Confirmed refunds issued against a payment
+export const getRefundsForPayment = (payment: Payment, payments: Payment[]): Payment[] => {
+  return payments.filter(p =>
+    p && isRefund(p) && p.status === 'confirmed' && p.original_payment_id === payment.id
+  );
+};
+
+// Total refunded against a payment
+export const getRefundedAmount = (payment: Payment, payments: Payment[]): number => {
+  return roundCurrency(getRefundsForPayment(payment, payments).reduce((sum, refund) => sum + refund.amount, 0));
+};
+
+// Amount of a payment that can still be refunded
+export const getRefundableAmount = (payment: Payment, payments: Payment[]): number => {
+  if (!isMoneyReceived(payment)) return 0;
+  return Math.max(0, roundCurrency(payment.amount - getRefundedAmount(payment, payments)));
+};
+
+// Whether a payment has been fully or partly refunded
+export const getRefundState = (payment: Payment, payments: Payment[]): RefundState | null => {
+  const refunded = getRefundedAmount(payment, payments);
+  if (refunded <= 0) return null;
+  return refunded >= payment.amount ? 'refunded' : 'partially_refunded';
+};
+
+// Check if a payment covered only part of what was owed
+export const isPartialPayment = (payment: Payment): boolean => {
+  return !!payment.amount_owed && payment.amount < payment.amount_owed;
+};
+
+// What was still owed after a partial payment
+export const getRemainingOwed = (payment: Payment): number => {
+  if (!payment.amount_owed) return 0;
+  return Math.max(0, roundCurrency(payment.amount_owed - payment.amount));
+};
+
+// Gross received, refunded and net revenue, optionally within a date range [startDate, endDate)
+// and converted to a base currency
+export const calculateRevenueBreakdown = (
+  payments: Payment[],
+  startDate?: Date,
+  endDate?: Date,
+  conversion?: CurrencyConversion
+): RevenueBreakdown => {
+  const inRange = (payment: Payment) => {
+    if (!startDate && !endDate) return true;
+    if (!payment.payment_date) return false;
+    const paymentDate = new Date(payment.payment_date);
+    if (isNaN(paymentDate.getTime())) return false;
+    return (!startDate || paymentDate >= startDate) && (!endDate || paymentDate < endDate);
+  };
+
+  const valid = payments.filter(payment => payment && typeof payment.amount === 'number' && inRange(payment));
+
+  const received = valid.filter(isMoneyReceived);
+  // Refunds count in the period they were issued, not the period of the original payment
+  const refunds = valid.filter(payment => isRefund(payment) && payment.status === 'confirmed');
+
+  const gross = received.reduce((sum, payment) => sum + toBaseAmount(payment, conversion), 0);
+  const refunded = refunds.reduce((sum, payment) => sum + toBaseAmount(payment, conversion), 0);
+
+  // Net in each original currency, before conversion
+  const byCurrency: Record<string, number> = {};
+  received.forEach(payment => {
+    const currency = getCurrency(payment);
+    byCurrency[currency] = roundCurrency((byCurrency[currency] || 0) + payment.amount);
+  });
+  refunds.forEach(payment => {
+    const currency = getCurrency(payment);
+    byCurrency[currency] = roundCurrency((byCurrency[currency] || 0) - payment.amount);
+  });
+
+  return {
+    gross: roundCurrency(gross),
+    refunded: roundCurrency(refunded),
+    net: roundCurrency(gross - refunded),
+    byCurrency,
+  };
+};
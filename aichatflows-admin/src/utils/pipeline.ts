@@ -0,0 +1,76 @@
+import { Client, ClientStatusChange } from '../types';
+
+export type PipelineStage = Client['status'];
+
+// Board columns, left to right
+export const PIPELINE_STAGES: { status: PipelineStage; label: string; color: string }[] = [
+  { status: 'in_progress', label: 'In Progress', color: '#F59E0B' },
+  { status: 'active', label: 'Active', color: '#10B981' },
+  { status: 'paused', label: 'Paused', color: '#F97316' },
+  { status: 'cancelled', label: 'Cancelled', color: '#EF4444' },
+];
+
+// Days a client can sit in a stage before the card is flagged stale (0 = never)
+export type StaleThresholds = Record<PipelineStage, number>;
+
+export const DEFAULT_STALE_THRESHOLDS: StaleThresholds = {
+  in_progress: 14,
+  active: 0,
+  paused: 30,
+  cancelled: 0,
+};
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+export const getStageLabel = (status: PipelineStage): string => {
+  return PIPELINE_STAGES.find(stage => stage.status === status)?.label || status;
+};
+
+// When the client entered its current status: the latest matching status change, else signup
+export const getStageEnteredAt = (client: Client, statusChanges: ClientStatusChange[]): Date => {
+  const latest = statusChanges
+    .filter(change => change.client_id === client.id && change.to_status === client.status)
+    .reduce<ClientStatusChange | null>((found, change) =>
+      !found || change.changed_at > found.changed_at ? change : found, null);
+
+  return new Date(latest?.changed_at || client.created_at);
+};
+
+export const getDaysInStage = (client: Client, statusChanges: ClientStatusChange[], now: Date = new Date()): number => {
+  const enteredAt = getStageEnteredAt(client, statusChanges);
+  return Math.max(0, Math.floor((now.getTime() - enteredAt.getTime()) / MS_PER_DAY));
+};
+
+export const isStaleInStage = (daysInStage: number, status: PipelineStage, thresholds: StaleThresholds): boolean => {
+  const threshold = thresholds[status];
+  return threshold > 0 && daysInStage >= threshold;
+};
+
+// "Today", "3d", "5w", "4mo"
+export const formatTimeInStage = (days: number): string => {
+  if (days < 1) return 'Today';
+  if (days < 14) return `${days}d`;
+  if (days < 60) return `${Math.floor(days / 7)}w`;
+  return `${Math.floor(days / 30)}mo`;
+};
+
+// Clients bucketed by stage, longest in stage first so stale cards surface at the top
+export const groupClientsByStage = (
+  clients: Client[],
+  statusChanges: ClientStatusChange[],
+  now: Date = new Date()
+): Record<PipelineStage, { client: Client; daysInStage: number }[]> => {
+  const columns = Object.fromEntries(
+    PIPELINE_STAGES.map(stage => [stage.status, [] as { client: Client; daysInStage: number }[]])
+  ) as Record<PipelineStage, { client: Client; daysInStage: number }[]>;
+
+  clients.forEach(client => {
+    columns[client.status]?.push({ client, daysInStage: getDaysInStage(client, statusChanges, now) });
+  });
+
+  PIPELINE_STAGES.forEach(stage => {
+    columns[stage.status].sort((a, b) => b.daysInStage - a.daysInStage);
+  });
+
+  return columns;
+};
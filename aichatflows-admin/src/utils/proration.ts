@@ -0,0 +1,191 @@
+import { Client, Invoice, InvoiceLineItem, Payment, PlanChange, PlanInfo, PlanPeriod } from '../types';
+import { formatMoney, getCurrency } from './currency';
+import { getClientPlanInfo, getPlanLabel } from './finance';
+import {
+  buildMonthlyInvoice,
+  getBillingPeriod,
+  getInvoiceAmountPaid,
+  getInvoiceDueDate,
+  getPlanBillingPeriod,
+  isBillingPeriod,
+  parseISODate,
+  toISODate,
+} from './invoices';
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+export interface Proration {
+  effectiveDate: string;
+  credit: number; // unused part of the old plan already billed
+  charge: number; // rest of the period on the new plan not yet billed
+  amount: number; // charge - credit; positive = client owes, negative = client is owed
+  daysRemaining: number;
+  currency: string; // the new plan's currency
+}
+
+const getDaysBetween = (start: Date, end: Date): number => {
+  return Math.round((end.getTime() - start.getTime()) / MS_PER_DAY);
+};
+
+const roundCurrency = (amount: number): number => Math.round(amount * 100) / 100;
+
+// Share of a period left from a date (inclusive) to the end of the period
+const getRemainingShare = (period: { start: Date; end: Date }, date: Date): { share: number; days: number } => {
+  const day = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  const totalDays = getDaysBetween(period.start, period.end) + 1;
+  const days = Math.max(0, Math.min(totalDays, getDaysBetween(day, period.end) + 1));
+  return { share: days / totalDays, days };
+};
+
+// Work out the credit or charge for moving a client to another plan on a date. Both sides are
+// measured against the plan's own billing period, whether or not its invoice exists yet
+export const calculateProration = (
+  client: Client,
+  fromPlan: PlanInfo,
+  toPlan: PlanInfo,
+  effectiveDate: Date = new Date()
+): Proration => {
+  const fromRemaining = getRemainingShare(getPlanBillingPeriod(client, fromPlan, effectiveDate), effectiveDate);
+  const toRemaining = getRemainingShare(getPlanBillingPeriod(client, toPlan, effectiveDate), effectiveDate);
+  const credit = roundCurrency(fromPlan.price * fromRemaining.share);
+  const charge = roundCurrency(toPlan.price * toRemaining.share);
+
+  return {
+    effectiveDate: toISODate(effectiveDate),
+    credit,
+    charge,
+    amount: roundCurrency(charge - credit),
+    daysRemaining: toRemaining.days,
+    currency: getCurrency(toPlan),
+  };
+};
+
+// Invoice lines for a plan change: the unused part of the old plan and the rest of the period on the new one
+export const buildProrationLineItems = (
+  proration: Proration,
+  fromPlan: PlanInfo,
+  toPlan: PlanInfo
+): InvoiceLineItem[] => {
+  const lines: InvoiceLineItem[] = [];
+  if (proration.credit > 0) {
+    lines.push({
+      description: `Unused ${fromPlan.label} plan from ${proration.effectiveDate}`,
+      quantity: 1,
+      unit_price: -proration.credit,
+      amount: -proration.credit,
+    });
+  }
+  if (proration.charge > 0) {
+    lines.push({
+      description: `${toPlan.label} plan for the remaining ${proration.daysRemaining} days`,
+      quantity: 1,
+      unit_price: proration.charge,
+      amount: proration.charge,
+    });
+  }
+  return lines;
+};
+
+// The period's invoice with a plan change's lines added, creating the invoice on the old plan if
+// it hasn't been generated yet (a voided one is reopened with just the adjustment). When the new
+// total drops below what has already been paid on it, the difference is credit owed to the client
+export const applyProrationToInvoice = (
+  client: Client,
+  fromPlan: PlanInfo,
+  adjustment: InvoiceLineItem[],
+  invoice: Invoice | undefined,
+  payments: Payment[],
+  effectiveDate: Date = new Date()
+): { invoice: Omit<Invoice, 'id' | 'created_at' | 'updated_at' | 'client'>; credit: number } => {
+  // Yearly plans outside their billing month only carry the adjustment, on an invoice for the month
+  const generated = isBillingPeriod(client, fromPlan, effectiveDate) ? buildMonthlyInvoice(client, fromPlan, effectiveDate) : null;
+  const month = getBillingPeriod(effectiveDate);
+  const baseLines = invoice
+    ? (invoice.status === 'void' ? [] : invoice.line_items || [])
+    : generated?.line_items || [];
+
+  const lineItems = [...baseLines, ...adjustment];
+  const rawTotal = roundCurrency(lineItems.reduce((sum, item) => sum + item.amount, 0));
+  const total = Math.max(0, rawTotal);
+  const paid = invoice && invoice.status !== 'void' ? Math.min(getInvoiceAmountPaid(invoice, payments), invoice.total) : 0;
+
+  return {
+    invoice: {
+      client_id: client.id,
+      period_start: invoice?.period_start || generated?.period_start || toISODate(month.start),
+      period_end: invoice?.period_end || generated?.period_end || toISODate(month.end),
+      due_date: invoice?.due_date || generated?.due_date || toISODate(getInvoiceDueDate(month.start)),
+      status: total > paid ? 'open' : 'paid',
+      line_items: lineItems,
+      total,
+      currency: getCurrency(invoice || fromPlan),
+    },
+    credit: Math.max(0, roundCurrency(paid - rawTotal)),
+  };
+};
+
+// One-line summary of a proration for confirmations and notes
+export const describeProration = (proration: Proration): string => {
+  if (proration.amount > 0) {
+    return `Prorated charge of ${formatMoney(proration.amount, proration.currency)} for the remaining ${proration.daysRemaining} days`;
+  }
+  if (proration.amount < 0) {
+    return `Prorated credit of ${formatMoney(Math.abs(proration.amount), proration.currency)} for the remaining ${proration.daysRemaining} days`;
+  }
+  return 'No proration — the new price applies from the next invoice';
+};
+
+// Rebuild a client's plan periods from their change history, oldest first
+export const buildPlanTimeline = (client: Client, changes: PlanChange[], plans: PlanInfo[]): PlanPeriod[] => {
+  const history = changes
+    .filter(change => change.client_id === client.id)
+    .sort((a, b) => a.effective_date.localeCompare(b.effective_date) || a.created_at.localeCompare(b.created_at));
+
+  const signupDate = client.created_at ? toISODate(new Date(client.created_at)) : undefined;
+
+  if (history.length === 0) {
+    const planInfo = getClientPlanInfo(client, plans);
+    return [{ plan: planInfo.name, label: planInfo.label, price: planInfo.price, start: signupDate || toISODate(new Date()) }];
+  }
+
+  const periods: PlanPeriod[] = [];
+
+  // History that starts with a change still has an opening period on the previous plan
+  const first = history[0];
+  if (first.from_plan && signupDate && signupDate < first.effective_date) {
+    periods.push({
+      plan: first.from_plan,
+      label: getPlanLabel(plans, first.from_plan),
+      price: Number(first.from_price || 0),
+      start: signupDate,
+    });
+  }
+
+  history.forEach(change => {
+    periods.push({
+      plan: change.to_plan,
+      label: getPlanLabel(plans, change.to_plan),
+      price: Number(change.to_price),
+      start: change.effective_date,
+      change,
+    });
+  });
+
+  // Each period ends where the next one starts; same-day changes collapse to the last one
+  return periods
+    .map((period, index) => ({ ...period, end: periods[index + 1]?.start }))
+    .filter(period => !period.end || period.end > period.start);
+};
+
+// Plan period a client was on at a date, if they were a client yet
+export const getPlanPeriodOnDate = (timeline: PlanPeriod[], date: Date): PlanPeriod | undefined => {
+  const day = toISODate(date);
+  return timeline.find(period => period.start <= day && (!period.end || day < period.end));
+};
+
+// Format a plan period's date range for display
+export const formatPlanPeriod = (period: PlanPeriod): string => {
+  const format = (value: string) =>
+    parseISODate(value).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+  return period.end ? `${format(period.start)} – ${format(period.end)}` : `Since ${format(period.start)}`;
+};
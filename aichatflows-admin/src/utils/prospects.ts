@@ -0,0 +1,153 @@
+import { Ionicons } from '@expo/vector-icons';
+import { BusinessVisit, Prospect, ProspectFormData } from '../types';
+import { parseISODate, toISODate } from './invoices';
+import { Coordinates, getDistanceMeters } from './geo';
+
+export const PROSPECT_STAGES: { value: Prospect['stage']; label: string; color: string; icon: keyof typeof Ionicons.glyphMap }[] = [
+  { value: 'visited', label: 'Visited', color: '#6B7280', icon: 'walk-outline' },
+  { value: 'interested', label: 'Interested', color: '#3B82F6', icon: 'thumbs-up-outline' },
+  { value: 'follow_up', label: 'Follow-up', color: '#F59E0B', icon: 'time-outline' },
+  { value: 'signed', label: 'Signed', color: '#10B981', icon: 'checkmark-circle-outline' },
+  { value: 'rejected', label: 'Rejected', color: '#EF4444', icon: 'close-circle-outline' },
+];
+
+// Stages a prospect can still move on from
+export const OPEN_PROSPECT_STAGES: Prospect['stage'][] = ['visited', 'interested', 'follow_up'];
+
+// A new visit within this distance of a prospect with the same name is treated as the same business
+export const PROSPECT_MATCH_RADIUS_METERS = 150;
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+export const getProspectStageLabel = (stage: Prospect['stage']): string => {
+  return PROSPECT_STAGES.find(option => option.value === stage)?.label || stage;
+};
+
+export const getProspectStageColor = (stage: Prospect['stage']): string => {
+  return PROSPECT_STAGES.find(option => option.value === stage)?.color || '#6B7280';
+};
+
+export const getProspectStageIcon = (stage: Prospect['stage']): keyof typeof Ionicons.glyphMap => {
+  return PROSPECT_STAGES.find(option => option.value === stage)?.icon || 'storefront-outline';
+};
+
+export const isProspectOpen = (prospect: Prospect): boolean => {
+  return !prospect.client_id && OPEN_PROSPECT_STAGES.includes(prospect.stage);
+};
+
+// Open prospects whose next action is today or already past
+export const isProspectActionDue = (prospect: Prospect, now: Date = new Date()): boolean => {
+  if (!isProspectOpen(prospect) || !prospect.next_action_date) return false;
+  return prospect.next_action_date <= toISODate(now);
+};
+
+// "Today", "Tomorrow", "In 3 days", "2 days ago"
+export const formatNextAction = (date: string, now: Date = new Date()): string => {
+  const today = parseISODate(toISODate(now));
+  const days = Math.round((parseISODate(date).getTime() - today.getTime()) / MS_PER_DAY);
+  if (days === 0) return 'Today';
+  if (days === 1) return 'Tomorrow';
+  if (days === -1) return 'Yesterday';
+  return days > 0 ? `In ${days} days` : `${-days} days ago`;
+};
+
+export const getEmptyProspectForm = (defaults: Partial<ProspectFormData> = {}): ProspectFormData => ({
+  business_name: '',
+  address: '',
+  contact_name: '',
+  contact_phone: '',
+  contact_email: '',
+  stage: 'visited',
+  next_action_date: '',
+  notes: '',
+  ...defaults,
+});
+
+export const getProspectFormData = (prospect: Prospect): ProspectFormData => ({
+  business_name: prospect.business_name,
+  address: prospect.address || '',
+  contact_name: prospect.contact_name || '',
+  contact_phone: prospect.contact_phone || '',
+  contact_email: prospect.contact_email || '',
+  stage: prospect.stage,
+  next_action_date: prospect.next_action_date || '',
+  notes: prospect.notes || '',
+});
+
+const normalizeName = (name: string): string => name.trim().toLowerCase().replace(/\s+/g, ' ');
+
+// An open prospect for the same business: same name and, when both have coordinates, close by
+export const findMatchingProspect = (
+  prospects: Prospect[],
+  businessName: string,
+  coordinates?: Coordinates
+): Prospect | null => {
+  const name = normalizeName(businessName);
+  if (!name) return null;
+
+  const candidates = prospects
+    .filter(prospect => isProspectOpen(prospect) && normalizeName(prospect.business_name) === name)
+    .map(prospect => ({
+      prospect,
+      distance: coordinates && prospect.latitude != null && prospect.longitude != null
+        ? getDistanceMeters(coordinates, { latitude: prospect.latitude, longitude: prospect.longitude })
+        : null,
+    }))
+    .filter(candidate => candidate.distance === null || candidate.distance <= PROSPECT_MATCH_RADIUS_METERS)
+    .sort((a, b) => (a.distance ?? Infinity) - (b.distance ?? Infinity));
+
+  return candidates[0]?.prospect || null;
+};
+
+// Open prospects with a due action first (soonest first), then the rest by last visit
+export const sortProspects = (prospects: Prospect[]): Prospect[] => {
+  return [...prospects].sort((a, b) => {
+    const aOpen = isProspectOpen(a);
+    const bOpen = isProspectOpen(b);
+    if (aOpen !== bOpen) return aOpen ? -1 : 1;
+    if (a.next_action_date && b.next_action_date) return a.next_action_date.localeCompare(b.next_action_date);
+    if (a.next_action_date || b.next_action_date) return a.next_action_date ? -1 : 1;
+    return (b.last_visited_at || b.created_at).localeCompare(a.last_visited_at || a.created_at);
+  });
+};
+
+export interface ProspectConversion {
+  total: number;
+  open: number;
+  signed: number;
+  rejected: number;
+  conversionRate: number; // Signed prospects as a percentage of all prospects
+  prospectVisits: number; // Visits logged against prospects, converted or not
+  visitsPerSignup: number; // Average visits a signed prospect took
+  averageDaysToSign: number;
+}
+
+// How well door-to-door visits turn into clients
+export const calculateProspectConversion = (prospects: Prospect[], visits: BusinessVisit[]): ProspectConversion => {
+  const visitCounts = new Map<string, number>();
+  visits.forEach(visit => {
+    if (visit.prospect_id) {
+      visitCounts.set(visit.prospect_id, (visitCounts.get(visit.prospect_id) || 0) + 1);
+    }
+  });
+
+  const signed = prospects.filter(prospect => !!prospect.client_id);
+  const rejected = prospects.filter(prospect => !prospect.client_id && prospect.stage === 'rejected');
+  const signedVisits = signed.reduce((sum, prospect) => sum + (visitCounts.get(prospect.id) || 0), 0);
+  const daysToSign = signed
+    .filter(prospect => prospect.converted_at)
+    .map(prospect => (new Date(prospect.converted_at as string).getTime() - new Date(prospect.created_at).getTime()) / MS_PER_DAY);
+
+  return {
+    total: prospects.length,
+    open: prospects.filter(isProspectOpen).length,
+    signed: signed.length,
+    rejected: rejected.length,
+    conversionRate: prospects.length > 0 ? (signed.length / prospects.length) * 100 : 0,
+    prospectVisits: Array.from(visitCounts.values()).reduce((sum, count) => sum + count, 0),
+    visitsPerSignup: signed.length > 0 ? signedVisits / signed.length : 0,
+    averageDaysToSign: daysToSign.length > 0
+      ? Math.round(daysToSign.reduce((sum, days) => sum + days, 0) / daysToSign.length)
+      : 0,
+  };
+};
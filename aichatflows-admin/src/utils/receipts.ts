@@ -0,0 +1,137 @@
+import { Client, Payment, Receipt } from '../types';
+import { formatMoney, getCurrency } from './currency';
+import { isMoneyReceived } from './payments';
+
+// Business shown at the top of every receipt
+export interface BusinessDetails {
+  name: string;
+  address: string;
+  email: string;
+  phone: string;
+}
+
+export const DEFAULT_BUSINESS_DETAILS: BusinessDetails = {
+  name: 'AIChatFlows',
+  address: '',
+  email: '',
+  phone: '',
+};
+
+const RECEIPT_NUMBER_PREFIX = 'R-';
+const RECEIPT_NUMBER_DIGITS = 6;
+
+// Only money actually received gets a receipt
+export const canIssueReceipt = (payment: Payment): boolean => isMoneyReceived(payment);
+
+// Display form of a receipt number, e.g. R-000042
+export const formatReceiptNumber = (receiptNumber: number): string => {
+  return `${RECEIPT_NUMBER_PREFIX}${String(receiptNumber).padStart(RECEIPT_NUMBER_DIGITS, '0')}`;
+};
+
+const escapeHtml = (value: string): string => {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+};
+
+const formatReceiptDate = (dateString: string): string => {
+  return new Date(dateString).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+};
+
+// The rows printed on a receipt, shared by the HTML and text versions
+const getReceiptFields = (receipt: Receipt, payment: Payment, client?: Client) => {
+  return {
+    number: formatReceiptNumber(receipt.receipt_number),
+    issued: formatReceiptDate(receipt.issued_at),
+    billedTo: client?.business_name || client?.name || 'Direct payment',
+    contactName: client?.business_name && client.name !== client.business_name ? client.name : '',
+    amount: formatMoney(payment.amount, getCurrency(payment)),
+    method: payment.payment_method || 'Not specified',
+    date: formatReceiptDate(payment.payment_date),
+    description: payment.description || '',
+  };
+};
+
+// Printable HTML receipt; also the source for the PDF
+export const buildReceiptHtml = (
+  receipt: Receipt,
+  payment: Payment,
+  business: BusinessDetails,
+  client?: Client
+): string => {
+  const fields = getReceiptFields(receipt, payment, client);
+  const businessLines = [business.address, business.email, business.phone]
+    .filter(Boolean)
+    .map(line => `<div>${escapeHtml(line)}</div>`)
+    .join('');
+  const row = (label: string, value: string) =>
+    `<tr><td class="label">${label}</td><td>${escapeHtml(value)}</td></tr>`;
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1" />
+<title>Receipt ${fields.number}</title>
+<style>
+  body { font-family: -apple-system, Helvetica, Arial, sans-serif; color: #111827; margin: 40px; }
+  .header { display: flex; justify-content: space-between; border-bottom: 2px solid #00D4AA; padding-bottom: 16px; }
+  .business { font-size: 20px; font-weight: 700; }
+  .muted { color: #6B7280; font-size: 13px; }
+  .number { text-align: right; }
+  .amount { font-size: 32px; font-weight: 700; margin: 32px 0 8px; }
+  table { width: 100%; border-collapse: collapse; margin-top: 16px; }
+  td { padding: 10px 0; border-bottom: 1px solid #E5E7EB; }
+  td.label { color: #6B7280; width: 40%; }
+  .footer { margin-top: 40px; color: #6B7280; font-size: 12px; }
+</style>
+</head>
+<body>
+  <div class="header">
+    <div>
+      <div class="business">${escapeHtml(business.name)}</div>
+      <div class="muted">${businessLines}</div>
+    </div>
+    <div class="number">
+      <div class="business">Receipt</div>
+      <div class="muted">${fields.number}</div>
+      <div class="muted">Issued ${escapeHtml(fields.issued)}</div>
+    </div>
+  </div>
+  <div class="amount">${escapeHtml(fields.amount)}</div>
+  <div class="muted">Paid ${escapeHtml(fields.date)}</div>
+  <table>
+    ${row('Billed to', fields.billedTo)}
+    ${fields.contactName ? row('Contact', fields.contactName) : ''}
+    ${row('Payment method', fields.method)}
+    ${row('Payment date', fields.date)}
+    ${fields.description ? row('Description', fields.description) : ''}
+  </table>
+  <div class="footer">Thank you for your business.</div>
+</body>
+</html>`;
+};
+
+// Plain-text receipt for the share sheet message
+export const buildReceiptText = (
+  receipt: Receipt,
+  payment: Payment,
+  business: BusinessDetails,
+  client?: Client
+): string => {
+  const fields = getReceiptFields(receipt, payment, client);
+  const lines = [
+    `${business.name} — Receipt ${fields.number}`,
+    '',
+    `Billed to: ${fields.billedTo}`,
+    `Amount: ${fields.amount}`,
+    `Payment method: ${fields.method}`,
+    `Payment date: ${fields.date}`,
+  ];
+  if (fields.description) lines.push(`Description: ${fields.description}`);
+  lines.push(`Issued: ${fields.issued}`);
+  return lines.join('\n');
+};
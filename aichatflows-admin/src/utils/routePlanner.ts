@@ -0,0 +1,158 @@
+import { Ionicons } from '@expo/vector-icons';
+import { BusinessVisit, Client, Prospect, Task } from '../types';
+import { Coordinates, getDistanceMeters } from './geo';
+import { isProspectOpen } from './prospects';
+import { getFollowUpSuggestions } from './tasks';
+import { formatVisitAddress, getVisitCoordinates, getVisitLocationFields } from './visitLocation';
+
+export type RouteStopKind = 'prospect' | 'task' | 'client';
+
+export interface RouteStop {
+  id: string; // `${kind}:${source id}`
+  kind: RouteStopKind;
+  label: string;
+  detail?: string;
+  businessName?: string; // Name the visit is logged under
+  coordinates: Coordinates;
+  clientId?: string;
+  prospectId?: string;
+  taskId?: string;
+}
+
+export const ROUTE_STOP_KINDS: { value: RouteStopKind; label: string; color: string; icon: keyof typeof Ionicons.glyphMap }[] = [
+  { value: 'prospect', label: 'Prospects', color: '#F59E0B', icon: 'storefront-outline' },
+  { value: 'task', label: 'Follow-up Tasks', color: '#3B82F6', icon: 'checkbox-outline' },
+  { value: 'client', label: 'Due for a Visit', color: '#8B5CF6', icon: 'time-outline' },
+];
+
+// Close enough to a stop to log the visit from the next stop card
+export const ARRIVAL_RADIUS_METERS = 100;
+
+// 2-opt passes before settling for the route found so far
+const MAX_TWO_OPT_PASSES = 50;
+
+export const getRouteStopColor = (kind: RouteStopKind): string => {
+  return ROUTE_STOP_KINDS.find(option => option.value === kind)?.color || '#6B7280';
+};
+
+export const getRouteStopIcon = (kind: RouteStopKind): keyof typeof Ionicons.glyphMap => {
+  return ROUTE_STOP_KINDS.find(option => option.value === kind)?.icon || 'location-outline';
+};
+
+// Where a client is: the first of their visits with coordinates, in the order the visits are listed
+const getClientCoordinates = (clientId: string, visits: BusinessVisit[]): Coordinates | null => {
+  for (const visit of visits) {
+    if (visit.client_id !== clientId) continue;
+    const coordinates = getVisitCoordinates(visit);
+    if (coordinates) return coordinates;
+  }
+  return null;
+};
+
+// Places worth a stop: open prospects, open follow-up tasks and clients overdue for a visit.
+// Only stops with a known location are returned
+export const getRouteStops = (
+  prospects: Prospect[],
+  tasks: Task[],
+  clients: Client[],
+  visits: BusinessVisit[]
+): RouteStop[] => {
+  const stops: RouteStop[] = [];
+
+  prospects.forEach(prospect => {
+    if (!isProspectOpen(prospect) || prospect.latitude == null || prospect.longitude == null) return;
+    stops.push({
+      id: `prospect:${prospect.id}`,
+      kind: 'prospect',
+      label: prospect.business_name,
+      detail: prospect.address || undefined,
+      businessName: prospect.business_name,
+      coordinates: { latitude: prospect.latitude, longitude: prospect.longitude },
+      prospectId: prospect.id,
+    });
+  });
+
+  tasks.forEach(task => {
+    if (task.done || task.client?.deleted_at) return;
+    const visit = task.visit_id ? visits.find(v => v.id === task.visit_id) : undefined;
+    const coordinates = (visit && getVisitCoordinates(visit)) || (task.client_id ? getClientCoordinates(task.client_id, visits) : null);
+    if (!coordinates) return;
+    const businessName = task.client?.business_name || task.client?.name || (visit ? getVisitLocationFields(visit).business_name : null);
+    stops.push({
+      id: `task:${task.id}`,
+      kind: 'task',
+      label: task.title,
+      detail: businessName || (visit ? formatVisitAddress(getVisitLocationFields(visit)) : undefined),
+      businessName: businessName || undefined,
+      coordinates,
+      clientId: task.client_id || visit?.client_id || undefined,
+      taskId: task.id,
+    });
+  });
+
+  getFollowUpSuggestions(clients, visits, tasks).forEach(({ client, daysSinceVisit }) => {
+    const coordinates = getClientCoordinates(client.id, visits);
+    if (!coordinates) return;
+    stops.push({
+      id: `client:${client.id}`,
+      kind: 'client',
+      label: client.business_name || client.name,
+      detail: `${daysSinceVisit} days since last visit`,
+      businessName: client.business_name || client.name,
+      coordinates,
+      clientId: client.id,
+    });
+  });
+
+  return stops;
+};
+
+// Length of the path from start through the stops in order, in meters
+export const getRouteDistance = (start: Coordinates | null, stops: RouteStop[]): number => {
+  const points = start ? [start, ...stops.map(stop => stop.coordinates)] : stops.map(stop => stop.coordinates);
+  let total = 0;
+  for (let i = 1; i < points.length; i++) {
+    total += getDistanceMeters(points[i - 1], points[i]);
+  }
+  return total;
+};
+
+// Visiting order that keeps travel short: nearest neighbor from the start, then 2-opt swaps until
+// no reversal shortens the path. The path ends at the last stop; without a start the first stop is used
+export const planRoute = (start: Coordinates | null, stops: RouteStop[]): RouteStop[] => {
+  if (stops.length < (start ? 2 : 3)) return [...stops];
+
+  const points = start ? [start, ...stops.map(stop => stop.coordinates)] : stops.map(stop => stop.coordinates);
+  const distances = points.map(from => points.map(to => getDistanceMeters(from, to)));
+
+  // Nearest neighbor; index 0 is the fixed starting point
+  const order = [0];
+  const remaining = new Set(points.map((_, index) => index).slice(1));
+  while (remaining.size > 0) {
+    const last = order[order.length - 1];
+    let nearest = -1;
+    remaining.forEach(index => {
+      if (nearest === -1 || distances[last][index] < distances[last][nearest]) nearest = index;
+    });
+    order.push(nearest);
+    remaining.delete(nearest);
+  }
+
+  // 2-opt on the open path: reverse order[i..k] when that shortens it
+  for (let pass = 0; pass < MAX_TWO_OPT_PASSES; pass++) {
+    let improved = false;
+    for (let i = 1; i < order.length - 1; i++) {
+      for (let k = i + 1; k < order.length; k++) {
+        const before = distances[order[i - 1]][order[i]] + (k + 1 < order.length ? distances[order[k]][order[k + 1]] : 0);
+        const after = distances[order[i - 1]][order[k]] + (k + 1 < order.length ? distances[order[i]][order[k + 1]] : 0);
+        if (after < before - 1e-6) {
+          order.splice(i, k - i + 1, ...order.slice(i, k + 1).reverse());
+          improved = true;
+        }
+      }
+    }
+    if (!improved) break;
+  }
+
+  return start ? order.slice(1).map(index => stops[index - 1]) : order.map(index => stops[index]);
+};
@@ -39,7 +39,7 @@ function levenshteinDistance(str1: string, str2: string): number {
  * Calculate similarity score between two strings (0-1)
  * Higher score means more similar
  */
-function calculateSimilarity(str1: string, str2: string): number {
+export function calculateSimilarity(str1: string, str2: string): number {
   const maxLength = Math.max(str1.length, str2.length);
   if (maxLength === 0) return 1;
   
@@ -434,7 +434,7 @@ export function useGoalSearch() {
 }
 
 export function useVisitSearch() {
-  const searchFields = ['location', 'business_name'];
+  const searchFields = ['business_name', 'street', 'city', 'region', 'postal_code', 'country'];
   
   const filterVisits = (
     visits: any[],
@@ -498,6 +498,7 @@ export const CLIENT_SEARCH_FIELDS: SearchField[] = [
   { key: 'business_type', weight: 0.6, fuzzy: true },
   { key: 'products_or_services', weight: 0.5, fuzzy: true },
   { key: 'notes', weight: 0.4, fuzzy: true },
+  { key: 'note_text', weight: 0.4, fuzzy: false }, // Notes log, added with withNoteText
 ];
 
 export const PAYMENT_SEARCH_FIELDS: SearchField[] = [
@@ -506,13 +507,25 @@ export const PAYMENT_SEARCH_FIELDS: SearchField[] = [
   { key: 'description', weight: 0.7, fuzzy: true },
   { key: 'client.email', weight: 0.6, fuzzy: false },
   { key: 'payment_method', weight: 0.5, fuzzy: true },
+  { key: 'note_text', weight: 0.4, fuzzy: false },
 ];
 
 export const VISIT_SEARCH_FIELDS: SearchField[] = [
-  { key: 'location', weight: 1.0, fuzzy: true },
+  { key: 'business_name', weight: 1.0, fuzzy: true },
+  { key: 'street', weight: 0.8, fuzzy: true },
+  { key: 'city', weight: 0.8, fuzzy: true },
+  { key: 'region', weight: 0.6, fuzzy: true },
+  { key: 'postal_code', weight: 0.6, fuzzy: false },
+  { key: 'country', weight: 0.5, fuzzy: true },
   { key: 'client.name', weight: 0.9, fuzzy: true },
   { key: 'client.business_name', weight: 0.8, fuzzy: true },
   { key: 'notes', weight: 0.6, fuzzy: true },
+  { key: 'note_text', weight: 0.5, fuzzy: false },
+];
+
+export const NOTE_SEARCH_FIELDS: SearchField[] = [
+  { key: 'body', weight: 1.0, fuzzy: true },
+  { key: 'author_email', weight: 0.6, fuzzy: false },
 ];
 
 export const GOAL_SEARCH_FIELDS: SearchField[] = [
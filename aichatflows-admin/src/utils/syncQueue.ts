@@ -0,0 +1,203 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Ionicons } from '@expo/vector-icons';
+import * as Crypto from 'expo-crypto';
+import {
+  BusinessVisit,
+  InPersonSubmission,
+  Note,
+  NoteSyncPayload,
+  SignupSyncPayload,
+  SyncQueueItem,
+  VisitSyncPayload,
+} from '../types';
+import { buildVisitLocation } from './visitLocation';
+
+const SYNC_QUEUE_KEY = 'sync_queue_items';
+
+// Where the in-person screen keeps signups that haven't become clients yet
+export const IN_PERSON_SUBMISSIONS_KEY = 'in_person_submissions';
+
+// Failed items are retried automatically this many times, then wait for a manual retry
+export const MAX_SYNC_ATTEMPTS = 5;
+
+export const SYNC_STATUS_OPTIONS: { value: SyncQueueItem['status']; label: string; color: string; icon: keyof typeof Ionicons.glyphMap }[] = [
+  { value: 'pending', label: 'Pending sync', color: '#F59E0B', icon: 'cloud-upload-outline' },
+  { value: 'failed', label: 'Failed', color: '#EF4444', icon: 'alert-circle-outline' },
+  { value: 'conflict', label: 'Needs attention', color: '#8B5CF6', icon: 'git-compare-outline' },
+];
+
+export const SYNC_KIND_OPTIONS: { value: SyncQueueItem['kind']; label: string; icon: keyof typeof Ionicons.glyphMap }[] = [
+  { value: 'visit', label: 'Visit', icon: 'location-outline' },
+  { value: 'note', label: 'Note', icon: 'chatbubble-outline' },
+  { value: 'signup', label: 'In-person signup', icon: 'person-add-outline' },
+];
+
+export const getSyncStatusOption = (status: SyncQueueItem['status']) => {
+  return SYNC_STATUS_OPTIONS.find(option => option.value === status) || SYNC_STATUS_OPTIONS[0];
+};
+
+export const getSyncKindOption = (kind: SyncQueueItem['kind']) => {
+  return SYNC_KIND_OPTIONS.find(option => option.value === kind) || SYNC_KIND_OPTIONS[0];
+};
+
+type SyncPayloads = {
+  visit: VisitSyncPayload;
+  note: NoteSyncPayload;
+  signup: SignupSyncPayload;
+};
+
+type SyncQueueListener = (items: SyncQueueItem[]) => void;
+
+const listeners = new Set<SyncQueueListener>();
+
+// Writes are chained so two screens queueing at once don't overwrite each other
+let queueWrite: Promise<unknown> = Promise.resolve();
+
+// UUID v4 for rows created offline, so the id is known before the row reaches the database
+export const createLocalId = (): string => Crypto.randomUUID();
+
+// Supabase reports a fetch that never reached the server as an error with no code
+export const isNetworkError = (error: any): boolean => {
+  if (!error) return false;
+  const message = `${error.message || error}`.toLowerCase();
+  return ['network request failed', 'failed to fetch', 'fetch failed', 'network error', 'cannot resolve', 'timed out', 'timeout', 'aborted', 'enotfound']
+    .some(fragment => message.includes(fragment));
+};
+
+export const loadSyncQueue = async (): Promise<SyncQueueItem[]> => {
+  try {
+    const stored = await AsyncStorage.getItem(SYNC_QUEUE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error('Error loading sync queue:', error);
+    return [];
+  }
+};
+
+const mutateSyncQueue = (update: (items: SyncQueueItem[]) => SyncQueueItem[]): Promise<SyncQueueItem[]> => {
+  const next = queueWrite.then(async () => {
+    const items = update(await loadSyncQueue());
+    await AsyncStorage.setItem(SYNC_QUEUE_KEY, JSON.stringify(items));
+    listeners.forEach(listener => listener(items));
+    return items;
+  });
+  queueWrite = next.catch(() => undefined);
+  return next;
+};
+
+// Called with the whole queue after every change; returns the unsubscribe function
+export const subscribeToSyncQueue = (listener: SyncQueueListener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const enqueueSyncItem = async <K extends SyncQueueItem['kind']>(kind: K, payload: SyncPayloads[K]) => {
+  const item = {
+    id: createLocalId(),
+    kind,
+    payload,
+    created_at: new Date().toISOString(),
+    status: 'pending',
+    attempts: 0,
+    last_error: null,
+    last_attempt_at: null,
+    conflict: null,
+  } as SyncQueueItem;
+  await mutateSyncQueue(items => [...items, item]);
+  return item;
+};
+
+export const updateSyncItem = (id: string, updates: Partial<Omit<SyncQueueItem, 'id' | 'kind' | 'payload'>>) => {
+  return mutateSyncQueue(items => items.map(item => item.id === id ? { ...item, ...updates } : item));
+};
+
+export const removeSyncItem = (id: string) => {
+  return mutateSyncQueue(items => items.filter(item => item.id !== id));
+};
+
+// Back to pending with a fresh attempt count, for the manual retry on the sync screen
+export const retrySyncItem = (id: string) => {
+  return updateSyncItem(id, { status: 'pending', attempts: 0, last_error: null, conflict: null });
+};
+
+// Apply the conflict's suggested payload changes and queue the item again
+export const resolveSyncConflict = (id: string) => {
+  return mutateSyncQueue(items => items.map(item => {
+    if (item.id !== id || !item.conflict?.resolution) return item;
+    return {
+      ...item,
+      payload: { ...item.payload, ...item.conflict.resolution.changes },
+      status: 'pending',
+      attempts: 0,
+      last_error: null,
+      conflict: null,
+    } as SyncQueueItem;
+  }));
+};
+
+// Pending items, plus failed ones that haven't used up their automatic retries
+export const isReplayable = (item: SyncQueueItem): boolean => {
+  return item.status === 'pending' || (item.status === 'failed' && item.attempts < MAX_SYNC_ATTEMPTS);
+};
+
+export const getSyncItemTitle = (item: SyncQueueItem): string => {
+  switch (item.kind) {
+    case 'visit':
+      return item.payload.business_name || `${item.payload.latitude.toFixed(5)}, ${item.payload.longitude.toFixed(5)}`;
+    case 'note':
+      return item.payload.body.length > 60 ? `${item.payload.body.substring(0, 60)}…` : item.payload.body;
+    case 'signup':
+      return item.payload.name;
+  }
+};
+
+// Queued visits as list rows, newest first, for showing before they sync
+export const getPendingVisits = (items: SyncQueueItem[]): BusinessVisit[] => {
+  return items
+    .filter((item): item is Extract<SyncQueueItem, { kind: 'visit' }> => item.kind === 'visit')
+    .map(({ payload }) => {
+      const { latitude, longitude, prospect_id, client_id, ...locationFields } = payload;
+      return {
+        ...locationFields,
+        client_id: client_id || undefined,
+        prospect_id,
+        latitude,
+        longitude,
+        location: buildVisitLocation(locationFields, { latitude, longitude }),
+        pending_sync: true,
+      };
+    })
+    .reverse();
+};
+
+export const getPendingNotes = (items: SyncQueueItem[], entityType?: Note['entity_type'], entityId?: string): Note[] => {
+  return items
+    .filter((item): item is Extract<SyncQueueItem, { kind: 'note' }> => item.kind === 'note')
+    .filter(({ payload }) => !entityType || (payload.entity_type === entityType && payload.entity_id === entityId))
+    .map(({ payload }) => ({ ...payload, pinned: false, edited_at: null, pending_sync: true }));
+};
+
+// Submission ids with a client conversion still waiting to sync
+export const getPendingSignupIds = (items: SyncQueueItem[]): string[] => {
+  return items
+    .filter((item): item is Extract<SyncQueueItem, { kind: 'signup' }> => item.kind === 'signup')
+    .map(item => item.payload.submission_id);
+};
+
+export const getInPersonSubmission = async (submissionId: string): Promise<InPersonSubmission | null> => {
+  const stored = await AsyncStorage.getItem(IN_PERSON_SUBMISSIONS_KEY);
+  const submissions: InPersonSubmission[] = stored ? JSON.parse(stored) : [];
+  return submissions.find(submission => submission.id === submissionId) || null;
+};
+
+export const markSubmissionConverted = async (submissionId: string, clientId: string) => {
+  const stored = await AsyncStorage.getItem(IN_PERSON_SUBMISSIONS_KEY);
+  const submissions: InPersonSubmission[] = stored ? JSON.parse(stored) : [];
+  await AsyncStorage.setItem(IN_PERSON_SUBMISSIONS_KEY, JSON.stringify(
+    submissions.map(submission => submission.id === submissionId
+      ? { ...submission, converted_to_client: true, client_id: clientId }
+      : submission)
+  ));
+};
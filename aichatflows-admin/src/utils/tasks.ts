@@ -0,0 +1,112 @@
+import { BusinessVisit, Client, Task, TaskFormData } from '../types';
+import { getClientsNeedingAttention } from './metrics';
+import { parseISODate, toISODate } from './invoices';
+
+// Time used when a task is given a date but no time
+export const DEFAULT_TASK_DUE_TIME = '09:00';
+
+// How far past today the Today list's "Upcoming" section looks
+export const UPCOMING_TASK_DAYS = 7;
+
+// Days without a visit before an active client is suggested for a follow-up
+export const FOLLOW_UP_AFTER_DAYS = 14;
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const startOfDay = (date: Date): Date => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+// Combine the form's date and time fields into a local due date
+export const getTaskDueDate = (date: string, time?: string): Date => {
+  const due = parseISODate(date);
+  const [hours, minutes] = (time || DEFAULT_TASK_DUE_TIME).split(':').map(Number);
+  due.setHours(hours, minutes, 0, 0);
+  return due;
+};
+
+// Blank form, due tomorrow morning unless told otherwise
+export const getEmptyTaskForm = (defaults: Partial<TaskFormData> = {}): TaskFormData => {
+  const tomorrow = new Date();
+  tomorrow.setDate(tomorrow.getDate() + 1);
+  return {
+    title: '',
+    notes: '',
+    due_date: toISODate(tomorrow),
+    due_time: DEFAULT_TASK_DUE_TIME,
+    assignee_email: '',
+    ...defaults,
+  };
+};
+
+// Form fields for editing an existing task
+export const getTaskFormData = (task: Task): TaskFormData => {
+  const due = new Date(task.due_at);
+  return {
+    title: task.title,
+    notes: task.notes || '',
+    due_date: toISODate(due),
+    due_time: `${pad(due.getHours())}:${pad(due.getMinutes())}`,
+    assignee_email: task.assignee_email || '',
+    client_id: task.client_id || undefined,
+    visit_id: task.visit_id || undefined,
+    payment_id: task.payment_id || undefined,
+  };
+};
+
+export const isTaskOverdue = (task: Task, now: Date = new Date()): boolean => {
+  return !task.done && new Date(task.due_at).getTime() < now.getTime();
+};
+
+// Unassigned tasks belong to everyone
+export const isTaskAssignedTo = (task: Task, email?: string | null): boolean => {
+  if (!task.assignee_email) return true;
+  return !!email && task.assignee_email.toLowerCase() === email.toLowerCase();
+};
+
+export const sortTasksByDue = (tasks: Task[]): Task[] => {
+  return [...tasks].sort((a, b) => a.due_at.localeCompare(b.due_at));
+};
+
+// Open tasks split into overdue (before today), due today, and the next few days
+export const groupTasksForToday = (
+  tasks: Task[],
+  now: Date = new Date()
+): { overdue: Task[]; today: Task[]; upcoming: Task[] } => {
+  const todayStart = startOfDay(now).getTime();
+  const tomorrowStart = new Date(todayStart).setDate(new Date(todayStart).getDate() + 1);
+  const upcomingEnd = new Date(todayStart).setDate(new Date(todayStart).getDate() + 1 + UPCOMING_TASK_DAYS);
+
+  const open = sortTasksByDue(tasks.filter(task => !task.done));
+  const dueTime = (task: Task) => new Date(task.due_at).getTime();
+
+  return {
+    overdue: open.filter(task => dueTime(task) < todayStart),
+    today: open.filter(task => dueTime(task) >= todayStart && dueTime(task) < tomorrowStart),
+    upcoming: open.filter(task => dueTime(task) >= tomorrowStart && dueTime(task) < upcomingEnd),
+  };
+};
+
+// "Today 09:00", "Tomorrow 14:30", "Yesterday 09:00" or "Mon, Oct 20 09:00"
+export const formatTaskDue = (dueAt: string, now: Date = new Date()): string => {
+  const due = new Date(dueAt);
+  const time = `${pad(due.getHours())}:${pad(due.getMinutes())}`;
+  const dayOffset = Math.round((startOfDay(due).getTime() - startOfDay(now).getTime()) / (1000 * 60 * 60 * 24));
+
+  if (dayOffset === 0) return `Today ${time}`;
+  if (dayOffset === 1) return `Tomorrow ${time}`;
+  if (dayOffset === -1) return `Yesterday ${time}`;
+  return `${due.toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' })} ${time}`;
+};
+
+// Clients overdue for a visit that nobody has an open task for yet
+export const getFollowUpSuggestions = (
+  clients: Client[],
+  visits: BusinessVisit[],
+  tasks: Task[],
+  daysSinceLastVisit: number = FOLLOW_UP_AFTER_DAYS
+) => {
+  const clientsWithOpenTasks = new Set(
+    tasks.filter(task => !task.done && task.client_id).map(task => task.client_id)
+  );
+  return getClientsNeedingAttention(clients, visits, daysSinceLastVisit)
+    .filter(item => !clientsWithOpenTasks.has(item.client.id));
+};
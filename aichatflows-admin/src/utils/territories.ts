@@ -0,0 +1,174 @@
+import { BusinessVisit, Territory, TerritoryFormData } from '../types';
+import { Coordinates } from './geo';
+import { getVisitCoordinates } from './visitLocation';
+
+export const TERRITORY_COLORS = ['#3B82F6', '#10B981', '#F59E0B', '#EF4444', '#8B5CF6', '#EC4899', '#14B8A6', '#6B7280'];
+
+// How recently an area was canvassed, for the coverage heatmap
+export const COVERAGE_LEVELS: { maxDays: number; label: string; color: string }[] = [
+  { maxDays: 7, label: 'This week', color: '#10B981' },
+  { maxDays: 30, label: 'This month', color: '#84CC16' },
+  { maxDays: 90, label: 'This quarter', color: '#F59E0B' },
+  { maxDays: Infinity, label: 'Longer ago', color: '#EF4444' },
+];
+
+// Side of a heatmap cell
+export const COVERAGE_CELL_METERS = 400;
+
+// Visits in this window count as recent in territory stats
+export const RECENT_TERRITORY_DAYS = 30;
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+const METERS_PER_DEGREE_LATITUDE = 111320;
+
+export const getEmptyTerritoryForm = (territories: Territory[] = []): TerritoryFormData => ({
+  name: '',
+  color: TERRITORY_COLORS[territories.length % TERRITORY_COLORS.length],
+  assignee_email: '',
+});
+
+export const getTerritoryFormData = (territory: Territory): TerritoryFormData => ({
+  name: territory.name,
+  color: territory.color,
+  assignee_email: territory.assignee_email || '',
+});
+
+// Ray casting on the lat/lng plane; fine at city scale
+export const isPointInPolygon = (point: Coordinates, polygon: Coordinates[]): boolean => {
+  if (polygon.length < 3) return false;
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    const crosses = (a.latitude > point.latitude) !== (b.latitude > point.latitude) &&
+      point.longitude < ((b.longitude - a.longitude) * (point.latitude - a.latitude)) / (b.latitude - a.latitude) + a.longitude;
+    if (crosses) inside = !inside;
+  }
+  return inside;
+};
+
+// Where territories overlap, the oldest one wins so attribution doesn't change when a new one is drawn
+export const findTerritory = (territories: Territory[], point: Coordinates): Territory | null => {
+  return [...territories]
+    .sort((a, b) => a.created_at.localeCompare(b.created_at))
+    .find(territory => isPointInPolygon(point, territory.boundary)) || null;
+};
+
+export const getVisitTerritory = (visit: BusinessVisit, territories: Territory[]): Territory | null => {
+  const coordinates = getVisitCoordinates(visit);
+  return coordinates ? findTerritory(territories, coordinates) : null;
+};
+
+// Visit id -> territory id, for lists that look territories up per visit
+export const getVisitTerritoryMap = (visits: BusinessVisit[], territories: Territory[]): Record<string, string> => {
+  const map: Record<string, string> = {};
+  if (territories.length === 0) return map;
+  visits.forEach(visit => {
+    const territory = getVisitTerritory(visit, territories);
+    if (territory) map[visit.id] = territory.id;
+  });
+  return map;
+};
+
+const getVisitDate = (visit: BusinessVisit): Date | null => {
+  const value = visit.created_at || visit.timestamp;
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+const daysSince = (date: Date, now: Date): number => Math.max(0, Math.floor((now.getTime() - date.getTime()) / MS_PER_DAY));
+
+export const getCoverageLevel = (days: number | null) => {
+  return COVERAGE_LEVELS.find(level => days !== null && days <= level.maxDays) || COVERAGE_LEVELS[COVERAGE_LEVELS.length - 1];
+};
+
+export interface TerritoryStats {
+  territory: Territory;
+  visitCount: number;
+  recentVisitCount: number; // Within RECENT_TERRITORY_DAYS
+  clientCount: number; // Distinct clients visited in the territory
+  lastVisitedAt: string | null;
+  daysSinceVisit: number | null;
+}
+
+// Per-territory visit totals, least recently canvassed first
+export const calculateTerritoryStats = (
+  territories: Territory[],
+  visits: BusinessVisit[],
+  now: Date = new Date()
+): TerritoryStats[] => {
+  const territoryByVisit = getVisitTerritoryMap(visits, territories);
+  const recentCutoff = now.getTime() - RECENT_TERRITORY_DAYS * MS_PER_DAY;
+
+  return territories
+    .map(territory => {
+      const territoryVisits = visits.filter(visit => territoryByVisit[visit.id] === territory.id);
+      const dates = territoryVisits.map(getVisitDate).filter((date): date is Date => date !== null);
+      const lastVisit = dates.reduce<Date | null>((latest, date) => (!latest || date > latest ? date : latest), null);
+
+      return {
+        territory,
+        visitCount: territoryVisits.length,
+        recentVisitCount: dates.filter(date => date.getTime() >= recentCutoff).length,
+        clientCount: new Set(territoryVisits.map(visit => visit.client_id).filter(Boolean)).size,
+        lastVisitedAt: lastVisit ? lastVisit.toISOString() : null,
+        daysSinceVisit: lastVisit ? daysSince(lastVisit, now) : null,
+      };
+    })
+    .sort((a, b) => (b.daysSinceVisit ?? Infinity) - (a.daysSinceVisit ?? Infinity));
+};
+
+export interface CoverageCell {
+  id: string;
+  boundary: Coordinates[];
+  visitCount: number;
+  daysSinceVisit: number | null; // null when none of the visits in the cell are dated
+  color: string;
+}
+
+// Square cells around visited places, colored by the most recent visit in each. Cell widths are
+// taken at the visits' mean latitude so the grid lines up across the whole area
+export const buildCoverageGrid = (
+  visits: BusinessVisit[],
+  cellMeters: number = COVERAGE_CELL_METERS,
+  now: Date = new Date()
+): CoverageCell[] => {
+  const points = visits
+    .map(visit => ({ coordinates: getVisitCoordinates(visit), date: getVisitDate(visit) }))
+    .filter((point): point is { coordinates: Coordinates; date: Date | null } => point.coordinates !== null);
+  if (points.length === 0) return [];
+
+  const meanLatitude = points.reduce((sum, point) => sum + point.coordinates.latitude, 0) / points.length;
+  const latStep = cellMeters / METERS_PER_DEGREE_LATITUDE;
+  const lngStep = cellMeters / (METERS_PER_DEGREE_LATITUDE * Math.max(0.01, Math.cos((meanLatitude * Math.PI) / 180)));
+
+  const cells = new Map<string, { row: number; col: number; visitCount: number; lastVisit: Date | null }>();
+  points.forEach(({ coordinates, date }) => {
+    const row = Math.floor(coordinates.latitude / latStep);
+    const col = Math.floor(coordinates.longitude / lngStep);
+    const id = `${row}:${col}`;
+    const cell = cells.get(id) || { row, col, visitCount: 0, lastVisit: null };
+    cell.visitCount++;
+    if (date && (!cell.lastVisit || date > cell.lastVisit)) cell.lastVisit = date;
+    cells.set(id, cell);
+  });
+
+  return Array.from(cells.entries()).map(([id, cell]) => {
+    const south = cell.row * latStep;
+    const west = cell.col * lngStep;
+    const days = cell.lastVisit ? daysSince(cell.lastVisit, now) : null;
+    return {
+      id,
+      boundary: [
+        { latitude: south, longitude: west },
+        { latitude: south + latStep, longitude: west },
+        { latitude: south + latStep, longitude: west + lngStep },
+        { latitude: south, longitude: west + lngStep },
+      ],
+      visitCount: cell.visitCount,
+      daysSinceVisit: days,
+      color: getCoverageLevel(days).color,
+    };
+  });
+};
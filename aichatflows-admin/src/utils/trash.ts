@@ -0,0 +1,106 @@
+import { Ionicons } from '@expo/vector-icons';
+import { TrashItem } from '../types';
+import { formatMoney } from './currency';
+
+// How long the Undo button stays on the toast after a delete
+export const UNDO_TOAST_DURATION = 6000;
+
+export const TRASH_TYPES: { value: TrashItem['type']; label: string; icon: keyof typeof Ionicons.glyphMap }[] = [
+  { value: 'client', label: 'Client', icon: 'person-outline' },
+  { value: 'payment', label: 'Payment', icon: 'card-outline' },
+  { value: 'visit', label: 'Visit', icon: 'location-outline' },
+  { value: 'goal', label: 'Goal', icon: 'flag-outline' },
+];
+
+export const getTrashTypeLabel = (type: TrashItem['type']): string => {
+  return TRASH_TYPES.find(option => option.value === type)?.label || 'Item';
+};
+
+export const getTrashTypeIcon = (type: TrashItem['type']): keyof typeof Ionicons.glyphMap => {
+  return TRASH_TYPES.find(option => option.value === type)?.icon || 'trash-outline';
+};
+
+interface TrashedRows {
+  clients: { id: string; name: string; email?: string | null; business_name?: string | null; deleted_at: string }[];
+  payments: {
+    id: string;
+    amount: number;
+    currency?: string | null;
+    kind?: string | null;
+    client_id?: string | null;
+    allocations?: { invoice_id: string }[] | null;
+    original_payment_id?: string | null;
+    deleted_at: string;
+    client?: { name: string; deleted_at?: string | null } | null;
+  }[];
+  visits: {
+    id: string;
+    location?: string | null;
+    client_id?: string | null;
+    deleted_at: string;
+    client?: { name: string; deleted_at?: string | null } | null;
+  }[];
+  goals: { id: string; title: string; target?: number | null; deleted_at: string }[];
+}
+
+// One list, newest first. Records trashed together with their client (or a refund with its payment)
+// share its deleted_at, so they're folded into that entry and come back with it
+export const toTrashItems = ({ clients, payments, visits, goals }: TrashedRows): TrashItem[] => {
+  const relatedCounts: Record<string, number> = {};
+  const trashedWithClient = (row: { client_id?: string | null; deleted_at: string; client?: { deleted_at?: string | null } | null }) => {
+    if (!row.client_id || row.client?.deleted_at !== row.deleted_at) return false;
+    relatedCounts[row.client_id] = (relatedCounts[row.client_id] || 0) + 1;
+    return true;
+  };
+  const paymentDeletedAt = new Map(payments.map(payment => [payment.id, payment.deleted_at]));
+
+  const items: TrashItem[] = [];
+  payments.forEach(payment => {
+    if (trashedWithClient(payment)) return;
+    if (payment.original_payment_id && paymentDeletedAt.get(payment.original_payment_id) === payment.deleted_at) return;
+    const label = payment.kind === 'refund' ? 'Refund' : payment.kind === 'credit_note' ? 'Credit note' : 'Payment';
+    items.push({
+      id: payment.id,
+      type: 'payment',
+      title: `${label} of ${formatMoney(Number(payment.amount) || 0, payment.currency || undefined)}`,
+      subtitle: payment.client?.name,
+      deleted_at: payment.deleted_at,
+      client_id: payment.client_id,
+      client_name: payment.client?.name,
+      invoice_ids: payment.allocations?.map(allocation => allocation.invoice_id),
+    });
+  });
+  visits.forEach(visit => {
+    if (trashedWithClient(visit)) return;
+    items.push({
+      id: visit.id,
+      type: 'visit',
+      title: visit.location || 'Visit',
+      subtitle: visit.client?.name,
+      deleted_at: visit.deleted_at,
+      client_id: visit.client_id,
+      client_name: visit.client?.name,
+    });
+  });
+  goals.forEach(goal => {
+    items.push({
+      id: goal.id,
+      type: 'goal',
+      title: goal.title,
+      subtitle: goal.target ? `Target ${goal.target}` : undefined,
+      deleted_at: goal.deleted_at,
+    });
+  });
+  clients.forEach(client => {
+    items.push({
+      id: client.id,
+      type: 'client',
+      title: client.name,
+      subtitle: client.business_name || client.email || undefined,
+      deleted_at: client.deleted_at,
+      related_count: relatedCounts[client.id] || 0,
+    });
+  });
+
+  return items.sort((a, b) => new Date(b.deleted_at).getTime() - new Date(a.deleted_at).getTime());
+};
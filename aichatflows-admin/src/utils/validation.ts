@@ -1,4 +1,5 @@
-import { ClientFormData, GoalFormData, PaymentFormData, VisitFormData } from '../types';
+import { ClientFormData, CustomFieldDefinition, GoalFormData, PaymentFormData, PlanInfo, ProspectFormData, TaskFormData, TerritoryFormData, VisitFormData } from '../types';
+import { DEFAULT_PLANS, findPlan } from './finance';
 
 export interface ValidationResult {
   isValid: boolean;
@@ -118,6 +119,15 @@ export function validatePayment(data: Partial<PaymentFormData>): ValidationResul
     errors.amount = 'Payment amount cannot exceed $100,000';
   }
 
+  if (data.amount_owed) {
+    const amountOwed = parseFloat(data.amount_owed);
+    if (isNaN(amountOwed) || amountOwed <= 0) {
+      errors.amount_owed = 'Amount owed must be greater than 0';
+    } else if (amount && amountOwed < amount) {
+      errors.amount_owed = 'Amount owed cannot be less than the amount paid';
+    }
+  }
+
   if (!data.status) {
     errors.status = 'Payment status is required';
   } else if (!['pending', 'confirmed', 'failed'].includes(data.status)) {
@@ -170,6 +180,124 @@ export function validateVisit(data: Partial<VisitFormData>): ValidationResult {
   };
 }
 
+export function validateTask(data: Partial<TaskFormData>): ValidationResult {
+  const errors: Record<string, string> = {};
+
+  if (!data.title?.trim()) {
+    errors.title = 'Task title is required';
+  } else if (data.title.length > 200) {
+    errors.title = 'Task title cannot exceed 200 characters';
+  }
+
+  if (!data.due_date || !/^\d{4}-\d{2}-\d{2}$/.test(data.due_date) || isNaN(new Date(data.due_date).getTime())) {
+    errors.due_date = 'Enter the due date as YYYY-MM-DD';
+  }
+
+  if (data.due_time && !/^([01]?\d|2[0-3]):[0-5]\d$/.test(data.due_time)) {
+    errors.due_time = 'Enter the time as HH:MM (24-hour)';
+  }
+
+  if (data.assignee_email && !EMAIL_REGEX.test(data.assignee_email.trim())) {
+    errors.assignee_email = 'Please enter a valid email address';
+  }
+
+  return {
+    isValid: Object.keys(errors).length === 0,
+    errors,
+  };
+}
+
+export function validateProspect(data: Partial<ProspectFormData>): ValidationResult {
+  const errors: Record<string, string> = {};
+
+  if (!data.business_name?.trim()) {
+    errors.business_name = 'Business name is required';
+  } else if (data.business_name.length > 200) {
+    errors.business_name = 'Business name cannot exceed 200 characters';
+  }
+
+  if (data.contact_email && !EMAIL_REGEX.test(data.contact_email.trim())) {
+    errors.contact_email = 'Please enter a valid email address';
+  }
+
+  if (data.next_action_date && (!/^\d{4}-\d{2}-\d{2}$/.test(data.next_action_date) || isNaN(new Date(data.next_action_date).getTime()))) {
+    errors.next_action_date = 'Enter the date as YYYY-MM-DD';
+  }
+
+  return {
+    isValid: Object.keys(errors).length === 0,
+    errors,
+  };
+}
+
+export function validateTerritory(data: Partial<TerritoryFormData>): ValidationResult {
+  const errors: Record<string, string> = {};
+
+  if (!data.name?.trim()) {
+    errors.name = 'Territory name is required';
+  } else if (data.name.length > 100) {
+    errors.name = 'Territory name cannot exceed 100 characters';
+  }
+
+  if (data.assignee_email && !EMAIL_REGEX.test(data.assignee_email.trim())) {
+    errors.assignee_email = 'Please enter a valid email address';
+  }
+
+  return {
+    isValid: Object.keys(errors).length === 0,
+    errors,
+  };
+}
+
+// Validates custom field inputs against their definitions; errors are keyed `custom_<key>`
+export function validateCustomFields(
+  definitions: CustomFieldDefinition[],
+  inputs: Record<string, string> = {}
+): ValidationResult {
+  const errors: Record<string, string> = {};
+
+  definitions.forEach(definition => {
+    const input = (inputs[definition.key] || '').trim();
+    const errorKey = `custom_${definition.key}`;
+
+    // A yes/no field always has an answer; unanswered means "No"
+    if (!input) {
+      if (definition.required && definition.field_type !== 'boolean') {
+        errors[errorKey] = `${definition.label} is required`;
+      }
+      return;
+    }
+
+    switch (definition.field_type) {
+      case 'number':
+        if (isNaN(Number(input))) {
+          errors[errorKey] = `${definition.label} must be a number`;
+        }
+        break;
+      case 'date':
+        if (!/^\d{4}-\d{2}-\d{2}$/.test(input) || isNaN(new Date(input).getTime())) {
+          errors[errorKey] = 'Enter the date as YYYY-MM-DD';
+        }
+        break;
+      case 'select':
+        if (!definition.options.includes(input)) {
+          errors[errorKey] = `Choose one of the ${definition.label} options`;
+        }
+        break;
+      case 'text':
+        if (input.length > 500) {
+          errors[errorKey] = `${definition.label} cannot exceed 500 characters`;
+        }
+        break;
+    }
+  });
+
+  return {
+    isValid: Object.keys(errors).length === 0,
+    errors,
+  };
+}
+
 // Utility functions for form validation
 export function sanitizeString(value: string | undefined): string {
   return value?.trim() || '';
@@ -293,16 +421,22 @@ export function validateForm<T extends Record<string, any>>(
 }
 
 // Business logic validation
-export function validateBusinessRules(data: any, type: 'client' | 'goal' | 'payment' | 'visit'): ValidationResult {
+export function validateBusinessRules(
+  data: any,
+  type: 'client' | 'goal' | 'payment' | 'visit',
+  plans: PlanInfo[] = DEFAULT_PLANS
+): ValidationResult {
   const errors: Record<string, string> = {};
   
   switch (type) {
-    case 'client':
+    case 'client': {
       // Business rules for clients
-      if (data.plan === 'pro' && !data.payment_method) {
-        errors.payment_method = 'Payment method is required for Pro plan clients';
+      const plan = findPlan(plans, data.plan);
+      if (plan?.requires_payment_method && !data.payment_method) {
+        errors.payment_method = `Payment method is required for ${plan.label} plan clients`;
       }
       break;
+    }
       
     case 'goal':
       // Business rules for goals
@@ -0,0 +1,81 @@
+import { xchacha20poly1305 } from '@noble/ciphers/chacha';
+import { pbkdf2Async } from '@noble/hashes/pbkdf2';
+import { sha256 } from '@noble/hashes/sha2';
+import { bytesToHex, hexToBytes, utf8ToBytes } from '@noble/hashes/utils';
+import * as Crypto from 'expo-crypto';
+
+export type CredentialPlatform = 'instagram' | 'facebook' | 'tiktok';
+
+export const CREDENTIAL_PLATFORMS: CredentialPlatform[] = ['instagram', 'facebook', 'tiktok'];
+
+export const VAULT_KDF_ITERATIONS = 150000;
+export const MIN_PASSPHRASE_LENGTH = 12;
+
+const SALT_BYTES = 16;
+const NONCE_BYTES = 24; // XChaCha20 takes a 24-byte nonce, safe to pick at random
+const KEY_BYTES = 32;
+
+// Known text encrypted with the vault key so a passphrase can be checked without storing it
+const VERIFIER_TEXT = 'aichatflows-credential-vault';
+
+export interface EncryptedSecret {
+  ciphertext: string; // hex, includes the authentication tag
+  nonce: string; // hex
+}
+
+// Key for this app session only; never persisted, cleared when the vault is locked
+let sessionKey: Uint8Array | null = null;
+
+// TextDecoder isn't available on every JS engine the app runs on
+const bytesToUtf8 = (bytes: Uint8Array): string => {
+  return decodeURIComponent(Array.from(bytes, byte => `%${byte.toString(16).padStart(2, '0')}`).join(''));
+};
+
+export const generateSalt = (): string => bytesToHex(Crypto.getRandomBytes(SALT_BYTES));
+
+// Stretch the admin passphrase into a 256-bit key
+export const deriveVaultKey = async (passphrase: string, salt: string, iterations: number): Promise<Uint8Array> => {
+  return pbkdf2Async(sha256, utf8ToBytes(passphrase), hexToBytes(salt), { c: iterations, dkLen: KEY_BYTES });
+};
+
+// Encrypt and authenticate a secret with a fresh random nonce
+export const encryptSecret = (key: Uint8Array, plaintext: string): EncryptedSecret => {
+  const nonce = Crypto.getRandomBytes(NONCE_BYTES);
+  const ciphertext = xchacha20poly1305(key, nonce).encrypt(utf8ToBytes(plaintext));
+  return { ciphertext: bytesToHex(ciphertext), nonce: bytesToHex(nonce) };
+};
+
+// Decrypt a secret; throws if the key is wrong or the ciphertext was tampered with
+export const decryptSecret = (key: Uint8Array, secret: EncryptedSecret): string => {
+  const plaintext = xchacha20poly1305(key, hexToBytes(secret.nonce)).decrypt(hexToBytes(secret.ciphertext));
+  return bytesToUtf8(plaintext);
+};
+
+export const createVerifier = (key: Uint8Array): EncryptedSecret => encryptSecret(key, VERIFIER_TEXT);
+
+// Whether a derived key is the one the vault was set up with
+export const checkVerifier = (key: Uint8Array, verifier: EncryptedSecret): boolean => {
+  try {
+    return decryptSecret(key, verifier) === VERIFIER_TEXT;
+  } catch {
+    return false;
+  }
+};
+
+export const setSessionKey = (key: Uint8Array) => {
+  sessionKey = key;
+};
+
+export const getSessionKey = (): Uint8Array | null => sessionKey;
+
+export const clearSessionKey = () => {
+  if (sessionKey) sessionKey.fill(0);
+  sessionKey = null;
+};
+
+// Fixed-width mask so the length of a secret isn't given away
+export const maskSecret = (): string => '••••••••';
+
+export const getPlatformLabel = (platform: CredentialPlatform): string => {
+  return { instagram: 'Instagram', facebook: 'Facebook', tiktok: 'TikTok' }[platform];
+};
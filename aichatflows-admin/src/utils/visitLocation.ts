@@ -0,0 +1,145 @@
+import { BusinessVisit } from '../types';
+import { Coordinates } from './geo';
+
+export interface VisitAddress {
+  street: string | null;
+  city: string | null;
+  region: string | null;
+  postal_code: string | null;
+  country: string | null;
+}
+
+export interface VisitLocationFields extends VisitAddress {
+  business_name: string | null;
+}
+
+export const VISIT_ADDRESS_FIELDS: (keyof VisitAddress)[] = ['street', 'city', 'region', 'postal_code', 'country'];
+
+// Used in the location string when no business name was given
+export const DEFAULT_VISIT_NAME = 'Business Visit';
+
+const COORDINATES_PATTERN = /\s*\((-?\d+\.\d+),\s*(-?\d+\.\d+)\)\s*$/;
+const COORDINATES_ONLY_PATTERN = /^-?\d+\.\d+,\s*-?\d+\.\d+$/;
+const POSTAL_CODE_PATTERN = /^[A-Za-z0-9][A-Za-z0-9 -]{1,9}$/;
+
+const clean = (value?: string | null): string | null => value?.trim() || null;
+
+const EMPTY_ADDRESS: VisitAddress = { street: null, city: null, region: null, postal_code: null, country: null };
+
+// Address from reverse geocoding; the street number is folded into the street
+export const getGeocodedAddress = (place: {
+  streetNumber?: string | null;
+  street?: string | null;
+  city?: string | null;
+  region?: string | null;
+  postalCode?: string | null;
+  country?: string | null;
+}): VisitAddress => ({
+  street: clean([place.streetNumber, place.street].filter(Boolean).join(' ')),
+  city: clean(place.city),
+  region: clean(place.region),
+  postal_code: clean(place.postalCode),
+  country: clean(place.country),
+});
+
+// Best-effort split of a "street, city, region, postal code, country" address in the order the
+// geocoder writes it. A leading bare number is the street number, the first later part that
+// looks like a postal code is taken as one, and whatever follows it is the country
+export const parseVisitAddress = (address?: string | null): VisitAddress => {
+  const text = address?.trim();
+  if (!text || COORDINATES_ONLY_PATTERN.test(text)) return { ...EMPTY_ADDRESS };
+
+  const parts = text.split(',').map(part => part.trim()).filter(Boolean);
+  if (parts.length > 1 && /^\d+[a-zA-Z]?$/.test(parts[0])) {
+    parts.splice(0, 2, `${parts[0]} ${parts[1]}`);
+  }
+
+  const [street, ...rest] = parts;
+  const postalIndex = rest.findIndex(part => POSTAL_CODE_PATTERN.test(part) && /\d/.test(part));
+  const places = postalIndex >= 0 ? rest.slice(0, postalIndex) : rest.length > 2 ? rest.slice(0, -1) : rest;
+  const country = postalIndex >= 0 ? rest.slice(postalIndex + 1).join(', ') : rest.length > 2 ? rest[rest.length - 1] : null;
+
+  return {
+    street: clean(street),
+    city: clean(places[0]),
+    region: clean(places.slice(1).join(', ')),
+    postal_code: postalIndex >= 0 ? clean(rest[postalIndex]) : null,
+    country: clean(country),
+  };
+};
+
+// Split a legacy "Business - Address (lat, lng)" location string. The name is everything before the
+// last " - " so hyphenated business names survive; geocoded addresses never contain " - "
+export const parseVisitLocation = (location?: string | null): VisitLocationFields => {
+  const text = location?.replace(COORDINATES_PATTERN, '').trim();
+  if (!text) return { business_name: null, ...EMPTY_ADDRESS };
+
+  const separator = text.lastIndexOf(' - ');
+  if (separator === -1) return { business_name: null, ...parseVisitAddress(text) };
+
+  const name = text.slice(0, separator).trim();
+  return {
+    business_name: name && name !== DEFAULT_VISIT_NAME ? name : null,
+    ...parseVisitAddress(text.slice(separator + 3)),
+  };
+};
+
+export const hasStructuredLocation = (visit: BusinessVisit): boolean => {
+  return !!visit.business_name || VISIT_ADDRESS_FIELDS.some(field => !!visit[field]);
+};
+
+// Structured fields, or the parsed location string for visits that haven't been migrated yet
+export const getVisitLocationFields = (visit: BusinessVisit): VisitLocationFields => {
+  if (!hasStructuredLocation(visit)) return parseVisitLocation(visit.location);
+  return {
+    business_name: clean(visit.business_name),
+    street: clean(visit.street),
+    city: clean(visit.city),
+    region: clean(visit.region),
+    postal_code: clean(visit.postal_code),
+    country: clean(visit.country),
+  };
+};
+
+export const formatVisitAddress = (address: VisitAddress): string => {
+  return VISIT_ADDRESS_FIELDS.map(field => address[field]).filter(Boolean).join(', ');
+};
+
+// The display string kept in business_visits.location
+export const buildVisitLocation = (fields: VisitLocationFields, coordinates?: Coordinates | null): string => {
+  const address = formatVisitAddress(fields) || (coordinates
+    ? `${coordinates.latitude.toFixed(6)}, ${coordinates.longitude.toFixed(6)}`
+    : 'Unknown Location');
+  const suffix = coordinates ? ` (${coordinates.latitude.toFixed(6)}, ${coordinates.longitude.toFixed(6)})` : '';
+  return `${fields.business_name || DEFAULT_VISIT_NAME} - ${address}${suffix}`.substring(0, 500);
+};
+
+export const getVisitCoordinates = (visit: BusinessVisit): Coordinates | null => {
+  if (typeof visit.latitude === 'number' && typeof visit.longitude === 'number') {
+    return { latitude: visit.latitude, longitude: visit.longitude };
+  }
+  const match = visit.location?.match(COORDINATES_PATTERN);
+  return match ? { latitude: parseFloat(match[1]), longitude: parseFloat(match[2]) } : null;
+};
+
+const normalizeName = (name: string): string => name.trim().toLowerCase().replace(/\s+/g, ' ');
+
+export const isSameBusiness = (visit: BusinessVisit, businessName: string): boolean => {
+  const name = getVisitLocationFields(visit).business_name;
+  return !!name && normalizeName(name) === normalizeName(businessName);
+};
+
+// Cities visited, for the visits filter
+export const getVisitCities = (visits: BusinessVisit[]): string[] => {
+  const cities = new Set<string>();
+  visits.forEach(visit => {
+    const city = getVisitLocationFields(visit).city;
+    if (city) cities.add(city);
+  });
+  return Array.from(cities).sort((a, b) => a.localeCompare(b));
+};
+
+// Adds the structured fields to every visit so search and sort work before the backfill has run
+export const withVisitLocationFields = <T extends BusinessVisit>(visits: T[]): T[] => {
+  return visits.map(visit => hasStructuredLocation(visit) ? visit : { ...visit, ...parseVisitLocation(visit.location) });
+};